@@ -216,6 +216,137 @@ describe('QuotationPDF Component', () => {
     );
     expect(issuerText).toBeTruthy();
   });
+
+  it('should render discount and discounted subtotal when discount is present', () => {
+    const { getAllByTestId } = render(
+      <QuotationPDF data={mockData} />
+    );
+
+    const texts = getAllByTestId('pdf-text').map(text => text.textContent);
+    expect(texts).toContain('Descuento:');
+    expect(texts).toContain('Subtotal con descuento:');
+  });
+
+  it('should not render discount rows when there is no discount', () => {
+    const dataWithoutDiscount = { ...mockData, discount: 0, total: 1160 };
+    const { getAllByTestId } = render(
+      <QuotationPDF data={dataWithoutDiscount} />
+    );
+
+    const texts = getAllByTestId('pdf-text').map(text => text.textContent);
+    expect(texts).not.toContain('Descuento:');
+    expect(texts).not.toContain('Subtotal con descuento:');
+  });
+
+  it('should render one row per tax when a breakdown is provided', () => {
+    const dataWithTaxes: QuotationPDFData = {
+      ...mockData,
+      discount: 0,
+      tax: 362.4,
+      total: 2527.4,
+      taxBreakdown: [
+        { code: 'IEPS', name: 'IEPS 26.5%', kind: 'transferred', type: 'percentage', rate: 0.265, base: 1000, amount: 265 },
+        { code: 'IVA', name: 'IVA 16%', kind: 'transferred', type: 'percentage', rate: 0.16, base: 2265, amount: 362.4 },
+        { code: 'ISR', name: 'Retención ISR', kind: 'withheld', type: 'percentage', rate: 0.1, base: 1000, amount: 100 },
+      ],
+    };
+    const { getAllByTestId } = render(
+      <QuotationPDF data={dataWithTaxes} />
+    );
+
+    const texts = getAllByTestId('pdf-text').map(text => text.textContent);
+    expect(texts).toContain('IEPS 26.5%:');
+    expect(texts).toContain('IVA 16%:');
+    expect(texts).toContain('Ret. ISR 10%:');
+    expect(texts).not.toContain('IVA (16%):');
+  });
+
+  it('should show the volume tier a line was priced at', () => {
+    const dataWithTier: QuotationPDFData = {
+      ...mockData,
+      items: [{ ...mockData.items[0], priceTier: { min_quantity: 12, max_quantity: 47 } }],
+    };
+    const { getAllByTestId } = render(
+      <QuotationPDF data={dataWithTier} />
+    );
+
+    const texts = getAllByTestId('pdf-text').map(text => text.textContent);
+    expect(texts).toContain('Precio por volumen (12-47)');
+  });
+
+  it('should show the unit a line is sold in', () => {
+    const dataByTheBox: QuotationPDFData = {
+      ...mockData,
+      items: [{ ...mockData.items[0], quantity: 2, unit: 'CAJA' }],
+    };
+    const { getAllByTestId } = render(
+      <QuotationPDF data={dataByTheBox} />
+    );
+
+    const texts = getAllByTestId('pdf-text').map(text => text.textContent);
+    expect(texts).toContain('CAJA');
+  });
+
+  it('should list the components of an expanded kit', () => {
+    const dataWithKit: QuotationPDFData = {
+      ...mockData,
+      items: [{
+        ...mockData.items[0],
+        components: [
+          { productCode: 'JAB-01', productName: 'Jabón de tocador', quantity: 20, unit: 'PIEZA' },
+          { productCode: 'SHA-01', productName: 'Shampoo 30 ml', quantity: 10 },
+        ],
+      }],
+    };
+    const { getAllByTestId } = render(
+      <QuotationPDF data={dataWithKit} />
+    );
+
+    const texts = getAllByTestId('pdf-text').map(text => text.textContent);
+    expect(texts).toContain('20 PIEZA × Jabón de tocador (JAB-01)');
+    expect(texts).toContain('10 × Shampoo 30 ml (SHA-01)');
+  });
+
+  it('should list option lines the client has not taken apart from the totals', () => {
+    const dataWithOptions: QuotationPDFData = {
+      ...mockData,
+      items: [
+        mockData.items[0],
+        { ...mockData.items[0], id: '2', productName: 'Instalación', isOptional: true, isSelected: false, total: 580 },
+        { ...mockData.items[0], id: '3', productName: 'Manguera 10 m', alternativeGroup: 'A', isSelected: true },
+      ],
+    };
+    const { getAllByTestId } = render(
+      <QuotationPDF data={dataWithOptions} />
+    );
+
+    const texts = getAllByTestId('pdf-text').map(text => text.textContent);
+    expect(texts).toContain('PARTIDAS OPCIONALES');
+    expect(texts).toContain('Opcional');
+    expect(texts).toContain('Alternativa A');
+    expect(texts.some(text => text?.startsWith('Importe de partidas opcionales (no incluido en el total): $580.00'))).toBe(true);
+  });
+
+  it('should state the currency and exchange rate for USD quotations', () => {
+    const dataInUSD: QuotationPDFData = { ...mockData, currency: 'USD', exchangeRate: 17.25 };
+    const { getAllByTestId } = render(
+      <QuotationPDF data={dataInUSD} />
+    );
+
+    const texts = getAllByTestId('pdf-text').map(text => text.textContent);
+    expect(texts).toContain('* Precios expresados en Dólares Estadounidenses (USD)');
+    expect(texts).toContain('* Tipo de cambio: 17.2500 MXN por USD');
+  });
+
+  it('should not show an exchange rate for MXN quotations', () => {
+    const { getAllByTestId } = render(
+      <QuotationPDF data={mockData} />
+    );
+
+    const texts = getAllByTestId('pdf-text').map(text => text.textContent);
+    expect(texts).toContain('* Precios expresados en Pesos Mexicanos (MXN)');
+    expect(texts.some(text => text?.includes('Tipo de cambio'))).toBe(false);
+  });
 });
 
 describe('QuotationPDFViewer Component', () => {
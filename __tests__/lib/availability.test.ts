@@ -0,0 +1,87 @@
+/**
+ * Availability Unit Tests
+ * Tests for how much of each quotation line the available stock can supply
+ */
+
+import {
+  checkAvailability,
+  describeShortage,
+  getLineProductIds,
+  type AvailabilityLine
+} from '../../lib/availability';
+
+const soap: AvailabilityLine = {
+  id: 'line-1',
+  product_id: 'soap',
+  product_name: 'Jabón de tocador',
+  unit: 'CAJA',
+  unit_factor: 12,
+  quantity: 5,
+  bundle_components: null
+};
+
+const kit: AvailabilityLine = {
+  id: 'line-2',
+  product_id: 'kit',
+  product_name: 'Kit de baño',
+  unit: 'PIEZA',
+  unit_factor: 1,
+  quantity: 4,
+  bundle_components: [
+    { product_id: 'soap', quantity: 2 },
+    { product_id: 'towel', quantity: 1 }
+  ]
+};
+
+describe('checkAvailability', () => {
+  test('supplies lines in full when there is stock', () => {
+    expect(checkAvailability([soap], { soap: 60 })).toEqual([
+      { id: 'line-1', quantity: 5, suppliable: 5, shortage: 0, backorder: false, restockDate: null }
+    ]);
+  });
+
+  test('counts stock in base units and supplies whole line units', () => {
+    const [line] = checkAvailability([soap], { soap: 40 });
+
+    expect(line.suppliable).toBe(3);
+    expect(line.shortage).toBe(2);
+  });
+
+  test('kits draw on their components, after the lines before them', () => {
+    const [, kitLine] = checkAvailability([{ ...soap, quantity: 3 }, kit], { soap: 40, towel: 10 });
+
+    // 40 - 36 soaps leave 4, enough for 2 kits of 2 soaps
+    expect(kitLine.suppliable).toBe(2);
+    expect(kitLine.shortage).toBe(2);
+  });
+
+  test('products without a stock level are not checked', () => {
+    const [line] = checkAvailability([kit], { towel: 10 });
+
+    expect(line.shortage).toBe(0);
+  });
+
+  test('gives the date the last missing product is restocked', () => {
+    const restock = { soap: '2026-11-20', towel: '2026-11-12' };
+
+    expect(checkAvailability([kit], { soap: 0, towel: 0 }, restock)[0].restockDate).toBe('2026-11-20');
+    expect(checkAvailability([kit], { soap: 0, towel: 0 }, { towel: '2026-11-12' })[0].restockDate).toBeNull();
+    expect(checkAvailability([kit], { soap: 100, towel: 0 }, restock)[0].restockDate).toBe('2026-11-12');
+  });
+});
+
+describe('describeShortage', () => {
+  test('says what is in stock, or what is backordered', () => {
+    const [line] = checkAvailability([soap], { soap: 40 });
+
+    expect(describeShortage(soap, line)).toBe('"Jabón de tocador": 3 of 5 CAJA in stock');
+    expect(describeShortage(soap, { ...line, backorder: true, restockDate: '2026-11-20' }))
+      .toBe('"Jabón de tocador": 2 CAJA backordered, restock expected 2026-11-20');
+  });
+});
+
+describe('getLineProductIds', () => {
+  test('lists each product once, kit components included', () => {
+    expect(getLineProductIds([soap, kit])).toEqual(['soap', 'towel']);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Product Bundle Unit Tests
+ * Tests for kit pricing, component snapshots and validation
+ */
+
+import {
+  calculateBundlePrice,
+  expandBundleComponents,
+  snapshotBundleComponents,
+  validateBundleItems,
+  type BundleComponentProduct,
+  type BundleItem
+} from '../../lib/bundles';
+import type { TaxConfiguration } from '../../lib/calculations';
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: jest.fn()
+}));
+
+const iva: TaxConfiguration = {
+  id: 'iva',
+  name: 'IVA 16%',
+  type: 'percentage',
+  rate: 0.16,
+  is_default: true,
+  is_active: true
+};
+
+const catalog: BundleComponentProduct[] = [
+  { id: 'soap', code: 'JAB-01', name: 'Jabón de tocador', unit: 'PIEZA', base_price: 8.5 },
+  { id: 'shampoo', code: 'SHA-01', name: 'Shampoo 30 ml', unit: 'PIEZA', base_price: 12.25 },
+  { id: 'kit', code: 'KIT-01', name: 'Kit de amenidades', unit: 'PIEZA', base_price: 30, is_bundle: true }
+];
+
+const amenities: BundleItem[] = [
+  { component_id: 'soap', quantity: 2 },
+  { component_id: 'shampoo', quantity: 1 }
+];
+
+describe('calculateBundlePrice', () => {
+  test('fixed bundles keep their own public price', () => {
+    expect(calculateBundlePrice('fixed', 35, amenities, catalog, [iva], false)).toBe(35);
+  });
+
+  test('summed bundles add up their components before taxes', () => {
+    expect(calculateBundlePrice('sum', 0, amenities, catalog, [iva], false)).toBe(29.25);
+  });
+
+  test('summed bundles sold with taxes included add the bundle taxes', () => {
+    expect(calculateBundlePrice('sum', 0, amenities, catalog, [iva], true)).toBe(33.93);
+  });
+
+  test('components missing from the catalog count as zero', () => {
+    expect(calculateBundlePrice('sum', 0, [...amenities, { component_id: 'gone', quantity: 3 }], catalog, [], false))
+      .toBe(29.25);
+  });
+});
+
+describe('snapshotBundleComponents', () => {
+  test('copies the component details quoted on the line', () => {
+    expect(snapshotBundleComponents(amenities, catalog)).toEqual([
+      { product_id: 'soap', product_code: 'JAB-01', product_name: 'Jabón de tocador', unit: 'PIEZA', quantity: 2 },
+      { product_id: 'shampoo', product_code: 'SHA-01', product_name: 'Shampoo 30 ml', unit: 'PIEZA', quantity: 1 }
+    ]);
+  });
+
+  test('multiplies per-kit quantities by the kits on a line', () => {
+    const expanded = expandBundleComponents(snapshotBundleComponents(amenities, catalog), 10);
+    expect(expanded.map(component => component.quantity)).toEqual([20, 10]);
+  });
+});
+
+describe('validateBundleItems', () => {
+  test('accepts a valid kit', () => {
+    expect(validateBundleItems('kit', amenities, catalog)).toEqual([]);
+  });
+
+  test('requires at least one component', () => {
+    expect(validateBundleItems('kit', [], catalog)).toEqual(['A bundle needs at least one component']);
+  });
+
+  test('checks each component', () => {
+    expect(validateBundleItems('new-kit', [
+      { component_id: '', quantity: 1 },
+      { component_id: 'kit', quantity: 1 },
+      { component_id: 'soap', quantity: 1.5 },
+      { component_id: 'soap', quantity: 2 }
+    ], catalog)).toEqual([
+      'Component 1: choose a product',
+      'Component 2: bundles cannot contain other bundles',
+      'Component 3: quantity must be a whole number above 0',
+      'Component 4: product is listed more than once'
+    ]);
+  });
+
+  test('a bundle cannot contain itself', () => {
+    expect(validateBundleItems('soap', [{ component_id: 'soap', quantity: 1 }], catalog))
+      .toEqual(['Component 1: a bundle cannot contain itself']);
+  });
+});
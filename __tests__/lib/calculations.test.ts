@@ -9,11 +9,21 @@ import {
   calculateTaxAmount,
   calculateLineItem,
   calculateDocumentTotals,
+  calculateDiscountAmount,
+  applyDocumentDiscount,
+  calculateLineTaxes,
+  calculateCombinedTaxRate,
   roundToPesos,
   validateDocumentTotals,
   createDefaultTaxConfig,
   calculateMultipleLineItems,
   calculateProductPricing,
+  calculateNetPrice,
+  calculateTaxIncludedLineItem,
+  splitTaxIncludedAmount,
+  resolvePriceTier,
+  validatePriceTiers,
+  formatTierRange,
   type TaxConfiguration,
   type LineItemCalculation
 } from '../../lib/calculations';
@@ -121,14 +131,21 @@ describe('calculatePublicPrice', () => {
     is_active: true
   };
 
-  test('calculates public price with tax not included', () => {
-    expect(calculatePublicPrice(100, tax16, false)).toBe(116.00);
-    expect(calculatePublicPrice(250, tax16, false)).toBe(290.00);
+  test('returns base price when tax is not included', () => {
+    expect(calculatePublicPrice(100, tax16, false)).toBe(100.00);
+    expect(calculatePublicPrice(250, tax16, false)).toBe(250.00);
   });
 
-  test('returns base price when tax is included', () => {
-    expect(calculatePublicPrice(100, tax16, true)).toBe(100.00);
-    expect(calculatePublicPrice(250, tax16, true)).toBe(250.00);
+  test('adds tax to the base price when tax is included', () => {
+    expect(calculatePublicPrice(100, tax16, true)).toBe(116.00);
+    expect(calculatePublicPrice(250, tax16, true)).toBe(290.00);
+  });
+
+  test('stacks every transferred tax into an included price', () => {
+    const ieps: TaxConfiguration = { ...tax16, id: 'ieps-265', name: 'IEPS', rate: 0.265, code: 'IEPS', apply_order: 0 };
+    const iva: TaxConfiguration = { ...tax16, apply_order: 1, is_compound: true };
+    // 100 + 26.50 IEPS + 20.24 IVA on 126.50
+    expect(calculatePublicPrice(100, [ieps, iva], true)).toBe(146.74);
   });
 
   test('throws error for negative base price', () => {
@@ -143,7 +160,11 @@ describe('calculateLineItem', () => {
       quantity: 5,
       unit_price: 100,
       tax_rate: 0.16,
+      gross_amount: 500.00,
+      discount_amount: 0.00,
       tax_amount: 80.00,
+      withholding_amount: 0.00,
+      taxes: [expect.objectContaining({ base: 500.00, amount: 80.00 })],
       subtotal: 500.00,
       total: 580.00
     });
@@ -155,7 +176,11 @@ describe('calculateLineItem', () => {
       quantity: 2.5,
       unit_price: 50,
       tax_rate: 0.16,
+      gross_amount: 125.00,
+      discount_amount: 0.00,
       tax_amount: 20.00,
+      withholding_amount: 0.00,
+      taxes: [expect.objectContaining({ base: 125.00, amount: 20.00 })],
       subtotal: 125.00,
       total: 145.00
     });
@@ -167,7 +192,11 @@ describe('calculateLineItem', () => {
       quantity: 3,
       unit_price: 100,
       tax_rate: 0,
+      gross_amount: 300.00,
+      discount_amount: 0.00,
       tax_amount: 0.00,
+      withholding_amount: 0.00,
+      taxes: [expect.objectContaining({ base: 300.00, amount: 0.00 })],
       subtotal: 300.00,
       total: 300.00
     });
@@ -179,7 +208,11 @@ describe('calculateLineItem', () => {
       quantity: 0,
       unit_price: 100,
       tax_rate: 0.16,
+      gross_amount: 0.00,
+      discount_amount: 0.00,
       tax_amount: 0.00,
+      withholding_amount: 0.00,
+      taxes: [expect.objectContaining({ base: 0.00, amount: 0.00 })],
       subtotal: 0.00,
       total: 0.00
     });
@@ -203,6 +236,8 @@ describe('calculateDocumentTotals', () => {
     quantity: 2,
     unit_price: 100,
     tax_rate: 0.16,
+    gross_amount: 200.00,
+    discount_amount: 0.00,
     tax_amount: 32.00,
     subtotal: 200.00,
     total: 232.00
@@ -212,6 +247,8 @@ describe('calculateDocumentTotals', () => {
     quantity: 1,
     unit_price: 50,
     tax_rate: 0.16,
+    gross_amount: 50.00,
+    discount_amount: 0.00,
     tax_amount: 8.00,
     subtotal: 50.00,
     total: 58.00
@@ -221,7 +258,12 @@ describe('calculateDocumentTotals', () => {
     const result = calculateDocumentTotals([lineItem1, lineItem2]);
     expect(result).toEqual({
       subtotal: 250.00,
+      discount_amount: 0.00,
       tax_amount: 40.00,
+      withholding_amount: 0.00,
+      tax_breakdown: [
+        { code: 'IVA', name: 'IVA', kind: 'transferred', type: 'percentage', rate: 0.16, base: 250.00, amount: 40.00 }
+      ],
       total: 290.00
     });
   });
@@ -230,7 +272,10 @@ describe('calculateDocumentTotals', () => {
     const result = calculateDocumentTotals([]);
     expect(result).toEqual({
       subtotal: 0.00,
+      discount_amount: 0.00,
       tax_amount: 0.00,
+      withholding_amount: 0.00,
+      tax_breakdown: [],
       total: 0.00
     });
   });
@@ -239,7 +284,12 @@ describe('calculateDocumentTotals', () => {
     const result = calculateDocumentTotals([lineItem1]);
     expect(result).toEqual({
       subtotal: 200.00,
+      discount_amount: 0.00,
       tax_amount: 32.00,
+      withholding_amount: 0.00,
+      tax_breakdown: [
+        { code: 'IVA', name: 'IVA', kind: 'transferred', type: 'percentage', rate: 0.16, base: 200.00, amount: 32.00 }
+      ],
       total: 232.00
     });
   });
@@ -249,6 +299,251 @@ describe('calculateDocumentTotals', () => {
   });
 });
 
+describe('calculateDiscountAmount', () => {
+  test('calculates percentage discounts', () => {
+    expect(calculateDiscountAmount(500, { type: 'percentage', value: 0.10 })).toBe(50.00);
+    expect(calculateDiscountAmount(333.33, { type: 'percentage', value: 0.15 })).toBe(50.00);
+  });
+
+  test('returns fixed discounts as-is', () => {
+    expect(calculateDiscountAmount(500, { type: 'fixed_amount', value: 75.5 })).toBe(75.50);
+  });
+
+  test('returns zero without a discount', () => {
+    expect(calculateDiscountAmount(500)).toBe(0);
+    expect(calculateDiscountAmount(500, null)).toBe(0);
+  });
+
+  test('rejects negative discounts', () => {
+    expect(() => calculateDiscountAmount(500, { type: 'fixed_amount', value: -1 })).toThrow('Discount cannot be negative');
+  });
+
+  test('rejects percentages above 100%', () => {
+    expect(() => calculateDiscountAmount(500, { type: 'percentage', value: 1.5 })).toThrow('Percentage discount cannot exceed 100%');
+  });
+
+  test('rejects fixed discounts larger than the base', () => {
+    expect(() => calculateDiscountAmount(50, { type: 'fixed_amount', value: 60 })).toThrow('Discount cannot exceed the amount it applies to');
+  });
+});
+
+describe('Line discounts', () => {
+  test('applies a percentage discount before tax', () => {
+    const result = calculateLineItem(5, 100, 0.16, { type: 'percentage', value: 0.10 });
+    expect(result).toEqual({
+      quantity: 5,
+      unit_price: 100,
+      tax_rate: 0.16,
+      gross_amount: 500.00,
+      discount_amount: 50.00,
+      tax_amount: 72.00,
+      withholding_amount: 0.00,
+      taxes: [expect.objectContaining({ base: 450.00, amount: 72.00 })],
+      subtotal: 450.00,
+      total: 522.00
+    });
+  });
+
+  test('applies a fixed discount before tax', () => {
+    const result = calculateLineItem(2, 100, 0.16, { type: 'fixed_amount', value: 25 });
+    expect(result.subtotal).toBe(175.00);
+    expect(result.tax_amount).toBe(28.00);
+    expect(result.total).toBe(203.00);
+  });
+
+  test('a 100% discount zeroes the line', () => {
+    const result = calculateLineItem(3, 40, 0.16, { type: 'percentage', value: 1 });
+    expect(result.subtotal).toBe(0.00);
+    expect(result.total).toBe(0.00);
+  });
+
+  test('batch calculation passes discounts through', () => {
+    const [line] = calculateMultipleLineItems([
+      { quantity: 1, unit_price: 200, tax_rate: 0.16, discount: { type: 'fixed_amount', value: 20 } }
+    ]);
+    expect(line.discount_amount).toBe(20.00);
+    expect(line.subtotal).toBe(180.00);
+  });
+});
+
+describe('Document discounts', () => {
+  const lines = [
+    calculateLineItem(2, 100, 0.16),
+    calculateLineItem(1, 100, 0)
+  ];
+
+  test('reduces the taxable base of each line', () => {
+    const totals = calculateDocumentTotals(lines, { type: 'percentage', value: 0.10 });
+    expect(totals).toEqual({
+      subtotal: 270.00,
+      discount_amount: 30.00,
+      tax_amount: 28.80,
+      withholding_amount: 0.00,
+      tax_breakdown: [
+        { code: 'IVA', name: 'IVA', kind: 'transferred', type: 'percentage', rate: 0.16, base: 180.00, amount: 28.80 },
+        { code: 'IVA', name: 'IVA', kind: 'transferred', type: 'percentage', rate: 0, base: 90.00, amount: 0.00 }
+      ],
+      total: 298.80
+    });
+  });
+
+  test('prorates fixed discounts across lines with different tax rates', () => {
+    const discounted = applyDocumentDiscount(lines, { type: 'fixed_amount', value: 30 });
+    expect(discounted[0].discount_amount).toBe(20.00);
+    expect(discounted[1].discount_amount).toBe(10.00);
+    expect(discounted[0].tax_amount).toBe(28.80);
+    expect(discounted[1].tax_amount).toBe(0.00);
+  });
+
+  test('shares add up to the document discount to the centavo', () => {
+    const thirds = [
+      calculateLineItem(1, 100, 0.16),
+      calculateLineItem(1, 100, 0.16),
+      calculateLineItem(1, 100, 0.16)
+    ];
+    const discounted = applyDocumentDiscount(thirds, { type: 'fixed_amount', value: 100 });
+    const shares = discounted.map(line => line.discount_amount);
+    expect(shares).toEqual([33.34, 33.33, 33.33]);
+    expect(roundToPesos(shares.reduce((sum, share) => sum + share, 0))).toBe(100.00);
+  });
+
+  test('stacks on top of line discounts', () => {
+    const discountedLines = [
+      calculateLineItem(1, 1000, 0.16, { type: 'percentage', value: 0.10 })
+    ];
+    const totals = calculateDocumentTotals(discountedLines, { type: 'fixed_amount', value: 100 });
+    expect(totals.discount_amount).toBe(200.00);
+    expect(totals.subtotal).toBe(800.00);
+    expect(totals.tax_amount).toBe(128.00);
+    expect(totals.total).toBe(928.00);
+  });
+
+  test('returns lines untouched without a document discount', () => {
+    expect(applyDocumentDiscount(lines)).toBe(lines);
+  });
+
+  test('discounted totals keep total = subtotal + tax_amount', () => {
+    const totals = calculateDocumentTotals(lines, { type: 'percentage', value: 0.07 });
+    expect(validateDocumentTotals(totals)).toBe(true);
+  });
+});
+
+describe('Multiple taxes', () => {
+  const iva: TaxConfiguration = {
+    id: 'iva-16',
+    name: 'IVA 16%',
+    type: 'percentage',
+    rate: 0.16,
+    is_default: true,
+    is_active: true,
+    code: 'IVA',
+    kind: 'transferred',
+    apply_order: 1,
+    is_compound: true
+  };
+
+  const ieps: TaxConfiguration = {
+    id: 'ieps-26.5',
+    name: 'IEPS 26.5%',
+    type: 'percentage',
+    rate: 0.265,
+    is_default: false,
+    is_active: true,
+    code: 'IEPS',
+    kind: 'transferred',
+    apply_order: 0
+  };
+
+  const retIva: TaxConfiguration = {
+    id: 'ret-iva',
+    name: 'Retención IVA',
+    type: 'percentage',
+    rate: 0.106667,
+    is_default: false,
+    is_active: true,
+    code: 'IVA',
+    kind: 'withheld',
+    apply_order: 2
+  };
+
+  const retIsr: TaxConfiguration = {
+    id: 'ret-isr',
+    name: 'Retención ISR',
+    type: 'percentage',
+    rate: 0.10,
+    is_default: false,
+    is_active: true,
+    code: 'ISR',
+    kind: 'withheld',
+    apply_order: 2
+  };
+
+  test('stacks IVA on top of IEPS', () => {
+    const taxes = calculateLineTaxes(1000, 1, [iva, ieps]);
+    expect(taxes.map(entry => [entry.tax.code, entry.base, entry.amount])).toEqual([
+      ['IEPS', 1000.00, 265.00],
+      ['IVA', 1265.00, 202.40]
+    ]);
+  });
+
+  test('non-compound taxes share the plain subtotal', () => {
+    const taxes = calculateLineTaxes(1000, 1, [{ ...iva, is_compound: false }, ieps]);
+    expect(taxes[1].base).toBe(1000.00);
+    expect(taxes[1].amount).toBe(160.00);
+  });
+
+  test('charges fixed-amount taxes per unit', () => {
+    const cuota: TaxConfiguration = { ...ieps, id: 'ieps-cuota', type: 'fixed_amount', rate: undefined, amount: 1.5 };
+    const taxes = calculateLineTaxes(100, 4, [cuota]);
+    expect(taxes[0].amount).toBe(6.00);
+  });
+
+  test('skips inactive taxes', () => {
+    expect(calculateLineTaxes(100, 1, [{ ...ieps, is_active: false }, iva])).toHaveLength(1);
+  });
+
+  test('line totals separate transferred and withheld taxes', () => {
+    const result = calculateLineItem(1, 10000, [iva, retIva, retIsr]);
+    expect(result.tax_amount).toBe(1600.00);
+    expect(result.withholding_amount).toBe(2066.67);
+    expect(result.total).toBe(9533.33);
+  });
+
+  test('withholdings are never part of another tax base', () => {
+    const result = calculateLineItem(1, 1000, [retIsr, { ...iva, apply_order: 3 }]);
+    expect(result.taxes[1].base).toBe(1000.00);
+  });
+
+  test('reports the combined transferred rate', () => {
+    expect(calculateCombinedTaxRate([iva, ieps, retIsr])).toBe(0.4674);
+    expect(calculateLineItem(1, 100, [iva, ieps]).tax_rate).toBe(0.4674);
+  });
+
+  test('document discounts recompute every tax on the new base', () => {
+    const line = calculateLineItem(1, 1000, [iva, ieps, retIsr]);
+    const [discounted] = applyDocumentDiscount([line], { type: 'percentage', value: 0.10 });
+    expect(discounted.taxes.map(entry => entry.amount)).toEqual([238.50, 182.16, 90.00]);
+    expect(discounted.total).toBe(1230.66);
+  });
+
+  test('breaks document totals down per tax and rate', () => {
+    const totals = calculateDocumentTotals([
+      calculateLineItem(1, 1000, [iva, ieps]),
+      calculateLineItem(2, 500, [iva, retIsr])
+    ]);
+
+    expect(totals.tax_breakdown).toEqual([
+      { code: 'IEPS', name: 'IEPS 26.5%', kind: 'transferred', type: 'percentage', rate: 0.265, base: 1000.00, amount: 265.00 },
+      { code: 'IVA', name: 'IVA 16%', kind: 'transferred', type: 'percentage', rate: 0.16, base: 2265.00, amount: 362.40 },
+      { code: 'ISR', name: 'Retención ISR', kind: 'withheld', type: 'percentage', rate: 0.10, base: 1000.00, amount: 100.00 }
+    ]);
+    expect(totals.tax_amount).toBe(627.40);
+    expect(totals.withholding_amount).toBe(100.00);
+    expect(totals.total).toBe(2527.40);
+    expect(validateDocumentTotals(totals)).toBe(true);
+  });
+});
+
 describe('roundToPesos', () => {
   test('rounds to 2 decimal places with banker\'s rounding', () => {
     expect(roundToPesos(100.123)).toBe(100.12);
@@ -359,7 +654,7 @@ describe('calculateProductPricing', () => {
       cost_price: 100.00,
       profit_margin: 0.30,
       base_price: 130.00,
-      public_price: 150.80,
+      public_price: 130.00,
       tax_id: 'iva-16',
       tax_included: false
     });
@@ -371,14 +666,228 @@ describe('calculateProductPricing', () => {
       cost_price: 100.00,
       profit_margin: 0.30,
       base_price: 130.00,
-      public_price: 130.00,
+      public_price: 150.80,
       tax_id: 'iva-16',
       tax_included: true
     });
   });
 });
 
+describe('Tax-included prices', () => {
+  const iva: TaxConfiguration = {
+    id: 'iva-16',
+    name: 'IVA',
+    type: 'percentage',
+    rate: 0.16,
+    is_default: true,
+    is_active: true,
+    code: 'IVA',
+    kind: 'transferred',
+    apply_order: 1,
+    is_compound: true
+  };
+  const ieps: TaxConfiguration = { ...iva, id: 'ieps-265', name: 'IEPS', rate: 0.265, code: 'IEPS', apply_order: 0, is_compound: false };
+  const isr: TaxConfiguration = { ...iva, id: 'isr-10', name: 'ISR', rate: 0.10, code: 'ISR', kind: 'withheld', apply_order: 2, is_compound: false };
+
+  test('splits a gross amount into subtotal and IVA', () => {
+    const result = splitTaxIncludedAmount(116, 1, [iva]);
+    expect(result.subtotal).toBe(100.00);
+    expect(result.taxes).toEqual([expect.objectContaining({ base: 100.00, amount: 16.00 })]);
+  });
+
+  test('splits stacked IEPS and IVA', () => {
+    const result = splitTaxIncludedAmount(146.74, 1, [ieps, iva]);
+    expect(result.subtotal).toBe(100.00);
+    expect(result.taxes.map(entry => entry.amount)).toEqual([26.50, 20.24]);
+  });
+
+  test('takes fixed cuotas out per unit', () => {
+    const cuota: TaxConfiguration = { ...ieps, id: 'ieps-cuota', type: 'fixed_amount', rate: undefined, amount: 1.5 };
+    const result = splitTaxIncludedAmount(2 * (10 + 1.5) * 1.16, 2, [cuota, iva]);
+    expect(result.subtotal).toBe(20.00);
+    expect(result.taxes.map(entry => entry.amount)).toEqual([3.00, 3.68]);
+  });
+
+  test('charges withholdings on the derived subtotal', () => {
+    const result = splitTaxIncludedAmount(1160, 1, [iva, isr]);
+    expect(result.subtotal).toBe(1000.00);
+    expect(result.taxes.map(entry => entry.amount)).toEqual([160.00, 100.00]);
+  });
+
+  test('reconciles IVA-included amounts to the centavo', () => {
+    for (let cents = 0; cents <= 5000; cents++) {
+      const gross = cents / 100;
+      const { subtotal, taxes } = splitTaxIncludedAmount(gross, 1, [iva]);
+      expect(roundToPesos(subtotal + taxes[0].amount)).toBe(gross);
+    }
+  });
+
+  test('reconciles tax-included line totals to the centavo', () => {
+    for (const price of [0.01, 0.99, 1.15, 9.99, 86.21, 99.99, 129.9, 1234.57]) {
+      for (const quantity of [1, 2, 3, 7, 12, 2.5]) {
+        for (const taxes of [[iva], [ieps, iva]]) {
+          const line = calculateTaxIncludedLineItem(quantity, price, taxes);
+          expect(roundToPesos(line.subtotal + line.tax_amount)).toBe(roundToPesos(quantity * price));
+          expect(line.total).toBe(roundToPesos(quantity * price));
+        }
+      }
+    }
+  });
+
+  test('does not tax the included price again', () => {
+    const line = calculateTaxIncludedLineItem(3, 116, [iva]);
+    expect(line).toEqual(expect.objectContaining({
+      unit_price: 100,
+      gross_amount: 300.00,
+      subtotal: 300.00,
+      tax_amount: 48.00,
+      total: 348.00
+    }));
+  });
+
+  test('keeps the net unit price to six decimals', () => {
+    const line = calculateTaxIncludedLineItem(1, 99.99, 0.16);
+    expect(line.subtotal).toBe(86.20);
+    expect(line.tax_amount).toBe(13.79);
+    expect(line.unit_price).toBe(86.2);
+  });
+
+  test('takes the discount off the tax-included amount', () => {
+    const line = calculateTaxIncludedLineItem(2, 58, [iva], { type: 'percentage', value: 0.10 });
+    expect(line.gross_amount).toBe(100.00);
+    expect(line.subtotal).toBe(90.00);
+    expect(line.discount_amount).toBe(10.00);
+    expect(line.total).toBe(104.40);
+  });
+
+  test('tax-included and tax-added lines agree on the same net price', () => {
+    const included = calculateTaxIncludedLineItem(4, 150.80, [iva]);
+    const added = calculateLineItem(4, 130, [iva]);
+    expect(included.subtotal).toBe(added.subtotal);
+    expect(included.tax_amount).toBe(added.tax_amount);
+    expect(included.total).toBe(added.total);
+  });
+
+  test('calculateMultipleLineItems honours tax_included', () => {
+    const [line] = calculateMultipleLineItems([{ quantity: 1, unit_price: 116, tax_rate: 0.16, tax_included: true }]);
+    expect(line.total).toBe(116.00);
+    expect(line.tax_amount).toBe(16.00);
+  });
+
+  test('calculateNetPrice inverts calculatePublicPrice', () => {
+    for (const base of [0.01, 1, 12.34, 99.99, 130, 4321.09]) {
+      expect(calculateNetPrice(calculatePublicPrice(base, iva, true), iva, true)).toBe(base);
+      expect(calculateNetPrice(calculatePublicPrice(base, [ieps, iva], true), [ieps, iva], true)).toBe(base);
+    }
+    expect(calculateNetPrice(130, iva, false)).toBe(130.00);
+  });
+
+  test('rejects negative gross amounts', () => {
+    expect(() => splitTaxIncludedAmount(-1, 1, [iva])).toThrow('Gross amount cannot be negative');
+    expect(() => calculateNetPrice(-1, iva, true)).toThrow('Public price cannot be negative');
+  });
+});
+
+describe('Rounding', () => {
+  const hotelOrder = () =>
+    Array.from({ length: 400 }, (_, index) =>
+      calculateLineItem((index % 7) + 1, 12.35 + (index % 13) * 0.35, 0.16)
+    );
+
+  test('document totals add up the lines exactly', () => {
+    const lines = hotelOrder();
+    const totals = calculateDocumentTotals(lines);
+    const cents = (key: 'subtotal' | 'tax_amount' | 'total') =>
+      lines.reduce((sum, line) => sum + Math.round(line[key] * 100), 0) / 100;
+
+    expect(totals.subtotal).toBe(cents('subtotal'));
+    expect(totals.tax_amount).toBe(cents('tax_amount'));
+    expect(totals.total).toBe(cents('total'));
+    expect(validateDocumentTotals(totals)).toBe(true);
+  });
+
+  test('half-up rounding breaks ties away from zero', () => {
+    const halfEven = calculateLineItem(1, 2.25, 0.10);
+    const halfUp = calculateLineItem(1, 2.25, 0.10, null, { mode: 'half-up', scope: 'line' });
+    expect(halfEven.tax_amount).toBe(0.22);
+    expect(halfUp.tax_amount).toBe(0.23);
+  });
+
+  test('rounds taxes on the exact decimal product', () => {
+    // 1.15 * 0.3 is a tie at 0.345; the float product is 0.345 minus a hair
+    expect(calculateTaxAmount(1.15, { ...createDefaultTaxConfig(), rate: 0.3 })).toBe(0.34);
+    expect(calculateLineItem(1, 1.15, 0.3, null, { mode: 'half-up', scope: 'line' }).tax_amount).toBe(0.35);
+  });
+
+  test('document scope rounds each tax once on its combined base', () => {
+    const lines = Array.from({ length: 3 }, () => calculateLineItem(1, 0.03, 0.16));
+    const perLine = calculateDocumentTotals(lines);
+    const perDocument = calculateDocumentTotals(lines, null, { mode: 'half-even', scope: 'document' });
+
+    // 0.0048 rounds to 0.00 on every line, 0.0144 to 0.01 on the document
+    expect(perLine.tax_amount).toBe(0.00);
+    expect(perDocument.tax_amount).toBe(0.01);
+    expect(perDocument.tax_breakdown).toEqual([expect.objectContaining({ base: 0.09, amount: 0.01 })]);
+    expect(perDocument.total).toBe(0.10);
+    expect(validateDocumentTotals(perDocument)).toBe(true);
+  });
+
+  test('document scope keeps withholdings out of the tax total', () => {
+    const isr: TaxConfiguration = {
+      ...createDefaultTaxConfig(), id: 'isr-10', name: 'ISR', rate: 0.10, code: 'ISR', kind: 'withheld'
+    };
+    const lines = [calculateLineItem(1, 1000, [createDefaultTaxConfig(), isr])];
+    const totals = calculateDocumentTotals(lines, null, { mode: 'half-even', scope: 'document' });
+    expect(totals.tax_amount).toBe(160.00);
+    expect(totals.withholding_amount).toBe(100.00);
+    expect(totals.total).toBe(1060.00);
+  });
+});
+
 // Edge cases and complex scenarios
+describe('Volume tiers', () => {
+  const tiers = [
+    { min_quantity: 48, price: 80 },
+    { min_quantity: 12, price: 90 }
+  ];
+
+  test('quantities below the first break pay the public price', () => {
+    expect(resolvePriceTier(100, tiers, 1)).toEqual({ min_quantity: 1, max_quantity: 11, price: 100, is_base: true });
+    expect(resolvePriceTier(100, tiers, 11).price).toBe(100);
+  });
+
+  test('resolves the tier a quantity falls in', () => {
+    expect(resolvePriceTier(100, tiers, 12)).toEqual({ min_quantity: 12, max_quantity: 47, price: 90, is_base: false });
+    expect(resolvePriceTier(100, tiers, 47).price).toBe(90);
+    expect(resolvePriceTier(100, tiers, 48)).toEqual({ min_quantity: 48, max_quantity: null, price: 80, is_base: false });
+    expect(resolvePriceTier(100, tiers, 1000).price).toBe(80);
+  });
+
+  test('products without tiers always pay the public price', () => {
+    expect(resolvePriceTier(100, [], 500)).toEqual({ min_quantity: 1, max_quantity: null, price: 100, is_base: true });
+  });
+
+  test('formats tier ranges', () => {
+    expect(formatTierRange({ min_quantity: 12, max_quantity: 47 })).toBe('12-47');
+    expect(formatTierRange({ min_quantity: 48, max_quantity: null })).toBe('48+');
+  });
+
+  test('validates breaks and prices', () => {
+    expect(validatePriceTiers(100, tiers)).toEqual([]);
+    expect(validatePriceTiers(100, [
+      { min_quantity: 1, price: 95 },
+      { min_quantity: 12, price: 96 },
+      { min_quantity: 12, price: 90 },
+      { min_quantity: 24, price: 0 }
+    ])).toEqual([
+      'Tier starting at 1 must start at a whole quantity above 1',
+      'Tier starting at 12 must be cheaper than the tier below it',
+      'More than one tier starts at 12',
+      'Tier starting at 24 must have a positive price'
+    ]);
+  });
+});
+
 describe('Edge Cases', () => {
   test('handles very high profit margins', () => {
     expect(calculateBasePrice(100, 5.0)).toBe(600.00); // 500% margin
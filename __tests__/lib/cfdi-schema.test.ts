@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * CFDI Schema Unit Tests
+ * Tests for validating CFDI XML against the bundled SAT schema
+ */
+
+import { buildCFDI, issueCFDI, toCFDIXml, validateCFDI, type CFDIOrderLine } from '../../lib/cfdi';
+import { validateCFDIXml } from '../../lib/cfdi-schema';
+import { createFakePAC } from '../../lib/pac';
+import { createRateTaxConfig } from '../../lib/calculations';
+
+const iva = createRateTaxConfig(0.16);
+const withheldIva = { ...createRateTaxConfig(0.04), id: 'ret-iva-4', name: 'Ret. IVA', kind: 'withheld' as const };
+
+const issuer = {
+  legal_name: 'Hoja Verde S.A. de C.V.',
+  rfc: 'HVE240101AB1',
+  fiscal_regime: '601',
+  postal_code: '06600'
+};
+
+const receiver = {
+  name: 'Hotel Riviera',
+  rfc: 'HRI010101AAA',
+  postal_code: '77500',
+  fiscal_regime: '601',
+  cfdi_use: 'G03'
+};
+
+const options = {
+  paymentForm: '03',
+  paymentMethod: 'PUE',
+  cfdiUse: 'G01',
+  currency: 'MXN',
+  exchangeRate: 1
+};
+
+const soap: CFDIOrderLine = {
+  product_code: 'JAB-01',
+  product_name: 'Jabón de tocador',
+  unit: 'CAJA',
+  quantity: 2,
+  unit_price: 300,
+  discount_amount: 60,
+  taxes: [{ tax: iva, base: 540, amount: 86.4 }],
+  is_selected: true
+};
+
+const freight: CFDIOrderLine = {
+  product_code: 'FLE-01',
+  product_name: 'Flete',
+  unit: 'PIEZA',
+  quantity: 1,
+  unit_price: 1000,
+  discount_amount: 0,
+  taxes: [{ tax: iva, base: 1000, amount: 160 }, { tax: withheldIva, base: 1000, amount: 40 }],
+  sat_product_key: '78101800'
+};
+
+const issue = (lines: CFDIOrderLine[], currency = options) =>
+  issueCFDI(buildCFDI(lines, issuer, receiver, currency), 'A', 7, new Date('2026-10-19T16:30:00Z'));
+
+describe('validateCFDIXml', () => {
+  test('accepts the XML written for an invoice, before the PAC seals it', async () => {
+    expect(await validateCFDIXml(toCFDIXml(issue([soap, freight])))).toEqual([]);
+    expect(await validateCFDIXml(toCFDIXml(issue([soap], { ...options, currency: 'USD', exchangeRate: 18.5 })))).toEqual([]);
+  });
+
+  test('accepts the XML the PAC sealed', async () => {
+    const { xml } = await createFakePAC().stamp(toCFDIXml(issue([soap])));
+    const sealed = (xml ?? '').replace(/<cfdi:Complemento>.*<\/cfdi:Complemento>/, '');
+
+    expect(await validateCFDIXml(sealed)).toEqual([]);
+  });
+
+  test('rejects what the offline checks let through', async () => {
+    const issued = issue([soap]);
+    const cfdi = { ...issued, concepts: [{ ...issued.concepts[0], unit: 'CAJA|24' }] };
+
+    expect(validateCFDI(cfdi)).toEqual([]);
+    expect(await validateCFDIXml(toCFDIXml(cfdi))).toEqual([
+      expect.stringMatching(/Concepto', attribute 'Unidad': \[facet 'pattern'\]/)
+    ]);
+  });
+
+  test('checks catalog keys, amounts and structure', async () => {
+    const xml = toCFDIXml(issue([soap]));
+
+    expect(await validateCFDIXml(xml.replace('Moneda="MXN"', 'Moneda="MXP"'))).toEqual([
+      expect.stringContaining("attribute 'Moneda': [facet 'enumeration']")
+    ]);
+    expect(await validateCFDIXml(xml.replace('TasaOCuota="0.160000"', 'TasaOCuota="0.1600001"'))).toEqual([
+      expect.stringContaining("attribute 'TasaOCuota': [facet 'fractionDigits']")
+    ]);
+    expect(await validateCFDIXml(xml.replace(/<cfdi:Emisor [^>]*\/>/, ''))).toEqual([
+      expect.stringMatching(/^Element '\{http:\/\/www.sat.gob.mx\/cfd\/4\}Receptor': This element is not expected. .*Emisor/)
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * CFDI Unit Tests
+ * Tests for building CFDI 4.0 comprobantes from order lines, the offline schema checks, the XML and the fake PAC
+ */
+
+import {
+  buildCFDI,
+  formatCFDIDate,
+  issueCFDI,
+  readCFDIStamp,
+  toCFDIXml,
+  validateCFDI,
+  type CFDIOrderLine
+} from '../../lib/cfdi';
+import { createFakePAC } from '../../lib/pac';
+import { createRateTaxConfig } from '../../lib/calculations';
+
+const iva = createRateTaxConfig(0.16);
+const withheldIva = { ...createRateTaxConfig(0.04), id: 'ret-iva-4', name: 'Ret. IVA', kind: 'withheld' as const };
+
+const issuer = {
+  legal_name: 'Hoja Verde S.A. de C.V.',
+  rfc: 'HVE240101AB1',
+  fiscal_regime: '601',
+  postal_code: '06600'
+};
+
+const receiver = {
+  name: 'Hotel Riviera',
+  rfc: 'HRI010101AAA',
+  postal_code: '77500',
+  fiscal_regime: '601',
+  cfdi_use: 'G03'
+};
+
+const options = {
+  paymentForm: '03',
+  paymentMethod: 'PUE',
+  cfdiUse: 'G01',
+  currency: 'MXN',
+  exchangeRate: 1
+};
+
+const soap: CFDIOrderLine = {
+  product_code: 'JAB-01',
+  product_name: 'Jabón de tocador',
+  unit: 'CAJA',
+  quantity: 2,
+  unit_price: 300,
+  discount_amount: 60,
+  taxes: [{ tax: iva, base: 540, amount: 86.4 }],
+  is_selected: true
+};
+
+const freight: CFDIOrderLine = {
+  product_code: 'FLE-01',
+  product_name: 'Flete',
+  unit: 'PIEZA',
+  quantity: 1,
+  unit_price: 1000,
+  discount_amount: 0,
+  taxes: [{ tax: iva, base: 1000, amount: 160 }, { tax: withheldIva, base: 1000, amount: 40 }],
+  sat_product_key: '78101800'
+};
+
+const untakenOption: CFDIOrderLine = { ...soap, product_code: 'JAB-02', is_selected: false };
+
+describe('buildCFDI', () => {
+  test('adds up concepts and groups their taxes', () => {
+    const cfdi = buildCFDI([soap, freight, untakenOption], issuer, receiver, options);
+
+    expect(cfdi).toMatchObject({
+      subtotal: 1600,
+      discount: 60,
+      totalTransferred: 246.4,
+      totalWithheld: 40,
+      total: 1746.4,
+      placeOfIssue: '06600',
+      exchangeRate: null,
+      issuer: { rfc: 'HVE240101AB1', name: 'Hoja Verde S.A. de C.V.', fiscalRegime: '601' },
+      receiver: { rfc: 'HRI010101AAA', postalCode: '77500', fiscalRegime: '601', cfdiUse: 'G01' }
+    });
+    expect(cfdi.transferred).toEqual([{ base: 1540, tax: '002', factor: 'Tasa', rate: 0.16, amount: 246.4 }]);
+    expect(cfdi.withheld).toEqual([{ tax: '002', amount: 40 }]);
+    expect(validateCFDI(cfdi)).toEqual([]);
+  });
+
+  test('takes SAT keys from the line, falling back to the generic key and the unit key', () => {
+    const [soapConcept, freightConcept] = buildCFDI([soap, freight], issuer, receiver, options).concepts;
+
+    expect(soapConcept).toMatchObject({ productKey: '01010101', unitKey: 'XBX', amount: 600, discount: 60, taxObject: '02' });
+    expect(freightConcept).toMatchObject({ productKey: '78101800', unitKey: 'H87' });
+    expect(freightConcept.withheld).toEqual([{ base: 1000, tax: '002', factor: 'Tasa', rate: 0.04, amount: 40 }]);
+  });
+
+  test('charges IEPS cuotas per unit', () => {
+    const ieps = { ...createRateTaxConfig(0), id: 'ieps-cuota', name: 'IEPS', code: 'IEPS' as const, type: 'fixed_amount' as const, amount: 1.5 };
+    const cfdi = buildCFDI([{ ...soap, discount_amount: 0, taxes: [{ tax: ieps, base: 600, amount: 3 }] }], issuer, receiver, options);
+
+    expect(cfdi.concepts[0].transferred).toEqual([{ base: 2, tax: '003', factor: 'Cuota', rate: 1.5, amount: 3 }]);
+    expect(validateCFDI(cfdi)).toEqual([]);
+  });
+
+  test('invoices the general public with its fixed receptor details', () => {
+    const cfdi = buildCFDI([soap], issuer, { ...receiver, rfc: 'XAXX010101000', fiscal_regime: '' }, options);
+
+    expect(cfdi.receiver).toEqual({
+      rfc: 'XAXX010101000',
+      name: 'PUBLICO EN GENERAL',
+      postalCode: '06600',
+      fiscalRegime: '616',
+      cfdiUse: 'S01'
+    });
+  });
+
+  test('PPD invoices are paid later, so their forma de pago is 99', () => {
+    expect(buildCFDI([soap], issuer, receiver, { ...options, paymentMethod: 'PPD' }).paymentForm).toBe('99');
+  });
+
+  test('keeps the exchange rate of foreign currency orders', () => {
+    expect(buildCFDI([soap], issuer, receiver, { ...options, currency: 'USD', exchangeRate: 18.5 }).exchangeRate).toBe(18.5);
+  });
+});
+
+describe('validateCFDI', () => {
+  const cfdi = buildCFDI([soap, freight], issuer, receiver, options);
+
+  test('checks receptor details against the SAT catalogs', () => {
+    expect(validateCFDI({
+      ...cfdi,
+      receiver: { ...cfdi.receiver, rfc: 'HRI', postalCode: '775', fiscalRegime: '' }
+    })).toEqual([
+      'Receptor RFC is not valid',
+      'Receptor fiscal address must be a 5-digit postal code',
+      'Receptor régimen (none) does not apply to RFC HRI'
+    ]);
+  });
+
+  test('regimes and deduction uses depend on the kind of taxpayer', () => {
+    expect(validateCFDI({ ...cfdi, receiver: { ...cfdi.receiver, fiscalRegime: '612', cfdiUse: 'D01' } })).toEqual([
+      'Receptor régimen 612 does not apply to RFC HRI010101AAA',
+      'Uso CFDI D01 does not apply to RFC HRI010101AAA'
+    ]);
+  });
+
+  test('checks concept keys and arithmetic', () => {
+    const [concept] = cfdi.concepts;
+
+    expect(validateCFDI({
+      ...cfdi,
+      concepts: [{ ...concept, productKey: '123', unitKey: '', amount: 601, transferred: [{ ...concept.transferred[0], amount: 80 }] }]
+    })).toEqual([
+      'Concept 1: ClaveProdServ must have 8 digits',
+      'Concept 1: no ClaveUnidad for unit CAJA',
+      'Concept 1: amount does not match quantity × unit value',
+      'Concept 1 traslado: amount does not match base × rate',
+      'SubTotal must be the sum of the concept amounts'
+    ]);
+  });
+
+  test('checks payment and currency rules', () => {
+    expect(validateCFDI({ ...cfdi, paymentMethod: 'PPD' })).toEqual(['PPD invoices must use forma de pago 99']);
+    expect(validateCFDI({ ...cfdi, currency: 'EUR', exchangeRate: 20 })).toEqual(['Currency EUR cannot be invoiced']);
+    expect(validateCFDI({ ...cfdi, currency: 'USD' })).toEqual([
+      'Tipo de cambio is only for foreign currencies, and required for them'
+    ]);
+  });
+
+  test('needs at least one concept', () => {
+    expect(validateCFDI(buildCFDI([untakenOption], issuer, receiver, options))).toContain('An invoice needs at least one concept');
+  });
+});
+
+describe('formatCFDIDate', () => {
+  test('writes Mexico City local time without a zone', () => {
+    expect(formatCFDIDate(new Date('2026-10-19T16:30:05Z'))).toBe('2026-10-19T10:30:05');
+  });
+});
+
+describe('toCFDIXml', () => {
+  const issued = issueCFDI(buildCFDI([soap, freight], issuer, receiver, options), 'A', 7, new Date('2026-10-19T16:30:00Z'));
+
+  test('writes the comprobante with its concepts and taxes', () => {
+    const xml = toCFDIXml(issued);
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<cfdi:Comprobante xmlns:cfdi="http:\/\/www.sat.gob.mx\/cfd\/4"/);
+    expect(xml).toContain('Version="4.0" Serie="A" Folio="7" Fecha="2026-10-19T10:30:00" FormaPago="03"');
+    expect(xml).toContain('SubTotal="1600.00" Descuento="60.00" Moneda="MXN" Total="1746.40" TipoDeComprobante="I" Exportacion="01" MetodoPago="PUE" LugarExpedicion="06600"');
+    expect(xml).toContain('<cfdi:Receptor Rfc="HRI010101AAA" Nombre="Hotel Riviera" DomicilioFiscalReceptor="77500" RegimenFiscalReceptor="601" UsoCFDI="G01"/>');
+    expect(xml).toContain(
+      '<cfdi:Concepto ClaveProdServ="01010101" NoIdentificacion="JAB-01" Cantidad="2" ClaveUnidad="XBX" Unidad="CAJA" ' +
+      'Descripcion="Jabón de tocador" ValorUnitario="300" Importe="600.00" Descuento="60.00" ObjetoImp="02">' +
+      '<cfdi:Impuestos><cfdi:Traslados><cfdi:Traslado Base="540" Impuesto="002" TipoFactor="Tasa" TasaOCuota="0.160000" Importe="86.40"/>' +
+      '</cfdi:Traslados></cfdi:Impuestos></cfdi:Concepto>'
+    );
+    expect(xml).toContain(
+      '<cfdi:Impuestos TotalImpuestosRetenidos="40.00" TotalImpuestosTrasladados="246.40">' +
+      '<cfdi:Retenciones><cfdi:Retencion Impuesto="002" Importe="40.00"/></cfdi:Retenciones>' +
+      '<cfdi:Traslados><cfdi:Traslado Base="1540.00" Impuesto="002" TipoFactor="Tasa" TasaOCuota="0.160000" Importe="246.40"/></cfdi:Traslados>' +
+      '</cfdi:Impuestos></cfdi:Comprobante>'
+    );
+  });
+
+  test('escapes attribute values', () => {
+    const cfdi = issueCFDI(buildCFDI([{ ...soap, product_name: 'Jabón "Rosa" & <Co>' }], issuer, receiver, options), 'A', 8);
+
+    expect(toCFDIXml(cfdi)).toContain('Descripcion="Jabón &quot;Rosa&quot; &amp; &lt;Co&gt;"');
+  });
+
+  test('only writes issued comprobantes that validate', () => {
+    expect(() => toCFDIXml(buildCFDI([soap], issuer, receiver, options))).toThrow('Issue the CFDI before writing its XML');
+    expect(() => toCFDIXml({ ...issued, placeOfIssue: '066' })).toThrow('Lugar de expedición must be a 5-digit postal code');
+  });
+});
+
+describe('fake PAC', () => {
+  const xml = toCFDIXml(issueCFDI(buildCFDI([soap], issuer, receiver, options), 'A', 9));
+
+  test('seals and stamps the XML', async () => {
+    const result = await createFakePAC().stamp(xml);
+
+    expect(result.success).toBe(true);
+    expect(result.xml).toContain('<cfdi:Complemento><tfd:TimbreFiscalDigital');
+    expect(result.stamp?.uuid).toMatch(/^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/);
+    expect(readCFDIStamp(result.xml ?? '')).toEqual(result.stamp);
+    expect(result.stamp).toMatchObject({ issuerCertificate: '30001000000500003416', pacRfc: 'SPR190613I52' });
+  });
+
+  test('does not stamp twice', async () => {
+    const pac = createFakePAC();
+    const { xml: stamped } = await pac.stamp(xml);
+
+    expect(await pac.stamp(stamped ?? '')).toEqual({ success: false, message: 'The CFDI is already stamped' });
+  });
+
+  test('unstamped XML has no stamp to read', () => {
+    expect(readCFDIStamp(xml)).toBeNull();
+  });
+});
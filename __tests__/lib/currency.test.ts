@@ -18,7 +18,13 @@ import {
   MXN_LOCALE,
   MXN_DECIMAL_PLACES,
   MXN_SYMBOL,
-  DEFAULT_MXN_FORMAT_OPTIONS
+  DEFAULT_MXN_FORMAT_OPTIONS,
+  SUPPORTED_CURRENCIES,
+  isSupportedCurrency,
+  getCurrencyName,
+  formatCurrency,
+  convertFromMXN,
+  convertToMXN
 } from '../../lib/currency';
 
 describe('formatMXNCurrency', () => {
@@ -55,6 +61,50 @@ describe('formatMXNCurrency', () => {
   });
 });
 
+describe('formatCurrency', () => {
+  test('formats pesos by default', () => {
+    expect(formatCurrency(1234.56)).toBe(formatMXNCurrency(1234.56));
+  });
+
+  test('formats US dollars with their own code', () => {
+    const formatted = formatCurrency(1234.5, 'USD');
+    expect(formatted).toContain('1,234.50');
+    expect(formatted).toMatch(/USD|US\$/);
+  });
+});
+
+describe('Supported currencies', () => {
+  test('recognizes MXN and USD only', () => {
+    expect(SUPPORTED_CURRENCIES).toEqual(['MXN', 'USD']);
+    expect(isSupportedCurrency('USD')).toBe(true);
+    expect(isSupportedCurrency('EUR')).toBe(false);
+  });
+
+  test('names currencies in Spanish', () => {
+    expect(getCurrencyName('MXN')).toBe('Pesos Mexicanos');
+    expect(getCurrencyName('USD')).toBe('Dólares Estadounidenses');
+  });
+});
+
+describe('Currency conversion', () => {
+  test('converts catalog pesos to the quotation currency', () => {
+    expect(convertFromMXN(1725, 17.25)).toBe(100);
+    expect(convertFromMXN(100, 17.2345)).toBe(5.8);
+    expect(convertFromMXN(100, 1)).toBe(100);
+  });
+
+  test('converts document totals back to pesos', () => {
+    expect(convertToMXN(100, 17.25)).toBe(1725);
+    expect(convertToMXN(5.8, 17.2345)).toBe(99.96);
+    expect(convertToMXN(250)).toBe(250);
+  });
+
+  test('rejects non-positive exchange rates', () => {
+    expect(() => convertFromMXN(100, 0)).toThrow('Exchange rate must be positive');
+    expect(() => convertToMXN(100, -1)).toThrow('Exchange rate must be positive');
+  });
+});
+
 describe('formatMXNNumber', () => {
   test('formats numbers without currency symbol', () => {
     expect(formatMXNNumber(1234.56)).toBe('1,234.56');
@@ -0,0 +1,318 @@
+/**
+ * Document PDF Unit Tests
+ * Tests for mapping saved quotations and orders to PDF data, download access and the revision cache
+ */
+
+import {
+  cachePDF,
+  canAccessDocument,
+  getCachedPDF,
+  getPDFKinds,
+  getPDFRevisionKey,
+  selectDelivery,
+  toDeliveryNotePDFData,
+  toOrderPDFData,
+  toPackingListPDFData,
+  toQuotationPDFData,
+  type PDFDeliveryRow,
+  type PDFDocumentRow
+} from '../../lib/document-pdf';
+import { createRateTaxConfig } from '../../lib/calculations';
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: jest.fn()
+}));
+
+const iva = createRateTaxConfig(0.16);
+
+const line = {
+  id: 'line-1',
+  product_id: 'soap-box',
+  product_code: 'JAB-01',
+  product_name: 'Jabón de tocador',
+  unit: 'CAJA',
+  unit_factor: 1,
+  quantity: 2,
+  unit_price: 300,
+  tax_rate: 0.16,
+  tier_min_quantity: null,
+  tier_max_quantity: null,
+  bundle_components: null,
+  expand_on_pdf: false,
+  is_optional: false,
+  alternative_group: null,
+  is_selected: true,
+  discount_amount: 60,
+  taxes: [{ tax: iva, base: 540, amount: 86.4 }],
+  tax_amount: 86.4,
+  withholding_amount: 0,
+  subtotal: 540,
+  total: 626.4
+};
+
+const quotation: PDFDocumentRow = {
+  id: 'quotation-1',
+  folio: 'COT-0042',
+  type: 'quotation',
+  company_id: 'company-1',
+  quotation_status: 'generated',
+  order_status: null,
+  issue_date: '2026-10-01',
+  expiry_date: '2026-10-31',
+  contact_name: 'Ana López',
+  terms: 'Precios más IVA',
+  delivery_terms: '4 a 7 días hábiles',
+  payment_terms: null,
+  discount_amount: 60,
+  subtotal: 540,
+  tax_amount: 86.4,
+  total: 626.4,
+  currency: 'USD',
+  exchange_rate: 18.5,
+  updated_at: '2026-10-02T10:00:00Z',
+  companies: {
+    name: 'Hotel Riviera',
+    rfc: 'HRI010101AAA',
+    address: 'Av. del Mar 1',
+    city: 'Cancún',
+    state: 'Quintana Roo',
+    postal_code: '77500',
+    phone: null,
+    email: 'compras@riviera.mx',
+    logo_url: null
+  },
+  document_items: [line]
+};
+
+const order: PDFDocumentRow = {
+  ...quotation,
+  id: 'order-1',
+  folio: 'PED-0007',
+  type: 'order',
+  quotation_status: null,
+  order_status: 'confirmed',
+  quotation: { folio: 'COT-0042' }
+};
+
+const delivery: PDFDeliveryRow = {
+  id: 'delivery-1',
+  scheduled_date: '2026-10-05',
+  delivery_address: 'Blvd. Kukulcán km 12, Cancún',
+  delivery_instructions: 'Andén de proveedores',
+  carrier: 'Propio',
+  tracking_number: null,
+  delivery_notes: null,
+  created_at: '2026-10-03T09:00:00Z',
+  updated_at: '2026-10-03T09:00:00Z'
+};
+
+const kit = {
+  ...line,
+  id: 'line-kit',
+  product_id: 'kit',
+  product_code: 'KIT-01',
+  product_name: 'Kit de amenidades',
+  unit: 'PIEZA',
+  quantity: 5,
+  bundle_components: [
+    { product_id: 'soap', product_code: 'JAB-02', product_name: 'Jabón 30 g', unit: 'PIEZA', quantity: 2 },
+    { product_id: 'shampoo', product_code: 'SHA-01', product_name: 'Shampoo 30 ml', unit: 'PIEZA', quantity: 1 }
+  ]
+};
+
+describe('toQuotationPDFData', () => {
+  test('maps the saved amounts, with the subtotal before discounts', () => {
+    const data = toQuotationPDFData(quotation);
+
+    expect(data).toMatchObject({
+      folio: 'COT-0042',
+      status: 'generated',
+      validUntil: '2026-10-31',
+      subtotal: 600,
+      discount: 60,
+      tax: 86.4,
+      total: 626.4,
+      currency: 'USD',
+      exchangeRate: 18.5,
+      notes: 'Precios más IVA\nEntrega: 4 a 7 días hábiles'
+    });
+    expect(data.company).toMatchObject({ name: 'Hotel Riviera', zip: '77500', phone: '', contactName: 'Ana López' });
+    expect(data.taxBreakdown).toEqual([
+      { code: 'IVA', name: iva.name, kind: 'transferred', type: 'percentage', rate: 0.16, base: 540, amount: 86.4 }
+    ]);
+  });
+
+  test('carries units, tiers and option flags on each line', () => {
+    const data = toQuotationPDFData({
+      ...quotation,
+      document_items: [
+        { ...line, tier_min_quantity: 12, tier_max_quantity: 47 },
+        { ...line, id: 'line-2', is_optional: true, is_selected: false }
+      ]
+    });
+
+    expect(data.items[0]).toMatchObject({ unit: 'CAJA', unitPrice: 300, discount: 60, priceTier: { min_quantity: 12, max_quantity: 47 } });
+    expect(data.items[1]).toMatchObject({ isOptional: true, isSelected: false });
+  });
+
+  test('leaves option lines the client did not take out of the tax breakdown', () => {
+    const data = toQuotationPDFData({
+      ...quotation,
+      document_items: [line, { ...line, id: 'line-2', alternative_group: 'A', is_selected: false }]
+    });
+
+    expect(data.taxBreakdown?.[0].amount).toBe(86.4);
+  });
+
+  test('lists the contents of expanded kits for the whole line', () => {
+    const kit = {
+      ...line,
+      expand_on_pdf: true,
+      unit_factor: 2,
+      bundle_components: [{ product_id: 'soap', product_code: 'JAB-01', product_name: 'Jabón', unit: 'PIEZA', quantity: 3 }]
+    };
+
+    expect(toQuotationPDFData({ ...quotation, document_items: [kit] }).items[0].components).toEqual([
+      { productCode: 'JAB-01', productName: 'Jabón', quantity: 12, unit: 'PIEZA' }
+    ]);
+    expect(toQuotationPDFData({ ...quotation, document_items: [{ ...kit, expand_on_pdf: false }] }).items[0].components)
+      .toBeNull();
+  });
+});
+
+describe('canAccessDocument', () => {
+  test('admins can download any document', () => {
+    expect(canAccessDocument({ role: 'admin', company_id: null }, quotation)).toBe(true);
+  });
+
+  test('clients can only download their company documents', () => {
+    expect(canAccessDocument({ role: 'client', company_id: 'company-1' }, quotation)).toBe(true);
+    expect(canAccessDocument({ role: 'client', company_id: 'company-2' }, quotation)).toBe(false);
+    expect(canAccessDocument({ role: 'client', company_id: null }, quotation)).toBe(false);
+  });
+});
+
+describe('PDF cache', () => {
+  test('a document edit starts a new revision', () => {
+    const revision = getPDFRevisionKey(quotation);
+    expect(getPDFRevisionKey({ ...quotation })).toBe(revision);
+    expect(getPDFRevisionKey({ ...quotation, updated_at: '2026-10-03T09:00:00Z' })).not.toBe(revision);
+  });
+
+  test('a line edit that leaves updated_at alone starts a new revision', () => {
+    const revision = getPDFRevisionKey(quotation);
+    const requantified = { ...line, quantity: 3, discount_amount: 90, subtotal: 810, tax_amount: 129.6, total: 939.6 };
+
+    expect(getPDFRevisionKey({ ...quotation, document_items: [{ ...line }] })).toBe(revision);
+    expect(getPDFRevisionKey({ ...quotation, document_items: [requantified] })).not.toBe(revision);
+    expect(getPDFRevisionKey({ ...quotation, document_items: [{ ...line, is_selected: false }] })).not.toBe(revision);
+  });
+
+  test('an issuer profile change starts a new revision', () => {
+    expect(getPDFRevisionKey(order, 'order', null, '2026-10-01T00:00:00Z'))
+      .not.toBe(getPDFRevisionKey(order, 'order', null, '2026-10-06T00:00:00Z'));
+  });
+
+  test('keeps rendered files per revision', () => {
+    const revision = getPDFRevisionKey(quotation);
+    const file = new Uint8Array([37, 80, 68, 70]);
+
+    expect(getCachedPDF(revision)).toBeNull();
+    cachePDF(revision, file);
+    expect(getCachedPDF(revision)).toBe(file);
+  });
+});
+
+describe('toOrderPDFData', () => {
+  test('shows the order status and the quotation it came from', () => {
+    expect(toOrderPDFData(order)).toMatchObject({
+      folio: 'PED-0007',
+      status: 'confirmed',
+      quotationFolio: 'COT-0042',
+      total: 626.4
+    });
+  });
+});
+
+describe('toPackingListPDFData', () => {
+  const products = {
+    'soap-box': { id: 'soap-box', unit: 'PIEZA', bin_location: 'A-01', product_categories: { name: 'Jabones' } },
+    soap: { id: 'soap', unit: 'PIEZA', bin_location: null, product_categories: { name: 'Amenidades' } },
+    shampoo: { id: 'shampoo', unit: 'PIEZA', bin_location: 'B-02', product_categories: null }
+  };
+
+  test('lists lines without prices, with their bin and the base quantity', () => {
+    const data = toPackingListPDFData({ ...order, document_items: [{ ...line, unit_factor: 24 }] }, products, delivery);
+
+    expect(data.items).toEqual([{
+      id: 'line-1',
+      productCode: 'JAB-01',
+      productName: 'Jabón de tocador',
+      quantity: 2,
+      unit: 'CAJA',
+      baseQuantity: '48 PIEZA',
+      bin: 'A-01',
+      category: 'Jabones'
+    }]);
+    expect(data).toMatchObject({ deliveryAddress: delivery.delivery_address, scheduledDate: '2026-10-05' });
+  });
+
+  test('picks kits as their components, each from its own bin', () => {
+    const data = toPackingListPDFData({ ...order, document_items: [kit] }, products);
+
+    expect(data.items).toEqual([
+      expect.objectContaining({ productCode: 'JAB-02', quantity: 10, bin: null, category: 'Amenidades' }),
+      expect.objectContaining({ productCode: 'SHA-01', quantity: 5, bin: 'B-02', note: 'Para 5 PIEZA de KIT-01 Kit de amenidades' })
+    ]);
+  });
+});
+
+describe('toDeliveryNotePDFData', () => {
+  test('lists what is delivered with the delivery details', () => {
+    const data = toDeliveryNotePDFData({ ...order, document_items: [line, kit] }, delivery);
+
+    expect(data).toMatchObject({
+      id: 'delivery-1',
+      folio: 'PED-0007',
+      createdAt: '2026-10-05',
+      deliveryAddress: 'Blvd. Kukulcán km 12, Cancún',
+      carrier: 'Propio'
+    });
+    expect(data.items[0]).toEqual({ id: 'line-1', productCode: 'JAB-01', productName: 'Jabón de tocador', quantity: 2, unit: 'CAJA', note: undefined });
+    expect(data.items[1].note).toBe('Incluye: 10 PIEZA × Jabón 30 g (JAB-02); 5 PIEZA × Shampoo 30 ml (SHA-01)');
+  });
+
+  test('delivers to the company address when the order has no delivery', () => {
+    expect(toDeliveryNotePDFData(order).deliveryAddress).toBe('Av. del Mar 1, Cancún, Quintana Roo, C.P. 77500');
+  });
+});
+
+describe('getPDFKinds', () => {
+  test('quotations only render as quotations', () => {
+    expect(getPDFKinds({ role: 'admin', company_id: null }, quotation)).toEqual(['quotation']);
+  });
+
+  test('packing lists are for admins only', () => {
+    expect(getPDFKinds({ role: 'admin', company_id: null }, order)).toEqual(['order', 'packing_list', 'delivery_note']);
+    expect(getPDFKinds({ role: 'client', company_id: 'company-1' }, order)).toEqual(['order', 'delivery_note']);
+  });
+});
+
+describe('selectDelivery', () => {
+  const later = { ...delivery, id: 'delivery-2', created_at: '2026-10-04T09:00:00Z' };
+
+  test('defaults to the latest delivery', () => {
+    expect(selectDelivery({ deliveries: [delivery, later] })?.id).toBe('delivery-2');
+    expect(selectDelivery({ deliveries: [] })).toBeNull();
+  });
+
+  test('finds the delivery asked for', () => {
+    expect(selectDelivery({ deliveries: [delivery, later] }, 'delivery-1')?.id).toBe('delivery-1');
+    expect(selectDelivery({ deliveries: [delivery] }, 'other')).toBeNull();
+  });
+
+  test('a delivery change starts a new revision of its delivery note', () => {
+    expect(getPDFRevisionKey(order, 'delivery_note', delivery))
+      .not.toBe(getPDFRevisionKey(order, 'delivery_note', { ...delivery, updated_at: '2026-10-05T08:00:00Z' }));
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Exchange Rate Unit Tests
+ * Tests for rate validation and effective-date lookup
+ */
+
+import {
+  findEffectiveRate,
+  getLocalDate,
+  validateExchangeRate,
+  type ExchangeRate
+} from '../../lib/exchange-rates';
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: jest.fn()
+}));
+
+const rate = (effective_date: string, value: number): ExchangeRate => ({
+  id: effective_date,
+  currency: 'USD',
+  rate: value,
+  effective_date,
+  created_at: `${effective_date}T12:00:00Z`
+});
+
+describe('validateExchangeRate', () => {
+  test('accepts a positive USD rate with a valid date', () => {
+    expect(validateExchangeRate({ currency: 'USD', rate: 17.25, effective_date: '2026-10-01' })).toEqual([]);
+  });
+
+  test('rejects MXN, which is always 1', () => {
+    expect(validateExchangeRate({ currency: 'MXN', rate: 1, effective_date: '2026-10-01' }))
+      .toEqual(['Currency must be one of USD']);
+  });
+
+  test('rejects zero, negative and missing rates', () => {
+    expect(validateExchangeRate({ currency: 'USD', rate: 0, effective_date: '2026-10-01' }))
+      .toEqual(['Exchange rate must be positive']);
+    expect(validateExchangeRate({ currency: 'USD', rate: -17, effective_date: '2026-10-01' }))
+      .toEqual(['Exchange rate must be positive']);
+    expect(validateExchangeRate({ currency: 'USD', rate: NaN, effective_date: '2026-10-01' }))
+      .toEqual(['Exchange rate must be positive']);
+  });
+
+  test('rejects malformed dates', () => {
+    expect(validateExchangeRate({ currency: 'USD', rate: 17, effective_date: '01/10/2026' }))
+      .toEqual(['Effective date must be a valid YYYY-MM-DD date']);
+    expect(validateExchangeRate({ currency: 'USD', rate: 17, effective_date: '2026-13-40' }))
+      .toEqual(['Effective date must be a valid YYYY-MM-DD date']);
+  });
+});
+
+describe('findEffectiveRate', () => {
+  const rates = [rate('2026-10-01', 17.1), rate('2026-10-15', 17.4), rate('2026-10-08', 17.25)];
+
+  test('uses the latest rate on or before the date', () => {
+    expect(findEffectiveRate(rates, 'USD', '2026-10-10')?.rate).toBe(17.25);
+    expect(findEffectiveRate(rates, 'USD', '2026-10-15')?.rate).toBe(17.4);
+    expect(findEffectiveRate(rates, 'USD', '2026-12-31')?.rate).toBe(17.4);
+  });
+
+  test('returns null before the first rate or for other currencies', () => {
+    expect(findEffectiveRate(rates, 'USD', '2026-09-30')).toBeNull();
+    expect(findEffectiveRate(rates, 'MXN', '2026-10-10')).toBeNull();
+  });
+});
+
+describe('getLocalDate', () => {
+  test('formats a date as YYYY-MM-DD', () => {
+    expect(getLocalDate(new Date(2026, 0, 5))).toBe('2026-01-05');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Folio Utilities Unit Tests
+ * Tests for sequential folio formatting, parsing and settings validation
+ */
+
+import {
+  formatFolio,
+  formatRevisionFolio,
+  parseFolio,
+  isValidFolio,
+  describeFolioFormat,
+  validateFolioSettings,
+  DEFAULT_FOLIO_SETTINGS
+} from '@/lib/folios'
+
+describe('Folio Utilities', () => {
+  describe('formatFolio', () => {
+    test('formats quotation folios with year and padded sequence', () => {
+      expect(formatFolio(DEFAULT_FOLIO_SETTINGS.quotation, 2026, 123)).toBe('COT-2026-000123')
+    })
+
+    test('formats order folios with year and padded sequence', () => {
+      expect(formatFolio(DEFAULT_FOLIO_SETTINGS.order, 2026, 45)).toBe('ORD-2026-000045')
+    })
+
+    test('honours custom prefix and padding', () => {
+      const settings = { document_type: 'order' as const, prefix: 'PED', padding: 4 }
+      expect(formatFolio(settings, 2027, 7)).toBe('PED-2027-0007')
+    })
+
+    test('does not truncate sequences longer than the padding', () => {
+      expect(formatFolio(DEFAULT_FOLIO_SETTINGS.quotation, 2026, 1234567)).toBe('COT-2026-1234567')
+    })
+
+    test('rejects non-positive sequences', () => {
+      expect(() => formatFolio(DEFAULT_FOLIO_SETTINGS.order, 2026, 0)).toThrow('Folio sequence must be a positive integer')
+      expect(() => formatFolio(DEFAULT_FOLIO_SETTINGS.order, 2026, 1.5)).toThrow('Folio sequence must be a positive integer')
+    })
+  })
+
+  describe('formatRevisionFolio', () => {
+    test('keeps the root folio for the first revision', () => {
+      expect(formatRevisionFolio('COT-2026-000123', 1)).toBe('COT-2026-000123')
+    })
+
+    test('appends the revision suffix for later revisions', () => {
+      expect(formatRevisionFolio('COT-2026-000123', 2)).toBe('COT-2026-000123-R2')
+    })
+
+    test('rejects invalid revision numbers', () => {
+      expect(() => formatRevisionFolio('COT-2026-000123', 0)).toThrow('Revision must be a positive integer')
+    })
+  })
+
+  describe('parseFolio', () => {
+    test('parses a sequential folio', () => {
+      expect(parseFolio('COT-2026-000123')).toEqual({ prefix: 'COT', year: 2026, sequence: 123, revision: 1 })
+    })
+
+    test('parses the revision suffix', () => {
+      expect(parseFolio('COT-2026-000123-R3')).toEqual({ prefix: 'COT', year: 2026, sequence: 123, revision: 3 })
+    })
+
+    test('returns null for legacy folios', () => {
+      expect(parseFolio('COT-18F3A2B4')).toBeNull()
+      expect(parseFolio('ORD-00000001')).toBeNull()
+    })
+
+    test('round-trips with formatFolio', () => {
+      const folio = formatFolio(DEFAULT_FOLIO_SETTINGS.order, 2026, 981)
+      const parsed = parseFolio(folio)
+      expect(parsed?.sequence).toBe(981)
+      expect(parsed?.year).toBe(2026)
+    })
+  })
+
+  describe('isValidFolio', () => {
+    test('accepts folios matching the settings', () => {
+      expect(isValidFolio('COT-2026-000001', DEFAULT_FOLIO_SETTINGS.quotation)).toBe(true)
+    })
+
+    test('rejects folios with the wrong prefix', () => {
+      expect(isValidFolio('ORD-2026-000001', DEFAULT_FOLIO_SETTINGS.quotation)).toBe(false)
+    })
+
+    test('accepts revision folios', () => {
+      expect(isValidFolio('COT-2026-000001-R2', DEFAULT_FOLIO_SETTINGS.quotation)).toBe(true)
+    })
+
+    test('rejects folios shorter than the padding', () => {
+      expect(isValidFolio('COT-2026-01', DEFAULT_FOLIO_SETTINGS.quotation)).toBe(false)
+    })
+  })
+
+  describe('describeFolioFormat', () => {
+    test('describes the default formats', () => {
+      expect(describeFolioFormat(DEFAULT_FOLIO_SETTINGS.quotation)).toBe('COT-YYYY-NNNNNN')
+      expect(describeFolioFormat(DEFAULT_FOLIO_SETTINGS.order)).toBe('ORD-YYYY-NNNNNN')
+    })
+  })
+
+  describe('validateFolioSettings', () => {
+    test('accepts valid settings', () => {
+      expect(validateFolioSettings({ prefix: 'COT', padding: 6 })).toHaveLength(0)
+    })
+
+    test('rejects lowercase or numeric prefixes', () => {
+      expect(validateFolioSettings({ prefix: 'cot', padding: 6 })).toContain('Folio prefix must be 2 to 10 uppercase letters')
+      expect(validateFolioSettings({ prefix: 'C0T', padding: 6 })).toContain('Folio prefix must be 2 to 10 uppercase letters')
+    })
+
+    test('rejects padding out of range', () => {
+      expect(validateFolioSettings({ prefix: 'COT', padding: 0 })).toContain('Folio padding must be between 1 and 12')
+      expect(validateFolioSettings({ prefix: 'COT', padding: 13 })).toContain('Folio padding must be between 1 and 12')
+    })
+  })
+})
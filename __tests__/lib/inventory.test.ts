@@ -0,0 +1,140 @@
+/**
+ * Inventory Unit Tests
+ * Tests for checking and recording stock movements and reading stock levels
+ */
+
+import {
+  getStockLevels,
+  isLowStock,
+  recordMovement,
+  toMovementRows,
+  validateMovement,
+  type MovementInput
+} from '../../lib/inventory';
+
+const mockSupabase = {
+  from: jest.fn()
+};
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: () => mockSupabase
+}));
+
+const receipt: MovementInput = {
+  productId: 'product-1',
+  type: 'receipt',
+  quantity: 24,
+  location: ' A-01 ',
+  reference: 'FAC-881',
+  unitCost: 12.5
+};
+
+describe('validateMovement', () => {
+  test('accepts receipts, returns and signed adjustments', () => {
+    expect(validateMovement(receipt)).toEqual([]);
+    expect(validateMovement({ productId: 'product-1', type: 'return', quantity: 2 })).toEqual([]);
+    expect(validateMovement({ productId: 'product-1', type: 'adjustment', quantity: -3, notes: 'Damaged' })).toEqual([]);
+  });
+
+  test('rejects zero, fractional and negative quantities', () => {
+    expect(validateMovement({ ...receipt, quantity: 0 })).toEqual(['Quantity must be a whole number other than zero']);
+    expect(validateMovement({ ...receipt, quantity: 1.5 })).toEqual(['Quantity must be a whole number other than zero']);
+    expect(validateMovement({ ...receipt, quantity: -1 })).toEqual(['Receipt quantity must be positive']);
+  });
+
+  test('receipts need a unit cost', () => {
+    expect(validateMovement({ ...receipt, unitCost: null })).toEqual(['Receipts need a unit cost']);
+    expect(validateMovement({ ...receipt, unitCost: 0 })).toEqual([]);
+  });
+
+  test('adjustments need a reason', () => {
+    expect(validateMovement({ productId: 'product-1', type: 'adjustment', quantity: 5, notes: ' ' }))
+      .toEqual(['Adjustments need a reason']);
+  });
+
+  test('transfers need two different locations', () => {
+    const transfer: MovementInput = { productId: 'product-1', type: 'transfer', quantity: 5 };
+
+    expect(validateMovement({ ...transfer, fromLocation: 'A-01' })).toEqual(['Transfers need a from and a to location']);
+    expect(validateMovement({ ...transfer, fromLocation: 'A-01', toLocation: 'A-01' }))
+      .toEqual(['Transfers must move stock to another location']);
+  });
+
+  test('sales cannot be recorded by hand', () => {
+    const sale = { productId: 'product-1', type: 'sale', quantity: -1 } as unknown as MovementInput;
+
+    expect(validateMovement(sale)).toEqual(['Sales are recorded when orders ship']);
+  });
+});
+
+describe('toMovementRows', () => {
+  test('records a movement as one trimmed row', () => {
+    expect(toMovementRows(receipt, 'user-1')).toEqual([{
+      product_id: 'product-1',
+      type: 'receipt',
+      quantity: 24,
+      location: 'A-01',
+      document_id: null,
+      reference: 'FAC-881',
+      notes: null,
+      unit_cost: 12.5,
+      created_by: 'user-1'
+    }]);
+  });
+
+  test('records a transfer as a row out and a row in', () => {
+    const rows = toMovementRows(
+      { productId: 'product-1', type: 'transfer', quantity: 5, fromLocation: 'A-01', toLocation: 'B-02' },
+      'user-1'
+    );
+
+    expect(rows.map(row => [row.quantity, row.location])).toEqual([[-5, 'A-01'], [5, 'B-02']]);
+    expect(rows.reduce((sum, row) => sum + row.quantity, 0)).toBe(0);
+  });
+});
+
+describe('isLowStock', () => {
+  test('compares available stock, not stock on hand, with the minimum', () => {
+    expect(isLowStock({ available: 4 }, 5)).toBe(true);
+    expect(isLowStock({ available: 5 }, 5)).toBe(true);
+    expect(isLowStock({ available: 6 }, 5)).toBe(false);
+  });
+});
+
+describe('recordMovement', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('inserts the rows of a valid movement', async () => {
+    const insert = jest.fn().mockResolvedValue({ error: null });
+    mockSupabase.from.mockReturnValue({ insert });
+
+    const result = await recordMovement(receipt, 'user-1');
+
+    expect(result).toEqual({ success: true, message: 'Receipt recorded' });
+    expect(mockSupabase.from).toHaveBeenCalledWith('inventory_movements');
+    expect(insert).toHaveBeenCalledWith(toMovementRows(receipt, 'user-1'));
+  });
+
+  test('does not touch the database for an invalid movement', async () => {
+    const result = await recordMovement({ ...receipt, quantity: 0 }, 'user-1');
+
+    expect(result.success).toBe(false);
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+});
+
+describe('getStockLevels', () => {
+  test('returns on hand, reserved and available stock by product', async () => {
+    const level = { product_id: 'product-1', on_hand: 10, reserved: 4, available: 6 };
+    const query = {
+      select: jest.fn().mockReturnThis(),
+      in: jest.fn().mockResolvedValue({ data: [level], error: null })
+    };
+    mockSupabase.from.mockReturnValue(query);
+
+    await expect(getStockLevels(['product-1'])).resolves.toEqual({ 'product-1': level });
+    expect(mockSupabase.from).toHaveBeenCalledWith('product_stock');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Invoices Unit Tests
+ * Tests for drafting invoices from orders, the XML of drafts and the printed invoice
+ */
+
+import { buildCFDI, type CFDIOrderLine } from '../../lib/cfdi';
+import { createInvoice, getInvoiceXml, toInvoicePDFData, type Invoice } from '../../lib/invoices';
+import { createFakePAC } from '../../lib/pac';
+import { createRateTaxConfig } from '../../lib/calculations';
+
+const mockSupabase = {
+  from: jest.fn()
+};
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: () => mockSupabase
+}));
+
+const line: CFDIOrderLine = {
+  product_code: 'JAB-01',
+  product_name: 'Jabón de tocador',
+  unit: 'CAJA',
+  quantity: 2,
+  unit_price: 300,
+  discount_amount: 0,
+  taxes: [{ tax: createRateTaxConfig(0.16), base: 600, amount: 96 }]
+};
+
+const cfdi = buildCFDI(
+  [line],
+  { legal_name: 'Hoja Verde S.A. de C.V.', rfc: 'HVE240101AB1', fiscal_regime: '601', postal_code: '06600' },
+  { name: 'Hotel Riviera', rfc: 'HRI010101AAA', postal_code: '77500', fiscal_regime: '601', cfdi_use: 'G03' },
+  { paymentForm: '03', paymentMethod: 'PUE', cfdiUse: 'G01', currency: 'MXN', exchangeRate: 1 }
+);
+
+const draft: Invoice = {
+  id: 'inv-1',
+  order_id: 'order-1',
+  company_id: 'company-1',
+  serie: 'A',
+  folio: 12,
+  status: 'draft',
+  payment_form: '03',
+  payment_method: 'PUE',
+  cfdi_use: 'G01',
+  currency: 'MXN',
+  exchange_rate: 1,
+  subtotal: 600,
+  discount_amount: 0,
+  tax_amount: 96,
+  withholding_amount: 0,
+  total: 696,
+  cfdi,
+  xml: null,
+  uuid: null,
+  stamped_at: null,
+  cancelled_at: null,
+  cancellation_reason: null,
+  created_at: '2026-10-19T16:00:00Z',
+  updated_at: '2026-10-19T16:00:00Z',
+  companies: null,
+  order: { folio: 'PED-2026-0001' }
+};
+
+describe('getInvoiceXml', () => {
+  test('writes drafts with their serie and folio', () => {
+    expect(getInvoiceXml(draft)).toContain('Serie="A" Folio="12"');
+  });
+
+  test('returns the stamped XML as stored', () => {
+    expect(getInvoiceXml({ ...draft, status: 'stamped', xml: '<cfdi:Comprobante/>' })).toBe('<cfdi:Comprobante/>');
+  });
+});
+
+describe('toInvoicePDFData', () => {
+  test('describes catalog keys and groups taxes for the totals', () => {
+    const data = toInvoicePDFData(draft);
+
+    expect(data.folio).toBe('A-12');
+    expect(data.fiscalDetails).toContainEqual({ label: 'Uso CFDI', value: 'G01 - Adquisición de mercancías' });
+    expect(data.fiscalDetails).toContainEqual({ label: 'Pedido', value: 'PED-2026-0001' });
+    expect(data.taxBreakdown).toEqual([
+      { code: 'IVA', name: 'IVA', kind: 'transferred', type: 'percentage', rate: 0.16, base: 600, amount: 96 }
+    ]);
+    expect(data.stamp).toBeUndefined();
+  });
+
+  test('prints the fiscal stamp of stamped invoices', async () => {
+    const { xml, stamp } = await createFakePAC().stamp(getInvoiceXml(draft));
+    const data = toInvoicePDFData({ ...draft, status: 'stamped', xml: xml ?? null, uuid: stamp?.uuid ?? null });
+
+    expect(data.stamp?.uuid).toBe(stamp?.uuid);
+    expect(data.stamp?.chain).toBe(
+      `||1.1|${stamp?.uuid}|${stamp?.stampedAt}|SPR190613I52|${stamp?.issuerSeal}|${stamp?.satCertificate}||`
+    );
+    expect(data.stamp?.verificationUrl).toContain(`id=${stamp?.uuid}`);
+  });
+});
+
+describe('createInvoice', () => {
+  const query = (result: unknown) => {
+    const chain: Record<string, jest.Mock> = {};
+    ['select', 'eq', 'neq', 'insert'].forEach(method => {
+      chain[method] = jest.fn(() => chain);
+    });
+    chain.single = jest.fn(() => Promise.resolve(result));
+    chain.maybeSingle = jest.fn(() => Promise.resolve(result));
+    chain.then = jest.fn((resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve));
+    return chain;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('only invoices delivered orders', async () => {
+    const invoices = query({ data: [], error: null });
+    mockSupabase.from.mockImplementation((table: string) => {
+      if (table === 'documents') {
+        return query({ data: { id: 'order-1', type: 'order', order_status: 'shipped', document_items: [] }, error: null });
+      }
+      return table === 'invoices' ? invoices : query({ data: null, error: null });
+    });
+
+    const result = await createInvoice('order-1', { paymentForm: '03', paymentMethod: 'PUE', cfdiUse: 'G01' }, 'user-1');
+
+    expect(result).toEqual({ success: false, message: 'Only delivered orders can be invoiced' });
+    expect(invoices.insert).not.toHaveBeenCalled();
+  });
+
+  test('does not invoice an order twice', async () => {
+    mockSupabase.from.mockImplementation((table: string) => {
+      if (table === 'documents') {
+        return query({ data: { id: 'order-1', type: 'order', order_status: 'delivered', document_items: [] }, error: null });
+      }
+      return query({ data: table === 'invoices' ? [{ id: 'inv-1' }] : null, error: null });
+    });
+
+    const result = await createInvoice('order-1', { paymentForm: '03', paymentMethod: 'PUE', cfdiUse: 'G01' }, 'user-1');
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('already has an invoice');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Issuer Profile Unit Tests
+ * Tests for profile validation, CLABE checks and what PDFs and new quotations take from the profile
+ */
+
+import {
+  emptyIssuerProfile,
+  getQuotationDefaults,
+  isValidClabe,
+  toPDFIssuer,
+  updateIssuerProfile,
+  validateIssuerProfile,
+  type IssuerProfile
+} from '../../lib/issuer-profile';
+import { DEFAULT_ISSUER } from '../../lib/pdf';
+
+const mockSupabase = {
+  from: jest.fn()
+};
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: () => mockSupabase
+}));
+
+const profile: IssuerProfile = {
+  ...emptyIssuerProfile(),
+  legal_name: 'Hoja Verde S.A. de C.V.',
+  trade_name: 'Hoja Verde',
+  rfc: 'HVE240101AB1',
+  fiscal_regime: '601',
+  address: 'Av. Reforma 123',
+  city: 'Ciudad de México',
+  state: 'CDMX',
+  postal_code: '06600',
+  phone: '(55) 1234-5678',
+  email: 'ventas@hojaverde.mx',
+  addresses: [{ label: 'Almacén', address: 'Calle 4 No. 10, Naucalpan' }],
+  bank_accounts: [{
+    bank: 'Banamex',
+    account_holder: 'Hoja Verde S.A. de C.V.',
+    account_number: null,
+    clabe: '002010077777777771',
+    currency: 'MXN'
+  }],
+  logo_url: 'https://example.supabase.co/storage/v1/object/public/branding/logo-1.png',
+  primary_color: '#166534',
+  accent_color: '#14532D',
+  default_validity_days: 15,
+  default_terms: 'Precios más IVA',
+  default_delivery_terms: null,
+  footer_text: 'Gracias por su preferencia'
+};
+
+describe('isValidClabe', () => {
+  test('accepts a CLABE whose control digit matches', () => {
+    expect(isValidClabe('002010077777777771')).toBe(true);
+  });
+
+  test('rejects a wrong control digit or length', () => {
+    expect(isValidClabe('002010077777777772')).toBe(false);
+    expect(isValidClabe('00201007777777777')).toBe(false);
+    expect(isValidClabe('00201007777777777A')).toBe(false);
+  });
+});
+
+describe('validateIssuerProfile', () => {
+  test('accepts a complete profile', () => {
+    expect(validateIssuerProfile(profile)).toEqual([]);
+  });
+
+  test('requires the legal and fiscal details', () => {
+    expect(validateIssuerProfile({ ...profile, legal_name: ' ', rfc: 'HVE', fiscal_regime: '999', postal_code: '066' })).toEqual([
+      'Legal name is required',
+      'RFC is not valid',
+      'Fiscal regime is required',
+      'Postal code must have 5 digits'
+    ]);
+  });
+
+  test('checks colors, validity and bank accounts', () => {
+    expect(validateIssuerProfile({
+      ...profile,
+      primary_color: 'green',
+      default_validity_days: 0,
+      bank_accounts: [{ ...profile.bank_accounts[0], clabe: '002010077777777772' }, { ...profile.bank_accounts[0], clabe: null }]
+    })).toEqual([
+      'Brand colors must be hex colors like #1F2937',
+      'Default validity must be at least 1 day',
+      'Bank account 1: CLABE is not valid',
+      'Bank account 2: enter a CLABE or an account number'
+    ]);
+  });
+});
+
+describe('toPDFIssuer', () => {
+  test('falls back to the built-in issuer until a profile is saved', () => {
+    expect(toPDFIssuer(null)).toBe(DEFAULT_ISSUER);
+  });
+
+  test('shows the trade name with the legal name under it', () => {
+    expect(toPDFIssuer(profile)).toMatchObject({
+      name: 'Hoja Verde',
+      legalName: 'Hoja Verde S.A. de C.V.',
+      fiscalRegime: '601 - General de Ley Personas Morales',
+      zip: '06600',
+      logo: profile.logo_url,
+      addresses: ['Almacén: Calle 4 No. 10, Naucalpan'],
+      bankAccounts: [{ bank: 'Banamex', accountHolder: 'Hoja Verde S.A. de C.V.', clabe: '002010077777777771', currency: 'MXN' }],
+      colors: { primary: '#166534', accent: '#14532D' },
+      footerText: 'Gracias por su preferencia'
+    });
+    expect(toPDFIssuer({ ...profile, trade_name: null })).toMatchObject({ name: 'Hoja Verde S.A. de C.V.', legalName: undefined });
+  });
+});
+
+describe('getQuotationDefaults', () => {
+  const defaults = {
+    company_id: '',
+    contact_name: '',
+    contact_email: '',
+    validity_days: 30,
+    terms: 'PRECIO + IVA',
+    delivery_terms: '4 a 7 días hábiles',
+    payment_terms: 'Contra entrega'
+  };
+
+  test('takes validity and terms from the profile, keeping built-in terms that are not set', () => {
+    expect(getQuotationDefaults(profile, defaults)).toEqual({
+      ...defaults,
+      validity_days: 15,
+      terms: 'Precios más IVA'
+    });
+    expect(getQuotationDefaults(null, defaults)).toBe(defaults);
+  });
+});
+
+describe('updateIssuerProfile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('saves the single profile row', async () => {
+    const upsert = jest.fn().mockResolvedValue({ error: null });
+    mockSupabase.from.mockReturnValue({ upsert });
+
+    const result = await updateIssuerProfile({ ...profile, rfc: ' hve240101ab1 ', footer_text: ' ' });
+
+    expect(result).toEqual({ success: true, message: 'Issuer profile updated' });
+    expect(mockSupabase.from).toHaveBeenCalledWith('issuer_profile');
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({ id: true, rfc: 'HVE240101AB1', footer_text: null }));
+  });
+
+  test('does not save an invalid profile', async () => {
+    const result = await updateIssuerProfile({ ...profile, legal_name: '' });
+
+    expect(result).toEqual({ success: false, message: 'Legal name is required' });
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+});
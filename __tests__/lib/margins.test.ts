@@ -0,0 +1,194 @@
+/**
+ * Realized Margin Unit Tests
+ * Tests for gross margins and their breakdown by order, client and category
+ */
+
+import {
+  buildMarginReport,
+  calculateGrossMargin,
+  getMarginLines,
+  summarizeMargins,
+  type MarginLine
+} from '../../lib/margins';
+
+const mockSupabase = {
+  from: jest.fn()
+};
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: () => mockSupabase
+}));
+
+const line = (overrides: Partial<MarginLine>): MarginLine => ({
+  order_id: 'order-1',
+  folio: 'PED-2026-000001',
+  order_date: '2026-10-01T15:00:00Z',
+  company_id: 'company-1',
+  company_name: 'Limpieza Industrial del Centro',
+  item_id: 'item-1',
+  product_id: 'product-1',
+  category_id: 'category-1',
+  category_name: 'Químicos',
+  revenue: 1000,
+  cost: 600,
+  ...overrides
+});
+
+const lines: MarginLine[] = [
+  line({}),
+  line({ item_id: 'item-2', product_id: 'product-2', category_id: 'category-2', category_name: 'Accesorios', revenue: 500, cost: 450 }),
+  line({
+    order_id: 'order-2',
+    folio: 'PED-2026-000002',
+    company_id: 'company-2',
+    company_name: 'Hoteles del Bajío',
+    item_id: 'item-3',
+    revenue: 2000,
+    cost: 1100.5
+  }),
+  line({
+    order_id: 'order-2',
+    folio: 'PED-2026-000002',
+    company_id: 'company-2',
+    company_name: 'Hoteles del Bajío',
+    item_id: 'item-4',
+    product_id: null,
+    category_id: null,
+    category_name: null,
+    revenue: 300,
+    cost: null
+  })
+];
+
+describe('calculateGrossMargin', () => {
+  test('is gross profit over revenue', () => {
+    expect(calculateGrossMargin(1000, 600)).toBeCloseTo(0.4);
+  });
+
+  test('goes negative when selling below cost', () => {
+    expect(calculateGrossMargin(100, 120)).toBeCloseTo(-0.2);
+  });
+
+  test('is 0 without revenue', () => {
+    expect(calculateGrossMargin(0, 50)).toBe(0);
+  });
+});
+
+describe('summarizeMargins', () => {
+  test('adds up each order, most gross profit first', () => {
+    expect(summarizeMargins(lines, 'order')).toEqual([
+      {
+        key: 'order-2',
+        label: 'PED-2026-000002',
+        revenue: 2000,
+        cost: 1100.5,
+        gross_profit: 899.5,
+        margin: expect.closeTo(0.44975, 5),
+        orders: 1,
+        uncosted_lines: 1
+      },
+      {
+        key: 'order-1',
+        label: 'PED-2026-000001',
+        revenue: 1500,
+        cost: 1050,
+        gross_profit: 450,
+        margin: expect.closeTo(0.3, 5),
+        orders: 1,
+        uncosted_lines: 0
+      }
+    ]);
+  });
+
+  test('groups by category, lines without one together', () => {
+    const byCategory = summarizeMargins(lines, 'category');
+
+    expect(byCategory.map(summary => [summary.key, summary.label, summary.gross_profit])).toEqual([
+      ['category-1', 'Químicos', 1299.5],
+      ['category-2', 'Accesorios', 50],
+      ['none', null, 0]
+    ]);
+    expect(byCategory[0].orders).toBe(2);
+    expect(byCategory[2].uncosted_lines).toBe(1);
+  });
+});
+
+describe('buildMarginReport', () => {
+  test('totals every costed line', () => {
+    const report = buildMarginReport(lines);
+
+    expect(report.total).toEqual(expect.objectContaining({
+      revenue: 3500,
+      cost: 2150.5,
+      gross_profit: 1349.5,
+      orders: 2,
+      uncosted_lines: 1
+    }));
+    expect(report.byClient.map(summary => summary.label)).toEqual(['Hoteles del Bajío', 'Limpieza Industrial del Centro']);
+  });
+
+  test('is empty without lines', () => {
+    const report = buildMarginReport([]);
+
+    expect(report.total.revenue).toBe(0);
+    expect(report.total.margin).toBe(0);
+    expect(report.byOrder).toEqual([]);
+  });
+});
+
+describe('getMarginLines', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // A query whose range() resolves to the pages given, one per call
+  const pagedQuery = (...pages: unknown[]) => {
+    const range = jest.fn();
+    pages.forEach(page => range.mockResolvedValueOnce(page));
+    const query = {
+      select: jest.fn(() => query),
+      gte: jest.fn(() => query),
+      order: jest.fn(() => query),
+      range
+    };
+    mockSupabase.from.mockReturnValue(query);
+    return query;
+  };
+
+  test('reads the lines of orders created since the date', async () => {
+    const query = pagedQuery({ data: lines, error: null });
+
+    const result = await getMarginLines(new Date('2026-09-01T00:00:00Z'));
+
+    expect(mockSupabase.from).toHaveBeenCalledWith('order_line_margins');
+    expect(query.gte).toHaveBeenCalledWith('order_date', '2026-09-01T00:00:00.000Z');
+    expect(query.range).toHaveBeenCalledTimes(1);
+    expect(result).toEqual(lines);
+  });
+
+  test('reads page after page until one comes back short', async () => {
+    const fullPage = Array.from({ length: 1000 }, (_, index) => line({ item_id: `item-${index}` }));
+    const query = pagedQuery({ data: fullPage, error: null }, { data: lines, error: null });
+
+    const result = await getMarginLines(new Date('2026-09-01T00:00:00Z'));
+
+    expect(query.order).toHaveBeenCalledWith('item_id');
+    expect(query.range.mock.calls).toEqual([[0, 999], [1000, 1999]]);
+    expect(result).toHaveLength(1004);
+  });
+
+  test('returns no lines when the query fails', async () => {
+    pagedQuery({ data: null, error: { message: 'permission denied' } });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await getMarginLines(new Date())).toEqual([]);
+  });
+
+  test('returns no lines rather than some when a later page fails', async () => {
+    const fullPage = Array.from({ length: 1000 }, (_, index) => line({ item_id: `item-${index}` }));
+    pagedQuery({ data: fullPage, error: null }, { data: null, error: { message: 'timeout' } });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await getMarginLines(new Date())).toEqual([]);
+  });
+});
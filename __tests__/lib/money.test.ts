@@ -0,0 +1,133 @@
+/**
+ * Money Arithmetic Unit Tests
+ * Tests for centavo conversion, exact products and sums, rounding modes and allocation
+ */
+
+import {
+  toCentavos,
+  fromCentavos,
+  roundMoney,
+  multiplyMoney,
+  divideMoney,
+  sumMoney,
+  subtractMoney,
+  allocateMoney,
+  DEFAULT_ROUNDING
+} from '../../lib/money';
+
+describe('toCentavos', () => {
+  test('converts peso amounts to integer centavos', () => {
+    expect(toCentavos(1234.56)).toBe(123456);
+    expect(toCentavos(0.01)).toBe(1);
+    expect(toCentavos(0)).toBe(0);
+    expect(toCentavos(-12.5)).toBe(-1250);
+  });
+
+  test('reads amounts as the decimal they print as', () => {
+    // 1.005 is stored as 1.00499999999999989... in binary
+    expect(toCentavos(1.005, 'half-up')).toBe(101);
+    expect(toCentavos(1.005, 'half-even')).toBe(100);
+    expect(toCentavos(1.015, 'half-even')).toBe(102);
+  });
+
+  test('handles exponent notation', () => {
+    expect(toCentavos(1e-7)).toBe(0);
+    expect(toCentavos(1.5e21)).toBe(150000000000000000000000);
+  });
+
+  test('throws for invalid numbers', () => {
+    expect(() => toCentavos(NaN)).toThrow('Amount must be a valid number');
+    expect(() => toCentavos(Infinity)).toThrow('Amount must be a valid number');
+  });
+});
+
+describe('fromCentavos', () => {
+  test('converts centavos back to pesos', () => {
+    expect(fromCentavos(123456)).toBe(1234.56);
+    expect(fromCentavos(-1)).toBe(-0.01);
+  });
+
+  test('rejects fractional centavos', () => {
+    expect(() => fromCentavos(1.5)).toThrow('Centavos must be an integer');
+  });
+});
+
+describe('roundMoney', () => {
+  test('rounds ties to even by default', () => {
+    expect(DEFAULT_ROUNDING.mode).toBe('half-even');
+    expect(roundMoney(100.125)).toBe(100.12);
+    expect(roundMoney(100.135)).toBe(100.14);
+  });
+
+  test('rounds ties away from zero in half-up mode', () => {
+    expect(roundMoney(100.125, 'half-up')).toBe(100.13);
+    expect(roundMoney(-100.125, 'half-up')).toBe(-100.13);
+  });
+
+  test('keeps the sign of negative amounts that round to zero', () => {
+    expect(roundMoney(-0.001)).toBe(-0);
+  });
+});
+
+describe('multiplyMoney', () => {
+  test('multiplies exactly before rounding once', () => {
+    // 2.25 * 0.1 is 0.22500000000000003 in floating point
+    expect(multiplyMoney(2.25, 0.1)).toBe(0.22);
+    expect(multiplyMoney(2.25, 0.1, 'half-up')).toBe(0.23);
+    expect(multiplyMoney(86.2, 0.16)).toBe(13.79);
+  });
+
+  test('multiplies quantities and unit prices', () => {
+    expect(multiplyMoney(3, 19.99)).toBe(59.97);
+    expect(multiplyMoney(0.333, 10)).toBe(3.33);
+  });
+});
+
+describe('divideMoney', () => {
+  test('divides exactly before rounding once', () => {
+    expect(divideMoney(100, 17.2345)).toBe(5.8);
+    expect(divideMoney(1, 3)).toBe(0.33);
+    expect(divideMoney(-1, 3)).toBe(-0.33);
+  });
+
+  test('rounds exact ties with the given mode', () => {
+    expect(divideMoney(0.25, 10)).toBe(0.02);
+    expect(divideMoney(0.25, 10, 'half-up')).toBe(0.03);
+    // Just above a tie always rounds up
+    expect(divideMoney(0.250001, 10)).toBe(0.03);
+  });
+
+  test('throws when dividing by zero', () => {
+    expect(() => divideMoney(1, 0)).toThrow('Cannot divide by zero');
+  });
+});
+
+describe('sumMoney and subtractMoney', () => {
+  test('add without float drift', () => {
+    expect(0.1 + 0.2).not.toBe(0.3);
+    expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    expect(sumMoney(Array(1000).fill(0.01))).toBe(10);
+    expect(sumMoney([])).toBe(0);
+  });
+
+  test('subtract without float drift', () => {
+    expect(subtractMoney(1.1, 0.2)).toBe(0.9);
+    expect(subtractMoney(0.2, 1.1)).toBe(-0.9);
+  });
+});
+
+describe('allocateMoney', () => {
+  test('splits an amount proportionally to the centavo', () => {
+    expect(allocateMoney(100, [1, 1, 1])).toEqual([33.34, 33.33, 33.33]);
+    expect(allocateMoney(10, [300, 100])).toEqual([7.5, 2.5]);
+  });
+
+  test('shares always add up to the amount', () => {
+    const weights = Array.from({ length: 250 }, (_, index) => (index * 37.13) % 991 + 0.07);
+    expect(sumMoney(allocateMoney(1234.56, weights))).toBe(1234.56);
+  });
+
+  test('returns zeros when there is nothing to weigh', () => {
+    expect(allocateMoney(10, [0, 0])).toEqual([0, 0]);
+  });
+});
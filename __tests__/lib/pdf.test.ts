@@ -4,6 +4,7 @@ import {
   getStatusLabel,
   getStatusColor,
   generatePDFFileName,
+  groupPackingItems,
   shouldShowWatermark,
   calculateTaxAmount,
   calculateTotalWithTax,
@@ -79,6 +80,34 @@ describe('PDF Utility Functions', () => {
       const filename = generatePDFFileName('FOL-001', 'Test & Company!@#');
       expect(filename).toContain('test___company___');
     });
+
+    it('should name the file after the document kind', () => {
+      expect(generatePDFFileName('PED-001', 'Test', 'order')).toContain('pedido_PED-001_test_');
+      expect(generatePDFFileName('PED-001', 'Test', 'packing_list')).toContain('surtido_PED-001_');
+      expect(generatePDFFileName('PED-001', 'Test', 'delivery_note')).toContain('remision_PED-001_');
+    });
+  });
+
+  describe('groupPackingItems', () => {
+    const item = { id: '1', productCode: 'A-1', productName: 'Producto', quantity: 1 };
+
+    it('should group by bin first, then by category, then the rest', () => {
+      const groups = groupPackingItems([
+        { ...item, id: '1', productCode: 'Z-9', category: 'Limpieza' },
+        { ...item, id: '2', bin: 'B-10' },
+        { ...item, id: '3' },
+        { ...item, id: '4', bin: 'B-2' },
+        { ...item, id: '5', productCode: 'C-1', bin: 'B-2' },
+      ]);
+
+      expect(groups.map(group => group.label)).toEqual([
+        'Ubicación B-2',
+        'Ubicación B-10',
+        'Categoría Limpieza',
+        'SIN UBICACIÓN',
+      ]);
+      expect(groups[0].items.map(i => i.id)).toEqual(['4', '5']);
+    });
   });
 
   describe('shouldShowWatermark', () => {
@@ -0,0 +1,198 @@
+/**
+ * Price List Unit Tests
+ * Tests for applicability, best price resolution and validation
+ */
+
+import {
+  formatPriceSource,
+  isPriceListApplicable,
+  resolveProductPrice,
+  validatePriceList,
+  type PriceList,
+  type PricedProduct
+} from '../../lib/price-lists';
+import type { TaxConfiguration } from '../../lib/calculations';
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: jest.fn()
+}));
+
+const iva: TaxConfiguration = {
+  id: 'iva',
+  name: 'IVA 16%',
+  type: 'percentage',
+  rate: 0.16,
+  is_default: true,
+  is_active: true
+};
+
+const towels: PricedProduct = {
+  id: 'towel',
+  category_id: 'linens',
+  cost_price: 100,
+  public_price: 150,
+  tax_included: false
+};
+
+const list = (overrides: Partial<PriceList>): PriceList => ({
+  id: 'list',
+  name: 'Hotel Riviera',
+  description: null,
+  valid_from: null,
+  valid_until: null,
+  is_active: true,
+  created_at: '2026-01-01T00:00:00Z',
+  price_list_items: [],
+  ...overrides
+});
+
+describe('isPriceListApplicable', () => {
+  test('applies between its validity dates, inclusive', () => {
+    const seasonal = list({ valid_from: '2026-06-01', valid_until: '2026-08-31' });
+    expect(isPriceListApplicable(seasonal, '2026-06-01')).toBe(true);
+    expect(isPriceListApplicable(seasonal, '2026-08-31')).toBe(true);
+    expect(isPriceListApplicable(seasonal, '2026-09-01')).toBe(false);
+    expect(isPriceListApplicable(seasonal, '2026-05-31')).toBe(false);
+  });
+
+  test('open-ended lists always apply unless inactive', () => {
+    expect(isPriceListApplicable(list({}), '2030-01-01')).toBe(true);
+    expect(isPriceListApplicable(list({ is_active: false }), '2026-01-01')).toBe(false);
+  });
+});
+
+describe('resolveProductPrice', () => {
+  test('falls back to the public price without lists', () => {
+    expect(resolveProductPrice(towels, [iva], [], '2026-10-19')).toEqual({
+      price: 150,
+      source: 'public',
+      price_list_id: null,
+      price_list_name: null
+    });
+  });
+
+  test('uses a negotiated product price', () => {
+    const negotiated = list({
+      price_list_items: [{ product_id: 'towel', category_id: null, price: 135, markup: null }]
+    });
+    const resolved = resolveProductPrice(towels, [iva], [negotiated], '2026-10-19');
+    expect(resolved.price).toBe(135);
+    expect(resolved.source).toBe('negotiated');
+    expect(formatPriceSource(resolved)).toBe('Hotel Riviera (negotiated)');
+  });
+
+  test('marks a category up over cost on the product tax basis', () => {
+    const markup = list({
+      price_list_items: [{ product_id: null, category_id: 'linens', price: null, markup: 0.2 }]
+    });
+    expect(resolveProductPrice(towels, [iva], [markup], '2026-10-19').price).toBe(120);
+
+    const taxIncluded = { ...towels, public_price: 174, tax_included: true };
+    const resolved = resolveProductPrice(taxIncluded, [iva], [markup], '2026-10-19');
+    expect(resolved.price).toBe(139.2);
+    expect(formatPriceSource(resolved)).toBe('Hotel Riviera (cost + 20%)');
+  });
+
+  test('a product price beats its category markup within a list', () => {
+    const mixed = list({
+      price_list_items: [
+        { product_id: null, category_id: 'linens', price: null, markup: 0.1 },
+        { product_id: 'towel', category_id: null, price: 140, markup: null }
+      ]
+    });
+    expect(resolveProductPrice(towels, [iva], [mixed], '2026-10-19').price).toBe(140);
+  });
+
+  test('picks the lowest price across lists', () => {
+    const contract = list({
+      id: 'contract',
+      name: 'Contract',
+      price_list_items: [{ product_id: 'towel', category_id: null, price: 130, markup: null }]
+    });
+    const promo = list({
+      id: 'promo',
+      name: 'Summer promo',
+      valid_from: '2026-06-01',
+      valid_until: '2026-08-31',
+      price_list_items: [{ product_id: 'towel', category_id: null, price: 110, markup: null }]
+    });
+
+    expect(resolveProductPrice(towels, [iva], [contract, promo], '2026-07-15').price_list_id).toBe('promo');
+    expect(resolveProductPrice(towels, [iva], [contract, promo], '2026-10-19').price_list_id).toBe('contract');
+  });
+
+  test('never quotes above the public price', () => {
+    const expensive = list({
+      price_list_items: [{ product_id: 'towel', category_id: null, price: 180, markup: null }]
+    });
+    expect(resolveProductPrice(towels, [iva], [expensive], '2026-10-19').source).toBe('public');
+  });
+
+  test('uses the volume tier a quantity reaches', () => {
+    const tiered = { ...towels, price_tiers: [{ min_quantity: 12, price: 125 }] };
+    expect(resolveProductPrice(tiered, [iva], [], '2026-10-19', 11).source).toBe('public');
+
+    const resolved = resolveProductPrice(tiered, [iva], [], '2026-10-19', 12);
+    expect(resolved.price).toBe(125);
+    expect(resolved.source).toBe('tier');
+    expect(formatPriceSource(resolved)).toBe('Volume price (12+)');
+  });
+
+  test('a negotiated price only wins when it beats the tier', () => {
+    const tiered = { ...towels, price_tiers: [{ min_quantity: 12, price: 125 }] };
+    const negotiated = list({
+      price_list_items: [{ product_id: 'towel', category_id: null, price: 130, markup: null }]
+    });
+    expect(resolveProductPrice(tiered, [iva], [negotiated], '2026-10-19', 5).source).toBe('negotiated');
+    expect(resolveProductPrice(tiered, [iva], [negotiated], '2026-10-19', 24).source).toBe('tier');
+  });
+
+  test('skips markups for products without a cost', () => {
+    const markup = list({
+      price_list_items: [{ product_id: null, category_id: 'linens', price: null, markup: 0.2 }]
+    });
+    expect(resolveProductPrice({ ...towels, cost_price: 0 }, [iva], [markup], '2026-10-19').source).toBe('public');
+  });
+});
+
+describe('validatePriceList', () => {
+  const valid = {
+    name: 'Hotel Riviera',
+    description: null,
+    valid_from: '2026-01-01',
+    valid_until: '2026-12-31',
+    is_active: true,
+    price_list_items: [
+      { product_id: 'towel', category_id: null, price: 135, markup: null },
+      { product_id: null, category_id: 'linens', price: null, markup: 0.2 }
+    ]
+  };
+
+  test('accepts a valid list', () => {
+    expect(validatePriceList(valid)).toEqual([]);
+  });
+
+  test('requires a name and an ordered date range', () => {
+    expect(validatePriceList({ ...valid, name: ' ', valid_until: '2025-12-31' })).toEqual([
+      'Name is required',
+      'Valid until must not be before valid from'
+    ]);
+  });
+
+  test('checks each entry', () => {
+    expect(validatePriceList({
+      ...valid,
+      price_list_items: [
+        { product_id: null, category_id: null, price: 10, markup: null },
+        { product_id: 'towel', category_id: null, price: 0, markup: null },
+        { product_id: 'towel', category_id: null, price: 10, markup: null },
+        { product_id: null, category_id: 'linens', price: null, markup: -0.1 }
+      ]
+    })).toEqual([
+      'Entry 1: choose either a product or a category',
+      'Entry 2: price must be positive',
+      'Entry 3: product is listed more than once',
+      'Entry 4: markup cannot be negative'
+    ]);
+  });
+});
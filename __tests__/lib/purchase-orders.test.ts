@@ -0,0 +1,261 @@
+/**
+ * Purchase Order Unit Tests
+ * Tests for the purchase order status machine, totals, receiving and restock dates
+ */
+
+import {
+  calculatePurchaseOrderTotals,
+  getManualPurchaseOrderStatuses,
+  getRestockDates,
+  getValidNextPurchaseOrderStatuses,
+  receivePurchaseOrder,
+  toPurchaseOrderPDFData,
+  updatePurchaseOrderStatus,
+  validatePurchaseOrder,
+  validatePurchaseOrderStatusTransition,
+  validateReceipts,
+  type PurchaseOrder,
+  type PurchaseOrderInput
+} from '../../lib/purchase-orders';
+
+const mockSupabase = {
+  from: jest.fn(),
+  rpc: jest.fn()
+};
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: () => mockSupabase
+}));
+
+const purchaseOrder: PurchaseOrder = {
+  id: 'po-1',
+  folio: 'OC-2026-000001',
+  supplier_id: 'supplier-1',
+  status: 'sent',
+  order_date: '2026-10-01',
+  expected_date: '2026-10-15',
+  currency: 'MXN',
+  exchange_rate: 1,
+  tax_rate: 0.16,
+  subtotal: 1250,
+  tax_amount: 200,
+  total: 1450,
+  notes: null,
+  sent_at: '2026-10-01T16:00:00Z',
+  received_at: null,
+  closed_at: null,
+  created_at: '2026-10-01T15:00:00Z',
+  updated_at: '2026-10-01T16:00:00Z',
+  suppliers: {
+    name: 'Distribuidora del Bajío',
+    rfc: 'DBA010101AB1',
+    contact_name: 'Laura Méndez',
+    email: 'ventas@dbajio.mx',
+    phone: '477 123 4567',
+    address: 'Blvd. López Mateos 100, León',
+    payment_terms: '30 días'
+  },
+  purchase_order_items: [
+    {
+      id: 'item-1',
+      purchase_order_id: 'po-1',
+      product_id: 'product-1',
+      supplier_code: 'JB-24',
+      quantity: 100,
+      unit_cost: 12.5,
+      received_quantity: 40,
+      products: { code: 'JAB-001', name: 'Jabón de tocador', unit: 'PZA', bin_location: 'A-01' }
+    }
+  ]
+};
+
+const input: PurchaseOrderInput = {
+  supplier_id: 'supplier-1',
+  order_date: '2026-10-01',
+  expected_date: '2026-10-15',
+  currency: 'MXN',
+  tax_rate: 0.16,
+  notes: null,
+  items: [{ product_id: 'product-1', supplier_code: 'JB-24', quantity: 100, unit_cost: 12.5 }]
+};
+
+describe('Purchase order status transitions', () => {
+  test('follows draft, sent, received and closed', () => {
+    expect(validatePurchaseOrderStatusTransition('draft', 'sent').isValid).toBe(true);
+    expect(validatePurchaseOrderStatusTransition('sent', 'partially_received').isValid).toBe(true);
+    expect(validatePurchaseOrderStatusTransition('partially_received', 'received').isValid).toBe(true);
+    expect(validatePurchaseOrderStatusTransition('received', 'closed').isValid).toBe(true);
+  });
+
+  test('cannot skip sending or reopen final statuses', () => {
+    expect(validatePurchaseOrderStatusTransition('draft', 'received')).toEqual({
+      from: 'draft',
+      to: 'received',
+      isValid: false,
+      reason: 'Cannot transition from draft to received'
+    });
+    expect(validatePurchaseOrderStatusTransition('closed', 'sent').reason)
+      .toBe('Cannot change status of closed purchase orders');
+    expect(getValidNextPurchaseOrderStatuses('cancelled')).toEqual([]);
+  });
+
+  test('only cancels orders nothing has arrived for', () => {
+    expect(getValidNextPurchaseOrderStatuses('sent')).toContain('cancelled');
+    expect(getValidNextPurchaseOrderStatuses('partially_received')).not.toContain('cancelled');
+  });
+
+  test('leaves the received statuses to receiving', () => {
+    expect(getManualPurchaseOrderStatuses('sent')).toEqual(['cancelled']);
+    expect(getManualPurchaseOrderStatuses('partially_received')).toEqual(['closed']);
+  });
+});
+
+describe('calculatePurchaseOrderTotals', () => {
+  test('adds tax at the order rate to the line costs', () => {
+    expect(calculatePurchaseOrderTotals([
+      { quantity: 100, unit_cost: 12.5 },
+      { quantity: 3, unit_cost: 0.33 }
+    ], 0.16)).toEqual({ subtotal: 1250.99, tax_amount: 200.16, total: 1451.15 });
+  });
+});
+
+describe('validatePurchaseOrder', () => {
+  test('accepts a complete order', () => {
+    expect(validatePurchaseOrder(input)).toEqual([]);
+  });
+
+  test('rejects missing lines, repeated products and bad quantities', () => {
+    expect(validatePurchaseOrder({ ...input, items: [] })).toEqual(['Add at least one product']);
+    expect(validatePurchaseOrder({
+      ...input,
+      items: [...input.items, { product_id: 'product-1', supplier_code: null, quantity: 2.5, unit_cost: -1 }]
+    })).toEqual([
+      'Line 2: product is listed more than once',
+      'Line 2: quantity must be a positive whole number',
+      'Line 2: unit cost cannot be negative'
+    ]);
+  });
+
+  test('rejects an expected date before the order date', () => {
+    expect(validatePurchaseOrder({ ...input, expected_date: '2026-09-30' }))
+      .toEqual(['Expected date must not be before the order date']);
+  });
+});
+
+describe('validateReceipts', () => {
+  test('accepts up to what is outstanding', () => {
+    expect(validateReceipts(purchaseOrder, [{ item_id: 'item-1', quantity: 60 }])).toEqual([]);
+  });
+
+  test('rejects receiving more than is outstanding', () => {
+    expect(validateReceipts(purchaseOrder, [{ item_id: 'item-1', quantity: 61 }]))
+      .toEqual(['Jabón de tocador: only 60 PZA outstanding']);
+  });
+
+  test('needs something received on a sent order', () => {
+    expect(validateReceipts(purchaseOrder, [{ item_id: 'item-1', quantity: 0 }])).toEqual(['Enter the quantities received']);
+    expect(validateReceipts({ ...purchaseOrder, status: 'draft' }, [{ item_id: 'item-1', quantity: 1 }]))
+      .toEqual(['Only sent purchase orders can be received']);
+  });
+});
+
+describe('receivePurchaseOrder', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('receives in one transaction and reports the new status', async () => {
+    mockSupabase.rpc.mockResolvedValue({
+      data: { success: true, message: 'Purchase order received in full', status: 'received' },
+      error: null
+    });
+
+    const result = await receivePurchaseOrder(
+      purchaseOrder,
+      [{ item_id: 'item-1', quantity: 60 }],
+      { updateCost: true, location: ' A-01 ' }
+    );
+
+    expect(result).toEqual({ success: true, message: 'Purchase order received in full', status: 'received' });
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('receive_purchase_order', {
+      p_purchase_order_id: 'po-1',
+      p_receipts: [{ item_id: 'item-1', quantity: 60 }],
+      p_update_cost: true,
+      p_location: 'A-01'
+    });
+  });
+
+  test('does not call the database for an invalid receipt', async () => {
+    const result = await receivePurchaseOrder(purchaseOrder, [{ item_id: 'item-1', quantity: 500 }]);
+
+    expect(result.success).toBe(false);
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('updatePurchaseOrderStatus', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('refuses to mark an order received by hand', async () => {
+    const result = await updatePurchaseOrderStatus('po-1', 'received');
+
+    expect(result).toEqual({ success: false, message: 'Receive the goods to mark a purchase order received' });
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  test('rejects transitions the status machine does not allow', async () => {
+    const query = {
+      select: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      single: jest.fn().mockResolvedValue({ data: { status: 'draft', folio: 'OC-2026-000001' }, error: null })
+    };
+    mockSupabase.from.mockReturnValue(query);
+
+    const result = await updatePurchaseOrderStatus('po-1', 'closed');
+
+    expect(result).toEqual({ success: false, message: 'Cannot transition from draft to closed' });
+  });
+});
+
+describe('toPurchaseOrderPDFData', () => {
+  test('prints the supplier and its codes', () => {
+    const data = toPurchaseOrderPDFData(purchaseOrder);
+
+    expect(data.supplier.name).toBe('Distribuidora del Bajío');
+    expect(data.supplier.contactName).toBe('Laura Méndez');
+    expect(data.items[0]).toMatchObject({
+      productCode: 'JB-24',
+      description: 'Código interno: JAB-001',
+      quantity: 100,
+      unitPrice: 12.5,
+      subtotal: 1250,
+      tax: 200,
+      total: 1450
+    });
+    expect(data.taxBreakdown).toEqual([
+      { code: 'IVA', name: 'IVA', kind: 'transferred', type: 'percentage', rate: 0.16, base: 1250, amount: 200 }
+    ]);
+    expect(data.exchangeRate).toBeUndefined();
+  });
+});
+
+describe('getRestockDates', () => {
+  test('returns the expected date by product, skipping undated orders', async () => {
+    const query = {
+      select: jest.fn().mockReturnThis(),
+      in: jest.fn().mockResolvedValue({
+        data: [
+          { product_id: 'product-1', expected_date: '2026-10-15' },
+          { product_id: 'product-2', expected_date: null }
+        ],
+        error: null
+      })
+    };
+    mockSupabase.from.mockReturnValue(query);
+
+    await expect(getRestockDates(['product-1', 'product-2'])).resolves.toEqual({ 'product-1': '2026-10-15' });
+    expect(mockSupabase.from).toHaveBeenCalledWith('product_restock_dates');
+  });
+});
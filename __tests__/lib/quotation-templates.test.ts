@@ -0,0 +1,217 @@
+/**
+ * Quotation Template Unit Tests
+ * Tests for copying quotation lines, repricing reports and template validation
+ */
+
+import {
+  compareSourceLines,
+  describeSourceLineChange,
+  saveQuotationTemplate,
+  toTemplateLines,
+  validateQuotationTemplate,
+  type TemplateLine
+} from '../../lib/quotation-templates';
+
+const mockSupabase = {
+  from: jest.fn(),
+  auth: {
+    getUser: jest.fn()
+  }
+};
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: () => mockSupabase
+}));
+
+const soap: TemplateLine = {
+  product_id: 'soap',
+  product_code: 'JAB-01',
+  product_name: 'Jabón de tocador',
+  unit: 'CAJA',
+  quantity: 4,
+  discount: null,
+  is_optional: false,
+  alternative_group: null,
+  expand_on_pdf: false,
+  list_price: 300
+};
+
+const towel: TemplateLine = {
+  ...soap,
+  product_id: 'towel',
+  product_code: 'TOA-01',
+  product_name: 'Toalla de baño',
+  unit: 'PIEZA',
+  quantity: 20,
+  list_price: 85
+};
+
+describe('toTemplateLines', () => {
+  test('copies quoted lines with their discounts and option flags', () => {
+    expect(toTemplateLines([{
+      product_id: 'soap',
+      product_code: 'JAB-01',
+      product_name: 'Jabón de tocador',
+      unit: 'CAJA',
+      quantity: 4,
+      list_price: 300,
+      discount_type: 'percentage',
+      discount_value: 0.1,
+      is_optional: true,
+      alternative_group: null,
+      expand_on_pdf: false
+    }])).toEqual([{ ...soap, discount: { type: 'percentage', value: 0.1 }, is_optional: true }]);
+  });
+
+  test('leaves out lines whose product was deleted', () => {
+    expect(toTemplateLines([{
+      product_id: null,
+      product_code: 'OLD-01',
+      product_name: 'Descontinuado',
+      unit: 'PIEZA',
+      quantity: 1,
+      list_price: 10,
+      discount_type: null,
+      discount_value: 0,
+      is_optional: false,
+      alternative_group: null,
+      expand_on_pdf: false
+    }])).toEqual([]);
+  });
+});
+
+describe('compareSourceLines', () => {
+  test('reports nothing when prices are unchanged', () => {
+    expect(compareSourceLines([soap, towel], [
+      { product_id: 'soap', unit: 'CAJA', list_price: 300 },
+      { product_id: 'towel', unit: 'PIEZA', list_price: 85 }
+    ])).toEqual([]);
+  });
+
+  test('reports changed prices and products that can no longer be quoted', () => {
+    expect(compareSourceLines([soap, towel], [
+      { product_id: 'soap', unit: 'CAJA', list_price: 312 }
+    ])).toEqual([
+      { product_code: 'JAB-01', product_name: 'Jabón de tocador', unit: 'CAJA', change: 'price', old_price: 300, new_price: 312 },
+      { product_code: 'TOA-01', product_name: 'Toalla de baño', unit: 'PIEZA', change: 'unavailable', old_price: 85, new_price: null }
+    ]);
+  });
+
+  test('reports lines that fell back to the base unit', () => {
+    expect(compareSourceLines([soap], [{ product_id: 'soap', unit: 'PIEZA', list_price: 12.5 }])[0].change)
+      .toBe('unit');
+  });
+
+  test('template lines carry no prices, so only availability is reported', () => {
+    const templateLine = { ...soap, list_price: undefined };
+    expect(compareSourceLines([templateLine], [{ product_id: 'soap', unit: 'CAJA', list_price: 312 }])).toEqual([]);
+  });
+
+  test('matches repeated products line by line', () => {
+    const options = [soap, { ...soap, quantity: 8, is_optional: true }];
+    expect(compareSourceLines(options, [
+      { product_id: 'soap', unit: 'CAJA', list_price: 300 },
+      { product_id: 'soap', unit: 'CAJA', list_price: 300 }
+    ])).toEqual([]);
+  });
+});
+
+describe('describeSourceLineChange', () => {
+  test('states what changed for each line', () => {
+    const [price, unavailable] = compareSourceLines([soap, towel], [
+      { product_id: 'soap', unit: 'CAJA', list_price: 312 }
+    ]);
+    expect(describeSourceLineChange(price)).toBe('JAB-01 Jabón de tocador: $300.00 → $312.00');
+    expect(describeSourceLineChange(unavailable)).toBe('TOA-01 Toalla de baño: no longer available, left out');
+  });
+});
+
+describe('validateQuotationTemplate', () => {
+  const template = {
+    name: 'Reposición semanal',
+    validity_days: 7,
+    terms: null,
+    delivery_terms: null,
+    payment_terms: null,
+    items: [soap]
+  };
+
+  test('accepts a valid template', () => {
+    expect(validateQuotationTemplate(template)).toEqual([]);
+  });
+
+  test('requires a name, a validity and lines', () => {
+    expect(validateQuotationTemplate({ ...template, name: ' ', validity_days: 0, items: [] })).toEqual([
+      'Template name is required',
+      'Validity must be at least 1 day',
+      'A template needs at least one line'
+    ]);
+  });
+});
+
+describe('saveQuotationTemplate', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSupabase.auth.getUser.mockResolvedValue({ data: { user: { id: 'admin-id' } } });
+  });
+
+  test('saves lines without their prices', async () => {
+    const insert = jest.fn().mockReturnValue({
+      select: () => ({ single: () => Promise.resolve({ data: { id: 'template-id' }, error: null }) })
+    });
+    mockSupabase.from.mockReturnValue({ insert });
+
+    const result = await saveQuotationTemplate({
+      name: ' Reposición semanal ',
+      validity_days: 7,
+      terms: 'Contado',
+      delivery_terms: '',
+      payment_terms: null,
+      items: [soap]
+    });
+
+    expect(result).toEqual({ success: true, message: 'Template "Reposición semanal" saved', id: 'template-id' });
+    expect(insert).toHaveBeenCalledWith({
+      name: 'Reposición semanal',
+      validity_days: 7,
+      terms: 'Contado',
+      delivery_terms: null,
+      payment_terms: null,
+      items: [{ ...soap, list_price: undefined }],
+      created_by: 'admin-id'
+    });
+  });
+
+  test('reports a duplicate template name', async () => {
+    mockSupabase.from.mockReturnValue({
+      insert: () => ({
+        select: () => ({ single: () => Promise.resolve({ data: null, error: { code: '23505' } }) })
+      })
+    });
+
+    const result = await saveQuotationTemplate({
+      name: 'Reposición semanal',
+      validity_days: 7,
+      terms: null,
+      delivery_terms: null,
+      payment_terms: null,
+      items: [soap]
+    });
+
+    expect(result).toEqual({ success: false, message: 'A template named "Reposición semanal" already exists' });
+  });
+
+  test('does not save an invalid template', async () => {
+    const result = await saveQuotationTemplate({
+      name: '',
+      validity_days: 7,
+      terms: null,
+      delivery_terms: null,
+      payment_terms: null,
+      items: [soap]
+    });
+
+    expect(result.success).toBe(false);
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+});
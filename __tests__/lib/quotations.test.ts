@@ -5,7 +5,17 @@
 import {
   convertQuotationToOrder,
   getQuotationForConversion,
-  canConvertQuotation
+  canConvertQuotation,
+  canReviseQuotation,
+  getQuotationEditAction,
+  groupRevisionsByRoot,
+  createQuotationRevision,
+  isOptionLine,
+  groupAlternatives,
+  validateOptionSelection,
+  hasRowChanged,
+  diffQuotationItems,
+  saveQuotationDraft
 } from '@/lib/quotations'
 
 // Mock Supabase
@@ -17,15 +27,9 @@ const mockSupabase = {
   rpc: jest.fn()
 }
 
-// Mock status management
-jest.mock('@/lib/status-management', () => ({
-  updateQuotationStatus: jest.fn()
-}))
-
 // Mock validation
 jest.mock('@/lib/validation', () => ({
-  validatePreConversion: jest.fn(),
-  validateFolioUniqueness: jest.fn()
+  validatePreConversion: jest.fn()
 }))
 
 jest.mock('@/lib/supabase', () => ({
@@ -56,7 +60,7 @@ describe('Quotation Management', () => {
     const mockQuotationId = 'test-quotation-id'
     const mockUserId = 'test-user-id'
     const mockOrderId = 'test-order-id'
-    const mockOrderFolio = 'ORD-00000001'
+    const mockOrderFolio = 'ORD-2026-000001'
 
     beforeEach(() => {
       // Mock validation to pass by default
@@ -66,11 +70,6 @@ describe('Quotation Management', () => {
         warnings: []
       })
 
-      require('@/lib/validation').validateFolioUniqueness.mockResolvedValue({
-        valid: true,
-        errors: []
-      })
-
       // Mock user authentication
       mockSupabase.auth.getUser.mockResolvedValue({
         data: { user: { id: mockUserId } }
@@ -78,82 +77,39 @@ describe('Quotation Management', () => {
     })
 
     test('successfully converts approved quotation to order', async () => {
-      // Mock quotation data
-      const mockQuotation = {
-        id: mockQuotationId,
-        folio: 'COT-00000001',
-        quotation_status: 'approved',
-        company_id: 'test-company-id',
-        subtotal: 100,
-        taxes: 16,
-        total: 116,
-        notes: 'Test notes',
-        document_items: [
-          {
-            id: 'item-1',
-            product_id: 'product-1',
-            description: 'Test product',
-            quantity: 2,
-            unit_price: 50,
-            discount_percentage: 0,
-            total: 100
-          }
-        ]
-      }
-
-      // Mock order creation
-      const mockOrder = {
-        id: mockOrderId,
-        folio: mockOrderFolio,
-        type: 'order'
-      }
-
-      // Setup mocks
-      const mockQuery = {
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({ data: mockQuotation, error: null })
-      }
-
-      const mockInsert = {
-        insert: jest.fn().mockReturnThis(),
-        select: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({ data: mockOrder, error: null })
-      }
-
-      const mockItemsInsert = {
-        insert: jest.fn().mockResolvedValue({ error: null })
-      }
-
-      mockSupabase.from.mockImplementation((table) => {
-        if (table === 'documents') {
-          return {
-            ...mockQuery,
-            ...mockInsert
-          }
-        }
-        if (table === 'document_items') {
-          return mockItemsInsert
-        }
-        if (table === 'status_history') {
-          return mockItemsInsert // Same structure
-        }
-        return mockQuery
-      })
-
-      // Mock status update
-      require('@/lib/status-management').updateQuotationStatus.mockResolvedValue({
-        success: true
+      mockSupabase.rpc.mockResolvedValue({
+        data: {
+          success: true,
+          message: `Order ${mockOrderFolio} created successfully from quotation COT-2026-000001`,
+          orderId: mockOrderId,
+          orderFolio: mockOrderFolio
+        },
+        error: null
       })
 
       const result = await convertQuotationToOrder(mockQuotationId, mockUserId)
 
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('convert_quotation_to_order', {
+        p_quotation_id: mockQuotationId,
+        p_user_id: mockUserId
+      })
       expect(result.success).toBe(true)
       expect(result.orderId).toBe(mockOrderId)
       expect(result.orderFolio).toBe(mockOrderFolio)
       expect(result.message).toContain('successfully')
     })
 
+    test('does not write anything from the client', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: { success: true, message: 'ok', orderId: mockOrderId, orderFolio: mockOrderFolio },
+        error: null
+      })
+
+      await convertQuotationToOrder(mockQuotationId, mockUserId)
+
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+
     test('fails validation and returns error', async () => {
       // Mock validation failure
       require('@/lib/validation').validatePreConversion.mockResolvedValue({
@@ -167,27 +123,19 @@ describe('Quotation Management', () => {
       expect(result.success).toBe(false)
       expect(result.error).toBe('VALIDATION_FAILED')
       expect(result.message).toContain('not approved')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
     })
 
     test('handles folio uniqueness validation failure', async () => {
-      // Mock folio validation failure
-      require('@/lib/validation').validateFolioUniqueness.mockResolvedValue({
-        valid: false,
-        errors: ['Folio already exists']
+      mockSupabase.rpc.mockResolvedValue({
+        data: {
+          success: false,
+          error: 'FOLIO_VALIDATION_FAILED',
+          message: 'Folio generation failed: duplicate key value'
+        },
+        error: null
       })
 
-      // Mock quotation data
-      const mockQuery = {
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({ 
-          data: { quotation_status: 'approved' }, 
-          error: null 
-        })
-      }
-
-      mockSupabase.from.mockReturnValue(mockQuery)
-
       const result = await convertQuotationToOrder(mockQuotationId, mockUserId)
 
       expect(result.success).toBe(false)
@@ -195,44 +143,32 @@ describe('Quotation Management', () => {
       expect(result.message).toContain('Folio generation failed')
     })
 
-    test('handles database errors during order creation', async () => {
-      // Mock quotation data
-      const mockQuery = {
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({
-          data: { 
-            quotation_status: 'approved',
-            document_items: []
-          },
-          error: null
-        })
-      }
+    test('passes through business-rule failures from the database', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: {
+          success: false,
+          error: 'INVALID_STATUS',
+          message: 'Only approved quotations can be converted to orders'
+        },
+        error: null
+      })
 
-      // Mock order creation failure
-      const mockInsert = {
-        insert: jest.fn().mockReturnThis(),
-        select: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({ 
-          data: null, 
-          error: { message: 'Database error' } 
-        })
-      }
+      const result = await convertQuotationToOrder(mockQuotationId, mockUserId)
 
-      mockSupabase.from.mockImplementation((table) => {
-        if (table === 'documents') {
-          return {
-            ...mockQuery,
-            ...mockInsert
-          }
-        }
-        return mockQuery
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('INVALID_STATUS')
+    })
+
+    test('handles database errors during conversion', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Database error' }
       })
 
       const result = await convertQuotationToOrder(mockQuotationId, mockUserId)
 
       expect(result.success).toBe(false)
-      expect(result.error).toBe('ORDER_CREATION_FAILED')
+      expect(result.error).toBe('CONVERSION_FAILED')
     })
   })
 
@@ -282,4 +218,244 @@ describe('Quotation Management', () => {
       expect(result.message).toBe('Quotation not found')
     })
   })
-})
\ No newline at end of file
+
+  describe('canReviseQuotation', () => {
+    test('allows revising generated and rejected quotations', () => {
+      expect(canReviseQuotation('generated')).toBe(true)
+      expect(canReviseQuotation('rejected')).toBe(true)
+    })
+
+    test('rejects other statuses', () => {
+      expect(canReviseQuotation('draft')).toBe(false)
+      expect(canReviseQuotation('approved')).toBe(false)
+      expect(canReviseQuotation('converted')).toBe(false)
+    })
+
+    test('rejects superseded revisions', () => {
+      expect(canReviseQuotation('generated', false)).toBe(false)
+    })
+  })
+
+  describe('getQuotationEditAction', () => {
+    test('edits drafts in place', () => {
+      expect(getQuotationEditAction('draft')).toBe('edit')
+    })
+
+    test('revises quotations the client has seen', () => {
+      expect(getQuotationEditAction('generated')).toBe('revise')
+      expect(getQuotationEditAction('rejected')).toBe('revise')
+    })
+
+    test('keeps superseded and final quotations read-only', () => {
+      expect(getQuotationEditAction('draft', false)).toBe('none')
+      expect(getQuotationEditAction('approved')).toBe('none')
+      expect(getQuotationEditAction('converted')).toBe('none')
+    })
+  })
+
+  describe('groupRevisionsByRoot', () => {
+    test('groups chains under their root, newest first', () => {
+      const groups = groupRevisionsByRoot([
+        { id: 'a', revision_root_id: null, revision: 1, is_latest_revision: false },
+        { id: 'b', revision_root_id: null, revision: 1, is_latest_revision: true },
+        { id: 'a3', revision_root_id: 'a', revision: 3, is_latest_revision: true },
+        { id: 'a2', revision_root_id: 'a', revision: 2, is_latest_revision: false }
+      ])
+
+      expect(Object.keys(groups).sort()).toEqual(['a', 'b'])
+      expect(groups.a.map(doc => doc.id)).toEqual(['a3', 'a2', 'a'])
+      expect(groups.b.map(doc => doc.id)).toEqual(['b'])
+    })
+  })
+
+  describe('createQuotationRevision', () => {
+    test('creates a revision through the database function', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: {
+          success: true,
+          message: 'Revision COT-2026-000001-R2 created from COT-2026-000001',
+          revisionId: 'revision-id',
+          revisionFolio: 'COT-2026-000001-R2',
+          revision: 2
+        },
+        error: null
+      })
+
+      const result = await createQuotationRevision('quotation-id', 'user-id')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('create_quotation_revision', {
+        p_quotation_id: 'quotation-id',
+        p_user_id: 'user-id'
+      })
+      expect(result.success).toBe(true)
+      expect(result.revisionFolio).toBe('COT-2026-000001-R2')
+    })
+
+    test('passes through business-rule failures', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: {
+          success: false,
+          error: 'NOT_LATEST_REVISION',
+          message: 'Quotation COT-2026-000001 has already been revised'
+        },
+        error: null
+      })
+
+      const result = await createQuotationRevision('quotation-id', 'user-id')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('NOT_LATEST_REVISION')
+    })
+
+    test('handles database errors', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'Database error' } })
+
+      const result = await createQuotationRevision('quotation-id', 'user-id')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('REVISION_FAILED')
+    })
+  })
+
+  describe('optional and alternative lines', () => {
+    const lines = [
+      { id: 'pump', is_optional: false, alternative_group: null },
+      { id: 'install', is_optional: true, alternative_group: null },
+      { id: 'steel', is_optional: false, alternative_group: 'B' },
+      { id: 'brass', is_optional: false, alternative_group: 'B' },
+      { id: 'hose-5m', is_optional: false, alternative_group: 'A' },
+      { id: 'hose-10m', is_optional: false, alternative_group: 'A' }
+    ]
+
+    test('isOptionLine tells option lines from standard ones', () => {
+      expect(lines.map(isOptionLine)).toEqual([false, true, true, true, true, true])
+    })
+
+    test('groupAlternatives groups alternatives in label order', () => {
+      expect(groupAlternatives(lines).map(({ group, items }) => [group, items.map(item => item.id)])).toEqual([
+        ['A', ['hose-5m', 'hose-10m']],
+        ['B', ['steel', 'brass']]
+      ])
+    })
+
+    test('accepts one pick per alternative, with or without optional lines', () => {
+      expect(validateOptionSelection(lines, ['hose-10m', 'steel'])).toEqual([])
+      expect(validateOptionSelection(lines, ['install', 'hose-5m', 'brass'])).toEqual([])
+    })
+
+    test('requires exactly one pick per alternative', () => {
+      expect(validateOptionSelection(lines, ['hose-5m', 'hose-10m'])).toEqual([
+        'Choose only one option for alternative A',
+        'Choose an option for alternative B'
+      ])
+    })
+
+    test('rejects picks that are not option lines', () => {
+      expect(validateOptionSelection(lines, ['pump', 'hose-5m', 'steel'])).toEqual([
+        'Only optional and alternative lines can be chosen'
+      ])
+    })
+  })
+
+  describe('Draft saving', () => {
+    const savedRow = {
+      id: 'line-1',
+      quantity: 2,
+      list_price: 150,
+      discount_type: null,
+      taxes: [{ tax: { name: 'IVA', rate: 0.16 }, amount: 48 }],
+      created_at: '2026-10-01T00:00:00Z'
+    }
+
+    test('a row is unchanged when its fields match, whatever the key order', () => {
+      expect(hasRowChanged({
+        quantity: 2,
+        list_price: 150,
+        discount_type: null,
+        taxes: [{ amount: 48, tax: { rate: 0.16, name: 'IVA' } }]
+      }, savedRow)).toBe(false)
+    })
+
+    test('a row changed when any of its fields differs', () => {
+      expect(hasRowChanged({ quantity: 3, list_price: 150 }, savedRow)).toBe(true)
+      expect(hasRowChanged({ taxes: [] }, savedRow)).toBe(true)
+      expect(hasRowChanged({ quantity: 2 }, undefined)).toBe(true)
+    })
+
+    test('only new, changed and removed lines are written', () => {
+      const saved = {
+        'line-1': savedRow,
+        'line-2': { ...savedRow, id: 'line-2', quantity: 5 },
+        'line-3': { ...savedRow, id: 'line-3' }
+      }
+
+      const { inserts, updates, deletes } = diffQuotationItems(saved, [
+        { id: 'line-1', row: { quantity: 2, list_price: 150 } },
+        { id: 'line-2', row: { quantity: 6, list_price: 150 } },
+        { id: 'tmp-abc', row: { quantity: 1, list_price: 90 } }
+      ])
+
+      expect(inserts.map(line => line.id)).toEqual(['tmp-abc'])
+      expect(updates).toEqual([{ id: 'line-2', row: { quantity: 6, list_price: 150 } }])
+      expect(deletes).toEqual(['line-3'])
+    })
+
+    test('an unchanged draft writes nothing', () => {
+      expect(diffQuotationItems({ 'line-1': savedRow }, [{ id: 'line-1', row: { quantity: 2 } }])).toEqual({
+        inserts: [],
+        updates: [],
+        deletes: []
+      })
+    })
+
+    test('saves the header and lines through the database function', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: { success: true, message: 'Quotation COT-2026-000001 saved', itemIds: ['item-9'] },
+        error: null
+      })
+
+      const result = await saveQuotationDraft('quotation-id', 'user-id', {
+        document: { contact_name: 'Ana' },
+        inserts: [{ quantity: 1 }],
+        updates: [{ id: 'line-2', row: { quantity: 6 } }],
+        deletes: ['line-3']
+      })
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('save_quotation_draft', {
+        p_quotation_id: 'quotation-id',
+        p_user_id: 'user-id',
+        p_document: { contact_name: 'Ana' },
+        p_inserts: [{ quantity: 1 }],
+        p_updates: [{ id: 'line-2', quantity: 6 }],
+        p_deletes: ['line-3']
+      })
+      expect(result.itemIds).toEqual(['item-9'])
+    })
+
+    test('leaves a quotation that is no longer a draft alone', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: {
+          success: false,
+          error: 'INVALID_STATUS',
+          message: 'Quotation COT-2026-000001 is no longer a draft and cannot be edited'
+        },
+        error: null
+      })
+
+      const result = await saveQuotationDraft('quotation-id', 'user-id', { document: null, inserts: [], updates: [], deletes: [] })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('INVALID_STATUS')
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+
+    test('handles database errors', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'Database error' } })
+
+      const result = await saveQuotationDraft('quotation-id', 'user-id', { document: null, inserts: [], updates: [], deletes: [] })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('SAVE_FAILED')
+    })
+  })
+})
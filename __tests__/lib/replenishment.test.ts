@@ -0,0 +1,259 @@
+/**
+ * Replenishment Unit Tests
+ * Tests for reorder points, suggested quantities, supplier choice and
+ * drafting purchase orders from suggestions
+ */
+
+import {
+  buildReorderSuggestions,
+  createReorderPurchaseOrders,
+  getReorderPoint,
+  getReorderSuggestions,
+  pickSupplier,
+  suggestReorderQuantity,
+  type ReorderProduct
+} from '../../lib/replenishment';
+import { getExpectedDate, type Supplier } from '../../lib/suppliers';
+import { getLocalDate } from '../../lib/exchange-rates';
+import { savePurchaseOrder } from '../../lib/purchase-orders';
+import { createClient, type TypedSupabaseClient } from '../../lib/supabase';
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: jest.fn()
+}));
+
+jest.mock('../../lib/purchase-orders', () => ({
+  ...jest.requireActual('../../lib/purchase-orders'),
+  savePurchaseOrder: jest.fn()
+}));
+
+const mockSavePurchaseOrder = savePurchaseOrder as jest.Mock;
+
+const supplier = (id: string, name: string, leadTime: number, products: Supplier['supplier_products']): Supplier => ({
+  id,
+  name,
+  rfc: null,
+  contact_name: null,
+  email: null,
+  phone: null,
+  address: null,
+  lead_time_days: leadTime,
+  payment_terms: null,
+  notes: null,
+  is_active: true,
+  created_at: '2026-10-01T00:00:00Z',
+  supplier_products: products
+});
+
+const bajio = supplier('supplier-1', 'Distribuidora del Bajío', 5, [
+  { product_id: 'product-1', supplier_code: 'JB-24', cost: 12.5, lead_time_days: null, is_preferred: false },
+  { product_id: 'product-2', supplier_code: 'CL-10', cost: 40, lead_time_days: 10, is_preferred: true }
+]);
+
+const norte = supplier('supplier-2', 'Abastos del Norte', 3, [
+  { product_id: 'product-1', supplier_code: 'N-1', cost: 11, lead_time_days: null, is_preferred: false }
+]);
+
+const product = (id: string, name: string, minStockLevel: number): ReorderProduct => ({
+  id,
+  code: id.toUpperCase(),
+  name,
+  unit: 'pz',
+  cost_price: 10,
+  min_stock_level: minStockLevel
+});
+
+describe('getReorderPoint', () => {
+  test('adds sales over the lead time to the minimum', () => {
+    expect(getReorderPoint({ minStockLevel: 10, dailySales: 2, leadTimeDays: 5 })).toBe(20);
+  });
+
+  test('rounds lead time demand up to whole units', () => {
+    expect(getReorderPoint({ minStockLevel: 10, dailySales: 0.3, leadTimeDays: 5 })).toBe(12);
+  });
+});
+
+describe('suggestReorderQuantity', () => {
+  const input = { available: 12, onOrder: 0, minStockLevel: 10, dailySales: 2, leadTimeDays: 5, coverDays: 30 };
+
+  test('orders up to the reorder point plus the days covered', () => {
+    // Reorder point 20, target 20 + 60
+    expect(suggestReorderQuantity(input)).toBe(68);
+  });
+
+  test('counts stock on order toward the target', () => {
+    expect(suggestReorderQuantity({ ...input, onOrder: 8 })).toBe(60);
+  });
+
+  test('suggests nothing above the reorder point', () => {
+    expect(suggestReorderQuantity({ ...input, onOrder: 9 })).toBe(0);
+  });
+
+  test('orders at least one unit at the reorder point', () => {
+    expect(suggestReorderQuantity({ ...input, available: 10, dailySales: 0 })).toBe(1);
+  });
+
+  test('never reorders products with no minimum and no sales', () => {
+    expect(suggestReorderQuantity({ ...input, available: 0, minStockLevel: 0, dailySales: 0 })).toBe(0);
+  });
+
+  test('reorders products without a minimum once they sell', () => {
+    expect(suggestReorderQuantity({ ...input, available: 0, minStockLevel: 0, dailySales: 1, coverDays: 10 })).toBe(15);
+  });
+});
+
+describe('pickSupplier', () => {
+  test('prefers the preferred supplier', () => {
+    expect(pickSupplier('product-2', [norte, bajio])?.supplier.id).toBe('supplier-1');
+  });
+
+  test('falls back to the cheapest supplier', () => {
+    const source = pickSupplier('product-1', [bajio, norte]);
+    expect(source?.supplier.id).toBe('supplier-2');
+    expect(source?.supplierProduct.cost).toBe(11);
+  });
+
+  test('returns null when no supplier sells the product', () => {
+    expect(pickSupplier('product-9', [bajio, norte])).toBeNull();
+  });
+});
+
+describe('buildReorderSuggestions', () => {
+  const products = [
+    product('product-1', 'Jabón', 10),
+    product('product-2', 'Cloro', 5),
+    product('product-3', 'Cubeta', 4),
+    product('product-4', 'Escoba', 0)
+  ];
+
+  const suggestions = buildReorderSuggestions(
+    products,
+    {
+      stock: {
+        'product-1': { on_hand: 15, reserved: 10, available: 5 },
+        'product-2': { on_hand: 50, reserved: 0, available: 50 },
+        'product-3': { on_hand: 2, reserved: 0, available: 2 }
+      },
+      onOrder: { 'product-1': { on_order: 2, drafted: 1 } },
+      sold: { 'product-1': 90 },
+      suppliers: [bajio, norte]
+    },
+    { salesDays: 90, coverDays: 30 }
+  );
+
+  test('suggests only the products that need reordering', () => {
+    expect(suggestions.map(suggestion => suggestion.product_id)).toEqual(['product-1', 'product-3']);
+  });
+
+  test('works out the quantity from stock, orders, drafts and sales', () => {
+    // 1 a day for 3 days: reorder point 13, target 43, 8 counted
+    expect(suggestions[0]).toEqual(expect.objectContaining({
+      supplier_id: 'supplier-2',
+      supplier_code: 'N-1',
+      unit_cost: 11,
+      lead_time_days: 3,
+      daily_sales: 1,
+      on_order: 2,
+      drafted: 1,
+      reorder_point: 13,
+      quantity: 35
+    }));
+  });
+
+  test('lists products no supplier sells last, at their cost price', () => {
+    expect(suggestions[1]).toEqual(expect.objectContaining({
+      supplier_id: null,
+      supplier_name: null,
+      unit_cost: 10,
+      quantity: 2
+    }));
+  });
+});
+
+describe('getReorderSuggestions', () => {
+  // A query on a table that resolves to its rows however it is filtered
+  const query = (rows: unknown[]) => {
+    const chain = {
+      select: jest.fn(() => chain),
+      eq: jest.fn(() => chain),
+      in: jest.fn(() => chain),
+      order: jest.fn(() => chain),
+      then: (resolve: (result: unknown) => unknown) => resolve({ data: rows, error: null })
+    };
+    return chain;
+  };
+
+  test('reads everything through the client it is given', async () => {
+    const tables: Record<string, unknown[]> = {
+      products: [product('product-1', 'Jabón', 10)],
+      product_stock: [{ product_id: 'product-1', on_hand: 2, reserved: 0, available: 2 }],
+      product_restock_dates: [],
+      suppliers: [bajio, norte]
+    };
+    const supabase = {
+      from: jest.fn((table: string) => query(tables[table])),
+      rpc: jest.fn().mockResolvedValue({ data: [], error: null })
+    };
+
+    const suggestions = await getReorderSuggestions({}, supabase as unknown as TypedSupabaseClient);
+
+    expect(createClient).not.toHaveBeenCalled();
+    expect(supabase.from).toHaveBeenCalledWith('suppliers');
+    expect(suggestions.map(suggestion => [suggestion.product_id, suggestion.supplier_id])).toEqual([
+      ['product-1', 'supplier-2']
+    ]);
+  });
+});
+
+describe('createReorderPurchaseOrders', () => {
+  const [cloro, jabon] = buildReorderSuggestions(
+    [product('product-1', 'Jabón', 10), product('product-2', 'Cloro', 5)],
+    { stock: {}, onOrder: {}, sold: {}, suppliers: [bajio] }
+  );
+
+  beforeEach(() => {
+    mockSavePurchaseOrder.mockReset();
+  });
+
+  test('drafts one purchase order per supplier', async () => {
+    mockSavePurchaseOrder.mockResolvedValue({ success: true, message: 'Purchase order created', id: 'po-1' });
+
+    const result = await createReorderPurchaseOrders([jabon, { ...cloro, quantity: 12 }], 'user-1');
+
+    expect(result).toEqual({ success: true, message: 'Created 1 draft purchase order', created: 1 });
+    expect(mockSavePurchaseOrder).toHaveBeenCalledTimes(1);
+    expect(mockSavePurchaseOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        supplier_id: 'supplier-1',
+        currency: 'MXN',
+        tax_rate: 0.16,
+        expected_date: getExpectedDate(getLocalDate(), 10),
+        items: [
+          { product_id: 'product-1', supplier_code: 'JB-24', quantity: 10, unit_cost: 12.5 },
+          { product_id: 'product-2', supplier_code: 'CL-10', quantity: 12, unit_cost: 40 }
+        ]
+      }),
+      'user-1'
+    );
+  });
+
+  test('refuses products no supplier sells', async () => {
+    const result = await createReorderPurchaseOrders([{ ...jabon, supplier_id: null }], 'user-1');
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('No supplier sells Jabón');
+    expect(mockSavePurchaseOrder).not.toHaveBeenCalled();
+  });
+
+  test('reports the suppliers whose order failed', async () => {
+    mockSavePurchaseOrder.mockResolvedValue({ success: false, message: 'Failed to create purchase order' });
+
+    const result = await createReorderPurchaseOrders([jabon], 'user-1');
+
+    expect(result).toEqual({
+      success: false,
+      message: 'Distribuidora del Bajío: Failed to create purchase order',
+      created: 0
+    });
+  });
+});
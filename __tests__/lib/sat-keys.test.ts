@@ -0,0 +1,72 @@
+/**
+ * SAT Keys Unit Tests
+ * Tests for the keys products are invoiced with, category defaults and the bundled catalog lookup
+ */
+
+import { getMissingSATKeys, resolveSATKeys, validateSATKeys, type SATKeyedProduct } from '../../lib/sat-keys';
+import { MEASURE_UNITS, PRODUCT_KEYS, searchSATCatalog } from '../../lib/sat-catalogs';
+
+const soap: SATKeyedProduct = {
+  unit: 'PIEZA',
+  sat_product_key: '53131608',
+  sat_unit_key: null,
+  product_categories: { sat_product_key: '53131600', sat_unit_key: 'XPK' }
+};
+
+describe('resolveSATKeys', () => {
+  test("a product's own keys win over its category's", () => {
+    expect(resolveSATKeys(soap)).toEqual({ sat_product_key: '53131608', sat_unit_key: 'XPK' });
+  });
+
+  test("products without keys take their category's defaults", () => {
+    expect(resolveSATKeys({ ...soap, sat_product_key: null })).toEqual({ sat_product_key: '53131600', sat_unit_key: 'XPK' });
+  });
+
+  test('falls back to the key of the unit', () => {
+    expect(resolveSATKeys({ ...soap, product_categories: null })).toEqual({ sat_product_key: '53131608', sat_unit_key: 'H87' });
+  });
+
+  test('lines in another unit use that unit\'s key, not the base unit key', () => {
+    expect(resolveSATKeys({ ...soap, sat_unit_key: 'H87' }, 'CAJA').sat_unit_key).toBe('XBX');
+  });
+});
+
+describe('getMissingSATKeys', () => {
+  test('lists the keys a product would be invoiced without', () => {
+    expect(getMissingSATKeys(soap)).toEqual([]);
+    expect(getMissingSATKeys({ unit: 'PIEZA', sat_product_key: null, sat_unit_key: null })).toEqual(['product']);
+    expect(getMissingSATKeys({ unit: 'TARIMA', sat_product_key: null, sat_unit_key: null })).toEqual(['product', 'unit']);
+  });
+});
+
+describe('validateSATKeys', () => {
+  test('allows empty keys and keys outside the bundled catalog', () => {
+    expect(validateSATKeys({ sat_product_key: null, sat_unit_key: '' })).toEqual([]);
+    expect(validateSATKeys({ sat_product_key: '12345678', sat_unit_key: 'ZZ' })).toEqual([]);
+  });
+
+  test('rejects malformed keys', () => {
+    expect(validateSATKeys({ sat_product_key: '5313160', sat_unit_key: 'pieza' })).toEqual([
+      'SAT product key 5313160 must have 8 digits',
+      'SAT unit key pieza must be up to 3 capital letters or digits'
+    ]);
+  });
+});
+
+describe('searchSATCatalog', () => {
+  test('finds keys by prefix first', () => {
+    const results = searchSATCatalog(PRODUCT_KEYS, '502022');
+
+    expect(results.map(entry => entry.key)).toEqual(['50202200', '50202201', '50202203']);
+  });
+
+  test('finds descriptions by words, ignoring accents and case', () => {
+    expect(searchSATCatalog(PRODUCT_KEYS, 'jabon')).toEqual([{ key: '53131608', description: 'Jabones' }]);
+    expect(searchSATCatalog(MEASURE_UNITS, 'galon')).toEqual([{ key: 'GLL', description: 'Galón (EUA)' }]);
+  });
+
+  test('limits the results and ignores empty queries', () => {
+    expect(searchSATCatalog(PRODUCT_KEYS, '5', 3)).toHaveLength(3);
+    expect(searchSATCatalog(PRODUCT_KEYS, '  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Supplier Unit Tests
+ * Tests for supplier validation, lead times and expected dates
+ */
+
+import {
+  getExpectedDate,
+  getLeadTime,
+  validateSupplier,
+  type SupplierInput
+} from '../../lib/suppliers';
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: jest.fn()
+}));
+
+const supplier: SupplierInput = {
+  name: 'Distribuidora del Bajío',
+  rfc: 'DBA010101AB1',
+  contact_name: 'Laura Méndez',
+  email: 'ventas@dbajio.mx',
+  phone: null,
+  address: null,
+  lead_time_days: 5,
+  payment_terms: '30 días',
+  notes: null,
+  is_active: true,
+  supplier_products: [
+    { product_id: 'product-1', supplier_code: 'JB-24', cost: 12.5, lead_time_days: null, is_preferred: true }
+  ]
+};
+
+describe('validateSupplier', () => {
+  test('accepts a complete supplier', () => {
+    expect(validateSupplier(supplier)).toEqual([]);
+  });
+
+  test('rejects a bad RFC, email and lead time', () => {
+    expect(validateSupplier({ ...supplier, rfc: 'XYZ', email: 'ventas', lead_time_days: -1 })).toEqual([
+      'Invalid RFC format',
+      'Invalid email address',
+      'Lead time must be a whole number of days'
+    ]);
+  });
+
+  test('rejects a product listed twice or with a negative cost', () => {
+    expect(validateSupplier({
+      ...supplier,
+      supplier_products: [
+        ...supplier.supplier_products,
+        { product_id: 'product-1', supplier_code: null, cost: -2, lead_time_days: 3, is_preferred: false }
+      ]
+    })).toEqual([
+      'Product 2: product is listed more than once',
+      'Product 2: cost cannot be negative'
+    ]);
+  });
+});
+
+describe('getLeadTime', () => {
+  test("uses the product's lead time over the supplier's", () => {
+    expect(getLeadTime(supplier)).toBe(5);
+    expect(getLeadTime(supplier, { lead_time_days: null })).toBe(5);
+    expect(getLeadTime(supplier, { lead_time_days: 12 })).toBe(12);
+  });
+});
+
+describe('getExpectedDate', () => {
+  test('adds the lead time in calendar days', () => {
+    expect(getExpectedDate('2026-10-28', 5)).toBe('2026-11-02');
+    expect(getExpectedDate('2026-10-28', 0)).toBe('2026-10-28');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tax Utilities Unit Tests
+ * Tests for product tax resolution and tax labels
+ */
+
+import { formatTaxLabel, getProductTaxConfigs } from '@/lib/taxes'
+import type { TaxConfiguration } from '@/lib/calculations'
+
+const iva: TaxConfiguration = {
+  id: 'iva-16',
+  name: 'IVA 16%',
+  type: 'percentage',
+  rate: 0.16,
+  is_default: true,
+  is_active: true,
+  code: 'IVA',
+  kind: 'transferred',
+  apply_order: 1,
+  is_compound: true
+}
+
+const ieps: TaxConfiguration = {
+  id: 'ieps-53',
+  name: 'IEPS 53%',
+  type: 'percentage',
+  rate: 0.53,
+  is_default: false,
+  is_active: true,
+  code: 'IEPS',
+  kind: 'transferred',
+  apply_order: 0
+}
+
+describe('Tax Utilities', () => {
+  describe('getProductTaxConfigs', () => {
+    test('uses every configured product tax', () => {
+      const taxes = getProductTaxConfigs({
+        taxes: iva,
+        product_taxes: [{ taxes: iva }, { taxes: ieps }]
+      })
+      expect(taxes).toEqual([iva, ieps])
+    })
+
+    test('falls back to the primary tax', () => {
+      expect(getProductTaxConfigs({ taxes: iva, product_taxes: [] })).toEqual([iva])
+    })
+
+    test('returns no taxes for untaxed products', () => {
+      expect(getProductTaxConfigs({ taxes: null })).toEqual([])
+    })
+
+    test('ignores broken joins', () => {
+      expect(getProductTaxConfigs({ product_taxes: [{ taxes: null }, { taxes: ieps }] })).toEqual([ieps])
+    })
+  })
+
+  describe('formatTaxLabel', () => {
+    test('labels transferred taxes with their rate', () => {
+      expect(formatTaxLabel({ code: 'IVA', kind: 'transferred', type: 'percentage', rate: 0.16 })).toBe('IVA 16%')
+      expect(formatTaxLabel({ code: 'IEPS', kind: 'transferred', type: 'percentage', rate: 0.265 })).toBe('IEPS 26.5%')
+    })
+
+    test('marks withholdings', () => {
+      expect(formatTaxLabel({ code: 'ISR', kind: 'withheld', type: 'percentage', rate: 0.10 })).toBe('Ret. ISR 10%')
+      expect(formatTaxLabel({ code: 'IVA', kind: 'withheld', type: 'percentage', rate: 0.106667 })).toBe('Ret. IVA 10.6667%')
+    })
+
+    test('labels fixed-amount taxes as cuotas', () => {
+      expect(formatTaxLabel({ code: 'IEPS', kind: 'transferred', type: 'fixed_amount' })).toBe('IEPS (cuota)')
+    })
+  })
+})
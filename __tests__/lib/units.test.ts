@@ -0,0 +1,100 @@
+/**
+ * Unit of Measure Unit Tests
+ * Tests for unit normalization, selling units, conversion and validation
+ */
+
+import {
+  cleanUnit,
+  formatUnitConversion,
+  getSellingUnits,
+  resolveUnitPrice,
+  toBaseQuantity,
+  validateProductUnits,
+  type ProductUnit
+} from '../../lib/units';
+
+jest.mock('../../lib/supabase', () => ({
+  createClient: jest.fn()
+}));
+
+const box: ProductUnit = { unit: 'CAJA', factor: 24, price: null };
+
+describe('cleanUnit', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('normalizes known spellings', () => {
+    expect(cleanUnit(' kilogramo ')).toBe('KILO');
+    expect(cleanUnit('KG')).toBe('KILO');
+    expect(cleanUnit('CAJA CON 24 LATAS')).toBe('CAJA');
+    expect(cleanUnit('Unidad')).toBe('PIEZA');
+  });
+
+  test('falls back to PIEZA for unknown units', () => {
+    expect(cleanUnit('TONELADA')).toBe('PIEZA');
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
+
+describe('getSellingUnits', () => {
+  test('lists the base unit first, then larger units by size', () => {
+    const units = getSellingUnits('PIEZA', [box, { unit: 'PAQUETE', factor: 6, price: 80 }]);
+    expect(units.map(unit => unit.unit)).toEqual(['PIEZA', 'PAQUETE', 'CAJA']);
+    expect(units[0]).toEqual({ unit: 'PIEZA', factor: 1, price: null });
+  });
+
+  test('a product without alternate units sells in its base unit only', () => {
+    expect(getSellingUnits('KILO', null)).toEqual([{ unit: 'KILO', factor: 1, price: null }]);
+  });
+});
+
+describe('resolveUnitPrice', () => {
+  test('converts the base unit price by the factor', () => {
+    expect(resolveUnitPrice(12.5, box)).toEqual({ price: 300, is_unit_price: false });
+    expect(toBaseQuantity(2, box.factor)).toBe(48);
+  });
+
+  test('uses the unit price when it is lower', () => {
+    expect(resolveUnitPrice(12.5, { ...box, price: 280 })).toEqual({ price: 280, is_unit_price: true });
+  });
+
+  test('keeps the converted price when a negotiated base price beats the unit price', () => {
+    expect(resolveUnitPrice(11, { ...box, price: 280 })).toEqual({ price: 264, is_unit_price: false });
+  });
+
+  test('the base unit is its own price', () => {
+    expect(resolveUnitPrice(12.5, getSellingUnits('PIEZA', [])[0]).price).toBe(12.5);
+  });
+});
+
+describe('formatUnitConversion', () => {
+  test('states how many base units a unit holds', () => {
+    expect(formatUnitConversion(box, 'PIEZA')).toBe('1 CAJA = 24 PIEZA');
+  });
+});
+
+describe('validateProductUnits', () => {
+  test('accepts valid units', () => {
+    expect(validateProductUnits('PIEZA', [box, { unit: 'PAQUETE', factor: 6, price: 80 }])).toEqual([]);
+  });
+
+  test('checks each unit', () => {
+    expect(validateProductUnits('PIEZA', [
+      { unit: '', factor: 12, price: null },
+      { unit: 'PIEZA', factor: 2, price: null },
+      { unit: 'PAQUETE', factor: 1.5, price: 0 },
+      { unit: 'PAQUETE', factor: 6, price: null }
+    ])).toEqual([
+      'Unit 1: choose a unit',
+      'Unit 2: must differ from the base unit',
+      'Unit 3: must hold a whole number of base units above 1',
+      'Unit 3: price must be positive',
+      'Unit 4: unit is listed more than once'
+    ]);
+  });
+});
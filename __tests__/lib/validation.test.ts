@@ -7,7 +7,8 @@ import {
   validateOrderStatusTransition,
   validateFolioUniqueness,
   validateDocumentDataIntegrity,
-  validatePreConversion
+  validatePreConversion,
+  validateStockAvailability
 } from '@/lib/validation'
 import { OrderStatus } from '@/lib/orders'
 
@@ -267,7 +268,7 @@ describe('Validation Utilities', () => {
 
       mockSupabase.from.mockReturnValue(mockQuery)
 
-      const result = await validateFolioUniqueness('ORD-00000001', 'order')
+      const result = await validateFolioUniqueness('ORD-2026-000001', 'order')
 
       expect(result.valid).toBe(true)
       expect(result.errors).toHaveLength(0)
@@ -278,17 +279,17 @@ describe('Validation Utilities', () => {
         select: jest.fn().mockReturnThis(),
         eq: jest.fn().mockReturnThis(),
         maybeSingle: jest.fn().mockResolvedValue({ 
-          data: { id: 'existing-id', type: 'order', folio: 'ORD-00000001' }, 
+          data: { id: 'existing-id', type: 'order', folio: 'ORD-2026-000001' }, 
           error: null 
         })
       }
 
       mockSupabase.from.mockReturnValue(mockQuery)
 
-      const result = await validateFolioUniqueness('ORD-00000001', 'order')
+      const result = await validateFolioUniqueness('ORD-2026-000001', 'order')
 
       expect(result.valid).toBe(false)
-      expect(result.errors).toContain('Folio ORD-00000001 already exists for order')
+      expect(result.errors).toContain('Folio ORD-2026-000001 already exists for order')
     })
 
     test('validates folio format for quotations', async () => {
@@ -301,13 +302,13 @@ describe('Validation Utilities', () => {
       mockSupabase.from.mockReturnValue(mockQuery)
 
       // Valid format
-      const validResult = await validateFolioUniqueness('COT-00000001', 'quotation')
+      const validResult = await validateFolioUniqueness('COT-2026-000001', 'quotation')
       expect(validResult.valid).toBe(true)
 
       // Invalid format
       const invalidResult = await validateFolioUniqueness('INVALID-FOLIO', 'quotation')
       expect(invalidResult.valid).toBe(false)
-      expect(invalidResult.errors).toContain('Quotation folio must follow format COT-XXXXXXXX')
+      expect(invalidResult.errors).toContain('Quotation folio must follow format COT-YYYY-NNNNNN')
     })
 
     test('validates folio format for orders', async () => {
@@ -320,13 +321,44 @@ describe('Validation Utilities', () => {
       mockSupabase.from.mockReturnValue(mockQuery)
 
       // Valid format
-      const validResult = await validateFolioUniqueness('ORD-00000001', 'order')
+      const validResult = await validateFolioUniqueness('ORD-2026-000001', 'order')
       expect(validResult.valid).toBe(true)
 
       // Invalid format
       const invalidResult = await validateFolioUniqueness('INVALID-FOLIO', 'order')
       expect(invalidResult.valid).toBe(false)
-      expect(invalidResult.errors).toContain('Order folio must follow format ORD-XXXXXXXX')
+      expect(invalidResult.errors).toContain('Order folio must follow format ORD-YYYY-NNNNNN')
+    })
+
+    test('rejects legacy random folios', async () => {
+      const mockQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null })
+      }
+
+      mockSupabase.from.mockReturnValue(mockQuery)
+
+      const result = await validateFolioUniqueness('COT-18F3A2B4', 'quotation')
+      expect(result.valid).toBe(false)
+    })
+
+    test('validates against configured prefix and padding', async () => {
+      const mockQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null })
+      }
+
+      mockSupabase.from.mockReturnValue(mockQuery)
+
+      const settings = { document_type: 'order' as const, prefix: 'PED', padding: 4 }
+
+      const validResult = await validateFolioUniqueness('PED-2026-0045', 'order', settings)
+      expect(validResult.valid).toBe(true)
+
+      const invalidResult = await validateFolioUniqueness('ORD-2026-000045', 'order', settings)
+      expect(invalidResult.errors).toContain('Order folio must follow format PED-YYYY-NNNN')
     })
   })
 
@@ -429,6 +461,48 @@ describe('Validation Utilities', () => {
     })
   })
 
+  describe('validateStockAvailability', () => {
+    const lines = [
+      { id: 'item-1', product_id: 'soap', product_name: 'Soap', unit: 'CAJA', unit_factor: 12, quantity: 2, bundle_components: null, backorder: false },
+      { id: 'item-2', product_id: 'towel', product_name: 'Towel', unit: 'PIEZA', unit_factor: 1, quantity: 5, bundle_components: null, backorder: true }
+    ]
+
+    beforeEach(() => {
+      const itemsQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        then: (resolve: (value: unknown) => void) => resolve({ data: lines, error: null })
+      }
+      const stockQuery = {
+        select: jest.fn().mockReturnThis(),
+        in: jest.fn().mockResolvedValue({
+          data: [
+            { product_id: 'soap', on_hand: 20, reserved: 0, available: 20 },
+            { product_id: 'towel', on_hand: 3, reserved: 1, available: 2 }
+          ],
+          error: null
+        })
+      }
+
+      mockSupabase.from.mockImplementation((table: string) => (table === 'product_stock' ? stockQuery : itemsQuery))
+    })
+
+    test('fails on short lines and warns about backordered ones', async () => {
+      const result = await validateStockAvailability('test-quotation-id')
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toEqual(['"Soap": 1 of 2 CAJA in stock'])
+      expect(result.warnings).toEqual(['"Towel": 3 PIEZA backordered'])
+    })
+
+    test('backorders every short line when allowed', async () => {
+      const result = await validateStockAvailability('test-quotation-id', true)
+
+      expect(result.valid).toBe(true)
+      expect(result.warnings).toEqual(['"Soap": 1 CAJA backordered', '"Towel": 3 PIEZA backordered'])
+    })
+  })
+
   describe('validatePreConversion', () => {
     test('runs comprehensive validation successfully', async () => {
       // Mock all validation functions to pass
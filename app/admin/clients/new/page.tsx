@@ -7,6 +7,7 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { createClient } from '@/lib/supabase'
 import { useAuthStore, useNotificationStore } from '@/lib/store'
 import { companySchema, CompanyFormData, defaultCompanyValues, formatCompanyDataForDatabase } from '@/lib/schemas/company'
+import { CFDI_USES, FISCAL_REGIMES } from '@/lib/sat-catalogs'
 import { ArrowLeft, Loader2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -238,6 +239,43 @@ export default function NewClientPage() {
             </div>
           </div>
 
+          {/* Tax Information */}
+          <div className="space-y-4 border-t pt-6">
+            <h3 className="text-lg font-medium text-gray-900">Tax Information</h3>
+            <p className="text-sm text-gray-500">
+              As on the client&apos;s constancia de situación fiscal; invoices use the postal code above as the fiscal address
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="fiscal_regime">Fiscal Regime</Label>
+                <select
+                  id="fiscal_regime"
+                  {...register('fiscal_regime')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  <option value="">Select a regime</option>
+                  {Object.entries(FISCAL_REGIMES).map(([code, name]) => (
+                    <option key={code} value={code}>{code} - {name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="cfdi_use">CFDI Use</Label>
+                <select
+                  id="cfdi_use"
+                  {...register('cfdi_use')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  {Object.entries(CFDI_USES).map(([code, name]) => (
+                    <option key={code} value={code}>{code} - {name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
           {/* Form Actions */}
           <div className="flex items-center justify-end space-x-3 pt-6 border-t">
             <Button
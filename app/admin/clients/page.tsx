@@ -40,6 +40,8 @@ interface Company {
   email: string | null
   website: string | null
   logo_url: string | null
+  fiscal_regime: string | null
+  cfdi_use: string
   status: 'active' | 'inactive' | 'pending'
   created_at: string
   client_profiles?: {
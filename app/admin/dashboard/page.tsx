@@ -20,12 +20,14 @@ import {
   Plus,
   UserPlus,
   PackagePlus,
-  Activity
+  Activity,
+  Percent
 } from 'lucide-react'
 import { MetricCard } from '@/components/admin/metric-card'
 import { RecentQuotations } from '@/components/admin/recent-quotations'
 import { StatusChart } from '@/components/admin/status-chart'
 import { RevenueChart } from '@/components/admin/revenue-chart'
+import { MarginBreakdown } from '@/components/admin/margin-breakdown'
 import ErrorBoundary, { DashboardErrorFallback, ChartErrorFallback } from '@/components/admin/error-boundary'
 import { DashboardSkeleton } from '@/components/admin/loading-skeletons'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -399,6 +401,26 @@ export default function AdminDashboard() {
             </ErrorBoundary>
           </div>
 
+          {/* Realized Margins */}
+          <ErrorBoundary fallback={ChartErrorFallback}>
+            <Card className="border-2">
+              <CardHeader className="pb-4">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-amber-50 rounded-lg">
+                    <Percent className="w-5 h-5 text-amber-600" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-lg">Margen Bruto Realizado</CardTitle>
+                    <CardDescription>Pedidos enviados y entregados, al costo de cuando se crearon</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <MarginBreakdown timeRange={timeRange} />
+              </CardContent>
+            </Card>
+          </ErrorBoundary>
+
           {/* Recent Quotations */}
           <Card className="border-2">
             <CardHeader className="border-b bg-gray-50/50">
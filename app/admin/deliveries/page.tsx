@@ -12,7 +12,8 @@ import {
   Package,
   CheckCircle,
   Clock,
-  AlertCircle
+  AlertCircle,
+  FileCheck
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -234,6 +235,9 @@ export default function DeliveriesPage() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Delivered
                 </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
@@ -329,6 +333,17 @@ export default function DeliveriesPage() {
                       <span className="text-gray-400">Pending</span>
                     )}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => window.location.href = `/api/documents/${delivery.order_id}/pdf?kind=delivery_note&delivery=${delivery.id}`}
+                      className="text-gray-600 hover:text-gray-900"
+                      title="Delivery note PDF"
+                    >
+                      <FileCheck className="w-4 h-4" />
+                    </Button>
+                  </td>
                 </tr>
               ))}
             </tbody>
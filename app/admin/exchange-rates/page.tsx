@@ -0,0 +1,172 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useNotificationStore } from '@/lib/store'
+import { formatDate } from '@/lib/utils'
+import { formatDecimal, type CurrencyCode } from '@/lib/currency'
+import {
+  getExchangeRates,
+  getLocalDate,
+  saveExchangeRate,
+  type ExchangeRate
+} from '@/lib/exchange-rates'
+import { DollarSign, Save } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+export default function ExchangeRatesPage() {
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [currency] = useState<CurrencyCode>('USD')
+  const [rate, setRate] = useState('')
+  const [effectiveDate, setEffectiveDate] = useState(getLocalDate())
+
+  const { addNotification } = useNotificationStore()
+
+  useEffect(() => {
+    fetchRates()
+  }, [])
+
+  const fetchRates = async () => {
+    setIsLoading(true)
+    setRates(await getExchangeRates())
+    setIsLoading(false)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    const result = await saveExchangeRate({
+      currency,
+      rate: parseFloat(rate),
+      effective_date: effectiveDate
+    })
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Exchange Rate Saved' : 'Error',
+      message: result.message
+    })
+
+    if (result.success) {
+      setRate('')
+      fetchRates()
+    }
+    setIsSaving(false)
+  }
+
+  const today = getLocalDate()
+  const currentRateId = rates.find(r => r.currency === currency && r.effective_date <= today)?.id
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Exchange Rates</h1>
+          <p className="text-gray-600 mt-1">
+            Pesos per dollar used when quoting in USD
+          </p>
+        </div>
+      </div>
+
+      {/* New Rate */}
+      <form onSubmit={handleSave} className="bg-white p-6 rounded-lg border border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">New Rate</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
+          <div>
+            <Label htmlFor="rate">MXN per {currency} *</Label>
+            <Input
+              id="rate"
+              type="number"
+              step="0.0001"
+              min="0"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="17.2500"
+            />
+          </div>
+          <div>
+            <Label htmlFor="effective_date">Effective Date *</Label>
+            <Input
+              id="effective_date"
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <Button
+              type="submit"
+              disabled={isSaving || !rate}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Rate'}
+            </Button>
+          </div>
+        </div>
+        <p className="mt-3 text-sm text-gray-500">
+          A rate applies from its effective date until a later one is entered. Quotations keep the rate they were created with.
+        </p>
+      </form>
+
+      {/* Rate History */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Currency
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rate (MXN)
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Effective Date
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rates.map((exchangeRate) => (
+                <tr key={exchangeRate.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {exchangeRate.currency}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatDecimal(exchangeRate.rate, 4)}
+                    {exchangeRate.id === currentRateId && (
+                      <span className="ml-2 text-xs font-semibold rounded-full px-2 py-1 bg-green-100 text-green-800">
+                        Current
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(exchangeRate.effective_date)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Empty State */}
+      {!isLoading && rates.length === 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <DollarSign className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No exchange rates yet
+          </h3>
+          <p className="text-gray-600 mb-6">
+            Enter a rate to start quoting in USD
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
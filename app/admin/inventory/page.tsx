@@ -0,0 +1,336 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase'
+import { useAuthStore, useNotificationStore } from '@/lib/store'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import {
+  MANUAL_MOVEMENT_TYPES,
+  MOVEMENT_TYPE_LABELS,
+  getInventoryMovements,
+  recordMovement,
+  type InventoryMovement,
+  type ManualMovementType,
+  type MovementType
+} from '@/lib/inventory'
+import { Save, Warehouse } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface StockProduct {
+  id: string
+  code: string
+  name: string
+  unit: string
+  bin_location: string | null
+}
+
+export default function InventoryPage() {
+  const [movements, setMovements] = useState<InventoryMovement[]>([])
+  const [products, setProducts] = useState<StockProduct[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [typeFilter, setTypeFilter] = useState<MovementType | ''>('')
+  const [productId, setProductId] = useState('')
+  const [type, setType] = useState<ManualMovementType>('receipt')
+  const [quantity, setQuantity] = useState('')
+  const [location, setLocation] = useState('')
+  const [toLocation, setToLocation] = useState('')
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+  const [unitCost, setUnitCost] = useState('')
+
+  const { user } = useAuthStore()
+  const { addNotification } = useNotificationStore()
+
+  const fetchProducts = async () => {
+    // Kits hold no stock of their own
+    const { data } = await createClient()
+      .from('products')
+      .select('id, code, name, unit, bin_location')
+      .eq('is_active', true)
+      .eq('is_bundle', false)
+      .order('code')
+
+    setProducts((data ?? []) as StockProduct[])
+  }
+
+  const fetchMovements = useCallback(async () => {
+    setIsLoading(true)
+    setMovements(await getInventoryMovements({ type: typeFilter || undefined }))
+    setIsLoading(false)
+  }, [typeFilter])
+
+  useEffect(() => {
+    fetchProducts()
+  }, [])
+
+  useEffect(() => {
+    fetchMovements()
+  }, [fetchMovements])
+
+  const handleProductChange = (id: string) => {
+    setProductId(id)
+    setLocation(products.find(product => product.id === id)?.bin_location ?? '')
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    setIsSaving(true)
+
+    const result = await recordMovement({
+      productId,
+      type,
+      quantity: parseInt(quantity, 10),
+      location: type === 'transfer' ? null : location,
+      fromLocation: type === 'transfer' ? location : null,
+      toLocation: type === 'transfer' ? toLocation : null,
+      reference,
+      notes,
+      unitCost: type === 'receipt' && unitCost ? parseFloat(unitCost) : null
+    }, user.id)
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Movement Recorded' : 'Error',
+      message: result.message
+    })
+
+    if (result.success) {
+      setQuantity('')
+      setToLocation('')
+      setReference('')
+      setNotes('')
+      setUnitCost('')
+      fetchMovements()
+    }
+    setIsSaving(false)
+  }
+
+  const selectedUnit = products.find(product => product.id === productId)?.unit
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Inventory</h1>
+          <p className="text-gray-600 mt-1">
+            Every change to stock: receipts, returns, adjustments, transfers and the sales shipped orders post
+          </p>
+        </div>
+      </div>
+
+      {/* New Movement */}
+      <form onSubmit={handleSave} className="bg-white p-6 rounded-lg border border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">New Movement</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <Label htmlFor="product">Product *</Label>
+            <select
+              id="product"
+              value={productId}
+              onChange={(e) => handleProductChange(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              <option value="">Select a product</option>
+              {products.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.code} - {product.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="type">Type *</Label>
+            <select
+              id="type"
+              value={type}
+              onChange={(e) => setType(e.target.value as ManualMovementType)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              {MANUAL_MOVEMENT_TYPES.map((movementType) => (
+                <option key={movementType} value={movementType}>
+                  {MOVEMENT_TYPE_LABELS[movementType]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="quantity">Quantity{selectedUnit ? ` (${selectedUnit})` : ''} *</Label>
+            <Input
+              id="quantity"
+              type="number"
+              step="1"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder={type === 'adjustment' ? '-2' : '10'}
+            />
+            {type === 'adjustment' && (
+              <p className="mt-1 text-xs text-gray-500">Negative to take stock out</p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="location">{type === 'transfer' ? 'From Location *' : 'Location'}</Label>
+            <Input
+              id="location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="A-01-03"
+            />
+          </div>
+          {type === 'transfer' && (
+            <div>
+              <Label htmlFor="to_location">To Location *</Label>
+              <Input
+                id="to_location"
+                value={toLocation}
+                onChange={(e) => setToLocation(e.target.value)}
+                placeholder="B-02-01"
+              />
+            </div>
+          )}
+          {type === 'receipt' && (
+            <div>
+              <Label htmlFor="unit_cost">Unit Cost *</Label>
+              <Input
+                id="unit_cost"
+                type="number"
+                step="0.01"
+                min="0"
+                value={unitCost}
+                onChange={(e) => setUnitCost(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="reference">Reference</Label>
+            <Input
+              id="reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="Supplier invoice, return folio..."
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="notes">{type === 'adjustment' ? 'Reason *' : 'Notes'}</Label>
+            <Input
+              id="notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={type === 'adjustment' ? 'Physical count, damaged goods...' : ''}
+            />
+          </div>
+        </div>
+        <div className="mt-6 flex items-center justify-between">
+          <p className="text-sm text-gray-500">
+            Movements cannot be edited; correct a wrong one with an adjustment.
+          </p>
+          <Button
+            type="submit"
+            disabled={isSaving || !productId || !quantity}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Record Movement'}
+          </Button>
+        </div>
+      </form>
+
+      {/* Ledger */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Movements</h2>
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as MovementType | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            <option value="">All Types</option>
+            {Object.entries(MOVEMENT_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Type
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Quantity
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Location
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reference
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {movements.map((movement) => (
+                <tr key={movement.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(movement.created_at)}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{movement.products?.name}</div>
+                    <div className="text-sm text-gray-500">Code: {movement.products?.code}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {MOVEMENT_TYPE_LABELS[movement.type]}
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                    movement.quantity < 0 ? 'text-red-600' : 'text-green-700'
+                  }`}>
+                    {movement.quantity > 0 ? '+' : ''}{movement.quantity} {movement.products?.unit}
+                    {movement.unit_cost !== null && (
+                      <div className="text-xs font-normal text-gray-500">
+                        @ {formatCurrency(movement.unit_cost)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {movement.location || '-'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {movement.reference || '-'}
+                    {movement.notes && (
+                      <div className="text-xs text-gray-500">{movement.notes}</div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Empty State */}
+      {!isLoading && movements.length === 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <Warehouse className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No inventory movements yet
+          </h3>
+          <p className="text-gray-600 mb-6">
+            Record a receipt to bring stock in
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
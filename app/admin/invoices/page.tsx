@@ -0,0 +1,388 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase'
+import { useAuthStore, useNotificationStore } from '@/lib/store'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import type { CurrencyCode } from '@/lib/currency'
+import {
+  INVOICE_STATUS_LABELS,
+  createInvoice,
+  formatInvoiceFolio,
+  getInvoices,
+  type Invoice,
+  type InvoiceStatus
+} from '@/lib/invoices'
+import { CANCELLATION_REASONS, CFDI_USES, PAYMENT_FORMS, PAYMENT_METHODS } from '@/lib/sat-catalogs'
+import { FileCode, FileText, Receipt, Stamp, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface InvoiceOrder {
+  id: string
+  folio: string
+  order_status: string | null
+  total: number
+  currency: CurrencyCode
+  companies: { name: string; cfdi_use: string } | null
+}
+
+const STATUS_CLASSES: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  stamped: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800'
+}
+
+const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500'
+
+export default function InvoicesPage() {
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [order, setOrder] = useState<InvoiceOrder | null>(null)
+  const [paymentMethod, setPaymentMethod] = useState('PUE')
+  const [paymentForm, setPaymentForm] = useState('03')
+  const [cfdiUse, setCfdiUse] = useState('G03')
+  const [isCreating, setIsCreating] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [cancelling, setCancelling] = useState<Invoice | null>(null)
+  const [cancelReason, setCancelReason] = useState('02')
+  const [replacementUuid, setReplacementUuid] = useState('')
+
+  const { user } = useAuthStore()
+  const { addNotification } = useNotificationStore()
+
+  useEffect(() => {
+    fetchInvoices()
+
+    // Orders link here with ?order= to draft their invoice
+    const orderId = new URLSearchParams(window.location.search).get('order')
+    if (orderId) {
+      fetchOrder(orderId)
+    }
+  }, [])
+
+  const fetchInvoices = async () => {
+    setIsLoading(true)
+    setInvoices(await getInvoices())
+    setIsLoading(false)
+  }
+
+  const fetchOrder = async (orderId: string) => {
+    const { data } = await createClient()
+      .from('documents')
+      .select('id, folio, order_status, total, currency, companies!documents_company_id_fkey(name, cfdi_use)')
+      .eq('id', orderId)
+      .single()
+
+    if (data) {
+      const found = data as unknown as InvoiceOrder
+      setOrder(found)
+      setCfdiUse(found.companies?.cfdi_use || 'G03')
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!order) return
+    setIsCreating(true)
+
+    const result = await createInvoice(order.id, { paymentForm, paymentMethod, cfdiUse }, user?.id || '')
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Invoice Drafted' : 'Error',
+      message: result.message
+    })
+
+    if (result.success) {
+      setOrder(null)
+      window.history.replaceState(null, '', '/admin/invoices')
+      fetchInvoices()
+    }
+    setIsCreating(false)
+  }
+
+  // Stamping and cancelling go through the server, which holds the PAC
+  const postAction = async (invoice: Invoice, action: 'stamp' | 'cancel', body?: object) => {
+    setBusyId(invoice.id)
+
+    try {
+      const response = await fetch(`/api/invoices/${invoice.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body ?? {})
+      })
+      const result = await response.json() as { success?: boolean; message?: string; error?: string }
+
+      addNotification({
+        type: result.success ? 'success' : 'error',
+        title: result.success ? (action === 'stamp' ? 'Invoice Stamped' : 'Invoice Cancelled') : 'Error',
+        message: result.message ?? result.error ?? 'Request failed'
+      })
+
+      if (result.success) {
+        setCancelling(null)
+        fetchInvoices()
+      }
+    } catch (error) {
+      console.error(`Error on invoice ${action}:`, error)
+      addNotification({ type: 'error', title: 'Error', message: 'An unexpected error occurred' })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Invoices</h1>
+          <p className="text-gray-600 mt-1">
+            CFDI 4.0 invoices for delivered orders
+          </p>
+        </div>
+      </div>
+
+      {/* New Invoice */}
+      {order && (
+        <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg border border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">New Invoice</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Order {order.folio} · {order.companies?.name} · {formatCurrency(order.total, order.currency)}
+          </p>
+          {order.order_status !== 'delivered' && (
+            <p className="mb-4 text-sm text-red-600">Only delivered orders can be invoiced.</p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <Label htmlFor="payment_method">Método de pago *</Label>
+              <select
+                id="payment_method"
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value)}
+                className={selectClass}
+              >
+                {Object.entries(PAYMENT_METHODS).map(([key, name]) => (
+                  <option key={key} value={key}>{key} - {name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="payment_form">Forma de pago *</Label>
+              <select
+                id="payment_form"
+                value={paymentMethod === 'PPD' ? '99' : paymentForm}
+                onChange={(e) => setPaymentForm(e.target.value)}
+                disabled={paymentMethod === 'PPD'}
+                className={selectClass}
+              >
+                {Object.entries(PAYMENT_FORMS).map(([key, name]) => (
+                  <option key={key} value={key}>{key} - {name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="cfdi_use">Uso CFDI *</Label>
+              <select
+                id="cfdi_use"
+                value={cfdiUse}
+                onChange={(e) => setCfdiUse(e.target.value)}
+                className={selectClass}
+              >
+                {Object.entries(CFDI_USES).map(([key, name]) => (
+                  <option key={key} value={key}>{key} - {name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="mt-6 flex items-center space-x-3">
+            <Button
+              type="submit"
+              disabled={isCreating || order.order_status !== 'delivered'}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              <Receipt className="w-4 h-4 mr-2" />
+              {isCreating ? 'Creating...' : 'Create Draft'}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setOrder(null)}>
+              Cancel
+            </Button>
+          </div>
+          <p className="mt-3 text-sm text-gray-500">
+            Receptor details come from the client; concepts, taxes and amounts from the order. The draft is checked against the CFDI 4.0 rules before it is saved.
+          </p>
+        </form>
+      )}
+
+      {/* Cancel Invoice */}
+      {cancelling && (
+        <div className="bg-white p-6 rounded-lg border border-red-200">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            Cancel Invoice {formatInvoiceFolio(cancelling)}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <Label htmlFor="cancel_reason">Motivo *</Label>
+              <select
+                id="cancel_reason"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                className={selectClass}
+              >
+                {Object.entries(CANCELLATION_REASONS).map(([key, name]) => (
+                  <option key={key} value={key}>{key} - {name}</option>
+                ))}
+              </select>
+            </div>
+            {cancelReason === '01' && (
+              <div>
+                <Label htmlFor="replacement_uuid">UUID of the replacing invoice *</Label>
+                <Input
+                  id="replacement_uuid"
+                  value={replacementUuid}
+                  onChange={(e) => setReplacementUuid(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <div className="mt-6 flex items-center space-x-3">
+            <Button
+              onClick={() => postAction(cancelling, 'cancel', { reason: cancelReason, replacementUuid })}
+              disabled={busyId === cancelling.id}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              Cancel Invoice
+            </Button>
+            <Button variant="outline" onClick={() => setCancelling(null)}>
+              Keep Invoice
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Invoices */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Invoice
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Client
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Folio Fiscal
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {invoices.map((invoice) => (
+                <tr key={invoice.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{formatInvoiceFolio(invoice)}</div>
+                    <div className="text-sm text-gray-500">
+                      Order {invoice.order?.folio} · {formatDate(invoice.created_at)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {invoice.companies?.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(invoice.total, invoice.currency as CurrencyCode)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_CLASSES[invoice.status]}`}>
+                      {INVOICE_STATUS_LABELS[invoice.status]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-xs font-mono text-gray-500">
+                    {invoice.uuid ?? '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex items-center justify-end space-x-2">
+                      {invoice.status === 'draft' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => postAction(invoice, 'stamp')}
+                          disabled={busyId === invoice.id}
+                          className="text-green-600 hover:text-green-900"
+                          title="Stamp with the PAC"
+                        >
+                          <Stamp className="w-4 h-4" />
+                        </Button>
+                      )}
+
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => window.location.href = `/api/invoices/${invoice.id}/xml`}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="CFDI XML"
+                      >
+                        <FileCode className="w-4 h-4" />
+                      </Button>
+
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => window.location.href = `/api/invoices/${invoice.id}/pdf`}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Invoice PDF"
+                      >
+                        <FileText className="w-4 h-4" />
+                      </Button>
+
+                      {invoice.status !== 'cancelled' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setCancelling(invoice)
+                            setCancelReason('02')
+                            setReplacementUuid('')
+                          }}
+                          className="text-red-600 hover:text-red-900"
+                          title="Cancel invoice"
+                        >
+                          <XCircle className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Empty State */}
+      {!isLoading && invoices.length === 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <Receipt className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No invoices yet
+          </h3>
+          <p className="text-gray-600 mb-6">
+            Invoice a delivered order from the Orders page
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
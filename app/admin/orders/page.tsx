@@ -2,8 +2,10 @@
 
 import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase'
-import { useNotificationStore } from '@/lib/store'
+import { useAuthStore, useNotificationStore } from '@/lib/store'
 import { formatCurrency, formatDate, getStatusColor, getStatusText } from '@/lib/utils'
+import type { CurrencyCode } from '@/lib/currency'
+import { getValidNextOrderStatuses, updateOrderStatus, type OrderStatus } from '@/lib/orders'
 import { 
   Search, 
   Eye, 
@@ -13,7 +15,11 @@ import {
   CheckCircle,
   Clock,
   Package,
-  MapPin
+  MapPin,
+  FileText,
+  ClipboardList,
+  FileCheck,
+  Receipt
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -34,6 +40,7 @@ interface Document {
   subtotal: number
   tax_amount: number
   total: number
+  currency: CurrencyCode
   created_at: string
   quotation_id: string | null
   companies?: {
@@ -49,6 +56,14 @@ interface Document {
   }[]
 }
 
+/**
+ * The statuses an order's dropdown offers: its own and the ones it can move to
+ */
+function isStatusOption(order: Document, status: OrderStatus): boolean {
+  return order.order_status === status
+    || getValidNextOrderStatuses(order.order_status as OrderStatus).includes(status)
+}
+
 export default function OrdersPage() {
   const [orders, setOrders] = useState<Document[]>([])
   const [isLoading, setIsLoading] = useState(true)
@@ -58,6 +73,7 @@ export default function OrdersPage() {
   const [totalPages, setTotalPages] = useState(1)
   const itemsPerPage = 10
   
+  const { user } = useAuthStore()
   const { addNotification } = useNotificationStore()
   const supabase = createClient()
 
@@ -113,29 +129,21 @@ export default function OrdersPage() {
     }
   }
 
-  const handleStatusChange = async (orderId: string, newStatus: string) => {
-    try {
-      const { error } = await supabase
-        .from('documents')
-        .update({ order_status: newStatus })
-        .eq('id', orderId)
+  const handleStatusChange = async (orderId: string, newStatus: OrderStatus) => {
+    if (!user) return
 
-      if (error) throw error
+    // Through updateOrderStatus so the change is validated, recorded in the
+    // status history and reserves, ships or releases the order's stock
+    const result = await updateOrderStatus(orderId, newStatus, user.id)
 
-      addNotification({
-        type: 'success',
-        title: 'Status Updated',
-        message: 'Order status updated successfully'
-      })
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Status Updated' : 'Error',
+      message: result.message
+    })
 
+    if (result.success) {
       fetchOrders()
-    } catch (error) {
-      console.error('Error updating status:', error)
-      addNotification({
-        type: 'error',
-        title: 'Error',
-        message: 'Failed to update order status'
-      })
     }
   }
 
@@ -275,7 +283,7 @@ export default function OrdersPage() {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-medium text-gray-900">
-                      {formatCurrency(order.total)}
+                      {formatCurrency(order.total, order.currency)}
                     </div>
                     <div className="text-sm text-gray-500">
                       Subtotal: {formatCurrency(order.subtotal)}
@@ -286,18 +294,18 @@ export default function OrdersPage() {
                       {getStatusIcon(order.order_status || '')}
                       <select
                         value={order.order_status || ''}
-                        onChange={(e) => handleStatusChange(order.id, e.target.value)}
+                        onChange={(e) => handleStatusChange(order.id, e.target.value as OrderStatus)}
                         className={`text-xs font-semibold rounded-full px-2 py-1 border-0 focus:ring-2 focus:ring-green-500 ${
                           getStatusColor(order.order_status || '', 'order')
                         }`}
                       >
-                        <option value="pending">Pending</option>
-                        <option value="confirmed">Confirmed</option>
-                        <option value="in_progress">In Progress</option>
-                        <option value="ready">Ready</option>
-                        <option value="shipped">Shipped</option>
-                        <option value="delivered">Delivered</option>
-                        <option value="cancelled">Cancelled</option>
+                        <option value="pending" disabled={!isStatusOption(order, 'pending')}>Pending</option>
+                        <option value="confirmed" disabled={!isStatusOption(order, 'confirmed')}>Confirmed</option>
+                        <option value="in_progress" disabled={!isStatusOption(order, 'in_progress')}>In Progress</option>
+                        <option value="ready" disabled={!isStatusOption(order, 'ready')}>Ready</option>
+                        <option value="shipped" disabled={!isStatusOption(order, 'shipped')}>Shipped</option>
+                        <option value="delivered" disabled={!isStatusOption(order, 'delivered')}>Delivered</option>
+                        <option value="cancelled" disabled={!isStatusOption(order, 'cancelled')}>Cancelled</option>
                       </select>
                     </div>
                   </td>
@@ -341,6 +349,48 @@ export default function OrdersPage() {
                       >
                         <Truck className="w-4 h-4" />
                       </Button>
+                      
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => window.location.href = `/api/documents/${order.id}/pdf?kind=order`}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Order confirmation PDF"
+                      >
+                        <FileText className="w-4 h-4" />
+                      </Button>
+                      
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => window.location.href = `/api/documents/${order.id}/pdf?kind=packing_list`}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Packing list PDF"
+                      >
+                        <ClipboardList className="w-4 h-4" />
+                      </Button>
+                      
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => window.location.href = `/api/documents/${order.id}/pdf?kind=delivery_note`}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Delivery note PDF"
+                      >
+                        <FileCheck className="w-4 h-4" />
+                      </Button>
+
+                      {order.order_status === 'delivered' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => window.location.href = `/admin/invoices?order=${order.id}`}
+                          className="text-green-600 hover:text-green-900"
+                          title="Invoice"
+                        >
+                          <Receipt className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </td>
                 </tr>
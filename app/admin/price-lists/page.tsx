@@ -0,0 +1,202 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase'
+import { formatDate } from '@/lib/utils'
+import { getLocalDate } from '@/lib/exchange-rates'
+import { getPriceLists, isPriceListApplicable, type PriceList } from '@/lib/price-lists'
+import { Plus, Edit, Tags } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { PriceListForm } from '@/components/admin/price-list-form'
+import {
+  Dialog,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+
+interface ProductOption {
+  id: string
+  code: string
+  name: string
+}
+
+interface CategoryOption {
+  id: string
+  name: string
+}
+
+export default function PriceListsPage() {
+  const [priceLists, setPriceLists] = useState<PriceList[]>([])
+  const [products, setProducts] = useState<ProductOption[]>([])
+  const [categories, setCategories] = useState<CategoryOption[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingPriceList, setEditingPriceList] = useState<PriceList | null>(null)
+
+  const supabase = createClient()
+
+  const fetchPriceLists = async () => {
+    setIsLoading(true)
+    setPriceLists(await getPriceLists())
+    setIsLoading(false)
+  }
+
+  const fetchOptions = useCallback(async () => {
+    const [productsResult, categoriesResult] = await Promise.all([
+      supabase
+        .from('products')
+        .select('id, code, name')
+        .eq('is_active', true)
+        .order('name'),
+      supabase
+        .from('product_categories')
+        .select('id, category_name')
+        .order('category_name')
+    ])
+
+    setProducts(productsResult.data || [])
+    setCategories(
+      (categoriesResult.data || []).map((category: { id: string; category_name: string }) => ({
+        id: category.id,
+        name: category.category_name
+      }))
+    )
+  }, [supabase])
+
+  useEffect(() => {
+    fetchPriceLists()
+    fetchOptions()
+  }, [fetchOptions])
+
+  const handleFormSubmit = () => {
+    setShowForm(false)
+    setEditingPriceList(null)
+    fetchPriceLists()
+  }
+
+  const today = getLocalDate()
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Price Lists</h1>
+          <p className="text-gray-600 mt-1">
+            Negotiated prices and markups assigned to clients
+          </p>
+        </div>
+
+        <Dialog
+          open={showForm}
+          onOpenChange={(open) => {
+            setShowForm(open)
+            if (!open) setEditingPriceList(null)
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button className="bg-green-600 hover:bg-green-700 flex items-center space-x-2">
+              <Plus className="w-4 h-4" />
+              <span>Add Price List</span>
+            </Button>
+          </DialogTrigger>
+          {showForm && (
+            <PriceListForm
+              key={editingPriceList?.id || 'new'}
+              priceList={editingPriceList}
+              products={products}
+              categories={categories}
+              onSubmit={handleFormSubmit}
+            />
+          )}
+        </Dialog>
+      </div>
+
+      {/* Price Lists Table */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Validity
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Prices
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {priceLists.map((priceList) => {
+                const productCount = priceList.price_list_items.filter(item => item.product_id).length
+                const categoryCount = priceList.price_list_items.length - productCount
+                const applicable = isPriceListApplicable(priceList, today)
+
+                return (
+                  <tr key={priceList.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{priceList.name}</div>
+                      {priceList.description && (
+                        <div className="text-sm text-gray-500">{priceList.description}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {priceList.valid_from ? formatDate(priceList.valid_from) : 'Always'}
+                      {' – '}
+                      {priceList.valid_until ? formatDate(priceList.valid_until) : 'No end'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {productCount} products, {categoryCount} categories
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`text-xs font-semibold rounded-full px-2 py-1 ${
+                          applicable ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {applicable ? 'In effect' : priceList.is_active ? 'Out of dates' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setEditingPriceList(priceList)
+                          setShowForm(true)
+                        }}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Empty State */}
+      {!isLoading && priceLists.length === 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <Tags className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No price lists yet
+          </h3>
+          <p className="text-gray-600 mb-6">
+            Create a price list and assign it to a client from its company details
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
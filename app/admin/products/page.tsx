@@ -1,9 +1,12 @@
 'use client'
 
 import { useEffect, useState, useCallback } from 'react'
+import Link from 'next/link'
 import { createClient } from '@/lib/supabase'
 import { useNotificationStore } from '@/lib/store'
 import { formatCurrency } from '@/lib/utils'
+import type { BundlePricing } from '@/lib/bundles'
+import { getStockLevels, isLowStock, type StockLevel } from '@/lib/inventory'
 import { 
   Plus, 
   Search, 
@@ -14,7 +17,8 @@ import {
   Download,
   Upload,
   Eye,
-  EyeOff
+  EyeOff,
+  FileWarning
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -33,6 +37,7 @@ interface Product {
   category_id: string | null
   unit: string
   cost_price: number
+  average_cost: number | null
   profit_margin: number
   base_price: number
   public_price: number
@@ -40,6 +45,11 @@ interface Product {
   tax_included: boolean
   stock_quantity: number
   min_stock_level: number
+  bin_location: string | null
+  sat_product_key: string | null
+  sat_unit_key: string | null
+  is_bundle: boolean
+  bundle_pricing: BundlePricing
   is_active: boolean
   created_at: string
   product_categories?: {
@@ -55,10 +65,30 @@ interface Category {
   id: string
   name: string
   description: string | null
+  sat_product_key: string | null
+  sat_unit_key: string | null
+}
+
+/**
+ * Available stock with what is on hand and reserved, flagged when it runs low
+ */
+function StockLevelCell({ stock, minStockLevel }: { stock: StockLevel; minStockLevel: number }) {
+  return (
+    <>
+      <div className="text-sm text-gray-900">{stock.available} available</div>
+      <div className="text-xs text-gray-500">
+        {stock.on_hand} on hand · {stock.reserved} reserved
+      </div>
+      {isLowStock(stock, minStockLevel) && (
+        <div className="text-xs text-red-600">Low stock</div>
+      )}
+    </>
+  )
 }
 
 export default function ProductsPage() {
   const [products, setProducts] = useState<Product[]>([])
+  const [stockLevels, setStockLevels] = useState<Record<string, StockLevel>>({})
   const [categories, setCategories] = useState<Category[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [showForm, setShowForm] = useState(false)
@@ -67,6 +97,7 @@ export default function ProductsPage() {
   const [selectedCategory, setSelectedCategory] = useState('')
   const [showFilters, setShowFilters] = useState(false)
   const [showCostPrices, setShowCostPrices] = useState(false)
+  const [lowStockOnly, setLowStockOnly] = useState(false)
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
   const itemsPerPage = 20
@@ -107,6 +138,7 @@ export default function ProductsPage() {
 
       setProducts(data || [])
       setTotalPages(Math.ceil((count || 0) / itemsPerPage))
+      setStockLevels(await getStockLevels((data || []).map(product => product.id), supabase))
     } catch (error) {
       console.error('Error fetching products:', error)
       addNotification({
@@ -123,7 +155,7 @@ export default function ProductsPage() {
     try {
       const { data, error } = await supabase
         .from('product_categories')
-        .select('id, category_name')
+        .select('id, category_name, sat_product_key, sat_unit_key')
         .order('category_name')
 
       if (error) {
@@ -136,7 +168,9 @@ export default function ProductsPage() {
       const mappedData = data?.map(cat => ({
         id: cat.id,
         name: cat.category_name,
-        description: null
+        description: null,
+        sat_product_key: cat.sat_product_key,
+        sat_unit_key: cat.sat_unit_key
       })) || []
 
       setCategories(mappedData)
@@ -219,6 +253,25 @@ export default function ProductsPage() {
     }
   }
 
+  /**
+   * On hand, reserved and available stock of a product; until its level
+   * loads, all of its stock on hand counts as available
+   */
+  const getStockLevel = (product: Product): StockLevel => {
+    return stockLevels[product.id] ?? {
+      product_id: product.id,
+      on_hand: product.stock_quantity,
+      reserved: 0,
+      available: product.stock_quantity
+    }
+  }
+
+  // The low stock filter applies to the page loaded; the replenishment
+  // report covers every product
+  const visibleProducts = lowStockOnly
+    ? products.filter(product => isLowStock(getStockLevel(product), product.min_stock_level))
+    : products
+
   const handleFormSubmit = () => {
     setShowForm(false)
     setEditingProduct(null)
@@ -264,6 +317,15 @@ export default function ProductsPage() {
             <span>{showCostPrices ? 'Hide' : 'Show'} Cost Prices</span>
           </Button>
           
+          <Button
+            variant="outline"
+            onClick={() => window.location.href = '/admin/products/sat-keys'}
+            className="flex items-center space-x-2"
+          >
+            <FileWarning className="w-4 h-4" />
+            <span>SAT Keys</span>
+          </Button>
+
           <Button
             variant="outline"
             className="flex items-center space-x-2"
@@ -335,9 +397,23 @@ export default function ProductsPage() {
         
         {showFilters && (
           <div className="mt-4">
-            <ProductFilters onFiltersChange={() => fetchProducts()} />
+            <ProductFilters
+              onFiltersChange={(filters) => {
+                setLowStockOnly(filters.lowStockOnly)
+                fetchProducts()
+              }}
+            />
           </div>
         )}
+
+        {lowStockOnly && (
+          <p className="mt-4 text-sm text-gray-600">
+            Showing low stock products on this page.{' '}
+            <Link href="/admin/replenishment" className="text-green-700 hover:text-green-900">
+              See what to reorder
+            </Link>
+          </p>
+        )}
       </div>
 
       {/* Products Table */}
@@ -380,7 +456,7 @@ export default function ProductsPage() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {products.map((product) => (
+              {visibleProducts.map((product) => (
                 <tr key={product.id} className={`hover:bg-gray-50 ${!product.is_active ? 'opacity-60' : ''}`}>
                   <td className="px-6 py-4">
                     <div>
@@ -410,6 +486,11 @@ export default function ProductsPage() {
                       <span className="text-sm font-medium text-gray-900">
                         {formatCurrency(product.cost_price)}
                       </span>
+                      {product.average_cost !== null && product.average_cost !== product.cost_price && (
+                        <div className="text-xs text-gray-500" title="Weighted-average cost of the stock on hand">
+                          Avg {formatCurrency(product.average_cost)}
+                        </div>
+                      )}
                     </td>
                   )}
                   {showCostPrices && (
@@ -430,9 +511,10 @@ export default function ProductsPage() {
                     )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">{product.stock_quantity}</div>
-                    {product.stock_quantity <= product.min_stock_level && (
-                      <div className="text-xs text-red-600">Low stock</div>
+                    {product.is_bundle ? (
+                      <div className="text-sm text-gray-500">Kit</div>
+                    ) : (
+                      <StockLevelCell stock={getStockLevel(product)} minStockLevel={product.min_stock_level} />
                     )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -0,0 +1,194 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useNotificationStore } from '@/lib/store'
+import { GENERIC_PRODUCT_KEY, MEASURE_UNITS, PRODUCT_KEYS } from '@/lib/sat-catalogs'
+import {
+  getProductsMissingSATKeys,
+  getSATKeysCategories,
+  updateCategorySATKeys,
+  type MissingSATKey,
+  type ProductMissingSATKeys,
+  type SATKeysCategory
+} from '@/lib/sat-keys'
+import { CheckCircle, Save } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+const MISSING_LABELS: Record<MissingSATKey, string> = {
+  product: `Product key (invoiced as ${GENERIC_PRODUCT_KEY})`,
+  unit: 'Unit key'
+}
+
+export default function SATKeysPage() {
+  const [products, setProducts] = useState<ProductMissingSATKeys[]>([])
+  const [categories, setCategories] = useState<SATKeysCategory[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const { addNotification } = useNotificationStore()
+
+  useEffect(() => {
+    fetchReport()
+  }, [])
+
+  const fetchReport = async () => {
+    setIsLoading(true)
+    const [missing, keyedCategories] = await Promise.all([getProductsMissingSATKeys(), getSATKeysCategories()])
+    setProducts(missing)
+    setCategories(keyedCategories)
+    setIsLoading(false)
+  }
+
+  const updateCategory = (id: string, changes: Partial<SATKeysCategory>) => {
+    setCategories(current => current.map(category => (category.id === id ? { ...category, ...changes } : category)))
+  }
+
+  const handleSaveCategory = async (category: SATKeysCategory) => {
+    setSavingId(category.id)
+
+    const result = await updateCategorySATKeys(category.id, {
+      sat_product_key: category.sat_product_key?.trim() || null,
+      sat_unit_key: category.sat_unit_key?.trim().toUpperCase() || null
+    })
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Category Updated' : 'Error',
+      message: result.success ? `${category.name}: ${result.message}` : result.message
+    })
+
+    setSavingId(null)
+    if (result.success) {
+      // Products of the category may no longer be missing keys
+      fetchReport()
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">SAT Keys</h1>
+          <p className="text-gray-600 mt-1">
+            Product and unit keys invoices need, with the defaults each category gives its products
+          </p>
+        </div>
+      </div>
+
+      {/* Category Defaults */}
+      <div className="bg-white p-6 rounded-lg border border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Category Defaults</h2>
+        <datalist id="sat-product-keys">
+          {Object.entries(PRODUCT_KEYS).map(([key, description]) => (
+            <option key={key} value={key}>{description}</option>
+          ))}
+        </datalist>
+        <datalist id="sat-unit-keys">
+          {Object.entries(MEASURE_UNITS).map(([key, name]) => (
+            <option key={key} value={key}>{name}</option>
+          ))}
+        </datalist>
+        <div className="space-y-3">
+          {categories.map((category) => (
+            <div key={category.id} className="flex items-center space-x-3">
+              <span className="w-48 text-sm font-medium text-gray-900">{category.name}</span>
+              <Input
+                list="sat-product-keys"
+                autoComplete="off"
+                value={category.sat_product_key ?? ''}
+                onChange={(e) => updateCategory(category.id, { sat_product_key: e.target.value })}
+                aria-label={`SAT product key for ${category.name}`}
+                placeholder="Product key"
+                className="w-36"
+              />
+              <Input
+                list="sat-unit-keys"
+                autoComplete="off"
+                value={category.sat_unit_key ?? ''}
+                onChange={(e) => updateCategory(category.id, { sat_unit_key: e.target.value })}
+                aria-label={`SAT unit key for ${category.name}`}
+                placeholder="Unit key"
+                className="w-24"
+              />
+              <span className="flex-1 text-xs text-gray-500 truncate">
+                {category.sat_product_key ? PRODUCT_KEYS[category.sat_product_key] ?? '' : ''}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={savingId === category.id}
+                onClick={() => handleSaveCategory(category)}
+              >
+                <Save className="w-4 h-4 mr-1" />
+                Save
+              </Button>
+            </div>
+          ))}
+        </div>
+        <p className="mt-3 text-sm text-gray-500">
+          Products without keys of their own take their category&apos;s. Without a unit key, the key of the product&apos;s unit is used.
+        </p>
+      </div>
+
+      {/* Missing Keys */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Products Missing Keys {!isLoading && `(${products.length})`}
+          </h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Unit
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Missing
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {products.map((product) => (
+                <tr key={product.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{product.name}</div>
+                    <div className="text-sm text-gray-500">Code: {product.code}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {product.category || 'Uncategorized'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {product.unit}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-red-600">
+                    {product.missing.map(key => MISSING_LABELS[key]).join(', ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Empty State */}
+      {!isLoading && products.length === 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            Every active product has its SAT keys
+          </h3>
+        </div>
+      )}
+    </div>
+  )
+}
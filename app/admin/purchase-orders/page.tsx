@@ -0,0 +1,330 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase'
+import { useNotificationStore } from '@/lib/store'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { isSupportedCurrency } from '@/lib/currency'
+import { getSuppliers, type Supplier } from '@/lib/suppliers'
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  canReceivePurchaseOrder,
+  getManualPurchaseOrderStatuses,
+  getPurchaseOrders,
+  updatePurchaseOrderStatus,
+  type PurchaseOrder,
+  type PurchaseOrderStatus
+} from '@/lib/purchase-orders'
+import { Plus, Edit, FileText, PackageCheck, PackagePlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { PurchaseOrderForm } from '@/components/admin/purchase-order-form'
+import { PurchaseOrderReceiptForm } from '@/components/admin/purchase-order-receipt'
+import {
+  Dialog,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+
+interface ProductOption {
+  id: string
+  code: string
+  name: string
+  unit: string
+  cost_price: number
+}
+
+const STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-100 text-gray-600',
+  cancelled: 'bg-red-100 text-red-800'
+}
+
+// What the status menu calls each manual transition
+const STATUS_ACTIONS: Partial<Record<PurchaseOrderStatus, string>> = {
+  sent: 'Mark as sent',
+  closed: 'Close',
+  cancelled: 'Cancel'
+}
+
+export default function PurchaseOrdersPage() {
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [products, setProducts] = useState<ProductOption[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | ''>('')
+  const [showForm, setShowForm] = useState(false)
+  const [editingPurchaseOrder, setEditingPurchaseOrder] = useState<PurchaseOrder | null>(null)
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const { addNotification } = useNotificationStore()
+
+  const fetchPurchaseOrders = useCallback(async () => {
+    setIsLoading(true)
+    setPurchaseOrders(await getPurchaseOrders({ status: statusFilter || undefined }))
+    setIsLoading(false)
+  }, [statusFilter])
+
+  const fetchOptions = async () => {
+    const [supplierList, productsResult] = await Promise.all([
+      getSuppliers({ activeOnly: true }),
+      createClient()
+        .from('products')
+        .select('id, code, name, unit, cost_price')
+        .eq('is_active', true)
+        .eq('is_bundle', false)
+        .order('name')
+    ])
+
+    setSuppliers(supplierList)
+    setProducts((productsResult.data ?? []) as ProductOption[])
+  }
+
+  useEffect(() => {
+    fetchOptions()
+  }, [])
+
+  useEffect(() => {
+    fetchPurchaseOrders()
+  }, [fetchPurchaseOrders])
+
+  const handleStatusChange = async (purchaseOrder: PurchaseOrder, newStatus: PurchaseOrderStatus) => {
+    if (newStatus === 'cancelled' && !confirm(`Cancel purchase order ${purchaseOrder.folio}?`)) return
+    if (newStatus === 'closed' && purchaseOrder.status === 'partially_received' &&
+      !confirm(`Close ${purchaseOrder.folio}? What has not arrived will no longer be expected.`)) return
+
+    setBusyId(purchaseOrder.id)
+    const result = await updatePurchaseOrderStatus(purchaseOrder.id, newStatus)
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Status Updated' : 'Error',
+      message: result.message
+    })
+
+    if (result.success) {
+      fetchPurchaseOrders()
+    }
+    setBusyId(null)
+  }
+
+  const handleFormSubmit = () => {
+    setShowForm(false)
+    setEditingPurchaseOrder(null)
+    fetchPurchaseOrders()
+  }
+
+  const handleReceived = () => {
+    setReceiving(null)
+    fetchPurchaseOrders()
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Purchase Orders</h1>
+          <p className="text-gray-600 mt-1">
+            Goods ordered from suppliers; receiving them brings them into stock
+          </p>
+        </div>
+
+        <Dialog
+          open={showForm}
+          onOpenChange={(open) => {
+            setShowForm(open)
+            if (!open) setEditingPurchaseOrder(null)
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button className="bg-green-600 hover:bg-green-700 flex items-center space-x-2">
+              <Plus className="w-4 h-4" />
+              <span>New Purchase Order</span>
+            </Button>
+          </DialogTrigger>
+          {showForm && (
+            <PurchaseOrderForm
+              key={editingPurchaseOrder?.id || 'new'}
+              purchaseOrder={editingPurchaseOrder}
+              suppliers={suppliers}
+              products={products}
+              onSubmit={handleFormSubmit}
+            />
+          )}
+        </Dialog>
+      </div>
+
+      <Dialog
+        open={!!receiving}
+        onOpenChange={(open) => {
+          if (!open) setReceiving(null)
+        }}
+      >
+        {receiving && (
+          <PurchaseOrderReceiptForm
+            key={receiving.id}
+            purchaseOrder={receiving}
+            onSubmit={handleReceived}
+          />
+        )}
+      </Dialog>
+
+      {/* Purchase Orders Table */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Orders</h2>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            <option value="">All Statuses</option>
+            {Object.entries(PURCHASE_ORDER_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Folio
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Supplier
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Expected
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Received
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {purchaseOrders.map((purchaseOrder) => {
+                const ordered = purchaseOrder.purchase_order_items.reduce((sum, item) => sum + item.quantity, 0)
+                const received = purchaseOrder.purchase_order_items.reduce((sum, item) => sum + item.received_quantity, 0)
+                const nextStatuses = getManualPurchaseOrderStatuses(purchaseOrder.status)
+
+                return (
+                  <tr key={purchaseOrder.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{purchaseOrder.folio}</div>
+                      <div className="text-sm text-gray-500">{formatDate(purchaseOrder.order_date)}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {purchaseOrder.suppliers?.name}
+                      <div className="text-sm text-gray-500">
+                        {purchaseOrder.purchase_order_items.length} products
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {purchaseOrder.expected_date ? formatDate(purchaseOrder.expected_date) : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {received} of {ordered}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(
+                        purchaseOrder.total,
+                        isSupportedCurrency(purchaseOrder.currency) ? purchaseOrder.currency : 'MXN'
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_CLASSES[purchaseOrder.status]}`}>
+                        {PURCHASE_ORDER_STATUS_LABELS[purchaseOrder.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex items-center justify-end space-x-2">
+                        {purchaseOrder.status === 'draft' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setEditingPurchaseOrder(purchaseOrder)
+                              setShowForm(true)
+                            }}
+                            className="text-gray-600 hover:text-gray-900"
+                            title="Edit draft"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                        )}
+
+                        {canReceivePurchaseOrder(purchaseOrder.status) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setReceiving(purchaseOrder)}
+                            className="text-green-600 hover:text-green-900"
+                            title="Receive goods"
+                          >
+                            <PackageCheck className="w-4 h-4" />
+                          </Button>
+                        )}
+
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => window.location.href = `/api/purchase-orders/${purchaseOrder.id}/pdf`}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Purchase order PDF"
+                        >
+                          <FileText className="w-4 h-4" />
+                        </Button>
+
+                        {nextStatuses.length > 0 && (
+                          <select
+                            value=""
+                            onChange={(e) => handleStatusChange(purchaseOrder, e.target.value as PurchaseOrderStatus)}
+                            disabled={busyId === purchaseOrder.id}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                          >
+                            <option value="">Status...</option>
+                            {nextStatuses.map((status) => (
+                              <option key={status} value={status}>
+                                {STATUS_ACTIONS[status] ?? PURCHASE_ORDER_STATUS_LABELS[status]}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Empty State */}
+      {!isLoading && purchaseOrders.length === 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <PackagePlus className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No purchase orders yet
+          </h3>
+          <p className="text-gray-600 mb-6">
+            Create a purchase order to buy stock from a supplier
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
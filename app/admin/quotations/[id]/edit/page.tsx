@@ -0,0 +1,10 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { QuotationBuilder } from '@/components/admin/quotations/quotation-builder'
+
+export default function EditQuotationPage() {
+  const { id } = useParams<{ id: string }>()
+
+  return <QuotationBuilder quotationId={id} />
+}
@@ -4,8 +4,17 @@ import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase'
 import { useNotificationStore } from '@/lib/store'
 import { formatCurrency, formatDate } from '@/lib/utils'
+import type { CurrencyCode } from '@/lib/currency'
 import { updateQuotationStatus, QuotationStatus } from '@/lib/status-management'
-import { StatusSelector } from '@/components/admin/quotations/status-badge'
+import {
+  convertQuotationToOrder,
+  createQuotationRevision,
+  getQuotationEditAction,
+  getRevisionRootId,
+  groupRevisionsByRoot
+} from '@/lib/quotations'
+import { StatusBadge, StatusSelector } from '@/components/admin/quotations/status-badge'
+import { RevisionSelector } from '@/components/quotations/revision-selector'
 import { 
   Plus, 
   Search, 
@@ -17,7 +26,8 @@ import {
   Send,
   CheckCircle,
   XCircle,
-  Clock
+  Clock,
+  Copy
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -43,7 +53,11 @@ interface Document {
   subtotal: number
   tax_amount: number
   total: number
+  currency: CurrencyCode
   created_at: string
+  revision_root_id: string | null
+  revision: number
+  is_latest_revision: boolean
   companies?: {
     name: string
   }
@@ -56,6 +70,8 @@ export default function QuotationsPage() {
   const [statusFilter, setStatusFilter] = useState('')
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
+  const [revisions, setRevisions] = useState<Record<string, Document[]>>({})
+  const [selectedRevisions, setSelectedRevisions] = useState<Record<string, string>>({})
   const itemsPerPage = 10
   
   const { addNotification } = useNotificationStore()
@@ -76,6 +92,7 @@ export default function QuotationsPage() {
           companies(name)
         `, { count: 'exact' })
         .eq('type', 'quotation')
+        .eq('is_latest_revision', true)
         .order('created_at', { ascending: false })
         .range((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage - 1)
 
@@ -93,6 +110,8 @@ export default function QuotationsPage() {
 
       setQuotations(data || [])
       setTotalPages(Math.ceil((count || 0) / itemsPerPage))
+      setSelectedRevisions({})
+      await fetchRevisions(data || [])
     } catch (error) {
       console.error('Error fetching quotations:', error)
       addNotification({
@@ -105,6 +124,104 @@ export default function QuotationsPage() {
     }
   }
 
+  // Load the earlier revisions of every revised quotation on the page
+  const fetchRevisions = async (latest: Document[]) => {
+    const rootIds = latest
+      .filter(quotation => quotation.revision > 1)
+      .map(quotation => getRevisionRootId(quotation))
+
+    if (rootIds.length === 0) {
+      setRevisions({})
+      return
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('documents')
+        .select(`
+          *,
+          companies(name)
+        `)
+        .or(`id.in.(${rootIds.join(',')}),revision_root_id.in.(${rootIds.join(',')})`)
+
+      if (error) throw error
+
+      setRevisions(groupRevisionsByRoot(data || []))
+    } catch (error) {
+      console.error('Error fetching quotation revisions:', error)
+      setRevisions({})
+    }
+  }
+
+  const getDisplayedRevision = (quotation: Document): Document => {
+    const rootId = getRevisionRootId(quotation)
+    const selectedId = selectedRevisions[rootId]
+    return revisions[rootId]?.find(revision => revision.id === selectedId) || quotation
+  }
+
+  const handleEdit = async (quotation: Document) => {
+    const action = getQuotationEditAction(quotation.quotation_status || 'draft', quotation.is_latest_revision)
+
+    if (action === 'edit') {
+      window.location.href = `/admin/quotations/${quotation.id}/edit`
+      return
+    }
+
+    if (action !== 'revise') return
+
+    if (!confirm(`Quotation ${quotation.folio} has already been sent. Create revision R${quotation.revision + 1} to edit it?`)) return
+
+    try {
+      const user = await supabase.auth.getUser()
+      if (!user.data.user) {
+        throw new Error('User not authenticated')
+      }
+
+      const result = await createQuotationRevision(quotation.id, user.data.user.id)
+
+      if (!result.success || !result.revisionId) {
+        throw new Error(result.message)
+      }
+
+      addNotification({
+        type: 'success',
+        title: 'Revision Created',
+        message: result.message
+      })
+      window.location.href = `/admin/quotations/${result.revisionId}/edit`
+    } catch (error) {
+      console.error('Error creating revision:', error)
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to create quotation revision'
+      })
+    }
+  }
+
+  // Converting creates the order; when only stock stands in the way, the
+  // conversion can go ahead with what is missing backordered
+  const handleConvert = async (quotationId: string, userId: string) => {
+    let result = await convertQuotationToOrder(quotationId, userId)
+
+    if (result.error === 'STOCK_SHORTAGE' &&
+        confirm(`Not enough stock:\n${result.message.split('; ').join('\n')}\n\nConvert anyway and backorder what is missing?`)) {
+      result = await convertQuotationToOrder(quotationId, userId, { allowBackorder: true })
+    }
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Order Created' : 'Conversion Failed',
+      message: result.success && result.warnings?.length
+        ? `${result.message}. ${result.warnings.join('; ')}`
+        : result.message
+    })
+
+    if (result.success) {
+      fetchQuotations()
+    }
+  }
+
   const handleStatusChange = async (quotationId: string, newStatus: QuotationStatus) => {
     try {
       const user = await supabase.auth.getUser()
@@ -112,6 +229,11 @@ export default function QuotationsPage() {
         throw new Error('User not authenticated')
       }
 
+      if (newStatus === 'converted') {
+        await handleConvert(quotationId, user.data.user.id)
+        return
+      }
+
       const result = await updateQuotationStatus(
         quotationId, 
         newStatus, 
@@ -268,15 +390,31 @@ export default function QuotationsPage() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {quotations.map((quotation) => (
-                <tr key={quotation.id} className="hover:bg-gray-50">
+              {quotations.map((latest) => {
+                const rootId = getRevisionRootId(latest)
+                const quotation = getDisplayedRevision(latest)
+                const isReadOnly = !quotation.is_latest_revision
+                const editAction = getQuotationEditAction(quotation.quotation_status || 'draft', quotation.is_latest_revision)
+
+                return (
+                <tr key={rootId} className={isReadOnly ? 'bg-gray-50' : 'hover:bg-gray-50'}>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
                       <FileText className="w-5 h-5 text-gray-400 mr-3" />
                       <div>
-                        <div className="text-sm font-medium text-gray-900">
-                          {quotation.folio}
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm font-medium text-gray-900">
+                            {quotation.folio}
+                          </span>
+                          <RevisionSelector
+                            revisions={revisions[rootId] || []}
+                            selectedId={quotation.id}
+                            onSelect={(revisionId) => setSelectedRevisions(selected => ({ ...selected, [rootId]: revisionId }))}
+                          />
                         </div>
+                        {isReadOnly && (
+                          <div className="text-xs text-gray-500">Superseded revision (read-only)</div>
+                        )}
                         <div className="text-sm text-gray-500">
                           {quotation.companies?.name}
                         </div>
@@ -289,17 +427,21 @@ export default function QuotationsPage() {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-medium text-gray-900">
-                      {formatCurrency(quotation.total)}
+                      {formatCurrency(quotation.total, quotation.currency)}
                     </div>
                     <div className="text-sm text-gray-500">
                       Subtotal: {formatCurrency(quotation.subtotal)}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <StatusSelector
-                      currentStatus={quotation.quotation_status || 'draft'}
-                      onStatusChange={(newStatus) => handleStatusChange(quotation.id, newStatus)}
-                    />
+                    {isReadOnly ? (
+                      <StatusBadge status={quotation.quotation_status || 'draft'} />
+                    ) : (
+                      <StatusSelector
+                        currentStatus={quotation.quotation_status || 'draft'}
+                        onStatusChange={(newStatus) => handleStatusChange(quotation.id, newStatus)}
+                      />
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {formatDate(quotation.created_at)}
@@ -318,27 +460,53 @@ export default function QuotationsPage() {
                         <Eye className="w-4 h-4" />
                       </Button>
                       
+                      {editAction !== 'none' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(quotation)}
+                          className="text-green-600 hover:text-green-900"
+                          title={editAction === 'revise' ? 'Create new revision' : 'Edit draft'}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      )}
+                      
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => window.location.href = `/admin/quotations/${quotation.id}/edit`}
-                        className="text-green-600 hover:text-green-900"
+                        onClick={() => window.location.href = `/admin/quotations/create?duplicate=${quotation.id}`}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Duplicate as a new draft at current prices"
                       >
-                        <Edit className="w-4 h-4" />
+                        <Copy className="w-4 h-4" />
                       </Button>
                       
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => handleDelete(quotation)}
-                        className="text-red-600 hover:text-red-900"
+                        onClick={() => window.location.href = `/api/documents/${quotation.id}/pdf`}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Download PDF"
                       >
-                        <Trash2 className="w-4 h-4" />
+                        <Download className="w-4 h-4" />
                       </Button>
+                      
+                      {!isReadOnly && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(quotation)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </td>
                 </tr>
-              ))}
+                )
+              })}
             </tbody>
           </table>
         </div>
@@ -0,0 +1,306 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useAuthStore, useNotificationStore } from '@/lib/store'
+import { formatCurrency } from '@/lib/utils'
+import { multiplyMoney, sumMoney } from '@/lib/money'
+import {
+  DEFAULT_COVER_DAYS,
+  DEFAULT_SALES_DAYS,
+  createReorderPurchaseOrders,
+  getReorderSuggestions,
+  type ReorderSuggestion
+} from '@/lib/replenishment'
+import { Loader2, PackagePlus, PackageSearch, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+const SALES_WINDOWS = [30, 60, 90, 180]
+
+export default function ReplenishmentPage() {
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isCreating, setIsCreating] = useState(false)
+  const [salesDays, setSalesDays] = useState(DEFAULT_SALES_DAYS)
+  const [coverDays, setCoverDays] = useState(String(DEFAULT_COVER_DAYS))
+  const [selected, setSelected] = useState<Record<string, boolean>>({})
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+
+  const { user } = useAuthStore()
+  const { addNotification } = useNotificationStore()
+
+  // Takes the parameters rather than reading them, so typing the days to
+  // cover waits for Recalculate
+  const fetchSuggestions = useCallback(async (days: number, coverInput: string) => {
+    setIsLoading(true)
+    const cover = parseInt(coverInput, 10)
+    const result = await getReorderSuggestions({
+      salesDays: days,
+      coverDays: Number.isFinite(cover) && cover >= 0 ? cover : DEFAULT_COVER_DAYS
+    })
+
+    // Everything that can be bought is selected at the suggested quantity
+    setSuggestions(result)
+    setSelected(Object.fromEntries(result.map(suggestion => [suggestion.product_id, !!suggestion.supplier_id])))
+    setQuantities(Object.fromEntries(result.map(suggestion => [suggestion.product_id, String(suggestion.quantity)])))
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    fetchSuggestions(DEFAULT_SALES_DAYS, String(DEFAULT_COVER_DAYS))
+  }, [fetchSuggestions])
+
+  const recalculate = () => fetchSuggestions(salesDays, coverDays)
+
+  const handleSalesDaysChange = (days: number) => {
+    setSalesDays(days)
+    fetchSuggestions(days, coverDays)
+  }
+
+  const getQuantity = (suggestion: ReorderSuggestion) => {
+    const quantity = parseInt(quantities[suggestion.product_id], 10)
+    return Number.isFinite(quantity) ? quantity : 0
+  }
+
+  const chosen = suggestions
+    .filter(suggestion => selected[suggestion.product_id])
+    .map(suggestion => ({ ...suggestion, quantity: getQuantity(suggestion) }))
+
+  const handleCreate = async () => {
+    if (!user) return
+
+    if (chosen.some(suggestion => suggestion.quantity <= 0)) {
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Quantities must be at least 1'
+      })
+      return
+    }
+
+    setIsCreating(true)
+    const result = await createReorderPurchaseOrders(chosen, user.id)
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Purchase Orders Created' : 'Error',
+      message: result.message
+    })
+
+    setIsCreating(false)
+    if (result.created > 0) {
+      recalculate()
+    }
+  }
+
+  // One table per supplier, in the order the suggestions come
+  const groups: Array<{ key: string; name: string | null; items: ReorderSuggestion[] }> = []
+  for (const suggestion of suggestions) {
+    const key = suggestion.supplier_id ?? 'none'
+    const group = groups.find(item => item.key === key)
+    if (group) {
+      group.items.push(suggestion)
+    } else {
+      groups.push({ key, name: suggestion.supplier_name, items: [suggestion] })
+    }
+  }
+
+  const supplierCount = new Set(chosen.map(suggestion => suggestion.supplier_id)).size
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Replenishment</h1>
+          <p className="text-gray-600 mt-1">
+            Products at or below their reorder point and how much to buy of each
+          </p>
+        </div>
+
+        <Button
+          onClick={handleCreate}
+          disabled={isCreating || chosen.length === 0}
+          className="bg-green-600 hover:bg-green-700 flex items-center space-x-2"
+        >
+          {isCreating ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <PackagePlus className="w-4 h-4" />
+          )}
+          <span>
+            {supplierCount > 1 ? `Create ${supplierCount} Draft Purchase Orders` : 'Create Draft Purchase Order'}
+          </span>
+        </Button>
+      </div>
+
+      {/* Parameters */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="sales_days">Sales velocity over</Label>
+          <select
+            id="sales_days"
+            value={salesDays}
+            onChange={(e) => handleSalesDaysChange(parseInt(e.target.value, 10))}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            {SALES_WINDOWS.map((days) => (
+              <option key={days} value={days}>Last {days} days</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="cover_days">Days of sales to cover</Label>
+          <Input
+            id="cover_days"
+            type="number"
+            step="1"
+            min="0"
+            value={coverDays}
+            onChange={(e) => setCoverDays(e.target.value)}
+            className="w-32"
+          />
+        </div>
+        <Button variant="outline" onClick={recalculate} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Recalculate
+        </Button>
+        <p className="text-sm text-gray-500 flex-1 min-w-[16rem]">
+          Reorder point: minimum stock plus sales over the supplier&apos;s lead time.
+          Available stock, sent orders and drafts all count toward it.
+        </p>
+      </div>
+
+      {/* Suggestions by Supplier */}
+      {groups.map((group) => {
+        const lines = group.items.filter(suggestion => selected[suggestion.product_id])
+        const total = sumMoney(lines.map(suggestion => multiplyMoney(suggestion.unit_cost, getQuantity(suggestion))))
+
+        return (
+          <div key={group.key} className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {group.name ?? 'No supplier'}
+              </h2>
+              {group.name ? (
+                <span className="text-sm text-gray-600">
+                  {lines.length} selected · {formatCurrency(total)} before IVA
+                </span>
+              ) : (
+                <Link href="/admin/suppliers" className="text-sm text-green-700 hover:text-green-900">
+                  Add these products to a supplier to order them
+                </Link>
+              )}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 w-8" />
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Product
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Available
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Reserved
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      On Order
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Min
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Sales / Day
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Reorder Point
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Order
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Unit Cost
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {group.items.map((suggestion) => (
+                    <tr key={suggestion.product_id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={!!selected[suggestion.product_id]}
+                          disabled={!suggestion.supplier_id}
+                          onChange={(e) => setSelected(current => ({ ...current, [suggestion.product_id]: e.target.checked }))}
+                          className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{suggestion.name}</div>
+                        <div className="text-gray-500">
+                          {suggestion.code}
+                          {suggestion.supplier_code && ` · ${suggestion.supplier_code}`}
+                          {suggestion.supplier_id && ` · ${suggestion.lead_time_days} days lead time`}
+                        </div>
+                      </td>
+                      <td className={`px-4 py-3 text-sm text-right ${suggestion.available <= suggestion.min_stock_level ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                        {suggestion.available}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-500">{suggestion.reserved}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-500">
+                        {suggestion.on_order}
+                        {suggestion.drafted > 0 && (
+                          <div className="text-xs text-gray-400">+{suggestion.drafted} in drafts</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-500">{suggestion.min_stock_level}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-500">
+                        {suggestion.daily_sales.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-500">{suggestion.reorder_point}</td>
+                      <td className="px-4 py-3 text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <Input
+                            type="number"
+                            step="1"
+                            min="1"
+                            value={quantities[suggestion.product_id]}
+                            onChange={(e) => setQuantities(current => ({ ...current, [suggestion.product_id]: e.target.value }))}
+                            disabled={!suggestion.supplier_id}
+                            className="w-24 text-right"
+                          />
+                          <span className="w-10 text-left text-sm text-gray-500">{suggestion.unit}</span>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">
+                        {formatCurrency(suggestion.unit_cost)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )
+      })}
+
+      {/* Empty State */}
+      {!isLoading && suggestions.length === 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <PackageSearch className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            Nothing to reorder
+          </h3>
+          <p className="text-gray-600 mb-6">
+            Every product has enough stock, on order or in drafts, to stay above its reorder point
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
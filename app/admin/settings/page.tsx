@@ -0,0 +1,455 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useNotificationStore } from '@/lib/store'
+import {
+  LOGO_TYPES,
+  emptyIssuerProfile,
+  getIssuerProfile,
+  updateIssuerProfile,
+  uploadIssuerLogo,
+  type IssuerAddress,
+  type IssuerBankAccount,
+  type IssuerProfile
+} from '@/lib/issuer-profile'
+import { FISCAL_REGIMES } from '@/lib/sat-catalogs'
+import { SUPPORTED_CURRENCIES } from '@/lib/currency'
+import { Plus, Save, Trash2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+
+const EMPTY_ADDRESS: IssuerAddress = { label: '', address: '' }
+const EMPTY_BANK_ACCOUNT: IssuerBankAccount = {
+  bank: '',
+  account_holder: '',
+  account_number: null,
+  clabe: null,
+  currency: 'MXN'
+}
+
+export default function SettingsPage() {
+  const [profile, setProfile] = useState<IssuerProfile>(emptyIssuerProfile())
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const { addNotification } = useNotificationStore()
+
+  useEffect(() => {
+    fetchProfile()
+  }, [])
+
+  const fetchProfile = async () => {
+    setIsLoading(true)
+    const saved = await getIssuerProfile()
+    if (saved) setProfile(saved)
+    setIsLoading(false)
+  }
+
+  const update = (changes: Partial<IssuerProfile>) => setProfile(current => ({ ...current, ...changes }))
+
+  const updateAddress = (index: number, changes: Partial<IssuerAddress>) =>
+    update({ addresses: profile.addresses.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)) })
+
+  const updateBankAccount = (index: number, changes: Partial<IssuerBankAccount>) =>
+    update({ bank_accounts: profile.bank_accounts.map((account, i) => (i === index ? { ...account, ...changes } : account)) })
+
+  const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setIsUploading(true)
+    const result = await uploadIssuerLogo(file)
+    if (result.success && result.url) {
+      update({ logo_url: result.url })
+    }
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Logo Uploaded' : 'Error',
+      message: result.success ? 'Save the profile to use the new logo on documents' : result.message
+    })
+    setIsUploading(false)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    const result = await updateIssuerProfile(profile)
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Settings Saved' : 'Error',
+      message: result.message
+    })
+
+    if (result.success) {
+      fetchProfile()
+    }
+    setIsSaving(false)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+          <p className="text-gray-600 mt-1">
+            Issuer details and branding shown on quotations, orders and delivery notes
+          </p>
+        </div>
+        <Button type="submit" disabled={isSaving} className="bg-green-600 hover:bg-green-700">
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </div>
+
+      {/* Legal and Fiscal */}
+      <div className="bg-white p-6 rounded-lg border border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Legal and Fiscal</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <Label htmlFor="legal_name">Legal Name *</Label>
+            <Input
+              id="legal_name"
+              value={profile.legal_name}
+              onChange={(e) => update({ legal_name: e.target.value })}
+              placeholder="Hoja Verde S.A. de C.V."
+            />
+          </div>
+          <div>
+            <Label htmlFor="trade_name">Trade Name</Label>
+            <Input
+              id="trade_name"
+              value={profile.trade_name ?? ''}
+              onChange={(e) => update({ trade_name: e.target.value })}
+              placeholder="Shown instead of the legal name"
+            />
+          </div>
+          <div>
+            <Label htmlFor="rfc">RFC *</Label>
+            <Input
+              id="rfc"
+              value={profile.rfc}
+              onChange={(e) => update({ rfc: e.target.value.toUpperCase() })}
+              placeholder="HVE240101AB1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="fiscal_regime">Fiscal Regime *</Label>
+            <select
+              id="fiscal_regime"
+              value={profile.fiscal_regime}
+              onChange={(e) => update({ fiscal_regime: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              {Object.entries(FISCAL_REGIMES).map(([code, name]) => (
+                <option key={code} value={code}>{code} - {name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Addresses and Contact */}
+      <div className="bg-white p-6 rounded-lg border border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Fiscal Address and Contact</h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="md:col-span-4">
+            <Label htmlFor="address">Street Address *</Label>
+            <Input id="address" value={profile.address} onChange={(e) => update({ address: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="city">City *</Label>
+            <Input id="city" value={profile.city} onChange={(e) => update({ city: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="state">State *</Label>
+            <Input id="state" value={profile.state} onChange={(e) => update({ state: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="postal_code">Postal Code *</Label>
+            <Input
+              id="postal_code"
+              value={profile.postal_code}
+              onChange={(e) => update({ postal_code: e.target.value })}
+              maxLength={5}
+            />
+          </div>
+          <div>
+            <Label htmlFor="phone">Phone</Label>
+            <Input id="phone" value={profile.phone ?? ''} onChange={(e) => update({ phone: e.target.value || null })} />
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              value={profile.email ?? ''}
+              onChange={(e) => update({ email: e.target.value || null })}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="website">Website</Label>
+            <Input id="website" value={profile.website ?? ''} onChange={(e) => update({ website: e.target.value || null })} />
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-gray-900">Other Addresses</h3>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => update({ addresses: [...profile.addresses, { ...EMPTY_ADDRESS }] })}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Address
+            </Button>
+          </div>
+          {profile.addresses.length === 0 && (
+            <p className="text-sm text-gray-500">Warehouses or branches listed in the footer of documents</p>
+          )}
+          <div className="space-y-3">
+            {profile.addresses.map((entry, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-[200px_1fr_auto] gap-3 items-center">
+                <Input
+                  aria-label="Label"
+                  value={entry.label}
+                  onChange={(e) => updateAddress(index, { label: e.target.value })}
+                  placeholder="Almacén"
+                />
+                <Input
+                  aria-label="Address"
+                  value={entry.address}
+                  onChange={(e) => updateAddress(index, { address: e.target.value })}
+                  placeholder="Calle, número, ciudad"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update({ addresses: profile.addresses.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Bank Accounts */}
+      <div className="bg-white p-6 rounded-lg border border-gray-200">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Bank Accounts</h2>
+            <p className="text-sm text-gray-500">Printed on quotations and orders for payment by transfer</p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => update({ bank_accounts: [...profile.bank_accounts, { ...EMPTY_BANK_ACCOUNT }] })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Account
+          </Button>
+        </div>
+        <div className="space-y-4">
+          {profile.bank_accounts.map((account, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+              <div>
+                <Label>Bank *</Label>
+                <Input value={account.bank} onChange={(e) => updateBankAccount(index, { bank: e.target.value })} />
+              </div>
+              <div className="md:col-span-2">
+                <Label>Account Holder *</Label>
+                <Input
+                  value={account.account_holder}
+                  onChange={(e) => updateBankAccount(index, { account_holder: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>CLABE</Label>
+                <Input
+                  value={account.clabe ?? ''}
+                  onChange={(e) => updateBankAccount(index, { clabe: e.target.value.replace(/\D/g, '') || null })}
+                  maxLength={18}
+                />
+              </div>
+              <div>
+                <Label>Account Number</Label>
+                <Input
+                  value={account.account_number ?? ''}
+                  onChange={(e) => updateBankAccount(index, { account_number: e.target.value || null })}
+                />
+              </div>
+              <div className="flex gap-2">
+                <select
+                  aria-label="Currency"
+                  value={account.currency}
+                  onChange={(e) => updateBankAccount(index, { currency: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update({ bank_accounts: profile.bank_accounts.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Branding */}
+      <div className="bg-white p-6 rounded-lg border border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Branding</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <Label>Logo</Label>
+            <div className="mt-1 flex items-center gap-4">
+              {profile.logo_url ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={profile.logo_url} alt="Logo" className="h-10 max-w-[120px] object-contain" />
+              ) : (
+                <span className="text-sm text-gray-500">No logo</span>
+              )}
+              <label className="inline-flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+                <Upload className="w-4 h-4 mr-2" />
+                {isUploading ? 'Uploading...' : 'Upload'}
+                <input
+                  type="file"
+                  accept={LOGO_TYPES.join(',')}
+                  onChange={handleLogo}
+                  disabled={isUploading}
+                  className="hidden"
+                />
+              </label>
+              {profile.logo_url && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => update({ logo_url: null })}>
+                  Remove
+                </Button>
+              )}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">PNG or JPEG, up to 1 MB</p>
+          </div>
+          <div>
+            <Label htmlFor="primary_color">Primary Color</Label>
+            <div className="flex gap-2">
+              <input
+                type="color"
+                aria-label="Pick primary color"
+                value={profile.primary_color}
+                onChange={(e) => update({ primary_color: e.target.value.toUpperCase() })}
+                className="h-10 w-12 border border-gray-300 rounded-md"
+              />
+              <Input
+                id="primary_color"
+                value={profile.primary_color}
+                onChange={(e) => update({ primary_color: e.target.value })}
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">Table headers and the total</p>
+          </div>
+          <div>
+            <Label htmlFor="accent_color">Accent Color</Label>
+            <div className="flex gap-2">
+              <input
+                type="color"
+                aria-label="Pick accent color"
+                value={profile.accent_color}
+                onChange={(e) => update({ accent_color: e.target.value.toUpperCase() })}
+                className="h-10 w-12 border border-gray-300 rounded-md"
+              />
+              <Input
+                id="accent_color"
+                value={profile.accent_color}
+                onChange={(e) => update({ accent_color: e.target.value })}
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">Titles and section headings</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Quotation Defaults */}
+      <div className="bg-white p-6 rounded-lg border border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Quotation Defaults</h2>
+        <div className="space-y-4">
+          <div className="md:w-1/4">
+            <Label htmlFor="default_validity_days">Validity (Days) *</Label>
+            <Input
+              id="default_validity_days"
+              type="number"
+              min="1"
+              value={profile.default_validity_days}
+              onChange={(e) => update({ default_validity_days: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="default_terms">Terms and Conditions</Label>
+            <Textarea
+              id="default_terms"
+              rows={3}
+              value={profile.default_terms ?? ''}
+              onChange={(e) => update({ default_terms: e.target.value || null })}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <Label htmlFor="default_delivery_terms">Delivery Terms</Label>
+              <Input
+                id="default_delivery_terms"
+                value={profile.default_delivery_terms ?? ''}
+                onChange={(e) => update({ default_delivery_terms: e.target.value || null })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="default_payment_terms">Payment Terms</Label>
+              <Input
+                id="default_payment_terms"
+                value={profile.default_payment_terms ?? ''}
+                onChange={(e) => update({ default_payment_terms: e.target.value || null })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="footer_text">Document Footer</Label>
+            <Textarea
+              id="footer_text"
+              rows={2}
+              value={profile.footer_text ?? ''}
+              onChange={(e) => update({ footer_text: e.target.value || null })}
+              placeholder="Printed at the bottom of every document"
+            />
+          </div>
+        </div>
+        <p className="mt-3 text-sm text-gray-500">
+          New quotations start with these terms. Documents already sent keep the terms they were saved with.
+        </p>
+      </div>
+    </form>
+  )
+}
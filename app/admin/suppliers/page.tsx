@@ -0,0 +1,186 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase'
+import { getSuppliers, type Supplier } from '@/lib/suppliers'
+import { Plus, Edit, Factory } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { SupplierForm } from '@/components/admin/supplier-form'
+import {
+  Dialog,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+
+interface ProductOption {
+  id: string
+  code: string
+  name: string
+  unit: string
+  cost_price: number
+}
+
+export default function SuppliersPage() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [products, setProducts] = useState<ProductOption[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null)
+
+  useEffect(() => {
+    fetchSuppliers()
+    fetchProducts()
+  }, [])
+
+  const fetchSuppliers = async () => {
+    setIsLoading(true)
+    setSuppliers(await getSuppliers())
+    setIsLoading(false)
+  }
+
+  const fetchProducts = async () => {
+    // Kits are bought as their components
+    const { data } = await createClient()
+      .from('products')
+      .select('id, code, name, unit, cost_price')
+      .eq('is_active', true)
+      .eq('is_bundle', false)
+      .order('name')
+
+    setProducts((data ?? []) as ProductOption[])
+  }
+
+  const handleFormSubmit = () => {
+    setShowForm(false)
+    setEditingSupplier(null)
+    fetchSuppliers()
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Suppliers</h1>
+          <p className="text-gray-600 mt-1">
+            Where products are bought, at what cost and how long they take to arrive
+          </p>
+        </div>
+
+        <Dialog
+          open={showForm}
+          onOpenChange={(open) => {
+            setShowForm(open)
+            if (!open) setEditingSupplier(null)
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button className="bg-green-600 hover:bg-green-700 flex items-center space-x-2">
+              <Plus className="w-4 h-4" />
+              <span>Add Supplier</span>
+            </Button>
+          </DialogTrigger>
+          {showForm && (
+            <SupplierForm
+              key={editingSupplier?.id || 'new'}
+              supplier={editingSupplier}
+              products={products}
+              onSubmit={handleFormSubmit}
+            />
+          )}
+        </Dialog>
+      </div>
+
+      {/* Suppliers Table */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Supplier
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Contact
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Lead Time
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Products
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {suppliers.map((supplier) => {
+                const preferredCount = supplier.supplier_products.filter(item => item.is_preferred).length
+
+                return (
+                  <tr key={supplier.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{supplier.name}</div>
+                      {supplier.rfc && (
+                        <div className="text-sm text-gray-500">RFC: {supplier.rfc}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      <div className="text-gray-900">{supplier.contact_name || '-'}</div>
+                      {supplier.email && <div>{supplier.email}</div>}
+                      {supplier.phone && <div>{supplier.phone}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {supplier.lead_time_days} days
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {supplier.supplier_products.length} products
+                      {preferredCount > 0 && `, preferred for ${preferredCount}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`text-xs font-semibold rounded-full px-2 py-1 ${
+                          supplier.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {supplier.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setEditingSupplier(supplier)
+                          setShowForm(true)
+                        }}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Empty State */}
+      {!isLoading && suppliers.length === 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+          <Factory className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No suppliers yet
+          </h3>
+          <p className="text-gray-600 mb-6">
+            Add a supplier with the products it sells to start ordering from it
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { createElement, type ReactElement } from 'react'
+import { renderToBuffer, type DocumentProps } from '@react-pdf/renderer'
+import QuotationPDF from '@/components/pdf/quotation-pdf'
+import OrderPDF from '@/components/pdf/order-pdf'
+import PackingListPDF from '@/components/pdf/packing-list-pdf'
+import DeliveryNotePDF from '@/components/pdf/delivery-note-pdf'
+import { createSupabaseServerClient, type TypedSupabaseClient } from '@/lib/supabase'
+import { generatePDFFileName, type PDFDocumentKind, type PDFIssuer } from '@/lib/pdf'
+import { getIssuerProfile, toPDFIssuer } from '@/lib/issuer-profile'
+import {
+  cachePDF,
+  canAccessDocument,
+  getCachedPDF,
+  getOrderPDFData,
+  getPackingListPDFData,
+  getPDFDocument,
+  getPDFKinds,
+  getPDFRevisionKey,
+  getPDFViewer,
+  getQuotationPDFData,
+  selectDelivery,
+  toDeliveryNotePDFData,
+  type PDFDeliveryRow,
+  type PDFDocumentRow
+} from '@/lib/document-pdf'
+
+export const runtime = 'nodejs'
+
+// The PDF component for a kind, with its data
+async function createPDFElement(
+  supabase: TypedSupabaseClient,
+  kind: PDFDocumentKind,
+  document: PDFDocumentRow,
+  delivery: PDFDeliveryRow | null,
+  issuer: PDFIssuer
+) {
+  switch (kind) {
+    case 'quotation':
+      return createElement(QuotationPDF, { data: { ...await getQuotationPDFData(supabase, document), issuer } })
+    case 'order':
+      return createElement(OrderPDF, { data: { ...await getOrderPDFData(supabase, document), issuer } })
+    case 'packing_list':
+      return createElement(PackingListPDF, { data: { ...await getPackingListPDFData(supabase, document, delivery), issuer } })
+    case 'delivery_note':
+      return createElement(DeliveryNotePDF, { data: { ...toDeliveryNotePDFData(document, delivery), issuer } })
+  }
+}
+
+/**
+ * Download a document as PDF
+ * ?kind= picks the PDF for orders (order, packing_list or delivery_note) and
+ * ?delivery= the delivery a packing list or delivery note is for, the latest
+ * by default. Clients can only download their own company's documents. The
+ * file is rendered once per revision, branded with the saved issuer profile;
+ * the revision is also the ETag, so a browser holding the current file gets a 304.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = createSupabaseServerClient(await cookies())
+
+  const viewer = await getPDFViewer(supabase)
+  if (!viewer) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const document = await getPDFDocument(supabase, id)
+  if (!document) {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+  }
+  if (!canAccessDocument(viewer, document)) {
+    return NextResponse.json({ error: 'Not allowed to download this document' }, { status: 403 })
+  }
+
+  const kinds = getPDFKinds(viewer, document)
+  const kind = (request.nextUrl.searchParams.get('kind') ?? kinds[0]) as PDFDocumentKind
+  if (!kinds.includes(kind)) {
+    return NextResponse.json({ error: 'This PDF is not available for this document' }, { status: 404 })
+  }
+
+  const deliveryId = request.nextUrl.searchParams.get('delivery')
+  const delivery = kind === 'packing_list' || kind === 'delivery_note' ? selectDelivery(document, deliveryId) : null
+  if (deliveryId && !delivery) {
+    return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+  }
+
+  const profile = await getIssuerProfile(supabase)
+  const revisionKey = getPDFRevisionKey(document, kind, delivery, profile?.updated_at)
+  const etag = `"${revisionKey}"`
+  const headers = {
+    'Cache-Control': 'private, no-cache',
+    ETag: etag
+  }
+
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers })
+  }
+
+  let file = getCachedPDF(revisionKey)
+  if (!file) {
+    try {
+      const element = await createPDFElement(supabase, kind, document, delivery, toPDFIssuer(profile))
+      file = new Uint8Array(await renderToBuffer(element as unknown as ReactElement<DocumentProps>))
+      cachePDF(revisionKey, file)
+    } catch (error) {
+      console.error('Error rendering PDF:', error)
+      return NextResponse.json({ error: 'Failed to render PDF' }, { status: 500 })
+    }
+  }
+
+  const fileName = generatePDFFileName(document.folio, document.companies?.name ?? '', kind)
+
+  return new NextResponse(file as BodyInit, {
+    headers: {
+      ...headers,
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': String(file.byteLength)
+    }
+  })
+}
@@ -0,0 +1,34 @@
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { getPDFViewer } from '@/lib/document-pdf'
+import { cancelInvoice } from '@/lib/invoices'
+import { getPACProvider } from '@/lib/pac'
+
+export const runtime = 'nodejs'
+
+/**
+ * Cancel an invoice; admins only
+ * The body carries the SAT reason and, for reason 01, the replacing UUID.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = createSupabaseServerClient(await cookies())
+
+  const viewer = await getPDFViewer(supabase)
+  if (!viewer) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+  if (viewer.role !== 'admin') {
+    return NextResponse.json({ error: 'Only admins can cancel invoices' }, { status: 403 })
+  }
+
+  const { reason, replacementUuid } = await request.json().catch(() => ({})) as {
+    reason?: string
+    replacementUuid?: string
+  }
+
+  const result = await cancelInvoice(supabase, id, reason ?? '', getPACProvider(), replacementUuid || undefined)
+
+  return NextResponse.json(result, { status: result.success ? 200 : 422 })
+}
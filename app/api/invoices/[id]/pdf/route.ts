@@ -0,0 +1,55 @@
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { createElement, type ReactElement } from 'react'
+import { renderToBuffer, type DocumentProps } from '@react-pdf/renderer'
+import InvoicePDF from '@/components/pdf/invoice-pdf'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { generatePDFFileName } from '@/lib/pdf'
+import { getIssuerProfile, toPDFIssuer } from '@/lib/issuer-profile'
+import { canAccessDocument, getPDFViewer } from '@/lib/document-pdf'
+import { formatInvoiceFolio, getInvoice, toInvoicePDFData } from '@/lib/invoices'
+
+export const runtime = 'nodejs'
+
+/**
+ * Download the printed representation of an invoice
+ * Clients can only download their own company's invoices, once stamped.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = createSupabaseServerClient(await cookies())
+
+  const viewer = await getPDFViewer(supabase)
+  if (!viewer) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const invoice = await getInvoice(supabase, id)
+  if (!invoice) {
+    return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+  }
+  if (!canAccessDocument(viewer, invoice)) {
+    return NextResponse.json({ error: 'Not allowed to download this invoice' }, { status: 403 })
+  }
+
+  let file: Uint8Array
+  try {
+    const profile = await getIssuerProfile(supabase)
+    const element = createElement(InvoicePDF, { data: { ...toInvoicePDFData(invoice), issuer: toPDFIssuer(profile) } })
+    file = new Uint8Array(await renderToBuffer(element as unknown as ReactElement<DocumentProps>))
+  } catch (error) {
+    console.error('Error rendering invoice PDF:', error)
+    return NextResponse.json({ error: 'Failed to render PDF' }, { status: 500 })
+  }
+
+  const fileName = generatePDFFileName(formatInvoiceFolio(invoice), invoice.companies?.name ?? '', 'invoice')
+
+  return new NextResponse(file as BodyInit, {
+    headers: {
+      'Cache-Control': 'private, no-cache',
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': String(file.byteLength)
+    }
+  })
+}
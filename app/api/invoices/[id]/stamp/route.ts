@@ -0,0 +1,29 @@
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { getPDFViewer } from '@/lib/document-pdf'
+import { stampInvoice } from '@/lib/invoices'
+import { validateCFDIXml } from '@/lib/cfdi-schema'
+import { getPACProvider } from '@/lib/pac'
+
+export const runtime = 'nodejs'
+
+/**
+ * Stamp a draft invoice with the PAC; admins only
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = createSupabaseServerClient(await cookies())
+
+  const viewer = await getPDFViewer(supabase)
+  if (!viewer) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+  if (viewer.role !== 'admin') {
+    return NextResponse.json({ error: 'Only admins can stamp invoices' }, { status: 403 })
+  }
+
+  const result = await stampInvoice(supabase, id, getPACProvider(), validateCFDIXml)
+
+  return NextResponse.json(result, { status: result.success ? 200 : 422 })
+}
@@ -0,0 +1,45 @@
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { canAccessDocument, getPDFViewer } from '@/lib/document-pdf'
+import { formatInvoiceFolio, getInvoice, getInvoiceXml } from '@/lib/invoices'
+
+export const runtime = 'nodejs'
+
+/**
+ * Download an invoice's CFDI XML
+ * Stamped invoices download as stamped; drafts, for admins only, as the
+ * unsealed XML they would be stamped with now.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = createSupabaseServerClient(await cookies())
+
+  const viewer = await getPDFViewer(supabase)
+  if (!viewer) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const invoice = await getInvoice(supabase, id)
+  if (!invoice) {
+    return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+  }
+  if (!canAccessDocument(viewer, invoice)) {
+    return NextResponse.json({ error: 'Not allowed to download this invoice' }, { status: 403 })
+  }
+
+  let xml: string
+  try {
+    xml = getInvoiceXml(invoice)
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid CFDI' }, { status: 422 })
+  }
+
+  return new NextResponse(xml, {
+    headers: {
+      'Cache-Control': 'private, no-cache',
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Content-Disposition': `attachment; filename="factura_${formatInvoiceFolio(invoice)}.xml"`
+    }
+  })
+}
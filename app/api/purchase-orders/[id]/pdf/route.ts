@@ -0,0 +1,55 @@
+import { cookies } from 'next/headers'
+import { NextResponse, type NextRequest } from 'next/server'
+import { createElement, type ReactElement } from 'react'
+import { renderToBuffer, type DocumentProps } from '@react-pdf/renderer'
+import PurchaseOrderPDF from '@/components/pdf/purchase-order-pdf'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { generatePDFFileName } from '@/lib/pdf'
+import { getIssuerProfile, toPDFIssuer } from '@/lib/issuer-profile'
+import { getPDFViewer } from '@/lib/document-pdf'
+import { getPurchaseOrder, toPurchaseOrderPDFData } from '@/lib/purchase-orders'
+
+export const runtime = 'nodejs'
+
+/**
+ * Download a purchase order to send to its supplier
+ * Purchase orders are internal, so only admins can download them.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = createSupabaseServerClient(await cookies())
+
+  const viewer = await getPDFViewer(supabase)
+  if (!viewer) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+  if (viewer.role !== 'admin') {
+    return NextResponse.json({ error: 'Not allowed to download purchase orders' }, { status: 403 })
+  }
+
+  const order = await getPurchaseOrder(supabase, id)
+  if (!order) {
+    return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+  }
+
+  let file: Uint8Array
+  try {
+    const profile = await getIssuerProfile(supabase)
+    const element = createElement(PurchaseOrderPDF, { data: { ...toPurchaseOrderPDFData(order), issuer: toPDFIssuer(profile) } })
+    file = new Uint8Array(await renderToBuffer(element as unknown as ReactElement<DocumentProps>))
+  } catch (error) {
+    console.error('Error rendering purchase order PDF:', error)
+    return NextResponse.json({ error: 'Failed to render PDF' }, { status: 500 })
+  }
+
+  const fileName = generatePDFFileName(order.folio, order.suppliers?.name ?? '', 'purchase_order')
+
+  return new NextResponse(file as BodyInit, {
+    headers: {
+      'Cache-Control': 'private, no-cache',
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': String(file.byteLength)
+    }
+  })
+}
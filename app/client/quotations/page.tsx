@@ -1,9 +1,11 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useAuthStore } from '@/lib/store'
 import { getClientQuotations, getStatusBadgeColor, getStatusLabel, canClientUpdateStatus } from '@/lib/client-quotations'
 import type { ClientQuotation } from '@/lib/client-quotations'
+import { getRevisionRootId, groupRevisionsByRoot } from '@/lib/quotations'
+import { RevisionSelector } from '@/components/quotations/revision-selector'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -29,6 +31,19 @@ export default function ClientQuotationsPage() {
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState<QuotationStatus>('all')
+  const [selectedRevisions, setSelectedRevisions] = useState<Record<string, string>>({})
+
+  // Revision chains visible to the client (drafts are still being prepared)
+  const revisionChains = useMemo(
+    () => groupRevisionsByRoot(quotations.filter(q => q.quotation_status !== 'draft')),
+    [quotations]
+  )
+
+  // One entry per chain: the newest revision the client can see
+  const currentQuotations = useMemo(
+    () => Object.values(revisionChains).map(chain => chain[0]),
+    [revisionChains]
+  )
 
   useEffect(() => {
     const loadData = async () => {
@@ -50,7 +65,7 @@ export default function ClientQuotationsPage() {
   }, [user?.id, user?.companyId])
 
   useEffect(() => {
-    let filtered = quotations
+    let filtered = currentQuotations
 
     // Filter by search term
     if (searchTerm) {
@@ -68,7 +83,7 @@ export default function ClientQuotationsPage() {
     }
 
     setFilteredQuotations(filtered)
-  }, [quotations, searchTerm, statusFilter])
+  }, [currentQuotations, searchTerm, statusFilter])
 
   const loadQuotations = async () => {
     try {
@@ -86,13 +101,13 @@ export default function ClientQuotationsPage() {
 
   const getStatusCounts = () => {
     const counts = {
-      all: quotations.length,
-      generated: quotations.filter(q => q.quotation_status === 'generated').length,
-      in_review: quotations.filter(q => q.quotation_status === 'in_review').length,
-      approved: quotations.filter(q => q.quotation_status === 'approved').length,
-      rejected: quotations.filter(q => q.quotation_status === 'rejected').length,
-      expired: quotations.filter(q => q.quotation_status === 'expired').length,
-      converted: quotations.filter(q => q.quotation_status === 'converted').length,
+      all: currentQuotations.length,
+      generated: currentQuotations.filter(q => q.quotation_status === 'generated').length,
+      in_review: currentQuotations.filter(q => q.quotation_status === 'in_review').length,
+      approved: currentQuotations.filter(q => q.quotation_status === 'approved').length,
+      rejected: currentQuotations.filter(q => q.quotation_status === 'rejected').length,
+      expired: currentQuotations.filter(q => q.quotation_status === 'expired').length,
+      converted: currentQuotations.filter(q => q.quotation_status === 'converted').length,
     }
     return counts
   }
@@ -264,8 +279,13 @@ export default function ClientQuotationsPage() {
         </Card>
       ) : (
         <div className="grid gap-4">
-          {filteredQuotations.map((quotation) => (
-            <Card key={quotation.id} className="hover:shadow-md transition-shadow">
+          {filteredQuotations.map((current) => {
+            const rootId = getRevisionRootId(current)
+            const chain = revisionChains[rootId] || [current]
+            const quotation = chain.find(q => q.id === selectedRevisions[rootId]) || current
+
+            return (
+            <Card key={rootId} className="hover:shadow-md transition-shadow">
               <CardContent className="p-6">
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
@@ -273,14 +293,26 @@ export default function ClientQuotationsPage() {
                       <h3 className="text-lg font-semibold text-gray-900">
                         {quotation.folio}
                       </h3>
+                      <RevisionSelector
+                        revisions={chain}
+                        selectedId={quotation.id}
+                        onSelect={(revisionId) => setSelectedRevisions(selected => ({ ...selected, [rootId]: revisionId }))}
+                        latestLabel="actual"
+                        ariaLabel="Revisión"
+                      />
                       <Badge className={getStatusBadgeColor(quotation.quotation_status)}>
                         {getStatusLabel(quotation.quotation_status)}
                       </Badge>
-                      {canClientUpdateStatus(quotation.quotation_status) && (
+                      {quotation.is_latest_revision && canClientUpdateStatus(quotation.quotation_status) && (
                         <Badge variant="outline" className="text-blue-600 border-blue-600">
                           Acción Requerida
                         </Badge>
                       )}
+                      {!quotation.is_latest_revision && (
+                        <Badge variant="outline" className="text-gray-600 border-gray-400">
+                          {quotation.id === current.id ? 'Nueva revisión en preparación' : 'Revisión anterior'}
+                        </Badge>
+                      )}
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
@@ -310,7 +342,7 @@ export default function ClientQuotationsPage() {
                               Total
                             </div>
                             <p className="font-bold text-green-600">
-                              {formatCurrency(quotation.total)}
+                              {formatCurrency(quotation.total, quotation.currency)}
                             </p>
                           </div>
                         </div>
@@ -336,15 +368,18 @@ export default function ClientQuotationsPage() {
                         Ver Detalles
                       </Link>
                     </Button>
-                    <Button variant="outline" size="sm">
-                      <Download className="h-4 w-4 mr-2" />
-                      Descargar PDF
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/documents/${quotation.id}/pdf`} download>
+                        <Download className="h-4 w-4 mr-2" />
+                        Descargar PDF
+                      </a>
                     </Button>
                   </div>
                 </div>
               </CardContent>
             </Card>
-          ))}
+            )
+          })}
         </div>
       )}
     </div>
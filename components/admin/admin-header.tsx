@@ -25,7 +25,9 @@ const breadcrumbMap: Record<string, string[]> = {
   '/admin/orders': ['Orders'],
   '/admin/clients': ['Clients'],
   '/admin/products': ['Products'],
+  '/admin/price-lists': ['Price Lists'],
   '/admin/deliveries': ['Deliveries'],
+  '/admin/exchange-rates': ['Exchange Rates'],
   '/admin/reports': ['Reports'],
   '/admin/settings': ['Settings'],
 }
@@ -13,6 +13,13 @@ import {
   Settings,
   Truck,
   ClipboardList,
+  DollarSign,
+  Tags,
+  Receipt,
+  Warehouse,
+  Factory,
+  PackagePlus,
+  PackageSearch,
   ChevronLeft,
   ChevronRight
 } from 'lucide-react'
@@ -39,6 +46,13 @@ const navigation = [
     description: 'Order management',
     disabled: false
   },
+  {
+    name: 'Invoices',
+    href: '/admin/invoices',
+    icon: Receipt,
+    description: 'CFDI invoicing',
+    disabled: false
+  },
   {
     name: 'Clients',
     href: '/admin/clients',
@@ -53,6 +67,41 @@ const navigation = [
     description: 'Product catalog',
     disabled: false
   },
+  {
+    name: 'Inventory',
+    href: '/admin/inventory',
+    icon: Warehouse,
+    description: 'Stock movements',
+    disabled: false
+  },
+  {
+    name: 'Suppliers',
+    href: '/admin/suppliers',
+    icon: Factory,
+    description: 'Suppliers and costs',
+    disabled: false
+  },
+  {
+    name: 'Purchase Orders',
+    href: '/admin/purchase-orders',
+    icon: PackagePlus,
+    description: 'Buying and receiving',
+    disabled: false
+  },
+  {
+    name: 'Replenishment',
+    href: '/admin/replenishment',
+    icon: PackageSearch,
+    description: 'What to reorder',
+    disabled: false
+  },
+  {
+    name: 'Price Lists',
+    href: '/admin/price-lists',
+    icon: Tags,
+    description: 'Client pricing',
+    disabled: false
+  },
   {
     name: 'Deliveries',
     href: '/admin/deliveries',
@@ -60,6 +109,13 @@ const navigation = [
     description: 'Delivery tracking',
     disabled: false
   },
+  {
+    name: 'Exchange Rates',
+    href: '/admin/exchange-rates',
+    icon: DollarSign,
+    description: 'USD rates',
+    disabled: false
+  },
   {
     name: 'Reports',
     href: '/admin/reports',
@@ -71,8 +127,8 @@ const navigation = [
     name: 'Settings',
     href: '/admin/settings',
     icon: Settings,
-    description: 'Coming soon',
-    disabled: true
+    description: 'Issuer and branding',
+    disabled: false
   },
 ]
 
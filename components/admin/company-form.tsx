@@ -1,11 +1,15 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { createClient } from '@/lib/supabase'
 import { useAuthStore, useNotificationStore } from '@/lib/store'
 import { companySchema, CompanyFormData, defaultCompanyValues, formatCompanyDataForDatabase } from '@/lib/schemas/company'
+import { getCompanyWithholdings, getTaxes, updateCompanyWithholdings } from '@/lib/taxes'
+import { getCompanyPriceLists, getPriceLists, updateCompanyPriceLists, type PriceList } from '@/lib/price-lists'
+import type { TaxConfiguration } from '@/lib/calculations'
+import { CFDI_USES, FISCAL_REGIMES } from '@/lib/sat-catalogs'
 import { Loader2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -31,6 +35,8 @@ interface Company {
   email: string | null
   website: string | null
   logo_url: string | null
+  fiscal_regime: string | null
+  cfdi_use: string
   status: 'active' | 'inactive' | 'pending'
 }
 
@@ -41,6 +47,10 @@ interface CompanyFormProps {
 
 export function CompanyForm({ company, onSubmit }: CompanyFormProps) {
   const [isLoading, setIsLoading] = useState(false)
+  const [withholdingTaxes, setWithholdingTaxes] = useState<TaxConfiguration[]>([])
+  const [selectedWithholdings, setSelectedWithholdings] = useState<string[]>([])
+  const [priceLists, setPriceLists] = useState<PriceList[]>([])
+  const [selectedPriceLists, setSelectedPriceLists] = useState<string[]>([])
   const { user } = useAuthStore()
   const { addNotification } = useNotificationStore()
   const supabase = createClient()
@@ -63,11 +73,34 @@ export function CompanyForm({ company, onSubmit }: CompanyFormProps) {
           phone: company.phone || '',
           email: company.email || '',
           website: company.website || '',
+          fiscal_regime: company.fiscal_regime || '',
+          cfdi_use: company.cfdi_use || 'G03',
           status: company.status,
         }
       : defaultCompanyValues,
   })
 
+  useEffect(() => {
+    const loadWithholdings = async () => {
+      setWithholdingTaxes(await getTaxes('withheld'))
+      if (company) {
+        const current = await getCompanyWithholdings(company.id)
+        setSelectedWithholdings(current.map((tax) => tax.id))
+      }
+    }
+
+    const loadPriceLists = async () => {
+      setPriceLists(await getPriceLists())
+      if (company) {
+        const current = await getCompanyPriceLists(company.id)
+        setSelectedPriceLists(current.map((list) => list.id))
+      }
+    }
+
+    loadWithholdings()
+    loadPriceLists()
+  }, [company])
+
   const onFormSubmit = async (data: CompanyFormData) => {
     setIsLoading(true)
 
@@ -83,6 +116,12 @@ export function CompanyForm({ company, onSubmit }: CompanyFormProps) {
 
         if (error) throw error
 
+        const withholdingResult = await updateCompanyWithholdings(company.id, selectedWithholdings)
+        if (!withholdingResult.success) throw new Error(withholdingResult.message)
+
+        const priceListResult = await updateCompanyPriceLists(company.id, selectedPriceLists)
+        if (!priceListResult.success) throw new Error(priceListResult.message)
+
         addNotification({
           type: 'success',
           title: 'Company Updated',
@@ -90,12 +129,20 @@ export function CompanyForm({ company, onSubmit }: CompanyFormProps) {
         })
       } else {
         // Create new company
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('companies')
           .insert([companyData])
+          .select('id')
+          .single()
 
         if (error) throw error
 
+        const withholdingResult = await updateCompanyWithholdings(created.id, selectedWithholdings)
+        if (!withholdingResult.success) throw new Error(withholdingResult.message)
+
+        const priceListResult = await updateCompanyPriceLists(created.id, selectedPriceLists)
+        if (!priceListResult.success) throw new Error(priceListResult.message)
+
         addNotification({
           type: 'success',
           title: 'Company Created',
@@ -295,6 +342,106 @@ export function CompanyForm({ company, onSubmit }: CompanyFormProps) {
               </div>
             </div>
 
+            {/* Tax Information */}
+            <div className="space-y-4 border-t pt-6">
+              <h3 className="text-lg font-medium text-gray-900">Tax Information</h3>
+              <p className="text-sm text-gray-500">
+                As on the client&apos;s constancia de situación fiscal; invoices use the postal code above as the fiscal address
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="fiscal_regime">Fiscal Regime</Label>
+                  <select
+                    id="fiscal_regime"
+                    {...register('fiscal_regime')}
+                    className="w-full h-12 px-4 py-3 border-2 border-hoja-verde-200 rounded-lg focus:outline-none focus:ring-4 focus:ring-hoja-verde-100 focus:border-hoja-verde-500 bg-white hover:border-hoja-verde-300 transition-all font-medium"
+                  >
+                    <option value="">Select a regime</option>
+                    {Object.entries(FISCAL_REGIMES).map(([code, name]) => (
+                      <option key={code} value={code}>{code} - {name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="cfdi_use">CFDI Use</Label>
+                  <select
+                    id="cfdi_use"
+                    {...register('cfdi_use')}
+                    className="w-full h-12 px-4 py-3 border-2 border-hoja-verde-200 rounded-lg focus:outline-none focus:ring-4 focus:ring-hoja-verde-100 focus:border-hoja-verde-500 bg-white hover:border-hoja-verde-300 transition-all font-medium"
+                  >
+                    {Object.entries(CFDI_USES).map(([code, name]) => (
+                      <option key={code} value={code}>{code} - {name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+
+            {/* Tax Withholdings */}
+            {withholdingTaxes.length > 0 && (
+              <div className="space-y-4 border-t pt-6">
+                <h3 className="text-lg font-medium text-gray-900">Tax Withholdings</h3>
+                <p className="text-sm text-gray-500">
+                  Retentions this client applies to every quotation
+                </p>
+
+                <div className="flex flex-wrap gap-4">
+                  {withholdingTaxes.map((tax) => (
+                    <label key={tax.id} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedWithholdings.includes(tax.id)}
+                        onChange={(e) =>
+                          setSelectedWithholdings((current) =>
+                            e.target.checked
+                              ? [...current, tax.id]
+                              : current.filter((taxId) => taxId !== tax.id)
+                          )
+                        }
+                        className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                      />
+                      <span className="text-sm text-gray-700">{tax.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Price Lists */}
+            {priceLists.length > 0 && (
+              <div className="space-y-4 border-t pt-6">
+                <h3 className="text-lg font-medium text-gray-900">Price Lists</h3>
+                <p className="text-sm text-gray-500">
+                  Negotiated prices for this client; quotations use the lowest applicable price
+                </p>
+
+                <div className="flex flex-wrap gap-4">
+                  {priceLists.map((list) => (
+                    <label key={list.id} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedPriceLists.includes(list.id)}
+                        onChange={(e) =>
+                          setSelectedPriceLists((current) =>
+                            e.target.checked
+                              ? [...current, list.id]
+                              : current.filter((listId) => listId !== list.id)
+                          )
+                        }
+                        className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                      />
+                      <span className="text-sm text-gray-700">
+                        {list.name}
+                        {!list.is_active && ' (inactive)'}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
       </form>
       
       <DialogFooter className="border-t border-hoja-verde-100 pt-6 space-x-3">
@@ -0,0 +1,157 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatCurrency } from '@/lib/utils'
+import { getMarginReport, type MarginGrouping, type MarginReport, type MarginSummary } from '@/lib/margins'
+
+interface MarginBreakdownProps {
+  timeRange: string
+}
+
+const GROUPINGS: Array<{ value: MarginGrouping; label: string; column: string; empty: string }> = [
+  { value: 'order', label: 'Pedido', column: 'Pedido', empty: '-' },
+  { value: 'client', label: 'Cliente', column: 'Cliente', empty: 'Sin cliente' },
+  { value: 'category', label: 'Categoría', column: 'Categoría', empty: 'Sin categoría' }
+]
+
+const ROWS_SHOWN = 10
+
+const GROUP_ROWS: Record<MarginGrouping, keyof Omit<MarginReport, 'total'>> = {
+  order: 'byOrder',
+  client: 'byClient',
+  category: 'byCategory'
+}
+
+function formatMargin(summary: MarginSummary): string {
+  return `${(summary.margin * 100).toFixed(1)}%`
+}
+
+export function MarginBreakdown({ timeRange }: MarginBreakdownProps) {
+  const [report, setReport] = useState<MarginReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [grouping, setGrouping] = useState<MarginGrouping>('client')
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+
+    getMarginReport(parseInt(timeRange)).then((result) => {
+      if (cancelled) return
+      setReport(result)
+      setIsLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [timeRange])
+
+  if (isLoading && !report) {
+    return (
+      <div className="h-64 flex items-center justify-center">
+        <div className="animate-pulse space-y-2 w-full">
+          <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!report || report.total.orders === 0) {
+    return (
+      <div className="h-32 flex items-center justify-center text-gray-500">
+        Sin pedidos enviados o entregados en este período
+      </div>
+    )
+  }
+
+  const current = GROUPINGS.find(option => option.value === grouping) ?? GROUPINGS[0]
+  const rows = report[GROUP_ROWS[grouping]].slice(0, ROWS_SHOWN)
+
+  return (
+    <div className="space-y-6">
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <p className="text-sm text-gray-500">Ingresos</p>
+          <p className="text-xl font-semibold text-gray-900">{formatCurrency(report.total.revenue)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">Costo</p>
+          <p className="text-xl font-semibold text-gray-900">{formatCurrency(report.total.cost)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">Utilidad Bruta</p>
+          <p className={`text-xl font-semibold ${report.total.gross_profit < 0 ? 'text-red-600' : 'text-emerald-700'}`}>
+            {formatCurrency(report.total.gross_profit)}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">Margen</p>
+          <p className="text-xl font-semibold text-gray-900">{formatMargin(report.total)}</p>
+        </div>
+      </div>
+
+      {report.total.uncosted_lines > 0 && (
+        <p className="text-sm text-amber-700">
+          {report.total.uncosted_lines} partidas sin costo registrado no se incluyen
+        </p>
+      )}
+
+      {/* Breakdown */}
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          {GROUPINGS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setGrouping(option.value)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg border ${
+                grouping === option.value
+                  ? 'bg-emerald-50 border-emerald-300 text-emerald-700'
+                  : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              Por {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {current.column}
+                </th>
+                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ingresos</th>
+                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Costo</th>
+                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Utilidad</th>
+                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Margen</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((row) => (
+                <tr key={row.key}>
+                  <td className="py-2 text-sm text-gray-900">
+                    {row.label ?? current.empty}
+                    {grouping !== 'order' && (
+                      <span className="ml-2 text-xs text-gray-400">{row.orders} pedidos</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-sm text-right text-gray-900">{formatCurrency(row.revenue)}</td>
+                  <td className="py-2 text-sm text-right text-gray-500">{formatCurrency(row.cost)}</td>
+                  <td className={`py-2 text-sm text-right ${row.gross_profit < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {formatCurrency(row.gross_profit)}
+                  </td>
+                  <td className="py-2 text-sm text-right font-medium text-gray-900">{formatMargin(row)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
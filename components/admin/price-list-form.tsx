@@ -0,0 +1,258 @@
+'use client'
+
+import { useState } from 'react'
+import { useNotificationStore } from '@/lib/store'
+import { savePriceList, type PriceList, type PriceListItem } from '@/lib/price-lists'
+import { Loader2, Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+
+interface ProductOption {
+  id: string
+  code: string
+  name: string
+}
+
+interface CategoryOption {
+  id: string
+  name: string
+}
+
+interface PriceListFormProps {
+  priceList?: PriceList | null
+  products: ProductOption[]
+  categories: CategoryOption[]
+  onSubmit: () => void
+}
+
+type EntryKind = 'product' | 'category'
+
+interface Entry {
+  key: string
+  kind: EntryKind
+  target_id: string
+  value: string // Price in MXN, or markup in percent
+}
+
+function toEntry(item: PriceListItem): Entry {
+  return item.product_id
+    ? { key: item.id || item.product_id, kind: 'product', target_id: item.product_id, value: String(item.price ?? '') }
+    : {
+        key: item.id || item.category_id || '',
+        kind: 'category',
+        target_id: item.category_id || '',
+        value: item.markup != null ? String(parseFloat((item.markup * 100).toFixed(4))) : ''
+      }
+}
+
+function toItem(entry: Entry): PriceListItem {
+  const value = entry.value === '' ? null : parseFloat(entry.value)
+  return entry.kind === 'product'
+    ? { product_id: entry.target_id || null, category_id: null, price: value, markup: null }
+    : { product_id: null, category_id: entry.target_id || null, price: null, markup: value === null ? null : value / 100 }
+}
+
+export function PriceListForm({ priceList, products, categories, onSubmit }: PriceListFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [name, setName] = useState(priceList?.name || '')
+  const [description, setDescription] = useState(priceList?.description || '')
+  const [validFrom, setValidFrom] = useState(priceList?.valid_from || '')
+  const [validUntil, setValidUntil] = useState(priceList?.valid_until || '')
+  const [isActive, setIsActive] = useState(priceList?.is_active ?? true)
+  const [entries, setEntries] = useState<Entry[]>((priceList?.price_list_items || []).map(toEntry))
+  const { addNotification } = useNotificationStore()
+
+  const addEntry = (kind: EntryKind) => {
+    setEntries(current => [...current, { key: Math.random().toString(36).substr(2, 9), kind, target_id: '', value: '' }])
+  }
+
+  const updateEntry = (key: string, changes: Partial<Entry>) => {
+    setEntries(current => current.map(entry => (entry.key === key ? { ...entry, ...changes } : entry)))
+  }
+
+  const removeEntry = (key: string) => {
+    setEntries(current => current.filter(entry => entry.key !== key))
+  }
+
+  const onFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    const result = await savePriceList(
+      {
+        name,
+        description: description || null,
+        valid_from: validFrom || null,
+        valid_until: validUntil || null,
+        is_active: isActive,
+        price_list_items: entries.map(toItem)
+      },
+      priceList?.id
+    )
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? (priceList ? 'Price List Updated' : 'Price List Created') : 'Error',
+      message: result.message
+    })
+
+    setIsLoading(false)
+    if (result.success) {
+      onSubmit()
+    }
+  }
+
+  return (
+    <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>
+          {priceList ? 'Edit Price List' : 'Add New Price List'}
+        </DialogTitle>
+      </DialogHeader>
+
+      <form id="price-list-form" onSubmit={onFormSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="name">Name *</Label>
+            <Input
+              id="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Hotel Riviera 2026"
+            />
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="description">Description</Label>
+            <Input
+              id="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="valid_from">Valid From</Label>
+            <Input
+              id="valid_from"
+              type="date"
+              value={validFrom}
+              onChange={(e) => setValidFrom(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="valid_until">Valid Until</Label>
+            <Input
+              id="valid_until"
+              type="date"
+              value={validUntil}
+              onChange={(e) => setValidUntil(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="space-y-4 border-t pt-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Prices</h3>
+              <p className="text-sm text-gray-500">
+                Product prices are in MXN on the product&apos;s own tax basis; category markups apply over cost
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => addEntry('product')}>
+                <Plus className="w-4 h-4 mr-1" />
+                Product
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => addEntry('category')}>
+                <Plus className="w-4 h-4 mr-1" />
+                Category
+              </Button>
+            </div>
+          </div>
+
+          {entries.map((entry) => (
+            <div key={entry.key} className="flex items-center space-x-2">
+              <select
+                value={entry.target_id}
+                onChange={(e) => updateEntry(entry.key, { target_id: e.target.value })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                <option value="">{entry.kind === 'product' ? 'Select a product' : 'Select a category'}</option>
+                {entry.kind === 'product'
+                  ? products.map((product) => (
+                      <option key={product.id} value={product.id}>
+                        {product.code} - {product.name}
+                      </option>
+                    ))
+                  : categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+              </select>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={entry.value}
+                onChange={(e) => updateEntry(entry.key, { value: e.target.value })}
+                placeholder={entry.kind === 'product' ? 'Price' : 'Markup %'}
+                className="w-32"
+              />
+              <span className="w-20 text-sm text-gray-500">
+                {entry.kind === 'product' ? 'MXN' : '% on cost'}
+              </span>
+              <Button type="button" variant="outline" size="sm" onClick={() => removeEntry(entry.key)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          {entries.length === 0 && (
+            <p className="text-sm text-gray-400">No prices yet</p>
+          )}
+        </div>
+
+        {/* Status */}
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="is_active"
+            checked={isActive}
+            onChange={(e) => setIsActive(e.target.checked)}
+            className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+          />
+          <Label htmlFor="is_active">Price list is active</Label>
+        </div>
+      </form>
+
+      <DialogFooter>
+        <Button
+          type="submit"
+          form="price-list-form"
+          disabled={isLoading}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            priceList ? 'Update Price List' : 'Create Price List'
+          )}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  )
+}
@@ -1,12 +1,50 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { createClient } from '@/lib/supabase'
 import { useAuthStore, useNotificationStore } from '@/lib/store'
-import { Loader2 } from 'lucide-react'
+import { updateProductTaxes } from '@/lib/taxes'
+import {
+  calculateBasePrice,
+  calculatePublicPrice,
+  calculateNetPrice,
+  validatePriceTiers,
+  type PriceTier
+} from '@/lib/calculations'
+import { getProductPriceTiers, updateProductPriceTiers } from '@/lib/price-lists'
+import {
+  BUNDLE_PRICING_OPTIONS,
+  calculateBundlePrice,
+  getBundleItems,
+  updateBundleItems,
+  validateBundleItems,
+  type BundleComponentProduct,
+  type BundleItem,
+  type BundlePricing
+} from '@/lib/bundles'
+import {
+  UNITS,
+  formatUnitConversion,
+  getProductUnits,
+  updateProductUnits,
+  validateProductUnits,
+  type ProductUnit
+} from '@/lib/units'
+import {
+  GENERIC_PRODUCT_KEY,
+  MEASURE_UNITS,
+  PRODUCT_KEYS,
+  UNIT_KEYS,
+  isProductKey,
+  isUnitKey,
+  searchSATCatalog
+} from '@/lib/sat-catalogs'
+import { recordMovement } from '@/lib/inventory'
+import { formatCurrency } from '@/lib/utils'
+import { Loader2, Plus, X } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -29,6 +67,11 @@ const productSchema = z.object({
   tax_included: z.boolean().default(false),
   stock_quantity: z.number().int().min(0, 'Stock quantity must be positive'),
   min_stock_level: z.number().int().min(0, 'Minimum stock level must be positive'),
+  bin_location: z.string().optional(),
+  sat_product_key: z.string().optional().refine(key => !key || isProductKey(key), 'SAT product key must have 8 digits'),
+  sat_unit_key: z.string().optional().refine(key => !key || isUnitKey(key), 'SAT unit key must be up to 3 letters or digits'),
+  is_bundle: z.boolean().default(false),
+  bundle_pricing: z.enum(['fixed', 'sum']).default('fixed'),
   is_active: z.boolean().default(true)
 })
 
@@ -49,6 +92,11 @@ interface Product {
   tax_included: boolean
   stock_quantity: number
   min_stock_level: number
+  bin_location: string | null
+  sat_product_key: string | null
+  sat_unit_key: string | null
+  is_bundle: boolean
+  bundle_pricing: BundlePricing
   is_active: boolean
 }
 
@@ -56,6 +104,8 @@ interface Category {
   id: string
   name: string
   description: string | null
+  sat_product_key?: string | null
+  sat_unit_key?: string | null
 }
 
 interface Tax {
@@ -65,6 +115,11 @@ interface Tax {
   rate?: number
   amount?: number
   is_default: boolean
+  is_active: boolean
+  code: 'IVA' | 'IEPS' | 'ISR'
+  kind: 'transferred' | 'withheld'
+  apply_order?: number
+  is_compound?: boolean
 }
 
 interface ProductFormProps {
@@ -77,6 +132,11 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
   const [isLoading, setIsLoading] = useState(false)
   const [taxes, setTaxes] = useState<Tax[]>([])
   const [selectedTax, setSelectedTax] = useState<string>('')
+  const [additionalTaxes, setAdditionalTaxes] = useState<string[]>([])
+  const [priceTiers, setPriceTiers] = useState<PriceTier[]>([])
+  const [bundleItems, setBundleItems] = useState<BundleItem[]>([])
+  const [productUnits, setProductUnits] = useState<ProductUnit[]>([])
+  const [componentProducts, setComponentProducts] = useState<BundleComponentProduct[]>([])
   const { user } = useAuthStore()
   const { addNotification } = useNotificationStore()
   const supabase = createClient()
@@ -102,6 +162,11 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
           tax_included: product.tax_included,
           stock_quantity: product.stock_quantity,
           min_stock_level: product.min_stock_level,
+          bin_location: product.bin_location || '',
+          sat_product_key: product.sat_product_key || '',
+          sat_unit_key: product.sat_unit_key || '',
+          is_bundle: product.is_bundle,
+          bundle_pricing: product.bundle_pricing,
           is_active: product.is_active,
         }
       : {
@@ -116,12 +181,24 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
           tax_included: false,
           stock_quantity: 0,
           min_stock_level: 0,
+          bin_location: '',
+          sat_product_key: '',
+          sat_unit_key: '',
+          is_bundle: false,
+          bundle_pricing: 'fixed',
           is_active: true,
         },
   })
 
   const costPrice = watch('cost_price')
   const profitMargin = watch('profit_margin')
+  const taxIncluded = watch('tax_included')
+  const isBundle = watch('is_bundle')
+  const baseUnit = watch('unit')
+  const bundlePricing = watch('bundle_pricing')
+  const categoryId = watch('category_id')
+  const satProductKey = String(watch('sat_product_key') || '')
+  const satUnitKey = String(watch('sat_unit_key') || '')
   // Removed unused variable
 
   /**
@@ -135,6 +212,7 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
         .from('taxes')
         .select('*')
         .eq('is_active', true)
+        .eq('kind', 'transferred')
         .order('is_default', { ascending: false })
 
       if (error) throw error
@@ -144,6 +222,18 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
       // Set default tax if editing product with tax or if default tax exists
       if (product?.tax_id) {
         setSelectedTax(product.tax_id)
+
+        // Taxes stacked on the primary one, e.g. IEPS on alcoholic beverages
+        const { data: productTaxes } = await supabase
+          .from('product_taxes')
+          .select('tax_id')
+          .eq('product_id', product.id)
+
+        setAdditionalTaxes(
+          (productTaxes || [])
+            .map(row => row.tax_id)
+            .filter(taxId => taxId !== product.tax_id)
+        )
       } else {
         const defaultTax = data?.find(tax => tax.is_default)
         if (defaultTax) {
@@ -153,46 +243,172 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
     } catch (error) {
       console.error('Error fetching taxes:', error)
     }
-  }, [supabase, product?.tax_id])
+  }, [supabase, product?.id, product?.tax_id])
 
   useEffect(() => {
     fetchTaxes()
   }, [fetchTaxes])
 
+  useEffect(() => {
+    if (product?.id) {
+      getProductPriceTiers(product.id).then(setPriceTiers)
+      getBundleItems(product.id).then(setBundleItems)
+      getProductUnits(product.id).then(setProductUnits)
+    }
+  }, [product?.id])
+
+  // Products a bundle can be made of; bundles do not nest
+  useEffect(() => {
+    if (!isBundle || componentProducts.length > 0) return
+
+    supabase
+      .from('products')
+      .select('id, code, name, unit, base_price, is_bundle')
+      .eq('is_active', true)
+      .eq('is_bundle', false)
+      .order('name')
+      .then(({ data }) => setComponentProducts(data || []))
+  }, [isBundle, componentProducts.length, supabase])
+
+  const updateProductUnit = (index: number, changes: Partial<ProductUnit>) => {
+    setProductUnits(current => current.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+  }
+
+  const updateBundleItem = (index: number, changes: Partial<BundleItem>) => {
+    setBundleItems(current => current.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+  }
+
+  const updatePriceTier = (index: number, changes: Partial<PriceTier>) => {
+    setPriceTiers(current => current.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)))
+  }
+
+  // Catalog entries matching what is typed, offered as the field's suggestions
+  const productKeyOptions = useMemo(() => searchSATCatalog(PRODUCT_KEYS, satProductKey, 20), [satProductKey])
+  const unitKeyOptions = useMemo(() => searchSATCatalog(MEASURE_UNITS, satUnitKey, 20), [satUnitKey])
+
   /**
-   * Auto-calculate public price when cost price or profit margin changes
-   * Business Rule: publicPrice = costPrice * (1 + profitMargin)
-   * Example: $100 cost + 25% margin = $125 public price
-   * Rounds to 2 decimal places for currency precision
+   * What each SAT key field shows under it: the description of the key
+   * entered, or the key the product is invoiced with while it has none
+   */
+  const category = categories.find((item) => item.id === categoryId)
+  const productKeyHint = satProductKey
+    ? PRODUCT_KEYS[satProductKey] ?? 'Not in the bundled catalog, check it with the SAT'
+    : category?.sat_product_key
+      ? `${category.name} default: ${category.sat_product_key} ${PRODUCT_KEYS[category.sat_product_key] ?? ''}`
+      : `Invoiced as ${GENERIC_PRODUCT_KEY} (${PRODUCT_KEYS[GENERIC_PRODUCT_KEY]}) until set`
+  const unitKeyHint = satUnitKey
+    ? MEASURE_UNITS[satUnitKey] ?? 'Not in the bundled catalog, check it with the SAT'
+    : category?.sat_unit_key
+      ? `${category.name} default: ${category.sat_unit_key} ${MEASURE_UNITS[category.sat_unit_key] ?? ''}`
+      : UNIT_KEYS[baseUnit]
+        ? `${UNIT_KEYS[baseUnit].key} (${UNIT_KEYS[baseUnit].name}) for ${baseUnit}`
+        : `No key for ${baseUnit}, set one to invoice it`
+
+  // Every transferred tax charged on the product, primary one included
+  const productTaxes = useMemo(
+    () => taxes.filter((tax) => tax.id === selectedTax || additionalTaxes.includes(tax.id)),
+    [taxes, selectedTax, additionalTaxes]
+  )
+
+  /**
+   * Auto-calculate public price when cost price, profit margin or taxes change
+   * Business Rule: basePrice = costPrice * (1 + profitMargin), and the public
+   * price adds the product's taxes only when tax is included in the price
+   * Example: $100 cost + 25% margin = $125, or $145 with 16% IVA included
    */
   useEffect(() => {
-    if (costPrice && profitMargin) {
-      const basePrice = costPrice * (1 + profitMargin)
-      setValue('public_price', Math.round(basePrice * 100) / 100)
+    if (costPrice && profitMargin && !(isBundle && bundlePricing === 'sum')) {
+      const basePrice = calculateBasePrice(costPrice, profitMargin)
+      setValue('public_price', calculatePublicPrice(basePrice, productTaxes, Boolean(taxIncluded)))
     }
-  }, [costPrice, profitMargin, setValue])
+  }, [costPrice, profitMargin, taxIncluded, productTaxes, isBundle, bundlePricing, setValue])
+
+  /**
+   * A bundle priced as the sum of its components follows their prices
+   */
+  useEffect(() => {
+    if (isBundle && bundlePricing === 'sum' && componentProducts.length > 0) {
+      setValue(
+        'public_price',
+        calculateBundlePrice('sum', 0, bundleItems, componentProducts, productTaxes, Boolean(taxIncluded))
+      )
+    }
+  }, [isBundle, bundlePricing, bundleItems, componentProducts, productTaxes, taxIncluded, setValue])
 
   /**
    * Handle form submission for creating or updating products
-   * Calculates base price using the same business rule as the auto-calculation
+   * Derives the net base price from the public price, backing the taxes out
+   * of tax-included prices with the same engine the quotation builder uses
    * Handles both create and update operations based on presence of existing product
    * 
    * @param data - Validated form data from react-hook-form
    */
   const onFormSubmit = async (data: ProductFormData) => {
+    const tierErrors = validatePriceTiers(data.public_price, priceTiers)
+    if (tierErrors.length > 0) {
+      addNotification({
+        type: 'error',
+        title: 'Invalid Volume Pricing',
+        message: tierErrors.join('; '),
+      })
+      return
+    }
+
+    const unitErrors = validateProductUnits(data.unit, productUnits)
+    if (unitErrors.length > 0) {
+      addNotification({
+        type: 'error',
+        title: 'Invalid Selling Units',
+        message: unitErrors.join('; '),
+      })
+      return
+    }
+
+    const bundleErrors = data.is_bundle
+      ? validateBundleItems(product?.id ?? null, bundleItems, componentProducts)
+      : []
+    if (bundleErrors.length > 0) {
+      addNotification({
+        type: 'error',
+        title: 'Invalid Bundle',
+        message: bundleErrors.join('; '),
+      })
+      return
+    }
+
+    // The ledger needs someone to record the count against; without a
+    // session the product would save with its stock unrecorded
+    if (data.stock_quantity !== (product?.stock_quantity ?? 0) && !user) {
+      addNotification({
+        type: 'error',
+        title: 'Stock Not Recorded',
+        message: 'Your session has expired. Sign in again to change the stock on hand.',
+      })
+      return
+    }
+
     setIsLoading(true)
 
     try {
-      // Calculate base price using business rule: basePrice = costPrice * (1 + profitMargin)
-      const basePrice = data.cost_price * (1 + data.profit_margin)
+      // Net price behind the public price; equals costPrice * (1 + profitMargin) unless overridden
+      const basePrice = calculateNetPrice(data.public_price, productTaxes, data.tax_included)
+
+      // Stock is kept by the inventory ledger; a different count is
+      // recorded as an adjustment instead of written to the product
+      const { stock_quantity: stockQuantity, ...fields } = data
 
       const productData = {
-        ...data,
+        ...fields,
+        bin_location: data.bin_location?.trim() || null,
+        sat_product_key: data.sat_product_key || null,
+        sat_unit_key: data.sat_unit_key || null,
         base_price: basePrice,
         tax_id: selectedTax || null,
         created_by: user?.id,
       }
 
+      const taxIds = [selectedTax, ...additionalTaxes.filter(taxId => taxId !== selectedTax)].filter(Boolean)
+
       if (product) {
         // Update existing product
         const { error } = await supabase
@@ -202,6 +418,28 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
 
         if (error) throw error
 
+        const taxResult = await updateProductTaxes(product.id, taxIds)
+        if (!taxResult.success) throw new Error(taxResult.message)
+
+        const tierResult = await updateProductPriceTiers(product.id, data.public_price, priceTiers)
+        if (!tierResult.success) throw new Error(tierResult.message)
+
+        const unitResult = await updateProductUnits(product.id, data.unit, productUnits)
+        if (!unitResult.success) throw new Error(unitResult.message)
+
+        const bundleResult = await updateBundleItems(product.id, data.is_bundle ? bundleItems : [])
+        if (!bundleResult.success) throw new Error(bundleResult.message)
+
+        if (stockQuantity !== product.stock_quantity && user) {
+          const stockResult = await recordMovement({
+            productId: product.id,
+            type: 'adjustment',
+            quantity: stockQuantity - product.stock_quantity,
+            notes: 'Stock count',
+          }, user.id)
+          if (!stockResult.success) throw new Error(stockResult.message)
+        }
+
         addNotification({
           type: 'success',
           title: 'Product Updated',
@@ -209,12 +447,39 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
         })
       } else {
         // Create new product
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('products')
           .insert([productData])
+          .select('id')
+          .single()
 
         if (error) throw error
 
+        const taxResult = await updateProductTaxes(created.id, taxIds)
+        if (!taxResult.success) throw new Error(taxResult.message)
+
+        const tierResult = await updateProductPriceTiers(created.id, data.public_price, priceTiers)
+        if (!tierResult.success) throw new Error(tierResult.message)
+
+        const unitResult = await updateProductUnits(created.id, data.unit, productUnits)
+        if (!unitResult.success) throw new Error(unitResult.message)
+
+        if (data.is_bundle) {
+          const bundleResult = await updateBundleItems(created.id, bundleItems)
+          if (!bundleResult.success) throw new Error(bundleResult.message)
+        }
+
+        if (stockQuantity !== 0 && user) {
+          const stockResult = await recordMovement({
+            productId: created.id,
+            type: 'adjustment',
+            quantity: stockQuantity,
+            reference: 'OPENING',
+            notes: 'Opening balance',
+          }, user.id)
+          if (!stockResult.success) throw new Error(stockResult.message)
+        }
+
         addNotification({
           type: 'success',
           title: 'Product Created',
@@ -276,14 +541,12 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
                   {...register('unit')}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                 >
-                  <option value="PIEZA">PIEZA</option>
-                  <option value="KG">KG</option>
-                  <option value="LITRO">LITRO</option>
-                  <option value="METRO">METRO</option>
-                  <option value="CAJA">CAJA</option>
-                  <option value="PAQUETE">PAQUETE</option>
-                  <option value="LATA">LATA</option>
-                  <option value="BOTELLA">BOTELLA</option>
+                  {product && !UNITS.includes(product.unit) && (
+                    <option value={product.unit}>{product.unit}</option>
+                  )}
+                  {UNITS.map((unit) => (
+                    <option key={unit} value={unit}>{unit}</option>
+                  ))}
                 </select>
                 {errors.unit && (
                   <p className="text-sm text-red-600">{errors.unit.message}</p>
@@ -331,6 +594,51 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
               </select>
             </div>
 
+            {/* SAT Keys */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sat_product_key">SAT Product Key</Label>
+                <Input
+                  id="sat_product_key"
+                  list="sat-product-keys"
+                  autoComplete="off"
+                  {...register('sat_product_key', { setValueAs: (value: string) => value.trim() })}
+                  placeholder="Key or description, e.g. jabones"
+                  className={errors.sat_product_key ? 'border-red-300' : ''}
+                />
+                <datalist id="sat-product-keys">
+                  {productKeyOptions.map((entry) => (
+                    <option key={entry.key} value={entry.key}>{entry.description}</option>
+                  ))}
+                </datalist>
+                {errors.sat_product_key && (
+                  <p className="text-sm text-red-600">{errors.sat_product_key.message}</p>
+                )}
+                <p className="text-xs text-gray-500">{productKeyHint}</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sat_unit_key">SAT Unit Key</Label>
+                <Input
+                  id="sat_unit_key"
+                  list="sat-unit-keys"
+                  autoComplete="off"
+                  {...register('sat_unit_key', { setValueAs: (value: string) => value.trim().toUpperCase() })}
+                  placeholder="Key or name, e.g. H87"
+                  className={errors.sat_unit_key ? 'border-red-300' : ''}
+                />
+                <datalist id="sat-unit-keys">
+                  {unitKeyOptions.map((entry) => (
+                    <option key={entry.key} value={entry.key}>{entry.description}</option>
+                  ))}
+                </datalist>
+                {errors.sat_unit_key && (
+                  <p className="text-sm text-red-600">{errors.sat_unit_key.message}</p>
+                )}
+                <p className="text-xs text-gray-500">{unitKeyHint}</p>
+              </div>
+            </div>
+
             {/* Pricing */}
             <div className="border-t pt-6">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Pricing</h3>
@@ -381,7 +689,9 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
                   {errors.public_price && (
                     <p className="text-sm text-red-600">{errors.public_price.message}</p>
                   )}
-                  <p className="text-xs text-gray-500">Price shown to clients</p>
+                  <p className="text-xs text-gray-500">
+                    Price shown to clients{taxIncluded ? ', taxes included' : ', before taxes'}
+                  </p>
                 </div>
               </div>
 
@@ -413,15 +723,266 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
                   </label>
                 </div>
               </div>
+
+              {/* Stacked taxes (IEPS) */}
+              {taxes.some((tax) => tax.id !== selectedTax && tax.code !== 'IVA') && (
+                <div className="mt-4 space-y-2">
+                  <Label>Additional Taxes</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {taxes
+                      .filter((tax) => tax.id !== selectedTax && tax.code !== 'IVA')
+                      .map((tax) => (
+                        <label key={tax.id} className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={additionalTaxes.includes(tax.id)}
+                            onChange={(e) =>
+                              setAdditionalTaxes((current) =>
+                                e.target.checked
+                                  ? [...current, tax.id]
+                                  : current.filter((taxId) => taxId !== tax.id)
+                              )
+                            }
+                            className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                          />
+                          <span className="text-sm text-gray-700">{tax.name}</span>
+                        </label>
+                      ))}
+                  </div>
+                  <p className="text-xs text-gray-500">IVA is charged on top of IEPS</p>
+                </div>
+              )}
+
+              {/* Volume Pricing */}
+              <div className="mt-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Volume Pricing</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPriceTiers(current => [...current, { min_quantity: NaN, price: NaN }])}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Tier
+                  </Button>
+                </div>
+                {priceTiers.map((tier, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-700">From</span>
+                    <Input
+                      type="number"
+                      step="1"
+                      min="2"
+                      value={Number.isNaN(tier.min_quantity) ? '' : tier.min_quantity}
+                      onChange={(e) => updatePriceTier(index, { min_quantity: parseInt(e.target.value, 10) })}
+                      placeholder="12"
+                      className="w-24"
+                    />
+                    <span className="text-sm text-gray-700">units at</span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={Number.isNaN(tier.price) ? '' : tier.price}
+                      onChange={(e) => updatePriceTier(index, { price: parseFloat(e.target.value) })}
+                      placeholder="0.00"
+                      className="w-32"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPriceTiers(current => current.filter((_, i) => i !== index))}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">
+                  Unit prices for larger quantities, on the same tax basis as the public price
+                </p>
+              </div>
+
+              {/* Selling Units */}
+              <div className="mt-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Selling Units</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setProductUnits(current => [...current, { unit: '', factor: NaN, price: null }])}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Unit
+                  </Button>
+                </div>
+                {productUnits.map((item, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-700">1</span>
+                    <select
+                      value={item.unit}
+                      onChange={(e) => updateProductUnit(index, { unit: e.target.value })}
+                      aria-label={`Selling unit ${index + 1}`}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                    >
+                      <option value="">Unit</option>
+                      {UNITS.filter((unit) => unit !== baseUnit).map((unit) => (
+                        <option key={unit} value={unit}>{unit}</option>
+                      ))}
+                    </select>
+                    <span className="text-sm text-gray-700">=</span>
+                    <Input
+                      type="number"
+                      step="1"
+                      min="2"
+                      value={Number.isNaN(item.factor) ? '' : item.factor}
+                      onChange={(e) => updateProductUnit(index, { factor: parseInt(e.target.value, 10) })}
+                      aria-label={`${baseUnit} per ${item.unit || 'unit'}`}
+                      placeholder="24"
+                      className="w-24"
+                    />
+                    <span className="text-sm text-gray-700">{baseUnit} at</span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={item.price ?? ''}
+                      onChange={(e) =>
+                        updateProductUnit(index, { price: e.target.value === '' ? null : parseFloat(e.target.value) })
+                      }
+                      aria-label={`Price per ${item.unit || 'unit'}`}
+                      placeholder="Optional"
+                      className="w-32"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setProductUnits(current => current.filter((_, i) => i !== index))}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">
+                  {productUnits.length > 0 && productUnits.every((item) => item.unit && item.factor > 1)
+                    ? productUnits.map((item) => formatUnitConversion(item, baseUnit)).join(', ') + '. '
+                    : ''}
+                  Larger units the product is also sold in; without a price they sell at that many {baseUnit}.
+                  Stock is counted in {baseUnit}.
+                </p>
+              </div>
+            </div>
+
+            {/* Kit */}
+            <div className="border-t pt-6 space-y-4">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="is_bundle"
+                  {...register('is_bundle')}
+                  className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                />
+                <Label htmlFor="is_bundle">This product is a kit of other products</Label>
+              </div>
+
+              {isBundle && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="bundle_pricing">Kit Pricing</Label>
+                    <select
+                      id="bundle_pricing"
+                      {...register('bundle_pricing')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                    >
+                      {BUNDLE_PRICING_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500">
+                      {bundlePricing === 'sum'
+                        ? "The public price adds up the components' prices before taxes"
+                        : 'The kit is sold at its own public price'}
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Components</Label>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setBundleItems(current => [...current, { component_id: '', quantity: 1 }])}
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Component
+                      </Button>
+                    </div>
+                    {bundleItems.map((item, index) => {
+                      const component = componentProducts.find(p => p.id === item.component_id)
+                      return (
+                        <div key={index} className="flex items-center space-x-2">
+                          <Input
+                            type="number"
+                            step="1"
+                            min="1"
+                            value={Number.isNaN(item.quantity) ? '' : item.quantity}
+                            onChange={(e) => updateBundleItem(index, { quantity: parseInt(e.target.value, 10) })}
+                            aria-label={`Quantity of component ${index + 1}`}
+                            className="w-20"
+                          />
+                          <select
+                            value={item.component_id}
+                            onChange={(e) => updateBundleItem(index, { component_id: e.target.value })}
+                            aria-label={`Component ${index + 1}`}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                          >
+                            <option value="">Select a product</option>
+                            {componentProducts.map((option) => (
+                              <option key={option.id} value={option.id}>
+                                {option.code} - {option.name}
+                              </option>
+                            ))}
+                          </select>
+                          <span className="w-24 text-right text-sm text-gray-500">
+                            {component ? formatCurrency(component.base_price) : ''}
+                          </span>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setBundleItems(current => current.filter((_, i) => i !== index))}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )
+                    })}
+                    {bundleItems.length === 0 && (
+                      <p className="text-sm text-gray-400">No components yet</p>
+                    )}
+                  </div>
+                </>
+              )}
             </div>
 
             {/* Inventory */}
             <div className="border-t pt-6">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Inventory</h3>
+              {isBundle && (
+                <p className="text-sm text-gray-500 mb-4">
+                  Shipping a kit takes its components out of stock, not the kit itself
+                </p>
+              )}
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="stock_quantity">Stock Quantity *</Label>
+                  <Label htmlFor="stock_quantity">Stock on Hand ({baseUnit}) *</Label>
                   <Input
                     id="stock_quantity"
                     type="number"
@@ -432,6 +993,9 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
                   {errors.stock_quantity && (
                     <p className="text-sm text-red-600">{errors.stock_quantity.message}</p>
                   )}
+                  <p className="text-xs text-gray-500">
+                    {product ? 'A new count is recorded as an inventory adjustment' : 'Recorded as the opening balance'}
+                  </p>
                 </div>
 
                 <div className="space-y-2">
@@ -448,6 +1012,16 @@ export function ProductForm({ product, categories, onSubmit }: ProductFormProps)
                   )}
                   <p className="text-xs text-gray-500">Alert when stock falls below this level</p>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bin_location">Bin Location</Label>
+                  <Input
+                    id="bin_location"
+                    {...register('bin_location')}
+                    placeholder="e.g. A-03-2"
+                  />
+                  <p className="text-xs text-gray-500">Packing lists group lines by bin</p>
+                </div>
               </div>
             </div>
 
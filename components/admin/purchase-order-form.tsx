@@ -0,0 +1,360 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuthStore, useNotificationStore } from '@/lib/store'
+import { formatCurrency } from '@/lib/utils'
+import { getLocalDate } from '@/lib/exchange-rates'
+import { SUPPORTED_CURRENCIES, isSupportedCurrency, type CurrencyCode } from '@/lib/currency'
+import { getExpectedDate, getLeadTime, type Supplier } from '@/lib/suppliers'
+import {
+  DEFAULT_PURCHASE_TAX_RATE,
+  calculatePurchaseOrderTotals,
+  savePurchaseOrder,
+  type PurchaseOrder,
+  type PurchaseOrderLineInput
+} from '@/lib/purchase-orders'
+import { Loader2, Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+
+interface ProductOption {
+  id: string
+  code: string
+  name: string
+  unit: string
+  cost_price: number
+}
+
+interface PurchaseOrderFormProps {
+  purchaseOrder?: PurchaseOrder | null
+  suppliers: Supplier[]
+  products: ProductOption[]
+  onSubmit: () => void
+}
+
+interface Entry {
+  key: string
+  product_id: string
+  supplier_code: string
+  quantity: string
+  unit_cost: string
+}
+
+const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500'
+
+function toLine(entry: Entry): PurchaseOrderLineInput {
+  return {
+    product_id: entry.product_id,
+    supplier_code: entry.supplier_code || null,
+    quantity: entry.quantity === '' ? NaN : parseInt(entry.quantity, 10),
+    unit_cost: entry.unit_cost === '' ? NaN : parseFloat(entry.unit_cost)
+  }
+}
+
+export function PurchaseOrderForm({ purchaseOrder, suppliers, products, onSubmit }: PurchaseOrderFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [supplierId, setSupplierId] = useState(purchaseOrder?.supplier_id || '')
+  const [orderDate, setOrderDate] = useState(purchaseOrder?.order_date || getLocalDate())
+  const [expectedDate, setExpectedDate] = useState(purchaseOrder?.expected_date || '')
+  const [currency, setCurrency] = useState<CurrencyCode>(
+    purchaseOrder && isSupportedCurrency(purchaseOrder.currency) ? purchaseOrder.currency : 'MXN'
+  )
+  const [taxRate, setTaxRate] = useState(String(parseFloat(((purchaseOrder?.tax_rate ?? DEFAULT_PURCHASE_TAX_RATE) * 100).toFixed(4))))
+  const [notes, setNotes] = useState(purchaseOrder?.notes || '')
+  const [entries, setEntries] = useState<Entry[]>(
+    (purchaseOrder?.purchase_order_items || []).map(item => ({
+      key: item.id,
+      product_id: item.product_id,
+      supplier_code: item.supplier_code || '',
+      quantity: String(item.quantity),
+      unit_cost: String(item.unit_cost)
+    }))
+  )
+  const { user } = useAuthStore()
+  const { addNotification } = useNotificationStore()
+
+  const supplier = suppliers.find(option => option.id === supplierId)
+
+  // Expected when the slowest product on the order arrives
+  const suggestExpectedDate = (selected: Supplier | undefined, lines: Entry[], date: string) => {
+    if (!selected) return
+    const leadTime = Math.max(
+      selected.lead_time_days,
+      ...lines.map(line => getLeadTime(selected, selected.supplier_products.find(item => item.product_id === line.product_id)))
+    )
+    setExpectedDate(getExpectedDate(date, leadTime))
+  }
+
+  const selectSupplier = (id: string) => {
+    setSupplierId(id)
+    suggestExpectedDate(suppliers.find(option => option.id === id), entries, orderDate)
+  }
+
+  const addEntry = () => {
+    setEntries(current => [...current, { key: Math.random().toString(36).substr(2, 9), product_id: '', supplier_code: '', quantity: '', unit_cost: '' }])
+  }
+
+  const updateEntry = (key: string, changes: Partial<Entry>) => {
+    setEntries(current => current.map(entry => (entry.key === key ? { ...entry, ...changes } : entry)))
+  }
+
+  // A product's cost and code default to what the supplier charges for it
+  const selectProduct = (key: string, productId: string) => {
+    const product = products.find(option => option.id === productId)
+    const supplierProduct = supplier?.supplier_products.find(item => item.product_id === productId)
+    const next = entries.map(entry => (
+      entry.key === key
+        ? {
+            ...entry,
+            product_id: productId,
+            supplier_code: supplierProduct?.supplier_code || '',
+            unit_cost: String(supplierProduct?.cost ?? product?.cost_price ?? '')
+          }
+        : entry
+    ))
+    setEntries(next)
+    suggestExpectedDate(supplier, next, orderDate)
+  }
+
+  const removeEntry = (key: string) => {
+    setEntries(current => current.filter(entry => entry.key !== key))
+  }
+
+  const lines = entries.map(toLine)
+  const rate = taxRate === '' ? 0 : parseFloat(taxRate) / 100
+  const totals = calculatePurchaseOrderTotals(
+    lines.filter(line => Number.isFinite(line.quantity) && Number.isFinite(line.unit_cost)),
+    Number.isFinite(rate) ? rate : 0
+  )
+
+  // Products the supplier sells first
+  const productOptions = [...products].sort((a, b) => {
+    const soldA = supplier?.supplier_products.some(item => item.product_id === a.id) ? 0 : 1
+    const soldB = supplier?.supplier_products.some(item => item.product_id === b.id) ? 0 : 1
+    return soldA - soldB
+  })
+
+  const onFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+    setIsLoading(true)
+
+    const result = await savePurchaseOrder(
+      {
+        supplier_id: supplierId,
+        order_date: orderDate,
+        expected_date: expectedDate || null,
+        currency,
+        tax_rate: rate,
+        notes: notes || null,
+        items: lines
+      },
+      user.id,
+      purchaseOrder?.id
+    )
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? (purchaseOrder ? 'Purchase Order Updated' : 'Purchase Order Created') : 'Error',
+      message: result.message
+    })
+
+    setIsLoading(false)
+    if (result.success) {
+      onSubmit()
+    }
+  }
+
+  return (
+    <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>
+          {purchaseOrder ? `Edit Purchase Order ${purchaseOrder.folio}` : 'New Purchase Order'}
+        </DialogTitle>
+      </DialogHeader>
+
+      <form id="purchase-order-form" onSubmit={onFormSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2 md:col-span-3">
+            <Label htmlFor="supplier">Supplier *</Label>
+            <select
+              id="supplier"
+              value={supplierId}
+              onChange={(e) => selectSupplier(e.target.value)}
+              className={selectClass}
+            >
+              <option value="">Select a supplier</option>
+              {suppliers.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="order_date">Order Date *</Label>
+            <Input
+              id="order_date"
+              type="date"
+              value={orderDate}
+              onChange={(e) => {
+                setOrderDate(e.target.value)
+                suggestExpectedDate(supplier, entries, e.target.value)
+              }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="expected_date">Expected Date</Label>
+            <Input
+              id="expected_date"
+              type="date"
+              value={expectedDate}
+              onChange={(e) => setExpectedDate(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="currency">Currency</Label>
+              <select
+                id="currency"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+                className={selectClass}
+              >
+                {SUPPORTED_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tax_rate">IVA %</Label>
+              <Input
+                id="tax_rate"
+                type="number"
+                step="0.01"
+                min="0"
+                value={taxRate}
+                onChange={(e) => setTaxRate(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Lines */}
+        <div className="space-y-4 border-t pt-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Products</h3>
+              <p className="text-sm text-gray-500">
+                Quantities in base units, costs per base unit
+              </p>
+            </div>
+            <Button type="button" variant="outline" size="sm" onClick={addEntry}>
+              <Plus className="w-4 h-4 mr-1" />
+              Product
+            </Button>
+          </div>
+
+          {entries.map((entry) => {
+            const unit = products.find(product => product.id === entry.product_id)?.unit
+
+            return (
+              <div key={entry.key} className="flex items-center space-x-2">
+                <select
+                  value={entry.product_id}
+                  onChange={(e) => selectProduct(entry.key, e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  <option value="">Select a product</option>
+                  {productOptions.map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {product.code} - {product.name}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  value={entry.supplier_code}
+                  onChange={(e) => updateEntry(entry.key, { supplier_code: e.target.value })}
+                  placeholder="Their code"
+                  className="w-28"
+                />
+                <Input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={entry.quantity}
+                  onChange={(e) => updateEntry(entry.key, { quantity: e.target.value })}
+                  placeholder="Qty"
+                  className="w-24"
+                />
+                <span className="w-12 text-sm text-gray-500">{unit}</span>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={entry.unit_cost}
+                  onChange={(e) => updateEntry(entry.key, { unit_cost: e.target.value })}
+                  placeholder="Cost"
+                  className="w-28"
+                />
+                <Button type="button" variant="outline" size="sm" onClick={() => removeEntry(entry.key)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            )
+          })}
+
+          {entries.length === 0 && (
+            <p className="text-sm text-gray-400">No products yet</p>
+          )}
+
+          {entries.length > 0 && (
+            <div className="flex justify-end space-x-6 text-sm text-gray-600">
+              <span>Subtotal: {formatCurrency(totals.subtotal, currency)}</span>
+              <span>IVA: {formatCurrency(totals.tax_amount, currency)}</span>
+              <span className="font-semibold text-gray-900">Total: {formatCurrency(totals.total, currency)}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="notes">Notes</Label>
+          <Input
+            id="notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Delivery instructions, agreed terms..."
+          />
+        </div>
+      </form>
+
+      <DialogFooter>
+        <Button
+          type="submit"
+          form="purchase-order-form"
+          disabled={isLoading}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            purchaseOrder ? 'Update Purchase Order' : 'Create Purchase Order'
+          )}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import { useNotificationStore } from '@/lib/store'
+import { formatCurrency } from '@/lib/utils'
+import { isSupportedCurrency } from '@/lib/currency'
+import { getOutstandingQuantity, receivePurchaseOrder, type PurchaseOrder } from '@/lib/purchase-orders'
+import { Loader2, PackageCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+
+interface PurchaseOrderReceiptFormProps {
+  purchaseOrder: PurchaseOrder
+  onSubmit: () => void
+}
+
+export function PurchaseOrderReceiptForm({ purchaseOrder, onSubmit }: PurchaseOrderReceiptFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  // Everything outstanding arrives unless told otherwise
+  const [quantities, setQuantities] = useState<Record<string, string>>(
+    Object.fromEntries(purchaseOrder.purchase_order_items.map(item => [item.id, String(getOutstandingQuantity(item))]))
+  )
+  const [location, setLocation] = useState('')
+  const [updateCost, setUpdateCost] = useState(false)
+  const { addNotification } = useNotificationStore()
+
+  const currency = isSupportedCurrency(purchaseOrder.currency) ? purchaseOrder.currency : 'MXN'
+
+  const onFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    const result = await receivePurchaseOrder(
+      purchaseOrder,
+      purchaseOrder.purchase_order_items
+        .filter(item => getOutstandingQuantity(item) > 0)
+        .map(item => ({
+          item_id: item.id,
+          quantity: quantities[item.id] === '' ? 0 : parseInt(quantities[item.id], 10)
+        })),
+      { updateCost, location }
+    )
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Goods Received' : 'Error',
+      message: result.message
+    })
+
+    setIsLoading(false)
+    if (result.success) {
+      onSubmit()
+    }
+  }
+
+  return (
+    <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>
+          Receive {purchaseOrder.folio} from {purchaseOrder.suppliers?.name}
+        </DialogTitle>
+      </DialogHeader>
+
+      <form id="purchase-order-receipt-form" onSubmit={onFormSubmit} className="space-y-6">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+              <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ordered</th>
+              <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+              <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Receiving now</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {purchaseOrder.purchase_order_items.map((item) => {
+              const outstanding = getOutstandingQuantity(item)
+
+              return (
+                <tr key={item.id}>
+                  <td className="py-2 text-sm">
+                    <div className="font-medium text-gray-900">{item.products?.name}</div>
+                    <div className="text-gray-500">
+                      {item.products?.code} · {formatCurrency(item.unit_cost, currency)} per {item.products?.unit}
+                    </div>
+                  </td>
+                  <td className="py-2 text-sm text-right text-gray-900">{item.quantity}</td>
+                  <td className="py-2 text-sm text-right text-gray-500">{item.received_quantity}</td>
+                  <td className="py-2 text-right">
+                    {outstanding > 0 ? (
+                      <Input
+                        type="number"
+                        step="1"
+                        min="0"
+                        max={outstanding}
+                        value={quantities[item.id]}
+                        onChange={(e) => setQuantities(current => ({ ...current, [item.id]: e.target.value }))}
+                        className="w-24 ml-auto text-right"
+                      />
+                    ) : (
+                      <span className="text-sm text-green-700">Complete</span>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="receipt_location">Location</Label>
+            <Input
+              id="receipt_location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="A-01-03"
+            />
+          </div>
+          <div className="flex items-center space-x-2 md:pt-6">
+            <input
+              type="checkbox"
+              id="update_cost"
+              checked={updateCost}
+              onChange={(e) => setUpdateCost(e.target.checked)}
+              className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            <Label htmlFor="update_cost">Update product costs to the cost paid</Label>
+          </div>
+        </div>
+      </form>
+
+      <DialogFooter>
+        <Button
+          type="submit"
+          form="purchase-order-receipt-form"
+          disabled={isLoading}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Receiving...
+            </>
+          ) : (
+            <>
+              <PackageCheck className="mr-2 h-4 w-4" />
+              Receive Goods
+            </>
+          )}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  )
+}
@@ -0,0 +1,2022 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase'
+import {
+  QUOTATION_FORM_DEFAULTS,
+  useNotificationStore,
+  useQuotationFormStore,
+  type QuotationFormHeader,
+  type QuotationFormItem as QuotationItem
+} from '@/lib/store'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import {
+  applyDocumentDiscount,
+  calculateDocumentTotals,
+  calculateLineItem,
+  calculateTaxIncludedLineItem,
+  formatTierRange,
+  roundToPesos,
+  type Discount,
+  type DiscountType,
+  type LineItemCalculation,
+  type PriceTier,
+  type TaxConfiguration
+} from '@/lib/calculations'
+import { DEFAULT_ROUNDING, multiplyMoney, sumMoney, type RoundingConfig } from '@/lib/money'
+import { getRoundingSettings } from '@/lib/settings'
+import { getIssuerProfile, getQuotationDefaults } from '@/lib/issuer-profile'
+import { SUPPORTED_CURRENCIES, convertFromMXN, convertToMXN, isSupportedCurrency, type CurrencyCode } from '@/lib/currency'
+import { getEffectiveExchangeRate } from '@/lib/exchange-rates'
+import { formatPriceSource, getCompanyPriceLists, resolveProductPrice, type PriceList } from '@/lib/price-lists'
+import {
+  calculateBundlePrice,
+  snapshotBundleComponents,
+  type BundleItem,
+  type BundlePricing
+} from '@/lib/bundles'
+import { getSellingUnits, resolveUnitPrice, toBaseQuantity, type ProductUnit } from '@/lib/units'
+import { getStockLevels } from '@/lib/inventory'
+import { checkAvailability, getLineProductIds, type LineAvailability } from '@/lib/availability'
+import { getRestockDates } from '@/lib/purchase-orders'
+import {
+  ALTERNATIVE_GROUPS,
+  diffQuotationItems,
+  getQuotationEditAction,
+  hasRowChanged,
+  isOptionLine,
+  saveQuotationDraft
+} from '@/lib/quotations'
+import {
+  compareSourceLines,
+  deleteQuotationTemplate,
+  describeSourceLineChange,
+  getQuotationCopy,
+  getQuotationTemplates,
+  saveQuotationTemplate,
+  type QuotationCopy,
+  type QuotationTemplate,
+  type QuotationTemplateInput,
+  type SourceLineChange
+} from '@/lib/quotation-templates'
+import {
+  TAX_COLUMNS,
+  formatTaxLabel,
+  getCompanyWithholdings,
+  getProductTaxConfigs,
+  type ProductTaxSource
+} from '@/lib/taxes'
+import { 
+  Plus, 
+  Minus, 
+  Save, 
+  ArrowLeft,
+  Search,
+  X,
+  Trash2
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { DatabaseQuotationItem } from '@/types/calculations'
+
+const quotationSchema = z.object({
+  company_id: z.string().min(1, 'Please select a company'),
+  contact_name: z.string().min(1, 'Contact name is required'),
+  contact_email: z.string().email('Valid email is required'),
+  contact_phone: z.string().optional(),
+  validity_days: z.number().min(1, 'Validity must be at least 1 day'),
+  terms: z.string().min(1, 'Terms and conditions are required'),
+  delivery_terms: z.string().min(1, 'Delivery terms are required'),
+  payment_terms: z.string().min(1, 'Payment terms are required'),
+})
+
+type QuotationFormData = z.infer<typeof quotationSchema>
+
+interface Company {
+  id: string
+  name: string
+  rfc: string | null
+}
+
+interface Product extends ProductTaxSource {
+  id: string
+  code: string
+  name: string
+  unit: string
+  category_id: string | null
+  cost_price: number
+  base_price: number
+  public_price: number
+  tax_included: boolean
+  tax_id: string | null
+  price_tiers: PriceTier[] | null
+  is_bundle: boolean
+  bundle_pricing: BundlePricing
+  bundle_items: BundleItem[] | null
+  units: ProductUnit[] | null // Alternate selling units
+}
+
+interface SavedDraft {
+  folio: string
+  header: QuotationFormHeader
+  currency: CurrencyCode
+  exchangeRate: number
+  documentDiscount: Discount | null
+  document: Record<string, unknown> // Saved documents row
+  items: DatabaseQuotationItem[]
+}
+
+// How long the builder waits after the last change before saving a draft
+const AUTOSAVE_DELAY = 3000
+
+const PRODUCT_COLUMNS = `
+  id,
+  code,
+  name,
+  unit,
+  category_id,
+  cost_price,
+  base_price,
+  public_price,
+  tax_included,
+  tax_id,
+  is_bundle,
+  bundle_pricing,
+  price_tiers:product_price_tiers(min_quantity, price),
+  bundle_items:product_bundle_items!bundle_id(component_id, quantity),
+  units:product_units(unit, factor, price),
+  taxes(${TAX_COLUMNS}),
+  product_taxes(taxes(${TAX_COLUMNS}))
+`
+
+/**
+ * Keep an entered discount within what the engine accepts:
+ * percentages between 0 and 100%, fixed amounts no larger than their base
+ */
+function clampDiscount(discount: Discount | null, base: number): Discount | null {
+  if (!discount || !(discount.value > 0)) {
+    return null
+  }
+
+  const max = discount.type === 'percentage' ? 1 : base
+  return { ...discount, value: Math.min(discount.value, max) }
+}
+
+/**
+ * Selling unit of a product by name, the base unit when it has no such unit
+ */
+function sellingUnitFor(product: Product, unit: string): ProductUnit {
+  const units = getSellingUnits(product.unit, product.units)
+  return units.find(u => u.unit === unit) ?? units[0]
+}
+
+/**
+ * Catalog price for a quantity of a product in one of its units under its
+ * volume tiers and the client's price lists, and where it came from
+ * Kits priced as the sum of their components start from that sum. Tiers
+ * count base units, so 2 CAJA of 24 reach a 48 PIEZA tier.
+ */
+function catalogPriceFor(
+  product: Product,
+  quantity: number,
+  priceLists: PriceList[],
+  catalog: Product[],
+  unit: ProductUnit = sellingUnitFor(product, product.unit)
+): Pick<QuotationItem, 'catalog_price' | 'price_list_id' | 'price_source' | 'price_tier'> {
+  const taxes = getProductTaxConfigs(product)
+  const publicPrice = product.is_bundle
+    ? calculateBundlePrice(product.bundle_pricing, product.public_price, product.bundle_items ?? [], catalog, taxes, product.tax_included)
+    : product.public_price
+  const resolved = resolveProductPrice(
+    { ...product, public_price: publicPrice },
+    taxes,
+    priceLists,
+    undefined,
+    toBaseQuantity(quantity, unit.factor)
+  )
+  const unitPrice = resolveUnitPrice(resolved.price, unit)
+
+  if (unitPrice.is_unit_price) {
+    return {
+      catalog_price: unitPrice.price,
+      price_list_id: null,
+      price_source: `${unit.unit} price`,
+      price_tier: null,
+    }
+  }
+
+  return {
+    catalog_price: unitPrice.price,
+    price_list_id: resolved.price_list_id,
+    price_source: formatPriceSource(resolved),
+    price_tier: resolved.source === 'tier' ? resolved.tier ?? null : null,
+  }
+}
+
+/**
+ * Convert a line's catalog price and fixed-amount taxes from MXN at the
+ * quotation's exchange rate (MXN per unit)
+ */
+function inCurrency<T extends Pick<QuotationItem, 'catalog_price' | 'catalog_taxes'>>(
+  item: T,
+  exchangeRate: number
+): T & Pick<QuotationItem, 'list_price' | 'product_taxes'> {
+  return {
+    ...item,
+    list_price: convertFromMXN(item.catalog_price, exchangeRate),
+    product_taxes: item.catalog_taxes.map(tax =>
+      tax.type === 'fixed_amount' && tax.amount !== undefined
+        ? { ...tax, amount: convertFromMXN(tax.amount, exchangeRate) }
+        : tax
+    ),
+  }
+}
+
+/**
+ * Recalculate a line; the client's withholdings apply on top of the product's own taxes
+ * Tax-included list prices have their taxes backed out instead of added on top.
+ */
+function withLineCalculation(
+  item: Omit<QuotationItem, keyof LineItemCalculation | 'discount'>,
+  quantity: number,
+  discount: Discount | null,
+  withholdings: TaxConfiguration[],
+  rounding: RoundingConfig
+): QuotationItem {
+  const calculate = item.tax_included ? calculateTaxIncludedLineItem : calculateLineItem
+  const clamped = clampDiscount(discount, multiplyMoney(quantity, item.list_price, rounding.mode))
+  return {
+    ...item,
+    ...calculate(quantity, item.list_price, [...item.product_taxes, ...withholdings], clamped, rounding),
+    discount: clamped,
+  }
+}
+
+interface QuotationBuilderProps {
+  quotationId?: string // Draft to edit; a new quotation when missing
+}
+
+/**
+ * Quotation builder for new quotations and drafts
+ * Its working copy lives in useQuotationFormStore, so changes that were not
+ * saved are restored when the builder is reopened. Drafts being edited are
+ * saved automatically, writing only the lines that changed.
+ */
+export function QuotationBuilder({ quotationId }: QuotationBuilderProps) {
+  const [companies, setCompanies] = useState<Company[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [showProductSearch, setShowProductSearch] = useState(false)
+  const [productSearchTerm, setProductSearchTerm] = useState('')
+  const [withholdings, setWithholdings] = useState<TaxConfiguration[]>([])
+  const [rounding, setRounding] = useState<RoundingConfig>(DEFAULT_ROUNDING)
+  const [isRoundingLoaded, setIsRoundingLoaded] = useState(false)
+  const [priceLists, setPriceLists] = useState<PriceList[]>([])
+  const [templates, setTemplates] = useState<QuotationTemplate[]>([])
+  const [templateId, setTemplateId] = useState('')
+  const [pendingCopy, setPendingCopy] = useState<QuotationCopy | null>(null)
+  const [pendingDraft, setPendingDraft] = useState<{ draft: SavedDraft; keepWorkingCopy: boolean } | null>(null)
+  const [pendingCompany, setPendingCompany] = useState<{
+    withholdings: TaxConfiguration[]
+    priceLists: PriceList[]
+    reprice: boolean
+  } | null>(null)
+  const [sourceReport, setSourceReport] = useState<{ label: string; changes: SourceLineChange[] } | null>(null)
+  const [folio, setFolio] = useState('')
+  const [isAutosaving, setIsAutosaving] = useState(false)
+  const [availableStock, setAvailableStock] = useState<Record<string, number>>({})
+  const [restockDates, setRestockDates] = useState<Record<string, string>>({})
+
+  const selectedProducts = useQuotationFormStore(state => state.items)
+  const setSelectedProducts = useQuotationFormStore(state => state.setItems)
+  const documentDiscount = useQuotationFormStore(state => state.documentDiscount)
+  const setDocumentDiscount = useQuotationFormStore(state => state.setDocumentDiscount)
+  const currency = useQuotationFormStore(state => state.currency)
+  const setCurrency = useQuotationFormStore(state => state.setCurrency)
+  const exchangeRate = useQuotationFormStore(state => state.exchangeRate)
+  const setExchangeRate = useQuotationFormStore(state => state.setExchangeRate)
+  const isDirty = useQuotationFormStore(state => state.isDirty)
+  const updatedAt = useQuotationFormStore(state => state.updatedAt)
+  const { setHeader, load: loadWorkingCopy, markSaved, reset: resetWorkingCopy } = useQuotationFormStore.getState()
+
+  // The draft as last saved, to write only what changed
+  const savedRef = useRef<{ document: Record<string, unknown>; items: Record<string, object> } | null>(null)
+  const isSavingRef = useRef(false)
+  // Company of a loaded quotation: its contact and prices are kept, not fetched again
+  const loadedCompanyRef = useRef<string | null>(null)
+  
+  const { addNotification } = useNotificationStore()
+  const supabase = createClient()
+  const router = useRouter()
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    getValues,
+    reset: resetForm,
+    formState: { errors },
+  } = useForm<QuotationFormData>({
+    resolver: zodResolver(quotationSchema),
+    defaultValues: QUOTATION_FORM_DEFAULTS
+  })
+
+  const selectedCompanyId = watch('company_id')
+
+  // New quotations start with the terms set in the issuer profile; fields a
+  // template, a copy or the user already changed are left alone
+  const applyIssuerDefaults = useCallback(async () => {
+    const defaults = getQuotationDefaults(await getIssuerProfile(), QUOTATION_FORM_DEFAULTS)
+    const fields = ['validity_days', 'terms', 'delivery_terms', 'payment_terms'] as const
+
+    for (const field of fields) {
+      if (getValues(field) === QUOTATION_FORM_DEFAULTS[field]) {
+        setValue(field, defaults[field])
+      }
+    }
+  }, [getValues, setValue])
+
+  // Load a draft to edit; only drafts that are the latest revision can be edited
+  const fetchDraft = useCallback(async (id: string, keepWorkingCopy: boolean) => {
+    try {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('*, document_items(*)')
+        .eq('id', id)
+        .eq('type', 'quotation')
+        .single()
+
+      if (error) throw error
+
+      const document = data as Record<string, unknown> & {
+        folio: string
+        quotation_status: string | null
+        is_latest_revision: boolean
+        document_items: DatabaseQuotationItem[]
+      }
+
+      if (getQuotationEditAction(document.quotation_status || 'draft', document.is_latest_revision) !== 'edit') {
+        addNotification({
+          type: 'error',
+          title: 'Not Editable',
+          message: `Quotation ${document.folio} is no longer a draft and cannot be edited`
+        })
+        router.push('/admin/quotations')
+        return
+      }
+
+      const { document_items: items, ...row } = document
+      const discountType = row.discount_type as Discount['type'] | null
+      const discountValue = Number(row.discount_value)
+
+      setPendingDraft({
+        draft: {
+          folio: document.folio,
+          header: {
+            company_id: String(row.company_id),
+            contact_name: String(row.contact_name ?? ''),
+            contact_email: String(row.contact_email ?? ''),
+            contact_phone: String(row.contact_phone ?? ''),
+            validity_days: Number(row.validity_days),
+            terms: String(row.terms ?? ''),
+            delivery_terms: String(row.delivery_terms ?? ''),
+            payment_terms: String(row.payment_terms ?? ''),
+          },
+          currency: isSupportedCurrency(String(row.currency)) ? row.currency as CurrencyCode : 'MXN',
+          exchangeRate: Number(row.exchange_rate) || 1,
+          documentDiscount: discountType && discountValue > 0 ? { type: discountType, value: discountValue } : null,
+          document: row,
+          items,
+        },
+        keepWorkingCopy,
+      })
+    } catch (error) {
+      console.error('Error fetching quotation:', error)
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load quotation'
+      })
+    }
+  }, [supabase, addNotification, router])
+
+  // A saved line back in the builder at the price it was quoted at; its
+  // tier and price list are kept until its quantity or unit changes
+  const restoreLine = useCallback((
+    item: DatabaseQuotationItem,
+    product: Product,
+    rate: number,
+    companyPriceLists: PriceList[],
+    companyWithholdings: TaxConfiguration[]
+  ): QuotationItem => {
+    const listPrice = Number(item.list_price)
+    const tier = item.tier_min_quantity === null
+      ? null
+      : { min_quantity: item.tier_min_quantity, max_quantity: item.tier_max_quantity, price: listPrice, is_base: false }
+    const priceList = companyPriceLists.find(list => list.id === item.price_list_id)
+    const catalogTaxes = getProductTaxConfigs(product)
+
+    return withLineCalculation(
+      {
+        id: item.id,
+        product_id: product.id,
+        product_code: item.product_code,
+        product_name: item.product_name,
+        unit: item.unit,
+        unit_factor: item.unit_factor,
+        catalog_price: convertToMXN(listPrice, rate),
+        price_list_id: item.price_list_id,
+        price_source: priceList?.name ?? (tier ? `Volume price (${formatTierRange(tier)})` : 'Public price'),
+        price_tier: tier,
+        bundle_components: item.bundle_components,
+        expand_on_pdf: item.expand_on_pdf,
+        is_optional: item.is_optional,
+        alternative_group: item.alternative_group,
+        backorder: item.backorder ?? false,
+        catalog_taxes: catalogTaxes,
+        list_price: listPrice,
+        tax_included: item.tax_included,
+        product_taxes: inCurrency({ catalog_price: 0, catalog_taxes: catalogTaxes }, rate).product_taxes,
+      },
+      Number(item.quantity),
+      item.discount_type && item.discount_value > 0 ? { type: item.discount_type, value: Number(item.discount_value) } : null,
+      companyWithholdings,
+      rounding
+    )
+  }, [rounding])
+
+  // Products of saved lines that have left the active catalog
+  const fetchRetiredProducts = useCallback(async (productIds: string[]): Promise<Product[]> => {
+    if (productIds.length === 0) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select(PRODUCT_COLUMNS)
+        .in('id', productIds)
+
+      if (error) throw error
+      return data || []
+    } catch (error) {
+      console.error('Error fetching products:', error)
+      return []
+    }
+  }, [supabase])
+
+  // Put a loaded draft in the builder, unless its unsaved working copy was restored
+  const applyDraft = useCallback(async (draft: SavedDraft, keepWorkingCopy: boolean) => {
+    const saved = {
+      document: draft.document,
+      items: Object.fromEntries(draft.items.map(item => [item.id, item])) as Record<string, object>,
+    }
+    savedRef.current = saved
+    setFolio(draft.folio)
+
+    const workingCopy = useQuotationFormStore.getState()
+    const header = keepWorkingCopy ? workingCopy.header : draft.header
+    loadedCompanyRef.current = header.company_id
+    resetForm(header)
+
+    if (keepWorkingCopy) {
+      setHeader(header)
+      addNotification({
+        type: 'info',
+        title: 'Changes Restored',
+        message: `Unsaved changes to quotation ${draft.folio} were restored`
+      })
+      return
+    }
+
+    const companyId = draft.header.company_id
+    const retiredIds = draft.items
+      .map(item => item.product_id)
+      .filter(id => !products.some(p => p.id === id))
+    const [companyPriceLists, companyWithholdings, retiredProducts] = await Promise.all([
+      getCompanyPriceLists(companyId),
+      getCompanyWithholdings(companyId),
+      fetchRetiredProducts(Array.from(new Set(retiredIds))),
+    ])
+
+    // Lines of products no longer in the catalog are kept as quoted and can
+    // only be removed; saving the draft must not delete them
+    const lines = draft.items.flatMap(item => {
+      const product = products.find(p => p.id === item.product_id)
+      if (product) {
+        return [restoreLine(item, product, draft.exchangeRate, companyPriceLists, companyWithholdings)]
+      }
+
+      const retired = retiredProducts.find(p => p.id === item.product_id)
+      return retired
+        ? [{ ...restoreLine(item, retired, draft.exchangeRate, companyPriceLists, companyWithholdings), unavailable: true }]
+        : []
+    })
+
+    // Lines that could not be restored at all are left in the database as saved
+    const skipped = draft.items.filter(item => !lines.some(line => line.id === item.id))
+    for (const item of skipped) {
+      delete saved.items[item.id]
+    }
+
+    loadWorkingCopy({
+      quotationId: workingCopy.quotationId,
+      header: draft.header,
+      items: lines,
+      documentDiscount: draft.documentDiscount,
+      currency: draft.currency,
+      exchangeRate: draft.exchangeRate,
+    })
+
+    const unavailable = lines.filter(line => line.unavailable).length
+    if (unavailable > 0) {
+      addNotification({
+        type: 'warning',
+        title: 'Products Unavailable',
+        message: `${unavailable} line(s) of quotation ${draft.folio} are for products no longer in the catalog; they are kept as quoted and can only be removed`
+      })
+    }
+    if (skipped.length > 0) {
+      addNotification({
+        type: 'warning',
+        title: 'Lines Not Loaded',
+        message: `${skipped.length} line(s) of quotation ${draft.folio} could not be loaded; they are kept as saved but not shown`
+      })
+    }
+  }, [setHeader, resetForm, addNotification, products, fetchRetiredProducts, restoreLine, loadWorkingCopy])
+
+  const fetchCompanies = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('companies')
+        .select('id, name, rfc')
+        .eq('status', 'active')
+        .order('name')
+
+      if (error) throw error
+      setCompanies(data || [])
+    } catch (error) {
+      console.error('Error fetching companies:', error)
+    }
+  }, [supabase])
+
+  const fetchProducts = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select(PRODUCT_COLUMNS)
+        .eq('is_active', true)
+        .order('name')
+
+      if (error) throw error
+      setProducts(data || [])
+    } catch (error) {
+      console.error('Error fetching products:', error)
+    }
+  }, [supabase])
+
+  const fetchAvailableStock = async (productIds: string[]) => {
+    const [levels, dates] = await Promise.all([getStockLevels(productIds), getRestockDates(productIds)])
+    setAvailableStock(Object.fromEntries(Object.values(levels).map(level => [level.product_id, level.available])))
+    setRestockDates(dates)
+  }
+
+  const fetchTemplates = async () => {
+    setTemplates(await getQuotationTemplates())
+  }
+
+  // ?duplicate=<id> starts a new draft from a past quotation
+  const fetchQuotationCopy = useCallback(async () => {
+    const quotationId = new URLSearchParams(window.location.search).get('duplicate')
+    if (!quotationId) return
+
+    const copy = await getQuotationCopy(quotationId)
+    if (!copy) {
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load the quotation to duplicate'
+      })
+      return
+    }
+    setPendingCopy(copy)
+  }, [addNotification])
+
+  // Pick up the working copy: unsaved changes to this quotation are restored,
+  // otherwise the draft is loaded (when editing) or a new quotation started
+  const initializeWorkingCopy = useCallback(async () => {
+    await useQuotationFormStore.persist.rehydrate()
+    const workingCopy = useQuotationFormStore.getState()
+    const isSameQuotation = workingCopy.quotationId === (quotationId ?? null)
+
+    if (quotationId) {
+      if (!isSameQuotation || !workingCopy.isDirty) {
+        resetWorkingCopy(quotationId)
+      }
+      fetchDraft(quotationId, isSameQuotation && workingCopy.isDirty)
+      return
+    }
+
+    const isDuplicate = new URLSearchParams(window.location.search).has('duplicate')
+    if (isSameQuotation && workingCopy.isDirty && workingCopy.items.length > 0 && !isDuplicate) {
+      loadedCompanyRef.current = workingCopy.header.company_id || null
+      const header = workingCopy.header
+      resetForm(header)
+      setHeader(header)
+      addNotification({
+        type: 'info',
+        title: 'Changes Restored',
+        message: 'Your unsaved quotation was restored'
+      })
+      return
+    }
+
+    resetWorkingCopy()
+    resetForm(QUOTATION_FORM_DEFAULTS)
+    fetchQuotationCopy()
+    applyIssuerDefaults()
+  }, [quotationId, resetWorkingCopy, fetchDraft, resetForm, setHeader, addNotification, fetchQuotationCopy, applyIssuerDefaults])
+
+  const fetchCompanyContacts = useCallback(async (companyId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('client_profiles')
+        .select(`
+          users(full_name, email, phone)
+        `)
+        .eq('company_id', companyId)
+        .eq('is_primary_contact', true)
+        .single()
+
+      if (error) throw error
+      
+      if (data?.users) {
+        setValue('contact_name', data.users.full_name)
+        setValue('contact_email', data.users.email)
+        setValue('contact_phone', data.users.phone || '')
+      }
+    } catch (error) {
+      console.error('Error fetching company contacts:', error)
+    }
+  }, [supabase, setValue])
+
+  // The client's withholdings and price lists, applied by the effect that
+  // waits for them
+  const fetchCompanyTerms = async (companyId: string, reprice: boolean) => {
+    const [companyWithholdings, companyPriceLists] = await Promise.all([
+      getCompanyWithholdings(companyId),
+      getCompanyPriceLists(companyId),
+    ])
+    setPendingCompany({ withholdings: companyWithholdings, priceLists: companyPriceLists, reprice })
+  }
+
+  // Catalog price of a line's product at a quantity of its unit, in the quotation currency
+  const priceLine = useCallback((item: QuotationItem, quantity: number, companyPriceLists: PriceList[]): QuotationItem => {
+    const product = products.find(p => p.id === item.product_id)
+    if (!product) {
+      return item
+    }
+
+    const unit = sellingUnitFor(product, item.unit)
+    return inCurrency(
+      {
+        ...item,
+        unit: unit.unit,
+        unit_factor: unit.factor,
+        ...catalogPriceFor(product, quantity, companyPriceLists, products, unit),
+      },
+      exchangeRate
+    )
+  }, [products, exchangeRate])
+
+  // Lines already added are re-priced under the new client's lists and withholdings
+  const applyCompanyTerms = useCallback((companyWithholdings: TaxConfiguration[], companyPriceLists: PriceList[]) => {
+    setWithholdings(companyWithholdings)
+    setPriceLists(companyPriceLists)
+    setSelectedProducts(items =>
+      items.map(item =>
+        withLineCalculation(
+          priceLine(item, item.quantity, companyPriceLists),
+          item.quantity,
+          item.discount,
+          companyWithholdings,
+          rounding
+        )
+      )
+    )
+  }, [priceLine, rounding, setSelectedProducts])
+
+  const fetchRoundingSettings = async () => {
+    setRounding(await getRoundingSettings())
+    setIsRoundingLoaded(true)
+  }
+
+  // The rate in effect today is frozen on the quotation; lines are repriced from their MXN catalog prices
+  const changeCurrency = async (code: CurrencyCode) => {
+    const rate = await getEffectiveExchangeRate(code)
+
+    if (rate === null) {
+      addNotification({
+        type: 'error',
+        title: 'No Exchange Rate',
+        message: `Enter a ${code} exchange rate before quoting in ${code}`
+      })
+      return
+    }
+
+    setCurrency(code)
+    setExchangeRate(rate)
+    setSelectedProducts(products =>
+      products.map(item =>
+        withLineCalculation(inCurrency(item, rate), item.quantity, item.discount, withholdings, rounding)
+      )
+    )
+  }
+
+  // A new line for a quantity of a product in one of its units, priced from the catalog
+  const createLine = useCallback((
+    product: Product,
+    quantity: number,
+    unit: ProductUnit,
+    companyPriceLists: PriceList[],
+    rate: number,
+    companyWithholdings: TaxConfiguration[],
+    discount: Discount | null = null
+  ): QuotationItem =>
+    withLineCalculation(
+      inCurrency(
+        {
+          id: Math.random().toString(36).substr(2, 9),
+          product_id: product.id,
+          product_code: product.code,
+          product_name: product.name,
+          unit: unit.unit,
+          unit_factor: unit.factor,
+          ...catalogPriceFor(product, quantity, companyPriceLists, products, unit),
+          bundle_components: product.is_bundle
+            ? snapshotBundleComponents(product.bundle_items ?? [], products)
+            : null,
+          expand_on_pdf: false,
+          is_optional: false,
+          alternative_group: null,
+          backorder: false,
+          catalog_taxes: getProductTaxConfigs(product),
+          tax_included: product.tax_included,
+        },
+        rate
+      ),
+      quantity,
+      discount,
+      companyWithholdings,
+      rounding
+    ), [products, rounding])
+
+  const addProduct = (product: Product) => {
+    const existingItem = selectedProducts.find(item => item.product_id === product.id && item.unit === product.unit)
+    
+    if (existingItem) {
+      updateQuantity(existingItem.id, existingItem.quantity + 1)
+    } else {
+      const newItem = createLine(product, 1, sellingUnitFor(product, product.unit), priceLists, exchangeRate, withholdings)
+
+      setSelectedProducts([...selectedProducts, newItem])
+    }
+    setShowProductSearch(false)
+    setProductSearchTerm('')
+  }
+
+  const updateQuantity = (itemId: string, newQuantity: number) => {
+    if (newQuantity <= 0) {
+      removeProduct(itemId)
+      return
+    }
+
+    // Crossing a volume tier boundary changes the unit price
+    setSelectedProducts(products => 
+      products.map(item => 
+        item.id === itemId
+          ? withLineCalculation(priceLine(item, newQuantity, priceLists), newQuantity, item.discount, withholdings, rounding)
+          : item
+      )
+    )
+  }
+
+  const updateItemDiscount = (itemId: string, discount: Discount | null) => {
+    setSelectedProducts(products =>
+      products.map(item =>
+        item.id === itemId ? withLineCalculation(item, item.quantity, discount, withholdings, rounding) : item
+      )
+    )
+  }
+
+  // Selling by the box instead of by the piece reprices the line
+  const updateUnit = (itemId: string, unit: string) => {
+    setSelectedProducts(products =>
+      products.map(item =>
+        item.id === itemId
+          ? withLineCalculation(priceLine({ ...item, unit }, item.quantity, priceLists), item.quantity, item.discount, withholdings, rounding)
+          : item
+      )
+    )
+  }
+
+  const updateExpandOnPdf = (itemId: string, expandOnPdf: boolean) => {
+    setSelectedProducts(products =>
+      products.map(item => (item.id === itemId ? { ...item, expand_on_pdf: expandOnPdf } : item))
+    )
+  }
+
+  // '' keeps the line in the quotation, 'optional' offers it on top, a group
+  // letter makes it one of a set of alternatives
+  const updateLineOption = (itemId: string, option: string) => {
+    setSelectedProducts(products =>
+      products.map(item =>
+        item.id === itemId
+          ? {
+              ...item,
+              is_optional: option === 'optional',
+              alternative_group: option && option !== 'optional' ? option : null
+            }
+          : item
+      )
+    )
+  }
+
+  // A short line is either cut to what the stock can supply or backordered whole
+  const reduceToStock = (itemId: string) => {
+    updateQuantity(itemId, availability[itemId].suppliable)
+  }
+
+  const updateBackorder = (itemId: string, backorder: boolean) => {
+    setSelectedProducts(products =>
+      products.map(item => (item.id === itemId ? { ...item, backorder } : item))
+    )
+  }
+
+  const removeProduct = (itemId: string) => {
+    setSelectedProducts(products => products.filter(item => item.id !== itemId))
+  }
+
+  // Start from a template or a past quotation: its terms and lines are copied
+  // and every line is priced again at today's catalog prices. Products no
+  // longer sold are left out and reported with the lines whose price changed.
+  const startFrom = useCallback(async (source: QuotationTemplateInput | QuotationCopy, label: string) => {
+    const copy = 'folio' in source ? source : null
+    const companyId = copy?.company_id ?? selectedCompanyId
+
+    let code = currency
+    let rate = exchangeRate
+    if (copy && copy.currency !== currency) {
+      const copyRate = await getEffectiveExchangeRate(copy.currency)
+      if (copyRate === null) {
+        addNotification({
+          type: 'error',
+          title: 'No Exchange Rate',
+          message: `No ${copy.currency} exchange rate is set, so the copy is quoted in ${currency}`
+        })
+      } else {
+        code = copy.currency
+        rate = copyRate
+      }
+    }
+
+    const companyPriceLists = companyId ? await getCompanyPriceLists(companyId) : priceLists
+    const companyWithholdings = companyId ? await getCompanyWithholdings(companyId) : withholdings
+
+    const lines = source.items.flatMap(line => {
+      const product = products.find(p => p.id === line.product_id)
+      if (!product) return []
+
+      const item = createLine(
+        product,
+        line.quantity,
+        sellingUnitFor(product, line.unit),
+        companyPriceLists,
+        rate,
+        companyWithholdings,
+        line.discount
+      )
+      return [{
+        ...item,
+        expand_on_pdf: line.expand_on_pdf,
+        is_optional: line.is_optional,
+        alternative_group: line.alternative_group,
+      }]
+    })
+
+    if (copy) {
+      setValue('company_id', copy.company_id)
+      setDocumentDiscount(copy.discount)
+    }
+    setValue('validity_days', source.validity_days)
+    if (source.terms) setValue('terms', source.terms)
+    if (source.delivery_terms) setValue('delivery_terms', source.delivery_terms)
+    if (source.payment_terms) setValue('payment_terms', source.payment_terms)
+
+    setCurrency(code)
+    setExchangeRate(rate)
+    setPriceLists(companyPriceLists)
+    setWithholdings(companyWithholdings)
+    setSelectedProducts(lines)
+    setSourceReport({ label, changes: compareSourceLines(source.items, lines) })
+  }, [selectedCompanyId, currency, exchangeRate, addNotification, priceLists, withholdings, products, createLine, setValue, setDocumentDiscount, setCurrency, setExchangeRate, setSelectedProducts])
+
+  const applyTemplate = () => {
+    const template = templates.find(t => t.id === templateId)
+    if (!template) return
+
+    if (selectedProducts.length > 0 && !confirm(`Replace the current lines with template "${template.name}"?`)) return
+
+    startFrom(template, `template "${template.name}"`)
+  }
+
+  const saveAsTemplate = async () => {
+    const name = prompt('Template name')?.trim()
+    if (!name) return
+
+    const existing = templates.find(t => t.name.toLowerCase() === name.toLowerCase())
+    if (existing && !confirm(`Replace the lines and terms of template "${existing.name}"?`)) return
+
+    const values = getValues()
+    const result = await saveQuotationTemplate(
+      {
+        name,
+        validity_days: values.validity_days,
+        terms: values.terms,
+        delivery_terms: values.delivery_terms,
+        payment_terms: values.payment_terms,
+        items: selectedProducts.map(item => ({
+          product_id: item.product_id,
+          product_code: item.product_code,
+          product_name: item.product_name,
+          unit: item.unit,
+          quantity: item.quantity,
+          discount: item.discount,
+          is_optional: item.is_optional,
+          alternative_group: item.alternative_group,
+          expand_on_pdf: item.expand_on_pdf,
+        })),
+      },
+      existing?.id
+    )
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Template Saved' : 'Error',
+      message: result.message
+    })
+    if (result.success) {
+      fetchTemplates()
+    }
+  }
+
+  const removeTemplate = async () => {
+    const template = templates.find(t => t.id === templateId)
+    if (!template || !confirm(`Delete template "${template.name}"?`)) return
+
+    const result = await deleteQuotationTemplate(template.id)
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? 'Template Deleted' : 'Error',
+      message: result.message
+    })
+    if (result.success) {
+      setTemplateId('')
+      fetchTemplates()
+    }
+  }
+
+  // Optional and alternative lines stay out of the totals until the client picks them
+  const standardLines = useMemo(() => selectedProducts.filter(item => !isOptionLine(item)), [selectedProducts])
+  const optionLines = selectedProducts.filter(isOptionLine)
+
+  // Included lines claim the available stock before options do
+  const availability: Record<string, LineAvailability> = Object.fromEntries(
+    checkAvailability([...standardLines, ...optionLines], availableStock, restockDates).map(line => [line.id, line])
+  )
+
+  // Line subtotals are already net of line discounts; the document discount
+  // applies to what is left and is spread back over the lines before tax
+  const getDocumentDiscount = useCallback(() =>
+    clampDiscount(
+      documentDiscount,
+      sumMoney(standardLines.map(item => item.subtotal))
+    ), [documentDiscount, standardLines])
+
+  // A percentage discount applies to an option line on its own; a fixed
+  // amount is spread over the standard lines only
+  const discountOptionLine = useCallback((item: QuotationItem, discount: Discount | null) =>
+    discount?.type === 'percentage' ? applyDocumentDiscount([item], discount, rounding)[0] : item, [rounding])
+
+  const calculateTotals = () => {
+    const totals = calculateDocumentTotals(standardLines, getDocumentDiscount(), rounding)
+
+    return {
+      grossSubtotal: sumMoney([totals.subtotal, totals.discount_amount]),
+      discountAmount: totals.discount_amount,
+      subtotal: totals.subtotal,
+      taxAmount: totals.tax_amount,
+      withholdingAmount: totals.withholding_amount,
+      taxBreakdown: totals.tax_breakdown,
+      total: totals.total,
+    }
+  }
+
+  // Document columns the builder sets
+  // Header fields a draft's builder edits; the client is set when the quotation is created
+  const headerFields = useCallback((data: QuotationFormData) => {
+    const discount = getDocumentDiscount()
+
+    return {
+      contact_name: data.contact_name,
+      contact_email: data.contact_email,
+      contact_phone: data.contact_phone,
+      validity_days: data.validity_days,
+      terms: data.terms,
+      delivery_terms: data.delivery_terms,
+      payment_terms: data.payment_terms,
+      currency,
+      exchange_rate: exchangeRate,
+      discount_type: discount?.type ?? null,
+      discount_value: discount?.value ?? 0,
+    }
+  }, [getDocumentDiscount, currency, exchangeRate])
+
+  const documentFields = (data: QuotationFormData) => {
+    const totals = calculateTotals()
+
+    return {
+      company_id: data.company_id,
+      ...headerFields(data),
+      discount_amount: totals.discountAmount,
+      subtotal: totals.subtotal,
+      tax_amount: totals.taxAmount,
+      withholding_amount: totals.withholdingAmount,
+      total: totals.total,
+    }
+  }
+
+  // Item rows by line id, each carrying its share of the document discount
+  const itemRows = useCallback(() => {
+    const discount = getDocumentDiscount()
+    const standardAmounts = applyDocumentDiscount(standardLines, discount, rounding)
+    const lines = selectedProducts.map(item =>
+      isOptionLine(item) ? discountOptionLine(item, discount) : standardAmounts[standardLines.indexOf(item)]
+    )
+
+    return selectedProducts.map((item, index) => ({
+      id: item.id,
+      row: {
+        product_id: item.product_id,
+        product_code: item.product_code,
+        product_name: item.product_name,
+        unit: item.unit,
+        unit_factor: item.unit_factor,
+        quantity: item.quantity,
+        list_price: item.list_price,
+        price_list_id: item.price_list_id,
+        tier_min_quantity: item.price_tier?.min_quantity ?? null,
+        tier_max_quantity: item.price_tier?.max_quantity ?? null,
+        bundle_components: item.bundle_components,
+        expand_on_pdf: item.expand_on_pdf,
+        is_optional: item.is_optional,
+        alternative_group: item.alternative_group,
+        is_selected: !isOptionLine(item),
+        backorder: item.backorder ?? false,
+        tax_included: item.tax_included,
+        unit_price: item.unit_price,
+        tax_rate: item.tax_rate,
+        discount_type: item.discount?.type ?? null,
+        discount_value: item.discount?.value ?? 0,
+        discount_amount: lines[index].discount_amount,
+        taxes: lines[index].taxes,
+        tax_amount: lines[index].tax_amount,
+        withholding_amount: lines[index].withholding_amount,
+        subtotal: lines[index].subtotal,
+        total: lines[index].total,
+      },
+    }))
+  }, [getDocumentDiscount, standardLines, rounding, selectedProducts, discountOptionLine])
+
+  const createQuotation = async (data: QuotationFormData) => {
+    setIsLoading(true)
+
+    try {
+      const userId = (await supabase.auth.getUser()).data.user?.id
+
+      // Create quotation; the database assigns the next sequential folio
+      const { data: quotation, error: quotationError } = await supabase
+        .from('documents')
+        .insert({
+          type: 'quotation',
+          client_id: userId,
+          quotation_status: 'draft',
+          ...documentFields(data),
+          created_by: userId,
+        })
+        .select()
+        .single()
+
+      if (quotationError) throw quotationError
+
+      const { error: itemsError } = await supabase
+        .from('document_items')
+        .insert(itemRows().map(({ row }) => ({ document_id: quotation.id, ...row })))
+
+      if (itemsError) throw itemsError
+
+      resetWorkingCopy()
+
+      addNotification({
+        type: 'success',
+        title: 'Quotation Created',
+        message: `Quotation ${quotation.folio} has been created successfully`
+      })
+
+      router.push('/admin/quotations')
+    } catch (error) {
+      console.error('Error creating quotation:', error)
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to create quotation'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Save a draft being edited, writing only the fields and lines that changed
+  const saveDraft = useCallback(async (data: QuotationFormData, isAutosave: boolean = false) => {
+    const saved = savedRef.current
+    if (!quotationId || !saved || isSavingRef.current) return
+
+    isSavingRef.current = true
+    const version = useQuotationFormStore.getState().updatedAt
+    if (isAutosave) {
+      setIsAutosaving(true)
+    } else {
+      setIsLoading(true)
+    }
+
+    try {
+      const userId = (await supabase.auth.getUser()).data.user?.id ?? ''
+      const header = headerFields(data)
+      const rows = itemRows()
+      const { inserts, updates, deletes } = diffQuotationItems(saved.items, rows)
+
+      // Written together, and only while the quotation is still a draft;
+      // the database adds up the totals
+      const result = await saveQuotationDraft(quotationId, userId, {
+        document: hasRowChanged(header, saved.document) ? header : null,
+        inserts: inserts.map(({ row }) => row),
+        updates,
+        deletes,
+      })
+
+      if (!result.success) {
+        addNotification({
+          type: 'error',
+          title: 'Error',
+          message: result.message
+        })
+        return
+      }
+
+      // New lines take the ids the database gave them
+      const itemIds: Record<string, string> = {}
+      inserts.forEach((line, index) => {
+        itemIds[line.id] = (result.itemIds ?? [])[index]
+      })
+
+      savedRef.current = {
+        document: { ...saved.document, ...header },
+        items: Object.fromEntries(rows.map(({ id, row }) => [itemIds[id] ?? id, row])),
+      }
+      markSaved(quotationId, itemIds, version)
+
+      if (!isAutosave) {
+        resetWorkingCopy()
+        addNotification({
+          type: 'success',
+          title: 'Quotation Saved',
+          message: `Quotation ${folio} has been saved`
+        })
+        router.push('/admin/quotations')
+      }
+    } catch (error) {
+      console.error('Error saving quotation:', error)
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: isAutosave ? 'Changes could not be saved automatically' : 'Failed to save quotation'
+      })
+    } finally {
+      isSavingRef.current = false
+      setIsLoading(false)
+      setIsAutosaving(false)
+    }
+  }, [quotationId, supabase, headerFields, itemRows, addNotification, markSaved, resetWorkingCopy, folio, router])
+
+  useEffect(() => {
+    fetchCompanies()
+    fetchProducts()
+    fetchRoundingSettings()
+    fetchTemplates()
+    initializeWorkingCopy()
+  }, [fetchCompanies, fetchProducts, initializeWorkingCopy])
+
+  // Header fields are kept with the working copy
+  useEffect(() => {
+    const subscription = watch((values) => setHeader({ ...QUOTATION_FORM_DEFAULTS, ...values }))
+    return () => subscription.unsubscribe()
+  }, [watch, setHeader])
+
+  // Copies and drafts are priced once the catalog and the rounding settings are loaded
+  useEffect(() => {
+    if (pendingCopy && products.length > 0 && isRoundingLoaded) {
+      startFrom(pendingCopy, `quotation ${pendingCopy.folio}`)
+      setPendingCopy(null)
+    }
+  }, [pendingCopy, products, isRoundingLoaded, startFrom])
+
+  useEffect(() => {
+    if (pendingDraft && products.length > 0 && isRoundingLoaded) {
+      applyDraft(pendingDraft.draft, pendingDraft.keepWorkingCopy)
+      setPendingDraft(null)
+    }
+  }, [pendingDraft, products, isRoundingLoaded, applyDraft])
+
+  useEffect(() => {
+    if (selectedCompanyId) {
+      const isLoaded = selectedCompanyId === loadedCompanyRef.current
+      loadedCompanyRef.current = null
+
+      if (!isLoaded) {
+        fetchCompanyContacts(selectedCompanyId)
+      }
+      fetchCompanyTerms(selectedCompanyId, !isLoaded)
+    } else {
+      setPendingCompany({ withholdings: [], priceLists: [], reprice: true })
+    }
+  }, [selectedCompanyId, fetchCompanyContacts])
+
+  // Lines of a loaded quotation keep their prices and amounts until they change
+  useEffect(() => {
+    if (!pendingCompany) return
+
+    if (pendingCompany.reprice) {
+      applyCompanyTerms(pendingCompany.withholdings, pendingCompany.priceLists)
+    } else {
+      setWithholdings(pendingCompany.withholdings)
+      setPriceLists(pendingCompany.priceLists)
+    }
+    setPendingCompany(null)
+  }, [pendingCompany, applyCompanyTerms])
+
+  // Drafts being edited are saved shortly after the last change
+  useEffect(() => {
+    if (!quotationId || !isDirty || !savedRef.current) return
+
+    const timer = setTimeout(() => {
+      const parsed = quotationSchema.safeParse(getValues())
+      if (parsed.success && selectedProducts.length > 0) {
+        saveDraft(parsed.data, true)
+      }
+    }, AUTOSAVE_DELAY)
+    return () => clearTimeout(timer)
+  }, [quotationId, isDirty, updatedAt, getValues, saveDraft, selectedProducts.length])
+
+  // Stock of the products quoted, kit components included, fetched again
+  // only when a product is added or removed
+  const stockProductIds = getLineProductIds(selectedProducts).sort().join(',')
+  useEffect(() => {
+    if (stockProductIds) {
+      fetchAvailableStock(stockProductIds.split(','))
+    }
+  }, [stockProductIds])
+
+  const onSubmit = async (data: QuotationFormData) => {
+    if (selectedProducts.length === 0) {
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Please add at least one product to the quotation'
+      })
+      return
+    }
+
+    if (quotationId) {
+      await saveDraft(data)
+    } else {
+      await createQuotation(data)
+    }
+  }
+
+  const filteredProducts = products.filter(product =>
+    product.name.toLowerCase().includes(productSearchTerm.toLowerCase()) ||
+    product.code.toLowerCase().includes(productSearchTerm.toLowerCase())
+  )
+
+  const totals = calculateTotals()
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Link href="/admin/quotations">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Quotations
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              {quotationId ? `Edit Quotation ${folio}` : 'Create Quotation'}
+            </h1>
+            <p className="text-gray-600 mt-1">
+              {quotationId ? 'Changes to this draft are saved automatically' : 'Generate a new quotation for a client'}
+            </p>
+          </div>
+        </div>
+        {quotationId && (
+          <span className={`text-sm ${isDirty ? 'text-yellow-600' : 'text-gray-500'}`}>
+            {isAutosaving ? 'Saving...' : isDirty ? 'Unsaved changes' : 'All changes saved'}
+          </span>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        {/* Basic Information */}
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Client Information</h2>
+          
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <Label htmlFor="company_id">Company *</Label>
+              {quotationId ? (
+                // A saved quotation keeps its client; duplicate it to quote another
+                <>
+                  <input type="hidden" {...register('company_id')} />
+                  <div className="mt-1 px-3 py-2 border border-gray-200 rounded-md bg-gray-50 text-gray-700">
+                    {companies.find(company => company.id === selectedCompanyId)?.name ?? '-'}
+                  </div>
+                </>
+              ) : (
+                <select
+                  {...register('company_id')}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+                >
+                  <option value="">Select a company</option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>
+                      {company.name} {company.rfc && `(${company.rfc})`}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {errors.company_id && (
+                <p className="mt-1 text-sm text-red-600">{errors.company_id.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="validity_days">Validity (Days) *</Label>
+              <Input
+                id="validity_days"
+                type="number"
+                {...register('validity_days', { valueAsNumber: true })}
+                className={errors.validity_days ? 'border-red-300' : ''}
+              />
+              {errors.validity_days && (
+                <p className="mt-1 text-sm text-red-600">{errors.validity_days.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="currency">Currency *</Label>
+              <select
+                id="currency"
+                value={currency}
+                onChange={(e) => isSupportedCurrency(e.target.value) && changeCurrency(e.target.value)}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+              >
+                {SUPPORTED_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+              {currency !== 'MXN' && (
+                <p className="mt-1 text-sm text-gray-500">
+                  Exchange rate: {exchangeRate} MXN per {currency}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="contact_name">Contact Name *</Label>
+              <Input
+                id="contact_name"
+                {...register('contact_name')}
+                className={errors.contact_name ? 'border-red-300' : ''}
+              />
+              {errors.contact_name && (
+                <p className="mt-1 text-sm text-red-600">{errors.contact_name.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="contact_email">Contact Email *</Label>
+              <Input
+                id="contact_email"
+                type="email"
+                {...register('contact_email')}
+                className={errors.contact_email ? 'border-red-300' : ''}
+              />
+              {errors.contact_email && (
+                <p className="mt-1 text-sm text-red-600">{errors.contact_email.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="contact_phone">Contact Phone</Label>
+              <Input
+                id="contact_phone"
+                {...register('contact_phone')}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Products */}
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Products</h2>
+            <div className="flex items-center space-x-2">
+              <select
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                aria-label="Quotation template"
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+              >
+                <option value="">Start from a template...</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+              <Button type="button" variant="outline" onClick={applyTemplate} disabled={!templateId}>
+                Use Template
+              </Button>
+              {templateId && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={removeTemplate}
+                  className="text-red-600 hover:text-red-900"
+                  title="Delete template"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={saveAsTemplate}
+                disabled={selectedProducts.length === 0}
+              >
+                Save as Template
+              </Button>
+              <Button
+                type="button"
+                onClick={() => setShowProductSearch(true)}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Product
+              </Button>
+            </div>
+          </div>
+
+          {/* What changed since the template or quotation was saved */}
+          {sourceReport && (
+            <div className="mb-4 rounded-md border border-yellow-200 bg-yellow-50 p-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm font-medium text-yellow-800">
+                    Started from {sourceReport.label} at current prices
+                  </p>
+                  {sourceReport.changes.length > 0 ? (
+                    <ul className="mt-2 space-y-1 text-sm text-yellow-700">
+                      {sourceReport.changes.map((change, index) => (
+                        <li key={`${change.product_code}-${index}`}>{describeSourceLineChange(change, currency)}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="mt-1 text-sm text-yellow-700">No prices changed and every product is still available.</p>
+                  )}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSourceReport(null)}
+                  aria-label="Dismiss"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Product Search Modal */}
+          {showProductSearch && (
+            <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+              <div className="bg-white rounded-lg w-full max-w-2xl max-h-[80vh] flex flex-col">
+                <div className="flex items-center justify-between p-4 border-b">
+                  <h3 className="text-lg font-semibold">Add Product</h3>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowProductSearch(false)}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+                
+                <div className="p-4 border-b">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                    <Input
+                      type="text"
+                      placeholder="Search products..."
+                      value={productSearchTerm}
+                      onChange={(e) => setProductSearchTerm(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+                </div>
+                
+                <div className="flex-1 overflow-y-auto p-4">
+                  <div className="space-y-2">
+                    {filteredProducts.map((product) => (
+                      <div
+                        key={product.id}
+                        onClick={() => addProduct(product)}
+                        className="p-3 border rounded-lg hover:bg-gray-50 cursor-pointer"
+                      >
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <div className="font-medium">{product.name}</div>
+                            <div className="text-sm text-gray-600">
+                              {product.code} • {product.unit}
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <div className="font-medium">{formatCurrency(catalogPriceFor(product, 1, priceLists, products).catalog_price)}</div>
+                            <div className="text-sm text-gray-600">per {product.unit}</div>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Selected Products Table */}
+          {selectedProducts.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Product
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Quantity
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Unit Price
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Discount
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Subtotal
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Tax
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Total
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {selectedProducts.map((item) => (
+                    <tr key={item.id}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{item.product_name}</div>
+                          <div className="text-sm text-gray-500">{item.product_code}</div>
+                          {(item.price_list_id || item.price_tier) && (
+                            <div className="text-xs text-green-700 mt-1">{item.price_source}</div>
+                          )}
+                          {item.unavailable && (
+                            <div className="text-xs text-amber-700 mt-1">No longer in the catalog · kept as quoted</div>
+                          )}
+                          {item.bundle_components && (
+                            <div className="mt-1 space-y-0.5">
+                              {item.bundle_components.map((component) => (
+                                <div key={component.product_id} className="text-xs text-gray-500">
+                                  {component.quantity} × {component.product_name}
+                                </div>
+                              ))}
+                              <label className="flex items-center space-x-1 text-xs text-gray-600">
+                                <input
+                                  type="checkbox"
+                                  checked={item.expand_on_pdf}
+                                  onChange={(e) => updateExpandOnPdf(item.id, e.target.checked)}
+                                  disabled={item.unavailable}
+                                  className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                                />
+                                <span>List components on PDF</span>
+                              </label>
+                            </div>
+                          )}
+                          <select
+                            value={item.is_optional ? 'optional' : item.alternative_group ?? ''}
+                            onChange={(e) => updateLineOption(item.id, e.target.value)}
+                            disabled={item.unavailable}
+                            aria-label={`Line type for ${item.product_name}`}
+                            className="mt-1 text-xs border border-gray-300 rounded px-1 py-0.5"
+                          >
+                            <option value="">Included</option>
+                            <option value="optional">Optional</option>
+                            {ALTERNATIVE_GROUPS.map((group) => (
+                              <option key={group} value={group}>Alternative {group}</option>
+                            ))}
+                          </select>
+                          {availability[item.id]?.shortage > 0 && !item.unavailable && (
+                            <StockNotice
+                              availability={availability[item.id]}
+                              unit={item.unit}
+                              onReduce={() => reduceToStock(item.id)}
+                              onBackorderChange={(backorder) => updateBackorder(item.id, backorder)}
+                            />
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                            disabled={item.unavailable}
+                          >
+                            <Minus className="w-3 h-3" />
+                          </Button>
+                          <span className="w-12 text-center">{item.quantity}</span>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                            disabled={item.unavailable}
+                          >
+                            <Plus className="w-3 h-3" />
+                          </Button>
+                        </div>
+                        <UnitSelect
+                          product={products.find(product => product.id === item.product_id)}
+                          unit={item.unit}
+                          onChange={(unit) => updateUnit(item.id, unit)}
+                          ariaLabel={`Unit for ${item.product_name}`}
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatCurrency(item.unit_price, currency)}
+                        <div className="text-xs text-gray-500">per {item.unit}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {!item.unavailable && (
+                          <DiscountInput
+                            discount={item.discount}
+                            onChange={(discount) => updateItemDiscount(item.id, discount)}
+                            ariaLabel={`Discount for ${item.product_name}`}
+                          />
+                        )}
+                        {item.discount_amount > 0 && (
+                          <div className="text-xs text-green-700 mt-1">-{formatCurrency(item.discount_amount, currency)}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatCurrency(item.subtotal, currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatCurrency(item.tax_amount, currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {formatCurrency(item.total, currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeProduct(item.id)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              
+              {/* Totals */}
+              <div className="border-t border-gray-200 bg-gray-50 px-6 py-4">
+                <div className="flex justify-end items-center space-x-2 mb-3">
+                  <Label htmlFor="document_discount" className="text-sm text-gray-600">
+                    Quotation discount:
+                  </Label>
+                  <DiscountInput
+                    id="document_discount"
+                    discount={documentDiscount}
+                    onChange={setDocumentDiscount}
+                    ariaLabel="Quotation discount"
+                  />
+                </div>
+                <div className="flex justify-end space-x-8">
+                  <div className="text-right">
+                    <div className="text-sm text-gray-600">Subtotal:</div>
+                    {totals.discountAmount > 0 && (
+                      <>
+                        <div className="text-sm text-gray-600">Discount:</div>
+                        <div className="text-sm text-gray-600">Discounted subtotal:</div>
+                      </>
+                    )}
+                    {totals.taxBreakdown.length > 0 ? (
+                      totals.taxBreakdown.map((entry, index) => (
+                        <div key={`${entry.kind}-${entry.code}-${index}`} className="text-sm text-gray-600">
+                          {formatTaxLabel(entry)}:
+                        </div>
+                      ))
+                    ) : (
+                      <div className="text-sm text-gray-600">Tax:</div>
+                    )}
+                    <div className="text-lg font-semibold text-gray-900">Total:</div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm text-gray-900">{formatCurrency(totals.grossSubtotal, currency)}</div>
+                    {totals.discountAmount > 0 && (
+                      <>
+                        <div className="text-sm text-green-700">-{formatCurrency(totals.discountAmount, currency)}</div>
+                        <div className="text-sm text-gray-900">{formatCurrency(totals.subtotal, currency)}</div>
+                      </>
+                    )}
+                    {totals.taxBreakdown.length > 0 ? (
+                      totals.taxBreakdown.map((entry, index) => (
+                        <div key={`${entry.kind}-${entry.code}-${index}`} className="text-sm text-gray-900">
+                          {entry.kind === 'withheld' ? '-' : ''}{formatCurrency(entry.amount, currency)}
+                        </div>
+                      ))
+                    ) : (
+                      <div className="text-sm text-gray-900">{formatCurrency(totals.taxAmount, currency)}</div>
+                    )}
+                    <div className="text-lg font-semibold text-gray-900">{formatCurrency(totals.total, currency)}</div>
+                  </div>
+                </div>
+                {optionLines.length > 0 && (
+                  <div className="flex justify-end mt-2 text-sm text-gray-500">
+                    Optional and alternative lines (not in total):{' '}
+                    {formatCurrency(sumMoney(optionLines.map(item => discountOptionLine(item, getDocumentDiscount()).total)), currency)}
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <p className="text-gray-500">No products added yet. Click "Add Product" to start.</p>
+            </div>
+          )}
+        </div>
+
+        {/* Terms and Conditions */}
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Terms and Conditions</h2>
+          
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="terms">Terms and Conditions *</Label>
+              <textarea
+                {...register('terms')}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+                rows={3}
+              />
+              {errors.terms && (
+                <p className="mt-1 text-sm text-red-600">{errors.terms.message}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="delivery_terms">Delivery Terms *</Label>
+                <Input
+                  id="delivery_terms"
+                  {...register('delivery_terms')}
+                  className={errors.delivery_terms ? 'border-red-300' : ''}
+                />
+                {errors.delivery_terms && (
+                  <p className="mt-1 text-sm text-red-600">{errors.delivery_terms.message}</p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="payment_terms">Payment Terms *</Label>
+                <Input
+                  id="payment_terms"
+                  {...register('payment_terms')}
+                  className={errors.payment_terms ? 'border-red-300' : ''}
+                />
+                {errors.payment_terms && (
+                  <p className="mt-1 text-sm text-red-600">{errors.payment_terms.message}</p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end space-x-4">
+          <Link href="/admin/quotations">
+            <Button type="button" variant="outline" onClick={() => resetWorkingCopy()}>
+              Cancel
+            </Button>
+          </Link>
+          <Button
+            type="submit"
+            disabled={isLoading || selectedProducts.length === 0}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {isLoading ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                {quotationId ? 'Saving...' : 'Creating...'}
+              </>
+            ) : (
+              <>
+                <Save className="w-4 h-4 mr-2" />
+                {quotationId ? 'Save Changes' : 'Create Quotation'}
+              </>
+            )}
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+interface UnitSelectProps {
+  product: Product | undefined
+  unit: string
+  onChange: (unit: string) => void
+  ariaLabel: string
+}
+
+/**
+ * Unit a line is sold in, for products sold in more than one
+ */
+function UnitSelect({ product, unit, onChange, ariaLabel }: UnitSelectProps) {
+  const units = product ? getSellingUnits(product.unit, product.units) : []
+
+  if (units.length <= 1) {
+    return <div className="text-xs text-gray-500 mt-1">{unit}</div>
+  }
+
+  return (
+    <select
+      value={unit}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={ariaLabel}
+      className="mt-1 px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-green-500 focus:border-green-500"
+    >
+      {units.map((option) => (
+        <option key={option.unit} value={option.unit}>
+          {option.factor > 1 ? `${option.unit} (${option.factor} ${product?.unit})` : option.unit}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+interface StockNoticeProps {
+  availability: LineAvailability
+  unit: string
+  onReduce: () => void
+  onBackorderChange: (backorder: boolean) => void
+}
+
+/**
+ * Flag on a line the available stock cannot supply, with its options:
+ * quote only what is in stock, or backorder the rest
+ */
+function StockNotice({ availability, unit, onReduce, onBackorderChange }: StockNoticeProps) {
+  return (
+    <div className={`mt-1 text-xs ${availability.backorder ? 'text-amber-700' : 'text-red-600'}`}>
+      <div>
+        {availability.backorder
+          ? `${availability.shortage} ${unit} backordered`
+          : `Only ${availability.suppliable} ${unit} in stock`}
+        {availability.restockDate && ` · restock ${formatDate(availability.restockDate)}`}
+      </div>
+      <div className="flex items-center space-x-2">
+        {!availability.backorder && (
+          <button type="button" onClick={onReduce} className="underline hover:no-underline">
+            {availability.suppliable > 0 ? `Quote ${availability.suppliable}` : 'Remove'}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => onBackorderChange(!availability.backorder)}
+          className="underline hover:no-underline"
+        >
+          {availability.backorder ? 'Cancel backorder' : 'Backorder'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface DiscountInputProps {
+  id?: string
+  discount: Discount | null
+  onChange: (discount: Discount | null) => void
+  ariaLabel: string
+}
+
+/**
+ * Percentage or fixed-amount discount entry
+ * Percentages are typed as 0-100 and stored as fractions, like tax rates.
+ */
+function DiscountInput({ id, discount, onChange, ariaLabel }: DiscountInputProps) {
+  const [type, setType] = useState<DiscountType>(discount?.type ?? 'percentage')
+  const displayValue = discount
+    ? roundToPesos(discount.type === 'percentage' ? discount.value * 100 : discount.value)
+    : ''
+
+  const handleValueChange = (raw: string) => {
+    const value = parseFloat(raw)
+    if (isNaN(value) || value <= 0) {
+      onChange(null)
+      return
+    }
+    onChange({ type, value: type === 'percentage' ? value / 100 : value })
+  }
+
+  const handleTypeChange = (newType: DiscountType) => {
+    setType(newType)
+    if (discount) {
+      const entered = discount.type === 'percentage' ? discount.value * 100 : discount.value
+      onChange({ type: newType, value: newType === 'percentage' ? entered / 100 : entered })
+    }
+  }
+
+  return (
+    <div className="flex items-center space-x-1">
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step="0.01"
+        value={displayValue}
+        onChange={(e) => handleValueChange(e.target.value)}
+        aria-label={ariaLabel}
+        className="w-24"
+      />
+      <select
+        value={type}
+        onChange={(e) => handleTypeChange(e.target.value as DiscountType)}
+        aria-label={`${ariaLabel} type`}
+        className="px-2 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+      >
+        <option value="percentage">%</option>
+        <option value="fixed_amount">$</option>
+      </select>
+    </div>
+  )
+}
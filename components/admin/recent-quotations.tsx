@@ -2,6 +2,7 @@
 
 import Link from 'next/link'
 import { formatCurrency, formatDate, getStatusColor, getStatusText } from '@/lib/utils'
+import type { CurrencyCode } from '@/lib/currency'
 import { Eye, ExternalLink } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 
@@ -10,6 +11,7 @@ interface RecentQuotation {
   folio: string
   companyName: string
   total: number
+  currency: CurrencyCode
   status: string
   createdAt: string
 }
@@ -77,7 +79,7 @@ export function RecentQuotations({ quotations }: RecentQuotationsProps) {
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm font-medium text-gray-900">
-                    {formatCurrency(quotation.total)}
+                    {formatCurrency(quotation.total, quotation.currency)}
                   </div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
@@ -0,0 +1,338 @@
+'use client'
+
+import { useState } from 'react'
+import { useNotificationStore } from '@/lib/store'
+import { saveSupplier, type Supplier, type SupplierProduct } from '@/lib/suppliers'
+import { Loader2, Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+
+interface ProductOption {
+  id: string
+  code: string
+  name: string
+  unit: string
+  cost_price: number
+}
+
+interface SupplierFormProps {
+  supplier?: Supplier | null
+  products: ProductOption[]
+  onSubmit: () => void
+}
+
+interface Entry {
+  key: string
+  product_id: string
+  supplier_code: string
+  cost: string
+  lead_time_days: string // Blank to use the supplier's
+  is_preferred: boolean
+}
+
+function toEntry(item: SupplierProduct): Entry {
+  return {
+    key: item.id || item.product_id,
+    product_id: item.product_id,
+    supplier_code: item.supplier_code || '',
+    cost: String(item.cost),
+    lead_time_days: item.lead_time_days != null ? String(item.lead_time_days) : '',
+    is_preferred: item.is_preferred
+  }
+}
+
+function toItem(entry: Entry): SupplierProduct {
+  return {
+    product_id: entry.product_id,
+    supplier_code: entry.supplier_code || null,
+    cost: entry.cost === '' ? NaN : parseFloat(entry.cost),
+    lead_time_days: entry.lead_time_days === '' ? null : parseInt(entry.lead_time_days, 10),
+    is_preferred: entry.is_preferred
+  }
+}
+
+export function SupplierForm({ supplier, products, onSubmit }: SupplierFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [name, setName] = useState(supplier?.name || '')
+  const [rfc, setRfc] = useState(supplier?.rfc || '')
+  const [contactName, setContactName] = useState(supplier?.contact_name || '')
+  const [email, setEmail] = useState(supplier?.email || '')
+  const [phone, setPhone] = useState(supplier?.phone || '')
+  const [address, setAddress] = useState(supplier?.address || '')
+  const [leadTimeDays, setLeadTimeDays] = useState(String(supplier?.lead_time_days ?? 0))
+  const [paymentTerms, setPaymentTerms] = useState(supplier?.payment_terms || '')
+  const [notes, setNotes] = useState(supplier?.notes || '')
+  const [isActive, setIsActive] = useState(supplier?.is_active ?? true)
+  const [entries, setEntries] = useState<Entry[]>((supplier?.supplier_products || []).map(toEntry))
+  const { addNotification } = useNotificationStore()
+
+  const addEntry = () => {
+    setEntries(current => [
+      ...current,
+      { key: Math.random().toString(36).substr(2, 9), product_id: '', supplier_code: '', cost: '', lead_time_days: '', is_preferred: false }
+    ])
+  }
+
+  const updateEntry = (key: string, changes: Partial<Entry>) => {
+    setEntries(current => current.map(entry => (entry.key === key ? { ...entry, ...changes } : entry)))
+  }
+
+  // Start a new entry's cost from the product's current cost
+  const selectProduct = (key: string, productId: string) => {
+    const product = products.find(option => option.id === productId)
+    setEntries(current => current.map(entry => (
+      entry.key === key
+        ? { ...entry, product_id: productId, cost: entry.cost || (product ? String(product.cost_price) : '') }
+        : entry
+    )))
+  }
+
+  const removeEntry = (key: string) => {
+    setEntries(current => current.filter(entry => entry.key !== key))
+  }
+
+  const onFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    const result = await saveSupplier(
+      {
+        name,
+        rfc: rfc || null,
+        contact_name: contactName || null,
+        email: email || null,
+        phone: phone || null,
+        address: address || null,
+        lead_time_days: leadTimeDays === '' ? 0 : parseInt(leadTimeDays, 10),
+        payment_terms: paymentTerms || null,
+        notes: notes || null,
+        is_active: isActive,
+        supplier_products: entries.map(toItem)
+      },
+      supplier?.id
+    )
+
+    addNotification({
+      type: result.success ? 'success' : 'error',
+      title: result.success ? (supplier ? 'Supplier Updated' : 'Supplier Created') : 'Error',
+      message: result.message
+    })
+
+    setIsLoading(false)
+    if (result.success) {
+      onSubmit()
+    }
+  }
+
+  return (
+    <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>
+          {supplier ? 'Edit Supplier' : 'Add New Supplier'}
+        </DialogTitle>
+      </DialogHeader>
+
+      <form id="supplier-form" onSubmit={onFormSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="name">Name *</Label>
+            <Input
+              id="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Distribuidora del Bajío"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rfc">RFC</Label>
+            <Input
+              id="rfc"
+              value={rfc}
+              onChange={(e) => setRfc(e.target.value.toUpperCase())}
+              placeholder="ABC123456T12"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contact_name">Contact</Label>
+            <Input
+              id="contact_name"
+              value={contactName}
+              onChange={(e) => setContactName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="phone">Phone</Label>
+            <Input
+              id="phone"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="lead_time_days">Lead Time (days)</Label>
+            <Input
+              id="lead_time_days"
+              type="number"
+              step="1"
+              min="0"
+              value={leadTimeDays}
+              onChange={(e) => setLeadTimeDays(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="address">Address</Label>
+            <Input
+              id="address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment_terms">Payment Terms</Label>
+            <Input
+              id="payment_terms"
+              value={paymentTerms}
+              onChange={(e) => setPaymentTerms(e.target.value)}
+              placeholder="e.g., 30 días"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">Notes</Label>
+            <Input
+              id="notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Products */}
+        <div className="space-y-4 border-t pt-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Products</h3>
+              <p className="text-sm text-gray-500">
+                Cost per base unit in MXN; leave the lead time blank to use the supplier&apos;s
+              </p>
+            </div>
+            <Button type="button" variant="outline" size="sm" onClick={addEntry}>
+              <Plus className="w-4 h-4 mr-1" />
+              Product
+            </Button>
+          </div>
+
+          {entries.map((entry) => (
+            <div key={entry.key} className="flex items-center space-x-2">
+              <select
+                value={entry.product_id}
+                onChange={(e) => selectProduct(entry.key, e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                <option value="">Select a product</option>
+                {products.map((product) => (
+                  <option key={product.id} value={product.id}>
+                    {product.code} - {product.name}
+                  </option>
+                ))}
+              </select>
+              <Input
+                value={entry.supplier_code}
+                onChange={(e) => updateEntry(entry.key, { supplier_code: e.target.value })}
+                placeholder="Their code"
+                className="w-28"
+              />
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={entry.cost}
+                onChange={(e) => updateEntry(entry.key, { cost: e.target.value })}
+                placeholder="Cost"
+                className="w-28"
+              />
+              <Input
+                type="number"
+                step="1"
+                min="0"
+                value={entry.lead_time_days}
+                onChange={(e) => updateEntry(entry.key, { lead_time_days: e.target.value })}
+                placeholder="Days"
+                className="w-20"
+              />
+              <label className="flex items-center space-x-1 text-sm text-gray-600 whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={entry.is_preferred}
+                  onChange={(e) => updateEntry(entry.key, { is_preferred: e.target.checked })}
+                  className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                />
+                <span>Preferred</span>
+              </label>
+              <Button type="button" variant="outline" size="sm" onClick={() => removeEntry(entry.key)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          {entries.length === 0 && (
+            <p className="text-sm text-gray-400">No products yet</p>
+          )}
+        </div>
+
+        {/* Status */}
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="is_active"
+            checked={isActive}
+            onChange={(e) => setIsActive(e.target.checked)}
+            className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+          />
+          <Label htmlFor="is_active">Supplier is active</Label>
+        </div>
+      </form>
+
+      <DialogFooter>
+        <Button
+          type="submit"
+          form="supplier-form"
+          disabled={isLoading}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            supplier ? 'Update Supplier' : 'Create Supplier'
+          )}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  )
+}
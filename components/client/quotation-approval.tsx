@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Textarea } from '@/components/ui/textarea'
@@ -9,10 +9,13 @@ import { AlertCircle, CheckCircle, XCircle, Eye } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import type { ClientQuotation } from '@/lib/client-quotations'
 import { getStatusLabel } from '@/lib/client-quotations'
+import { groupAlternatives, isOptionLine, validateOptionSelection } from '@/lib/quotations'
+import { formatCurrency } from '@/lib/utils'
+import { sumMoney } from '@/lib/money'
 
 interface QuotationApprovalProps {
   quotation: ClientQuotation
-  onStatusUpdate: (status: 'in_review' | 'approved' | 'rejected') => Promise<void>
+  onStatusUpdate: (status: 'in_review' | 'approved' | 'rejected', selectedItemIds?: string[]) => Promise<void>
   isUpdating: boolean
 }
 
@@ -22,13 +25,38 @@ export function QuotationApproval({ quotation, onStatusUpdate, isUpdating }: Quo
   const [showRejectionDialog, setShowRejectionDialog] = useState(false)
   const [rejectionReason, setRejectionReason] = useState('')
 
+  const items = useMemo(() => quotation.document_items ?? [], [quotation.document_items])
+  const optionalItems = items.filter(item => item.is_optional)
+  const alternatives = groupAlternatives(items)
+  const hasOptions = items.some(isOptionLine)
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>(
+    items.filter(item => isOptionLine(item) && item.is_selected).map(item => item.id)
+  )
+  const selectionErrors = validateOptionSelection(items, selectedItemIds)
+  const currency = quotation.currency || 'MXN'
+  const selectedTotal = sumMoney(
+    items
+      .filter(item => (isOptionLine(item) ? selectedItemIds.includes(item.id) : true))
+      .map(item => item.total)
+  )
+
+  const toggleOptional = (itemId: string, checked: boolean) => {
+    setSelectedItemIds(current => (checked ? [...current, itemId] : current.filter(id => id !== itemId)))
+  }
+
+  // Picking one alternative drops the others of its group
+  const pickAlternative = (group: string, itemId: string) => {
+    const groupIds = items.filter(item => item.alternative_group === group).map(item => item.id)
+    setSelectedItemIds(current => [...current.filter(id => !groupIds.includes(id)), itemId])
+  }
+
   const handleStartReview = async () => {
     await onStatusUpdate('in_review')
     setShowReviewDialog(false)
   }
 
   const handleApprove = async () => {
-    await onStatusUpdate('approved')
+    await onStatusUpdate('approved', hasOptions ? selectedItemIds : undefined)
     setShowApprovalDialog(false)
   }
 
@@ -91,12 +119,66 @@ export function QuotationApproval({ quotation, onStatusUpdate, isUpdating }: Quo
           <p className="text-sm text-gray-600 text-center">
             Esta cotización está en revisión. Puedes aprobarla o rechazarla.
           </p>
+
+          {/* Optional and alternative lines */}
+          {hasOptions && (
+            <div className="space-y-3 border rounded-lg p-4">
+              <h4 className="font-medium text-gray-900">Elige tus opciones</h4>
+
+              {alternatives.map(({ group, items: groupItems }) => (
+                <fieldset key={group} className="space-y-1">
+                  <legend className="text-sm font-medium text-gray-700">Alternativa {group} (elige una)</legend>
+                  {groupItems.map((item) => (
+                    <label key={item.id} className="flex items-center justify-between text-sm">
+                      <span className="flex items-center space-x-2">
+                        <input
+                          type="radio"
+                          name={`alternative-${group}`}
+                          checked={selectedItemIds.includes(item.id)}
+                          onChange={() => pickAlternative(group, item.id)}
+                        />
+                        <span>{item.quantity} {item.unit} · {item.product_name}</span>
+                      </span>
+                      <span className="text-gray-900">{formatCurrency(item.total, currency)}</span>
+                    </label>
+                  ))}
+                </fieldset>
+              ))}
+
+              {optionalItems.length > 0 && (
+                <fieldset className="space-y-1">
+                  <legend className="text-sm font-medium text-gray-700">Opcionales</legend>
+                  {optionalItems.map((item) => (
+                    <label key={item.id} className="flex items-center justify-between text-sm">
+                      <span className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedItemIds.includes(item.id)}
+                          onChange={(e) => toggleOptional(item.id, e.target.checked)}
+                        />
+                        <span>{item.quantity} {item.unit} · {item.product_name}</span>
+                      </span>
+                      <span className="text-gray-900">{formatCurrency(item.total, currency)}</span>
+                    </label>
+                  ))}
+                </fieldset>
+              )}
+
+              <div className="flex items-center justify-between border-t pt-2 text-sm font-medium">
+                <span>Total con tus opciones</span>
+                <span>{formatCurrency(selectedTotal, currency)}</span>
+              </div>
+              {selectionErrors.map((error) => (
+                <p key={error} className="text-xs text-red-600">{error}</p>
+              ))}
+            </div>
+          )}
           
           <div className="grid grid-cols-2 gap-3">
             {/* Approve Dialog */}
             <Dialog open={showApprovalDialog} onOpenChange={setShowApprovalDialog}>
               <DialogTrigger asChild>
-                <Button className="bg-green-600 hover:bg-green-700" disabled={isUpdating}>
+                <Button className="bg-green-600 hover:bg-green-700" disabled={isUpdating || selectionErrors.length > 0}>
                   <CheckCircle className="h-4 w-4 mr-2" />
                   Aprobar
                 </Button>
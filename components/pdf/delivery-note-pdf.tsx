@@ -0,0 +1,72 @@
+import React from 'react';
+import { Document, Page, Text, View } from '@react-pdf/renderer';
+import {
+  DeliveryNotePDFData,
+  createPDFStyles,
+  DEFAULT_ISSUER,
+  DOCUMENT_KINDS,
+} from '@/lib/pdf';
+import PDFHeader from './pdf-header';
+import PDFClientInfo from './pdf-client-info';
+import PDFDeliveryInfo from './pdf-delivery-info';
+import PDFQuantityItems from './pdf-quantity-items';
+import PDFSignature from './pdf-signature';
+import PDFFooter from './pdf-footer';
+
+interface DeliveryNotePDFProps {
+  data: DeliveryNotePDFData;
+}
+
+// Remisión the driver hands over and has the client sign
+export default function DeliveryNotePDF({ data }: DeliveryNotePDFProps) {
+  const issuer = data.issuer || DEFAULT_ISSUER;
+  const styles = createPDFStyles(issuer.colors);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        <PDFHeader
+          issuer={issuer}
+          title={DOCUMENT_KINDS.delivery_note.title}
+          folio={data.folio}
+          createdAt={data.createdAt}
+        />
+
+        <PDFClientInfo company={data.company} colors={issuer.colors} />
+
+        <PDFDeliveryInfo
+          address={data.deliveryAddress}
+          instructions={data.deliveryInstructions}
+          carrier={data.carrier}
+          trackingNumber={data.trackingNumber}
+          colors={issuer.colors}
+        />
+
+        <PDFQuantityItems items={data.items} title="MERCANCÍA ENTREGADA" withCheckboxes colors={issuer.colors} />
+
+        {data.notes && (
+          <View style={styles.notesSection}>
+            <Text style={styles.notesTitle}>Notas:</Text>
+            <Text style={styles.notesText}>{data.notes}</Text>
+          </View>
+        )}
+
+        <PDFSignature colors={issuer.colors} />
+
+        <PDFFooter
+          issuer={issuer}
+          lines={[
+            'Este documento no constituye un comprobante fiscal',
+            'Revise la mercancía al recibirla; cualquier faltante o daño debe anotarse en esta remisión',
+          ]}
+        />
+
+        <Text
+          style={styles.pageNumber}
+          render={({ pageNumber, totalPages }) => `${pageNumber} / ${totalPages}`}
+          fixed
+        />
+      </Page>
+    </Document>
+  );
+}
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Document, Page, Text, View } from '@react-pdf/renderer';
+import {
+  InvoicePDFData,
+  createPDFStyles,
+  getStatusLabel,
+  shouldShowWatermark,
+  DEFAULT_ISSUER,
+  DOCUMENT_KINDS,
+} from '@/lib/pdf';
+import PDFHeader from './pdf-header';
+import PDFClientInfo from './pdf-client-info';
+import PDFInvoiceItems from './pdf-invoice-items';
+import PDFTotals from './pdf-totals';
+import PDFFiscalStamp from './pdf-fiscal-stamp';
+import PDFFooter from './pdf-footer';
+
+interface InvoicePDFProps {
+  data: InvoicePDFData;
+}
+
+// Representación impresa de un CFDI
+export default function InvoicePDF({ data }: InvoicePDFProps) {
+  const issuer = data.issuer || DEFAULT_ISSUER;
+  const styles = createPDFStyles(issuer.colors);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {shouldShowWatermark(data.status) && (
+          <Text style={styles.watermark}>{getStatusLabel(data.status)}</Text>
+        )}
+
+        <PDFHeader
+          issuer={issuer}
+          title={DOCUMENT_KINDS.invoice.title}
+          folio={data.folio}
+          status={data.status}
+          createdAt={data.createdAt}
+          details={data.stamp ? [`Folio fiscal: ${data.stamp.uuid}`] : []}
+        />
+
+        <PDFClientInfo company={data.company} title="RECEPTOR" colors={issuer.colors} />
+
+        <View style={styles.notesSection}>
+          <View style={styles.row}>
+            {[0, 1].map(column => (
+              <View key={column} style={styles.column}>
+                {data.fiscalDetails
+                  .filter((_, index) => index % 2 === column)
+                  .map(detail => (
+                    <Text key={detail.label} style={styles.notesText}>
+                      {detail.label}: {detail.value}
+                    </Text>
+                  ))}
+              </View>
+            ))}
+          </View>
+        </View>
+
+        <PDFInvoiceItems items={data.items} currency={data.currency} colors={issuer.colors} />
+
+        <PDFTotals
+          subtotal={data.subtotal}
+          tax={data.tax}
+          discount={data.discount}
+          total={data.total}
+          taxBreakdown={data.taxBreakdown}
+          currency={data.currency}
+          exchangeRate={data.exchangeRate}
+          colors={issuer.colors}
+        />
+
+        <PDFFiscalStamp stamp={data.stamp} colors={issuer.colors} />
+
+        <PDFFooter
+          issuer={issuer}
+          lines={['Este documento es una representación impresa de un CFDI']}
+        />
+
+        <Text
+          style={styles.pageNumber}
+          render={({ pageNumber, totalPages }) => `${pageNumber} / ${totalPages}`}
+          fixed
+        />
+      </Page>
+    </Document>
+  );
+}
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Document, Page, Text, View } from '@react-pdf/renderer';
+import {
+  OrderPDFData,
+  createPDFStyles,
+  getStatusLabel,
+  shouldShowWatermark,
+  DEFAULT_ISSUER,
+  DOCUMENT_KINDS,
+} from '@/lib/pdf';
+import PDFHeader from './pdf-header';
+import PDFClientInfo from './pdf-client-info';
+import PDFLineItems from './pdf-line-items';
+import PDFTotals from './pdf-totals';
+import PDFBankAccounts from './pdf-bank-accounts';
+import PDFFooter from './pdf-footer';
+
+interface OrderPDFProps {
+  data: OrderPDFData;
+}
+
+export default function OrderPDF({ data }: OrderPDFProps) {
+  const issuer = data.issuer || DEFAULT_ISSUER;
+  const styles = createPDFStyles(issuer.colors);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {shouldShowWatermark(data.status) && (
+          <Text style={styles.watermark}>{getStatusLabel(data.status)}</Text>
+        )}
+
+        <PDFHeader
+          issuer={issuer}
+          title={DOCUMENT_KINDS.order.title}
+          folio={data.folio}
+          status={data.status}
+          createdAt={data.createdAt}
+          details={data.quotationFolio ? [`Cotización: ${data.quotationFolio}`] : []}
+        />
+
+        <PDFClientInfo company={data.company} colors={issuer.colors} />
+
+        <PDFLineItems items={data.items} currency={data.currency} colors={issuer.colors} />
+
+        <PDFTotals
+          subtotal={data.subtotal}
+          tax={data.tax}
+          discount={data.discount}
+          total={data.total}
+          taxBreakdown={data.taxBreakdown}
+          currency={data.currency}
+          exchangeRate={data.exchangeRate}
+          colors={issuer.colors}
+        />
+
+        {data.notes && (
+          <View style={styles.notesSection}>
+            <Text style={styles.notesTitle}>Condiciones:</Text>
+            <Text style={styles.notesText}>{data.notes}</Text>
+          </View>
+        )}
+
+        <PDFBankAccounts accounts={issuer.bankAccounts ?? []} colors={issuer.colors} />
+
+        <PDFFooter
+          issuer={issuer}
+          lines={[
+            'Este documento no constituye un comprobante fiscal',
+            `Para cualquier aclaración sobre su pedido, favor de contactarnos al teléfono ${issuer.phone} o al correo ${issuer.email}`,
+          ]}
+        />
+
+        <Text
+          style={styles.pageNumber}
+          render={({ pageNumber, totalPages }) => `${pageNumber} / ${totalPages}`}
+          fixed
+        />
+      </Page>
+    </Document>
+  );
+}
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Document, Page, Text, View } from '@react-pdf/renderer';
+import {
+  PackingListPDFData,
+  createPDFStyles,
+  groupPackingItems,
+  DEFAULT_ISSUER,
+  DOCUMENT_KINDS,
+} from '@/lib/pdf';
+import PDFHeader from './pdf-header';
+import PDFClientInfo from './pdf-client-info';
+import PDFDeliveryInfo from './pdf-delivery-info';
+import PDFQuantityItems from './pdf-quantity-items';
+import PDFSignature from './pdf-signature';
+
+interface PackingListPDFProps {
+  data: PackingListPDFData;
+}
+
+// Warehouse copy: no prices, lines grouped by bin with a box to tick per line
+export default function PackingListPDF({ data }: PackingListPDFProps) {
+  const issuer = data.issuer || DEFAULT_ISSUER;
+  const styles = createPDFStyles(issuer.colors);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        <PDFHeader
+          issuer={issuer}
+          title={DOCUMENT_KINDS.packing_list.title}
+          folio={data.folio}
+          status={data.status}
+          createdAt={data.createdAt}
+        />
+
+        <PDFClientInfo company={data.company} colors={issuer.colors} />
+
+        <PDFDeliveryInfo
+          address={data.deliveryAddress}
+          instructions={data.deliveryInstructions}
+          scheduledDate={data.scheduledDate}
+          colors={issuer.colors}
+        />
+
+        {groupPackingItems(data.items).map(group => (
+          <PDFQuantityItems key={group.label} items={group.items} title={group.label.toUpperCase()} withCheckboxes colors={issuer.colors} />
+        ))}
+
+        {data.notes && (
+          <View style={styles.notesSection}>
+            <Text style={styles.notesTitle}>Notas:</Text>
+            <Text style={styles.notesText}>{data.notes}</Text>
+          </View>
+        )}
+
+        <PDFSignature title="CONTROL DE ALMACÉN" labels={['Surtió', 'Empacó', 'Revisó']} colors={issuer.colors} />
+
+        <Text
+          style={styles.pageNumber}
+          render={({ pageNumber, totalPages }) => `${data.folio} · ${pageNumber} / ${totalPages}`}
+          fixed
+        />
+      </Page>
+    </Document>
+  );
+}
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Text, View } from '@react-pdf/renderer';
+import { createPDFStyles, type PDFBankAccount, type PDFBrandColors } from '@/lib/pdf';
+
+interface PDFBankAccountsProps {
+  accounts: PDFBankAccount[];
+  colors?: PDFBrandColors;
+}
+
+// Where the client can pay by transfer; nothing is rendered without accounts
+export default function PDFBankAccounts({ accounts, colors }: PDFBankAccountsProps) {
+  const styles = createPDFStyles(colors);
+
+  if (accounts.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.bankAccountsSection} wrap={false}>
+      <Text style={styles.sectionTitle}>DATOS PARA TRANSFERENCIA</Text>
+      {accounts.map((account, index) => (
+        <View key={index} style={styles.row}>
+          <View style={styles.column}>
+            <Text style={styles.boldText}>{account.bank} ({account.currency})</Text>
+            <Text style={styles.text}>Beneficiario: {account.accountHolder}</Text>
+          </View>
+          <View style={styles.column}>
+            {account.clabe && (
+              <Text style={styles.text}>CLABE: {account.clabe}</Text>
+            )}
+            {account.accountNumber && (
+              <Text style={styles.text}>Cuenta: {account.accountNumber}</Text>
+            )}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -1,28 +1,19 @@
 import React from 'react';
 import { Text, View } from '@react-pdf/renderer';
-import { createPDFStyles } from '@/lib/pdf';
+import { createPDFStyles, type PDFBrandColors, type PDFCompany } from '@/lib/pdf';
 
 interface PDFClientInfoProps {
-  company: {
-    id: string;
-    name: string;
-    rfc: string;
-    address: string;
-    city: string;
-    state: string;
-    zip: string;
-    phone: string;
-    email: string;
-    contactName?: string;
-  };
+  company: PDFCompany;
+  title?: string;
+  colors?: PDFBrandColors;
 }
 
-export default function PDFClientInfo({ company }: PDFClientInfoProps) {
-  const styles = createPDFStyles();
+export default function PDFClientInfo({ company, title = 'DATOS DEL CLIENTE', colors }: PDFClientInfoProps) {
+  const styles = createPDFStyles(colors);
 
   return (
     <View style={styles.clientSection}>
-      <Text style={styles.sectionTitle}>DATOS DEL CLIENTE</Text>
+      <Text style={styles.sectionTitle}>{title}</Text>
       
       <View style={styles.row}>
         <View style={styles.column}>
@@ -43,9 +34,11 @@ export default function PDFClientInfo({ company }: PDFClientInfoProps) {
         <View style={styles.column}>
           <Text style={styles.boldText}>Dirección:</Text>
           <Text style={styles.text}>{company.address}</Text>
-          <Text style={styles.text}>
-            {company.city}, {company.state} C.P. {company.zip}
-          </Text>
+          {(company.city || company.state || company.zip) && (
+            <Text style={styles.text}>
+              {company.city}, {company.state} C.P. {company.zip}
+            </Text>
+          )}
           
           <Text style={[styles.boldText, { marginTop: 5 }]}>Teléfono:</Text>
           <Text style={styles.text}>{company.phone}</Text>
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Text, View } from '@react-pdf/renderer';
+import { createPDFStyles, formatDate, type PDFBrandColors } from '@/lib/pdf';
+
+interface PDFDeliveryInfoProps {
+  address?: string;
+  instructions?: string;
+  scheduledDate?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  colors?: PDFBrandColors;
+}
+
+export default function PDFDeliveryInfo({ address, instructions, scheduledDate, carrier, trackingNumber, colors }: PDFDeliveryInfoProps) {
+  const styles = createPDFStyles(colors);
+
+  if (!address && !scheduledDate && !carrier) {
+    return null;
+  }
+
+  return (
+    <View style={styles.clientSection}>
+      <Text style={styles.sectionTitle}>DATOS DE ENTREGA</Text>
+
+      <View style={styles.row}>
+        <View style={styles.column}>
+          {address && (
+            <>
+              <Text style={styles.boldText}>Dirección de entrega:</Text>
+              <Text style={styles.text}>{address}</Text>
+            </>
+          )}
+          {instructions && (
+            <>
+              <Text style={[styles.boldText, { marginTop: 5 }]}>Instrucciones:</Text>
+              <Text style={styles.text}>{instructions}</Text>
+            </>
+          )}
+        </View>
+
+        <View style={styles.column}>
+          {scheduledDate && (
+            <>
+              <Text style={styles.boldText}>Fecha programada:</Text>
+              <Text style={styles.text}>{formatDate(scheduledDate)}</Text>
+            </>
+          )}
+          {carrier && (
+            <>
+              <Text style={[styles.boldText, { marginTop: 5 }]}>Transportista:</Text>
+              <Text style={styles.text}>{carrier}</Text>
+            </>
+          )}
+          {trackingNumber && (
+            <>
+              <Text style={[styles.boldText, { marginTop: 5 }]}>Guía:</Text>
+              <Text style={styles.text}>{trackingNumber}</Text>
+            </>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
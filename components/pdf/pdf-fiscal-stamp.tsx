@@ -0,0 +1,51 @@
+import React from 'react';
+import { Text, View } from '@react-pdf/renderer';
+import { createPDFStyles, type InvoicePDFStamp, type PDFBrandColors } from '@/lib/pdf';
+
+interface PDFFiscalStampProps {
+  stamp?: InvoicePDFStamp;
+  colors?: PDFBrandColors;
+}
+
+// Folio fiscal, certificates and seals of a stamped CFDI
+export default function PDFFiscalStamp({ stamp, colors }: PDFFiscalStampProps) {
+  const styles = createPDFStyles(colors);
+
+  if (!stamp) {
+    return (
+      <View style={styles.stampSection}>
+        <Text style={styles.boldText}>Sin timbrar: este documento no es un comprobante fiscal</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.stampSection} wrap={false}>
+      <Text style={styles.sectionTitle}>TIMBRE FISCAL DIGITAL</Text>
+
+      <View style={styles.row}>
+        <View style={styles.column}>
+          <Text style={styles.boldText}>Folio fiscal (UUID):</Text>
+          <Text style={styles.text}>{stamp.uuid}</Text>
+          <Text style={[styles.boldText, { marginTop: 3 }]}>Fecha de certificación:</Text>
+          <Text style={styles.text}>{stamp.stampedAt}</Text>
+        </View>
+        <View style={styles.column}>
+          <Text style={styles.boldText}>No. de certificado del emisor:</Text>
+          <Text style={styles.text}>{stamp.issuerCertificate}</Text>
+          <Text style={[styles.boldText, { marginTop: 3 }]}>No. de certificado del SAT:</Text>
+          <Text style={styles.text}>{stamp.satCertificate}</Text>
+        </View>
+      </View>
+
+      <Text style={styles.sealLabel}>Sello digital del CFDI:</Text>
+      <Text style={styles.sealText}>{stamp.issuerSeal}</Text>
+      <Text style={styles.sealLabel}>Sello digital del SAT:</Text>
+      <Text style={styles.sealText}>{stamp.satSeal}</Text>
+      <Text style={styles.sealLabel}>Cadena original del complemento de certificación digital del SAT:</Text>
+      <Text style={styles.sealText}>{stamp.chain}</Text>
+      <Text style={styles.sealLabel}>Verificación:</Text>
+      <Text style={styles.sealText}>{stamp.verificationUrl}</Text>
+    </View>
+  );
+}
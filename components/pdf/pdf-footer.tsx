@@ -0,0 +1,26 @@
+import React from 'react';
+import { Text, View } from '@react-pdf/renderer';
+import { createPDFStyles, type PDFIssuer } from '@/lib/pdf';
+
+interface PDFFooterProps {
+  issuer: PDFIssuer;
+  lines: string[]; // Document-specific lines, above the issuer's own
+}
+
+export default function PDFFooter({ issuer, lines }: PDFFooterProps) {
+  const styles = createPDFStyles(issuer.colors);
+
+  return (
+    <View style={styles.footer}>
+      {lines.map((line, index) => (
+        <Text key={index} style={styles.footerText}>{line}</Text>
+      ))}
+      {issuer.addresses && issuer.addresses.length > 0 && (
+        <Text style={styles.footerText}>{issuer.addresses.join(' · ')}</Text>
+      )}
+      {issuer.footerText && (
+        <Text style={styles.footerText}>{issuer.footerText}</Text>
+      )}
+    </View>
+  );
+}
@@ -5,29 +5,30 @@ import {
   formatDate,
   getStatusLabel,
   getStatusColor,
+  DOCUMENT_KINDS,
+  type PDFIssuer,
 } from '@/lib/pdf';
 
 interface PDFHeaderProps {
-  issuer: {
-    name: string;
-    rfc: string;
-    address: string;
-    city: string;
-    state: string;
-    zip: string;
-    phone: string;
-    email: string;
-    logo?: string;
-  };
+  issuer: PDFIssuer;
+  title?: string;
   folio: string;
-  status: string;
+  status?: string; // No badge when missing
   createdAt: string;
-  validUntil: string;
+  validUntil?: string;
+  details?: string[]; // Extra lines under the date, e.g. the quotation an order came from
 }
 
-export default function PDFHeader({ issuer, folio, status, createdAt, validUntil }: PDFHeaderProps) {
-  const styles = createPDFStyles();
-  const statusColor = getStatusColor(status);
+export default function PDFHeader({
+  issuer,
+  title = DOCUMENT_KINDS.quotation.title,
+  folio,
+  status,
+  createdAt,
+  validUntil,
+  details = []
+}: PDFHeaderProps) {
+  const styles = createPDFStyles(issuer.colors);
 
   return (
     <View style={styles.header}>
@@ -37,24 +38,40 @@ export default function PDFHeader({ issuer, folio, status, createdAt, validUntil
             <Image style={styles.logo} src={issuer.logo} />
           )}
           <Text style={styles.title}>{issuer.name}</Text>
+          {issuer.legalName && (
+            <Text style={styles.text}>{issuer.legalName}</Text>
+          )}
           <Text style={styles.boldText}>RFC: {issuer.rfc}</Text>
+          {issuer.fiscalRegime && (
+            <Text style={styles.text}>Régimen Fiscal: {issuer.fiscalRegime}</Text>
+          )}
           <Text style={styles.text}>{issuer.address}</Text>
           <Text style={styles.text}>
             {issuer.city}, {issuer.state} C.P. {issuer.zip}
           </Text>
           <Text style={styles.text}>Tel: {issuer.phone}</Text>
           <Text style={styles.text}>Email: {issuer.email}</Text>
+          {issuer.website && (
+            <Text style={styles.text}>{issuer.website}</Text>
+          )}
         </View>
 
         <View style={styles.documentInfo}>
-          <Text style={styles.title}>COTIZACIÓN</Text>
+          <Text style={styles.title}>{title}</Text>
           <Text style={styles.boldText}>Folio: {folio}</Text>
           <Text style={styles.text}>Fecha: {formatDate(createdAt)}</Text>
-          <Text style={styles.text}>Vigencia: {formatDate(validUntil)}</Text>
+          {validUntil && (
+            <Text style={styles.text}>Vigencia: {formatDate(validUntil)}</Text>
+          )}
+          {details.map((detail, index) => (
+            <Text key={index} style={styles.text}>{detail}</Text>
+          ))}
           
-          <View style={[styles.statusBadge, { backgroundColor: statusColor }]}>
-            <Text style={styles.statusText}>{getStatusLabel(status)}</Text>
-          </View>
+          {status && (
+            <View style={[styles.statusBadge, { backgroundColor: getStatusColor(status) }]}>
+              <Text style={styles.statusText}>{getStatusLabel(status)}</Text>
+            </View>
+          )}
         </View>
       </View>
     </View>
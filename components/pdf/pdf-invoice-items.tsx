@@ -0,0 +1,50 @@
+import React from 'react';
+import { Text, View } from '@react-pdf/renderer';
+import { createPDFStyles, formatCurrency, type InvoicePDFItem, type PDFBrandColors } from '@/lib/pdf';
+import type { CurrencyCode } from '@/lib/currency';
+
+interface PDFInvoiceItemsProps {
+  items: InvoicePDFItem[];
+  currency?: CurrencyCode;
+  colors?: PDFBrandColors;
+}
+
+// CFDI concepts with their SAT product and unit keys
+export default function PDFInvoiceItems({ items, currency = 'MXN', colors }: PDFInvoiceItemsProps) {
+  const styles = createPDFStyles(colors);
+
+  return (
+    <View style={styles.table}>
+      <Text style={styles.sectionTitle}>CONCEPTOS</Text>
+
+      <View style={styles.tableHeader}>
+        <Text style={[styles.tableHeaderCell, styles.invoiceKeyCell]}>Clave SAT</Text>
+        <Text style={[styles.tableHeaderCell, styles.invoiceNameCell]}>Descripción</Text>
+        <Text style={[styles.tableHeaderCell, styles.invoiceQuantityCell]}>Cantidad</Text>
+        <Text style={[styles.tableHeaderCell, styles.invoiceAmountCell]}>Valor Unitario</Text>
+        <Text style={[styles.tableHeaderCell, styles.invoiceAmountCell]}>Descuento</Text>
+        <Text style={[styles.tableHeaderCell, styles.invoiceAmountCell]}>Importe</Text>
+      </View>
+
+      {items.map(item => (
+        <View key={item.id} style={styles.tableRow}>
+          <Text style={[styles.tableCell, styles.invoiceKeyCell]}>{item.productKey}</Text>
+          <View style={styles.invoiceNameCell}>
+            <Text style={[styles.tableCell, { fontWeight: 'bold', marginBottom: 2 }]}>{item.productName}</Text>
+            <Text style={[styles.tableCell, { fontSize: 7 }]}>
+              No. Identificación: {item.productCode} · Objeto de impuesto: {item.taxObject}
+            </Text>
+          </View>
+          <Text style={[styles.tableCell, styles.invoiceQuantityCell]}>
+            {item.quantity} {item.unitKey} {item.unit}
+          </Text>
+          <Text style={[styles.tableCell, styles.invoiceAmountCell]}>{formatCurrency(item.unitPrice, currency)}</Text>
+          <Text style={[styles.tableCell, styles.invoiceAmountCell]}>
+            {item.discount > 0 ? formatCurrency(item.discount, currency) : '-'}
+          </Text>
+          <Text style={[styles.tableCell, styles.invoiceAmountCell]}>{formatCurrency(item.amount, currency)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -1,6 +1,16 @@
 import React from 'react';
 import { Text, View } from '@react-pdf/renderer';
-import { createPDFStyles, formatCurrency } from '@/lib/pdf';
+import {
+  createPDFStyles,
+  formatBundleComponent,
+  formatCurrency,
+  formatLineOption,
+  formatPriceTier,
+  type PDFBrandColors,
+  type PDFBundleComponent,
+} from '@/lib/pdf';
+import type { ResolvedPriceTier } from '@/lib/calculations';
+import type { CurrencyCode } from '@/lib/currency';
 
 interface PDFLineItemsProps {
   items: Array<{
@@ -9,19 +19,28 @@ interface PDFLineItemsProps {
     productCode: string;
     description?: string;
     quantity: number;
+    unit?: string;
     unitPrice: number;
+    discount?: number;
+    priceTier?: Pick<ResolvedPriceTier, 'min_quantity' | 'max_quantity'> | null;
+    components?: PDFBundleComponent[] | null;
+    isOptional?: boolean;
+    alternativeGroup?: string | null;
     subtotal: number;
     tax: number;
     total: number;
   }>;
+  currency?: CurrencyCode;
+  title?: string;
+  colors?: PDFBrandColors;
 }
 
-export default function PDFLineItems({ items }: PDFLineItemsProps) {
-  const styles = createPDFStyles();
+export default function PDFLineItems({ items, currency = 'MXN', title = 'DETALLE DE PRODUCTOS', colors }: PDFLineItemsProps) {
+  const styles = createPDFStyles(colors);
 
   return (
     <View style={styles.table}>
-      <Text style={styles.sectionTitle}>DETALLE DE PRODUCTOS</Text>
+      <Text style={styles.sectionTitle}>{title}</Text>
       
       <View style={styles.tableHeader}>
         <Text style={[styles.tableHeaderCell, styles.productCodeCell]}>Código</Text>
@@ -41,23 +60,52 @@ export default function PDFLineItems({ items }: PDFLineItemsProps) {
             <Text style={[styles.tableCell, { fontWeight: 'bold', marginBottom: 2 }]}>
               {item.productName}
             </Text>
+            {formatLineOption(item) && (
+              <Text style={[styles.tableCell, { fontSize: 8, color: '#2563EB' }]}>
+                {formatLineOption(item)}
+              </Text>
+            )}
             {item.description && (
               <Text style={[styles.tableCell, { fontSize: 8, color: '#6B7280' }]}>
                 {item.description}
               </Text>
             )}
+            {item.components?.map((component, componentIndex) => (
+              <Text key={componentIndex} style={[styles.tableCell, { fontSize: 8, color: '#6B7280' }]}>
+                {formatBundleComponent(component)}
+              </Text>
+            ))}
+          </View>
+          <View style={[styles.quantityCell]}>
+            <Text style={[styles.tableCell]}>
+              {item.quantity}
+            </Text>
+            {item.unit && (
+              <Text style={[styles.tableCell, { fontSize: 8, color: '#6B7280' }]}>
+                {item.unit}
+              </Text>
+            )}
+          </View>
+          <View style={[styles.unitPriceCell]}>
+            <Text style={[styles.tableCell]}>
+              {formatCurrency(item.unitPrice, currency)}
+            </Text>
+            {item.priceTier && (
+              <Text style={[styles.tableCell, { fontSize: 8, color: '#6B7280' }]}>
+                {formatPriceTier(item.priceTier)}
+              </Text>
+            )}
+            {!!item.discount && item.discount > 0 && (
+              <Text style={[styles.tableCell, { fontSize: 8, color: '#059669' }]}>
+                Desc. -{formatCurrency(item.discount, currency)}
+              </Text>
+            )}
           </View>
-          <Text style={[styles.tableCell, styles.quantityCell]}>
-            {item.quantity}
-          </Text>
-          <Text style={[styles.tableCell, styles.unitPriceCell]}>
-            {formatCurrency(item.unitPrice)}
-          </Text>
           <Text style={[styles.tableCell, styles.subtotalCell]}>
-            {formatCurrency(item.subtotal)}
+            {formatCurrency(item.subtotal, currency)}
           </Text>
           <Text style={[styles.tableCell, styles.totalCell, { fontWeight: 'bold' }]}>
-            {formatCurrency(item.total)}
+            {formatCurrency(item.total, currency)}
           </Text>
         </View>
       ))}
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Text, View } from '@react-pdf/renderer';
+import { createPDFStyles, type PDFBrandColors, type PDFQuantityItem } from '@/lib/pdf';
+
+interface PDFQuantityItemsProps {
+  items: PDFQuantityItem[];
+  title: string;
+  withCheckboxes?: boolean; // A box per line to tick off when picked or received
+  colors?: PDFBrandColors;
+}
+
+export default function PDFQuantityItems({ items, title, withCheckboxes = false, colors }: PDFQuantityItemsProps) {
+  const styles = createPDFStyles(colors);
+  const nameWidth = withCheckboxes ? styles.pickNameCell : { width: '60%' };
+
+  return (
+    <View style={styles.table}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+
+      <View style={styles.tableHeader}>
+        {withCheckboxes && (
+          <Text style={[styles.tableHeaderCell, styles.checkboxCell]}>✓</Text>
+        )}
+        <Text style={[styles.tableHeaderCell, styles.pickCodeCell]}>Código</Text>
+        <Text style={[styles.tableHeaderCell, nameWidth]}>Descripción</Text>
+        <Text style={[styles.tableHeaderCell, styles.pickQuantityCell]}>Cantidad</Text>
+      </View>
+
+      {items.map((item, index) => (
+        <View key={item.id || index} style={styles.tableRow} wrap={false}>
+          {withCheckboxes && (
+            <View style={styles.checkboxCell}>
+              <View style={styles.checkbox} />
+            </View>
+          )}
+          <Text style={[styles.tableCell, styles.pickCodeCell]}>
+            {item.productCode}
+          </Text>
+          <View style={nameWidth}>
+            <Text style={[styles.tableCell, { fontWeight: 'bold', marginBottom: 2 }]}>
+              {item.productName}
+            </Text>
+            {item.note && (
+              <Text style={[styles.tableCell, { fontSize: 8, color: '#6B7280' }]}>
+                {item.note}
+              </Text>
+            )}
+          </View>
+          <View style={styles.pickQuantityCell}>
+            <Text style={[styles.tableCell, { fontWeight: 'bold' }]}>
+              {item.quantity} {item.unit}
+            </Text>
+            {item.baseQuantity && (
+              <Text style={[styles.tableCell, { fontSize: 8, color: '#6B7280' }]}>
+                = {item.baseQuantity}
+              </Text>
+            )}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
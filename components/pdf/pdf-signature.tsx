@@ -0,0 +1,31 @@
+import React from 'react';
+import { Text, View } from '@react-pdf/renderer';
+import { createPDFStyles, type PDFBrandColors } from '@/lib/pdf';
+
+interface PDFSignatureProps {
+  title?: string;
+  labels?: string[]; // One signature line per label
+  colors?: PDFBrandColors;
+}
+
+export default function PDFSignature({
+  title = 'RECIBÍ DE CONFORMIDAD',
+  labels = ['Nombre de quien recibe', 'Firma', 'Fecha y hora'],
+  colors
+}: PDFSignatureProps) {
+  const styles = createPDFStyles(colors);
+
+  return (
+    <View wrap={false}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      <View style={styles.signatureSection}>
+        {labels.map(label => (
+          <View key={label} style={styles.signatureBox}>
+            <View style={styles.signatureLine} />
+            <Text style={styles.signatureLabel}>{label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
@@ -1,39 +1,83 @@
 import React from 'react';
 import { Text, View } from '@react-pdf/renderer';
-import { createPDFStyles, formatCurrency } from '@/lib/pdf';
+import { createPDFStyles, formatCurrency, type PDFBrandColors } from '@/lib/pdf';
+import { formatTaxLabel } from '@/lib/taxes';
+import { subtractMoney } from '@/lib/money';
+import { formatDecimal, getCurrencyName, type CurrencyCode } from '@/lib/currency';
+import type { TaxBreakdownEntry } from '@/lib/calculations';
 
 interface PDFTotalsProps {
   subtotal: number;
   tax: number;
   discount: number;
   total: number;
+  taxBreakdown?: TaxBreakdownEntry[];
+  currency?: CurrencyCode;
+  exchangeRate?: number;
+  colors?: PDFBrandColors;
 }
 
-export default function PDFTotals({ subtotal, tax, discount, total }: PDFTotalsProps) {
-  const styles = createPDFStyles();
+export default function PDFTotals({
+  subtotal,
+  tax,
+  discount,
+  total,
+  taxBreakdown,
+  currency = 'MXN',
+  exchangeRate,
+  colors
+}: PDFTotalsProps) {
+  const styles = createPDFStyles(colors);
+  const hasBreakdown = !!taxBreakdown && taxBreakdown.length > 0;
+  const transferred = hasBreakdown ? taxBreakdown.filter(entry => entry.kind === 'transferred') : [];
+  const withheld = hasBreakdown ? taxBreakdown.filter(entry => entry.kind === 'withheld') : [];
 
   return (
     <View style={styles.totalsSection}>
       <View style={styles.totalRow}>
         <Text style={styles.totalLabel}>Subtotal:</Text>
-        <Text style={styles.totalValue}>{formatCurrency(subtotal)}</Text>
+        <Text style={styles.totalValue}>{formatCurrency(subtotal, currency)}</Text>
       </View>
       
       {discount > 0 && (
         <View style={styles.totalRow}>
           <Text style={styles.totalLabel}>Descuento:</Text>
-          <Text style={styles.totalValue}>-{formatCurrency(discount)}</Text>
+          <Text style={styles.totalValue}>-{formatCurrency(discount, currency)}</Text>
+        </View>
+      )}
+
+      {discount > 0 && (
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>Subtotal con descuento:</Text>
+          <Text style={styles.totalValue}>{formatCurrency(subtractMoney(subtotal, discount), currency)}</Text>
         </View>
       )}
       
-      <View style={styles.totalRow}>
-        <Text style={styles.totalLabel}>IVA (16%):</Text>
-        <Text style={styles.totalValue}>{formatCurrency(tax)}</Text>
-      </View>
+      {hasBreakdown ? (
+        <>
+          {transferred.map((entry, index) => (
+            <View key={`transferred-${index}`} style={styles.totalRow}>
+              <Text style={styles.totalLabel}>{formatTaxLabel(entry)}:</Text>
+              <Text style={styles.totalValue}>{formatCurrency(entry.amount, currency)}</Text>
+            </View>
+          ))}
+          {withheld.map((entry, index) => (
+            <View key={`withheld-${index}`} style={styles.totalRow}>
+              <Text style={styles.totalLabel}>{formatTaxLabel(entry)}:</Text>
+              <Text style={styles.totalValue}>-{formatCurrency(entry.amount, currency)}</Text>
+            </View>
+          ))}
+        </>
+      ) : (
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>IVA (16%):</Text>
+          <Text style={styles.totalValue}>{formatCurrency(tax, currency)}</Text>
+        </View>
+      )}
       
       <View style={styles.grandTotalRow}>
         <Text style={styles.grandTotalLabel}>TOTAL:</Text>
-        <Text style={styles.grandTotalValue}>{formatCurrency(total)}</Text>
+        <Text style={styles.grandTotalValue}>{formatCurrency(total, currency)}</Text>
       </View>
       
       <View style={{ marginTop: 10 }}>
@@ -41,8 +85,13 @@ export default function PDFTotals({ subtotal, tax, discount, total }: PDFTotalsP
           * Todos los precios incluyen IVA del 16%
         </Text>
         <Text style={[styles.text, { fontSize: 8, fontStyle: 'italic' }]}>
-          * Precios expresados en Pesos Mexicanos (MXN)
+          * Precios expresados en {getCurrencyName(currency)} ({currency})
         </Text>
+        {currency !== 'MXN' && exchangeRate ? (
+          <Text style={[styles.text, { fontSize: 8, fontStyle: 'italic' }]}>
+            * Tipo de cambio: {formatDecimal(exchangeRate, 4)} MXN por {currency}
+          </Text>
+        ) : null}
       </View>
     </View>
   );
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Document, Page, Text, View } from '@react-pdf/renderer';
+import {
+  PurchaseOrderPDFData,
+  createPDFStyles,
+  formatDate,
+  getStatusLabel,
+  shouldShowWatermark,
+  DEFAULT_ISSUER,
+  DOCUMENT_KINDS,
+} from '@/lib/pdf';
+import PDFHeader from './pdf-header';
+import PDFClientInfo from './pdf-client-info';
+import PDFLineItems from './pdf-line-items';
+import PDFTotals from './pdf-totals';
+import PDFFooter from './pdf-footer';
+
+interface PurchaseOrderPDFProps {
+  data: PurchaseOrderPDFData;
+}
+
+export default function PurchaseOrderPDF({ data }: PurchaseOrderPDFProps) {
+  const issuer = data.issuer || DEFAULT_ISSUER;
+  const styles = createPDFStyles(issuer.colors);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {shouldShowWatermark(data.status) && (
+          <Text style={styles.watermark}>{getStatusLabel(data.status)}</Text>
+        )}
+
+        <PDFHeader
+          issuer={issuer}
+          title={DOCUMENT_KINDS.purchase_order.title}
+          folio={data.folio}
+          status={data.status}
+          createdAt={data.createdAt}
+          details={[
+            ...(data.expectedDate ? [`Entrega esperada: ${formatDate(data.expectedDate)}`] : []),
+            ...(data.paymentTerms ? [`Condiciones de pago: ${data.paymentTerms}`] : []),
+          ]}
+        />
+
+        <PDFClientInfo company={data.supplier} title="DATOS DEL PROVEEDOR" colors={issuer.colors} />
+
+        <PDFLineItems items={data.items} currency={data.currency} colors={issuer.colors} />
+
+        <PDFTotals
+          subtotal={data.subtotal}
+          tax={data.tax}
+          discount={0}
+          total={data.total}
+          taxBreakdown={data.taxBreakdown}
+          currency={data.currency}
+          exchangeRate={data.exchangeRate}
+          colors={issuer.colors}
+        />
+
+        {data.notes && (
+          <View style={styles.notesSection}>
+            <Text style={styles.notesTitle}>Observaciones:</Text>
+            <Text style={styles.notesText}>{data.notes}</Text>
+          </View>
+        )}
+
+        <PDFFooter
+          issuer={issuer}
+          lines={[
+            `Favor de citar el folio ${data.folio} en su factura y en la remisión de entrega`,
+            `Para cualquier aclaración sobre esta orden, favor de contactarnos al teléfono ${issuer.phone} o al correo ${issuer.email}`,
+          ]}
+        />
+
+        <Text
+          style={styles.pageNumber}
+          render={({ pageNumber, totalPages }) => `${pageNumber} / ${totalPages}`}
+          fixed
+        />
+      </Page>
+    </Document>
+  );
+}
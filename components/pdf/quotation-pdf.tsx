@@ -8,21 +8,26 @@ import {
   getStatusLabel,
   getStatusColor,
   shouldShowWatermark,
+  splitOptionalItems,
   DEFAULT_ISSUER,
 } from '@/lib/pdf';
+import { sumMoney } from '@/lib/money';
 import PDFHeader from './pdf-header';
 import PDFClientInfo from './pdf-client-info';
 import PDFLineItems from './pdf-line-items';
 import PDFTotals from './pdf-totals';
+import PDFBankAccounts from './pdf-bank-accounts';
+import PDFFooter from './pdf-footer';
 
 interface QuotationPDFProps {
   data: QuotationPDFData;
 }
 
 export default function QuotationPDF({ data }: QuotationPDFProps) {
-  const styles = createPDFStyles();
   const issuer = data.issuer || DEFAULT_ISSUER;
+  const styles = createPDFStyles(issuer.colors);
   const showWatermark = shouldShowWatermark(data.status);
+  const { items, optionalItems } = splitOptionalItems(data.items);
 
   return (
     <Document>
@@ -39,17 +44,30 @@ export default function QuotationPDF({ data }: QuotationPDFProps) {
           validUntil={data.validUntil}
         />
 
-        <PDFClientInfo company={data.company} />
+        <PDFClientInfo company={data.company} colors={issuer.colors} />
 
-        <PDFLineItems items={data.items} />
+        <PDFLineItems items={items} currency={data.currency} colors={issuer.colors} />
 
         <PDFTotals
           subtotal={data.subtotal}
           tax={data.tax}
           discount={data.discount}
           total={data.total}
+          taxBreakdown={data.taxBreakdown}
+          currency={data.currency}
+          exchangeRate={data.exchangeRate}
+          colors={issuer.colors}
         />
 
+        {optionalItems.length > 0 && (
+          <View>
+            <PDFLineItems items={optionalItems} currency={data.currency} title="PARTIDAS OPCIONALES" colors={issuer.colors} />
+            <Text style={styles.notesText}>
+              Importe de partidas opcionales (no incluido en el total): {formatCurrency(sumMoney(optionalItems.map(item => item.total)), data.currency)}
+            </Text>
+          </View>
+        )}
+
         {data.notes && (
           <View style={styles.notesSection}>
             <Text style={styles.notesTitle}>Notas y Observaciones:</Text>
@@ -57,17 +75,16 @@ export default function QuotationPDF({ data }: QuotationPDFProps) {
           </View>
         )}
 
-        <View style={styles.footer}>
-          <Text style={styles.footerText}>
-            Este documento no constituye un comprobante fiscal
-          </Text>
-          <Text style={styles.footerText}>
-            Cotización válida hasta: {formatDate(data.validUntil)}
-          </Text>
-          <Text style={styles.footerText}>
-            Para cualquier aclaración, favor de contactarnos al teléfono {issuer.phone} o al correo {issuer.email}
-          </Text>
-        </View>
+        <PDFBankAccounts accounts={issuer.bankAccounts ?? []} colors={issuer.colors} />
+
+        <PDFFooter
+          issuer={issuer}
+          lines={[
+            'Este documento no constituye un comprobante fiscal',
+            `Cotización válida hasta: ${formatDate(data.validUntil)}`,
+            `Para cualquier aclaración, favor de contactarnos al teléfono ${issuer.phone} o al correo ${issuer.email}`,
+          ]}
+        />
 
         <Text
           style={styles.pageNumber}
@@ -0,0 +1,50 @@
+'use client'
+
+import { History } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface RevisionOption {
+  id: string
+  revision: number
+  is_latest_revision: boolean
+}
+
+interface RevisionSelectorProps {
+  revisions: RevisionOption[]
+  selectedId: string
+  onSelect: (revisionId: string) => void
+  latestLabel?: string
+  ariaLabel?: string
+  className?: string
+}
+
+export function RevisionSelector({
+  revisions,
+  selectedId,
+  onSelect,
+  latestLabel = 'latest',
+  ariaLabel = 'Revision',
+  className
+}: RevisionSelectorProps) {
+  if (revisions.length < 2) {
+    return null
+  }
+
+  return (
+    <div className={cn('inline-flex items-center space-x-1', className)}>
+      <History className="w-3 h-3 text-gray-400" />
+      <select
+        value={selectedId}
+        onChange={(e) => onSelect(e.target.value)}
+        aria-label={ariaLabel}
+        className="text-xs border border-gray-300 rounded px-1 py-0.5 focus:outline-none focus:ring-2 focus:ring-green-500"
+      >
+        {revisions.map((revision) => (
+          <option key={revision.id} value={revision.id}>
+            R{revision.revision}{revision.is_latest_revision ? ` (${latestLabel})` : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
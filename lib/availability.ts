@@ -0,0 +1,138 @@
+/**
+ * Stock Availability
+ * Whether the stock available today can supply a quotation's lines
+ *
+ * Lines draw on available stock (on hand less what confirmed orders
+ * reserve) in the order they are quoted, in base units; kits draw on their
+ * components. A line the stock cannot supply in full is short, and is
+ * either cut to what can be supplied (partial) or kept whole and
+ * backordered, the rest shipping when stock comes in, which sent purchase
+ * orders date. Products without a stock level are not checked.
+ */
+
+import { createClient, type TypedSupabaseClient } from '@/lib/supabase'
+import type { BundleComponent } from '@/lib/bundles'
+import { getStockLevels } from '@/lib/inventory'
+import { getRestockDates } from '@/lib/purchase-orders'
+
+/**
+ * A quotation line as availability sees it
+ */
+export interface AvailabilityLine {
+  id: string
+  product_id: string
+  product_name: string
+  unit: string
+  unit_factor: number // Base units per line unit
+  quantity: number
+  bundle_components: Pick<BundleComponent, 'product_id' | 'quantity'>[] | null
+  backorder?: boolean
+}
+
+export interface LineAvailability {
+  id: string
+  quantity: number
+  suppliable: number // In the line's unit
+  shortage: number // In the line's unit
+  backorder: boolean
+  restockDate: string | null // When the missing stock is expected, when purchase orders say
+}
+
+/**
+ * Base units of each product one unit of the line takes
+ */
+function getLineDemand(line: AvailabilityLine): Array<{ product_id: string; quantity: number }> {
+  if (line.bundle_components) {
+    return line.bundle_components.map(component => ({
+      product_id: component.product_id,
+      quantity: component.quantity * line.unit_factor
+    }))
+  }
+  return [{ product_id: line.product_id, quantity: line.unit_factor }]
+}
+
+/**
+ * Products a set of lines draws on, kit components included
+ */
+export function getLineProductIds(lines: AvailabilityLine[]): string[] {
+  return [...new Set(lines.flatMap(line => getLineDemand(line).map(demand => demand.product_id)))]
+}
+
+/**
+ * How much of each line the available stock can supply
+ *
+ * @param available - Available base units by product id
+ * @param restockDates - Earliest expected restock by product id
+ */
+export function checkAvailability(
+  lines: AvailabilityLine[],
+  available: Record<string, number>,
+  restockDates: Record<string, string> = {}
+): LineAvailability[] {
+  const remaining = { ...available }
+
+  return lines.map(line => {
+    const demand = getLineDemand(line).filter(entry => remaining[entry.product_id] !== undefined && entry.quantity > 0)
+
+    let suppliable = line.quantity
+    const shortProducts: string[] = []
+    for (const entry of demand) {
+      const left = Math.max(remaining[entry.product_id], 0)
+      const fits = Math.floor(left / entry.quantity)
+      if (fits < line.quantity) {
+        shortProducts.push(entry.product_id)
+      }
+      suppliable = Math.min(suppliable, fits)
+    }
+
+    // The whole line claims its stock, backordered or not
+    for (const entry of demand) {
+      remaining[entry.product_id] -= entry.quantity * line.quantity
+    }
+
+    // Restocked once the last missing product comes in
+    const dates = shortProducts.map(productId => restockDates[productId])
+    const restockDate = dates.length > 0 && dates.every(Boolean) ? dates.sort()[dates.length - 1] : null
+
+    return {
+      id: line.id,
+      quantity: line.quantity,
+      suppliable,
+      shortage: line.quantity - suppliable,
+      backorder: line.backorder ?? false,
+      restockDate
+    }
+  })
+}
+
+/**
+ * Describe a short line, e.g. '"Jabón de tocador": 3 of 5 CAJA in stock'
+ */
+export function describeShortage(line: AvailabilityLine, availability: LineAvailability): string {
+  const restock = availability.restockDate ? `, restock expected ${availability.restockDate}` : ''
+
+  if (availability.backorder) {
+    return `"${line.product_name}": ${availability.shortage} ${line.unit} backordered${restock}`
+  }
+  return `"${line.product_name}": ${availability.suppliable} of ${availability.quantity} ${line.unit} in stock${restock}`
+}
+
+/**
+ * Check lines against the stock available now and the purchase orders
+ * expected to restock it
+ */
+export async function getLineAvailability(
+  lines: AvailabilityLine[],
+  supabase: TypedSupabaseClient = createClient()
+): Promise<LineAvailability[]> {
+  const productIds = getLineProductIds(lines)
+  const [levels, restockDates] = await Promise.all([
+    getStockLevels(productIds, supabase),
+    getRestockDates(productIds, supabase)
+  ])
+  const available = Object.fromEntries(
+    Object.values(levels).map(level => [level.product_id, level.available])
+  )
+
+  return checkAvailability(lines, available, restockDates)
+}
@@ -0,0 +1,210 @@
+/**
+ * Product Bundle Utilities
+ * Kits made of a fixed set of catalog products, quoted as a single line
+ *
+ * A bundle is priced at its own public price ('fixed') or at the sum of its
+ * components ('sum'). A summed price adds up the components' net prices and
+ * puts the total on the bundle's own tax basis, so a kit is taxed as the kit.
+ */
+
+import { createClient } from '@/lib/supabase'
+import { calculatePublicPrice, type TaxConfiguration } from '@/lib/calculations'
+import { multiplyMoney, sumMoney } from '@/lib/money'
+
+export type BundlePricing = 'fixed' | 'sum'
+
+export const BUNDLE_PRICING_OPTIONS: Array<{ value: BundlePricing; label: string }> = [
+  { value: 'fixed', label: 'Fixed bundle price' },
+  { value: 'sum', label: 'Sum of components' }
+]
+
+/**
+ * A component and how many of it go into one bundle
+ */
+export interface BundleItem {
+  component_id: string
+  quantity: number
+}
+
+/**
+ * Component as snapshotted on a quotation line (document_items.bundle_components)
+ */
+export interface BundleComponent {
+  product_id: string
+  product_code: string
+  product_name: string
+  unit: string
+  quantity: number // Per bundle
+}
+
+/**
+ * Component fields bundle pricing needs
+ */
+export interface BundleComponentProduct {
+  id: string
+  code: string
+  name: string
+  unit: string
+  base_price: number // Net price
+  is_bundle?: boolean
+}
+
+/**
+ * Public price of a bundle on its own tax basis
+ * Fixed bundles keep their public price; summed bundles add up their
+ * components' net prices and apply the bundle's taxes when tax_included.
+ */
+export function calculateBundlePrice(
+  pricing: BundlePricing,
+  publicPrice: number,
+  items: BundleItem[],
+  components: BundleComponentProduct[],
+  taxes: TaxConfiguration[],
+  taxIncluded: boolean
+): number {
+  if (pricing === 'fixed') {
+    return publicPrice
+  }
+
+  const netPrice = sumMoney(
+    items.map(item => {
+      const component = components.find(product => product.id === item.component_id)
+      return component ? multiplyMoney(Number(component.base_price), item.quantity) : 0
+    })
+  )
+
+  return calculatePublicPrice(netPrice, taxes, taxIncluded)
+}
+
+/**
+ * Snapshot of a bundle's components for a quotation line
+ * Components no longer in the catalog are left out.
+ */
+export function snapshotBundleComponents(
+  items: BundleItem[],
+  components: BundleComponentProduct[]
+): BundleComponent[] {
+  return items.flatMap(item => {
+    const component = components.find(product => product.id === item.component_id)
+    return component
+      ? [{
+          product_id: component.id,
+          product_code: component.code,
+          product_name: component.name,
+          unit: component.unit,
+          quantity: item.quantity
+        }]
+      : []
+  })
+}
+
+/**
+ * Component quantities for a number of bundles, e.g. 10 kits of 2 soaps = 20 soaps
+ */
+export function expandBundleComponents(components: BundleComponent[], bundleQuantity: number): BundleComponent[] {
+  return components.map(component => ({ ...component, quantity: component.quantity * bundleQuantity }))
+}
+
+/**
+ * Validate a bundle's components before saving them
+ */
+export function validateBundleItems(
+  bundleId: string | null,
+  items: BundleItem[],
+  components: Array<Pick<BundleComponentProduct, 'id' | 'is_bundle'>>
+): string[] {
+  const errors: string[] = []
+
+  if (items.length === 0) {
+    errors.push('A bundle needs at least one component')
+  }
+
+  const seen = new Set<string>()
+
+  items.forEach((item, index) => {
+    const line = `Component ${index + 1}`
+    const component = components.find(product => product.id === item.component_id)
+
+    if (!item.component_id) {
+      errors.push(`${line}: choose a product`)
+      return
+    }
+    if (item.component_id === bundleId) {
+      errors.push(`${line}: a bundle cannot contain itself`)
+    } else if (component?.is_bundle) {
+      errors.push(`${line}: bundles cannot contain other bundles`)
+    }
+    if (!(Number.isInteger(item.quantity) && item.quantity > 0)) {
+      errors.push(`${line}: quantity must be a whole number above 0`)
+    }
+    if (seen.has(item.component_id)) {
+      errors.push(`${line}: product is listed more than once`)
+    }
+    seen.add(item.component_id)
+  })
+
+  return errors
+}
+
+/**
+ * Get a bundle's components
+ */
+export async function getBundleItems(bundleId: string): Promise<BundleItem[]> {
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('product_bundle_items')
+      .select('component_id, quantity')
+      .eq('bundle_id', bundleId)
+      .order('created_at')
+
+    if (error || !data) {
+      console.error('Error fetching bundle items:', error)
+      return []
+    }
+
+    return data as BundleItem[]
+  } catch (error) {
+    console.error('Error fetching bundle items:', error)
+    return []
+  }
+}
+
+/**
+ * Replace a bundle's components
+ */
+export async function updateBundleItems(
+  bundleId: string,
+  items: BundleItem[]
+): Promise<{
+  success: boolean
+  message: string
+}> {
+  const supabase = createClient()
+
+  try {
+    const { error } = await supabase.rpc('set_product_bundle_items', {
+      p_bundle_id: bundleId,
+      p_items: items
+    })
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to update bundle components'
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Bundle components updated'
+    }
+  } catch (error) {
+    console.error('Error updating bundle items:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
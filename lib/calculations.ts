@@ -1,16 +1,40 @@
 /**
  * Pricing and Tax Calculation Utilities
  * Handles all financial calculations for the Hoja Verde quotation system
+ *
+ * Amounts are pesos with two decimals; the arithmetic itself runs in integer
+ * centavos through lib/money, so no result depends on float error.
  */
 
+import {
+  DEFAULT_ROUNDING,
+  allocateMoney,
+  multiplyMoney,
+  roundMoney,
+  subtractMoney,
+  sumMoney,
+  type RoundingConfig,
+  type RoundingMode
+} from './money';
+
+export type { RoundingConfig, RoundingMode, RoundingScope } from './money';
+
+export type TaxCode = 'IVA' | 'IEPS' | 'ISR';
+
+export type TaxKind = 'transferred' | 'withheld'; // Traslado / Retención
+
 export interface TaxConfiguration {
   id: string;
   name: string;
   type: 'percentage' | 'fixed_amount';
   rate?: number; // For percentage taxes (0.16 = 16%)
-  amount?: number; // For fixed amount taxes
+  amount?: number; // For fixed amount taxes (per unit on line items)
   is_default: boolean;
   is_active: boolean;
+  code?: TaxCode; // Defaults to IVA
+  kind?: TaxKind; // Defaults to transferred
+  apply_order?: number; // Lower orders are applied first
+  is_compound?: boolean; // Base includes transferred taxes with a lower apply_order
 }
 
 export interface ProductPricing {
@@ -22,18 +46,61 @@ export interface ProductPricing {
   tax_included: boolean;
 }
 
+/**
+ * Quantity break: from min_quantity on, the unit price is price
+ */
+export interface PriceTier {
+  min_quantity: number;
+  price: number; // Same tax basis as public_price
+}
+
+export interface ResolvedPriceTier extends PriceTier {
+  max_quantity: number | null; // Last quantity in the tier, null for the top tier
+  is_base: boolean; // Below the first break, at the public price
+}
+
+export type DiscountType = 'percentage' | 'fixed_amount';
+
+export interface Discount {
+  type: DiscountType;
+  value: number; // Fraction for percentage discounts (0.10 = 10%), pesos for fixed amounts
+}
+
+export interface LineTaxAmount {
+  tax: TaxConfiguration;
+  base: number;
+  amount: number;
+}
+
+export interface TaxBreakdownEntry {
+  code: TaxCode;
+  name: string;
+  kind: TaxKind;
+  type: 'percentage' | 'fixed_amount';
+  rate?: number;
+  base: number;
+  amount: number;
+}
+
 export interface LineItemCalculation {
   quantity: number;
   unit_price: number;
-  tax_rate: number;
-  tax_amount: number;
-  subtotal: number;
-  total: number;
+  tax_rate: number; // Combined rate of the transferred percentage taxes
+  gross_amount: number; // quantity * unit_price, before any discount
+  discount_amount: number; // Line discount plus any share of the document discount
+  tax_amount: number; // Transferred taxes
+  withholding_amount: number; // Withheld taxes
+  taxes: LineTaxAmount[];
+  subtotal: number; // Taxable base: gross_amount - discount_amount
+  total: number; // subtotal + tax_amount - withholding_amount
 }
 
 export interface DocumentTotals {
-  subtotal: number;
+  subtotal: number; // Taxable base after all discounts
+  discount_amount: number;
   tax_amount: number;
+  withholding_amount: number;
+  tax_breakdown: TaxBreakdownEntry[];
   total: number;
 }
 
@@ -49,30 +116,118 @@ export function calculateBasePrice(cost_price: number, profit_margin: number): n
     throw new Error('Profit margin cannot be negative');
   }
   
-  const basePrice = cost_price * (1 + profit_margin);
-  return roundToPesos(basePrice);
+  // Margins carry a handful of decimals; drop the float noise of 1 + margin
+  const factor = parseFloat((1 + profit_margin).toFixed(10));
+  return multiplyMoney(cost_price, factor);
 }
 
 /**
  * Calculate public price based on base price and tax configuration
+ * A tax-included public price carries the product's transferred taxes on top
+ * of the base price; otherwise the public price is the base price and the
+ * taxes are added when the product is quoted.
  */
 export function calculatePublicPrice(
   base_price: number, 
-  tax_config: TaxConfiguration, 
+  tax_config: TaxConfiguration | TaxConfiguration[], 
   tax_included: boolean
 ): number {
   if (base_price < 0) {
     throw new Error('Base price cannot be negative');
   }
   
-  if (tax_included) {
-    // If tax is included, public price = base price
+  if (!tax_included) {
     return roundToPesos(base_price);
   }
   
-  // If tax is not included, add tax to base price
-  const tax_amount = calculateTaxAmount(base_price, tax_config);
-  return roundToPesos(base_price + tax_amount);
+  // Tax included: one unit priced the same way a quotation line is
+  const tax_configs = Array.isArray(tax_config) ? tax_config : [tax_config];
+  const net_price = roundToPesos(base_price);
+  const line_taxes = calculateLineTaxes(net_price, 1, tax_configs);
+  return sumMoney([net_price, sumTaxes(line_taxes, 'transferred')]);
+}
+
+/**
+ * Calculate the net (pre-tax) price behind a public price
+ * Inverse of calculatePublicPrice: a tax-included price is split with
+ * splitTaxIncludedAmount, any other price is already net.
+ */
+export function calculateNetPrice(
+  public_price: number,
+  tax_config: TaxConfiguration | TaxConfiguration[],
+  tax_included: boolean
+): number {
+  if (public_price < 0) {
+    throw new Error('Public price cannot be negative');
+  }
+
+  if (!tax_included) {
+    return roundToPesos(public_price);
+  }
+
+  const tax_configs = Array.isArray(tax_config) ? tax_config : [tax_config];
+  return splitTaxIncludedAmount(roundToPesos(public_price), 1, tax_configs).subtotal;
+}
+
+/**
+ * Resolve the quantity break a quantity falls in
+ * Quantities below the first break pay the public price. Breaks are whole
+ * quantities, so each tier ends one unit before the next break starts.
+ */
+export function resolvePriceTier(
+  public_price: number,
+  tiers: PriceTier[],
+  quantity: number
+): ResolvedPriceTier {
+  const sorted = [...tiers].sort((a, b) => a.min_quantity - b.min_quantity);
+  const index = sorted.reduce((found, tier, i) => (quantity >= tier.min_quantity ? i : found), -1);
+  const next = sorted[index + 1];
+  const max_quantity = next ? next.min_quantity - 1 : null;
+
+  if (index === -1) {
+    return { min_quantity: 1, price: roundToPesos(public_price), max_quantity, is_base: true };
+  }
+
+  return {
+    min_quantity: sorted[index].min_quantity,
+    price: roundToPesos(sorted[index].price),
+    max_quantity,
+    is_base: false
+  };
+}
+
+/**
+ * Quantity range of a tier, e.g. "12-47" or "48+"
+ */
+export function formatTierRange(tier: Pick<ResolvedPriceTier, 'min_quantity' | 'max_quantity'>): string {
+  return tier.max_quantity === null ? `${tier.min_quantity}+` : `${tier.min_quantity}-${tier.max_quantity}`;
+}
+
+/**
+ * Validate quantity breaks against the public price they discount
+ * Each break starts above 1 (the public price covers from 1) and must be
+ * cheaper than the tier below it.
+ */
+export function validatePriceTiers(public_price: number, tiers: PriceTier[]): string[] {
+  const errors: string[] = [];
+  const sorted = [...tiers].sort((a, b) => a.min_quantity - b.min_quantity);
+
+  sorted.forEach((tier, index) => {
+    if (!Number.isInteger(tier.min_quantity) || tier.min_quantity <= 1) {
+      errors.push(`Tier starting at ${tier.min_quantity} must start at a whole quantity above 1`);
+    } else if (index > 0 && tier.min_quantity === sorted[index - 1].min_quantity) {
+      errors.push(`More than one tier starts at ${tier.min_quantity}`);
+    }
+
+    const previous_price = index > 0 ? sorted[index - 1].price : public_price;
+    if (!(tier.price > 0)) {
+      errors.push(`Tier starting at ${tier.min_quantity} must have a positive price`);
+    } else if (tier.price >= previous_price) {
+      errors.push(`Tier starting at ${tier.min_quantity} must be cheaper than the tier below it`);
+    }
+  });
+
+  return errors;
 }
 
 /**
@@ -87,25 +242,225 @@ export function calculateTaxAmount(base_amount: number, tax_config: TaxConfigura
     return 0;
   }
   
-  let tax_amount = 0;
-  
   if (tax_config.type === 'percentage') {
-    const rate = tax_config.rate || 0;
-    tax_amount = base_amount * rate;
-  } else if (tax_config.type === 'fixed_amount') {
-    tax_amount = tax_config.amount || 0;
+    return multiplyMoney(base_amount, tax_config.rate || 0);
   }
   
-  return roundToPesos(tax_amount);
+  return roundToPesos(tax_config.amount || 0);
+}
+
+/**
+ * Calculate the amount a discount takes off a base amount
+ */
+export function calculateDiscountAmount(
+  base_amount: number,
+  discount?: Discount | null,
+  mode: RoundingMode = DEFAULT_ROUNDING.mode
+): number {
+  if (base_amount < 0) {
+    throw new Error('Base amount cannot be negative');
+  }
+  if (!discount || discount.value === 0) {
+    return 0;
+  }
+  if (discount.value < 0) {
+    throw new Error('Discount cannot be negative');
+  }
+
+  if (discount.type === 'percentage') {
+    if (discount.value > 1) {
+      throw new Error('Percentage discount cannot exceed 100%');
+    }
+    return multiplyMoney(base_amount, discount.value, mode);
+  }
+
+  if (discount.value > base_amount) {
+    throw new Error('Discount cannot exceed the amount it applies to');
+  }
+  return roundToPesos(discount.value, mode);
+}
+
+/**
+ * Tax configuration for a bare rate, treated as transferred IVA
+ */
+export function createRateTaxConfig(rate: number): TaxConfiguration {
+  return {
+    id: `iva-${rate}`,
+    name: 'IVA',
+    type: 'percentage',
+    rate,
+    is_default: false,
+    is_active: true,
+    code: 'IVA',
+    kind: 'transferred',
+    apply_order: 0,
+    is_compound: false
+  };
+}
+
+/**
+ * Apply a set of taxes to a line subtotal
+ *
+ * Taxes run in apply_order. A compound tax is charged on the subtotal plus
+ * every transferred tax from a lower order, which is how IVA stacks on top
+ * of IEPS. Withheld taxes never enter another tax's base. Fixed-amount
+ * taxes (IEPS cuotas) are charged per unit.
+ */
+export function calculateLineTaxes(
+  subtotal: number,
+  quantity: number,
+  taxes: TaxConfiguration[],
+  rounding: RoundingConfig = DEFAULT_ROUNDING
+): LineTaxAmount[] {
+  const applied: LineTaxAmount[] = [];
+
+  for (const tax of orderTaxes(taxes)) {
+    if ((tax.rate ?? 0) < 0 || (tax.amount ?? 0) < 0) {
+      throw new Error('Tax rate cannot be negative');
+    }
+
+    const order = tax.apply_order ?? 0;
+    const stacked = tax.is_compound
+      ? applied
+          .filter(entry => (entry.tax.kind ?? 'transferred') === 'transferred' && (entry.tax.apply_order ?? 0) < order)
+          .map(entry => entry.amount)
+      : [];
+    const base = sumMoney([subtotal, ...stacked], rounding.mode);
+    const amount = tax.type === 'percentage'
+      ? multiplyMoney(base, tax.rate ?? 0, rounding.mode)
+      : multiplyMoney(tax.amount ?? 0, quantity, rounding.mode);
+
+    applied.push({ tax, base, amount });
+  }
+
+  return applied;
+}
+
+/**
+ * Active taxes in apply_order, keeping the given order for ties
+ */
+function orderTaxes(taxes: TaxConfiguration[]): TaxConfiguration[] {
+  return taxes
+    .filter(tax => tax.is_active)
+    .map((tax, index) => ({ tax, index }))
+    .sort((a, b) => (a.tax.apply_order ?? 0) - (b.tax.apply_order ?? 0) || a.index - b.index)
+    .map(({ tax }) => tax);
+}
+
+/**
+ * Transferred taxes on a subtotal without any rounding
+ * Stacking makes this linear in the subtotal: fixed cuotas plus the combined
+ * rate times the subtotal.
+ */
+function calculateExactTransferredTax(subtotal: number, quantity: number, taxes: TaxConfiguration[]): number {
+  const applied: Array<{ order: number; amount: number }> = [];
+
+  for (const tax of orderTaxes(taxes)) {
+    if ((tax.kind ?? 'transferred') !== 'transferred') continue;
+
+    const order = tax.apply_order ?? 0;
+    const stacked = tax.is_compound
+      ? applied.filter(entry => entry.order < order).reduce((sum, entry) => sum + entry.amount, 0)
+      : 0;
+    const amount = tax.type === 'percentage'
+      ? (subtotal + stacked) * (tax.rate ?? 0)
+      : (tax.amount ?? 0) * quantity;
+
+    applied.push({ order, amount });
+  }
+
+  return applied.reduce((sum, entry) => sum + entry.amount, 0);
+}
+
+/**
+ * Split a tax-included amount into its taxable subtotal and taxes
+ *
+ * Solves subtotal + transferred taxes = gross_amount. Because stacked taxes
+ * are linear in the subtotal the base comes out in one step, and the taxes are
+ * then charged on it exactly as calculateLineTaxes would. When rounding makes
+ * that land a centavo away from the gross amount, the centavo stays in the
+ * subtotal, so subtotal + tax_amount always gives back gross_amount.
+ * Withheld taxes are charged on the resulting subtotal.
+ */
+export function splitTaxIncludedAmount(
+  gross_amount: number,
+  quantity: number,
+  taxes: TaxConfiguration[],
+  rounding: RoundingConfig = DEFAULT_ROUNDING
+): { subtotal: number; taxes: LineTaxAmount[] } {
+  if (gross_amount < 0) {
+    throw new Error('Gross amount cannot be negative');
+  }
+
+  const fixed = calculateExactTransferredTax(0, quantity, taxes);
+  const rate = calculateExactTransferredTax(1, quantity, taxes) - fixed;
+  const gross = roundToPesos(gross_amount, rounding.mode);
+  const estimate = roundToPesos(Math.max(0, (gross - fixed) / (1 + rate)), rounding.mode);
+
+  // Rounding the taxes can make the exact base a centavo off the estimate
+  for (const candidate of [estimate, subtractMoney(estimate, 0.01), sumMoney([estimate, 0.01])]) {
+    const subtotal = Math.max(0, candidate);
+    const line_taxes = calculateLineTaxes(subtotal, quantity, taxes, rounding);
+    if (sumMoney([subtotal, sumTaxes(line_taxes, 'transferred')]) === gross) {
+      return { subtotal, taxes: line_taxes };
+    }
+  }
+
+  const estimated_taxes = calculateLineTaxes(estimate, quantity, taxes, rounding);
+  const subtotal = subtractMoney(gross, sumTaxes(estimated_taxes, 'transferred'));
+  if (subtotal < 0) {
+    throw new Error('Gross amount does not cover the fixed taxes');
+  }
+
+  const adjustment = subtractMoney(subtotal, estimate);
+  const withheld = calculateLineTaxes(subtotal, quantity, taxes, rounding);
+
+  return {
+    subtotal,
+    taxes: estimated_taxes.map((entry, index) =>
+      (entry.tax.kind ?? 'transferred') === 'withheld'
+        ? withheld[index]
+        : { ...entry, base: sumMoney([entry.base, adjustment]) }
+    )
+  };
+}
+
+/**
+ * Combined rate of the transferred percentage taxes, stacking included
+ * e.g. IEPS 26.5% with compound IVA 16% -> 0.4674
+ */
+export function calculateCombinedTaxRate(taxes: TaxConfiguration[]): number {
+  const percentage_taxes = taxes.filter(tax => tax.type === 'percentage');
+  return parseFloat(calculateExactTransferredTax(1, 0, percentage_taxes).toFixed(6));
+}
+
+function sumTaxes(taxes: LineTaxAmount[], kind: TaxKind): number {
+  return sumMoney(
+    taxes
+      .filter(entry => (entry.tax.kind ?? 'transferred') === kind)
+      .map(entry => entry.amount)
+  );
+}
+
+/**
+ * Tax configurations behind a line, for lines built before multi-tax support
+ */
+function getLineTaxConfigs(item: LineItemCalculation): TaxConfiguration[] {
+  return item.taxes ? item.taxes.map(entry => entry.tax) : [createRateTaxConfig(item.tax_rate)];
 }
 
 /**
  * Calculate line item totals for quotation items
+ * The line discount is taken off before tax, so every tax is charged on the
+ * discounted amount. Pass a bare rate for a single IVA, or the full list of
+ * transferred and withheld taxes for the line.
  */
 export function calculateLineItem(
   quantity: number,
   unit_price: number,
-  tax_rate: number
+  taxes: number | TaxConfiguration[],
+  discount?: Discount | null,
+  rounding: RoundingConfig = DEFAULT_ROUNDING
 ): LineItemCalculation {
   if (quantity < 0) {
     throw new Error('Quantity cannot be negative');
@@ -113,77 +468,243 @@ export function calculateLineItem(
   if (unit_price < 0) {
     throw new Error('Unit price cannot be negative');
   }
-  if (tax_rate < 0) {
+  if (typeof taxes === 'number' && taxes < 0) {
     throw new Error('Tax rate cannot be negative');
   }
   
-  const subtotal = roundToPesos(quantity * unit_price);
-  const tax_amount = roundToPesos(subtotal * tax_rate);
-  const total = roundToPesos(subtotal + tax_amount);
+  const tax_configs = typeof taxes === 'number' ? [createRateTaxConfig(taxes)] : taxes;
+  const gross_amount = multiplyMoney(quantity, unit_price, rounding.mode);
+  const discount_amount = calculateDiscountAmount(gross_amount, discount, rounding.mode);
+  const subtotal = subtractMoney(gross_amount, discount_amount);
+  const line_taxes = calculateLineTaxes(subtotal, quantity, tax_configs, rounding);
+  const tax_amount = sumTaxes(line_taxes, 'transferred');
+  const withholding_amount = sumTaxes(line_taxes, 'withheld');
+  const total = subtractMoney(sumMoney([subtotal, tax_amount]), withholding_amount);
   
   return {
     quantity,
     unit_price,
-    tax_rate,
+    tax_rate: typeof taxes === 'number' ? taxes : calculateCombinedTaxRate(tax_configs),
+    gross_amount,
+    discount_amount,
     tax_amount,
+    withholding_amount,
+    taxes: line_taxes,
     subtotal,
     total
   };
 }
 
+/**
+ * Calculate line item totals from a tax-included unit price
+ * The taxes are taken out of the price instead of added on top, so the line
+ * total is quantity * unit_price (less any discount) to the centavo. A line
+ * discount comes off the tax-included amount. The returned unit_price is the
+ * net unit price, kept to six decimals like a CFDI ValorUnitario.
+ */
+export function calculateTaxIncludedLineItem(
+  quantity: number,
+  unit_price: number,
+  taxes: number | TaxConfiguration[],
+  discount?: Discount | null,
+  rounding: RoundingConfig = DEFAULT_ROUNDING
+): LineItemCalculation {
+  if (quantity < 0) {
+    throw new Error('Quantity cannot be negative');
+  }
+  if (unit_price < 0) {
+    throw new Error('Unit price cannot be negative');
+  }
+  if (typeof taxes === 'number' && taxes < 0) {
+    throw new Error('Tax rate cannot be negative');
+  }
+
+  const tax_configs = typeof taxes === 'number' ? [createRateTaxConfig(taxes)] : taxes;
+  const list_amount = multiplyMoney(quantity, unit_price, rounding.mode);
+  const list_discount = calculateDiscountAmount(list_amount, discount, rounding.mode);
+  const undiscounted = splitTaxIncludedAmount(list_amount, quantity, tax_configs, rounding);
+  const discounted = list_discount > 0
+    ? splitTaxIncludedAmount(subtractMoney(list_amount, list_discount), quantity, tax_configs, rounding)
+    : undiscounted;
+
+  const gross_amount = undiscounted.subtotal;
+  const subtotal = discounted.subtotal;
+  const tax_amount = sumTaxes(discounted.taxes, 'transferred');
+  const withholding_amount = sumTaxes(discounted.taxes, 'withheld');
+
+  return {
+    quantity,
+    unit_price: quantity > 0 ? parseFloat((gross_amount / quantity).toFixed(6)) : 0,
+    tax_rate: typeof taxes === 'number' ? taxes : calculateCombinedTaxRate(tax_configs),
+    gross_amount,
+    discount_amount: subtractMoney(gross_amount, subtotal),
+    tax_amount,
+    withholding_amount,
+    taxes: discounted.taxes,
+    subtotal,
+    total: subtractMoney(sumMoney([subtotal, tax_amount]), withholding_amount)
+  };
+}
+
+/**
+ * Spread a document-level discount across the line items before tax
+ *
+ * The discount is computed on the sum of line subtotals and prorated by each
+ * line's share of it, to the centavo, so every line is taxed on its own
+ * discounted base even when lines carry different tax rates. Leftover
+ * centavos go to the lines with the largest remainders; the shares always
+ * add up to the document discount exactly.
+ */
+export function applyDocumentDiscount(
+  line_items: LineItemCalculation[],
+  discount?: Discount | null,
+  rounding: RoundingConfig = DEFAULT_ROUNDING
+): LineItemCalculation[] {
+  if (!Array.isArray(line_items)) {
+    throw new Error('Line items must be an array');
+  }
+
+  const subtotals = line_items.map(item => item.subtotal);
+  const discount_amount = calculateDiscountAmount(sumMoney(subtotals), discount, rounding.mode);
+
+  if (discount_amount === 0) {
+    return line_items;
+  }
+
+  const shares = allocateMoney(discount_amount, subtotals);
+
+  return line_items.map((item, index) => {
+    const subtotal = subtractMoney(item.subtotal, shares[index]);
+    const taxes = calculateLineTaxes(subtotal, item.quantity, getLineTaxConfigs(item), rounding);
+    const tax_amount = sumTaxes(taxes, 'transferred');
+    const withholding_amount = sumTaxes(taxes, 'withheld');
+
+    return {
+      ...item,
+      discount_amount: sumMoney([item.discount_amount ?? 0, shares[index]]),
+      subtotal,
+      tax_amount,
+      withholding_amount,
+      taxes,
+      total: subtractMoney(sumMoney([subtotal, tax_amount]), withholding_amount)
+    };
+  });
+}
+
+/**
+ * Group line taxes by tax, kind and rate, CFDI style
+ * With document-scope rounding each percentage tax is charged once on its
+ * combined base instead of adding up the amounts rounded on every line.
+ */
+export function summarizeTaxes(
+  line_items: LineItemCalculation[],
+  rounding: RoundingConfig = DEFAULT_ROUNDING
+): TaxBreakdownEntry[] {
+  const groups = new Map<string, TaxBreakdownEntry>();
+
+  for (const item of line_items) {
+    // Lines without a tax list carry a single IVA at tax_rate
+    const entries = item.taxes ?? [
+      { tax: createRateTaxConfig(item.tax_rate), base: item.subtotal, amount: item.tax_amount }
+    ];
+
+    for (const { tax, base, amount } of entries) {
+      const code = tax.code ?? 'IVA';
+      const kind = tax.kind ?? 'transferred';
+      const key = `${kind}:${code}:${tax.type}:${tax.type === 'percentage' ? tax.rate ?? 0 : tax.amount ?? 0}`;
+      const group = groups.get(key);
+
+      if (group) {
+        group.base = sumMoney([group.base, base]);
+        group.amount = sumMoney([group.amount, amount]);
+      } else {
+        groups.set(key, {
+          code,
+          name: tax.name,
+          kind,
+          type: tax.type,
+          ...(tax.type === 'percentage' ? { rate: tax.rate ?? 0 } : {}),
+          base,
+          amount
+        });
+      }
+    }
+  }
+
+  const breakdown = Array.from(groups.values());
+
+  if (rounding.scope === 'document') {
+    return breakdown.map(entry =>
+      entry.type === 'percentage'
+        ? { ...entry, amount: multiplyMoney(entry.base, entry.rate ?? 0, rounding.mode) }
+        : entry
+    );
+  }
+
+  return breakdown;
+}
+
 /**
  * Calculate document-level totals from array of line items
+ * An optional document discount is applied before tax (see applyDocumentDiscount).
+ * With document-scope rounding the tax totals come from the per-tax breakdown,
+ * so they can differ by a centavo from the sum of the line taxes.
  */
-export function calculateDocumentTotals(line_items: LineItemCalculation[]): DocumentTotals {
+export function calculateDocumentTotals(
+  line_items: LineItemCalculation[],
+  document_discount?: Discount | null,
+  rounding: RoundingConfig = DEFAULT_ROUNDING
+): DocumentTotals {
   if (!Array.isArray(line_items)) {
     throw new Error('Line items must be an array');
   }
   
-  const subtotal = line_items.reduce((sum, item) => sum + item.subtotal, 0);
-  const tax_amount = line_items.reduce((sum, item) => sum + item.tax_amount, 0);
-  const total = subtotal + tax_amount;
+  const items = applyDocumentDiscount(line_items, document_discount, rounding);
+  const tax_breakdown = summarizeTaxes(items, rounding);
+  const subtotal = sumMoney(items.map(item => item.subtotal));
+  const discount_amount = sumMoney(items.map(item => item.discount_amount ?? 0));
+  const sumBreakdown = (kind: TaxKind) =>
+    sumMoney(tax_breakdown.filter(entry => entry.kind === kind).map(entry => entry.amount));
+  const tax_amount = rounding.scope === 'document'
+    ? sumBreakdown('transferred')
+    : sumMoney(items.map(item => item.tax_amount));
+  const withholding_amount = rounding.scope === 'document'
+    ? sumBreakdown('withheld')
+    : sumMoney(items.map(item => item.withholding_amount ?? 0));
   
   return {
-    subtotal: roundToPesos(subtotal),
-    tax_amount: roundToPesos(tax_amount),
-    total: roundToPesos(total)
+    subtotal,
+    discount_amount,
+    tax_amount,
+    withholding_amount,
+    tax_breakdown,
+    total: subtractMoney(sumMoney([subtotal, tax_amount]), withholding_amount)
   };
 }
 
 /**
  * Round amount to Mexican peso precision (2 decimal places)
- * Uses banker's rounding (round-half-to-even) for financial accuracy
+ * Uses banker's rounding (round-half-to-even) unless another mode is given
  */
-export function roundToPesos(amount: number): number {
+export function roundToPesos(amount: number, mode: RoundingMode = DEFAULT_ROUNDING.mode): number {
   if (typeof amount !== 'number' || isNaN(amount)) {
     throw new Error('Amount must be a valid number');
   }
   
-  // Banker's rounding: round-half-to-even for financial accuracy
-  // Use parseFloat and toFixed to avoid floating point precision issues
-  const multiplied = parseFloat((amount * 100).toFixed(10));
-  const floored = Math.floor(multiplied);
-  const fractional = multiplied - floored;
-  
-  // Use a small epsilon for comparison due to floating point precision
-  const epsilon = 1e-10;
-  
-  if (fractional < 0.5 - epsilon) {
-    return floored / 100;
-  } else if (fractional > 0.5 + epsilon) {
-    return Math.ceil(multiplied) / 100;
-  } else {
-    // Exactly 0.5: round to even
-    return (floored % 2 === 0 ? floored : floored + 1) / 100;
-  }
+  return roundMoney(amount, mode);
 }
 
 /**
- * Validate that document totals match constraint: total = subtotal + tax_amount
+ * Validate that document totals match constraint:
+ * total = subtotal + tax_amount - withholding_amount
+ * Discounts are already out of subtotal, so they do not enter the check.
  */
 export function validateDocumentTotals(totals: DocumentTotals): boolean {
-  const calculated_total = roundToPesos(totals.subtotal + totals.tax_amount);
-  return calculated_total === totals.total;
+  const calculated_total = subtractMoney(
+    sumMoney([totals.subtotal, totals.tax_amount]),
+    totals.withholding_amount ?? 0
+  );
+  return calculated_total === roundToPesos(totals.total);
 }
 
 /**
@@ -208,15 +729,27 @@ export function calculateMultipleLineItems(
     quantity: number;
     unit_price: number;
     tax_rate: number;
-  }>
+    taxes?: TaxConfiguration[];
+    discount?: Discount | null;
+    tax_included?: boolean;
+  }>,
+  rounding: RoundingConfig = DEFAULT_ROUNDING
 ): LineItemCalculation[] {
   return items.map(item => 
-    calculateLineItem(item.quantity, item.unit_price, item.tax_rate)
+    (item.tax_included ? calculateTaxIncludedLineItem : calculateLineItem)(
+      item.quantity,
+      item.unit_price,
+      item.taxes ?? item.tax_rate,
+      item.discount,
+      rounding
+    )
   );
 }
 
 /**
  * Calculate pricing for product catalog (cost -> base -> public price chain)
+ * The margin always lands on the net base price; tax_included only decides
+ * whether the public price carries the taxes.
  */
 export function calculateProductPricing(
   cost_price: number,
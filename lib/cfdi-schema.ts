@@ -0,0 +1,71 @@
+/**
+ * CFDI 4.0 schema validation
+ * Checks CFDI XML offline against the SAT schema bundled in data/sat:
+ * cfdv40.xsd with the catalogs (catCFDI.xsd) and data types (tdCFDI.xsd) it
+ * imports, run through libxml2's xmllint compiled to WebAssembly. Server
+ * only, as the schemas are read from disk; see stampInvoice.
+ *
+ * The schema imports its catalogs from sat.gob.mx, so those locations are
+ * pointed at the bundled files and nothing is downloaded. XML written by
+ * toCFDIXml is not sealed yet, so the schema's complaints about the missing
+ * Sello, NoCertificado and Certificado are left out: the PAC adds them.
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { validateXML, type XMLFileInfo } from 'xmllint-wasm'
+
+const SCHEMA_DIR = path.join(process.cwd(), 'data', 'sat')
+
+// Files cfdv40.xsd imports, by the location the SAT gives them
+const SCHEMA_IMPORTS: Record<string, string> = {
+  'http://www.sat.gob.mx/sitio_internet/cfd/catalogos/catCFDI.xsd': 'catCFDI.xsd',
+  'http://www.sat.gob.mx/sitio_internet/cfd/tipoDatos/tdCFDI/tdCFDI.xsd': 'tdCFDI.xsd'
+}
+
+const SEAL_ATTRIBUTES = ['Sello', 'NoCertificado', 'Certificado']
+
+let schemas: Promise<{ schema: XMLFileInfo; preload: XMLFileInfo[] }> | null = null
+
+function loadSchemas() {
+  schemas ??= Promise.all([
+    readFile(path.join(SCHEMA_DIR, 'cfdv40.xsd'), 'utf8'),
+    ...Object.values(SCHEMA_IMPORTS).map(fileName => readFile(path.join(SCHEMA_DIR, fileName), 'utf8'))
+  ]).then(([main, ...imports]) => ({
+    schema: {
+      fileName: 'cfdv40.xsd',
+      contents: Object.entries(SCHEMA_IMPORTS).reduce(
+        (contents, [location, fileName]) => contents.replaceAll(`schemaLocation="${location}"`, `schemaLocation="${fileName}"`),
+        main
+      )
+    },
+    preload: Object.values(SCHEMA_IMPORTS).map((fileName, index) => ({ fileName, contents: imports[index] }))
+  }))
+
+  // A failed read is tried again on the next call
+  schemas.catch(() => {
+    schemas = null
+  })
+  return schemas
+}
+
+function isSealError(message: string): boolean {
+  return SEAL_ATTRIBUTES.some(attribute => message.includes(`The attribute '${attribute}' is required but missing`))
+}
+
+/**
+ * Check CFDI XML against the SAT schema
+ * Returns what the schema rejects, empty when the XML is valid.
+ */
+export async function validateCFDIXml(xml: string): Promise<string[]> {
+  const { schema, preload } = await loadSchemas()
+  const result = await validateXML({
+    xml: [{ fileName: 'cfdi.xml', contents: xml }],
+    schema: [schema],
+    preload
+  })
+
+  return result.errors
+    .map(error => error.message.replace(/^Schemas validity error : /, ''))
+    .filter(message => !isSealError(message))
+}
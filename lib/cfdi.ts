@@ -0,0 +1,642 @@
+/**
+ * CFDI 4.0
+ * Builds the comprobante (CFDI de ingreso) for an order, checks it offline
+ * and writes it as the XML a PAC seals and stamps
+ *
+ * validateCFDI checks a comprobante before its XML is written, with messages
+ * the user can act on: the required attributes, their patterns and lengths,
+ * the catalog keys we issue with, and the Anexo 20 arithmetic the PAC checks
+ * on stamping (importes, bases and totals), which the schema cannot express.
+ * toCFDIXml only writes comprobantes that pass it; the XML itself is then
+ * validated against the SAT schema (cfdv40.xsd, see lib/cfdi-schema) before
+ * it is stamped. Sello, NoCertificado and Certificado are left out: the PAC
+ * seals with our CSD.
+ *
+ * Amounts come from the saved order lines. Taxes are the line taxes as
+ * saved, so an order rounded per document can differ from its invoice by a
+ * centavo; the CFDI always adds up its concept taxes.
+ */
+
+import type { LineTaxAmount } from '@/lib/calculations'
+import { multiplyMoney, roundMoney, subtractMoney, sumMoney } from '@/lib/money'
+import {
+  CFDI_USES,
+  FISCAL_REGIMES,
+  GENERIC_PRODUCT_KEY,
+  PAYMENT_FORMS,
+  PAYMENT_METHODS,
+  PUBLIC_RFC,
+  SAT_TAX_KEYS,
+  getUnitKey,
+  isCFDIUseForRFC,
+  isProductKey,
+  isRegimeForRFC,
+  isUnitKey
+} from '@/lib/sat-catalogs'
+
+export const CFDI_NAMESPACE = 'http://www.sat.gob.mx/cfd/4'
+export const CFDI_SCHEMA_LOCATION = 'http://www.sat.gob.mx/sitio_internet/cfd/4/cfdv40.xsd'
+export const CFDI_CURRENCIES = ['MXN', 'USD']
+
+const RFC_PATTERN = /^[A-ZÑ&]{3,4}[0-9]{2}(0[1-9]|1[012])(0[1-9]|[12][0-9]|3[01])[A-Z0-9]{2}[0-9A]$/
+const POSTAL_CODE_PATTERN = /^[0-9]{5}$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/
+const TEXT_PATTERN = /^[^|]+$/
+
+// Amounts may differ from the exact product by rounding, up to a centavo
+const TOLERANCE = 0.01
+
+export type CFDIFactorType = 'Tasa' | 'Cuota'
+
+/**
+ * A traslado or retención on a concept
+ */
+export interface CFDITax {
+  base: number
+  tax: string // c_Impuesto
+  factor: CFDIFactorType
+  rate: number // TasaOCuota: a fraction for Tasa, pesos per unit for Cuota
+  amount: number
+}
+
+export interface CFDIConcept {
+  productKey: string // ClaveProdServ
+  productCode: string // NoIdentificacion
+  quantity: number
+  unitKey: string // ClaveUnidad
+  unit: string
+  description: string
+  unitValue: number
+  amount: number // quantity × unitValue
+  discount: number
+  taxObject: '01' | '02' // ObjetoImp: no tax object, or with taxes
+  transferred: CFDITax[]
+  withheld: CFDITax[]
+}
+
+export interface CFDIIssuer {
+  rfc: string
+  name: string
+  fiscalRegime: string
+}
+
+export interface CFDIReceiver {
+  rfc: string
+  name: string
+  postalCode: string // DomicilioFiscalReceptor
+  fiscalRegime: string
+  cfdiUse: string
+}
+
+/**
+ * A comprobante de ingreso
+ * serie, folio and date are set when it is issued; until then they are null.
+ */
+export interface CFDI {
+  version: '4.0'
+  serie: string | null
+  folio: string | null
+  date: string | null // Fecha, local time at the place of issue
+  paymentForm: string
+  paymentMethod: string
+  paymentTerms: string | null
+  subtotal: number
+  discount: number
+  currency: string
+  exchangeRate: number | null // Only for foreign currencies
+  total: number
+  type: 'I'
+  exportation: '01'
+  placeOfIssue: string // LugarExpedicion
+  issuer: CFDIIssuer
+  receiver: CFDIReceiver
+  concepts: CFDIConcept[]
+  totalTransferred: number
+  totalWithheld: number
+  transferred: CFDITax[] // By tax, factor and rate
+  withheld: Array<{ tax: string; amount: number }> // By tax
+}
+
+/**
+ * An order line as invoiced
+ * SAT keys are the product's (see resolveSATKeys) and fall back to the
+ * generic product key and the key of the line's unit.
+ */
+export interface CFDIOrderLine {
+  product_code: string
+  product_name: string
+  unit: string
+  quantity: number
+  unit_price: number
+  discount_amount: number
+  taxes: LineTaxAmount[] | null
+  is_selected?: boolean | null
+  sat_product_key?: string | null
+  sat_unit_key?: string | null
+}
+
+export interface CFDIOptions {
+  paymentForm: string
+  paymentMethod: string
+  cfdiUse: string
+  currency: string
+  exchangeRate: number
+  paymentTerms?: string | null
+}
+
+/**
+ * Fecha as the SAT wants it: local time in Mexico City, no zone
+ */
+export function formatCFDIDate(date: Date): string {
+  return new Intl.DateTimeFormat('sv-SE', {
+    timeZone: 'America/Mexico_City',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).format(date).replace(' ', 'T')
+}
+
+// A saved line tax as a traslado or retención; cuotas are charged per unit,
+// so their base is the quantity
+function toCFDITax({ tax, base, amount }: LineTaxAmount, quantity: number): CFDITax {
+  const isRate = tax.type === 'percentage'
+
+  return {
+    base: isRate ? base : quantity,
+    tax: SAT_TAX_KEYS[tax.code ?? 'IVA'],
+    factor: isRate ? 'Tasa' : 'Cuota',
+    rate: isRate ? tax.rate ?? 0 : tax.amount ?? 0,
+    amount
+  }
+}
+
+function toConcept(line: CFDIOrderLine): CFDIConcept {
+  const quantity = Number(line.quantity)
+  const unitValue = Number(line.unit_price)
+  const taxes = (line.taxes ?? []).map(entry => ({
+    kind: entry.tax.kind ?? 'transferred',
+    tax: toCFDITax(entry, quantity)
+  }))
+
+  return {
+    productKey: line.sat_product_key || GENERIC_PRODUCT_KEY,
+    productCode: line.product_code,
+    quantity,
+    unitKey: line.sat_unit_key || getUnitKey(line.unit) || '',
+    unit: line.unit,
+    description: line.product_name,
+    unitValue,
+    amount: multiplyMoney(unitValue, quantity),
+    discount: Number(line.discount_amount),
+    taxObject: taxes.length > 0 ? '02' : '01',
+    transferred: taxes.filter(entry => entry.kind === 'transferred').map(entry => entry.tax),
+    withheld: taxes.filter(entry => entry.kind === 'withheld').map(entry => entry.tax)
+  }
+}
+
+// Document traslados: one per tax, factor and rate
+function groupTransferred(concepts: CFDIConcept[]): CFDITax[] {
+  const groups = new Map<string, CFDITax>()
+
+  for (const tax of concepts.flatMap(concept => concept.transferred)) {
+    const key = `${tax.tax}:${tax.factor}:${tax.rate}`
+    const group = groups.get(key)
+
+    if (group) {
+      group.base = sumMoney([group.base, tax.base])
+      group.amount = sumMoney([group.amount, tax.amount])
+    } else {
+      groups.set(key, { ...tax })
+    }
+  }
+
+  return Array.from(groups.values())
+}
+
+// Document retenciones: one per tax
+function groupWithheld(concepts: CFDIConcept[]): CFDI['withheld'] {
+  const groups = new Map<string, number>()
+
+  for (const tax of concepts.flatMap(concept => concept.withheld)) {
+    groups.set(tax.tax, sumMoney([groups.get(tax.tax) ?? 0, tax.amount]))
+  }
+
+  return Array.from(groups, ([tax, amount]) => ({ tax, amount }))
+}
+
+/**
+ * Build the comprobante for an order's lines
+ * Option lines the client did not take are left out. Sales to the general
+ * public go to the público en general receptor with its fixed regime and use,
+ * and PPD invoices are always 99 (por definir).
+ */
+export function buildCFDI(
+  lines: CFDIOrderLine[],
+  issuer: { legal_name: string; rfc: string; fiscal_regime: string; postal_code: string },
+  receiver: { name: string; rfc: string; postal_code: string; fiscal_regime: string; cfdi_use: string },
+  options: CFDIOptions
+): CFDI {
+  const concepts = lines.filter(line => line.is_selected ?? true).map(toConcept)
+  const transferred = groupTransferred(concepts)
+  const withheld = groupWithheld(concepts)
+
+  const subtotal = sumMoney(concepts.map(concept => concept.amount))
+  const discount = sumMoney(concepts.map(concept => concept.discount))
+  const totalTransferred = sumMoney(transferred.map(tax => tax.amount))
+  const totalWithheld = sumMoney(withheld.map(tax => tax.amount))
+  const isPublic = receiver.rfc.trim().toUpperCase() === PUBLIC_RFC
+
+  return {
+    version: '4.0',
+    serie: null,
+    folio: null,
+    date: null,
+    paymentForm: options.paymentMethod === 'PPD' ? '99' : options.paymentForm,
+    paymentMethod: options.paymentMethod,
+    paymentTerms: options.paymentTerms?.trim() || null,
+    subtotal,
+    discount,
+    currency: options.currency,
+    exchangeRate: options.currency === 'MXN' ? null : options.exchangeRate,
+    total: subtractMoney(sumMoney([subtractMoney(subtotal, discount), totalTransferred]), totalWithheld),
+    type: 'I',
+    exportation: '01',
+    placeOfIssue: issuer.postal_code,
+    issuer: {
+      rfc: issuer.rfc.trim().toUpperCase(),
+      name: issuer.legal_name.trim(),
+      fiscalRegime: issuer.fiscal_regime
+    },
+    receiver: isPublic
+      ? { rfc: PUBLIC_RFC, name: 'PUBLICO EN GENERAL', postalCode: issuer.postal_code, fiscalRegime: '616', cfdiUse: 'S01' }
+      : {
+          rfc: receiver.rfc.trim().toUpperCase(),
+          name: receiver.name.trim(),
+          postalCode: receiver.postal_code.trim(),
+          fiscalRegime: receiver.fiscal_regime,
+          cfdiUse: options.cfdiUse || receiver.cfdi_use
+        },
+    concepts,
+    totalTransferred,
+    totalWithheld,
+    transferred,
+    withheld
+  }
+}
+
+/**
+ * Set the serie, folio and date a comprobante is issued with
+ */
+export function issueCFDI(cfdi: CFDI, serie: string, folio: number, date: Date = new Date()): CFDI {
+  return { ...cfdi, serie, folio: String(folio), date: formatCFDIDate(date) }
+}
+
+function isText(value: string | null, maxLength: number): boolean {
+  return !!value && value.length <= maxLength && TEXT_PATTERN.test(value)
+}
+
+function hasDecimals(value: number, decimals: number): boolean {
+  return Number.isFinite(value) && roundTo(value, decimals) === value
+}
+
+function roundTo(value: number, decimals: number): number {
+  return Number(value.toFixed(decimals))
+}
+
+function differs(a: number, b: number): boolean {
+  return Math.abs(roundMoney(a - b)) > TOLERANCE
+}
+
+function validateTax(tax: CFDITax, label: string, withheld: boolean): string[] {
+  const errors: string[] = []
+  const keys = withheld ? ['001', '002', '003'] : ['002', '003']
+
+  if (!keys.includes(tax.tax)) {
+    errors.push(`${label}: tax ${tax.tax} cannot be ${withheld ? 'withheld' : 'transferred'}`)
+  }
+  if (tax.base <= 0 || !hasDecimals(tax.base, 6)) {
+    errors.push(`${label}: base must be greater than zero`)
+  }
+  if (tax.rate < 0 || !hasDecimals(tax.rate, 6)) {
+    errors.push(`${label}: rate must have at most 6 decimals`)
+  }
+  if (tax.amount < 0 || !hasDecimals(tax.amount, 2) || differs(tax.amount, tax.base * tax.rate)) {
+    errors.push(`${label}: amount does not match base × rate`)
+  }
+
+  return errors
+}
+
+/**
+ * Check a comprobante against the CFDI 4.0 rules and arithmetic before its
+ * XML is written
+ * Serie, folio and date are only checked once set.
+ */
+export function validateCFDI(cfdi: CFDI): string[] {
+  const errors: string[] = []
+  const { issuer, receiver } = cfdi
+
+  if (cfdi.serie !== null && !isText(cfdi.serie, 25)) {
+    errors.push('Serie must have 1 to 25 characters')
+  }
+  if (cfdi.folio !== null && !isText(cfdi.folio, 40)) {
+    errors.push('Folio must have 1 to 40 characters')
+  }
+  if (cfdi.date !== null && !DATE_PATTERN.test(cfdi.date)) {
+    errors.push('Fecha must look like 2026-10-19T10:30:00')
+  }
+  if (!(cfdi.paymentForm in PAYMENT_FORMS)) {
+    errors.push('Forma de pago is not valid')
+  }
+  if (!(cfdi.paymentMethod in PAYMENT_METHODS)) {
+    errors.push('Método de pago is not valid')
+  }
+  if (cfdi.paymentMethod === 'PPD' && cfdi.paymentForm !== '99') {
+    errors.push('PPD invoices must use forma de pago 99')
+  }
+  if (cfdi.paymentTerms !== null && !isText(cfdi.paymentTerms, 1000)) {
+    errors.push('Condiciones de pago must have at most 1000 characters')
+  }
+  if (!CFDI_CURRENCIES.includes(cfdi.currency)) {
+    errors.push(`Currency ${cfdi.currency} cannot be invoiced`)
+  }
+  if (cfdi.currency === 'MXN' ? cfdi.exchangeRate !== null : !(cfdi.exchangeRate && cfdi.exchangeRate > 0)) {
+    errors.push('Tipo de cambio is only for foreign currencies, and required for them')
+  }
+  if (!POSTAL_CODE_PATTERN.test(cfdi.placeOfIssue)) {
+    errors.push('Lugar de expedición must be a 5-digit postal code')
+  }
+
+  if (!RFC_PATTERN.test(issuer.rfc)) {
+    errors.push('Emisor RFC is not valid')
+  }
+  if (!isText(issuer.name, 254)) {
+    errors.push('Emisor name is required')
+  }
+  if (!isRegimeForRFC(issuer.fiscalRegime, issuer.rfc)) {
+    errors.push(`Emisor régimen ${issuer.fiscalRegime} does not apply to RFC ${issuer.rfc}`)
+  }
+
+  if (!RFC_PATTERN.test(receiver.rfc)) {
+    errors.push('Receptor RFC is not valid')
+  }
+  if (!isText(receiver.name, 254)) {
+    errors.push('Receptor name is required')
+  }
+  if (!POSTAL_CODE_PATTERN.test(receiver.postalCode)) {
+    errors.push('Receptor fiscal address must be a 5-digit postal code')
+  }
+  if (!(receiver.fiscalRegime in FISCAL_REGIMES) || !isRegimeForRFC(receiver.fiscalRegime, receiver.rfc)) {
+    errors.push(`Receptor régimen ${receiver.fiscalRegime || '(none)'} does not apply to RFC ${receiver.rfc}`)
+  }
+  if (!(receiver.cfdiUse in CFDI_USES) || !isCFDIUseForRFC(receiver.cfdiUse, receiver.rfc)) {
+    errors.push(`Uso CFDI ${receiver.cfdiUse} does not apply to RFC ${receiver.rfc}`)
+  }
+  if (receiver.rfc === PUBLIC_RFC && (receiver.fiscalRegime !== '616' || receiver.cfdiUse !== 'S01')) {
+    errors.push('Público en general invoices use régimen 616 and uso S01')
+  }
+
+  if (cfdi.concepts.length === 0) {
+    errors.push('An invoice needs at least one concept')
+  }
+
+  cfdi.concepts.forEach((concept, index) => {
+    const label = `Concept ${index + 1}`
+
+    if (!isProductKey(concept.productKey)) {
+      errors.push(`${label}: ClaveProdServ must have 8 digits`)
+    }
+    if (!isUnitKey(concept.unitKey)) {
+      errors.push(`${label}: no ClaveUnidad for unit ${concept.unit}`)
+    }
+    if (!isText(concept.productCode, 100)) {
+      errors.push(`${label}: NoIdentificacion must have 1 to 100 characters`)
+    }
+    if (!isText(concept.description, 1000)) {
+      errors.push(`${label}: description must have 1 to 1000 characters`)
+    }
+    if (!(concept.quantity > 0) || !hasDecimals(concept.quantity, 6)) {
+      errors.push(`${label}: quantity must be greater than zero`)
+    }
+    if (concept.unitValue < 0 || !hasDecimals(concept.unitValue, 6)) {
+      errors.push(`${label}: unit value must have at most 6 decimals`)
+    }
+    if (differs(concept.amount, concept.quantity * concept.unitValue)) {
+      errors.push(`${label}: amount does not match quantity × unit value`)
+    }
+    if (concept.discount < 0 || concept.discount > concept.amount) {
+      errors.push(`${label}: discount cannot exceed the amount`)
+    }
+
+    const taxes = [...concept.transferred, ...concept.withheld]
+    if ((concept.taxObject === '02') !== (taxes.length > 0)) {
+      errors.push(`${label}: ObjetoImp 02 needs taxes, and only it has them`)
+    }
+    concept.transferred.forEach(tax => errors.push(...validateTax(tax, `${label} traslado`, false)))
+    concept.withheld.forEach(tax => errors.push(...validateTax(tax, `${label} retención`, true)))
+  })
+
+  if (differs(cfdi.subtotal, sumMoney(cfdi.concepts.map(concept => concept.amount)))) {
+    errors.push('SubTotal must be the sum of the concept amounts')
+  }
+  if (differs(cfdi.discount, sumMoney(cfdi.concepts.map(concept => concept.discount)))) {
+    errors.push('Descuento must be the sum of the concept discounts')
+  }
+  if (differs(cfdi.totalTransferred, sumMoney(cfdi.transferred.map(tax => tax.amount)))) {
+    errors.push('TotalImpuestosTrasladados must be the sum of the traslados')
+  }
+  if (differs(cfdi.totalWithheld, sumMoney(cfdi.withheld.map(tax => tax.amount)))) {
+    errors.push('TotalImpuestosRetenidos must be the sum of the retenciones')
+  }
+  if (differs(cfdi.total, cfdi.subtotal - cfdi.discount + cfdi.totalTransferred - cfdi.totalWithheld)) {
+    errors.push('Total must be SubTotal - Descuento + traslados - retenciones')
+  }
+  if (cfdi.total < 0) {
+    errors.push('Total cannot be negative')
+  }
+
+  return errors
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+const money = (value: number) => value.toFixed(2)
+const decimal = (value: number) => String(roundTo(value, 6))
+const rate = (value: number) => value.toFixed(6)
+
+// One element; attributes left undefined are not written
+function element(name: string, attributes: Record<string, string | undefined>, children: string[] = []): string {
+  const written = Object.entries(attributes)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('')
+
+  return children.length > 0
+    ? `<cfdi:${name}${written}>${children.join('')}</cfdi:${name}>`
+    : `<cfdi:${name}${written}/>`
+}
+
+function taxElement(name: 'Traslado' | 'Retencion', tax: CFDITax): string {
+  return element(name, {
+    Base: decimal(tax.base),
+    Impuesto: tax.tax,
+    TipoFactor: tax.factor,
+    TasaOCuota: rate(tax.rate),
+    Importe: money(tax.amount)
+  })
+}
+
+function conceptElement(concept: CFDIConcept): string {
+  const taxes = [
+    concept.transferred.length > 0 && element('Traslados', {}, concept.transferred.map(tax => taxElement('Traslado', tax))),
+    concept.withheld.length > 0 && element('Retenciones', {}, concept.withheld.map(tax => taxElement('Retencion', tax)))
+  ].filter((child): child is string => !!child)
+
+  return element('Concepto', {
+    ClaveProdServ: concept.productKey,
+    NoIdentificacion: concept.productCode,
+    Cantidad: decimal(concept.quantity),
+    ClaveUnidad: concept.unitKey,
+    Unidad: concept.unit,
+    Descripcion: concept.description,
+    ValorUnitario: decimal(concept.unitValue),
+    Importe: money(concept.amount),
+    Descuento: concept.discount > 0 ? money(concept.discount) : undefined,
+    ObjetoImp: concept.taxObject
+  }, taxes.length > 0 ? [element('Impuestos', {}, taxes)] : [])
+}
+
+/**
+ * Write an issued comprobante as CFDI 4.0 XML, ready for the PAC to seal
+ * Throws when the comprobante does not validate or has not been issued.
+ */
+export function toCFDIXml(cfdi: CFDI): string {
+  if (cfdi.serie === null || cfdi.folio === null || cfdi.date === null) {
+    throw new Error('Issue the CFDI before writing its XML')
+  }
+  const errors = validateCFDI(cfdi)
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '))
+  }
+
+  const hasTaxes = cfdi.transferred.length > 0 || cfdi.withheld.length > 0
+  const taxes = element('Impuestos', {
+    TotalImpuestosRetenidos: cfdi.withheld.length > 0 ? money(cfdi.totalWithheld) : undefined,
+    TotalImpuestosTrasladados: cfdi.transferred.length > 0 ? money(cfdi.totalTransferred) : undefined
+  }, [
+    cfdi.withheld.length > 0 && element('Retenciones', {}, cfdi.withheld.map(tax =>
+      element('Retencion', { Impuesto: tax.tax, Importe: money(tax.amount) })
+    )),
+    cfdi.transferred.length > 0 && element('Traslados', {}, cfdi.transferred.map(tax => element('Traslado', {
+      Base: money(tax.base),
+      Impuesto: tax.tax,
+      TipoFactor: tax.factor,
+      TasaOCuota: rate(tax.rate),
+      Importe: money(tax.amount)
+    })))
+  ].filter((child): child is string => !!child))
+
+  const comprobante = element('Comprobante', {
+    'xmlns:cfdi': CFDI_NAMESPACE,
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': `${CFDI_NAMESPACE} ${CFDI_SCHEMA_LOCATION}`,
+    Version: cfdi.version,
+    Serie: cfdi.serie,
+    Folio: cfdi.folio,
+    Fecha: cfdi.date,
+    FormaPago: cfdi.paymentForm,
+    CondicionesDePago: cfdi.paymentTerms ?? undefined,
+    SubTotal: money(cfdi.subtotal),
+    Descuento: cfdi.discount > 0 ? money(cfdi.discount) : undefined,
+    Moneda: cfdi.currency,
+    TipoCambio: cfdi.exchangeRate !== null ? decimal(cfdi.exchangeRate) : undefined,
+    Total: money(cfdi.total),
+    TipoDeComprobante: cfdi.type,
+    Exportacion: cfdi.exportation,
+    MetodoPago: cfdi.paymentMethod,
+    LugarExpedicion: cfdi.placeOfIssue
+  }, [
+    element('Emisor', { Rfc: cfdi.issuer.rfc, Nombre: cfdi.issuer.name, RegimenFiscal: cfdi.issuer.fiscalRegime }),
+    element('Receptor', {
+      Rfc: cfdi.receiver.rfc,
+      Nombre: cfdi.receiver.name,
+      DomicilioFiscalReceptor: cfdi.receiver.postalCode,
+      RegimenFiscalReceptor: cfdi.receiver.fiscalRegime,
+      UsoCFDI: cfdi.receiver.cfdiUse
+    }),
+    element('Conceptos', {}, cfdi.concepts.map(conceptElement)),
+    ...(hasTaxes ? [taxes] : [])
+  ])
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${comprobante}`
+}
+
+/**
+ * The seal and timbre fiscal digital of a stamped CFDI
+ */
+export interface CFDIStamp {
+  uuid: string
+  stampedAt: string // FechaTimbrado
+  issuerSeal: string // Sello
+  issuerCertificate: string // NoCertificado
+  satSeal: string // SelloSAT
+  satCertificate: string // NoCertificadoSAT
+  pacRfc: string // RfcProvCertif
+}
+
+function readAttribute(xml: string, elementName: string, attribute: string): string {
+  const tag = new RegExp(`<${elementName}\\s[^>]*>`).exec(xml)?.[0] ?? ''
+  return new RegExp(`\\s${attribute}="([^"]*)"`).exec(tag)?.[1] ?? ''
+}
+
+/**
+ * Read the seal and timbre from a stamped XML, or null when it has none
+ */
+export function readCFDIStamp(xml: string): CFDIStamp | null {
+  const uuid = readAttribute(xml, 'tfd:TimbreFiscalDigital', 'UUID')
+  if (!uuid) {
+    return null
+  }
+
+  return {
+    uuid,
+    stampedAt: readAttribute(xml, 'tfd:TimbreFiscalDigital', 'FechaTimbrado'),
+    issuerSeal: readAttribute(xml, 'cfdi:Comprobante', 'Sello'),
+    issuerCertificate: readAttribute(xml, 'cfdi:Comprobante', 'NoCertificado'),
+    satSeal: readAttribute(xml, 'tfd:TimbreFiscalDigital', 'SelloSAT'),
+    satCertificate: readAttribute(xml, 'tfd:TimbreFiscalDigital', 'NoCertificadoSAT'),
+    pacRfc: readAttribute(xml, 'tfd:TimbreFiscalDigital', 'RfcProvCertif')
+  }
+}
+
+/**
+ * Cadena original del complemento de certificación digital del SAT
+ */
+export function getStampChain(stamp: CFDIStamp): string {
+  return `||1.1|${stamp.uuid}|${stamp.stampedAt}|${stamp.pacRfc}|${stamp.issuerSeal}|${stamp.satCertificate}||`
+}
+
+/**
+ * SAT verification URL for a stamped invoice, printed on its representation
+ */
+export function getVerificationUrl(cfdi: CFDI, stamp: CFDIStamp): string {
+  const params = [
+    `id=${stamp.uuid}`,
+    `re=${encodeURIComponent(cfdi.issuer.rfc)}`,
+    `rr=${encodeURIComponent(cfdi.receiver.rfc)}`,
+    `tt=${cfdi.total.toFixed(6)}`,
+    `fe=${encodeURIComponent(stamp.issuerSeal.slice(-8))}`
+  ]
+  return `https://verificacfdi.facturaelectronica.sat.gob.mx/default.aspx?${params.join('&')}`
+}
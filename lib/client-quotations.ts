@@ -1,13 +1,28 @@
 import { createClient } from './supabase'
 import { Database } from './supabase'
+import { validateOptionSelection } from './quotations'
 
 type Quotation = Database['public']['Tables']['documents']['Row']
 type QuotationStatus = Database['public']['Enums']['quotation_status']
 
+export interface ClientQuotationItem {
+  id: string
+  product_code: string
+  product_name: string
+  unit: string
+  quantity: number
+  subtotal: number
+  total: number
+  is_optional: boolean
+  alternative_group: string | null
+  is_selected: boolean
+}
+
 export interface ClientQuotation extends Quotation {
   companies: {
     name: string
   } | null
+  document_items?: ClientQuotationItem[]
 }
 
 export async function getClientQuotations(
@@ -55,7 +70,8 @@ export async function getClientQuotationById(
     .from('documents')
     .select(`
       *,
-      companies!documents_company_id_fkey(name)
+      companies!documents_company_id_fkey(name),
+      document_items(id, product_code, product_name, unit, quantity, subtotal, total, is_optional, alternative_group, is_selected)
     `)
     .eq('id', quotationId)
     .eq('type', 'quotation')
@@ -69,17 +85,52 @@ export async function getClientQuotationById(
   return data
 }
 
+/**
+ * Record which optional and alternative lines the client takes
+ * Unpicked option lines leave the quotation totals and are not copied to the order.
+ */
+export async function selectQuotationOptions(
+  quotationId: string,
+  items: ClientQuotationItem[],
+  selectedItemIds: string[]
+): Promise<void> {
+  const errors = validateOptionSelection(items, selectedItemIds)
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '))
+  }
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('select_quotation_options', {
+    p_quotation_id: quotationId,
+    p_item_ids: selectedItemIds
+  })
+
+  if (error) {
+    throw new Error(`Failed to save options: ${error.message}`)
+  }
+
+  const result = data as { success: boolean; message: string } | null
+  if (!result?.success) {
+    throw new Error(result?.message || 'Failed to save options')
+  }
+}
+
 export async function updateQuotationStatus(
   quotationId: string,
   newStatus: 'in_review' | 'approved' | 'rejected',
-  _userId: string
+  _userId: string,
+  options?: {
+    items: ClientQuotationItem[]
+    selectedItemIds: string[]
+  }
 ): Promise<void> {
   const supabase = createClient()
 
   // First verify the quotation belongs to the user's company and is in valid state
   const { data: quotation, error: fetchError } = await supabase
     .from('documents')
-    .select('quotation_status, company_id')
+    .select('quotation_status, company_id, is_latest_revision')
     .eq('id', quotationId)
     .eq('type', 'quotation')
     .single()
@@ -88,6 +139,10 @@ export async function updateQuotationStatus(
     throw new Error(`Failed to fetch quotation: ${fetchError.message}`)
   }
 
+  if (!quotation.is_latest_revision) {
+    throw new Error('This revision has been superseded and can no longer be updated')
+  }
+
   // Validate state transitions
   const currentStatus = quotation.quotation_status
   const validTransitions: Record<string, string[]> = {
@@ -99,6 +154,11 @@ export async function updateQuotationStatus(
     throw new Error(`Invalid status transition from ${currentStatus} to ${newStatus}`)
   }
 
+  // The client's picks are saved before approving so the approved totals include them
+  if (newStatus === 'approved' && options) {
+    await selectQuotationOptions(quotationId, options.items, options.selectedItemIds)
+  }
+
   // Update the quotation status
   const { error: updateError } = await supabase
     .from('documents')
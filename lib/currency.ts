@@ -1,24 +1,88 @@
 /**
  * Currency Formatting Utilities for Mexican Peso
  * Handles all currency display and formatting requirements
+ *
+ * MXN is the base currency: catalog prices and reports are in pesos, and
+ * documents in another currency carry the exchange rate (MXN per unit)
+ * they were quoted at.
  */
 
+import {
+  DEFAULT_ROUNDING,
+  divideMoney,
+  multiplyMoney,
+  roundMoney,
+  toCentavos,
+  type RoundingMode
+} from './money';
+
+export type CurrencyCode = 'MXN' | 'USD';
+
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['MXN', 'USD'];
+
+const CURRENCY_NAMES: Record<CurrencyCode, string> = {
+  MXN: 'Pesos Mexicanos',
+  USD: 'Dólares Estadounidenses'
+};
+
 /**
- * Format amount as Mexican peso currency with proper localization
+ * Check that a code is one of the currencies documents can be issued in
  */
-export function formatMXNCurrency(amount: number): string {
+export function isSupportedCurrency(code: string): code is CurrencyCode {
+  return (SUPPORTED_CURRENCIES as string[]).includes(code);
+}
+
+/**
+ * Spanish name of a currency, e.g. for "Precios expresados en ..." notes
+ */
+export function getCurrencyName(currency: CurrencyCode): string {
+  return CURRENCY_NAMES[currency];
+}
+
+/**
+ * Format amount in the given currency with Mexican localization
+ * Pesos show as $1,234.56; other currencies show their code, e.g. USD 1,234.56
+ */
+export function formatCurrency(amount: number, currency: CurrencyCode = 'MXN'): string {
   if (typeof amount !== 'number' || isNaN(amount)) {
     throw new Error('Amount must be a valid number');
   }
   
   return new Intl.NumberFormat('es-MX', {
     style: 'currency',
-    currency: 'MXN',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2
   }).format(amount);
 }
 
+/**
+ * Format amount as Mexican peso currency with proper localization
+ */
+export function formatMXNCurrency(amount: number): string {
+  return formatCurrency(amount, 'MXN');
+}
+
+/**
+ * Convert a peso amount into a currency quoted at exchange_rate MXN per unit
+ */
+export function convertFromMXN(amount: number, exchange_rate: number, mode: RoundingMode = DEFAULT_ROUNDING.mode): number {
+  if (!(exchange_rate > 0)) {
+    throw new Error('Exchange rate must be positive');
+  }
+  return divideMoney(amount, exchange_rate, mode);
+}
+
+/**
+ * Convert an amount in a currency quoted at exchange_rate MXN per unit back to pesos
+ */
+export function convertToMXN(amount: number, exchange_rate: number = 1, mode: RoundingMode = DEFAULT_ROUNDING.mode): number {
+  if (!(exchange_rate > 0)) {
+    throw new Error('Exchange rate must be positive');
+  }
+  return multiplyMoney(amount, exchange_rate, mode);
+}
+
 /**
  * Format amount as Mexican peso without currency symbol (for input fields)
  */
@@ -91,25 +155,24 @@ export function formatPercentage(value: number, decimalPlaces: number = 2): stri
  * Validate that a number represents a valid Mexican peso amount
  */
 export function isValidMXNAmount(amount: number): boolean {
-  if (typeof amount !== 'number' || isNaN(amount)) {
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) {
     return false;
   }
   
   // Check if amount has more than 2 decimal places (invalid for peso)
-  // Use a more generous epsilon to handle floating point precision issues
-  const rounded = Math.round(amount * 100) / 100;
-  return Math.abs(amount - rounded) < 1e-10;
+  // Float noise such as 0.1 + 0.2 is tolerated; real sub-centavo amounts are not
+  return Math.abs(amount - toCentavos(amount) / 100) < 1e-9;
 }
 
 /**
  * Round to Mexican peso precision and validate
  */
-export function roundAndValidateMXN(amount: number): number {
+export function roundAndValidateMXN(amount: number, mode: RoundingMode = DEFAULT_ROUNDING.mode): number {
   if (typeof amount !== 'number' || isNaN(amount)) {
     throw new Error('Amount must be a valid number');
   }
   
-  const rounded = Math.round((amount + Number.EPSILON) * 100) / 100;
+  const rounded = roundMoney(amount, mode);
   
   if (!isValidMXNAmount(rounded)) {
     throw new Error('Invalid Mexican peso amount');
@@ -1,4 +1,6 @@
 import { formatDistanceToNow } from 'date-fns'
+import { convertToMXN } from './currency'
+import { sumMoney } from './money'
 
 export interface TrendData {
   value: number
@@ -121,12 +123,26 @@ export function formatStatusLabel(status: string): string {
   return statusMap[status] || status.charAt(0).toUpperCase() + status.slice(1)
 }
 
+/**
+ * A document's total in MXN, at the exchange rate frozen on the document
+ */
+export function getRevenueInMXN(item: { total?: number | null; exchange_rate?: number | null }): number {
+  return convertToMXN(item.total || 0, item.exchange_rate ?? 1)
+}
+
+/**
+ * Add up document totals in MXN
+ */
+export function sumRevenueInMXN(items: Array<{ total?: number | null; exchange_rate?: number | null }>): number {
+  return sumMoney(items.map(getRevenueInMXN))
+}
+
 /**
  * Generate monthly revenue data for charts
  */
 export function generateMonthlyRevenueData(
-  quotationsData: Array<{ total: number; created_at: string }>,
-  ordersData: Array<{ total: number; created_at: string }>,
+  quotationsData: Array<{ total: number; exchange_rate?: number | null; created_at: string }>,
+  ordersData: Array<{ total: number; exchange_rate?: number | null; created_at: string }>,
   months: number = 12
 ): Array<{ month: string; revenue: number; quotations: number; orders: number }> {
   const monthlyData: Record<string, { revenue: number; quotations: number; orders: number }> = {}
@@ -143,7 +159,7 @@ export function generateMonthlyRevenueData(
   quotationsData.forEach(item => {
     const monthKey = item.created_at.slice(0, 7)
     if (monthlyData[monthKey]) {
-      monthlyData[monthKey].revenue += item.total || 0
+      monthlyData[monthKey].revenue = sumMoney([monthlyData[monthKey].revenue, getRevenueInMXN(item)])
       monthlyData[monthKey].quotations += 1
     }
   })
@@ -152,7 +168,7 @@ export function generateMonthlyRevenueData(
   ordersData.forEach(item => {
     const monthKey = item.created_at.slice(0, 7)
     if (monthlyData[monthKey]) {
-      monthlyData[monthKey].revenue += item.total || 0
+      monthlyData[monthKey].revenue = sumMoney([monthlyData[monthKey].revenue, getRevenueInMXN(item)])
       monthlyData[monthKey].orders += 1
     }
   })
@@ -176,16 +192,16 @@ export function formatMonthLabel(monthKey: string): string {
  * Calculate growth metrics for a specific period
  */
 export function calculateGrowthMetrics(
-  currentData: Array<{ total?: number; created_at: string }>,
-  previousData: Array<{ total?: number; created_at: string }>
+  currentData: Array<{ total?: number; exchange_rate?: number | null; created_at: string }>,
+  previousData: Array<{ total?: number; exchange_rate?: number | null; created_at: string }>
 ): {
   count: TrendData
   revenue: TrendData
 } {
   const currentCount = currentData.length
   const previousCount = previousData.length
-  const currentRevenue = currentData.reduce((sum, item) => sum + (item.total || 0), 0)
-  const previousRevenue = previousData.reduce((sum, item) => sum + (item.total || 0), 0)
+  const currentRevenue = sumRevenueInMXN(currentData)
+  const previousRevenue = sumRevenueInMXN(previousData)
   
   return {
     count: calculateTrend(currentCount, previousCount),
@@ -1,5 +1,13 @@
 import { createClient } from '@/lib/supabase'
-import { getDateRanges, calculateGrowthMetrics, formatStatusDistribution } from './dashboard-metrics'
+import {
+  getDateRanges,
+  calculateGrowthMetrics,
+  formatStatusDistribution,
+  getRevenueInMXN,
+  sumRevenueInMXN
+} from './dashboard-metrics'
+import { sumMoney } from './money'
+import type { CurrencyCode } from './currency'
 import { log } from './logger'
 
 export interface QueryOptions {
@@ -35,6 +43,7 @@ export interface DashboardQueryResult {
     folio: string
     companyName: string
     total: number
+    currency: CurrencyCode
     status: string
     createdAt: string
   }>
@@ -69,7 +78,7 @@ export async function fetchDashboardData(options: QueryOptions): Promise<Dashboa
       // Current period quotations
       supabase
         .from('documents')
-        .select('id, total, quotation_status, created_at')
+        .select('id, total, exchange_rate, quotation_status, created_at')
         .eq('type', 'quotation')
         .gte('created_at', current.start.toISOString())
         .lte('created_at', current.end.toISOString())
@@ -79,7 +88,7 @@ export async function fetchDashboardData(options: QueryOptions): Promise<Dashboa
       // Current period orders
       supabase
         .from('documents')
-        .select('id, total, order_status, created_at')
+        .select('id, total, exchange_rate, order_status, created_at')
         .eq('type', 'order')
         .gte('created_at', current.start.toISOString())
         .lte('created_at', current.end.toISOString())
@@ -101,7 +110,7 @@ export async function fetchDashboardData(options: QueryOptions): Promise<Dashboa
       // Recent quotations (without join to avoid hanging)
       supabase
         .from('documents')
-        .select('id, folio, total, quotation_status, created_at, company_id')
+        .select('id, folio, total, currency, quotation_status, created_at, company_id')
         .eq('type', 'quotation')
         .order('created_at', { ascending: false })
         .limit(10)
@@ -136,7 +145,7 @@ export async function fetchDashboardData(options: QueryOptions): Promise<Dashboa
       [previousQuotationsResult, previousOrdersResult] = await Promise.all([
         supabase
           .from('documents')
-          .select('id, total, quotation_status, created_at')
+          .select('id, total, exchange_rate, quotation_status, created_at')
           .eq('type', 'quotation')
           .gte('created_at', previous.start.toISOString())
           .lte('created_at', previous.end.toISOString())
@@ -145,7 +154,7 @@ export async function fetchDashboardData(options: QueryOptions): Promise<Dashboa
 
         supabase
           .from('documents')
-          .select('id, total, order_status, created_at')
+          .select('id, total, exchange_rate, order_status, created_at')
           .eq('type', 'order')
           .gte('created_at', previous.start.toISOString())
           .lte('created_at', previous.end.toISOString())
@@ -167,10 +176,7 @@ export async function fetchDashboardData(options: QueryOptions): Promise<Dashboa
     const totalProducts = productsResult.count || 0
 
     // Calculate basic metrics
-    const totalRevenue = [
-      ...currentQuotations.map(q => q.total || 0),
-      ...currentOrders.map(o => o.total || 0)
-    ].reduce((sum, total) => sum + total, 0)
+    const totalRevenue = sumRevenueInMXN([...currentQuotations, ...currentOrders])
 
     const totalQuotations = currentQuotations.length
     const totalOrders = currentOrders.length
@@ -183,6 +189,7 @@ export async function fetchDashboardData(options: QueryOptions): Promise<Dashboa
       folio: doc.folio,
       companyName: doc.company_id ? (companiesMap[doc.company_id] || 'Unknown Company') : 'Unknown Company',
       total: doc.total || 0,
+      currency: doc.currency || 'MXN',
       status: doc.quotation_status || 'unknown',
       createdAt: doc.created_at
     }))
@@ -209,10 +216,7 @@ export async function fetchDashboardData(options: QueryOptions): Promise<Dashboa
       const ordersGrowth = calculateGrowthMetrics(currentOrders, previousOrders)
 
       // Calculate previous period totals for comparison
-      const previousRevenue = [
-        ...previousQuotations.map(q => q.total || 0),
-        ...previousOrders.map(o => o.total || 0)
-      ].reduce((sum, total) => sum + total, 0)
+      const previousRevenue = sumRevenueInMXN([...previousQuotations, ...previousOrders])
 
       const previousClients = totalClients // Simplified for now - could be enhanced with historical data
 
@@ -284,7 +288,7 @@ async function fetchChartData(limit: number = 10000): Promise<{
     // Monthly revenue data with limit
     supabase
       .from('documents')
-      .select('type, total, created_at')
+      .select('type, total, exchange_rate, created_at')
       .in('type', ['quotation', 'order'])
       .gte('created_at', startDate.toISOString())
       .lte('created_at', endDate.toISOString())
@@ -319,7 +323,7 @@ async function fetchChartData(limit: number = 10000): Promise<{
     monthlyDataResult.data.forEach(doc => {
       const monthKey = doc.created_at.slice(0, 7)
       if (monthlyData[monthKey]) {
-        monthlyData[monthKey].revenue += doc.total || 0
+        monthlyData[monthKey].revenue = sumMoney([monthlyData[monthKey].revenue, getRevenueInMXN(doc)])
         if (doc.type === 'quotation') {
           monthlyData[monthKey].quotations += 1
         } else if (doc.type === 'order') {
@@ -428,22 +432,22 @@ export async function fetchRevenueMetrics(timeRange: number): Promise<{
   const [quotationsResult, ordersResult] = await Promise.all([
     supabase
       .from('documents')
-      .select('total')
+      .select('total, exchange_rate')
       .eq('type', 'quotation')
       .gte('created_at', startDate.toISOString())
       .lte('created_at', endDate.toISOString()),
 
     supabase
       .from('documents')
-      .select('total')
+      .select('total, exchange_rate')
       .eq('type', 'order')
       .gte('created_at', startDate.toISOString())
       .lte('created_at', endDate.toISOString())
   ])
 
-  const quotationsRevenue = (quotationsResult.data || []).reduce((sum, doc) => sum + (doc.total || 0), 0)
-  const ordersRevenue = (ordersResult.data || []).reduce((sum, doc) => sum + (doc.total || 0), 0)
-  const totalRevenue = quotationsRevenue + ordersRevenue
+  const quotationsRevenue = sumRevenueInMXN(quotationsResult.data || [])
+  const ordersRevenue = sumRevenueInMXN(ordersResult.data || [])
+  const totalRevenue = sumMoney([quotationsRevenue, ordersRevenue])
 
   const quotationsCount = quotationsResult.data?.length || 0
   const ordersCount = ordersResult.data?.length || 0
@@ -0,0 +1,493 @@
+/**
+ * Document PDFs
+ * Builds what the PDF components render from saved documents and their
+ * deliveries, for the download route (app/api/documents/[id]/pdf)
+ *
+ * Quotations render as quotations; orders as an order confirmation, a
+ * warehouse packing list or a delivery note (remisión). Rendered files are
+ * cached per document revision. A document's updated_at changes whenever it
+ * is edited or changes status, so together with its id, the kind, the
+ * delivery and the issuer profile's updated_at it names one revision of the
+ * file. Its lines can change without it (picking quotation options, say), so
+ * a digest of the lines is part of the name too.
+ */
+
+import { createHash } from 'crypto'
+import type { Database, TypedSupabaseClient } from '@/lib/supabase'
+import { summarizeTaxes, type LineItemCalculation } from '@/lib/calculations'
+import { expandBundleComponents } from '@/lib/bundles'
+import { isSupportedCurrency } from '@/lib/currency'
+import { sumMoney, type RoundingConfig } from '@/lib/money'
+import { getRoundingSettings } from '@/lib/settings'
+import {
+  formatBundleComponent,
+  type DeliveryNotePDFData,
+  type OrderPDFData,
+  type PackingListItem,
+  type PackingListPDFData,
+  type PDFCompany,
+  type PDFDocumentKind,
+  type PDFQuantityItem,
+  type QuotationPDFData
+} from '@/lib/pdf'
+import type { DatabaseQuotationItem } from '@/types/calculations'
+
+type DocumentRow = Database['public']['Tables']['documents']['Row']
+type CompanyRow = Database['public']['Tables']['companies']['Row']
+
+type PDFItemRow = Pick<
+  DatabaseQuotationItem,
+  | 'id' | 'product_id' | 'product_code' | 'product_name' | 'unit' | 'unit_factor' | 'quantity' | 'unit_price' | 'tax_rate'
+  | 'tier_min_quantity' | 'tier_max_quantity' | 'bundle_components' | 'expand_on_pdf'
+  | 'is_optional' | 'alternative_group' | 'is_selected'
+  | 'discount_amount' | 'taxes' | 'tax_amount' | 'withholding_amount' | 'subtotal' | 'total'
+>
+
+/**
+ * A delivery of an order
+ */
+export interface PDFDeliveryRow {
+  id: string
+  scheduled_date: string | null
+  delivery_address: string
+  delivery_instructions: string | null
+  carrier: string | null
+  tracking_number: string | null
+  delivery_notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A document with what its PDFs show
+ */
+export interface PDFDocumentRow extends Pick<
+  DocumentRow,
+  | 'id' | 'folio' | 'type' | 'company_id' | 'quotation_status' | 'order_status' | 'issue_date' | 'expiry_date'
+  | 'contact_name' | 'terms' | 'delivery_terms' | 'payment_terms' | 'discount_amount' | 'subtotal' | 'tax_amount'
+  | 'total' | 'currency' | 'exchange_rate' | 'updated_at'
+> {
+  companies: Pick<CompanyRow, 'name' | 'rfc' | 'address' | 'city' | 'state' | 'postal_code' | 'phone' | 'email' | 'logo_url'> | null
+  quotation?: { folio: string } | null // Quotation an order was converted from
+  deliveries?: PDFDeliveryRow[]
+  document_items: PDFItemRow[]
+}
+
+/**
+ * Where a product is picked from, for packing lists
+ */
+export interface PackingProduct {
+  id: string
+  unit: string // Base unit
+  bin_location: string | null
+  product_categories: { name: string } | null
+}
+
+/**
+ * Who is asking for a PDF: admins see every document, clients their company's
+ */
+export interface PDFViewer {
+  role: 'admin' | 'client'
+  company_id: string | null
+}
+
+const PDF_DOCUMENT_COLUMNS = `
+  id, folio, type, company_id, quotation_status, order_status, issue_date, expiry_date, contact_name,
+  terms, delivery_terms, payment_terms, discount_amount, subtotal, tax_amount, total,
+  currency, exchange_rate, updated_at,
+  companies!documents_company_id_fkey(name, rfc, address, city, state, postal_code, phone, email, logo_url),
+  quotation:documents!documents_quotation_id_fkey(folio),
+  deliveries(id, scheduled_date, delivery_address, delivery_instructions, carrier, tracking_number, delivery_notes, created_at, updated_at),
+  document_items(id, product_id, product_code, product_name, unit, unit_factor, quantity, unit_price, tax_rate,
+    tier_min_quantity, tier_max_quantity, bundle_components, expand_on_pdf,
+    is_optional, alternative_group, is_selected,
+    discount_amount, taxes, tax_amount, withholding_amount, subtotal, total)
+`
+
+// Rendered files kept per server instance, oldest dropped first
+const PDF_CACHE_SIZE = 50
+const pdfCache = new Map<string, Uint8Array>()
+
+/**
+ * Check whether a viewer may download a document
+ */
+export function canAccessDocument(viewer: PDFViewer, document: Pick<DocumentRow, 'company_id'>): boolean {
+  if (viewer.role === 'admin') {
+    return true
+  }
+  return !!viewer.company_id && viewer.company_id === document.company_id
+}
+
+/**
+ * PDFs a viewer can get for a document, the default first
+ * Packing lists are for the warehouse, so only admins get them.
+ */
+export function getPDFKinds(viewer: PDFViewer, document: Pick<DocumentRow, 'type'>): PDFDocumentKind[] {
+  if (document.type === 'quotation') {
+    return ['quotation']
+  }
+  return viewer.role === 'admin' ? ['order', 'packing_list', 'delivery_note'] : ['order', 'delivery_note']
+}
+
+// Short digest of a document's lines, in id order
+function digestItems(items: PDFItemRow[]): string {
+  const rows = [...items].sort((a, b) => a.id.localeCompare(b.id))
+  return createHash('sha256').update(JSON.stringify(rows)).digest('hex').slice(0, 16)
+}
+
+/**
+ * Name of one revision of a document's PDF, used as the cache key and ETag
+ * Packing lists and delivery notes also change with the delivery they show,
+ * and every PDF with the issuer profile (issuerUpdatedAt) it is branded with.
+ */
+export function getPDFRevisionKey(
+  document: Pick<PDFDocumentRow, 'id' | 'updated_at' | 'document_items'>,
+  kind: PDFDocumentKind = 'quotation',
+  delivery?: Pick<PDFDeliveryRow, 'id' | 'updated_at'> | null,
+  issuerUpdatedAt?: string | null
+): string {
+  let revision = `${document.id}-${kind}-${new Date(document.updated_at).getTime()}-${digestItems(document.document_items)}`
+  if (delivery) {
+    revision += `-${delivery.id}-${new Date(delivery.updated_at).getTime()}`
+  }
+  return issuerUpdatedAt ? `${revision}-${new Date(issuerUpdatedAt).getTime()}` : revision
+}
+
+export function getCachedPDF(revisionKey: string): Uint8Array | null {
+  return pdfCache.get(revisionKey) ?? null
+}
+
+export function cachePDF(revisionKey: string, file: Uint8Array): void {
+  pdfCache.delete(revisionKey)
+  pdfCache.set(revisionKey, file)
+
+  while (pdfCache.size > PDF_CACHE_SIZE) {
+    const oldest = pdfCache.keys().next().value
+    if (oldest === undefined) break
+    pdfCache.delete(oldest)
+  }
+}
+
+/**
+ * The delivery a document's PDF shows: the one asked for, else the latest
+ */
+export function selectDelivery(document: Pick<PDFDocumentRow, 'deliveries'>, deliveryId?: string | null): PDFDeliveryRow | null {
+  const deliveries = document.deliveries ?? []
+  if (deliveryId) {
+    return deliveries.find(delivery => delivery.id === deliveryId) ?? null
+  }
+  return [...deliveries].sort((a, b) => b.created_at.localeCompare(a.created_at))[0] ?? null
+}
+
+function toPDFCompany(document: PDFDocumentRow): PDFCompany {
+  const company = document.companies
+
+  return {
+    id: document.company_id,
+    name: company?.name ?? '',
+    rfc: company?.rfc ?? '',
+    address: company?.address ?? '',
+    city: company?.city ?? '',
+    state: company?.state ?? '',
+    zip: company?.postal_code ?? '',
+    phone: company?.phone ?? '',
+    email: company?.email ?? '',
+    contactName: document.contact_name,
+    logo: company?.logo_url ?? undefined
+  }
+}
+
+// Priced fields shared by quotations and order confirmations. Amounts are the
+// saved ones; the tax breakdown covers the lines counted in the totals.
+function toPricedPDFData(document: PDFDocumentRow, rounding?: RoundingConfig): Omit<QuotationPDFData, 'status' | 'validUntil'> {
+  const items = document.document_items
+  const counted = items.filter(item => item.is_selected ?? true)
+  const terms = [
+    document.terms,
+    document.delivery_terms && `Entrega: ${document.delivery_terms}`,
+    document.payment_terms && `Pago: ${document.payment_terms}`
+  ].filter(Boolean)
+
+  return {
+    id: document.id,
+    folio: document.folio,
+    createdAt: document.issue_date,
+    subtotal: sumMoney([Number(document.subtotal), Number(document.discount_amount)]),
+    tax: Number(document.tax_amount),
+    taxBreakdown: summarizeTaxes(counted.map(toLineCalculation), rounding),
+    discount: Number(document.discount_amount),
+    total: Number(document.total),
+    currency: isSupportedCurrency(document.currency) ? document.currency : 'MXN',
+    exchangeRate: Number(document.exchange_rate) || 1,
+    notes: terms.length > 0 ? terms.join('\n') : undefined,
+    company: toPDFCompany(document),
+    items: items.map(item => ({
+      id: item.id,
+      productName: item.product_name,
+      productCode: item.product_code,
+      quantity: Number(item.quantity),
+      unit: item.unit,
+      unitPrice: Number(item.unit_price),
+      discount: Number(item.discount_amount),
+      priceTier: item.tier_min_quantity === null
+        ? null
+        : { min_quantity: item.tier_min_quantity, max_quantity: item.tier_max_quantity },
+      components: item.expand_on_pdf && item.bundle_components
+        ? lineComponents(item).map(component => ({
+            productCode: component.product_code,
+            productName: component.product_name,
+            quantity: component.quantity,
+            unit: component.unit
+          }))
+        : null,
+      isOptional: item.is_optional,
+      alternativeGroup: item.alternative_group,
+      isSelected: item.is_selected,
+      subtotal: Number(item.subtotal),
+      tax: Number(item.tax_amount),
+      total: Number(item.total)
+    }))
+  }
+}
+
+// Kit contents for a whole line; kit contents are per kit, so a line in a
+// larger unit holds unit_factor kits each
+function lineComponents(item: PDFItemRow) {
+  return expandBundleComponents(item.bundle_components ?? [], Number(item.quantity) * (item.unit_factor ?? 1))
+}
+
+// A saved line as the calculation it was saved from
+function toLineCalculation(item: PDFItemRow): LineItemCalculation {
+  return {
+    quantity: Number(item.quantity),
+    unit_price: Number(item.unit_price),
+    tax_rate: Number(item.tax_rate),
+    gross_amount: sumMoney([Number(item.subtotal), Number(item.discount_amount)]),
+    discount_amount: Number(item.discount_amount),
+    tax_amount: Number(item.tax_amount),
+    withholding_amount: Number(item.withholding_amount),
+    taxes: item.taxes,
+    subtotal: Number(item.subtotal),
+    total: Number(item.total)
+  }
+}
+
+/**
+ * Map a saved quotation to the PDF data
+ * Option lines the client has not taken are listed apart, out of the tax breakdown.
+ */
+export function toQuotationPDFData(document: PDFDocumentRow, rounding?: RoundingConfig): QuotationPDFData {
+  return {
+    ...toPricedPDFData(document, rounding),
+    status: document.quotation_status || 'draft',
+    validUntil: document.expiry_date
+  }
+}
+
+/**
+ * Map a saved order to its order confirmation
+ */
+export function toOrderPDFData(document: PDFDocumentRow, rounding?: RoundingConfig): OrderPDFData {
+  return {
+    ...toPricedPDFData(document, rounding),
+    status: document.order_status || 'pending',
+    quotationFolio: document.quotation?.folio
+  }
+}
+
+/**
+ * Map a saved order to its packing list
+ * Kits are picked as their components, each from its own bin; lines sold in
+ * a larger unit also show the quantity in the base unit.
+ */
+export function toPackingListPDFData(
+  document: PDFDocumentRow,
+  products: Record<string, PackingProduct>,
+  delivery: PDFDeliveryRow | null = null
+): PackingListPDFData {
+  const location = (productId: string | null) => {
+    const product = productId ? products[productId] : undefined
+    return {
+      bin: product?.bin_location ?? null,
+      category: product?.product_categories?.name ?? null
+    }
+  }
+
+  const items = document.document_items.flatMap((item): PackingListItem[] => {
+    const quantity = Number(item.quantity)
+
+    if (item.bundle_components) {
+      return lineComponents(item).map((component, index) => ({
+        id: `${item.id}-${index}`,
+        productCode: component.product_code,
+        productName: component.product_name,
+        quantity: component.quantity,
+        unit: component.unit,
+        note: `Para ${quantity} ${item.unit} de ${item.product_code} ${item.product_name}`,
+        ...location(component.product_id)
+      }))
+    }
+
+    const baseUnit = item.product_id ? products[item.product_id]?.unit : undefined
+    const factor = item.unit_factor ?? 1
+
+    return [{
+      id: item.id,
+      productCode: item.product_code,
+      productName: item.product_name,
+      quantity,
+      unit: item.unit,
+      baseQuantity: factor > 1 && baseUnit ? `${quantity * factor} ${baseUnit}` : undefined,
+      ...location(item.product_id)
+    }]
+  })
+
+  return {
+    id: document.id,
+    folio: document.folio,
+    status: document.order_status || 'pending',
+    createdAt: document.issue_date,
+    company: toPDFCompany(document),
+    deliveryAddress: delivery?.delivery_address,
+    deliveryInstructions: delivery?.delivery_instructions ?? undefined,
+    scheduledDate: delivery?.scheduled_date ?? undefined,
+    notes: document.delivery_terms ?? undefined,
+    items
+  }
+}
+
+/**
+ * Map a saved order and one of its deliveries to the delivery note
+ * Without a delivery the goods go to the company's address.
+ */
+export function toDeliveryNotePDFData(document: PDFDocumentRow, delivery: PDFDeliveryRow | null = null): DeliveryNotePDFData {
+  const company = toPDFCompany(document)
+  const companyAddress = [company.address, company.city, company.state, company.zip && `C.P. ${company.zip}`]
+    .filter(Boolean)
+    .join(', ')
+
+  const items = document.document_items.map((item): PDFQuantityItem => ({
+    id: item.id,
+    productCode: item.product_code,
+    productName: item.product_name,
+    quantity: Number(item.quantity),
+    unit: item.unit,
+    note: item.bundle_components
+      ? `Incluye: ${lineComponents(item).map(component => formatBundleComponent({
+          productCode: component.product_code,
+          productName: component.product_name,
+          quantity: component.quantity,
+          unit: component.unit
+        })).join('; ')}`
+      : undefined
+  }))
+
+  return {
+    id: delivery?.id ?? document.id,
+    folio: document.folio,
+    createdAt: delivery?.scheduled_date ?? new Date().toISOString(),
+    company,
+    deliveryAddress: delivery?.delivery_address || companyAddress,
+    deliveryInstructions: delivery?.delivery_instructions ?? undefined,
+    carrier: delivery?.carrier ?? undefined,
+    trackingNumber: delivery?.tracking_number ?? undefined,
+    notes: delivery?.delivery_notes ?? undefined,
+    items
+  }
+}
+
+/**
+ * Get the signed-in user's role and company
+ */
+export async function getPDFViewer(supabase: TypedSupabaseClient): Promise<PDFViewer | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return null
+  }
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile) {
+    return null
+  }
+
+  if (profile.role === 'admin') {
+    return { role: 'admin', company_id: null }
+  }
+
+  const { data: clientProfile } = await supabase
+    .from('client_profiles')
+    .select('company_id')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  return {
+    role: 'client',
+    company_id: (clientProfile as { company_id: string | null } | null)?.company_id ?? null
+  }
+}
+
+/**
+ * Get a document with everything its PDFs show
+ */
+export async function getPDFDocument(supabase: TypedSupabaseClient, documentId: string): Promise<PDFDocumentRow | null> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select(PDF_DOCUMENT_COLUMNS)
+    .eq('id', documentId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching document for PDF:', error)
+    return null
+  }
+
+  return data as PDFDocumentRow | null
+}
+
+/**
+ * PDF data for a quotation, with the tax breakdown rounded as the totals were
+ */
+export async function getQuotationPDFData(supabase: TypedSupabaseClient, document: PDFDocumentRow): Promise<QuotationPDFData> {
+  return toQuotationPDFData(document, await getRoundingSettings(supabase))
+}
+
+/**
+ * Order confirmation data, with the tax breakdown rounded as the totals were
+ */
+export async function getOrderPDFData(supabase: TypedSupabaseClient, document: PDFDocumentRow): Promise<OrderPDFData> {
+  return toOrderPDFData(document, await getRoundingSettings(supabase))
+}
+
+/**
+ * Packing list data, with the bins of every product picked, kit components included
+ */
+export async function getPackingListPDFData(
+  supabase: TypedSupabaseClient,
+  document: PDFDocumentRow,
+  delivery: PDFDeliveryRow | null
+): Promise<PackingListPDFData> {
+  const productIds = Array.from(new Set(document.document_items.flatMap(item =>
+    item.bundle_components
+      ? item.bundle_components.map(component => component.product_id)
+      : item.product_id ? [item.product_id] : []
+  )))
+
+  const { data, error } = productIds.length > 0
+    ? await supabase
+        .from('products')
+        .select('id, unit, bin_location, product_categories(name)')
+        .in('id', productIds)
+    : { data: [], error: null }
+
+  if (error) {
+    console.error('Error fetching product bins:', error)
+  }
+
+  const products = Object.fromEntries(((data ?? []) as unknown as PackingProduct[]).map(product => [product.id, product]))
+  return toPackingListPDFData(document, products, delivery)
+}
@@ -0,0 +1,192 @@
+/**
+ * Exchange Rate Utilities
+ * Locally maintained exchange rates with effective dates
+ *
+ * Rates are MXN per unit of the foreign currency. A rate applies from its
+ * effective date until a later one is entered; quotations freeze the rate in
+ * effect when they are created (documents.exchange_rate).
+ */
+
+import { createClient } from '@/lib/supabase'
+import { SUPPORTED_CURRENCIES, type CurrencyCode } from '@/lib/currency'
+
+export interface ExchangeRate {
+  id: string
+  currency: CurrencyCode
+  rate: number
+  effective_date: string // YYYY-MM-DD
+  created_at: string
+}
+
+export interface ExchangeRateInput {
+  currency: CurrencyCode
+  rate: number
+  effective_date: string
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Today's date as YYYY-MM-DD in local time
+ */
+export function getLocalDate(date: Date = new Date()): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Validate an exchange rate before saving it
+ */
+export function validateExchangeRate(input: ExchangeRateInput): string[] {
+  const errors: string[] = []
+
+  if (input.currency === 'MXN' || !SUPPORTED_CURRENCIES.includes(input.currency)) {
+    errors.push(`Currency must be one of ${SUPPORTED_CURRENCIES.filter(code => code !== 'MXN').join(', ')}`)
+  }
+
+  if (typeof input.rate !== 'number' || !(input.rate > 0)) {
+    errors.push('Exchange rate must be positive')
+  }
+
+  if (!DATE_PATTERN.test(input.effective_date) || isNaN(Date.parse(input.effective_date))) {
+    errors.push('Effective date must be a valid YYYY-MM-DD date')
+  }
+
+  return errors
+}
+
+/**
+ * Rate in effect for a currency on a date: the latest one not after it
+ */
+export function findEffectiveRate(
+  rates: ExchangeRate[],
+  currency: CurrencyCode,
+  date: string
+): ExchangeRate | null {
+  return rates
+    .filter(rate => rate.currency === currency && rate.effective_date <= date)
+    .reduce<ExchangeRate | null>(
+      (latest, rate) => (!latest || rate.effective_date > latest.effective_date ? rate : latest),
+      null
+    )
+}
+
+/**
+ * Get exchange rates, newest first, optionally for one currency
+ */
+export async function getExchangeRates(currency?: CurrencyCode): Promise<ExchangeRate[]> {
+  const supabase = createClient()
+
+  try {
+    let query = supabase
+      .from('exchange_rates')
+      .select('id, currency, rate, effective_date, created_at')
+      .order('effective_date', { ascending: false })
+
+    if (currency) {
+      query = query.eq('currency', currency)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching exchange rates:', error)
+      return []
+    }
+
+    return (data || []) as ExchangeRate[]
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error)
+    return []
+  }
+}
+
+/**
+ * Get the rate in effect for a currency on a date (today by default)
+ * MXN is always 1; returns null when no rate has been entered yet.
+ */
+export async function getEffectiveExchangeRate(
+  currency: CurrencyCode,
+  date: string = getLocalDate()
+): Promise<number | null> {
+  if (currency === 'MXN') {
+    return 1
+  }
+
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('rate')
+      .eq('currency', currency)
+      .lte('effective_date', date)
+      .order('effective_date', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error || !data) {
+      if (error) console.error('Error fetching exchange rate:', error)
+      return null
+    }
+
+    return Number((data as { rate: number | string }).rate)
+  } catch (error) {
+    console.error('Error fetching exchange rate:', error)
+    return null
+  }
+}
+
+/**
+ * Save the rate for a currency and effective date, replacing any rate
+ * already entered for that day
+ */
+export async function saveExchangeRate(input: ExchangeRateInput): Promise<{
+  success: boolean
+  message: string
+}> {
+  const errors = validateExchangeRate(input)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        {
+          currency: input.currency,
+          rate: input.rate,
+          effective_date: input.effective_date,
+          created_by: user?.id
+        },
+        { onConflict: 'currency,effective_date' }
+      )
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to save exchange rate'
+      }
+    }
+
+    return {
+      success: true,
+      message: `${input.currency} rate for ${input.effective_date} saved`
+    }
+  } catch (error) {
+    console.error('Error saving exchange rate:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
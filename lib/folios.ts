@@ -0,0 +1,191 @@
+/**
+ * Folio Utilities
+ * Formatting, parsing and configuration for sequential document folios
+ *
+ * Folios are allocated exclusively by the database (allocate_folio) from a
+ * per-type, per-year counter that lives in the same transaction as the
+ * document insert, so numbering stays consecutive with no gaps. This module
+ * never generates folios itself.
+ */
+
+import { createClient } from '@/lib/supabase'
+
+export type FolioDocumentType = 'quotation' | 'order'
+
+export interface FolioSettings {
+  document_type: FolioDocumentType
+  prefix: string
+  padding: number
+}
+
+export interface ParsedFolio {
+  prefix: string
+  year: number
+  sequence: number
+  revision: number
+}
+
+export const DEFAULT_FOLIO_SETTINGS: Record<FolioDocumentType, FolioSettings> = {
+  quotation: { document_type: 'quotation', prefix: 'COT', padding: 6 },
+  order: { document_type: 'order', prefix: 'ORD', padding: 6 }
+}
+
+export const MIN_FOLIO_PADDING = 1
+export const MAX_FOLIO_PADDING = 12
+
+const FOLIO_PREFIX_PATTERN = /^[A-Z]{2,10}$/
+const FOLIO_PATTERN = /^([A-Z]{2,10})-(\d{4})-(\d+)(?:-R(\d+))?$/
+
+/**
+ * Format a folio the same way allocate_folio does, e.g. COT-2026-000123
+ */
+export function formatFolio(settings: FolioSettings, year: number, sequence: number): string {
+  if (!Number.isInteger(sequence) || sequence < 1) {
+    throw new Error('Folio sequence must be a positive integer')
+  }
+
+  return `${settings.prefix}-${year}-${sequence.toString().padStart(settings.padding, '0')}`
+}
+
+/**
+ * Format the folio of a quotation revision, e.g. COT-2026-000123-R2
+ * Revisions share their root's number; revision 1 is the root folio itself.
+ */
+export function formatRevisionFolio(rootFolio: string, revision: number): string {
+  if (!Number.isInteger(revision) || revision < 1) {
+    throw new Error('Revision must be a positive integer')
+  }
+
+  return revision === 1 ? rootFolio : `${rootFolio}-R${revision}`
+}
+
+/**
+ * Split a folio into its prefix, year, sequence number and revision
+ */
+export function parseFolio(folio: string): ParsedFolio | null {
+  const match = FOLIO_PATTERN.exec(folio)
+  if (!match) {
+    return null
+  }
+
+  return {
+    prefix: match[1],
+    year: parseInt(match[2], 10),
+    sequence: parseInt(match[3], 10),
+    revision: match[4] ? parseInt(match[4], 10) : 1
+  }
+}
+
+/**
+ * Check that a folio matches the configured format for its document type
+ */
+export function isValidFolio(folio: string, settings: FolioSettings): boolean {
+  const match = FOLIO_PATTERN.exec(folio)
+  if (!match) {
+    return false
+  }
+
+  return match[1] === settings.prefix && match[3].length >= settings.padding
+}
+
+/**
+ * Human-readable folio format for error messages, e.g. COT-YYYY-NNNNNN
+ */
+export function describeFolioFormat(settings: FolioSettings): string {
+  return `${settings.prefix}-YYYY-${'N'.repeat(settings.padding)}`
+}
+
+/**
+ * Validate folio settings before saving them
+ */
+export function validateFolioSettings(settings: Pick<FolioSettings, 'prefix' | 'padding'>): string[] {
+  const errors: string[] = []
+
+  if (!FOLIO_PREFIX_PATTERN.test(settings.prefix)) {
+    errors.push('Folio prefix must be 2 to 10 uppercase letters')
+  }
+
+  if (
+    !Number.isInteger(settings.padding) ||
+    settings.padding < MIN_FOLIO_PADDING ||
+    settings.padding > MAX_FOLIO_PADDING
+  ) {
+    errors.push(`Folio padding must be between ${MIN_FOLIO_PADDING} and ${MAX_FOLIO_PADDING}`)
+  }
+
+  return errors
+}
+
+/**
+ * Get folio settings for every document type, falling back to defaults
+ */
+export async function getFolioSettings(): Promise<Record<FolioDocumentType, FolioSettings>> {
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('folio_settings')
+      .select('document_type, prefix, padding')
+
+    if (error || !data) {
+      console.error('Error fetching folio settings:', error)
+      return { ...DEFAULT_FOLIO_SETTINGS }
+    }
+
+    const settings = { ...DEFAULT_FOLIO_SETTINGS }
+    for (const row of data as FolioSettings[]) {
+      settings[row.document_type] = row
+    }
+    return settings
+  } catch (error) {
+    console.error('Error fetching folio settings:', error)
+    return { ...DEFAULT_FOLIO_SETTINGS }
+  }
+}
+
+/**
+ * Update prefix/padding for a document type
+ * Only affects folios allocated after the change; the counter is untouched.
+ */
+export async function updateFolioSettings(
+  documentType: FolioDocumentType,
+  settings: Pick<FolioSettings, 'prefix' | 'padding'>
+): Promise<{
+  success: boolean
+  message: string
+}> {
+  const errors = validateFolioSettings(settings)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const { error } = await supabase
+      .from('folio_settings')
+      .update({ prefix: settings.prefix, padding: settings.padding })
+      .eq('document_type', documentType)
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to update folio settings'
+      }
+    }
+
+    return {
+      success: true,
+      message: `Folio settings for ${documentType} updated`
+    }
+  } catch (error) {
+    console.error('Error updating folio settings:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
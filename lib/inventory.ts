@@ -0,0 +1,292 @@
+/**
+ * Inventory Ledger
+ * Stock movements, stock levels and the reservations orders hold
+ *
+ * Every change to stock is a movement in inventory_movements, in the
+ * product's base unit: receipts and returns add stock, sales take it out,
+ * adjustments correct it either way and transfers move it between
+ * locations. products.stock_quantity is the sum of a product's movements,
+ * kept by the database, and so is products.average_cost, the weighted-average
+ * cost of the stock, which every receipt moves at its unit cost. Sales and
+ * reservations are not recorded here: the database reserves an order's goods
+ * when it is confirmed, posts sales when it ships and releases the
+ * reservation when it is cancelled (see updateOrderStatus). Movements are
+ * never edited; a wrong one is corrected with an adjustment.
+ */
+
+import { createClient, type TypedSupabaseClient } from '@/lib/supabase'
+
+export type MovementType = 'receipt' | 'sale' | 'adjustment' | 'return' | 'transfer'
+
+/**
+ * Movements recorded by hand; sales come from shipped orders
+ */
+export type ManualMovementType = Exclude<MovementType, 'sale'>
+
+export const MOVEMENT_TYPE_LABELS: Record<MovementType, string> = {
+  receipt: 'Receipt',
+  sale: 'Sale',
+  adjustment: 'Adjustment',
+  return: 'Return',
+  transfer: 'Transfer'
+}
+
+export const MANUAL_MOVEMENT_TYPES: ManualMovementType[] = ['receipt', 'return', 'adjustment', 'transfer']
+
+export type ReservationStatus = 'active' | 'consumed' | 'released'
+
+export interface InventoryMovement {
+  id: string
+  product_id: string
+  type: MovementType
+  quantity: number
+  location: string | null
+  document_id: string | null
+  reference: string | null
+  notes: string | null
+  unit_cost: number | null
+  created_by: string | null
+  created_at: string
+  products?: {
+    code: string
+    name: string
+    unit: string
+  } | null
+}
+
+/**
+ * A product's stock: what is in the warehouse, what confirmed orders hold
+ * and what is left to sell
+ */
+export interface StockLevel {
+  product_id: string
+  on_hand: number
+  reserved: number
+  available: number
+}
+
+/**
+ * A movement as entered. Quantities are in the product's base unit; only
+ * adjustments are signed, every other movement takes a positive quantity.
+ */
+export interface MovementInput {
+  productId: string
+  type: ManualMovementType
+  quantity: number
+  /** Where the stock is received, returned or adjusted */
+  location?: string | null
+  /** Transfers only */
+  fromLocation?: string | null
+  toLocation?: string | null
+  documentId?: string | null
+  reference?: string | null
+  notes?: string | null
+  unitCost?: number | null
+}
+
+export interface MovementRow {
+  product_id: string
+  type: ManualMovementType
+  quantity: number
+  location: string | null
+  document_id: string | null
+  reference: string | null
+  notes: string | null
+  unit_cost: number | null
+  created_by: string
+}
+
+/**
+ * Stock left to sell once reservations are taken out
+ */
+export function getAvailableStock(onHand: number, reserved: number): number {
+  return onHand - reserved
+}
+
+/**
+ * Whether a product's available stock is at or below its minimum
+ */
+export function isLowStock(stock: Pick<StockLevel, 'available'>, minStockLevel: number): boolean {
+  return stock.available <= minStockLevel
+}
+
+/**
+ * Check a movement before recording it
+ */
+export function validateMovement(input: MovementInput): string[] {
+  const errors: string[] = []
+
+  if (!input.productId) {
+    errors.push('Product is required')
+  }
+
+  if (!MANUAL_MOVEMENT_TYPES.includes(input.type)) {
+    errors.push('Sales are recorded when orders ship')
+    return errors
+  }
+
+  if (!Number.isInteger(input.quantity) || input.quantity === 0) {
+    errors.push('Quantity must be a whole number other than zero')
+  } else if (input.type !== 'adjustment' && input.quantity < 0) {
+    errors.push(`${MOVEMENT_TYPE_LABELS[input.type]} quantity must be positive`)
+  }
+
+  if (input.type === 'adjustment' && !input.notes?.trim()) {
+    errors.push('Adjustments need a reason')
+  }
+
+  if (input.type === 'transfer') {
+    const from = input.fromLocation?.trim()
+    const to = input.toLocation?.trim()
+
+    if (!from || !to) {
+      errors.push('Transfers need a from and a to location')
+    } else if (from === to) {
+      errors.push('Transfers must move stock to another location')
+    }
+  }
+
+  if (input.unitCost !== undefined && input.unitCost !== null && input.unitCost < 0) {
+    errors.push('Unit cost cannot be negative')
+  } else if (input.type === 'receipt' && (input.unitCost === undefined || input.unitCost === null)) {
+    errors.push('Receipts need a unit cost')
+  }
+
+  return errors
+}
+
+/**
+ * The ledger rows a movement is recorded as: one row, or for a transfer one
+ * out of its from location and one into its to location
+ */
+export function toMovementRows(input: MovementInput, userId: string): MovementRow[] {
+  const row: MovementRow = {
+    product_id: input.productId,
+    type: input.type,
+    quantity: input.quantity,
+    location: input.location?.trim() || null,
+    document_id: input.documentId || null,
+    reference: input.reference?.trim() || null,
+    notes: input.notes?.trim() || null,
+    unit_cost: input.unitCost ?? null,
+    created_by: userId
+  }
+
+  if (input.type !== 'transfer') {
+    return [row]
+  }
+
+  return [
+    { ...row, quantity: -input.quantity, location: input.fromLocation?.trim() || null },
+    { ...row, quantity: input.quantity, location: input.toLocation?.trim() || null }
+  ]
+}
+
+/**
+ * Record a receipt, return, adjustment or transfer
+ */
+export async function recordMovement(input: MovementInput, userId: string): Promise<{
+  success: boolean
+  message: string
+}> {
+  const errors = validateMovement(input)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    // A transfer's two rows go in one insert so they are recorded together
+    const { error } = await supabase
+      .from('inventory_movements')
+      .insert(toMovementRows(input, userId))
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to record inventory movement'
+      }
+    }
+
+    return {
+      success: true,
+      message: `${MOVEMENT_TYPE_LABELS[input.type]} recorded`
+    }
+  } catch (error) {
+    console.error('Error recording inventory movement:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Stock levels by product id; products without a level are left out
+ */
+export async function getStockLevels(
+  productIds: string[],
+  supabase: TypedSupabaseClient = createClient()
+): Promise<Record<string, StockLevel>> {
+  if (productIds.length === 0) {
+    return {}
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('product_stock')
+      .select('product_id, on_hand, reserved, available')
+      .in('product_id', productIds)
+
+    if (error) {
+      console.error('Error fetching stock levels:', error)
+      return {}
+    }
+
+    return Object.fromEntries(
+      ((data ?? []) as StockLevel[]).map(level => [level.product_id, level])
+    )
+  } catch (error) {
+    console.error('Error fetching stock levels:', error)
+    return {}
+  }
+}
+
+/**
+ * Latest movements, of one product or of all of them
+ */
+export async function getInventoryMovements(
+  params: { productId?: string; type?: MovementType; limit?: number } = {},
+  supabase: TypedSupabaseClient = createClient()
+): Promise<InventoryMovement[]> {
+  try {
+    let query = supabase
+      .from('inventory_movements')
+      .select('*, products(code, name, unit)')
+      .order('created_at', { ascending: false })
+      .limit(params.limit ?? 100)
+
+    if (params.productId) {
+      query = query.eq('product_id', params.productId)
+    }
+    if (params.type) {
+      query = query.eq('type', params.type)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching inventory movements:', error)
+      return []
+    }
+
+    return (data ?? []) as InventoryMovement[]
+  } catch (error) {
+    console.error('Error fetching inventory movements:', error)
+    return []
+  }
+}
@@ -0,0 +1,610 @@
+/**
+ * Invoices
+ * CFDI 4.0 invoices for delivered orders: drafting, stamping through the
+ * PAC, cancelling, and what the printed invoice shows
+ *
+ * A draft keeps the comprobante built from the order, already validated, and
+ * gets its serie and folio from the database on insert. Stamping issues it
+ * with that folio and the current date, writes the XML, checks it against
+ * the SAT schema and hands it to the PAC; the sealed XML it returns is what
+ * is stored and downloaded. Stamping and cancelling take the server's
+ * Supabase client and PAC, and stamping the schema check, see
+ * app/api/invoices. An order can only have one invoice that is not cancelled.
+ */
+
+import { createClient, type TypedSupabaseClient } from '@/lib/supabase'
+import type { TaxBreakdownEntry, TaxCode } from '@/lib/calculations'
+import { isSupportedCurrency } from '@/lib/currency'
+import { sumMoney } from '@/lib/money'
+import { getIssuerProfile, validateIssuerProfile } from '@/lib/issuer-profile'
+import type { InvoicePDFData } from '@/lib/pdf'
+import type { PACProvider } from '@/lib/pac'
+import { resolveSATKeys, type SATKeyedProduct } from '@/lib/sat-keys'
+import {
+  buildCFDI,
+  getStampChain,
+  getVerificationUrl,
+  issueCFDI,
+  readCFDIStamp,
+  toCFDIXml,
+  validateCFDI,
+  type CFDI,
+  type CFDIOptions,
+  type CFDIOrderLine,
+  type CFDITax
+} from '@/lib/cfdi'
+import {
+  CANCELLATION_REASONS,
+  CFDI_USES,
+  FISCAL_REGIMES,
+  PAYMENT_FORMS,
+  PAYMENT_METHODS,
+  SAT_TAX_KEYS
+} from '@/lib/sat-catalogs'
+
+export type InvoiceStatus = 'draft' | 'stamped' | 'cancelled'
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  stamped: 'Stamped',
+  cancelled: 'Cancelled'
+}
+
+export const DEFAULT_INVOICE_SERIE = 'A'
+
+export interface InvoiceCompany {
+  name: string
+  rfc: string | null
+  address: string | null
+  city: string | null
+  state: string | null
+  postal_code: string | null
+  phone: string | null
+  email: string | null
+}
+
+export interface Invoice {
+  id: string
+  order_id: string
+  company_id: string
+  serie: string
+  folio: number
+  status: InvoiceStatus
+  payment_form: string
+  payment_method: string
+  cfdi_use: string
+  currency: string
+  exchange_rate: number
+  subtotal: number
+  discount_amount: number
+  tax_amount: number
+  withholding_amount: number
+  total: number
+  cfdi: CFDI
+  xml: string | null
+  uuid: string | null
+  stamped_at: string | null
+  cancelled_at: string | null
+  cancellation_reason: string | null
+  created_at: string
+  updated_at: string
+  companies: InvoiceCompany | null
+  order: { folio: string } | null
+}
+
+/**
+ * How an invoice is to be paid, chosen when it is drafted
+ */
+export type InvoiceOptions = Pick<CFDIOptions, 'paymentForm' | 'paymentMethod' | 'cfdiUse'>
+
+/**
+ * An order with what its invoice is built from
+ */
+interface InvoiceableOrder {
+  id: string
+  type: string
+  order_status: string | null
+  company_id: string
+  currency: string
+  exchange_rate: number
+  payment_terms: string | null
+  companies: {
+    name: string
+    rfc: string | null
+    postal_code: string | null
+    fiscal_regime: string | null
+    cfdi_use: string
+  } | null
+  document_items: Array<CFDIOrderLine & { products: SATKeyedProduct | null }>
+}
+
+const INVOICE_COLUMNS = `
+  id, order_id, company_id, serie, folio, status, payment_form, payment_method, cfdi_use, currency, exchange_rate,
+  subtotal, discount_amount, tax_amount, withholding_amount, total, cfdi, xml, uuid, stamped_at,
+  cancelled_at, cancellation_reason, created_at, updated_at,
+  companies(name, rfc, address, city, state, postal_code, phone, email),
+  order:documents!invoices_order_id_fkey(folio)
+`
+
+const TAX_CODES = Object.fromEntries(
+  Object.entries(SAT_TAX_KEYS).map(([code, key]) => [key, code])
+) as Record<string, TaxCode>
+
+/**
+ * Serie and folio as printed, e.g. A-123
+ */
+export function formatInvoiceFolio(invoice: Pick<Invoice, 'serie' | 'folio'>): string {
+  return `${invoice.serie}-${invoice.folio}`
+}
+
+/**
+ * Only delivered orders are invoiced
+ */
+export function canInvoiceOrder(order: { type: string; order_status: string | null }): boolean {
+  return order.type === 'order' && order.order_status === 'delivered'
+}
+
+// A catalog key with its description, e.g. "G03 - Gastos en general"
+function describe(catalog: Record<string, string>, key: string): string {
+  return catalog[key] ? `${key} - ${catalog[key]}` : key
+}
+
+// Concept taxes totalled per tax, kind and rate, for the printed totals
+function toTaxBreakdown(cfdi: CFDI): TaxBreakdownEntry[] {
+  const groups = new Map<string, TaxBreakdownEntry>()
+  const add = (tax: CFDITax, kind: TaxBreakdownEntry['kind']) => {
+    const key = `${kind}:${tax.tax}:${tax.factor}:${tax.rate}`
+    const group = groups.get(key)
+    if (group) {
+      group.base = sumMoney([group.base, tax.base])
+      group.amount = sumMoney([group.amount, tax.amount])
+      return
+    }
+
+    const code = TAX_CODES[tax.tax] ?? 'IVA'
+    groups.set(key, {
+      code,
+      name: code,
+      kind,
+      type: tax.factor === 'Tasa' ? 'percentage' : 'fixed_amount',
+      ...(tax.factor === 'Tasa' ? { rate: tax.rate } : {}),
+      base: tax.base,
+      amount: tax.amount
+    })
+  }
+
+  for (const concept of cfdi.concepts) {
+    concept.transferred.forEach(tax => add(tax, 'transferred'))
+    concept.withheld.forEach(tax => add(tax, 'withheld'))
+  }
+
+  return Array.from(groups.values())
+}
+
+/**
+ * Map an invoice to its printed representation
+ */
+export function toInvoicePDFData(invoice: Invoice): InvoicePDFData {
+  const { cfdi } = invoice
+  const company = invoice.companies
+  const stamp = invoice.xml ? readCFDIStamp(invoice.xml) : null
+
+  return {
+    id: invoice.id,
+    folio: formatInvoiceFolio(invoice),
+    status: invoice.status,
+    createdAt: cfdi.date ?? invoice.created_at,
+    company: {
+      id: invoice.company_id,
+      name: cfdi.receiver.name,
+      rfc: cfdi.receiver.rfc,
+      address: company?.address ?? '',
+      city: company?.city ?? '',
+      state: company?.state ?? '',
+      zip: cfdi.receiver.postalCode,
+      phone: company?.phone ?? '',
+      email: company?.email ?? ''
+    },
+    fiscalDetails: [
+      { label: 'Régimen fiscal del receptor', value: describe(FISCAL_REGIMES, cfdi.receiver.fiscalRegime) },
+      { label: 'Uso CFDI', value: describe(CFDI_USES, cfdi.receiver.cfdiUse) },
+      { label: 'Forma de pago', value: describe(PAYMENT_FORMS, cfdi.paymentForm) },
+      { label: 'Método de pago', value: describe(PAYMENT_METHODS, cfdi.paymentMethod) },
+      { label: 'Tipo de comprobante', value: 'I - Ingreso' },
+      { label: 'Lugar de expedición', value: cfdi.placeOfIssue },
+      { label: 'Exportación', value: '01 - No aplica' },
+      ...(invoice.order ? [{ label: 'Pedido', value: invoice.order.folio }] : []),
+      ...(cfdi.paymentTerms ? [{ label: 'Condiciones de pago', value: cfdi.paymentTerms }] : [])
+    ],
+    items: cfdi.concepts.map((concept, index) => ({
+      id: String(index),
+      productKey: concept.productKey,
+      unitKey: concept.unitKey,
+      productCode: concept.productCode,
+      productName: concept.description,
+      quantity: concept.quantity,
+      unit: concept.unit,
+      unitPrice: concept.unitValue,
+      discount: concept.discount,
+      amount: concept.amount,
+      taxObject: concept.taxObject
+    })),
+    subtotal: cfdi.subtotal,
+    discount: cfdi.discount,
+    tax: cfdi.totalTransferred,
+    taxBreakdown: toTaxBreakdown(cfdi),
+    total: cfdi.total,
+    currency: isSupportedCurrency(cfdi.currency) ? cfdi.currency : 'MXN',
+    exchangeRate: cfdi.exchangeRate ?? undefined,
+    stamp: stamp
+      ? {
+          uuid: stamp.uuid,
+          stampedAt: stamp.stampedAt,
+          issuerCertificate: stamp.issuerCertificate,
+          satCertificate: stamp.satCertificate,
+          issuerSeal: stamp.issuerSeal,
+          satSeal: stamp.satSeal,
+          chain: getStampChain(stamp),
+          verificationUrl: getVerificationUrl(cfdi, stamp)
+        }
+      : undefined
+  }
+}
+
+/**
+ * The invoice XML: as stamped, or for drafts as it would be sent to the PAC now
+ */
+export function getInvoiceXml(invoice: Pick<Invoice, 'status' | 'xml' | 'cfdi' | 'serie' | 'folio'>): string {
+  if (invoice.xml) {
+    return invoice.xml
+  }
+  return toCFDIXml(issueCFDI(invoice.cfdi, invoice.serie, invoice.folio))
+}
+
+/**
+ * Draft the invoice for a delivered order
+ * The comprobante is built and validated now, so a draft only fails to
+ * stamp when the PAC rejects it.
+ */
+export async function createInvoice(orderId: string, options: InvoiceOptions, userId: string): Promise<{
+  success: boolean
+  message: string
+  invoice?: Invoice
+}> {
+  const supabase = createClient()
+
+  try {
+    const [orderResult, existingResult, profile] = await Promise.all([
+      supabase
+        .from('documents')
+        .select(`
+          id, type, order_status, company_id, currency, exchange_rate, payment_terms,
+          companies!documents_company_id_fkey(name, rfc, postal_code, fiscal_regime, cfdi_use),
+          document_items(product_code, product_name, unit, quantity, unit_price, discount_amount, taxes, is_selected,
+            products(unit, sat_product_key, sat_unit_key, product_categories(sat_product_key, sat_unit_key)))
+        `)
+        .eq('id', orderId)
+        .single(),
+      supabase
+        .from('invoices')
+        .select('id')
+        .eq('order_id', orderId)
+        .neq('status', 'cancelled'),
+      getIssuerProfile(supabase)
+    ])
+
+    if (orderResult.error || !orderResult.data) {
+      return {
+        success: false,
+        message: 'Order not found'
+      }
+    }
+
+    const order = orderResult.data as unknown as InvoiceableOrder
+    if (!canInvoiceOrder(order)) {
+      return {
+        success: false,
+        message: 'Only delivered orders can be invoiced'
+      }
+    }
+    if ((existingResult.data ?? []).length > 0) {
+      return {
+        success: false,
+        message: 'This order already has an invoice; cancel it to invoice the order again'
+      }
+    }
+    if (!profile || validateIssuerProfile(profile).length > 0) {
+      return {
+        success: false,
+        message: 'Complete the issuer profile in Settings before invoicing'
+      }
+    }
+
+    const company = order.companies
+    const lines = order.document_items.map(({ products: product, ...line }) => ({
+      ...line,
+      ...(product ? resolveSATKeys(product, line.unit) : {})
+    }))
+    const cfdi = buildCFDI(lines, profile, {
+      name: company?.name ?? '',
+      rfc: company?.rfc ?? '',
+      postal_code: company?.postal_code ?? '',
+      fiscal_regime: company?.fiscal_regime ?? '',
+      cfdi_use: company?.cfdi_use ?? ''
+    }, {
+      ...options,
+      currency: order.currency,
+      exchangeRate: Number(order.exchange_rate) || 1,
+      paymentTerms: order.payment_terms
+    })
+
+    const errors = validateCFDI(cfdi)
+    if (errors.length > 0) {
+      return {
+        success: false,
+        message: errors.join('; ')
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .insert({
+        order_id: order.id,
+        company_id: order.company_id,
+        serie: DEFAULT_INVOICE_SERIE,
+        payment_form: cfdi.paymentForm,
+        payment_method: cfdi.paymentMethod,
+        cfdi_use: cfdi.receiver.cfdiUse,
+        currency: cfdi.currency,
+        exchange_rate: cfdi.exchangeRate ?? 1,
+        subtotal: cfdi.subtotal,
+        discount_amount: cfdi.discount,
+        tax_amount: cfdi.totalTransferred,
+        withholding_amount: cfdi.totalWithheld,
+        total: cfdi.total,
+        cfdi,
+        created_by: userId
+      })
+      .select(INVOICE_COLUMNS)
+      .single()
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to create invoice'
+      }
+    }
+
+    const invoice = data as unknown as Invoice
+
+    return {
+      success: true,
+      message: `Invoice ${formatInvoiceFolio(invoice)} drafted`,
+      invoice
+    }
+  } catch (error) {
+    console.error('Error creating invoice:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get invoices, newest first
+ */
+export async function getInvoices(supabase: TypedSupabaseClient = createClient()): Promise<Invoice[]> {
+  try {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select(INVOICE_COLUMNS)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching invoices:', error)
+      return []
+    }
+
+    return (data ?? []) as unknown as Invoice[]
+  } catch (error) {
+    console.error('Error fetching invoices:', error)
+    return []
+  }
+}
+
+/**
+ * Get one invoice, or null when it does not exist or is not visible
+ */
+export async function getInvoice(supabase: TypedSupabaseClient, invoiceId: string): Promise<Invoice | null> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(INVOICE_COLUMNS)
+    .eq('id', invoiceId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching invoice:', error)
+    return null
+  }
+
+  return data as unknown as Invoice | null
+}
+
+/**
+ * Issue a draft invoice and have the PAC stamp it
+ * Its XML is checked against the SAT schema first (validateXml, the server's
+ * validateCFDIXml), so the PAC is never sent a comprobante it would reject.
+ */
+export async function stampInvoice(
+  supabase: TypedSupabaseClient,
+  invoiceId: string,
+  pac: PACProvider,
+  validateXml: (xml: string) => Promise<string[]>
+): Promise<{
+  success: boolean
+  message: string
+  invoice?: Invoice
+}> {
+  try {
+    const invoice = await getInvoice(supabase, invoiceId)
+    if (!invoice) {
+      return {
+        success: false,
+        message: 'Invoice not found'
+      }
+    }
+    if (invoice.status !== 'draft') {
+      return {
+        success: false,
+        message: 'Only draft invoices can be stamped'
+      }
+    }
+
+    const cfdi = issueCFDI(invoice.cfdi, invoice.serie, invoice.folio)
+    const errors = validateCFDI(cfdi)
+    if (errors.length > 0) {
+      return {
+        success: false,
+        message: errors.join('; ')
+      }
+    }
+
+    const xml = toCFDIXml(cfdi)
+    const schemaErrors = await validateXml(xml)
+    if (schemaErrors.length > 0) {
+      return {
+        success: false,
+        message: `The XML does not match the SAT schema: ${schemaErrors.join('; ')}`
+      }
+    }
+
+    const result = await pac.stamp(xml)
+    if (!result.success || !result.xml || !result.stamp) {
+      return {
+        success: false,
+        message: `The PAC rejected the invoice: ${result.message}`
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .update({
+        status: 'stamped',
+        cfdi,
+        xml: result.xml,
+        uuid: result.stamp.uuid,
+        stamped_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', invoice.id)
+      .eq('status', 'draft')
+      .select(INVOICE_COLUMNS)
+      .single()
+
+    if (error) {
+      // Stamped but not saved: the UUID must not be lost
+      console.error(`Invoice ${invoice.id} stamped as ${result.stamp.uuid} but not saved:`, error)
+      return {
+        success: false,
+        message: `Stamped as ${result.stamp.uuid} but failed to save the invoice`
+      }
+    }
+
+    return {
+      success: true,
+      message: `Invoice ${formatInvoiceFolio(invoice)} stamped`,
+      invoice: data as unknown as Invoice
+    }
+  } catch (error) {
+    console.error('Error stamping invoice:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Cancel an invoice
+ * Drafts are only marked cancelled; stamped invoices are cancelled with the
+ * SAT through the PAC first. Reason 01 (issued with errors, with relation)
+ * needs the UUID of the invoice that replaces this one.
+ */
+export async function cancelInvoice(
+  supabase: TypedSupabaseClient,
+  invoiceId: string,
+  reason: string,
+  pac: PACProvider,
+  replacementUuid?: string
+): Promise<{
+  success: boolean
+  message: string
+}> {
+  if (!(reason in CANCELLATION_REASONS)) {
+    return {
+      success: false,
+      message: 'Cancellation reason is not valid'
+    }
+  }
+  if (reason === '01' && !replacementUuid) {
+    return {
+      success: false,
+      message: 'Reason 01 needs the UUID of the replacing invoice'
+    }
+  }
+
+  try {
+    const invoice = await getInvoice(supabase, invoiceId)
+    if (!invoice) {
+      return {
+        success: false,
+        message: 'Invoice not found'
+      }
+    }
+    if (invoice.status === 'cancelled') {
+      return {
+        success: false,
+        message: 'The invoice is already cancelled'
+      }
+    }
+
+    if (invoice.status === 'stamped' && invoice.uuid) {
+      const result = await pac.cancel(invoice.uuid, invoice.cfdi.issuer.rfc, reason, replacementUuid)
+      if (!result.success) {
+        return {
+          success: false,
+          message: `The PAC could not cancel the invoice: ${result.message}`
+        }
+      }
+    }
+
+    const { error } = await supabase
+      .from('invoices')
+      .update({
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        cancellation_reason: reason,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', invoice.id)
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to cancel invoice'
+      }
+    }
+
+    return {
+      success: true,
+      message: `Invoice ${formatInvoiceFolio(invoice)} cancelled`
+    }
+  } catch (error) {
+    console.error('Error cancelling invoice:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * Issuer Profile
+ * Who we are on every document: legal and fiscal details, bank accounts for
+ * transfers, branding and the defaults new quotations start from
+ *
+ * The profile lives in a single issuer_profile row edited from the admin
+ * settings page. PDFs are rendered with the profile as it is when they are
+ * downloaded; until a profile is saved they fall back to DEFAULT_ISSUER.
+ */
+
+import { createClient, type TypedSupabaseClient } from '@/lib/supabase'
+import { validateRFC } from '@/lib/utils'
+import { DEFAULT_BRAND_COLORS, DEFAULT_ISSUER, type PDFIssuer } from '@/lib/pdf'
+import { FISCAL_REGIMES } from '@/lib/sat-catalogs'
+import type { QuotationFormHeader } from '@/lib/store'
+
+/**
+ * Another address of ours, e.g. a warehouse or a branch
+ */
+export interface IssuerAddress {
+  label: string
+  address: string
+}
+
+/**
+ * An account clients can pay into by transfer
+ */
+export interface IssuerBankAccount {
+  bank: string
+  account_holder: string
+  account_number: string | null
+  clabe: string | null // 18-digit interbank CLABE
+  currency: string
+}
+
+export interface IssuerProfile {
+  legal_name: string
+  trade_name: string | null // Shown instead of the legal name when set
+  rfc: string
+  fiscal_regime: string // c_RegimenFiscal key
+  address: string
+  city: string
+  state: string
+  postal_code: string
+  phone: string | null
+  email: string | null
+  website: string | null
+  addresses: IssuerAddress[]
+  bank_accounts: IssuerBankAccount[]
+  logo_url: string | null
+  primary_color: string
+  accent_color: string
+  default_validity_days: number
+  default_terms: string | null
+  default_delivery_terms: string | null
+  default_payment_terms: string | null
+  footer_text: string | null
+  updated_at?: string
+}
+
+export const LOGO_BUCKET = 'branding'
+export const MAX_LOGO_SIZE = 1024 * 1024 // 1 MB
+export const LOGO_TYPES = ['image/png', 'image/jpeg']
+
+const PROFILE_COLUMNS = `
+  legal_name, trade_name, rfc, fiscal_regime, address, city, state, postal_code, phone, email, website,
+  addresses, bank_accounts, logo_url, primary_color, accent_color, default_validity_days,
+  default_terms, default_delivery_terms, default_payment_terms, footer_text, updated_at
+`
+
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/
+
+/**
+ * Check a CLABE: 18 digits whose last one is the control digit
+ * Digits are weighted 3, 7, 1 in turn; the control digit brings the sum of
+ * the weighted digits (mod 10) up to a multiple of 10.
+ */
+export function isValidClabe(clabe: string): boolean {
+  if (!/^\d{18}$/.test(clabe)) {
+    return false
+  }
+
+  const weights = [3, 7, 1]
+  const sum = clabe
+    .slice(0, 17)
+    .split('')
+    .reduce((total, digit, index) => total + (Number(digit) * weights[index % 3]) % 10, 0)
+
+  return (10 - (sum % 10)) % 10 === Number(clabe[17])
+}
+
+/**
+ * Validate the profile before saving it
+ */
+export function validateIssuerProfile(profile: IssuerProfile): string[] {
+  const errors: string[] = []
+
+  if (!profile.legal_name.trim()) {
+    errors.push('Legal name is required')
+  }
+  if (!validateRFC(profile.rfc.trim().toUpperCase())) {
+    errors.push('RFC is not valid')
+  }
+  if (!(profile.fiscal_regime in FISCAL_REGIMES)) {
+    errors.push('Fiscal regime is required')
+  }
+  if (!profile.address.trim() || !profile.city.trim() || !profile.state.trim()) {
+    errors.push('Fiscal address is required')
+  }
+  if (!/^\d{5}$/.test(profile.postal_code.trim())) {
+    errors.push('Postal code must have 5 digits')
+  }
+  if (!HEX_COLOR.test(profile.primary_color) || !HEX_COLOR.test(profile.accent_color)) {
+    errors.push('Brand colors must be hex colors like #1F2937')
+  }
+  if (!(Number.isInteger(profile.default_validity_days) && profile.default_validity_days > 0)) {
+    errors.push('Default validity must be at least 1 day')
+  }
+
+  profile.addresses.forEach((entry, index) => {
+    if (!entry.label.trim() || !entry.address.trim()) {
+      errors.push(`Address ${index + 1}: label and address are required`)
+    }
+  })
+
+  profile.bank_accounts.forEach((account, index) => {
+    if (!account.bank.trim() || !account.account_holder.trim()) {
+      errors.push(`Bank account ${index + 1}: bank and account holder are required`)
+    }
+    if (!account.clabe && !account.account_number) {
+      errors.push(`Bank account ${index + 1}: enter a CLABE or an account number`)
+    }
+    if (account.clabe && !isValidClabe(account.clabe)) {
+      errors.push(`Bank account ${index + 1}: CLABE is not valid`)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * The issuer as PDFs show it
+ */
+export function toPDFIssuer(profile: IssuerProfile | null): PDFIssuer {
+  if (!profile) {
+    return DEFAULT_ISSUER
+  }
+
+  const regime = FISCAL_REGIMES[profile.fiscal_regime]
+
+  return {
+    name: profile.trade_name || profile.legal_name,
+    legalName: profile.trade_name ? profile.legal_name : undefined,
+    rfc: profile.rfc,
+    fiscalRegime: regime ? `${profile.fiscal_regime} - ${regime}` : undefined,
+    address: profile.address,
+    city: profile.city,
+    state: profile.state,
+    zip: profile.postal_code,
+    phone: profile.phone ?? '',
+    email: profile.email ?? '',
+    website: profile.website ?? undefined,
+    logo: profile.logo_url ?? undefined,
+    addresses: profile.addresses.map(entry => `${entry.label}: ${entry.address}`),
+    bankAccounts: profile.bank_accounts.map(account => ({
+      bank: account.bank,
+      accountHolder: account.account_holder,
+      accountNumber: account.account_number ?? undefined,
+      clabe: account.clabe ?? undefined,
+      currency: account.currency
+    })),
+    colors: { primary: profile.primary_color, accent: profile.accent_color },
+    footerText: profile.footer_text ?? undefined
+  }
+}
+
+/**
+ * Header fields a new quotation starts with: the builder's own defaults,
+ * with the validity and whichever terms the profile sets
+ */
+export function getQuotationDefaults(profile: IssuerProfile | null, defaults: QuotationFormHeader): QuotationFormHeader {
+  if (!profile) {
+    return defaults
+  }
+
+  return {
+    ...defaults,
+    validity_days: profile.default_validity_days,
+    terms: profile.default_terms || defaults.terms,
+    delivery_terms: profile.default_delivery_terms || defaults.delivery_terms,
+    payment_terms: profile.default_payment_terms || defaults.payment_terms
+  }
+}
+
+/**
+ * A profile to fill in when none has been saved
+ */
+export function emptyIssuerProfile(): IssuerProfile {
+  return {
+    legal_name: '',
+    trade_name: null,
+    rfc: '',
+    fiscal_regime: '601',
+    address: '',
+    city: '',
+    state: '',
+    postal_code: '',
+    phone: null,
+    email: null,
+    website: null,
+    addresses: [],
+    bank_accounts: [],
+    logo_url: null,
+    primary_color: DEFAULT_BRAND_COLORS.primary,
+    accent_color: DEFAULT_BRAND_COLORS.accent,
+    default_validity_days: 30,
+    default_terms: null,
+    default_delivery_terms: null,
+    default_payment_terms: null,
+    footer_text: null
+  }
+}
+
+/**
+ * Get the issuer profile, or null when none has been saved
+ */
+export async function getIssuerProfile(supabase: TypedSupabaseClient = createClient()): Promise<IssuerProfile | null> {
+  try {
+    const { data, error } = await supabase
+      .from('issuer_profile')
+      .select(PROFILE_COLUMNS)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching issuer profile:', error)
+      return null
+    }
+
+    return data as IssuerProfile | null
+  } catch (error) {
+    console.error('Error fetching issuer profile:', error)
+    return null
+  }
+}
+
+/**
+ * Save the issuer profile
+ */
+export async function updateIssuerProfile(profile: IssuerProfile): Promise<{
+  success: boolean
+  message: string
+}> {
+  const errors = validateIssuerProfile(profile)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const { error } = await supabase
+      .from('issuer_profile')
+      .upsert({
+        id: true,
+        ...profile,
+        legal_name: profile.legal_name.trim(),
+        trade_name: profile.trade_name?.trim() || null,
+        rfc: profile.rfc.trim().toUpperCase(),
+        postal_code: profile.postal_code.trim(),
+        footer_text: profile.footer_text?.trim() || null,
+        updated_at: new Date().toISOString()
+      })
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to update issuer profile'
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Issuer profile updated'
+    }
+  } catch (error) {
+    console.error('Error updating issuer profile:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Upload a logo to the branding bucket
+ * Every upload gets its own name, so PDFs cached with the old logo are not
+ * served a different image; save the profile to start using it.
+ */
+export async function uploadIssuerLogo(file: File): Promise<{
+  success: boolean
+  message: string
+  url?: string
+}> {
+  if (!LOGO_TYPES.includes(file.type)) {
+    return {
+      success: false,
+      message: 'The logo must be a PNG or JPEG image'
+    }
+  }
+  if (file.size > MAX_LOGO_SIZE) {
+    return {
+      success: false,
+      message: 'The logo must be 1 MB or smaller'
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const extension = file.type === 'image/png' ? 'png' : 'jpg'
+    const path = `logo-${Date.now()}.${extension}`
+    const { error } = await supabase.storage
+      .from(LOGO_BUCKET)
+      .upload(path, file, { contentType: file.type })
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to upload logo'
+      }
+    }
+
+    const { data } = supabase.storage.from(LOGO_BUCKET).getPublicUrl(path)
+
+    return {
+      success: true,
+      message: 'Logo uploaded',
+      url: data.publicUrl
+    }
+  } catch (error) {
+    console.error('Error uploading logo:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
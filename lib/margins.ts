@@ -0,0 +1,181 @@
+/**
+ * Realized Margins
+ * Gross margin of what has actually been sold, by order, client and category
+ *
+ * Each order line keeps the cost of what it sells from when the order was
+ * created (document_items.unit_cost), taken from the products' weighted-average
+ * cost; receipts keep that average up to date. Only shipped and delivered
+ * orders count. Revenue is the lines' subtotals after discounts and before
+ * tax, and everything is in MXN. Lines whose cost is unknown (no product, or
+ * a product never costed) are left out of both revenue and cost, and counted
+ * so the gap shows.
+ */
+
+import { createClient, type TypedSupabaseClient } from '@/lib/supabase'
+import { getDateRanges } from '@/lib/dashboard-metrics'
+import { subtractMoney, sumMoney } from '@/lib/money'
+
+export type MarginGrouping = 'order' | 'client' | 'category'
+
+/**
+ * One line of a shipped or delivered order (order_line_margins)
+ */
+export interface MarginLine {
+  order_id: string
+  folio: string
+  order_date: string
+  company_id: string | null
+  company_name: string | null
+  item_id: string
+  product_id: string | null
+  category_id: string | null
+  category_name: string | null
+  revenue: number
+  cost: number | null
+}
+
+export interface MarginSummary {
+  key: string
+  label: string | null // Folio, client or category name; null when there is none
+  revenue: number
+  cost: number
+  gross_profit: number
+  margin: number // Gross profit over revenue, 0.25 = 25%
+  orders: number
+  uncosted_lines: number
+}
+
+export interface MarginReport {
+  total: MarginSummary
+  byOrder: MarginSummary[]
+  byClient: MarginSummary[]
+  byCategory: MarginSummary[]
+}
+
+/**
+ * Gross margin as a fraction of revenue; 0 without revenue
+ */
+export function calculateGrossMargin(revenue: number, cost: number): number {
+  if (revenue <= 0) return 0
+  return (revenue - cost) / revenue
+}
+
+function getGroup(line: MarginLine, grouping: MarginGrouping | 'total'): { key: string; label: string | null } {
+  switch (grouping) {
+    case 'order':
+      return { key: line.order_id, label: line.folio }
+    case 'client':
+      return { key: line.company_id ?? 'none', label: line.company_name }
+    case 'category':
+      return { key: line.category_id ?? 'none', label: line.category_name }
+    default:
+      return { key: 'total', label: null }
+  }
+}
+
+/**
+ * Add up lines into one summary per order, client or category, most gross
+ * profit first
+ */
+export function summarizeMargins(lines: MarginLine[], grouping: MarginGrouping | 'total'): MarginSummary[] {
+  const groups = new Map<string, { label: string | null; revenue: number[]; cost: number[]; orders: Set<string>; uncosted: number }>()
+
+  for (const line of lines) {
+    const { key, label } = getGroup(line, grouping)
+    const group = groups.get(key) ?? { label, revenue: [], cost: [], orders: new Set<string>(), uncosted: 0 }
+
+    group.orders.add(line.order_id)
+    if (line.cost === null) {
+      group.uncosted++
+    } else {
+      group.revenue.push(line.revenue)
+      group.cost.push(line.cost)
+    }
+    groups.set(key, group)
+  }
+
+  return Array.from(groups, ([key, group]) => {
+    const revenue = sumMoney(group.revenue)
+    const cost = sumMoney(group.cost)
+
+    return {
+      key,
+      label: group.label,
+      revenue,
+      cost,
+      gross_profit: subtractMoney(revenue, cost),
+      margin: calculateGrossMargin(revenue, cost),
+      orders: group.orders.size,
+      uncosted_lines: group.uncosted
+    }
+  }).sort((a, b) => b.gross_profit - a.gross_profit)
+}
+
+/**
+ * Margins of the lines in a report, overall and by order, client and category
+ */
+export function buildMarginReport(lines: MarginLine[]): MarginReport {
+  return {
+    total: summarizeMargins(lines, 'total')[0] ?? {
+      key: 'total',
+      label: null,
+      revenue: 0,
+      cost: 0,
+      gross_profit: 0,
+      margin: 0,
+      orders: 0,
+      uncosted_lines: 0
+    },
+    byOrder: summarizeMargins(lines, 'order'),
+    byClient: summarizeMargins(lines, 'client'),
+    byCategory: summarizeMargins(lines, 'category')
+  }
+}
+
+// Lines read per request; no more than PostgREST returns at once (max-rows, 1000 by default)
+const PAGE_SIZE = 1000
+
+/**
+ * Lines of the orders shipped or delivered that were created since a date
+ * Read a page at a time, so long periods are not cut off at the row limit.
+ */
+export async function getMarginLines(
+  since: Date,
+  supabase: TypedSupabaseClient = createClient()
+): Promise<MarginLine[]> {
+  const lines: MarginLine[] = []
+
+  try {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('order_line_margins')
+        .select('order_id, folio, order_date, company_id, company_name, item_id, product_id, category_id, category_name, revenue, cost')
+        .gte('order_date', since.toISOString())
+        .order('item_id')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching order margins:', error)
+        return []
+      }
+
+      const page = (data ?? []) as MarginLine[]
+      lines.push(...page)
+
+      if (page.length < PAGE_SIZE) {
+        return lines
+      }
+    }
+  } catch (error) {
+    console.error('Error fetching order margins:', error)
+    return []
+  }
+}
+
+/**
+ * Realized margins of the orders created in the last days
+ */
+export async function getMarginReport(timeRange: number): Promise<MarginReport> {
+  const { current } = getDateRanges(timeRange)
+  return buildMarginReport(await getMarginLines(current.start))
+}
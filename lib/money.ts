@@ -0,0 +1,205 @@
+/**
+ * Money Arithmetic
+ * Exact decimal arithmetic on peso amounts using integer centavos
+ *
+ * Amounts cross module boundaries as plain numbers with at most two decimals,
+ * but every sum, product and rounding step in here works on integers (BigInt
+ * for products), so totals over hundreds of lines never pick up float drift.
+ * A number is read as the shortest decimal that prints it, e.g. 100.135 is
+ * the decimal 100.135 and not the binary value just below it.
+ */
+
+export type RoundingMode = 'half-even' | 'half-up';
+
+/**
+ * Where taxes are rounded: on every line, or once per tax on the document
+ */
+export type RoundingScope = 'line' | 'document';
+
+export interface RoundingConfig {
+  mode: RoundingMode;
+  scope: RoundingScope;
+}
+
+export const DEFAULT_ROUNDING: RoundingConfig = {
+  mode: 'half-even',
+  scope: 'line'
+};
+
+export const ROUNDING_MODES: RoundingMode[] = ['half-even', 'half-up'];
+export const ROUNDING_SCOPES: RoundingScope[] = ['line', 'document'];
+
+interface ScaledDecimal {
+  digits: bigint;
+  scale: number; // value = digits / 10^scale
+}
+
+function assertAmount(amount: number): void {
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+    throw new Error('Amount must be a valid number');
+  }
+}
+
+/**
+ * Exact decimal behind a number's shortest string form
+ */
+function toScaledDecimal(value: number): ScaledDecimal {
+  const [mantissa, exponent = '0'] = String(value).toLowerCase().split('e');
+  const [whole, fraction = ''] = mantissa.split('.');
+  const scale = fraction.length - parseInt(exponent, 10);
+  const digits = BigInt(whole + fraction);
+
+  return scale >= 0
+    ? { digits, scale }
+    : { digits: digits * BigInt(10) ** BigInt(-scale), scale: 0 };
+}
+
+/**
+ * Divide by a power of ten, rounding the remainder with the given mode
+ */
+function roundScaled(digits: bigint, shift: number, mode: RoundingMode): bigint {
+  if (shift <= 0) {
+    return digits * BigInt(10) ** BigInt(-shift);
+  }
+
+  const divisor = BigInt(10) ** BigInt(shift);
+  const negative = digits < BigInt(0);
+  const magnitude = negative ? -digits : digits;
+  let quotient = magnitude / divisor;
+  const twice_remainder = (magnitude % divisor) * BigInt(2);
+
+  if (
+    twice_remainder > divisor ||
+    (twice_remainder === divisor && (mode === 'half-up' || quotient % BigInt(2) === BigInt(1)))
+  ) {
+    quotient += BigInt(1);
+  }
+
+  return negative ? -quotient : quotient;
+}
+
+function centavosFromScaled(value: ScaledDecimal, mode: RoundingMode): number {
+  return Number(roundScaled(value.digits, value.scale - 2, mode));
+}
+
+/**
+ * Convert a peso amount to integer centavos
+ */
+export function toCentavos(amount: number, mode: RoundingMode = DEFAULT_ROUNDING.mode): number {
+  assertAmount(amount);
+  return centavosFromScaled(toScaledDecimal(amount), mode);
+}
+
+/**
+ * Convert integer centavos back to a peso amount
+ */
+export function fromCentavos(centavos: number): number {
+  if (!Number.isInteger(centavos)) {
+    throw new Error('Centavos must be an integer');
+  }
+  return centavos / 100;
+}
+
+/**
+ * Round a peso amount to the centavo
+ * Negative amounts that round to zero stay -0, like Math.round does.
+ */
+export function roundMoney(amount: number, mode: RoundingMode = DEFAULT_ROUNDING.mode): number {
+  const centavos = toCentavos(amount, mode);
+  return centavos === 0 && amount < 0 ? -0 : fromCentavos(centavos);
+}
+
+/**
+ * Multiply an amount by a factor (a rate, a quantity) and round the exact
+ * product to the centavo
+ */
+export function multiplyMoney(amount: number, factor: number, mode: RoundingMode = DEFAULT_ROUNDING.mode): number {
+  assertAmount(amount);
+  assertAmount(factor);
+
+  const a = toScaledDecimal(amount);
+  const b = toScaledDecimal(factor);
+  const centavos = centavosFromScaled({ digits: a.digits * b.digits, scale: a.scale + b.scale }, mode);
+  return centavos === 0 && amount * factor < 0 ? -0 : fromCentavos(centavos);
+}
+
+/**
+ * Divide an amount by a factor (an exchange rate) and round the exact
+ * quotient to the centavo
+ */
+export function divideMoney(amount: number, divisor: number, mode: RoundingMode = DEFAULT_ROUNDING.mode): number {
+  assertAmount(amount);
+  assertAmount(divisor);
+  if (divisor === 0) {
+    throw new Error('Cannot divide by zero');
+  }
+
+  // amount / divisor in centavos = (a / 10^sa) / (b / 10^sb) * 100
+  const a = toScaledDecimal(amount);
+  const b = toScaledDecimal(divisor);
+  const numerator = a.digits * BigInt(10) ** BigInt(b.scale + 2 + 1);
+  const denominator = b.digits * BigInt(10) ** BigInt(a.scale);
+  const negative = (numerator < BigInt(0)) !== (denominator < BigInt(0));
+  const n = numerator < BigInt(0) ? -numerator : numerator;
+  const d = denominator < BigInt(0) ? -denominator : denominator;
+
+  // One extra digit tells halves apart; the sticky remainder breaks exact ties
+  let tenths = n / d;
+  if (n % d !== BigInt(0) && tenths % BigInt(10) === BigInt(5)) {
+    tenths += BigInt(1);
+  }
+  const centavos = Number(roundScaled(negative ? -tenths : tenths, 1, mode));
+  return centavos === 0 && negative ? -0 : fromCentavos(centavos);
+}
+
+/**
+ * Add peso amounts exactly
+ * Each amount is rounded to the centavo before it is added.
+ */
+export function sumMoney(amounts: number[], mode: RoundingMode = DEFAULT_ROUNDING.mode): number {
+  return fromCentavos(amounts.reduce((sum, amount) => sum + toCentavos(amount, mode), 0));
+}
+
+/**
+ * Subtract b from a exactly
+ */
+export function subtractMoney(a: number, b: number, mode: RoundingMode = DEFAULT_ROUNDING.mode): number {
+  return fromCentavos(toCentavos(a, mode) - toCentavos(b, mode));
+}
+
+/**
+ * Split an amount over weights to the centavo
+ * Each share is floored and the leftover centavos go to the largest
+ * remainders (earliest first on ties), so the shares always add up to the
+ * amount exactly.
+ */
+export function allocateMoney(amount: number, weights: number[]): number[] {
+  const total_cents = toCentavos(amount);
+  const weight_cents = weights.map(weight => BigInt(toCentavos(weight)));
+  const weight_total = weight_cents.reduce((sum, weight) => sum + weight, BigInt(0));
+
+  if (weight_total === BigInt(0)) {
+    return weights.map(() => 0);
+  }
+
+  const shares = weight_cents.map((weight, index) => {
+    const exact = weight * BigInt(total_cents);
+    return {
+      index,
+      cents: exact / weight_total,
+      remainder: exact % weight_total
+    };
+  });
+
+  let leftover = BigInt(total_cents) - shares.reduce((sum, share) => sum + share.cents, BigInt(0));
+  const by_remainder = [...shares].sort((a, b) =>
+    a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1
+  );
+  for (const share of by_remainder) {
+    if (leftover <= BigInt(0)) break;
+    share.cents += BigInt(1);
+    leftover -= BigInt(1);
+  }
+
+  return shares.map(share => fromCentavos(Number(share.cents)));
+}
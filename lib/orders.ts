@@ -4,6 +4,7 @@
  */
 
 import { createClient } from '@/lib/supabase'
+import { validateOrderStatusTransition as validateOrderStatusRules } from '@/lib/validation'
 
 export type OrderStatus = 
   | 'pending' 
@@ -137,6 +138,10 @@ export function getValidNextOrderStatuses(currentStatus: OrderStatus): OrderStat
 
 /**
  * Update order status with proper validation and audit tracking
+ *
+ * The database keeps stock in step with the new status: confirming an order
+ * reserves its goods, shipping it takes them out of stock and cancelling it
+ * releases the reservation (see lib/inventory).
  */
 export async function updateOrderStatus(
   documentId: string,
@@ -186,8 +191,9 @@ export async function updateOrderStatus(
     const currentStatus = orderResult.data.order_status as OrderStatus
     const userRole = userResult.data?.role
     
-    // Validate transition with business rules
-    const businessValidation = validateOrderStatusTransition(currentStatus, newStatus, userRole)
+    // Validate transition with business rules (lib/validation: who may change
+    // it, final statuses); the transition table is checked after
+    const businessValidation = validateOrderStatusRules(currentStatus, newStatus, userRole)
     if (!businessValidation.valid) {
       return {
         success: false,
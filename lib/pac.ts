@@ -0,0 +1,100 @@
+/**
+ * PAC (Proveedor Autorizado de Certificación)
+ * Seals and stamps CFDI XML, and cancels stamped CFDIs, on our behalf
+ *
+ * The PAC holds our CSD, so it seals the comprobante before adding the
+ * timbre fiscal digital. Stamping runs on the server only (the invoice API
+ * routes) because a real PAC needs credentials. Until one is contracted the
+ * local fake is used: it stamps with random UUIDs and made-up seals, which
+ * the SAT would never accept.
+ */
+
+import { createHash, randomUUID } from 'crypto'
+import { formatCFDIDate, readCFDIStamp, type CFDIStamp } from '@/lib/cfdi'
+
+export interface PACStampResult {
+  success: boolean
+  message: string
+  xml?: string // Sealed and stamped
+  stamp?: CFDIStamp
+}
+
+export interface PACProvider {
+  name: string
+  stamp(xml: string): Promise<PACStampResult>
+  cancel(uuid: string, issuerRfc: string, reason: string, replacementUuid?: string): Promise<{
+    success: boolean
+    message: string
+  }>
+}
+
+const TFD_NAMESPACE = 'http://www.sat.gob.mx/TimbreFiscalDigital'
+const TFD_SCHEMA_LOCATION = 'http://www.sat.gob.mx/sitio_internet/cfd/TimbreFiscalDigital/TimbreFiscalDigitalv11.xsd'
+
+// SAT's generic RFC for test certificates
+const FAKE_PAC_RFC = 'SPR190613I52'
+const FAKE_CERTIFICATE = '30001000000500003416'
+
+function fakeSeal(content: string): string {
+  return createHash('sha256').update(content).digest('base64')
+}
+
+/**
+ * A PAC that stamps locally, for development and tests
+ * Only XML that is not stamped yet is accepted; any UUID can be cancelled.
+ */
+export function createFakePAC(): PACProvider {
+  return {
+    name: 'fake',
+
+    async stamp(xml) {
+      if (!xml.includes('<cfdi:Comprobante')) {
+        return { success: false, message: 'Not a CFDI' }
+      }
+      if (xml.includes('<tfd:TimbreFiscalDigital')) {
+        return { success: false, message: 'The CFDI is already stamped' }
+      }
+
+      const seal = fakeSeal(xml)
+      const uuid = randomUUID().toUpperCase()
+      const timbre = `<tfd:TimbreFiscalDigital xmlns:tfd="${TFD_NAMESPACE}"` +
+        ` xsi:schemaLocation="${TFD_NAMESPACE} ${TFD_SCHEMA_LOCATION}"` +
+        ` Version="1.1" UUID="${uuid}" FechaTimbrado="${formatCFDIDate(new Date())}"` +
+        ` RfcProvCertif="${FAKE_PAC_RFC}" SelloCFD="${seal}"` +
+        ` NoCertificadoSAT="${FAKE_CERTIFICATE}" SelloSAT="${fakeSeal(uuid + seal)}"/>`
+
+      const sealed = xml
+        .replace('<cfdi:Comprobante ', `<cfdi:Comprobante Sello="${seal}" NoCertificado="${FAKE_CERTIFICATE}" Certificado="" `)
+        .replace('</cfdi:Comprobante>', `<cfdi:Complemento>${timbre}</cfdi:Complemento></cfdi:Comprobante>`)
+
+      return {
+        success: true,
+        message: 'CFDI stamped',
+        xml: sealed,
+        stamp: readCFDIStamp(sealed) ?? undefined
+      }
+    },
+
+    async cancel(uuid) {
+      if (!/^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/i.test(uuid)) {
+        return { success: false, message: `${uuid} is not a CFDI UUID` }
+      }
+      return { success: true, message: 'CFDI cancelled' }
+    }
+  }
+}
+
+let provider: PACProvider | null = null
+
+/**
+ * The PAC invoices are stamped with, picked by PAC_PROVIDER
+ */
+export function getPACProvider(): PACProvider {
+  const name = process.env.PAC_PROVIDER ?? 'fake'
+  if (name !== 'fake') {
+    throw new Error(`Unknown PAC provider: ${name}`)
+  }
+
+  provider ??= createFakePAC()
+  return provider
+}
@@ -1,6 +1,104 @@
 import { Document, Page, Text, View, StyleSheet, PDFDownloadLink, Font, Image } from '@react-pdf/renderer';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { formatTierRange, type ResolvedPriceTier, type TaxBreakdownEntry } from '@/lib/calculations';
+import { multiplyMoney, sumMoney } from '@/lib/money';
+import { formatCurrency as formatAmount, type CurrencyCode } from '@/lib/currency';
+
+export interface PDFBundleComponent {
+  productCode: string;
+  productName: string;
+  quantity: number;
+  unit?: string;
+}
+
+/**
+ * Kinds of document the PDF building blocks render
+ * quotation and order: priced documents for the client
+ * packing_list: what the warehouse picks for an order, no prices
+ * delivery_note: the remisión the driver has the client sign, no prices
+ * invoice: the printed representation of a CFDI
+ */
+export type PDFDocumentKind = 'quotation' | 'order' | 'packing_list' | 'delivery_note' | 'invoice' | 'purchase_order';
+
+export const DOCUMENT_KINDS: Record<PDFDocumentKind, { title: string; fileName: string }> = {
+  quotation: { title: 'COTIZACIÓN', fileName: 'cotizacion' },
+  order: { title: 'CONFIRMACIÓN DE PEDIDO', fileName: 'pedido' },
+  packing_list: { title: 'LISTA DE SURTIDO', fileName: 'surtido' },
+  delivery_note: { title: 'REMISIÓN', fileName: 'remision' },
+  invoice: { title: 'FACTURA', fileName: 'factura' },
+  purchase_order: { title: 'ORDEN DE COMPRA', fileName: 'orden_compra' },
+};
+
+export interface PDFBrandColors {
+  primary: string; // Table headers and the grand total rule
+  accent: string; // Titles
+}
+
+export const DEFAULT_BRAND_COLORS: PDFBrandColors = {
+  primary: '#1F2937',
+  accent: '#111827',
+};
+
+export interface PDFBankAccount {
+  bank: string;
+  accountHolder: string;
+  accountNumber?: string;
+  clabe?: string;
+  currency: string;
+}
+
+export interface PDFIssuer {
+  name: string;
+  legalName?: string; // When name is a trade name
+  rfc: string;
+  fiscalRegime?: string;
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+  phone: string;
+  email: string;
+  website?: string;
+  logo?: string;
+  addresses?: string[]; // Other locations, e.g. warehouses
+  bankAccounts?: PDFBankAccount[];
+  colors?: PDFBrandColors;
+  footerText?: string;
+}
+
+export interface PDFCompany {
+  id: string;
+  name: string;
+  rfc: string;
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+  phone: string;
+  email: string;
+  contactName?: string;
+  logo?: string;
+}
+
+export interface PDFLineItem {
+  id: string;
+  productName: string;
+  productCode: string;
+  description?: string;
+  quantity: number;
+  unit?: string; // Selling unit, e.g. CAJA
+  unitPrice: number;
+  discount?: number;
+  priceTier?: Pick<ResolvedPriceTier, 'min_quantity' | 'max_quantity'> | null; // Volume tier the unit price comes from
+  components?: PDFBundleComponent[] | null; // Kit contents for the whole line, listed when the kit is expanded
+  isOptional?: boolean; // Offered on top of the quotation
+  alternativeGroup?: string | null; // One of a set of alternatives
+  isSelected?: boolean; // Option line the client took; unpicked ones are listed apart, out of the totals
+  subtotal: number; // After the line discount
+  tax: number;
+  total: number;
+}
 
 export interface QuotationPDFData {
   id: string;
@@ -8,55 +106,171 @@ export interface QuotationPDFData {
   status: string;
   createdAt: string;
   validUntil: string;
+  subtotal: number; // Before discounts
+  tax: number; // Transferred taxes
+  taxBreakdown?: TaxBreakdownEntry[]; // Per-tax amounts, withholdings included
+  discount: number; // Line and document discounts, taken off before tax
+  total: number; // subtotal - discount + tax - withholdings
+  currency?: CurrencyCode; // Currency of every amount above, MXN when missing
+  exchangeRate?: number; // MXN per unit, frozen when the quotation was made
+  notes?: string;
+  company: PDFCompany;
+  items: PDFLineItem[];
+  issuer?: PDFIssuer;
+}
+
+/**
+ * Order confirmation: the quotation's amounts as ordered
+ */
+export interface OrderPDFData extends Omit<QuotationPDFData, 'validUntil'> {
+  quotationFolio?: string; // Quotation the order was converted from
+}
+
+/**
+ * A line to pick, pack or deliver; quantities only
+ */
+export interface PDFQuantityItem {
+  id: string;
+  productCode: string;
+  productName: string;
+  quantity: number;
+  unit?: string;
+  baseQuantity?: string; // Quantity in the base unit when sold in a larger one, e.g. "48 PIEZA"
+  note?: string; // e.g. the kit a component is picked for
+}
+
+export interface PackingListItem extends PDFQuantityItem {
+  bin?: string | null; // Warehouse bin location
+  category?: string | null;
+}
+
+export interface PackingListPDFData {
+  id: string;
+  folio: string; // Order folio
+  status: string;
+  createdAt: string;
+  company: PDFCompany;
+  deliveryAddress?: string;
+  deliveryInstructions?: string;
+  scheduledDate?: string;
+  notes?: string;
+  items: PackingListItem[];
+  issuer?: PDFIssuer;
+}
+
+export interface DeliveryNotePDFData {
+  id: string; // Delivery id, or the order id when it has no delivery yet
+  folio: string; // Order folio
+  createdAt: string; // Scheduled date, or when the note was printed
+  company: PDFCompany;
+  deliveryAddress: string;
+  deliveryInstructions?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  notes?: string;
+  items: PDFQuantityItem[];
+  issuer?: PDFIssuer;
+}
+
+/**
+ * A CFDI concept with its SAT keys
+ */
+export interface InvoicePDFItem {
+  id: string;
+  productKey: string; // ClaveProdServ
+  unitKey: string; // ClaveUnidad
+  productCode: string;
+  productName: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  discount: number;
+  amount: number; // quantity × unitPrice, before the discount
+  taxObject: string; // ObjetoImp
+}
+
+/**
+ * Timbre fiscal digital, with what the printed CFDI must show of it
+ */
+export interface InvoicePDFStamp {
+  uuid: string;
+  stampedAt: string;
+  issuerCertificate: string;
+  satCertificate: string;
+  issuerSeal: string;
+  satSeal: string;
+  chain: string; // Cadena original del complemento de certificación
+  verificationUrl: string;
+}
+
+export interface InvoicePDFData {
+  id: string;
+  folio: string; // Serie and folio, e.g. A-123
+  status: string; // draft, stamped or cancelled
+  createdAt: string;
+  company: PDFCompany;
+  fiscalDetails: Array<{ label: string; value: string }>; // Receptor régimen and uso, forma and método de pago...
+  items: InvoicePDFItem[];
+  subtotal: number; // Before discounts
+  discount: number;
+  tax: number;
+  taxBreakdown: TaxBreakdownEntry[];
+  total: number;
+  currency?: CurrencyCode;
+  exchangeRate?: number;
+  stamp?: InvoicePDFStamp; // Missing until stamped
+  issuer?: PDFIssuer;
+}
+
+/**
+ * Purchase order sent to a supplier; costs per base unit, taxes at one rate
+ */
+export interface PurchaseOrderPDFData {
+  id: string;
+  folio: string;
+  status: string;
+  createdAt: string;
+  expectedDate?: string; // When the supplier is to deliver
+  supplier: PDFCompany;
+  items: PDFLineItem[];
   subtotal: number;
   tax: number;
-  discount: number;
+  taxBreakdown: TaxBreakdownEntry[];
   total: number;
+  currency?: CurrencyCode;
+  exchangeRate?: number;
+  paymentTerms?: string;
   notes?: string;
-  company: {
-    id: string;
-    name: string;
-    rfc: string;
-    address: string;
-    city: string;
-    state: string;
-    zip: string;
-    phone: string;
-    email: string;
-    contactName?: string;
-    logo?: string;
-  };
-  items: Array<{
-    id: string;
-    productName: string;
-    productCode: string;
-    description?: string;
-    quantity: number;
-    unitPrice: number;
-    subtotal: number;
-    tax: number;
-    total: number;
-  }>;
-  issuer?: {
-    name: string;
-    rfc: string;
-    address: string;
-    city: string;
-    state: string;
-    zip: string;
-    phone: string;
-    email: string;
-    logo?: string;
-  };
+  issuer?: PDFIssuer;
 }
 
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('es-MX', {
-    style: 'currency',
-    currency: 'MXN',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
+export const formatCurrency = (amount: number, currency: CurrencyCode = 'MXN'): string => {
+  return formatAmount(amount, currency);
+};
+
+export const formatPriceTier = (tier: Pick<ResolvedPriceTier, 'min_quantity' | 'max_quantity'>): string => {
+  return `Precio por volumen (${formatTierRange(tier)})`;
+};
+
+export const formatBundleComponent = (component: PDFBundleComponent): string => {
+  const unit = component.unit ? ` ${component.unit}` : '';
+  return `${component.quantity}${unit} × ${component.productName} (${component.productCode})`;
+};
+
+export const formatLineOption = (item: Pick<PDFLineItem, 'isOptional' | 'alternativeGroup'>): string | null => {
+  if (item.alternativeGroup) return `Alternativa ${item.alternativeGroup}`;
+  return item.isOptional ? 'Opcional' : null;
+};
+
+// Option lines the client has not taken are shown apart from the quoted items
+export const splitOptionalItems = (items: PDFLineItem[]) => {
+  const isOffered = (item: PDFLineItem) =>
+    !!(item.isOptional || item.alternativeGroup) && !item.isSelected;
+
+  return {
+    items: items.filter(item => !isOffered(item)),
+    optionalItems: items.filter(isOffered),
+  };
 };
 
 export const formatDate = (dateString: string): string => {
@@ -76,6 +290,18 @@ export const getStatusLabel = (status: string): string => {
     approved: 'APROBADA',
     rejected: 'RECHAZADA',
     expired: 'EXPIRADA',
+    pending: 'PENDIENTE',
+    confirmed: 'CONFIRMADO',
+    in_progress: 'EN PROCESO',
+    ready: 'LISTO',
+    shipped: 'ENVIADO',
+    delivered: 'ENTREGADO',
+    cancelled: 'CANCELADO',
+    stamped: 'TIMBRADA',
+    sent: 'ENVIADA',
+    partially_received: 'RECIBIDA PARCIAL',
+    received: 'RECIBIDA',
+    closed: 'CERRADA',
   };
   return statusLabels[status] || status.toUpperCase();
 };
@@ -87,11 +313,23 @@ export const getStatusColor = (status: string): string => {
     approved: '#10B981',
     rejected: '#EF4444',
     expired: '#F59E0B',
+    pending: '#6B7280',
+    confirmed: '#3B82F6',
+    in_progress: '#8B5CF6',
+    ready: '#0EA5E9',
+    shipped: '#F59E0B',
+    delivered: '#10B981',
+    cancelled: '#EF4444',
+    stamped: '#10B981',
+    sent: '#3B82F6',
+    partially_received: '#F59E0B',
+    received: '#10B981',
+    closed: '#6B7280',
   };
   return statusColors[status] || '#6B7280';
 };
 
-export const createPDFStyles = () => StyleSheet.create({
+export const createPDFStyles = (colors: PDFBrandColors = DEFAULT_BRAND_COLORS) => StyleSheet.create({
   page: {
     padding: 30,
     fontSize: 10,
@@ -124,7 +362,7 @@ export const createPDFStyles = () => StyleSheet.create({
     fontSize: 20,
     fontWeight: 'bold',
     marginBottom: 5,
-    color: '#111827',
+    color: colors.accent,
   },
   subtitle: {
     fontSize: 14,
@@ -137,7 +375,7 @@ export const createPDFStyles = () => StyleSheet.create({
     fontWeight: 'bold',
     marginTop: 15,
     marginBottom: 10,
-    color: '#111827',
+    color: colors.accent,
     borderBottom: '1px solid #E5E7EB',
     paddingBottom: 5,
   },
@@ -171,7 +409,7 @@ export const createPDFStyles = () => StyleSheet.create({
   },
   tableHeader: {
     flexDirection: 'row',
-    backgroundColor: '#1F2937',
+    backgroundColor: colors.primary,
     padding: 8,
     color: '#FFFFFF',
   },
@@ -240,7 +478,7 @@ export const createPDFStyles = () => StyleSheet.create({
     justifyContent: 'flex-end',
     marginTop: 5,
     paddingTop: 10,
-    borderTop: '2px solid #1F2937',
+    borderTop: `2px solid ${colors.primary}`,
     width: 250,
   },
   grandTotalLabel: {
@@ -308,6 +546,81 @@ export const createPDFStyles = () => StyleSheet.create({
     color: '#4B5563',
     lineHeight: 1.4,
   },
+  checkboxCell: {
+    width: '8%',
+    alignItems: 'center',
+  },
+  checkbox: {
+    width: 10,
+    height: 10,
+    border: '1px solid #1F2937',
+  },
+  pickCodeCell: {
+    width: '15%',
+  },
+  pickNameCell: {
+    width: '52%',
+  },
+  pickQuantityCell: {
+    width: '25%',
+    textAlign: 'right',
+  },
+  signatureSection: {
+    marginTop: 40,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  signatureBox: {
+    width: '30%',
+    alignItems: 'center',
+  },
+  signatureLine: {
+    width: '100%',
+    borderBottom: '1px solid #1F2937',
+    height: 30,
+    marginBottom: 5,
+  },
+  signatureLabel: {
+    fontSize: 9,
+    color: '#4B5563',
+  },
+  bankAccountsSection: {
+    marginTop: 15,
+    padding: 10,
+    border: '1px solid #E5E7EB',
+    borderRadius: 5,
+  },
+  invoiceKeyCell: {
+    width: '11%',
+  },
+  invoiceNameCell: {
+    width: '36%',
+  },
+  invoiceQuantityCell: {
+    width: '14%',
+    textAlign: 'right',
+  },
+  invoiceAmountCell: {
+    width: '14%',
+    textAlign: 'right',
+  },
+  stampSection: {
+    marginTop: 15,
+    marginBottom: 40,
+    padding: 10,
+    border: '1px solid #E5E7EB',
+    borderRadius: 5,
+  },
+  sealLabel: {
+    fontSize: 7,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginTop: 4,
+  },
+  sealText: {
+    fontSize: 6,
+    color: '#4B5563',
+  },
   pageNumber: {
     position: 'absolute',
     bottom: 15,
@@ -317,22 +630,46 @@ export const createPDFStyles = () => StyleSheet.create({
   },
 });
 
-export const generatePDFFileName = (folio: string, companyName: string): string => {
+export const generatePDFFileName = (folio: string, companyName: string, kind: PDFDocumentKind = 'quotation'): string => {
   const sanitizedCompany = companyName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
   const date = format(new Date(), 'yyyyMMdd');
-  return `cotizacion_${folio}_${sanitizedCompany}_${date}.pdf`;
+  return `${DOCUMENT_KINDS[kind].fileName}_${folio}_${sanitizedCompany}_${date}.pdf`;
 };
 
 export const shouldShowWatermark = (status: string): boolean => {
-  return ['draft', 'rejected', 'expired'].includes(status);
+  return ['draft', 'rejected', 'expired', 'cancelled'].includes(status);
+};
+
+const UNLOCATED = 'SIN UBICACIÓN';
+
+// Packing list sections: lines with a bin by bin, in walking order, then the
+// rest by category; lines are sorted by code within a section
+export const groupPackingItems = (items: PackingListItem[]): Array<{ label: string; items: PackingListItem[] }> => {
+  const groups = new Map<string, { label: string; sortKey: string; items: PackingListItem[] }>();
+
+  for (const item of items) {
+    const bin = item.bin?.trim();
+    const label = bin ? `Ubicación ${bin}` : item.category ? `Categoría ${item.category}` : UNLOCATED;
+    const sortKey = bin ? `0:${bin}` : item.category ? `1:${item.category}` : '2';
+    const group = groups.get(label) ?? { label, sortKey, items: [] };
+    group.items.push(item);
+    groups.set(label, group);
+  }
+
+  return Array.from(groups.values())
+    .sort((a, b) => a.sortKey.localeCompare(b.sortKey, 'es', { numeric: true }))
+    .map(({ label, items }) => ({
+      label,
+      items: [...items].sort((a, b) => a.productCode.localeCompare(b.productCode, 'es', { numeric: true })),
+    }));
 };
 
 export const calculateTaxAmount = (subtotal: number, taxRate: number = 0.16): number => {
-  return subtotal * taxRate;
+  return multiplyMoney(subtotal, taxRate);
 };
 
 export const calculateTotalWithTax = (subtotal: number, taxRate: number = 0.16): number => {
-  return subtotal * (1 + taxRate);
+  return sumMoney([subtotal, calculateTaxAmount(subtotal, taxRate)]);
 };
 
 export const validatePDFData = (data: QuotationPDFData): { valid: boolean; errors: string[] } => {
@@ -359,7 +696,7 @@ export const validatePDFData = (data: QuotationPDFData): { valid: boolean; error
   };
 };
 
-export const DEFAULT_ISSUER = {
+export const DEFAULT_ISSUER: PDFIssuer = {
   name: 'Hoja Verde S.A. de C.V.',
   rfc: 'HVE240101ABC',
   address: 'Av. Reforma 123',
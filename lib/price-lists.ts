@@ -0,0 +1,441 @@
+/**
+ * Price List Utilities
+ * Client price lists (negotiated product prices and category markups) and
+ * product volume tiers
+ *
+ * A negotiated price is on the same tax basis as products.public_price (taxes
+ * included when the product is tax_included); a category markup is applied
+ * over cost_price and then put on that basis, so every candidate compares
+ * like for like. Catalog prices are in MXN.
+ */
+
+import { createClient } from '@/lib/supabase'
+import {
+  calculateBasePrice,
+  calculatePublicPrice,
+  formatTierRange,
+  resolvePriceTier,
+  validatePriceTiers,
+  type PriceTier,
+  type ResolvedPriceTier,
+  type TaxConfiguration
+} from '@/lib/calculations'
+import { getLocalDate } from '@/lib/exchange-rates'
+
+export interface PriceListItem {
+  id?: string
+  product_id: string | null
+  category_id: string | null
+  price: number | null // Negotiated price for product entries
+  markup: number | null // Markup over cost_price for category entries (0.25 = 25%)
+}
+
+export interface PriceList {
+  id: string
+  name: string
+  description: string | null
+  valid_from: string | null // YYYY-MM-DD, inclusive
+  valid_until: string | null // YYYY-MM-DD, inclusive
+  is_active: boolean
+  created_at: string
+  price_list_items: PriceListItem[]
+}
+
+export type PriceListInput = Pick<PriceList, 'name' | 'description' | 'valid_from' | 'valid_until' | 'is_active' | 'price_list_items'>
+
+/**
+ * Product fields price resolution needs
+ */
+export interface PricedProduct {
+  id: string
+  category_id: string | null
+  cost_price: number
+  public_price: number
+  tax_included: boolean
+  price_tiers?: PriceTier[] | null
+}
+
+export type PriceSource = 'public' | 'tier' | 'negotiated' | 'markup'
+
+export interface ResolvedPrice {
+  price: number
+  source: PriceSource
+  price_list_id: string | null
+  price_list_name: string | null
+  markup?: number
+  tier?: ResolvedPriceTier
+}
+
+const PRICE_LIST_COLUMNS = 'id, name, description, valid_from, valid_until, is_active, created_at, price_list_items(id, product_id, category_id, price, markup)'
+
+/**
+ * Check whether a list applies on a date
+ */
+export function isPriceListApplicable(list: PriceList, date: string): boolean {
+  return list.is_active &&
+    (!list.valid_from || list.valid_from <= date) &&
+    (!list.valid_until || date <= list.valid_until)
+}
+
+/**
+ * Best price for a quantity of a product among its public price (or the
+ * volume tier the quantity reaches) and the applicable lists
+ * A product entry beats its category's markup within the same list; across
+ * lists the lowest price wins, and the catalog price wins ties.
+ */
+export function resolveProductPrice(
+  product: PricedProduct,
+  taxes: TaxConfiguration[],
+  lists: PriceList[],
+  date: string = getLocalDate(),
+  quantity: number = 1
+): ResolvedPrice {
+  const tier = resolvePriceTier(product.public_price, product.price_tiers ?? [], quantity)
+  let best: ResolvedPrice = tier.is_base
+    ? { price: product.public_price, source: 'public', price_list_id: null, price_list_name: null }
+    : { price: tier.price, source: 'tier', price_list_id: null, price_list_name: null, tier }
+
+  for (const list of lists.filter(list => isPriceListApplicable(list, date))) {
+    const productEntry = list.price_list_items.find(item => item.product_id === product.id)
+    const categoryEntry = product.category_id
+      ? list.price_list_items.find(item => item.category_id === product.category_id)
+      : undefined
+
+    let candidate: ResolvedPrice | null = null
+
+    if (productEntry?.price != null) {
+      candidate = {
+        price: Number(productEntry.price),
+        source: 'negotiated',
+        price_list_id: list.id,
+        price_list_name: list.name
+      }
+    } else if (categoryEntry?.markup != null && product.cost_price > 0) {
+      const markup = Number(categoryEntry.markup)
+      candidate = {
+        price: calculatePublicPrice(calculateBasePrice(product.cost_price, markup), taxes, product.tax_included),
+        source: 'markup',
+        price_list_id: list.id,
+        price_list_name: list.name,
+        markup
+      }
+    }
+
+    if (candidate && candidate.price < best.price) {
+      best = candidate
+    }
+  }
+
+  return best
+}
+
+/**
+ * Short description of where a price came from, e.g. "Hotel Riviera (negotiated)"
+ */
+export function formatPriceSource(resolved: ResolvedPrice): string {
+  switch (resolved.source) {
+    case 'tier':
+      return resolved.tier ? `Volume price (${formatTierRange(resolved.tier)})` : 'Volume price'
+    case 'negotiated':
+      return `${resolved.price_list_name} (negotiated)`
+    case 'markup':
+      return `${resolved.price_list_name} (cost + ${parseFloat(((resolved.markup ?? 0) * 100).toFixed(2))}%)`
+    default:
+      return 'Public price'
+  }
+}
+
+/**
+ * Validate a price list before saving it
+ */
+export function validatePriceList(input: PriceListInput): string[] {
+  const errors: string[] = []
+
+  if (!input.name.trim()) {
+    errors.push('Name is required')
+  }
+
+  if (input.valid_from && input.valid_until && input.valid_until < input.valid_from) {
+    errors.push('Valid until must not be before valid from')
+  }
+
+  const products = new Set<string>()
+  const categories = new Set<string>()
+
+  input.price_list_items.forEach((item, index) => {
+    const line = `Entry ${index + 1}`
+
+    if (!!item.product_id === !!item.category_id) {
+      errors.push(`${line}: choose either a product or a category`)
+    } else if (item.product_id) {
+      if (!(item.price != null && item.price > 0)) {
+        errors.push(`${line}: price must be positive`)
+      }
+      if (products.has(item.product_id)) {
+        errors.push(`${line}: product is listed more than once`)
+      }
+      products.add(item.product_id)
+    } else if (item.category_id) {
+      if (!(item.markup != null && item.markup >= 0)) {
+        errors.push(`${line}: markup cannot be negative`)
+      }
+      if (categories.has(item.category_id)) {
+        errors.push(`${line}: category is listed more than once`)
+      }
+      categories.add(item.category_id)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Get all price lists with their entries
+ */
+export async function getPriceLists(): Promise<PriceList[]> {
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('price_lists')
+      .select(PRICE_LIST_COLUMNS)
+      .order('name')
+
+    if (error || !data) {
+      console.error('Error fetching price lists:', error)
+      return []
+    }
+
+    return data as PriceList[]
+  } catch (error) {
+    console.error('Error fetching price lists:', error)
+    return []
+  }
+}
+
+/**
+ * Get the price lists assigned to a client company
+ */
+export async function getCompanyPriceLists(companyId: string): Promise<PriceList[]> {
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('company_price_lists')
+      .select(`price_lists(${PRICE_LIST_COLUMNS})`)
+      .eq('company_id', companyId)
+
+    if (error || !data) {
+      console.error('Error fetching company price lists:', error)
+      return []
+    }
+
+    return (data as Array<{ price_lists: PriceList | null }>)
+      .map(row => row.price_lists)
+      .filter((list): list is PriceList => !!list)
+  } catch (error) {
+    console.error('Error fetching company price lists:', error)
+    return []
+  }
+}
+
+/**
+ * Create or update a price list and replace its entries
+ */
+export async function savePriceList(
+  input: PriceListInput,
+  priceListId?: string
+): Promise<{
+  success: boolean
+  message: string
+  id?: string
+}> {
+  const errors = validatePriceList(input)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const header = {
+      name: input.name.trim(),
+      description: input.description || null,
+      valid_from: input.valid_from || null,
+      valid_until: input.valid_until || null,
+      is_active: input.is_active
+    }
+
+    let id = priceListId
+    if (id) {
+      const { error } = await supabase
+        .from('price_lists')
+        .update(header)
+        .eq('id', id)
+
+      if (error) {
+        return {
+          success: false,
+          message: 'Failed to update price list'
+        }
+      }
+    } else {
+      const { data: { user } } = await supabase.auth.getUser()
+      const { data, error } = await supabase
+        .from('price_lists')
+        .insert({ ...header, created_by: user?.id })
+        .select('id')
+        .single()
+
+      if (error || !data) {
+        return {
+          success: false,
+          message: 'Failed to create price list'
+        }
+      }
+      id = (data as { id: string }).id
+    }
+
+    const { error: itemsError } = await supabase.rpc('set_price_list_items', {
+      p_price_list_id: id,
+      p_items: input.price_list_items.map(item => ({
+        product_id: item.product_id,
+        category_id: item.category_id,
+        price: item.product_id ? item.price : null,
+        markup: item.category_id ? item.markup : null
+      }))
+    })
+
+    if (itemsError) {
+      return {
+        success: false,
+        message: 'Failed to save price list entries'
+      }
+    }
+
+    return {
+      success: true,
+      message: `Price list "${header.name}" saved`,
+      id
+    }
+  } catch (error) {
+    console.error('Error saving price list:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Replace the price lists a client company is quoted from
+ */
+export async function updateCompanyPriceLists(
+  companyId: string,
+  priceListIds: string[]
+): Promise<{
+  success: boolean
+  message: string
+}> {
+  const supabase = createClient()
+
+  try {
+    const { error } = await supabase.rpc('set_company_price_lists', {
+      p_company_id: companyId,
+      p_price_list_ids: priceListIds
+    })
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to update company price lists'
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Company price lists updated'
+    }
+  } catch (error) {
+    console.error('Error updating company price lists:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get a product's volume tiers, lowest break first
+ */
+export async function getProductPriceTiers(productId: string): Promise<PriceTier[]> {
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('product_price_tiers')
+      .select('min_quantity, price')
+      .eq('product_id', productId)
+      .order('min_quantity')
+
+    if (error || !data) {
+      console.error('Error fetching product price tiers:', error)
+      return []
+    }
+
+    return (data as PriceTier[]).map(tier => ({ min_quantity: tier.min_quantity, price: Number(tier.price) }))
+  } catch (error) {
+    console.error('Error fetching product price tiers:', error)
+    return []
+  }
+}
+
+/**
+ * Replace a product's volume tiers
+ */
+export async function updateProductPriceTiers(
+  productId: string,
+  publicPrice: number,
+  tiers: PriceTier[]
+): Promise<{
+  success: boolean
+  message: string
+}> {
+  const errors = validatePriceTiers(publicPrice, tiers)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const { error } = await supabase.rpc('set_product_price_tiers', {
+      p_product_id: productId,
+      p_tiers: tiers
+    })
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to update price tiers'
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Price tiers updated'
+    }
+  } catch (error) {
+    console.error('Error updating product price tiers:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
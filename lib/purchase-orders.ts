@@ -0,0 +1,717 @@
+/**
+ * Purchase Orders
+ * Ordering goods from suppliers, receiving them into stock and what the
+ * printed order shows
+ *
+ * A purchase order is drafted, sent to its supplier, received (in one or
+ * more deliveries) and closed; a draft or sent order can be cancelled, and a
+ * partially received one closed short when the rest is not coming. Receiving
+ * posts receipt movements to the inventory ledger at the order's unit costs
+ * and can carry those costs over to the products, all in one transaction
+ * (receive_purchase_order). Quantities are in the product's base unit and
+ * costs are per base unit, like cost_price, in the order's currency; orders
+ * in another currency than MXN freeze the day's exchange rate when saved and
+ * are received at their cost in MXN.
+ */
+
+import { createClient, type TypedSupabaseClient } from '@/lib/supabase'
+import { isSupportedCurrency, type CurrencyCode } from '@/lib/currency'
+import { getEffectiveExchangeRate } from '@/lib/exchange-rates'
+import { multiplyMoney, sumMoney } from '@/lib/money'
+import type { PurchaseOrderPDFData } from '@/lib/pdf'
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'sent'
+  | 'partially_received'
+  | 'received'
+  | 'closed'
+  | 'cancelled'
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  closed: 'Closed',
+  cancelled: 'Cancelled'
+}
+
+/**
+ * IVA charged on new purchase orders
+ */
+export const DEFAULT_PURCHASE_TAX_RATE = 0.16
+
+export interface PurchaseOrderStatusTransition {
+  from: PurchaseOrderStatus
+  to: PurchaseOrderStatus
+  isValid: boolean
+  reason?: string
+}
+
+export interface PurchaseOrderItem {
+  id: string
+  purchase_order_id: string
+  product_id: string
+  supplier_code: string | null
+  quantity: number
+  unit_cost: number
+  received_quantity: number
+  products: {
+    code: string
+    name: string
+    unit: string
+    bin_location: string | null
+  } | null
+}
+
+export interface PurchaseOrder {
+  id: string
+  folio: string
+  supplier_id: string
+  status: PurchaseOrderStatus
+  order_date: string
+  expected_date: string | null
+  currency: string
+  exchange_rate: number // MXN per unit of currency
+  tax_rate: number
+  subtotal: number
+  tax_amount: number
+  total: number
+  notes: string | null
+  sent_at: string | null
+  received_at: string | null
+  closed_at: string | null
+  created_at: string
+  updated_at: string
+  suppliers: {
+    name: string
+    rfc: string | null
+    contact_name: string | null
+    email: string | null
+    phone: string | null
+    address: string | null
+    payment_terms: string | null
+  } | null
+  purchase_order_items: PurchaseOrderItem[]
+}
+
+export interface PurchaseOrderLineInput {
+  product_id: string
+  supplier_code: string | null
+  quantity: number
+  unit_cost: number
+}
+
+export interface PurchaseOrderInput {
+  supplier_id: string
+  order_date: string // YYYY-MM-DD
+  expected_date: string | null // YYYY-MM-DD
+  currency: CurrencyCode
+  tax_rate: number
+  notes: string | null
+  items: PurchaseOrderLineInput[]
+}
+
+/**
+ * Goods received against one line, in base units
+ */
+export interface PurchaseOrderReceipt {
+  item_id: string
+  quantity: number
+}
+
+export interface ReceiveOptions {
+  updateCost?: boolean // Make the cost paid the products' cost_price
+  location?: string | null
+}
+
+/**
+ * Define valid purchase order status transitions
+ * Receiving moves a sent order to partially received or received; the other
+ * transitions are made by hand.
+ */
+const VALID_PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['partially_received', 'received', 'cancelled'],
+  partially_received: ['received', 'closed'],
+  received: ['closed'],
+  closed: [], // Final state - no transitions allowed
+  cancelled: [] // Final state - no transitions allowed
+}
+
+/**
+ * Statuses only receiving goods can set
+ */
+const RECEIVING_STATUSES: PurchaseOrderStatus[] = ['partially_received', 'received']
+
+const PURCHASE_ORDER_COLUMNS = `
+  id, folio, supplier_id, status, order_date, expected_date, currency, exchange_rate, tax_rate, subtotal, tax_amount, total, notes,
+  sent_at, received_at, closed_at, created_at, updated_at,
+  suppliers(name, rfc, contact_name, email, phone, address, payment_terms),
+  purchase_order_items(id, purchase_order_id, product_id, supplier_code, quantity, unit_cost, received_quantity,
+    products(code, name, unit, bin_location))
+`
+
+/**
+ * Validate if a purchase order status transition is allowed
+ */
+export function validatePurchaseOrderStatusTransition(
+  fromStatus: PurchaseOrderStatus,
+  toStatus: PurchaseOrderStatus
+): PurchaseOrderStatusTransition {
+  const validTransitions = VALID_PURCHASE_ORDER_TRANSITIONS[fromStatus] || []
+  const isValid = validTransitions.includes(toStatus)
+
+  let reason: string | undefined
+  if (!isValid) {
+    if (fromStatus === toStatus) {
+      reason = 'Status is already set to this value'
+    } else if (fromStatus === 'closed' || fromStatus === 'cancelled') {
+      reason = `Cannot change status of ${fromStatus} purchase orders`
+    } else {
+      reason = `Cannot transition from ${fromStatus} to ${toStatus}`
+    }
+  }
+
+  return {
+    from: fromStatus,
+    to: toStatus,
+    isValid,
+    reason
+  }
+}
+
+/**
+ * Get all valid next statuses for a given current purchase order status
+ */
+export function getValidNextPurchaseOrderStatuses(currentStatus: PurchaseOrderStatus): PurchaseOrderStatus[] {
+  return VALID_PURCHASE_ORDER_TRANSITIONS[currentStatus] || []
+}
+
+/**
+ * Statuses a purchase order can be moved to by hand
+ */
+export function getManualPurchaseOrderStatuses(currentStatus: PurchaseOrderStatus): PurchaseOrderStatus[] {
+  return getValidNextPurchaseOrderStatuses(currentStatus).filter(status => !RECEIVING_STATUSES.includes(status))
+}
+
+/**
+ * Whether goods can be received against an order in this status
+ */
+export function canReceivePurchaseOrder(status: PurchaseOrderStatus): boolean {
+  return status === 'sent' || status === 'partially_received'
+}
+
+/**
+ * Base units of a line still to be received
+ */
+export function getOutstandingQuantity(item: Pick<PurchaseOrderItem, 'quantity' | 'received_quantity'>): number {
+  return Math.max(item.quantity - item.received_quantity, 0)
+}
+
+/**
+ * Subtotal, tax and total of a purchase order's lines
+ */
+export function calculatePurchaseOrderTotals(
+  items: Pick<PurchaseOrderLineInput, 'quantity' | 'unit_cost'>[],
+  taxRate: number
+): { subtotal: number; tax_amount: number; total: number } {
+  const subtotal = sumMoney(items.map(item => multiplyMoney(item.unit_cost, item.quantity)))
+  const tax_amount = multiplyMoney(subtotal, taxRate)
+
+  return {
+    subtotal,
+    tax_amount,
+    total: sumMoney([subtotal, tax_amount])
+  }
+}
+
+/**
+ * Validate a purchase order before saving it
+ */
+export function validatePurchaseOrder(input: PurchaseOrderInput): string[] {
+  const errors: string[] = []
+
+  if (!input.supplier_id) {
+    errors.push('Supplier is required')
+  }
+
+  if (input.expected_date && input.expected_date < input.order_date) {
+    errors.push('Expected date must not be before the order date')
+  }
+
+  if (!(input.tax_rate >= 0)) {
+    errors.push('Tax rate cannot be negative')
+  }
+
+  if (input.items.length === 0) {
+    errors.push('Add at least one product')
+  }
+
+  const products = new Set<string>()
+
+  input.items.forEach((item, index) => {
+    const line = `Line ${index + 1}`
+
+    if (!item.product_id) {
+      errors.push(`${line}: choose a product`)
+    } else if (products.has(item.product_id)) {
+      errors.push(`${line}: product is listed more than once`)
+    }
+    products.add(item.product_id)
+
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      errors.push(`${line}: quantity must be a positive whole number`)
+    }
+    if (!(item.unit_cost >= 0)) {
+      errors.push(`${line}: unit cost cannot be negative`)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Check goods received against what is still outstanding on each line
+ */
+export function validateReceipts(
+  order: Pick<PurchaseOrder, 'status' | 'purchase_order_items'>,
+  receipts: PurchaseOrderReceipt[]
+): string[] {
+  if (!canReceivePurchaseOrder(order.status)) {
+    return ['Only sent purchase orders can be received']
+  }
+
+  const errors: string[] = []
+
+  for (const receipt of receipts) {
+    const item = order.purchase_order_items.find(entry => entry.id === receipt.item_id)
+    const name = item?.products?.name ?? 'Unknown product'
+
+    if (!item) {
+      errors.push(`${name}: not on this purchase order`)
+    } else if (!Number.isInteger(receipt.quantity) || receipt.quantity < 0) {
+      errors.push(`${name}: quantity must be a whole number`)
+    } else if (receipt.quantity > getOutstandingQuantity(item)) {
+      errors.push(`${name}: only ${getOutstandingQuantity(item)} ${item.products?.unit ?? ''} outstanding`.trimEnd())
+    }
+  }
+
+  if (errors.length === 0 && !receipts.some(receipt => receipt.quantity > 0)) {
+    errors.push('Enter the quantities received')
+  }
+
+  return errors
+}
+
+/**
+ * Map a purchase order to its printed form
+ */
+export function toPurchaseOrderPDFData(order: PurchaseOrder): PurchaseOrderPDFData {
+  const supplier = order.suppliers
+
+  return {
+    id: order.id,
+    folio: order.folio,
+    status: order.status,
+    createdAt: order.order_date,
+    expectedDate: order.expected_date ?? undefined,
+    supplier: {
+      id: order.supplier_id,
+      name: supplier?.name ?? '',
+      rfc: supplier?.rfc ?? '',
+      address: supplier?.address ?? '',
+      city: '',
+      state: '',
+      zip: '',
+      phone: supplier?.phone ?? '',
+      email: supplier?.email ?? '',
+      contactName: supplier?.contact_name ?? undefined
+    },
+    items: order.purchase_order_items.map(item => {
+      const subtotal = multiplyMoney(item.unit_cost, item.quantity)
+      const tax = multiplyMoney(subtotal, order.tax_rate)
+
+      return {
+        id: item.id,
+        productCode: item.supplier_code || item.products?.code || '',
+        productName: item.products?.name ?? '',
+        description: item.supplier_code && item.products ? `Código interno: ${item.products.code}` : undefined,
+        quantity: item.quantity,
+        unit: item.products?.unit,
+        unitPrice: item.unit_cost,
+        subtotal,
+        tax,
+        total: sumMoney([subtotal, tax])
+      }
+    }),
+    subtotal: order.subtotal,
+    tax: order.tax_amount,
+    taxBreakdown: order.tax_rate > 0
+      ? [{ code: 'IVA', name: 'IVA', kind: 'transferred', type: 'percentage', rate: order.tax_rate, base: order.subtotal, amount: order.tax_amount }]
+      : [],
+    total: order.total,
+    currency: isSupportedCurrency(order.currency) ? order.currency : 'MXN',
+    exchangeRate: order.currency === 'MXN' ? undefined : order.exchange_rate,
+    paymentTerms: supplier?.payment_terms ?? undefined,
+    notes: order.notes ?? undefined
+  }
+}
+
+/**
+ * Get purchase orders, newest first
+ */
+export async function getPurchaseOrders(
+  params: { status?: PurchaseOrderStatus } = {},
+  supabase: TypedSupabaseClient = createClient()
+): Promise<PurchaseOrder[]> {
+  try {
+    let query = supabase
+      .from('purchase_orders')
+      .select(PURCHASE_ORDER_COLUMNS)
+      .order('created_at', { ascending: false })
+
+    if (params.status) {
+      query = query.eq('status', params.status)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching purchase orders:', error)
+      return []
+    }
+
+    return (data ?? []) as unknown as PurchaseOrder[]
+  } catch (error) {
+    console.error('Error fetching purchase orders:', error)
+    return []
+  }
+}
+
+/**
+ * Get one purchase order, or null when it does not exist or is not visible
+ */
+export async function getPurchaseOrder(
+  supabase: TypedSupabaseClient,
+  purchaseOrderId: string
+): Promise<PurchaseOrder | null> {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select(PURCHASE_ORDER_COLUMNS)
+    .eq('id', purchaseOrderId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching purchase order:', error)
+    return null
+  }
+
+  return data as unknown as PurchaseOrder | null
+}
+
+/**
+ * Create a draft purchase order, or update a draft and replace its lines
+ */
+export async function savePurchaseOrder(
+  input: PurchaseOrderInput,
+  userId: string,
+  purchaseOrderId?: string
+): Promise<{
+  success: boolean
+  message: string
+  id?: string
+}> {
+  const errors = validatePurchaseOrder(input)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const exchangeRate = await getEffectiveExchangeRate(input.currency, input.order_date)
+  if (exchangeRate === null) {
+    return {
+      success: false,
+      message: `No ${input.currency} exchange rate in effect on ${input.order_date}`
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const header = {
+      supplier_id: input.supplier_id,
+      order_date: input.order_date,
+      expected_date: input.expected_date || null,
+      currency: input.currency,
+      exchange_rate: exchangeRate,
+      tax_rate: input.tax_rate,
+      notes: input.notes?.trim() || null,
+      ...calculatePurchaseOrderTotals(input.items, input.tax_rate)
+    }
+
+    let id = purchaseOrderId
+    if (id) {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .update({ ...header, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', 'draft')
+        .select('id')
+
+      if (error) {
+        return {
+          success: false,
+          message: 'Failed to update purchase order'
+        }
+      }
+      if (!data || data.length === 0) {
+        return {
+          success: false,
+          message: 'Only draft purchase orders can be edited'
+        }
+      }
+    } else {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .insert({ ...header, created_by: userId })
+        .select('id')
+        .single()
+
+      if (error || !data) {
+        return {
+          success: false,
+          message: 'Failed to create purchase order'
+        }
+      }
+      id = (data as { id: string }).id
+    }
+
+    const { error: itemsError } = await supabase.rpc('set_purchase_order_items', {
+      p_purchase_order_id: id,
+      p_items: input.items.map(item => ({
+        product_id: item.product_id,
+        supplier_code: item.supplier_code?.trim() || null,
+        quantity: item.quantity,
+        unit_cost: item.unit_cost
+      }))
+    })
+
+    if (itemsError) {
+      return {
+        success: false,
+        message: 'Failed to save purchase order lines'
+      }
+    }
+
+    return {
+      success: true,
+      message: purchaseOrderId ? 'Purchase order updated' : 'Purchase order created',
+      id
+    }
+  } catch (error) {
+    console.error('Error saving purchase order:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Send, cancel or close a purchase order
+ * Orders become partially received or received by receiving goods, see
+ * receivePurchaseOrder.
+ */
+export async function updatePurchaseOrderStatus(
+  purchaseOrderId: string,
+  newStatus: PurchaseOrderStatus
+): Promise<{
+  success: boolean
+  message: string
+}> {
+  if (RECEIVING_STATUSES.includes(newStatus)) {
+    return {
+      success: false,
+      message: 'Receive the goods to mark a purchase order received'
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const { data: order, error: fetchError } = await supabase
+      .from('purchase_orders')
+      .select('status, folio')
+      .eq('id', purchaseOrderId)
+      .single()
+
+    if (fetchError || !order) {
+      return {
+        success: false,
+        message: 'Failed to fetch purchase order'
+      }
+    }
+
+    const { status, folio } = order as { status: PurchaseOrderStatus; folio: string }
+    const transition = validatePurchaseOrderStatusTransition(status, newStatus)
+    if (!transition.isValid) {
+      return {
+        success: false,
+        message: transition.reason || 'Invalid status transition'
+      }
+    }
+
+    const now = new Date().toISOString()
+    const { error } = await supabase
+      .from('purchase_orders')
+      .update({
+        status: newStatus,
+        ...(newStatus === 'sent' ? { sent_at: now } : {}),
+        ...(newStatus === 'closed' ? { closed_at: now } : {}),
+        updated_at: now
+      })
+      .eq('id', purchaseOrderId)
+      .eq('status', status)
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to update purchase order status'
+      }
+    }
+
+    return {
+      success: true,
+      message: `Purchase order ${folio} is now ${PURCHASE_ORDER_STATUS_LABELS[newStatus].toLowerCase()}`
+    }
+  } catch (error) {
+    console.error('Error updating purchase order status:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Receive goods against a sent purchase order
+ * Posts a receipt movement per line received and moves the order to
+ * partially received or received, optionally making the cost paid the
+ * products' cost_price, all in one transaction.
+ */
+export async function receivePurchaseOrder(
+  order: Pick<PurchaseOrder, 'id' | 'status' | 'purchase_order_items'>,
+  receipts: PurchaseOrderReceipt[],
+  options: ReceiveOptions = {}
+): Promise<{
+  success: boolean
+  message: string
+  status?: PurchaseOrderStatus
+}> {
+  const errors = validateReceipts(order, receipts)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase.rpc('receive_purchase_order', {
+      p_purchase_order_id: order.id,
+      p_receipts: receipts.filter(receipt => receipt.quantity > 0),
+      p_update_cost: options.updateCost ?? false,
+      p_location: options.location?.trim() || null
+    })
+
+    if (error || !data) {
+      console.error('Error receiving purchase order:', error)
+      return {
+        success: false,
+        message: 'Failed to receive purchase order'
+      }
+    }
+
+    // The function reports business-rule failures in the same shape
+    return data as { success: boolean; message: string; status?: PurchaseOrderStatus }
+  } catch (error) {
+    console.error('Error receiving purchase order:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * When stock on order is expected, by product id; products with nothing on
+ * order or no expected date are left out
+ */
+export async function getRestockDates(
+  productIds: string[],
+  supabase: TypedSupabaseClient = createClient()
+): Promise<Record<string, string>> {
+  if (productIds.length === 0) {
+    return {}
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('product_restock_dates')
+      .select('product_id, expected_date')
+      .in('product_id', productIds)
+
+    if (error) {
+      console.error('Error fetching restock dates:', error)
+      return {}
+    }
+
+    return Object.fromEntries(
+      ((data ?? []) as Array<{ product_id: string; expected_date: string | null }>)
+        .filter(row => row.expected_date)
+        .map(row => [row.product_id, row.expected_date as string])
+    )
+  } catch (error) {
+    console.error('Error fetching restock dates:', error)
+    return {}
+  }
+}
+
+/**
+ * Units on sent orders not yet received, and units on draft orders, by
+ * product id; products on no open order are left out
+ */
+export async function getOnOrderQuantities(
+  productIds: string[],
+  supabase: TypedSupabaseClient = createClient()
+): Promise<Record<string, { on_order: number; drafted: number }>> {
+  if (productIds.length === 0) {
+    return {}
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('product_restock_dates')
+      .select('product_id, on_order, drafted')
+      .in('product_id', productIds)
+
+    if (error) {
+      console.error('Error fetching quantities on order:', error)
+      return {}
+    }
+
+    return Object.fromEntries(
+      ((data ?? []) as Array<{ product_id: string; on_order: number; drafted: number }>)
+        .map(row => [row.product_id, { on_order: row.on_order, drafted: row.drafted }])
+    )
+  } catch (error) {
+    console.error('Error fetching quantities on order:', error)
+    return {}
+  }
+}
@@ -0,0 +1,387 @@
+/**
+ * Quotation Templates
+ * Saved starting points for quotations, and copies of past quotations
+ *
+ * Templates and copies carry products, units and quantities, never prices:
+ * the create page prices their lines from the current catalog, so a quotation
+ * started from either is quoted at today's prices. compareSourceLines reports
+ * what changed since the source was saved.
+ */
+
+import { createClient } from '@/lib/supabase'
+import { formatCurrency, isSupportedCurrency, type CurrencyCode } from '@/lib/currency'
+import type { Discount, DiscountType } from '@/lib/calculations'
+
+/**
+ * A line of a template or of a quotation being copied
+ */
+export interface TemplateLine {
+  product_id: string
+  product_code: string
+  product_name: string
+  unit: string
+  quantity: number
+  discount: Discount | null
+  is_optional: boolean
+  alternative_group: string | null
+  expand_on_pdf: boolean
+  list_price?: number // Price as last quoted, only known when copying a quotation
+}
+
+export interface QuotationTemplate {
+  id: string
+  name: string
+  validity_days: number
+  terms: string | null
+  delivery_terms: string | null
+  payment_terms: string | null
+  items: TemplateLine[]
+  created_at: string
+}
+
+export type QuotationTemplateInput = Pick<QuotationTemplate, 'name' | 'validity_days' | 'terms' | 'delivery_terms' | 'payment_terms' | 'items'>
+
+/**
+ * A past quotation to start a new draft from
+ */
+export interface QuotationCopy extends Omit<QuotationTemplateInput, 'name'> {
+  folio: string
+  company_id: string
+  currency: CurrencyCode
+  discount: Discount | null // Document discount
+}
+
+/**
+ * How a line differs from its source after repricing
+ * unavailable: the product was deactivated or deleted and the line was left out
+ * unit: the product is no longer sold in the source unit
+ * price: the line's price is not what was last quoted
+ */
+export interface SourceLineChange {
+  product_code: string
+  product_name: string
+  change: 'unavailable' | 'unit' | 'price'
+  unit: string // Source unit
+  old_price: number | null
+  new_price: number | null
+}
+
+const TEMPLATE_COLUMNS = 'id, name, validity_days, terms, delivery_terms, payment_terms, items, created_at'
+
+/**
+ * Document item fields a copy is made from
+ */
+interface SourceItem {
+  product_id: string | null
+  product_code: string
+  product_name: string
+  unit: string
+  quantity: number
+  list_price: number
+  discount_type: DiscountType | null
+  discount_value: number
+  is_optional: boolean
+  alternative_group: string | null
+  expand_on_pdf: boolean
+}
+
+/**
+ * Lines of a past quotation, without lines for products that no longer exist
+ */
+export function toTemplateLines(items: SourceItem[]): TemplateLine[] {
+  return items.flatMap(item =>
+    item.product_id
+      ? [{
+          product_id: item.product_id,
+          product_code: item.product_code,
+          product_name: item.product_name,
+          unit: item.unit,
+          quantity: Number(item.quantity),
+          discount: item.discount_type && item.discount_value > 0
+            ? { type: item.discount_type, value: Number(item.discount_value) }
+            : null,
+          is_optional: item.is_optional ?? false,
+          alternative_group: item.alternative_group ?? null,
+          expand_on_pdf: item.expand_on_pdf ?? false,
+          list_price: Number(item.list_price)
+        }]
+      : []
+  )
+}
+
+/**
+ * Compare source lines with the lines priced from them
+ * Lines are matched by product, in order; a source line with no priced line
+ * is a product that can no longer be quoted.
+ */
+export function compareSourceLines(
+  source: TemplateLine[],
+  priced: Array<{ product_id: string; unit: string; list_price: number }>
+): SourceLineChange[] {
+  const remaining = [...priced]
+
+  return source.flatMap((line): SourceLineChange[] => {
+    const index = remaining.findIndex(item => item.product_id === line.product_id)
+    const base = {
+      product_code: line.product_code,
+      product_name: line.product_name,
+      unit: line.unit,
+      old_price: line.list_price ?? null
+    }
+
+    if (index === -1) {
+      return [{ ...base, change: 'unavailable', new_price: null }]
+    }
+
+    const [item] = remaining.splice(index, 1)
+
+    if (item.unit !== line.unit) {
+      return [{ ...base, change: 'unit', new_price: item.list_price }]
+    }
+    if (line.list_price !== undefined && item.list_price !== line.list_price) {
+      return [{ ...base, change: 'price', new_price: item.list_price }]
+    }
+
+    return []
+  })
+}
+
+/**
+ * One line of the report shown when a quotation starts from a source
+ */
+export function describeSourceLineChange(change: SourceLineChange, currency: CurrencyCode = 'MXN'): string {
+  const line = `${change.product_code} ${change.product_name}`
+
+  switch (change.change) {
+    case 'unavailable':
+      return `${line}: no longer available, left out`
+    case 'unit':
+      return `${line}: no longer sold by ${change.unit}, quoted in its base unit`
+    case 'price':
+      return change.old_price === null || change.new_price === null
+        ? `${line}: price changed`
+        : `${line}: ${formatCurrency(change.old_price, currency)} → ${formatCurrency(change.new_price, currency)}`
+  }
+}
+
+/**
+ * Validate a template before saving it
+ */
+export function validateQuotationTemplate(input: QuotationTemplateInput): string[] {
+  const errors: string[] = []
+
+  if (!input.name.trim()) {
+    errors.push('Template name is required')
+  }
+  if (!(Number.isInteger(input.validity_days) && input.validity_days > 0)) {
+    errors.push('Validity must be at least 1 day')
+  }
+  if (input.items.length === 0) {
+    errors.push('A template needs at least one line')
+  }
+
+  return errors
+}
+
+/**
+ * Get all quotation templates
+ */
+export async function getQuotationTemplates(): Promise<QuotationTemplate[]> {
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('quotation_templates')
+      .select(TEMPLATE_COLUMNS)
+      .order('name')
+
+    if (error || !data) {
+      console.error('Error fetching quotation templates:', error)
+      return []
+    }
+
+    return data as QuotationTemplate[]
+  } catch (error) {
+    console.error('Error fetching quotation templates:', error)
+    return []
+  }
+}
+
+/**
+ * Create or update a quotation template
+ * Prices are dropped from the lines; a template is always priced when used.
+ */
+export async function saveQuotationTemplate(
+  input: QuotationTemplateInput,
+  templateId?: string
+): Promise<{
+  success: boolean
+  message: string
+  id?: string
+}> {
+  const errors = validateQuotationTemplate(input)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const template = {
+      name: input.name.trim(),
+      validity_days: input.validity_days,
+      terms: input.terms || null,
+      delivery_terms: input.delivery_terms || null,
+      payment_terms: input.payment_terms || null,
+      items: input.items.map(line => ({ ...line, list_price: undefined }))
+    }
+
+    if (templateId) {
+      const { error } = await supabase
+        .from('quotation_templates')
+        .update({ ...template, updated_at: new Date().toISOString() })
+        .eq('id', templateId)
+
+      if (error) {
+        return {
+          success: false,
+          message: 'Failed to update template'
+        }
+      }
+
+      return {
+        success: true,
+        message: `Template "${template.name}" updated`,
+        id: templateId
+      }
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+    const { data, error } = await supabase
+      .from('quotation_templates')
+      .insert({ ...template, created_by: user?.id })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      return {
+        success: false,
+        message: error?.code === '23505'
+          ? `A template named "${template.name}" already exists`
+          : 'Failed to create template'
+      }
+    }
+
+    return {
+      success: true,
+      message: `Template "${template.name}" saved`,
+      id: (data as { id: string }).id
+    }
+  } catch (error) {
+    console.error('Error saving quotation template:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Delete a quotation template
+ */
+export async function deleteQuotationTemplate(templateId: string): Promise<{
+  success: boolean
+  message: string
+}> {
+  const supabase = createClient()
+
+  try {
+    const { error } = await supabase
+      .from('quotation_templates')
+      .delete()
+      .eq('id', templateId)
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to delete template'
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Template deleted'
+    }
+  } catch (error) {
+    console.error('Error deleting quotation template:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get a past quotation to copy into a new draft
+ */
+export async function getQuotationCopy(quotationId: string): Promise<QuotationCopy | null> {
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('documents')
+      .select(`
+        folio,
+        company_id,
+        currency,
+        discount_type,
+        discount_value,
+        validity_days,
+        terms,
+        delivery_terms,
+        payment_terms,
+        document_items(product_id, product_code, product_name, unit, quantity, list_price, discount_type, discount_value, is_optional, alternative_group, expand_on_pdf)
+      `)
+      .eq('id', quotationId)
+      .eq('type', 'quotation')
+      .single()
+
+    if (error || !data) {
+      console.error('Error fetching quotation to copy:', error)
+      return null
+    }
+
+    const quotation = data as {
+      folio: string
+      company_id: string
+      currency: string
+      discount_type: DiscountType | null
+      discount_value: number
+      validity_days: number
+      terms: string | null
+      delivery_terms: string | null
+      payment_terms: string | null
+      document_items: SourceItem[]
+    }
+
+    return {
+      folio: quotation.folio,
+      company_id: quotation.company_id,
+      currency: isSupportedCurrency(quotation.currency) ? quotation.currency : 'MXN',
+      discount: quotation.discount_type && quotation.discount_value > 0
+        ? { type: quotation.discount_type, value: Number(quotation.discount_value) }
+        : null,
+      validity_days: quotation.validity_days,
+      terms: quotation.terms,
+      delivery_terms: quotation.delivery_terms,
+      payment_terms: quotation.payment_terms,
+      items: toTemplateLines(quotation.document_items)
+    }
+  } catch (error) {
+    console.error('Error fetching quotation to copy:', error)
+    return null
+  }
+}
@@ -4,8 +4,7 @@
  */
 
 import { createClient } from '@/lib/supabase'
-import { updateQuotationStatus } from '@/lib/status-management'
-import { validatePreConversion, validateFolioUniqueness } from '@/lib/validation'
+import { validatePreConversion, type PreConversionOptions } from '@/lib/validation'
 
 export interface QuotationData {
   id: string
@@ -30,8 +29,13 @@ export interface QuotationItem {
   description: string
   quantity: number
   unit_price: number
-  discount_percentage: number
+  discount_type: 'percentage' | 'fixed_amount' | null
+  discount_value: number
+  discount_amount: number
   total: number
+  is_optional: boolean
+  alternative_group: string | null
+  is_selected: boolean
 }
 
 export interface OrderData {
@@ -57,7 +61,9 @@ export interface OrderItem {
   description: string
   quantity: number
   unit_price: number
-  discount_percentage: number
+  discount_type: 'percentage' | 'fixed_amount' | null
+  discount_value: number
+  discount_amount: number
   total: number
 }
 
@@ -67,105 +73,35 @@ export interface ConversionResult {
   orderId?: string
   orderFolio?: string
   error?: string
-}
-
-/**
- * Generate unique order folio with ORD-XXXXXXXX format using atomic transaction
- */
-async function generateOrderFolio(): Promise<string> {
-  const supabase = createClient()
-  
-  try {
-    // Use a database function to atomically generate next folio number
-    const { data, error } = await supabase
-      .rpc('get_next_order_folio')
-    
-    if (error) {
-      console.error('Error generating order folio via RPC:', error)
-      // Fallback: Use timestamp-based approach with retry logic
-      return await generateFolioWithRetry('ORD')
-    }
-    
-    if (data && typeof data === 'string') {
-      return data
-    }
-    
-    // If RPC doesn't return expected format, fallback
-    return await generateFolioWithRetry('ORD')
-  } catch (error) {
-    console.error('Error in atomic folio generation:', error)
-    return await generateFolioWithRetry('ORD')
-  }
-}
-
-/**
- * Fallback folio generation with retry logic to handle race conditions
- */
-async function generateFolioWithRetry(prefix: string, maxRetries = 5): Promise<string> {
-  const supabase = createClient()
-  
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      // Use current timestamp + random component for uniqueness
-      const timestamp = Date.now().toString().slice(-6)
-      const random = Math.floor(Math.random() * 100).toString().padStart(2, '0')
-      const folio = `${prefix}-${timestamp}${random}`
-      
-      // Check if this folio already exists
-      const { data: existing } = await supabase
-        .from('documents')
-        .select('id')
-        .eq('folio', folio)
-        .limit(1)
-      
-      if (!existing || existing.length === 0) {
-        return folio
-      }
-      
-      // If collision detected, wait a bit and retry
-      if (attempt < maxRetries) {
-        await new Promise(resolve => setTimeout(resolve, attempt * 10))
-        continue
-      }
-    } catch (error) {
-      console.error(`Folio generation attempt ${attempt} failed:`, error)
-    }
-  }
-  
-  // Final fallback - use millisecond timestamp with process ID-like suffix
-  return `${prefix}-${Date.now()}${Math.floor(Math.random() * 1000)}`
-}
-
-/**
- * Document item interface for type safety
- */
-interface DocumentItem {
-  id: string
-  document_id: string
-  product_id: string
-  description: string
-  quantity: number
-  unit_price: number
-  total_price: number
+  warnings?: string[] // E.g. lines converted with stock backordered
 }
 
 /**
  * Convert quotation to order with complete data integrity
+ *
+ * Folio allocation, the order header, the item copy, the quotation status
+ * change and both status_history rows run inside the
+ * convert_quotation_to_order database function, so a failure at any step
+ * leaves nothing behind. Lines the available stock cannot supply fail the
+ * conversion with STOCK_SHORTAGE unless they are backordered.
  */
 export async function convertQuotationToOrder(
   quotationId: string,
-  userId: string
+  userId: string,
+  options: PreConversionOptions = {}
 ): Promise<ConversionResult> {
   const supabase = createClient()
 
   try {
     // Comprehensive pre-conversion validation
-    const validation = await validatePreConversion(quotationId, userId)
+    const validation = await validatePreConversion(quotationId, userId, options)
     if (!validation.valid) {
+      // Failing on stock alone can be retried with allowBackorder
+      const isStockShortage = (validation.shortages?.length ?? 0) === validation.errors.length
       return {
         success: false,
         message: validation.errors.join('; '),
-        error: 'VALIDATION_FAILED'
+        error: isStockShortage ? 'STOCK_SHORTAGE' : 'VALIDATION_FAILED'
       }
     }
 
@@ -174,147 +110,23 @@ export async function convertQuotationToOrder(
       console.warn('Conversion warnings:', validation.warnings)
     }
 
-    // Fetch complete quotation data
-    const { data: quotation, error: quotationError } = await supabase
-      .from('documents')
-      .select(`
-        *,
-        document_items (*)
-      `)
-      .eq('id', quotationId)
-      .eq('type', 'quotation')
-      .single()
-
-    if (quotationError || !quotation) {
-      return {
-        success: false,
-        message: 'Quotation not found or could not be fetched',
-        error: 'QUOTATION_NOT_FOUND'
-      }
-    }
-
-    // Validate quotation status
-    if (quotation.quotation_status !== 'approved') {
-      return {
-        success: false,
-        message: 'Only approved quotations can be converted to orders',
-        error: 'INVALID_STATUS'
-      }
-    }
-
-    // Generate unique order folio
-    const orderFolio = await generateOrderFolio()
-    
-    // Validate folio uniqueness
-    const folioValidation = await validateFolioUniqueness(orderFolio, 'order')
-    if (!folioValidation.valid) {
-      return {
-        success: false,
-        message: `Folio generation failed: ${folioValidation.errors.join('; ')}`,
-        error: 'FOLIO_VALIDATION_FAILED'
-      }
-    }
-
-    // Start atomic transaction
-    const { data: order, error: orderError } = await supabase
-      .from('documents')
-      .insert({
-        folio: orderFolio,
-        type: 'order',
-        order_status: 'pending',
-        quotation_id: quotationId,
-        company_id: quotation.company_id,
-        issue_date: new Date().toISOString(),
-        subtotal: quotation.subtotal,
-        taxes: quotation.taxes,
-        total: quotation.total,
-        notes: quotation.notes,
-        created_by: userId
-      })
-      .select()
-      .single()
+    // Run the whole conversion as a single transaction
+    const { data, error } = await supabase.rpc('convert_quotation_to_order', {
+      p_quotation_id: quotationId,
+      p_user_id: userId
+    })
 
-    if (orderError || !order) {
+    if (error || !data) {
+      console.error('Error in conversion transaction:', error)
       return {
         success: false,
-        message: 'Failed to create order record',
-        error: 'ORDER_CREATION_FAILED'
+        message: 'Failed to convert quotation to order',
+        error: 'CONVERSION_FAILED'
       }
     }
 
-    // Copy quotation items to order items
-    if (quotation.document_items && quotation.document_items.length > 0) {
-      const orderItems = quotation.document_items.map((item: DocumentItem) => ({
-        document_id: order.id,
-        product_id: item.product_id,
-        description: item.description,
-        quantity: item.quantity,
-        unit_price: item.unit_price,
-        discount_percentage: item.discount_percentage,
-        total: item.total
-      }))
-
-      const { error: itemsError } = await supabase
-        .from('document_items')
-        .insert(orderItems)
-
-      if (itemsError) {
-        // Rollback: delete the created order
-        await supabase
-          .from('documents')
-          .delete()
-          .eq('id', order.id)
-
-        return {
-          success: false,
-          message: 'Failed to copy quotation items to order',
-          error: 'ITEMS_COPY_FAILED'
-        }
-      }
-    }
-
-    // Update quotation status to 'converted' with audit trail
-    const statusUpdateResult = await updateQuotationStatus(
-      quotationId,
-      'converted',
-      userId,
-      'Converted to order',
-      `Order created: ${orderFolio}`
-    )
-
-    if (!statusUpdateResult.success) {
-      // Rollback: delete the created order and items
-      await supabase
-        .from('documents')
-        .delete()
-        .eq('id', order.id)
-
-      return {
-        success: false,
-        message: 'Failed to update quotation status during conversion',
-        error: 'STATUS_UPDATE_FAILED'
-      }
-    }
-
-    // Create status history for new order
-    await supabase
-      .from('status_history')
-      .insert({
-        document_id: order.id,
-        status_type: 'order_status',
-        old_status: null,
-        new_status: 'pending',
-        changed_by: userId,
-        reason: 'Order created from quotation',
-        notes: `Converted from quotation: ${quotation.folio}`
-      })
-
-    return {
-      success: true,
-      message: `Order ${orderFolio} created successfully from quotation ${quotation.folio}`,
-      orderId: order.id,
-      orderFolio: orderFolio
-    }
+    // The function reports business-rule failures in the same shape
+    return { ...(data as ConversionResult), warnings: validation.warnings }
 
   } catch (error) {
     console.error('Error during quotation to order conversion:', error)
@@ -375,4 +187,293 @@ export async function getQuotationForConversion(
  */
 export function canConvertQuotation(quotationStatus: string): boolean {
   return quotationStatus === 'approved'
-}
\ No newline at end of file
+}
+
+export interface RevisionResult {
+  success: boolean
+  message: string
+  revisionId?: string
+  revisionFolio?: string
+  revision?: number
+  error?: string
+}
+
+/**
+ * Minimal shape needed to place a document in its revision chain
+ */
+export interface RevisionChainMember {
+  id: string
+  revision_root_id: string | null
+  revision: number
+  is_latest_revision: boolean
+}
+
+/**
+ * Statuses whose quotation was seen by the client and must be revised, not edited
+ */
+export const REVISABLE_STATUSES = ['generated', 'rejected'] as const
+
+/**
+ * Check if quotation can be revised (status and revision validation)
+ */
+export function canReviseQuotation(quotationStatus: string, isLatestRevision: boolean = true): boolean {
+  return isLatestRevision && (REVISABLE_STATUSES as readonly string[]).includes(quotationStatus)
+}
+
+/**
+ * Decide what "Edit" does for a quotation: drafts are edited in place,
+ * generated/rejected quotations get a new revision, everything else is read-only
+ */
+export function getQuotationEditAction(
+  quotationStatus: string,
+  isLatestRevision: boolean = true
+): 'edit' | 'revise' | 'none' {
+  if (!isLatestRevision) {
+    return 'none'
+  }
+  if (quotationStatus === 'draft') {
+    return 'edit'
+  }
+  return canReviseQuotation(quotationStatus) ? 'revise' : 'none'
+}
+
+/**
+ * Id of the first revision in a document's chain
+ */
+export function getRevisionRootId(document: Pick<RevisionChainMember, 'id' | 'revision_root_id'>): string {
+  return document.revision_root_id || document.id
+}
+
+/**
+ * Group documents by revision chain, each chain ordered newest revision first
+ */
+export function groupRevisionsByRoot<T extends RevisionChainMember>(documents: T[]): Record<string, T[]> {
+  const groups: Record<string, T[]> = {}
+
+  for (const document of documents) {
+    const rootId = getRevisionRootId(document)
+    if (!groups[rootId]) {
+      groups[rootId] = []
+    }
+    groups[rootId].push(document)
+  }
+
+  for (const rootId of Object.keys(groups)) {
+    groups[rootId].sort((a, b) => b.revision - a.revision)
+  }
+
+  return groups
+}
+
+/**
+ * Create the next revision of a generated or rejected quotation
+ *
+ * The create_quotation_revision database function copies the header and
+ * items into a new draft (COT-…-R2, -R3, …) and freezes the parent, all in
+ * one transaction.
+ */
+export async function createQuotationRevision(
+  quotationId: string,
+  userId: string
+): Promise<RevisionResult> {
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase.rpc('create_quotation_revision', {
+      p_quotation_id: quotationId,
+      p_user_id: userId
+    })
+
+    if (error || !data) {
+      console.error('Error creating quotation revision:', error)
+      return {
+        success: false,
+        message: 'Failed to create quotation revision',
+        error: 'REVISION_FAILED'
+      }
+    }
+
+    return data as RevisionResult
+  } catch (error) {
+    console.error('Error creating quotation revision:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred while creating the revision',
+      error: 'UNEXPECTED_ERROR'
+    }
+  }
+}
+
+/**
+ * Labels for groups of alternative lines ("option A or option B")
+ */
+export const ALTERNATIVE_GROUPS = ['A', 'B', 'C', 'D', 'E'] as const
+
+/**
+ * Fields that say whether a line is standard, optional or an alternative
+ */
+export interface LineOption {
+  id: string
+  is_optional: boolean
+  alternative_group: string | null
+}
+
+/**
+ * Check whether a line waits for the client to pick it
+ */
+export function isOptionLine(item: Pick<LineOption, 'is_optional' | 'alternative_group'>): boolean {
+  return item.is_optional || !!item.alternative_group
+}
+
+/**
+ * Alternative lines grouped by their group label, groups in label order
+ */
+export function groupAlternatives<T extends LineOption>(items: T[]): Array<{ group: string; items: T[] }> {
+  const groups = new Map<string, T[]>()
+
+  for (const item of items) {
+    if (item.alternative_group) {
+      groups.set(item.alternative_group, [...(groups.get(item.alternative_group) ?? []), item])
+    }
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([group, groupItems]) => ({ group, items: groupItems }))
+}
+
+/**
+ * Validate a client's picks: any optional lines, and exactly one line of
+ * every group of alternatives
+ */
+export function validateOptionSelection(items: LineOption[], selectedIds: string[]): string[] {
+  const errors: string[] = []
+  const selected = new Set(selectedIds)
+
+  for (const id of selectedIds) {
+    const item = items.find(line => line.id === id)
+    if (!item || !isOptionLine(item)) {
+      errors.push('Only optional and alternative lines can be chosen')
+      break
+    }
+  }
+
+  for (const { group, items: groupItems } of groupAlternatives(items)) {
+    const picked = groupItems.filter(item => selected.has(item.id)).length
+    if (picked === 0) {
+      errors.push(`Choose an option for alternative ${group}`)
+    } else if (picked > 1) {
+      errors.push(`Choose only one option for alternative ${group}`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Compare two saved values regardless of key order (jsonb reorders keys)
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || Array.isArray(a) !== Array.isArray(b)) {
+    return false
+  }
+
+  const left = a as Record<string, unknown>
+  const right = b as Record<string, unknown>
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)])
+  return Array.from(keys).every(key => isSameValue(left[key], right[key]))
+}
+
+/**
+ * Check whether a row about to be saved differs from its saved version
+ * Only the row's own fields are compared; saved-only columns (ids, dates) are ignored.
+ */
+export function hasRowChanged(row: object, saved: object | undefined): boolean {
+  if (!saved) {
+    return true
+  }
+  return Object.entries(row).some(([key, value]) => !isSameValue(value, (saved as Record<string, unknown>)[key]))
+}
+
+/**
+ * Changes that bring a draft's saved lines up to date with the builder
+ * Lines are matched by id: lines with no saved row are inserted, saved rows
+ * whose line was removed are deleted and only lines that changed are updated.
+ */
+export function diffQuotationItems<T extends object>(
+  saved: Record<string, object>,
+  current: Array<{ id: string; row: T }>
+): {
+  inserts: Array<{ id: string; row: T }>
+  updates: Array<{ id: string; row: T }>
+  deletes: string[]
+} {
+  const currentIds = new Set(current.map(line => line.id))
+
+  return {
+    inserts: current.filter(line => !(line.id in saved)),
+    updates: current.filter(line => line.id in saved && hasRowChanged(line.row, saved[line.id])),
+    deletes: Object.keys(saved).filter(id => !currentIds.has(id))
+  }
+}
+
+export interface DraftSaveResult {
+  success: boolean
+  message: string
+  itemIds?: string[] // Ids given to the inserted lines, in the order they were sent
+  error?: string
+}
+
+/**
+ * Save the changes to a draft quotation
+ *
+ * The save_quotation_draft database function locks the quotation and writes
+ * the header and lines in one transaction, and only while it is still a
+ * draft: a quotation sent or converted in the meantime is left untouched.
+ * Only admins may save, only the fields the builder edits are written and
+ * the header totals are added up from the lines.
+ */
+export async function saveQuotationDraft(
+  quotationId: string,
+  userId: string,
+  changes: {
+    document: object | null
+    inserts: object[]
+    updates: Array<{ id: string; row: object }>
+    deletes: string[]
+  }
+): Promise<DraftSaveResult> {
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase.rpc('save_quotation_draft', {
+      p_quotation_id: quotationId,
+      p_user_id: userId,
+      p_document: changes.document,
+      p_inserts: changes.inserts,
+      p_updates: changes.updates.map(({ id, row }) => ({ id, ...row })),
+      p_deletes: changes.deletes
+    })
+
+    if (error || !data) {
+      console.error('Error saving quotation draft:', error)
+      return {
+        success: false,
+        message: 'Failed to save quotation',
+        error: 'SAVE_FAILED'
+      }
+    }
+
+    return data as DraftSaveResult
+  } catch (error) {
+    console.error('Error saving quotation draft:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred while saving the quotation',
+      error: 'UNEXPECTED_ERROR'
+    }
+  }
+}
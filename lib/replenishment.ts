@@ -0,0 +1,337 @@
+/**
+ * Replenishment
+ * What to buy, from whom and how much, and turning it into purchase orders
+ *
+ * A product needs reordering when the stock it can count on (available plus
+ * what is on order, drafts included so nothing is ordered twice) no longer
+ * covers its minimum plus what it sells while a new order is on its way: its
+ * reorder point. It is then ordered up to the reorder point plus a few more
+ * days of sales. Sales velocity is the units
+ * shipped over a recent window, from the inventory ledger. Products are
+ * bought from their preferred supplier, or the cheapest one that sells them;
+ * products no active supplier sells are suggested without one.
+ */
+
+import { subDays } from 'date-fns'
+import { createClient, type TypedSupabaseClient } from '@/lib/supabase'
+import { getLocalDate } from '@/lib/exchange-rates'
+import { getStockLevels } from '@/lib/inventory'
+import { getExpectedDate, getLeadTime, getSuppliers, type Supplier, type SupplierProduct } from '@/lib/suppliers'
+import { DEFAULT_PURCHASE_TAX_RATE, getOnOrderQuantities, savePurchaseOrder } from '@/lib/purchase-orders'
+
+export interface ReorderOptions {
+  salesDays?: number // Window sales velocity is measured over
+  coverDays?: number // Days of sales to order beyond the reorder point
+}
+
+export const DEFAULT_SALES_DAYS = 90
+export const DEFAULT_COVER_DAYS = 30
+
+export interface ReorderProduct {
+  id: string
+  code: string
+  name: string
+  unit: string
+  cost_price: number
+  min_stock_level: number
+}
+
+export interface ReorderSuggestion {
+  product_id: string
+  code: string
+  name: string
+  unit: string
+  min_stock_level: number
+  on_hand: number
+  reserved: number
+  available: number
+  on_order: number
+  drafted: number
+  daily_sales: number
+  lead_time_days: number
+  reorder_point: number
+  quantity: number
+  supplier_id: string | null
+  supplier_name: string | null
+  supplier_code: string | null
+  unit_cost: number
+}
+
+/**
+ * What reordering a product takes into account
+ */
+export interface ReorderInput {
+  available: number
+  onOrder: number // Sent and draft orders alike
+  minStockLevel: number
+  dailySales: number
+  leadTimeDays: number
+  coverDays: number
+}
+
+/**
+ * Stock below which a product is reordered: its minimum plus what it sells
+ * while the order is on its way
+ */
+export function getReorderPoint(input: Pick<ReorderInput, 'minStockLevel' | 'dailySales' | 'leadTimeDays'>): number {
+  return input.minStockLevel + Math.ceil(input.dailySales * input.leadTimeDays)
+}
+
+/**
+ * Units to order of a product, 0 when it does not need reordering
+ * Products with no minimum and no sales are never reordered. An order is at
+ * least one unit, so a product sitting at its reorder point climbs above it.
+ */
+export function suggestReorderQuantity(input: ReorderInput): number {
+  if (input.minStockLevel <= 0 && input.dailySales <= 0) {
+    return 0
+  }
+
+  const reorderPoint = getReorderPoint(input)
+  const projected = input.available + input.onOrder
+  if (projected > reorderPoint) {
+    return 0
+  }
+
+  const target = reorderPoint + Math.ceil(input.dailySales * input.coverDays)
+  return Math.max(target - projected, 1)
+}
+
+/**
+ * The supplier a product is bought from: its preferred one, else the one
+ * that charges least
+ */
+export function pickSupplier(
+  productId: string,
+  suppliers: Supplier[]
+): { supplier: Supplier; supplierProduct: SupplierProduct } | null {
+  const options = suppliers.flatMap(supplier =>
+    supplier.supplier_products
+      .filter(item => item.product_id === productId)
+      .map(supplierProduct => ({ supplier, supplierProduct }))
+  )
+
+  if (options.length === 0) {
+    return null
+  }
+
+  return options.find(option => option.supplierProduct.is_preferred) ??
+    options.reduce((cheapest, option) => (option.supplierProduct.cost < cheapest.supplierProduct.cost ? option : cheapest))
+}
+
+/**
+ * Reorder suggestions for the products that need one, by supplier name and
+ * then product name; products without a supplier come last
+ *
+ * @param sold - Units shipped over the sales window, by product id
+ * @param onOrder - Units on sent and draft orders, by product id
+ */
+export function buildReorderSuggestions(
+  products: ReorderProduct[],
+  data: {
+    stock: Record<string, { on_hand: number; reserved: number; available: number }>
+    onOrder: Record<string, { on_order: number; drafted: number }>
+    sold: Record<string, number>
+    suppliers: Supplier[]
+  },
+  options: ReorderOptions = {}
+): ReorderSuggestion[] {
+  const salesDays = options.salesDays ?? DEFAULT_SALES_DAYS
+  const coverDays = options.coverDays ?? DEFAULT_COVER_DAYS
+
+  const suggestions: ReorderSuggestion[] = []
+
+  for (const product of products) {
+    const stock = data.stock[product.id] ?? { on_hand: 0, reserved: 0, available: 0 }
+    const onOrder = data.onOrder[product.id] ?? { on_order: 0, drafted: 0 }
+    const dailySales = (data.sold[product.id] ?? 0) / salesDays
+    const source = pickSupplier(product.id, data.suppliers)
+    const leadTimeDays = source ? getLeadTime(source.supplier, source.supplierProduct) : 0
+
+    const input = {
+      available: stock.available,
+      onOrder: onOrder.on_order + onOrder.drafted,
+      minStockLevel: product.min_stock_level,
+      dailySales,
+      leadTimeDays,
+      coverDays
+    }
+    const quantity = suggestReorderQuantity(input)
+    if (quantity === 0) continue
+
+    suggestions.push({
+      product_id: product.id,
+      code: product.code,
+      name: product.name,
+      unit: product.unit,
+      min_stock_level: product.min_stock_level,
+      on_hand: stock.on_hand,
+      reserved: stock.reserved,
+      available: stock.available,
+      on_order: onOrder.on_order,
+      drafted: onOrder.drafted,
+      daily_sales: dailySales,
+      lead_time_days: leadTimeDays,
+      reorder_point: getReorderPoint(input),
+      quantity,
+      supplier_id: source?.supplier.id ?? null,
+      supplier_name: source?.supplier.name ?? null,
+      supplier_code: source?.supplierProduct.supplier_code ?? null,
+      unit_cost: source?.supplierProduct.cost ?? product.cost_price
+    })
+  }
+
+  return suggestions.sort((a, b) => {
+    if (a.supplier_name !== b.supplier_name) {
+      if (a.supplier_name === null) return 1
+      if (b.supplier_name === null) return -1
+      return a.supplier_name.localeCompare(b.supplier_name)
+    }
+    return a.name.localeCompare(b.name)
+  })
+}
+
+/**
+ * Units of each product shipped since a date, by product id
+ */
+export async function getProductSales(
+  since: Date,
+  supabase: TypedSupabaseClient = createClient()
+): Promise<Record<string, number>> {
+  try {
+    const { data, error } = await supabase.rpc('product_sales', { p_since: since.toISOString() })
+
+    if (error) {
+      console.error('Error fetching product sales:', error)
+      return {}
+    }
+
+    return Object.fromEntries(
+      ((data ?? []) as Array<{ product_id: string; quantity: number }>)
+        .map(row => [row.product_id, row.quantity])
+    )
+  } catch (error) {
+    console.error('Error fetching product sales:', error)
+    return {}
+  }
+}
+
+/**
+ * Reorder suggestions for every active product that needs one
+ * Kits are left out: they are bought as their components.
+ */
+export async function getReorderSuggestions(
+  options: ReorderOptions = {},
+  supabase: TypedSupabaseClient = createClient()
+): Promise<ReorderSuggestion[]> {
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, code, name, unit, cost_price, min_stock_level')
+      .eq('is_active', true)
+      .eq('is_bundle', false)
+
+    if (error || !data) {
+      console.error('Error fetching products to reorder:', error)
+      return []
+    }
+
+    const products = data as ReorderProduct[]
+    const productIds = products.map(product => product.id)
+    const salesDays = options.salesDays ?? DEFAULT_SALES_DAYS
+
+    const [stock, onOrder, sold, suppliers] = await Promise.all([
+      getStockLevels(productIds, supabase),
+      getOnOrderQuantities(productIds, supabase),
+      getProductSales(subDays(new Date(), salesDays), supabase),
+      getSuppliers({ activeOnly: true }, supabase)
+    ])
+
+    return buildReorderSuggestions(products, { stock, onOrder, sold, suppliers }, options)
+  } catch (error) {
+    console.error('Error building reorder suggestions:', error)
+    return []
+  }
+}
+
+/**
+ * Draft one purchase order per supplier for the chosen suggestions, at the
+ * supplier's costs, in MXN and expected when the slowest product arrives
+ */
+export async function createReorderPurchaseOrders(
+  suggestions: ReorderSuggestion[],
+  userId: string
+): Promise<{
+  success: boolean
+  message: string
+  created: number
+}> {
+  if (suggestions.length === 0) {
+    return {
+      success: false,
+      message: 'Select the products to order',
+      created: 0
+    }
+  }
+
+  const unsourced = suggestions.filter(suggestion => !suggestion.supplier_id)
+  if (unsourced.length > 0) {
+    return {
+      success: false,
+      message: `No supplier sells ${unsourced.map(suggestion => suggestion.name).join(', ')}`,
+      created: 0
+    }
+  }
+
+  const bySupplier = new Map<string, ReorderSuggestion[]>()
+  for (const suggestion of suggestions) {
+    const supplierId = suggestion.supplier_id as string
+    bySupplier.set(supplierId, [...(bySupplier.get(supplierId) ?? []), suggestion])
+  }
+
+  const orderDate = getLocalDate()
+  const failures: string[] = []
+  let created = 0
+
+  for (const [supplierId, lines] of bySupplier) {
+    const result = await savePurchaseOrder(
+      {
+        supplier_id: supplierId,
+        order_date: orderDate,
+        expected_date: getExpectedDate(orderDate, Math.max(...lines.map(line => line.lead_time_days))),
+        currency: 'MXN',
+        tax_rate: DEFAULT_PURCHASE_TAX_RATE,
+        notes: null,
+        items: lines.map(line => ({
+          product_id: line.product_id,
+          supplier_code: line.supplier_code,
+          quantity: line.quantity,
+          unit_cost: line.unit_cost
+        }))
+      },
+      userId
+    )
+
+    if (result.success) {
+      created++
+    } else {
+      failures.push(`${lines[0].supplier_name}: ${result.message}`)
+    }
+  }
+
+  if (failures.length > 0) {
+    return {
+      success: false,
+      message: created > 0
+        ? `Created ${created} draft purchase orders; ${failures.join('; ')}`
+        : failures.join('; '),
+      created
+    }
+  }
+
+  return {
+    success: true,
+    message: created === 1 ? 'Created 1 draft purchase order' : `Created ${created} draft purchase orders`,
+    created
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * SAT Catalogs
+ * The entries of the SAT CFDI 4.0 catalogs we issue invoices with
+ *
+ * Only the keys a distributor like us uses are listed, so forms can offer
+ * them as options and invoices can be checked offline before stamping.
+ * Keys and descriptions are copied verbatim from the SAT catalogs
+ * (catCFDI); the register of a key is its legal meaning, not our wording.
+ */
+
+import type { TaxCode } from '@/lib/calculations'
+import { UNIT_MAPPING } from './units'
+import productKeys from '../data/sat/c_ClaveProdServ.json'
+import unitKeys from '../data/sat/c_ClaveUnidad.json'
+
+export type PersonType = 'fisica' | 'moral'
+
+export interface SATCatalogEntry {
+  key: string
+  description: string
+}
+
+const PRODUCT_KEY_PATTERN = /^[0-9]{8}$/
+const UNIT_KEY_PATTERN = /^[A-Z0-9]{1,3}$/
+
+/**
+ * Regímenes fiscales (c_RegimenFiscal)
+ */
+export const FISCAL_REGIMES: Record<string, string> = {
+  '601': 'General de Ley Personas Morales',
+  '603': 'Personas Morales con Fines no Lucrativos',
+  '605': 'Sueldos y Salarios e Ingresos Asimilados a Salarios',
+  '606': 'Arrendamiento',
+  '607': 'Régimen de Enajenación o Adquisición de Bienes',
+  '608': 'Demás ingresos',
+  '610': 'Residentes en el Extranjero sin Establecimiento Permanente en México',
+  '611': 'Ingresos por Dividendos (socios y accionistas)',
+  '612': 'Personas Físicas con Actividades Empresariales y Profesionales',
+  '614': 'Ingresos por intereses',
+  '615': 'Régimen de los ingresos por obtención de premios',
+  '616': 'Sin obligaciones fiscales',
+  '620': 'Sociedades Cooperativas de Producción que optan por diferir sus ingresos',
+  '621': 'Incorporación Fiscal',
+  '622': 'Actividades Agrícolas, Ganaderas, Silvícolas y Pesqueras',
+  '623': 'Opcional para Grupos de Sociedades',
+  '624': 'Coordinados',
+  '625': 'Régimen de las Actividades Empresariales con ingresos a través de Plataformas Tecnológicas',
+  '626': 'Régimen Simplificado de Confianza'
+}
+
+// Regimes open to each kind of taxpayer
+const REGIME_PERSON_TYPES: Record<string, PersonType[]> = {
+  '601': ['moral'],
+  '603': ['moral'],
+  '605': ['fisica'],
+  '606': ['fisica'],
+  '607': ['fisica'],
+  '608': ['fisica'],
+  '610': ['fisica', 'moral'],
+  '611': ['fisica'],
+  '612': ['fisica'],
+  '614': ['fisica'],
+  '615': ['fisica'],
+  '616': ['fisica'],
+  '620': ['moral'],
+  '621': ['fisica'],
+  '622': ['fisica', 'moral'],
+  '623': ['moral'],
+  '624': ['moral'],
+  '625': ['fisica'],
+  '626': ['fisica', 'moral']
+}
+
+/**
+ * Usos del CFDI (c_UsoCFDI)
+ * Deductions (D01-D10) are only for personas físicas.
+ */
+export const CFDI_USES: Record<string, string> = {
+  G01: 'Adquisición de mercancías',
+  G02: 'Devoluciones, descuentos o bonificaciones',
+  G03: 'Gastos en general',
+  I01: 'Construcciones',
+  I02: 'Mobiliario y equipo de oficina por inversiones',
+  I03: 'Equipo de transporte',
+  I04: 'Equipo de computo y accesorios',
+  I08: 'Otra maquinaria y equipo',
+  D01: 'Honorarios médicos, dentales y gastos hospitalarios',
+  D10: 'Pagos por servicios educativos (colegiaturas)',
+  S01: 'Sin efectos fiscales',
+  CP01: 'Pagos'
+}
+
+export const DEFAULT_CFDI_USE = 'G03'
+
+/**
+ * Formas de pago (c_FormaPago)
+ */
+export const PAYMENT_FORMS: Record<string, string> = {
+  '01': 'Efectivo',
+  '02': 'Cheque nominativo',
+  '03': 'Transferencia electrónica de fondos',
+  '04': 'Tarjeta de crédito',
+  '05': 'Monedero electrónico',
+  '06': 'Dinero electrónico',
+  '08': 'Vales de despensa',
+  '12': 'Dación en pago',
+  '13': 'Pago por subrogación',
+  '14': 'Pago por consignación',
+  '15': 'Condonación',
+  '17': 'Compensación',
+  '23': 'Novación',
+  '24': 'Confusión',
+  '25': 'Remisión de deuda',
+  '26': 'Prescripción o caducidad',
+  '27': 'A satisfacción del acreedor',
+  '28': 'Tarjeta de débito',
+  '29': 'Tarjeta de servicios',
+  '30': 'Aplicación de anticipos',
+  '31': 'Intermediario pagos',
+  '99': 'Por definir'
+}
+
+/**
+ * Métodos de pago (c_MetodoPago)
+ * PPD invoices are paid later, so their forma de pago is always 99.
+ */
+export const PAYMENT_METHODS: Record<string, string> = {
+  PUE: 'Pago en una sola exhibición',
+  PPD: 'Pago en parcialidades o diferido'
+}
+
+/**
+ * Motivos de cancelación
+ */
+export const CANCELLATION_REASONS: Record<string, string> = {
+  '01': 'Comprobante emitido con errores con relación',
+  '02': 'Comprobante emitido con errores sin relación',
+  '03': 'No se llevó a cabo la operación',
+  '04': 'Operación nominativa relacionada en una factura global'
+}
+
+/**
+ * Impuestos (c_Impuesto) for our tax codes
+ */
+export const SAT_TAX_KEYS: Record<TaxCode, string> = {
+  ISR: '001',
+  IVA: '002',
+  IEPS: '003'
+}
+
+/**
+ * Claves de productos y servicios (c_ClaveProdServ)
+ * The bundled copy in data/sat covers the segments our products fall under,
+ * so keys can be looked up offline. Keys outside it are still valid SAT keys;
+ * they only have no description here.
+ */
+export const PRODUCT_KEYS: Record<string, string> = productKeys
+
+/**
+ * Claves de unidad (c_ClaveUnidad), bundled like PRODUCT_KEYS
+ */
+export const MEASURE_UNITS: Record<string, string> = unitKeys
+
+/**
+ * Claves de unidad (c_ClaveUnidad) for the units products are sold in
+ */
+export const UNIT_KEYS: Record<string, { key: string; name: string }> = {
+  PIEZA: { key: 'H87', name: 'Pieza' },
+  KILO: { key: 'KGM', name: 'Kilogramo' },
+  LITRO: { key: 'LTR', name: 'Litro' },
+  METRO: { key: 'MTR', name: 'Metro' },
+  CAJA: { key: 'XBX', name: 'Caja' },
+  PAQUETE: { key: 'XPK', name: 'Paquete' },
+  LATA: { key: 'XCX', name: 'Lata' },
+  BOTELLA: { key: 'XBO', name: 'Botella' },
+  BOLSA: { key: 'XBG', name: 'Bolsa' },
+  ROLLO: { key: 'XRO', name: 'Rollo' },
+  GALON: { key: 'GLL', name: 'Galón' },
+  BIDON: { key: 'XJY', name: 'Bidón' }
+}
+
+/**
+ * The ClaveUnidad of a unit name as products and lines spell it, or null for
+ * units we have no key for
+ */
+export function getUnitKey(unit: string): string | null {
+  const name = unit?.trim().toUpperCase() || ''
+  return UNIT_KEYS[UNIT_MAPPING[name] ?? name]?.key ?? null
+}
+
+/**
+ * c_ClaveProdServ for goods with no key of their own
+ */
+export const GENERIC_PRODUCT_KEY = '01010101'
+
+/**
+ * RFC for sales to the general public (público en general)
+ */
+export const PUBLIC_RFC = 'XAXX010101000'
+
+/**
+ * Check the format of a ClaveProdServ: 8 digits
+ */
+export function isProductKey(key: string): boolean {
+  return PRODUCT_KEY_PATTERN.test(key)
+}
+
+/**
+ * Check the format of a ClaveUnidad: up to 3 capital letters or digits
+ */
+export function isUnitKey(key: string): boolean {
+  return UNIT_KEY_PATTERN.test(key)
+}
+
+// Lowercase without accents, so "jabon" finds "Jabones"
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+/**
+ * Search a catalog by key prefix or by the words of its descriptions
+ * Key matches come first, e.g. "5020" lists the beverages before any
+ * description that happens to contain those digits.
+ */
+export function searchSATCatalog(catalog: Record<string, string>, query: string, limit = 10): SATCatalogEntry[] {
+  const words = normalize(query).split(/\s+/).filter(Boolean)
+  if (words.length === 0) {
+    return []
+  }
+
+  const prefix = query.trim().toUpperCase()
+  const entries = Object.entries(catalog).map(([key, description]) => ({ key, description }))
+  const byKey = entries.filter(entry => entry.key.startsWith(prefix))
+  const byDescription = entries.filter(entry =>
+    !entry.key.startsWith(prefix) && words.every(word => normalize(entry.description).includes(word))
+  )
+
+  return [...byKey, ...byDescription].slice(0, limit)
+}
+
+/**
+ * Whether an RFC belongs to a persona física (13 characters) or moral (12)
+ */
+export function getPersonType(rfc: string): PersonType {
+  return rfc.trim().length === 12 ? 'moral' : 'fisica'
+}
+
+/**
+ * Check that a regime exists and applies to the RFC's kind of taxpayer
+ */
+export function isRegimeForRFC(regime: string, rfc: string): boolean {
+  return REGIME_PERSON_TYPES[regime]?.includes(getPersonType(rfc)) ?? false
+}
+
+/**
+ * Check that a CFDI use exists and applies to the RFC's kind of taxpayer
+ */
+export function isCFDIUseForRFC(use: string, rfc: string): boolean {
+  if (!(use in CFDI_USES)) {
+    return false
+  }
+  return !use.startsWith('D') || getPersonType(rfc) === 'fisica'
+}
@@ -0,0 +1,200 @@
+/**
+ * Product SAT Keys
+ * The ClaveProdServ and ClaveUnidad a product is invoiced with
+ *
+ * A product's own keys win; without them it takes its category's defaults.
+ * Its unit key is for its base unit (products.unit): lines sold in another
+ * unit, and products with no unit key at all, use the key of the line's unit
+ * (getUnitKey). A product left with no product key is invoiced under the
+ * generic 01010101, which is what the missing keys report is for.
+ */
+
+import { createClient, type TypedSupabaseClient } from './supabase'
+import { getUnitKey, isProductKey, isUnitKey } from './sat-catalogs'
+
+export interface SATKeys {
+  sat_product_key: string | null
+  sat_unit_key: string | null
+}
+
+/**
+ * A product with its keys and its category's defaults
+ */
+export interface SATKeyedProduct extends SATKeys {
+  unit: string
+  product_categories?: SATKeys | null
+}
+
+export type MissingSATKey = 'product' | 'unit'
+
+export interface ProductMissingSATKeys {
+  id: string
+  code: string
+  name: string
+  unit: string
+  category: string | null
+  missing: MissingSATKey[]
+}
+
+export interface SATKeysCategory extends SATKeys {
+  id: string
+  name: string
+}
+
+/**
+ * The keys a product is invoiced with when sold in a unit, its base unit by default
+ */
+export function resolveSATKeys(product: SATKeyedProduct, unit: string = product.unit): SATKeys {
+  const category = product.product_categories
+  const isBaseUnit = unit.trim().toUpperCase() === product.unit.trim().toUpperCase()
+
+  return {
+    sat_product_key: product.sat_product_key || category?.sat_product_key || null,
+    sat_unit_key: (isBaseUnit ? product.sat_unit_key || category?.sat_unit_key : null)
+      || getUnitKey(unit)
+  }
+}
+
+/**
+ * Which keys a product would be invoiced without
+ */
+export function getMissingSATKeys(product: SATKeyedProduct): MissingSATKey[] {
+  const keys = resolveSATKeys(product)
+  const missing: MissingSATKey[] = []
+
+  if (!keys.sat_product_key) {
+    missing.push('product')
+  }
+  if (!keys.sat_unit_key) {
+    missing.push('unit')
+  }
+
+  return missing
+}
+
+/**
+ * Check the format of keys entered by hand or imported; empty keys are allowed
+ */
+export function validateSATKeys(keys: Partial<SATKeys>): string[] {
+  const errors: string[] = []
+
+  if (keys.sat_product_key && !isProductKey(keys.sat_product_key)) {
+    errors.push(`SAT product key ${keys.sat_product_key} must have 8 digits`)
+  }
+  if (keys.sat_unit_key && !isUnitKey(keys.sat_unit_key)) {
+    errors.push(`SAT unit key ${keys.sat_unit_key} must be up to 3 capital letters or digits`)
+  }
+
+  return errors
+}
+
+/**
+ * Active products that would be invoiced without a key, by code
+ */
+export async function getProductsMissingSATKeys(
+  supabase: TypedSupabaseClient = createClient()
+): Promise<ProductMissingSATKeys[]> {
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, code, name, unit, sat_product_key, sat_unit_key, product_categories(category_name, sat_product_key, sat_unit_key)')
+      .eq('is_active', true)
+      .order('code')
+
+    if (error) {
+      console.error('Error fetching products:', error)
+      return []
+    }
+
+    const products = (data ?? []) as unknown as Array<SATKeyedProduct & {
+      id: string
+      code: string
+      name: string
+      product_categories: (SATKeys & { category_name: string }) | null
+    }>
+
+    return products
+      .map(product => ({
+        id: product.id,
+        code: product.code,
+        name: product.name,
+        unit: product.unit,
+        category: product.product_categories?.category_name ?? null,
+        missing: getMissingSATKeys(product)
+      }))
+      .filter(product => product.missing.length > 0)
+  } catch (error) {
+    console.error('Error fetching products:', error)
+    return []
+  }
+}
+
+/**
+ * Get categories with their default keys
+ */
+export async function getSATKeysCategories(
+  supabase: TypedSupabaseClient = createClient()
+): Promise<SATKeysCategory[]> {
+  const { data, error } = await supabase
+    .from('product_categories')
+    .select('id, category_name, sat_product_key, sat_unit_key')
+    .order('category_name')
+
+  if (error) {
+    console.error('Error fetching categories:', error)
+    return []
+  }
+
+  return (data ?? []).map((category: SATKeys & { id: string; category_name: string }) => ({
+    id: category.id,
+    name: category.category_name,
+    sat_product_key: category.sat_product_key,
+    sat_unit_key: category.sat_unit_key
+  }))
+}
+
+/**
+ * Save the default keys of a category
+ */
+export async function updateCategorySATKeys(categoryId: string, keys: SATKeys): Promise<{
+  success: boolean
+  message: string
+}> {
+  const errors = validateSATKeys(keys)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const { error } = await supabase
+      .from('product_categories')
+      .update({
+        sat_product_key: keys.sat_product_key || null,
+        sat_unit_key: keys.sat_unit_key || null
+      })
+      .eq('id', categoryId)
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to save category SAT keys'
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Category SAT keys saved'
+    }
+  } catch (error) {
+    console.error('Error saving category SAT keys:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
@@ -19,6 +19,8 @@ export const companySchema = z.object({
   phone: z.string().optional(),
   email: z.string().email('Invalid email format').optional().or(z.literal('')),
   website: z.string().url('Invalid website URL').optional().or(z.literal('')),
+  fiscal_regime: z.string().optional(), // c_RegimenFiscal, needed to invoice the client
+  cfdi_use: z.string().default('G03'), // Default uso CFDI on its invoices
   status: z.enum(['active', 'inactive', 'pending']).default('active')
 })
 
@@ -38,6 +40,8 @@ export const defaultCompanyValues: CompanyFormData = {
   phone: '',
   email: '',
   website: '',
+  fiscal_regime: '',
+  cfdi_use: 'G03',
   status: 'active',
 }
 
@@ -56,6 +60,7 @@ export function formatCompanyDataForDatabase(data: CompanyFormData, createdBy: s
     phone: data.phone || null,
     email: data.email || null,
     website: data.website || null,
+    fiscal_regime: data.fiscal_regime || null,
     created_by: createdBy,
   }
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * Calculation Settings
+ * Company-wide options for how quotation money is rounded
+ *
+ * The settings live in a single calculation_settings row. Documents store the
+ * amounts they were saved with, so changing a setting only affects documents
+ * calculated afterwards.
+ */
+
+import { createClient, type TypedSupabaseClient } from '@/lib/supabase'
+import {
+  DEFAULT_ROUNDING,
+  ROUNDING_MODES,
+  ROUNDING_SCOPES,
+  type RoundingConfig
+} from '@/lib/money'
+
+/**
+ * Validate rounding settings before saving them
+ */
+export function validateRoundingSettings(settings: RoundingConfig): string[] {
+  const errors: string[] = []
+
+  if (!ROUNDING_MODES.includes(settings.mode)) {
+    errors.push(`Rounding mode must be one of ${ROUNDING_MODES.join(', ')}`)
+  }
+
+  if (!ROUNDING_SCOPES.includes(settings.scope)) {
+    errors.push(`Rounding scope must be one of ${ROUNDING_SCOPES.join(', ')}`)
+  }
+
+  return errors
+}
+
+/**
+ * Get the rounding settings, falling back to half-even per line
+ */
+export async function getRoundingSettings(supabase: TypedSupabaseClient = createClient()): Promise<RoundingConfig> {
+
+  try {
+    const { data, error } = await supabase
+      .from('calculation_settings')
+      .select('rounding_mode, rounding_scope')
+      .maybeSingle()
+
+    if (error || !data) {
+      if (error) console.error('Error fetching rounding settings:', error)
+      return { ...DEFAULT_ROUNDING }
+    }
+
+    const row = data as { rounding_mode: RoundingConfig['mode']; rounding_scope: RoundingConfig['scope'] }
+    const settings = { mode: row.rounding_mode, scope: row.rounding_scope }
+    return validateRoundingSettings(settings).length === 0 ? settings : { ...DEFAULT_ROUNDING }
+  } catch (error) {
+    console.error('Error fetching rounding settings:', error)
+    return { ...DEFAULT_ROUNDING }
+  }
+}
+
+/**
+ * Update the rounding settings
+ */
+export async function updateRoundingSettings(settings: RoundingConfig): Promise<{
+  success: boolean
+  message: string
+}> {
+  const errors = validateRoundingSettings(settings)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const { error } = await supabase
+      .from('calculation_settings')
+      .update({ rounding_mode: settings.mode, rounding_scope: settings.scope })
+      .eq('id', true)
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to update rounding settings'
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Rounding settings updated'
+    }
+  } catch (error) {
+    console.error('Error updating rounding settings:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
@@ -111,7 +111,7 @@ export async function updateQuotationStatus(
     // Get current quotation data
     const { data: quotation, error: fetchError } = await supabase
       .from('documents')
-      .select('quotation_status, issue_date, validity_days')
+      .select('quotation_status, issue_date, validity_days, is_latest_revision')
       .eq('id', documentId)
       .eq('type', 'quotation')
       .single()
@@ -123,6 +123,14 @@ export async function updateQuotationStatus(
       }
     }
 
+    // Superseded revisions are frozen; only the latest one moves through the workflow
+    if (quotation.is_latest_revision === false) {
+      return {
+        success: false,
+        message: 'Cannot change status of a superseded revision'
+      }
+    }
+
     const currentStatus = quotation.quotation_status as QuotationStatus
     
     // Validate transition
@@ -258,6 +266,7 @@ export async function autoExpireQuotations(): Promise<{
       .from('documents')
       .select('id, folio, issue_date, validity_days')
       .eq('type', 'quotation')
+      .eq('is_latest_revision', true)
       .in('quotation_status', ['generated', 'under_review'])
 
     if (fetchError) {
@@ -1,5 +1,8 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import type { CurrencyCode } from '@/lib/currency'
+import type { Discount, LineTaxAmount, ResolvedPriceTier, TaxConfiguration } from '@/lib/calculations'
+import type { BundleComponent } from '@/lib/bundles'
 
 // User state
 interface User {
@@ -63,6 +66,7 @@ interface DashboardMetrics {
     folio: string
     companyName: string
     total: number
+    currency: CurrencyCode
     status: string
     createdAt: string
   }>
@@ -100,110 +104,148 @@ export const useDashboardStore = create<DashboardState>((set) => ({
 }))
 
 // Quotation form state
-interface QuotationItem {
-  id: string
-  productId: string
-  productCode: string
-  productName: string
-  unit: string
-  quantity: number
-  unitPrice: number
-  taxRate: number
-  taxAmount: number
-  subtotal: number
-  total: number
+// The quotation builder's working copy, kept in localStorage so changes that
+// were not saved survive navigating away. quotationId is null until the
+// quotation is created; isDirty is set by every change and cleared on save.
+export interface QuotationFormHeader {
+  company_id: string
+  contact_name: string
+  contact_email: string
+  contact_phone?: string
+  validity_days: number
+  terms: string
+  delivery_terms: string
+  payment_terms: string
 }
 
-interface QuotationFormState {
-  companyId: string
-  clientId: string
-  contactName: string
-  contactEmail: string
-  contactPhone: string
-  validityDays: number
-  terms: string
-  deliveryTerms: string
-  paymentTerms: string
-  items: QuotationItem[]
+export interface QuotationFormItem {
+  id: string // document_items.id once saved
+  product_id: string
+  product_code: string
+  product_name: string
+  unit: string // Unit the line is sold in
+  unit_factor: number // Base units per line unit
+  quantity: number
+  catalog_price: number // Catalog price in MXN, from the client's price lists when one applies
+  price_list_id: string | null
+  price_source: string // Where the catalog price came from, for display
+  price_tier: ResolvedPriceTier | null // Volume tier the catalog price comes from
+  bundle_components: BundleComponent[] | null // Per kit, null for plain products
+  expand_on_pdf: boolean // List a kit's components on the PDF
+  is_optional: boolean // Offered on top of the quotation, the client may take it
+  alternative_group: string | null // The client takes one line of each group
+  backorder: boolean // Quoted whole though stock is short; the rest ships when restocked
+  unavailable?: boolean // Product left the active catalog; the line is kept as quoted, read-only
+  catalog_taxes: TaxConfiguration[] // Product taxes with fixed amounts in MXN
+  list_price: number // Catalog price in the quotation currency, taxes included when tax_included
+  tax_included: boolean
+  unit_price: number // Net unit price
+  tax_rate: number
+  product_taxes: TaxConfiguration[]
+  discount: Discount | null
+  gross_amount: number
+  discount_amount: number
+  tax_amount: number
+  withholding_amount: number
+  taxes: LineTaxAmount[]
   subtotal: number
-  taxAmount: number
   total: number
-  setCompany: (companyId: string) => void
-  setClient: (clientId: string, contactName: string, contactEmail: string, contactPhone: string) => void
-  setTerms: (terms: string, deliveryTerms: string, paymentTerms: string) => void
-  addItem: (item: QuotationItem) => void
-  updateItem: (id: string, updates: Partial<QuotationItem>) => void
-  removeItem: (id: string) => void
-  calculateTotals: () => void
-  reset: () => void
 }
 
-export const useQuotationFormStore = create<QuotationFormState>((set, get) => ({
-  companyId: '',
-  clientId: '',
-  contactName: '',
-  contactEmail: '',
-  contactPhone: '',
-  validityDays: 30,
+export const QUOTATION_FORM_DEFAULTS: QuotationFormHeader = {
+  company_id: '',
+  contact_name: '',
+  contact_email: '',
+  contact_phone: '',
+  validity_days: 30,
   terms: 'Se entrega en el lugar y tiempo requerido por Ustedes PRECIO + IVA en productos determinados. MONEDA: PESOS MEXICANOS NO HAY DEVOLUCIONES NO HAY CANCELACIONES, DE SER ASÍ SE COBRA EL 25% ENTREGA GRATUITA EN SUS INSTALACIONES',
-  deliveryTerms: 'Plazo de entrega de 4 a 7 días hábiles',
-  paymentTerms: 'Contra entrega',
+  delivery_terms: 'Plazo de entrega de 4 a 7 días hábiles',
+  payment_terms: 'Contra entrega',
+}
+
+interface QuotationFormData {
+  quotationId: string | null
+  header: QuotationFormHeader
+  items: QuotationFormItem[]
+  documentDiscount: Discount | null
+  currency: CurrencyCode
+  exchangeRate: number
+}
+
+interface QuotationFormState extends QuotationFormData {
+  isDirty: boolean
+  updatedAt: string | null
+  setHeader: (header: QuotationFormHeader) => void
+  setItems: (items: QuotationFormItem[] | ((items: QuotationFormItem[]) => QuotationFormItem[])) => void
+  setDocumentDiscount: (discount: Discount | null) => void
+  setCurrency: (currency: CurrencyCode) => void
+  setExchangeRate: (exchangeRate: number) => void
+  load: (data: QuotationFormData) => void
+  markSaved: (quotationId: string, itemIds: Record<string, string>, savedVersion: string | null) => void
+  reset: (quotationId?: string | null) => void
+}
+
+const emptyQuotationForm = (quotationId: string | null = null) => ({
+  quotationId,
+  header: QUOTATION_FORM_DEFAULTS,
   items: [],
-  subtotal: 0,
-  taxAmount: 0,
-  total: 0,
-  
-  setCompany: (companyId) => set({ companyId }),
-  
-  setClient: (clientId, contactName, contactEmail, contactPhone) => 
-    set({ clientId, contactName, contactEmail, contactPhone }),
-  
-  setTerms: (terms, deliveryTerms, paymentTerms) => 
-    set({ terms, deliveryTerms, paymentTerms }),
-  
-  addItem: (item) => {
-    set((state) => ({ items: [...state.items, item] }))
-    get().calculateTotals()
-  },
-  
-  updateItem: (id, updates) => {
-    set((state) => ({
-      items: state.items.map((item) =>
-        item.id === id ? { ...item, ...updates } : item
-      ),
-    }))
-    get().calculateTotals()
-  },
-  
-  removeItem: (id) => {
-    set((state) => ({ items: state.items.filter((item) => item.id !== id) }))
-    get().calculateTotals()
-  },
-  
-  calculateTotals: () => {
-    const { items } = get()
-    const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0)
-    const taxAmount = items.reduce((sum, item) => sum + item.taxAmount, 0)
-    const total = subtotal + taxAmount
-    set({ subtotal, taxAmount, total })
-  },
-  
-  reset: () => set({
-    companyId: '',
-    clientId: '',
-    contactName: '',
-    contactEmail: '',
-    contactPhone: '',
-    validityDays: 30,
-    terms: 'Se entrega en el lugar y tiempo requerido por Ustedes PRECIO + IVA en productos determinados. MONEDA: PESOS MEXICANOS NO HAY DEVOLUCIONES NO HAY CANCELACIONES, DE SER ASÍ SE COBRA EL 25% ENTREGA GRATUITA EN SUS INSTALACIONES',
-    deliveryTerms: 'Plazo de entrega de 4 a 7 días hábiles',
-    paymentTerms: 'Contra entrega',
-    items: [],
-    subtotal: 0,
-    taxAmount: 0,
-    total: 0,
-  }),
-}))
+  documentDiscount: null,
+  currency: 'MXN' as CurrencyCode,
+  exchangeRate: 1,
+  isDirty: false,
+  updatedAt: null,
+})
+
+const changed = () => ({ isDirty: true, updatedAt: new Date().toISOString() })
+
+export const useQuotationFormStore = create<QuotationFormState>()(
+  persist(
+    (set) => ({
+      ...emptyQuotationForm(),
+
+      setHeader: (header) => set({ header, ...changed() }),
+
+      setItems: (items) =>
+        set((state) => ({
+          items: typeof items === 'function' ? items(state.items) : items,
+          ...changed(),
+        })),
+
+      setDocumentDiscount: (documentDiscount) => set({ documentDiscount, ...changed() }),
+
+      setCurrency: (currency) => set({ currency, ...changed() }),
+
+      setExchangeRate: (exchangeRate) => set({ exchangeRate, ...changed() }),
+
+      load: (data) => set({ ...data, isDirty: false, updatedAt: null }),
+
+      // New lines take the ids the database gave them; changes made while
+      // saving (after savedVersion) are still unsaved
+      markSaved: (quotationId, itemIds, savedVersion) =>
+        set((state) => ({
+          quotationId,
+          items: state.items.map((item) => (itemIds[item.id] ? { ...item, id: itemIds[item.id] } : item)),
+          isDirty: state.updatedAt !== savedVersion,
+        })),
+
+      reset: (quotationId = null) => set(emptyQuotationForm(quotationId)),
+    }),
+    {
+      name: 'quotation-form-storage',
+      partialize: (state) => ({
+        quotationId: state.quotationId,
+        header: state.header,
+        items: state.items,
+        documentDiscount: state.documentDiscount,
+        currency: state.currency,
+        exchangeRate: state.exchangeRate,
+        isDirty: state.isDirty,
+        updatedAt: state.updatedAt,
+      }),
+      skipHydration: true,
+    }
+  )
+)
 
 // Notification state
 interface Notification {
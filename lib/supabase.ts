@@ -50,6 +50,8 @@ export interface Database {
           email: string | null
           website: string | null
           logo_url: string | null
+          fiscal_regime: string | null
+          cfdi_use: string
           status: 'active' | 'inactive' | 'pending'
           created_at: string
           updated_at: string
@@ -67,6 +69,8 @@ export interface Database {
           email?: string | null
           website?: string | null
           logo_url?: string | null
+          fiscal_regime?: string | null
+          cfdi_use?: string
           status?: 'active' | 'inactive' | 'pending'
           created_by: string
         }
@@ -82,6 +86,8 @@ export interface Database {
           email?: string | null
           website?: string | null
           logo_url?: string | null
+          fiscal_regime?: string | null
+          cfdi_use?: string
           status?: 'active' | 'inactive' | 'pending'
         }
       }
@@ -94,6 +100,7 @@ export interface Database {
           category_id: string | null
           unit: string
           cost_price: number
+          average_cost: number | null
           profit_margin: number
           base_price: number
           public_price: number
@@ -101,6 +108,11 @@ export interface Database {
           tax_included: boolean
           stock_quantity: number
           min_stock_level: number
+          bin_location: string | null
+          sat_product_key: string | null
+          sat_unit_key: string | null
+          is_bundle: boolean
+          bundle_pricing: 'fixed' | 'sum'
           is_active: boolean
           created_at: string
           updated_at: string
@@ -120,6 +132,11 @@ export interface Database {
           tax_included?: boolean
           stock_quantity?: number
           min_stock_level?: number
+          bin_location?: string | null
+          sat_product_key?: string | null
+          sat_unit_key?: string | null
+          is_bundle?: boolean
+          bundle_pricing?: 'fixed' | 'sum'
           is_active?: boolean
           created_by: string
         }
@@ -137,6 +154,11 @@ export interface Database {
           tax_included?: boolean
           stock_quantity?: number
           min_stock_level?: number
+          bin_location?: string | null
+          sat_product_key?: string | null
+          sat_unit_key?: string | null
+          is_bundle?: boolean
+          bundle_pricing?: 'fixed' | 'sum'
           is_active?: boolean
         }
       }
@@ -159,16 +181,26 @@ export interface Database {
           quotation_status: 'draft' | 'generated' | 'in_review' | 'approved' | 'rejected' | 'expired' | 'converted' | null
           order_status: 'pending' | 'confirmed' | 'in_progress' | 'ready' | 'shipped' | 'delivered' | 'cancelled' | null
           delivery_status: 'preparing' | 'in_transit' | 'delivered' | 'failed' | null
+          discount_type: 'percentage' | 'fixed_amount' | null
+          discount_value: number
+          discount_amount: number
           subtotal: number
           tax_amount: number
+          withholding_amount: number
           total: number
+          currency: 'MXN' | 'USD'
+          exchange_rate: number // MXN per unit of currency, frozen at creation
           created_at: string
           updated_at: string
           created_by: string
           quotation_id: string | null
+          parent_id: string | null
+          revision_root_id: string | null
+          revision: number
+          is_latest_revision: boolean
         }
         Insert: {
-          folio: string
+          folio?: string // assigned by documents_assign_folio when omitted
           type: 'quotation' | 'order'
           company_id: string
           client_id: string
@@ -183,11 +215,21 @@ export interface Database {
           quotation_status?: 'draft' | 'generated' | 'in_review' | 'approved' | 'rejected' | 'expired' | 'converted' | null
           order_status?: 'pending' | 'confirmed' | 'in_progress' | 'ready' | 'shipped' | 'delivered' | 'cancelled' | null
           delivery_status?: 'preparing' | 'in_transit' | 'delivered' | 'failed' | null
+          discount_type?: 'percentage' | 'fixed_amount' | null
+          discount_value?: number
+          discount_amount?: number
           subtotal?: number
           tax_amount?: number
+          withholding_amount?: number
           total?: number
+          currency?: 'MXN' | 'USD'
+          exchange_rate?: number
           created_by: string
           quotation_id?: string | null
+          parent_id?: string | null
+          revision_root_id?: string | null
+          revision?: number
+          is_latest_revision?: boolean
         }
         Update: {
           folio?: string
@@ -205,6 +247,9 @@ export interface Database {
           quotation_status?: 'draft' | 'generated' | 'in_review' | 'approved' | 'rejected' | 'expired' | 'converted' | null
           order_status?: 'pending' | 'confirmed' | 'in_progress' | 'ready' | 'shipped' | 'delivered' | 'cancelled' | null
           delivery_status?: 'preparing' | 'in_transit' | 'delivered' | 'failed' | null
+          discount_type?: 'percentage' | 'fixed_amount' | null
+          discount_value?: number
+          discount_amount?: number
           subtotal?: number
           tax_amount?: number
           total?: number
@@ -234,11 +279,19 @@ export const createClient = () => {
   return createBrowserClient<Database>(supabaseUrl, supabaseAnonKey)
 }
 
+export type TypedSupabaseClient = ReturnType<typeof createClient>
+
+// Cookies a server client reads the session from, e.g. next/headers cookies()
+interface RequestCookies {
+  get(name: string): { value: string } | undefined
+}
+
 // Server-side Supabase client
-export const createSupabaseServerClient = () => {
+// Route handlers pass the request cookies to act as the signed-in user.
+export const createSupabaseServerClient = (cookieStore?: RequestCookies) => {
   return createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
     cookies: {
-      get() { return undefined },
+      get(name: string) { return cookieStore?.get(name)?.value },
       set() {},
       remove() {}
     }
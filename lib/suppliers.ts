@@ -0,0 +1,239 @@
+/**
+ * Suppliers
+ * Where goods come from: suppliers, what each charges for a product and how
+ * long it takes to deliver
+ *
+ * A supplier's cost for a product is per base unit, like cost_price. Its
+ * lead time is the supplier's own unless the product has one of its own with
+ * that supplier. A product can have one preferred supplier, which purchase
+ * orders and reorder suggestions default to.
+ */
+
+import { addDays, format } from 'date-fns'
+import { createClient, type TypedSupabaseClient } from '@/lib/supabase'
+import { validateRFC } from '@/lib/utils'
+
+export interface SupplierProduct {
+  id?: string
+  product_id: string
+  supplier_code: string | null
+  cost: number
+  lead_time_days: number | null // Overrides the supplier's lead time
+  is_preferred: boolean
+}
+
+export interface Supplier {
+  id: string
+  name: string
+  rfc: string | null
+  contact_name: string | null
+  email: string | null
+  phone: string | null
+  address: string | null
+  lead_time_days: number
+  payment_terms: string | null
+  notes: string | null
+  is_active: boolean
+  created_at: string
+  supplier_products: SupplierProduct[]
+}
+
+export type SupplierInput = Omit<Supplier, 'id' | 'created_at'>
+
+const SUPPLIER_COLUMNS = `
+  id, name, rfc, contact_name, email, phone, address, lead_time_days, payment_terms, notes, is_active, created_at,
+  supplier_products(id, product_id, supplier_code, cost, lead_time_days, is_preferred)
+`
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Days a supplier takes to deliver a product
+ */
+export function getLeadTime(
+  supplier: Pick<Supplier, 'lead_time_days'>,
+  supplierProduct?: Pick<SupplierProduct, 'lead_time_days'> | null
+): number {
+  return supplierProduct?.lead_time_days ?? supplier.lead_time_days
+}
+
+/**
+ * When goods ordered on a date arrive, as YYYY-MM-DD
+ *
+ * @param orderDate - YYYY-MM-DD
+ */
+export function getExpectedDate(orderDate: string, leadTimeDays: number): string {
+  return format(addDays(new Date(`${orderDate}T00:00:00`), leadTimeDays), 'yyyy-MM-dd')
+}
+
+/**
+ * Validate a supplier before saving it
+ */
+export function validateSupplier(input: SupplierInput): string[] {
+  const errors: string[] = []
+
+  if (!input.name.trim()) {
+    errors.push('Name is required')
+  }
+
+  if (input.rfc && !validateRFC(input.rfc.trim().toUpperCase())) {
+    errors.push('Invalid RFC format')
+  }
+
+  if (input.email && !EMAIL_PATTERN.test(input.email.trim())) {
+    errors.push('Invalid email address')
+  }
+
+  if (!Number.isInteger(input.lead_time_days) || input.lead_time_days < 0) {
+    errors.push('Lead time must be a whole number of days')
+  }
+
+  const products = new Set<string>()
+
+  input.supplier_products.forEach((item, index) => {
+    const line = `Product ${index + 1}`
+
+    if (!item.product_id) {
+      errors.push(`${line}: choose a product`)
+    } else if (products.has(item.product_id)) {
+      errors.push(`${line}: product is listed more than once`)
+    }
+    products.add(item.product_id)
+
+    if (!(item.cost >= 0)) {
+      errors.push(`${line}: cost cannot be negative`)
+    }
+    if (item.lead_time_days !== null && !(Number.isInteger(item.lead_time_days) && item.lead_time_days >= 0)) {
+      errors.push(`${line}: lead time must be a whole number of days`)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Get suppliers with the products they sell
+ */
+export async function getSuppliers(
+  params: { activeOnly?: boolean } = {},
+  supabase: TypedSupabaseClient = createClient()
+): Promise<Supplier[]> {
+  try {
+    let query = supabase
+      .from('suppliers')
+      .select(SUPPLIER_COLUMNS)
+      .order('name')
+
+    if (params.activeOnly) {
+      query = query.eq('is_active', true)
+    }
+
+    const { data, error } = await query
+
+    if (error || !data) {
+      console.error('Error fetching suppliers:', error)
+      return []
+    }
+
+    return data as unknown as Supplier[]
+  } catch (error) {
+    console.error('Error fetching suppliers:', error)
+    return []
+  }
+}
+
+/**
+ * Create or update a supplier and replace its product costs
+ */
+export async function saveSupplier(
+  input: SupplierInput,
+  supplierId?: string
+): Promise<{
+  success: boolean
+  message: string
+  id?: string
+}> {
+  const errors = validateSupplier(input)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const header = {
+      name: input.name.trim(),
+      rfc: input.rfc?.trim().toUpperCase() || null,
+      contact_name: input.contact_name?.trim() || null,
+      email: input.email?.trim() || null,
+      phone: input.phone?.trim() || null,
+      address: input.address?.trim() || null,
+      lead_time_days: input.lead_time_days,
+      payment_terms: input.payment_terms?.trim() || null,
+      notes: input.notes?.trim() || null,
+      is_active: input.is_active
+    }
+
+    let id = supplierId
+    if (id) {
+      const { error } = await supabase
+        .from('suppliers')
+        .update(header)
+        .eq('id', id)
+
+      if (error) {
+        return {
+          success: false,
+          message: 'Failed to update supplier'
+        }
+      }
+    } else {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .insert(header)
+        .select('id')
+        .single()
+
+      if (error || !data) {
+        return {
+          success: false,
+          message: 'Failed to create supplier'
+        }
+      }
+      id = (data as { id: string }).id
+    }
+
+    const { error: itemsError } = await supabase.rpc('set_supplier_products', {
+      p_supplier_id: id,
+      p_items: input.supplier_products.map(item => ({
+        product_id: item.product_id,
+        supplier_code: item.supplier_code?.trim() || null,
+        cost: item.cost,
+        lead_time_days: item.lead_time_days,
+        is_preferred: item.is_preferred
+      }))
+    })
+
+    if (itemsError) {
+      return {
+        success: false,
+        message: 'Failed to save supplier products'
+      }
+    }
+
+    return {
+      success: true,
+      message: `Supplier "${header.name}" saved`,
+      id
+    }
+  } catch (error) {
+    console.error('Error saving supplier:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
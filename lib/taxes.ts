@@ -0,0 +1,180 @@
+/**
+ * Tax Utilities
+ * Tax catalog access, product taxes and client withholdings
+ *
+ * The arithmetic lives in lib/calculations (calculateLineTaxes); this module
+ * only loads and stores which taxes apply to a product or client.
+ */
+
+import { createClient } from '@/lib/supabase'
+import type { TaxBreakdownEntry, TaxConfiguration, TaxKind } from '@/lib/calculations'
+
+export const TAX_COLUMNS = 'id, name, type, rate, amount, is_default, is_active, code, kind, apply_order, is_compound'
+
+/**
+ * Product row as returned with its tax joins
+ */
+export interface ProductTaxSource {
+  taxes?: TaxConfiguration | null
+  product_taxes?: Array<{ taxes: TaxConfiguration | null }> | null
+}
+
+/**
+ * Every tax configured for a product
+ * Falls back to the primary tax for products without product_taxes rows.
+ */
+export function getProductTaxConfigs(product: ProductTaxSource): TaxConfiguration[] {
+  const configured = (product.product_taxes ?? [])
+    .map(entry => entry.taxes)
+    .filter((tax): tax is TaxConfiguration => !!tax)
+
+  if (configured.length > 0) {
+    return configured
+  }
+
+  return product.taxes ? [product.taxes] : []
+}
+
+/**
+ * Short label for a tax line, e.g. "IVA 16%", "IEPS 26.5%", "Ret. ISR 10%"
+ */
+export function formatTaxLabel(entry: Pick<TaxBreakdownEntry, 'code' | 'kind' | 'type' | 'rate'>): string {
+  const prefix = entry.kind === 'withheld' ? 'Ret. ' : ''
+  const rate = entry.type === 'percentage'
+    ? `${parseFloat(((entry.rate ?? 0) * 100).toFixed(4))}%`
+    : '(cuota)'
+
+  return `${prefix}${entry.code} ${rate}`
+}
+
+/**
+ * Get active taxes, optionally only transferred or withheld ones
+ */
+export async function getTaxes(kind?: TaxKind): Promise<TaxConfiguration[]> {
+  const supabase = createClient()
+
+  try {
+    let query = supabase
+      .from('taxes')
+      .select(TAX_COLUMNS)
+      .eq('is_active', true)
+
+    if (kind) {
+      query = query.eq('kind', kind)
+    }
+
+    const { data, error } = await query.order('apply_order').order('name')
+
+    if (error || !data) {
+      console.error('Error fetching taxes:', error)
+      return []
+    }
+
+    return data as TaxConfiguration[]
+  } catch (error) {
+    console.error('Error fetching taxes:', error)
+    return []
+  }
+}
+
+/**
+ * Get the withholdings a client company requires
+ */
+export async function getCompanyWithholdings(companyId: string): Promise<TaxConfiguration[]> {
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('company_withholdings')
+      .select(`taxes(${TAX_COLUMNS})`)
+      .eq('company_id', companyId)
+
+    if (error || !data) {
+      console.error('Error fetching company withholdings:', error)
+      return []
+    }
+
+    return (data as Array<{ taxes: TaxConfiguration | null }>)
+      .map(row => row.taxes)
+      .filter((tax): tax is TaxConfiguration => !!tax && tax.is_active)
+  } catch (error) {
+    console.error('Error fetching company withholdings:', error)
+    return []
+  }
+}
+
+/**
+ * Replace the set of taxes a product carries
+ */
+export async function updateProductTaxes(
+  productId: string,
+  taxIds: string[]
+): Promise<{
+  success: boolean
+  message: string
+}> {
+  const supabase = createClient()
+
+  try {
+    const { error } = await supabase.rpc('set_product_taxes', {
+      p_product_id: productId,
+      p_tax_ids: taxIds
+    })
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to update product taxes'
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Product taxes updated'
+    }
+  } catch (error) {
+    console.error('Error updating product taxes:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Replace the withholdings a client company requires
+ */
+export async function updateCompanyWithholdings(
+  companyId: string,
+  taxIds: string[]
+): Promise<{
+  success: boolean
+  message: string
+}> {
+  const supabase = createClient()
+
+  try {
+    const { error } = await supabase.rpc('set_company_withholdings', {
+      p_company_id: companyId,
+      p_tax_ids: taxIds
+    })
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to update company withholdings'
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Company withholdings updated'
+    }
+  } catch (error) {
+    console.error('Error updating company withholdings:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
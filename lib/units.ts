@@ -0,0 +1,258 @@
+/**
+ * Unit of Measure Utilities
+ * Unit name normalization, and conversion between a product's base unit and
+ * the larger units it is also sold in
+ *
+ * Stock is counted in the base unit (products.unit). An alternate unit holds
+ * a whole number of base units, e.g. 1 CAJA = 24 PIEZA, and sells at its own
+ * price when it has one and at that many base units otherwise, whichever is
+ * lower. Prices are on the product's tax basis, like products.public_price.
+ */
+
+import { createClient } from './supabase'
+import { multiplyMoney } from './money'
+
+/**
+ * Units products are sold in, as normalized by cleanUnit
+ */
+export const UNITS = [
+  'PIEZA',
+  'KILO',
+  'LITRO',
+  'METRO',
+  'CAJA',
+  'PAQUETE',
+  'LATA',
+  'BOTELLA',
+  'BOLSA',
+  'ROLLO',
+  'GALON',
+  'BIDON'
+]
+
+/**
+ * Unit mapping for cleaning and normalizing unit names
+ */
+export const UNIT_MAPPING: Record<string, string> = {
+  'PIEZA': 'PIEZA',
+  'KILO': 'KILO', 
+  'KG': 'KILO',
+  'KILOGRAMO': 'KILO',
+  'KILOGRAMO NETO': 'KILO',
+  'BOTELLA': 'BOTELLA',
+  'CAJA': 'CAJA',
+  'PAQUETE': 'PAQUETE',
+  'ATADO': 'PAQUETE',
+  'LITRO': 'LITRO',
+  'LITROS': 'LITRO',
+  'CAJA CON 24 LATAS': 'CAJA',
+  'CAJA CON 12 BOTELLAS': 'CAJA',
+  'PAQUETE DE 12 PIEZAS': 'PAQUETE',
+  'PAQ. DE 6 LATAS': 'PAQUETE',
+  'PAQ. DE 12 LATAS': 'PAQUETE',
+  'PAQ DE 12 PIEZAS': 'PAQUETE',
+  'PAQUETE DE 24 BOTELLAS': 'PAQUETE',
+  'ROLLO': 'ROLLO',
+  'METRO': 'METRO',
+  'LATA': 'LATA',
+  'UNIDAD': 'PIEZA',
+  'Unidad': 'PIEZA',
+  'PIEZAS': 'PIEZA',
+  'GALÓN': 'GALON',
+  'GALON': 'GALON',
+  'BOLSA': 'BOLSA',
+  'BIDON': 'BIDON',
+  'MILILITRO': 'LITRO',
+  // Clean up malformed units
+  '': 'PIEZA',
+  'Prueba': 'PIEZA',
+  'PIEZA 250 GR': 'PIEZA',
+  'BOLSA 250 GR': 'BOLSA',
+  'BOTELLA 1 L.': 'BOTELLA',
+  'CAJA DE 6 PIEZAS 1.89 L.': 'CAJA',
+  'CAJA DE 6 PIEZAS 1 L.': 'CAJA',
+  'CAJA DE 6 PIEZAS': 'CAJA',
+  '12 PIEZAS': 'PAQUETE',
+  // Invalid categories that got into unit field
+  'PAPELERIA': 'PIEZA',
+  'BEBIDAS ALCOHOLICAS': 'PIEZA',
+  'BEBIDAS NO ALCOHOLICAS': 'PIEZA',
+  'INSUMOS PASTELERIA': 'PIEZA',
+  'INSUMOS PARA SPA': 'PIEZA',
+  'INSUMOS COCINA': 'PIEZA',
+  'BODY WASH': 'PIEZA',
+  'H87': 'PIEZA',
+  'C': 'PIEZA'
+}
+
+/**
+ * Clean and normalize a unit name
+ */
+export function cleanUnit(unit: string): string {
+  const cleaned = unit?.trim().toUpperCase() || ''
+  
+  if (UNIT_MAPPING[cleaned]) {
+    return UNIT_MAPPING[cleaned]
+  }
+  
+  console.warn(`⚠️  Unknown unit: "${cleaned}" -> mapped to PIEZA`)
+  return 'PIEZA'
+}
+
+export interface ProductUnit {
+  unit: string
+  factor: number // Base units in one of this unit
+  price: number | null // Own price; null for factor x the base unit price
+}
+
+/**
+ * Every unit a product sells in, base unit first, then by size
+ */
+export function getSellingUnits(baseUnit: string, units: ProductUnit[] | null | undefined): ProductUnit[] {
+  return [
+    { unit: baseUnit, factor: 1, price: null },
+    ...[...(units ?? [])].sort((a, b) => a.factor - b.factor)
+  ]
+}
+
+/**
+ * Quantity in base units, e.g. 2 CAJA of 24 = 48 PIEZA
+ */
+export function toBaseQuantity(quantity: number, factor: number): number {
+  return quantity * factor
+}
+
+/**
+ * Price of one unit given the price of one base unit
+ * The unit's own price only applies when it is the lower of the two.
+ */
+export function resolveUnitPrice(
+  baseUnitPrice: number,
+  unit: ProductUnit
+): {
+  price: number
+  is_unit_price: boolean
+} {
+  const converted = multiplyMoney(baseUnitPrice, unit.factor)
+
+  if (unit.price != null && Number(unit.price) < converted) {
+    return { price: Number(unit.price), is_unit_price: true }
+  }
+
+  return { price: converted, is_unit_price: false }
+}
+
+/**
+ * e.g. "1 CAJA = 24 PIEZA"
+ */
+export function formatUnitConversion(unit: Pick<ProductUnit, 'unit' | 'factor'>, baseUnit: string): string {
+  return `1 ${unit.unit} = ${unit.factor} ${baseUnit}`
+}
+
+/**
+ * Validate a product's alternate units before saving them
+ */
+export function validateProductUnits(baseUnit: string, units: ProductUnit[]): string[] {
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  units.forEach((item, index) => {
+    const line = `Unit ${index + 1}`
+
+    if (!item.unit) {
+      errors.push(`${line}: choose a unit`)
+      return
+    }
+    if (item.unit === baseUnit) {
+      errors.push(`${line}: must differ from the base unit`)
+    }
+    if (!(Number.isInteger(item.factor) && item.factor > 1)) {
+      errors.push(`${line}: must hold a whole number of base units above 1`)
+    }
+    if (item.price != null && !(item.price > 0)) {
+      errors.push(`${line}: price must be positive`)
+    }
+    if (seen.has(item.unit)) {
+      errors.push(`${line}: unit is listed more than once`)
+    }
+    seen.add(item.unit)
+  })
+
+  return errors
+}
+
+/**
+ * Get a product's alternate units, smallest first
+ */
+export async function getProductUnits(productId: string): Promise<ProductUnit[]> {
+  const supabase = createClient()
+
+  try {
+    const { data, error } = await supabase
+      .from('product_units')
+      .select('unit, factor, price')
+      .eq('product_id', productId)
+      .order('factor')
+
+    if (error || !data) {
+      console.error('Error fetching product units:', error)
+      return []
+    }
+
+    return (data as ProductUnit[]).map(item => ({
+      unit: item.unit,
+      factor: item.factor,
+      price: item.price == null ? null : Number(item.price)
+    }))
+  } catch (error) {
+    console.error('Error fetching product units:', error)
+    return []
+  }
+}
+
+/**
+ * Replace a product's alternate units
+ */
+export async function updateProductUnits(
+  productId: string,
+  baseUnit: string,
+  units: ProductUnit[]
+): Promise<{
+  success: boolean
+  message: string
+}> {
+  const errors = validateProductUnits(baseUnit, units)
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: errors.join('; ')
+    }
+  }
+
+  const supabase = createClient()
+
+  try {
+    const { error } = await supabase.rpc('set_product_units', {
+      p_product_id: productId,
+      p_units: units
+    })
+
+    if (error) {
+      return {
+        success: false,
+        message: 'Failed to update product units'
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Product units updated'
+    }
+  } catch (error) {
+    console.error('Error updating product units:', error)
+    return {
+      success: false,
+      message: 'An unexpected error occurred'
+    }
+  }
+}
@@ -7,11 +7,11 @@ export function cn(...inputs: ClassValue[]) {
 
 // Import calculation utilities
 import { roundToPesos } from './calculations'
-import { formatMXNCurrency } from './currency'
+import { formatCurrency as formatAmount, type CurrencyCode } from './currency'
 
-// Format currency for Mexican pesos (backward compatibility)
-export function formatCurrency(amount: number): string {
-  return formatMXNCurrency(amount)
+// Format currency, Mexican pesos unless told otherwise
+export function formatCurrency(amount: number, currency: CurrencyCode = 'MXN'): string {
+  return formatAmount(amount, currency)
 }
 
 // Format date
@@ -23,13 +23,6 @@ export function formatDate(date: string | Date): string {
   }).format(new Date(date))
 }
 
-// Generate folio
-export function generateFolio(type: 'quotation' | 'order'): string {
-  const prefix = type === 'quotation' ? 'COT' : 'ORD'
-  const timestamp = Date.now().toString(16).toUpperCase()
-  return `${prefix}-${timestamp.slice(-8)}`
-}
-
 // Calculate tax amount (backward compatibility)
 export function calculateTax(amount: number, taxRate: number): number {
   return roundToPesos(amount * taxRate)
@@ -6,6 +6,13 @@
 import { createClient } from '@/lib/supabase'
 import { QuotationStatus } from '@/lib/status-management'
 import { OrderStatus } from '@/lib/orders'
+import {
+  DEFAULT_FOLIO_SETTINGS,
+  FolioSettings,
+  describeFolioFormat,
+  isValidFolio
+} from '@/lib/folios'
+import { describeShortage, getLineAvailability, type AvailabilityLine } from '@/lib/availability'
 
 export interface ValidationResult {
   valid: boolean
@@ -13,6 +20,17 @@ export interface ValidationResult {
   warnings?: string[]
 }
 
+/**
+ * Pre-conversion result; shortages are the errors that come from stock
+ */
+export interface PreConversionResult extends ValidationResult {
+  shortages?: string[]
+}
+
+export interface PreConversionOptions {
+  allowBackorder?: boolean // Convert lines the stock cannot supply, backordering what is missing
+}
+
 /**
  * Validate quotation-to-order conversion constraints
  */
@@ -172,7 +190,8 @@ export function validateOrderStatusTransition(
  */
 export async function validateFolioUniqueness(
   folio: string,
-  documentType: 'quotation' | 'order'
+  documentType: 'quotation' | 'order',
+  settings: FolioSettings = DEFAULT_FOLIO_SETTINGS[documentType]
 ): Promise<ValidationResult> {
   const supabase = createClient()
   const errors: string[] = []
@@ -192,13 +211,9 @@ export async function validateFolioUniqueness(
     }
 
     // Validate folio format
-    const quotationPattern = /^COT-\d{8}$/
-    const orderPattern = /^ORD-\d{8}$/
-
-    if (documentType === 'quotation' && !quotationPattern.test(folio)) {
-      errors.push('Quotation folio must follow format COT-XXXXXXXX')
-    } else if (documentType === 'order' && !orderPattern.test(folio)) {
-      errors.push('Order folio must follow format ORD-XXXXXXXX')
+    if (!isValidFolio(folio, settings)) {
+      const label = documentType === 'quotation' ? 'Quotation' : 'Order'
+      errors.push(`${label} folio must follow format ${describeFolioFormat(settings)}`)
     }
 
   } catch (error) {
@@ -306,28 +321,79 @@ export async function validateDocumentDataIntegrity(
   }
 }
 
+/**
+ * Validate that available stock can supply a document's lines
+ * Short lines are errors unless they are backordered, on the line or for
+ * the whole document with allowBackorder; backordered ones are warnings.
+ * Option lines the client did not take are not checked.
+ */
+export async function validateStockAvailability(
+  documentId: string,
+  allowBackorder: boolean = false
+): Promise<ValidationResult> {
+  const supabase = createClient()
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  try {
+    const { data, error } = await supabase
+      .from('document_items')
+      .select('id, product_id, product_name, unit, unit_factor, quantity, bundle_components, backorder')
+      .eq('document_id', documentId)
+      .eq('is_selected', true)
+
+    if (error) {
+      warnings.push('Unable to verify stock availability')
+    } else {
+      const lines = ((data ?? []) as AvailabilityLine[])
+        .filter(line => line.product_id)
+        .map(line => ({ ...line, backorder: line.backorder || allowBackorder }))
+      const availability = await getLineAvailability(lines, supabase)
+
+      availability.forEach((line, index) => {
+        if (line.shortage > 0) {
+          (line.backorder ? warnings : errors).push(describeShortage(lines[index], line))
+        }
+      })
+    }
+  } catch (error) {
+    console.error('Error validating stock availability:', error)
+    warnings.push('Unable to verify stock availability')
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: warnings.length > 0 ? warnings : undefined
+  }
+}
+
 /**
  * Comprehensive pre-conversion validation
  */
 export async function validatePreConversion(
   quotationId: string,
-  userId: string
-): Promise<ValidationResult> {
+  userId: string,
+  options: PreConversionOptions = {}
+): Promise<PreConversionResult> {
   const errors: string[] = []
   const warnings: string[] = []
 
   // Run all validations
   const [
     conversionValidation,
-    dataIntegrityValidation
+    dataIntegrityValidation,
+    stockValidation
   ] = await Promise.all([
     validateQuotationConversion(quotationId, userId),
-    validateDocumentDataIntegrity(quotationId)
+    validateDocumentDataIntegrity(quotationId),
+    validateStockAvailability(quotationId, options.allowBackorder)
   ])
 
   // Combine results
   errors.push(...conversionValidation.errors)
   errors.push(...dataIntegrityValidation.errors)
+  errors.push(...stockValidation.errors)
 
   if (conversionValidation.warnings) {
     warnings.push(...conversionValidation.warnings)
@@ -335,10 +401,14 @@ export async function validatePreConversion(
   if (dataIntegrityValidation.warnings) {
     warnings.push(...dataIntegrityValidation.warnings)
   }
+  if (stockValidation.warnings) {
+    warnings.push(...stockValidation.warnings)
+  }
 
   return {
     valid: errors.length === 0,
     errors,
-    warnings: warnings.length > 0 ? warnings : undefined
+    warnings: warnings.length > 0 ? warnings : undefined,
+    shortages: stockValidation.errors
   }
 }
\ No newline at end of file
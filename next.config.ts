@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Starts its WebAssembly worker from its own files, so it is not bundled
+  serverExternalPackages: ["xmllint-wasm"],
   typescript: {
     ignoreBuildErrors: true,
   },
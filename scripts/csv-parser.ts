@@ -13,6 +13,8 @@ import {
   type RawProductData, 
   type CleanProductData 
 } from './data-cleanup'
+import { MEASURE_UNITS, PRODUCT_KEYS } from '../lib/sat-catalogs'
+import { validateSATKeys } from '../lib/sat-keys'
 
 // Import category mapping
 interface CategoryMapping {
@@ -43,6 +45,8 @@ export interface DatabaseReadyProduct {
   public_price: number
   tax_id: string | null
   tax_included: boolean
+  sat_product_key: string | null
+  sat_unit_key: string | null
   stock_quantity: number
   min_stock_level: number
   is_active: boolean
@@ -62,6 +66,7 @@ export interface ImportBatch {
     invalidCount: number
     duplicateCount: number
     categoriesCount: number
+    missingSATKeyCount: number
   }
 }
 
@@ -146,6 +151,8 @@ export class ProductCSVParser {
       public_price: Math.round(cleanProduct.publicPrice * 100) / 100,
       tax_id: cleanProduct.taxIncluded ? this.IVA_TAX_ID : null,
       tax_included: cleanProduct.taxIncluded,
+      sat_product_key: cleanProduct.satProductKey,
+      sat_unit_key: cleanProduct.satUnitKey,
       stock_quantity: this.DEFAULT_STOCK,
       min_stock_level: this.DEFAULT_MIN_STOCK,
       is_active: true
@@ -219,6 +226,20 @@ export class ProductCSVParser {
     
     // Step 2: Clean and validate data
     const cleanedData = rawData.map(cleanProductData)
+
+    // Step 2b: Check SAT keys; the database rejects malformed ones
+    cleanedData.forEach(product => {
+      const satErrors = validateSATKeys({ sat_product_key: product.satProductKey, sat_unit_key: product.satUnitKey })
+      if (satErrors.length > 0) {
+        product.errors.push(...satErrors)
+        product.isValid = false
+      } else if (
+        (product.satProductKey && !PRODUCT_KEYS[product.satProductKey]) ||
+        (product.satUnitKey && !MEASURE_UNITS[product.satUnitKey])
+      ) {
+        console.warn(`⚠️  ${product.code}: SAT keys not in the bundled catalog, check them with the SAT`)
+      }
+    })
     
     // Step 3: Generate cleanup report
     const cleanupReport = generateCleanupReport(rawData, cleanedData)
@@ -248,7 +269,9 @@ export class ProductCSVParser {
       validCount: validProducts.length,
       invalidCount: invalidProducts.length,
       duplicateCount: duplicateCodes.length,
-      categoriesCount: categoriesNeeded.length
+      categoriesCount: categoriesNeeded.length,
+      // Take their category's key, or are invoiced as 01010101 without one
+      missingSATKeyCount: validProducts.filter(p => !p.sat_product_key).length
     }
     
     console.log(`
@@ -259,6 +282,7 @@ export class ProductCSVParser {
 ❌ Invalid products: ${summary.invalidCount}  
 🔄 Duplicates found: ${summary.duplicateCount}
 📂 Categories to create: ${summary.categoriesCount}
+🧾 Without SAT product key: ${summary.missingSATKeyCount}
 
 📂 New categories needed:
 ${categoriesNeeded.map(cat => `   - ${cat}`).join('\n')}
@@ -293,9 +317,9 @@ ${categoriesNeeded.map(cat => `   - ${cat}`).join('\n')}
    * Export invalid products to CSV for review
    */
   exportInvalidProducts(invalidProducts: Array<{ data: CleanProductData; errors: string[] }>, outputPath: string): void {
-    const header = 'Code,Name,Category,Unit,CostPrice,PublicPrice,Errors\n'
+    const header = 'Code,Name,Category,Unit,CostPrice,PublicPrice,SATProductKey,SATUnitKey,Errors\n'
     const rows = invalidProducts.map(({ data, errors }) => 
-      `"${data.code}","${data.name}","${data.category}","${data.unit}",${data.costPrice},${data.publicPrice},"${errors.join('; ')}"`
+      `"${data.code}","${data.name}","${data.category}","${data.unit}",${data.costPrice},${data.publicPrice},"${data.satProductKey ?? ''}","${data.satUnitKey ?? ''}","${errors.join('; ')}"`
     ).join('\n')
     
     fs.writeFileSync(outputPath, header + rows)
@@ -3,6 +3,11 @@
  * Handles CSV parsing, data normalization, and validation
  */
 
+import { calculateNetPrice, createDefaultTaxConfig, roundToPesos } from '../lib/calculations'
+import { cleanUnit } from '../lib/units'
+
+export { UNIT_MAPPING, cleanUnit } from '../lib/units'
+
 export interface RawProductData {
   clave: string
   nombre: string
@@ -12,6 +17,8 @@ export interface RawProductData {
   iva: string
   ganancia: string
   precioPublico: string
+  claveSat?: string
+  claveUnidadSat?: string
 }
 
 export interface CleanProductData {
@@ -23,6 +30,8 @@ export interface CleanProductData {
   profitMargin: number
   publicPrice: number
   taxIncluded: boolean
+  satProductKey: string | null
+  satUnitKey: string | null
   isValid: boolean
   errors: string[]
 }
@@ -68,58 +77,6 @@ export const CATEGORY_MAPPING: Record<string, string> = {
   'Prueba': 'VARIOS'
 }
 
-/**
- * Unit mapping for cleaning and normalizing unit names
- */
-export const UNIT_MAPPING: Record<string, string> = {
-  'PIEZA': 'PIEZA',
-  'KILO': 'KILO', 
-  'KILOGRAMO': 'KILO',
-  'KILOGRAMO NETO': 'KILO',
-  'BOTELLA': 'BOTELLA',
-  'CAJA': 'CAJA',
-  'PAQUETE': 'PAQUETE',
-  'ATADO': 'PAQUETE',
-  'LITRO': 'LITRO',
-  'LITROS': 'LITRO',
-  'CAJA CON 24 LATAS': 'CAJA',
-  'CAJA CON 12 BOTELLAS': 'CAJA',
-  'PAQUETE DE 12 PIEZAS': 'PAQUETE',
-  'PAQ. DE 6 LATAS': 'PAQUETE',
-  'PAQ. DE 12 LATAS': 'PAQUETE',
-  'PAQ DE 12 PIEZAS': 'PAQUETE',
-  'PAQUETE DE 24 BOTELLAS': 'PAQUETE',
-  'ROLLO': 'ROLLO',
-  'UNIDAD': 'PIEZA',
-  'Unidad': 'PIEZA',
-  'PIEZAS': 'PIEZA',
-  'GALÓN': 'GALON',
-  'GALON': 'GALON',
-  'BOLSA': 'BOLSA',
-  'BIDON': 'BIDON',
-  'MILILITRO': 'LITRO',
-  // Clean up malformed units
-  '': 'PIEZA',
-  'Prueba': 'PIEZA',
-  'PIEZA 250 GR': 'PIEZA',
-  'BOLSA 250 GR': 'BOLSA',
-  'BOTELLA 1 L.': 'BOTELLA',
-  'CAJA DE 6 PIEZAS 1.89 L.': 'CAJA',
-  'CAJA DE 6 PIEZAS 1 L.': 'CAJA',
-  'CAJA DE 6 PIEZAS': 'CAJA',
-  '12 PIEZAS': 'PAQUETE',
-  // Invalid categories that got into unit field
-  'PAPELERIA': 'PIEZA',
-  'BEBIDAS ALCOHOLICAS': 'PIEZA',
-  'BEBIDAS NO ALCOHOLICAS': 'PIEZA',
-  'INSUMOS PASTELERIA': 'PIEZA',
-  'INSUMOS PARA SPA': 'PIEZA',
-  'INSUMOS COCINA': 'PIEZA',
-  'BODY WASH': 'PIEZA',
-  'H87': 'PIEZA',
-  'C': 'PIEZA'
-}
-
 /**
  * Clean and normalize a category name
  */
@@ -152,20 +109,6 @@ export function cleanCategory(category: string): string {
   return cleaned || 'VARIOS'
 }
 
-/**
- * Clean and normalize a unit name
- */
-export function cleanUnit(unit: string): string {
-  const cleaned = unit?.trim().toUpperCase() || ''
-  
-  if (UNIT_MAPPING[cleaned]) {
-    return UNIT_MAPPING[cleaned]
-  }
-  
-  console.warn(`⚠️  Unknown unit: "${cleaned}" -> mapped to PIEZA`)
-  return 'PIEZA'
-}
-
 /**
  * Parse and validate a numeric value from string
  */
@@ -202,12 +145,15 @@ export function calculateProfitMargin(costPrice: number, publicPrice: number): n
 
 /**
  * Validate IVA calculation
+ * Back-calculates the net price from the public price with the same engine
+ * the quotation builder uses, so an IVA-included row only passes when its
+ * net price and IVA add back up to the public price to the centavo.
  */
 export function validateIVACalculation(precio: number, precioPublico: number, ivaIncluded: boolean): boolean {
-  if (!ivaIncluded) return Math.abs(precio - precioPublico) < 0.01
-  
-  const expectedPublicPrice = precio * 1.16
-  return Math.abs(expectedPublicPrice - precioPublico) < 0.01
+  if (precio < 0 || precioPublico < 0) return false
+
+  const netPrice = calculateNetPrice(precioPublico, createDefaultTaxConfig(), ivaIncluded)
+  return roundToPesos(precio) === netPrice
 }
 
 /**
@@ -223,6 +169,8 @@ export function cleanProductData(raw: RawProductData): CleanProductData {
   const category = cleanCategory(raw.categoria)
   const unit = cleanUnit(raw.unidad)
   const taxIncluded = raw.iva?.trim().toLowerCase() === 'sí'
+  const satProductKey = raw.claveSat?.trim() || null
+  const satUnitKey = raw.claveUnidadSat?.trim().toUpperCase() || null
   
   // Validate required fields
   if (!code) {
@@ -284,6 +232,8 @@ export function cleanProductData(raw: RawProductData): CleanProductData {
     profitMargin,
     publicPrice,
     taxIncluded,
+    satProductKey,
+    satUnitKey,
     isValid,
     errors
   }
@@ -314,7 +264,9 @@ export function parseCSVContent(csvContent: string): RawProductData[] {
       precio: fields[4] || '0',
       iva: fields[5] || 'No',
       ganancia: fields[6] || '0', 
-      precioPublico: fields[7] || '0'
+      precioPublico: fields[7] || '0',
+      claveSat: fields[8] || '',
+      claveUnidadSat: fields[9] || ''
     }
   })
 }
@@ -19,6 +19,8 @@ if (!SUPABASE_SERVICE_KEY) {
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY)
 
+type ImportFailure = { product: DatabaseReadyProduct; error: any }
+
 export class ProductImporter {
   private parser: ProductCSVParser
   private BATCH_SIZE = 50 // Insert products in batches to avoid timeouts
@@ -91,16 +93,76 @@ export class ProductImporter {
     })
   }
 
+  /**
+   * Product columns for insertion
+   * Stock is left out: the inventory ledger sets stock_quantity from the
+   * opening balance recorded once the product exists
+   */
+  private toProductRow(product: DatabaseReadyProduct) {
+    return {
+      code: product.code,
+      name: product.name,
+      description: product.description,
+      category_id: product.category_id,
+      unit: product.unit,
+      cost_price: product.cost_price,
+      profit_margin: product.profit_margin,
+      base_price: product.base_price,
+      public_price: product.public_price,
+      tax_id: product.tax_id,
+      tax_included: product.tax_included,
+      sat_product_key: product.sat_product_key,
+      sat_unit_key: product.sat_unit_key,
+      min_stock_level: product.min_stock_level,
+      is_active: product.is_active
+    }
+  }
+
+  /**
+   * Record the imported stock as each product's opening balance
+   * Returns the products whose balance could not be recorded
+   */
+  private async recordOpeningBalances(
+    inserted: Array<{ id: string; code: string }>,
+    products: DatabaseReadyProduct[]
+  ): Promise<ImportFailure[]> {
+    const stocked = products.filter(product => product.stock_quantity !== 0)
+    if (stocked.length === 0) {
+      return []
+    }
+
+    const idByCode = new Map(inserted.map(row => [row.code, row.id]))
+    const { error } = await supabase
+      .from('inventory_movements')
+      .insert(stocked.map(product => ({
+        product_id: idByCode.get(product.code),
+        type: 'adjustment',
+        quantity: product.stock_quantity,
+        reference: 'OPENING',
+        notes: 'Opening balance'
+      })))
+
+    if (error) {
+      console.error(`❌ Failed to record opening stock for ${stocked.length} products:`, error.message)
+      return stocked.map(product => ({ product, error }))
+    }
+
+    console.log(`✅ Recorded opening stock for ${stocked.length} products`)
+    return []
+  }
+
   /**
    * Insert products in batches
    */
   async insertProducts(products: DatabaseReadyProduct[]): Promise<{
     successful: number
-    failed: Array<{ product: DatabaseReadyProduct; error: any }>
+    failed: ImportFailure[]
+    unrecordedStock: ImportFailure[]
   }> {
     console.log(`📦 Inserting ${products.length} products in batches of ${this.BATCH_SIZE}...`)
     
-    const failed: Array<{ product: DatabaseReadyProduct; error: any }> = []
+    const failed: ImportFailure[] = []
+    const unrecordedStock: ImportFailure[] = []
     let successful = 0
     
     // Process in batches
@@ -110,22 +172,7 @@ export class ProductImporter {
       
       try {
         // Prepare batch data for insertion
-        const insertData = batch.map(product => ({
-          code: product.code,
-          name: product.name,
-          description: product.description,
-          category_id: product.category_id,
-          unit: product.unit,
-          cost_price: product.cost_price,
-          profit_margin: product.profit_margin,
-          base_price: product.base_price,
-          public_price: product.public_price,
-          tax_id: product.tax_id,
-          tax_included: product.tax_included,
-          stock_quantity: product.stock_quantity,
-          min_stock_level: product.min_stock_level,
-          is_active: product.is_active
-        }))
+        const insertData = batch.map(product => this.toProductRow(product))
         
         const { data, error } = await supabase
           .from('products')
@@ -138,24 +185,11 @@ export class ProductImporter {
           
           for (const product of batch) {
             try {
-              const { error: individualError } = await supabase
+              const { data: inserted, error: individualError } = await supabase
                 .from('products')
-                .insert([{
-                  code: product.code,
-                  name: product.name,
-                  description: product.description,
-                  category_id: product.category_id,
-                  unit: product.unit,
-                  cost_price: product.cost_price,
-                  profit_margin: product.profit_margin,
-                  base_price: product.base_price,
-                  public_price: product.public_price,
-                  tax_id: product.tax_id,
-                  tax_included: product.tax_included,
-                  stock_quantity: product.stock_quantity,
-                  min_stock_level: product.min_stock_level,
-                  is_active: product.is_active
-                }])
+                .insert([this.toProductRow(product)])
+                .select('id, code')
+                .single()
               
               if (individualError) {
                 console.error(`❌ Failed to insert product ${product.code}:`, individualError.message)
@@ -163,6 +197,7 @@ export class ProductImporter {
               } else {
                 successful++
                 console.log(`✅ Inserted product: ${product.code}`)
+                unrecordedStock.push(...await this.recordOpeningBalances([inserted], [product]))
               }
             } catch (error) {
               console.error(`❌ Unexpected error inserting product ${product.code}:`, error)
@@ -172,6 +207,7 @@ export class ProductImporter {
         } else {
           successful += batch.length
           console.log(`✅ Batch inserted successfully: ${batch.length} products`)
+          unrecordedStock.push(...await this.recordOpeningBalances(data, batch))
         }
       } catch (error) {
         console.error('❌ Batch processing error:', error)
@@ -184,7 +220,7 @@ export class ProductImporter {
       }
     }
     
-    return { successful, failed }
+    return { successful, failed, unrecordedStock }
   }
 
   /**
@@ -192,7 +228,11 @@ export class ProductImporter {
    */
   private generateImportReport(
     batch: ImportBatch,
-    insertResults: { successful: number; failed: Array<{ product: DatabaseReadyProduct; error: any }> },
+    insertResults: {
+      successful: number
+      failed: ImportFailure[]
+      unrecordedStock: ImportFailure[]
+    },
     outputDir: string
   ): void {
     const reportPath = path.join(outputDir, `import-report-${Date.now()}.txt`)
@@ -230,6 +270,12 @@ ${batch.duplicateCodes.length > 0
   : 'None'
 }
 
+${insertResults.unrecordedStock.length > 0 ? `
+STOCK NOT RECORDED (imported with no stock on hand):
+${insertResults.unrecordedStock.map(({ product, error }) =>
+  `- ${product.code}: ${product.stock_quantity} (${error.message || error})`
+).join('\n')}
+` : ''}
 ${insertResults.failed.length > 0 ? `
 FAILED PRODUCTS:
 ${insertResults.failed.map(({ product, error }) => 
@@ -311,6 +357,10 @@ ${insertResults.failed.map(({ product, error }) =>
       console.log('\n🎉 IMPORT COMPLETE!')
       console.log(`✅ Successfully imported: ${insertResults.successful}/${batch.validProducts.length} products`)
       
+      if (insertResults.unrecordedStock.length > 0) {
+        console.log(`⚠️  Stock not recorded for ${insertResults.unrecordedStock.length} products, see the report`)
+      }
+
       if (insertResults.failed.length > 0) {
         console.log(`❌ Failed imports: ${insertResults.failed.length}`)
         console.log('📄 Check the failed products CSV for details')
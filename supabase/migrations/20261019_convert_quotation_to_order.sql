@@ -0,0 +1,139 @@
+-- Atomic quotation-to-order conversion
+-- Replaces the client-side insert/copy/update sequence in lib/quotations.ts,
+-- which could leave orphan orders behind when a later step failed.
+-- Everything below runs inside the caller's transaction: either the order,
+-- its items, the quotation status change and both history rows are written,
+-- or nothing is.
+
+-- Sequence backing ORD-XXXXXXXX folios
+CREATE SEQUENCE IF NOT EXISTS order_folio_seq START 1;
+
+CREATE OR REPLACE FUNCTION convert_quotation_to_order(
+    p_quotation_id UUID,
+    p_user_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_quotation documents%ROWTYPE;
+    v_existing_folio TEXT;
+    v_order_id UUID;
+    v_order_folio TEXT;
+BEGIN
+    -- Only the authenticated user may act as themselves
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Authentication failed - unauthorized user'
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = p_user_id AND users.role = 'admin'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Only admin users can convert quotations to orders'
+        );
+    END IF;
+
+    -- Lock the quotation so concurrent conversions serialize on it
+    SELECT * INTO v_quotation
+    FROM documents
+    WHERE id = p_quotation_id AND type = 'quotation'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'QUOTATION_NOT_FOUND',
+            'message', 'Quotation not found or could not be fetched'
+        );
+    END IF;
+
+    IF v_quotation.quotation_status IS DISTINCT FROM 'approved' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_STATUS',
+            'message', 'Only approved quotations can be converted to orders'
+        );
+    END IF;
+
+    SELECT folio INTO v_existing_folio
+    FROM documents
+    WHERE quotation_id = p_quotation_id AND type = 'order'
+    LIMIT 1;
+
+    IF v_existing_folio IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'ALREADY_CONVERTED',
+            'message', format('Order %s already exists for this quotation', v_existing_folio)
+        );
+    END IF;
+
+    BEGIN
+        v_order_folio := 'ORD-' || lpad(nextval('order_folio_seq')::TEXT, 8, '0');
+
+        -- Order header
+        INSERT INTO documents (
+            folio, type, order_status, quotation_id, company_id, client_id,
+            contact_name, contact_email, contact_phone, issue_date,
+            terms, delivery_terms, payment_terms,
+            subtotal, tax_amount, total, created_by
+        ) VALUES (
+            v_order_folio, 'order', 'pending', v_quotation.id, v_quotation.company_id, v_quotation.client_id,
+            v_quotation.contact_name, v_quotation.contact_email, v_quotation.contact_phone, now(),
+            v_quotation.terms, v_quotation.delivery_terms, v_quotation.payment_terms,
+            v_quotation.subtotal, v_quotation.tax_amount, v_quotation.total, p_user_id
+        )
+        RETURNING id INTO v_order_id;
+
+        -- Copy every line as-is, re-pointed at the new order
+        INSERT INTO document_items
+        SELECT (jsonb_populate_record(
+            NULL::document_items,
+            to_jsonb(di) || jsonb_build_object(
+                'id', gen_random_uuid(),
+                'document_id', v_order_id,
+                'created_at', now()
+            )
+        )).*
+        FROM document_items di
+        WHERE di.document_id = p_quotation_id;
+
+        UPDATE documents
+        SET quotation_status = 'converted'
+        WHERE id = p_quotation_id;
+
+        INSERT INTO status_history (
+            document_id, status_type, old_status, new_status, changed_by, reason, notes
+        ) VALUES
+            (p_quotation_id, 'quotation_status', 'approved', 'converted', p_user_id,
+             'Converted to order', format('Order created: %s', v_order_folio)),
+            (v_order_id, 'order_status', NULL, 'pending', p_user_id,
+             'Order created from quotation', format('Converted from quotation: %s', v_quotation.folio));
+    EXCEPTION
+        WHEN unique_violation THEN
+            -- The block's savepoint has already undone the partial writes
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'FOLIO_VALIDATION_FAILED',
+                'message', format('Folio generation failed: %s', SQLERRM)
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', format('Order %s created successfully from quotation %s', v_order_folio, v_quotation.folio),
+        'orderId', v_order_id,
+        'orderFolio', v_order_folio
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION convert_quotation_to_order(UUID, UUID) TO authenticated;
@@ -0,0 +1,251 @@
+-- Gap-free sequential folios per document type and year
+-- e.g. COT-2026-000123, ORD-2026-000045
+--
+-- A Postgres SEQUENCE is not transactional (nextval is never rolled back), so
+-- it leaves gaps whenever an insert fails. Instead each (type, year) pair has
+-- a counter row that is incremented inside the inserting transaction: the row
+-- lock serializes concurrent allocations and a rollback also rolls the
+-- counter back.
+
+-- Configurable prefix/padding per document type
+CREATE TABLE IF NOT EXISTS folio_settings (
+    document_type document_type PRIMARY KEY,
+    prefix TEXT NOT NULL CHECK (prefix ~ '^[A-Z]{2,10}$'),
+    padding INTEGER NOT NULL DEFAULT 6 CHECK (padding BETWEEN 1 AND 12),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO folio_settings (document_type, prefix, padding) VALUES
+    ('quotation', 'COT', 6),
+    ('order', 'ORD', 6)
+ON CONFLICT (document_type) DO NOTHING;
+
+-- Last number handed out per document type and year
+CREATE TABLE IF NOT EXISTS folio_counters (
+    document_type document_type NOT NULL,
+    year INTEGER NOT NULL,
+    last_value INTEGER NOT NULL DEFAULT 0 CHECK (last_value >= 0),
+    PRIMARY KEY (document_type, year)
+);
+
+ALTER TABLE folio_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE folio_counters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view folio settings" ON folio_settings;
+DROP POLICY IF EXISTS "Admins can update folio settings" ON folio_settings;
+DROP POLICY IF EXISTS "Admins can view folio counters" ON folio_counters;
+
+CREATE POLICY "Admins can view folio settings" ON folio_settings
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can update folio settings" ON folio_settings
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+-- Counters are only written through allocate_folio
+CREATE POLICY "Admins can view folio counters" ON folio_counters
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+-- Allocate the next folio. Must be called inside the transaction that uses it.
+CREATE OR REPLACE FUNCTION allocate_folio(
+    p_document_type document_type,
+    p_issue_date TIMESTAMPTZ DEFAULT now()
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_settings folio_settings%ROWTYPE;
+    v_year INTEGER := EXTRACT(YEAR FROM p_issue_date)::INTEGER;
+    v_next INTEGER;
+BEGIN
+    SELECT * INTO v_settings
+    FROM folio_settings
+    WHERE document_type = p_document_type;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No folio settings for document type %', p_document_type;
+    END IF;
+
+    INSERT INTO folio_counters (document_type, year, last_value)
+    VALUES (p_document_type, v_year, 1)
+    ON CONFLICT (document_type, year)
+    DO UPDATE SET last_value = folio_counters.last_value + 1
+    RETURNING last_value INTO v_next;
+
+    -- lpad truncates, so never pad a number that has outgrown the padding
+    RETURN v_settings.prefix || '-' || v_year || '-' ||
+        CASE
+            WHEN length(v_next::TEXT) >= v_settings.padding THEN v_next::TEXT
+            ELSE lpad(v_next::TEXT, v_settings.padding, '0')
+        END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION allocate_folio(document_type, TIMESTAMPTZ) FROM PUBLIC;
+
+-- Every document insert without an explicit folio gets the next one
+CREATE OR REPLACE FUNCTION assign_document_folio()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    NEW.folio := allocate_folio(NEW.type, COALESCE(NEW.issue_date::TIMESTAMPTZ, now()));
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS documents_assign_folio ON documents;
+
+CREATE TRIGGER documents_assign_folio
+    BEFORE INSERT ON documents
+    FOR EACH ROW
+    WHEN (NEW.folio IS NULL)
+    EXECUTE FUNCTION assign_document_folio();
+
+-- Conversion now takes its folio from the same allocator
+CREATE OR REPLACE FUNCTION convert_quotation_to_order(
+    p_quotation_id UUID,
+    p_user_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_quotation documents%ROWTYPE;
+    v_existing_folio TEXT;
+    v_order_id UUID;
+    v_order_folio TEXT;
+BEGIN
+    -- Only the authenticated user may act as themselves
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Authentication failed - unauthorized user'
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = p_user_id AND users.role = 'admin'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Only admin users can convert quotations to orders'
+        );
+    END IF;
+
+    -- Lock the quotation so concurrent conversions serialize on it
+    SELECT * INTO v_quotation
+    FROM documents
+    WHERE id = p_quotation_id AND type = 'quotation'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'QUOTATION_NOT_FOUND',
+            'message', 'Quotation not found or could not be fetched'
+        );
+    END IF;
+
+    IF v_quotation.quotation_status IS DISTINCT FROM 'approved' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_STATUS',
+            'message', 'Only approved quotations can be converted to orders'
+        );
+    END IF;
+
+    SELECT folio INTO v_existing_folio
+    FROM documents
+    WHERE quotation_id = p_quotation_id AND type = 'order'
+    LIMIT 1;
+
+    IF v_existing_folio IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'ALREADY_CONVERTED',
+            'message', format('Order %s already exists for this quotation', v_existing_folio)
+        );
+    END IF;
+
+    BEGIN
+        -- Order header; the folio comes from documents_assign_folio
+        INSERT INTO documents (
+            type, order_status, quotation_id, company_id, client_id,
+            contact_name, contact_email, contact_phone, issue_date,
+            terms, delivery_terms, payment_terms,
+            subtotal, tax_amount, total, created_by
+        ) VALUES (
+            'order', 'pending', v_quotation.id, v_quotation.company_id, v_quotation.client_id,
+            v_quotation.contact_name, v_quotation.contact_email, v_quotation.contact_phone, now(),
+            v_quotation.terms, v_quotation.delivery_terms, v_quotation.payment_terms,
+            v_quotation.subtotal, v_quotation.tax_amount, v_quotation.total, p_user_id
+        )
+        RETURNING id, folio INTO v_order_id, v_order_folio;
+
+        -- Copy every line as-is, re-pointed at the new order
+        INSERT INTO document_items
+        SELECT (jsonb_populate_record(
+            NULL::document_items,
+            to_jsonb(di) || jsonb_build_object(
+                'id', gen_random_uuid(),
+                'document_id', v_order_id,
+                'created_at', now()
+            )
+        )).*
+        FROM document_items di
+        WHERE di.document_id = p_quotation_id;
+
+        UPDATE documents
+        SET quotation_status = 'converted'
+        WHERE id = p_quotation_id;
+
+        INSERT INTO status_history (
+            document_id, status_type, old_status, new_status, changed_by, reason, notes
+        ) VALUES
+            (p_quotation_id, 'quotation_status', 'approved', 'converted', p_user_id,
+             'Converted to order', format('Order created: %s', v_order_folio)),
+            (v_order_id, 'order_status', NULL, 'pending', p_user_id,
+             'Order created from quotation', format('Converted from quotation: %s', v_quotation.folio));
+    EXCEPTION
+        WHEN unique_violation THEN
+            -- The block's savepoint has already undone the partial writes,
+            -- including the folio counter increment
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'FOLIO_VALIDATION_FAILED',
+                'message', format('Folio generation failed: %s', SQLERRM)
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', format('Order %s created successfully from quotation %s', v_order_folio, v_quotation.folio),
+        'orderId', v_order_id,
+        'orderFolio', v_order_folio
+    );
+END;
+$$;
+
+DROP SEQUENCE IF EXISTS order_folio_seq;
@@ -0,0 +1,226 @@
+-- Quotation revisions with immutable version history
+-- Editing a generated/rejected quotation creates a new revision
+-- (COT-2026-000123-R2, -R3, ...) linked to its parent. Every revision except
+-- the latest one is frozen so the document the client saw is never lost.
+
+ALTER TABLE documents
+    ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES documents(id) ON DELETE RESTRICT,
+    ADD COLUMN IF NOT EXISTS revision_root_id UUID REFERENCES documents(id) ON DELETE RESTRICT,
+    ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1 CHECK (revision >= 1),
+    ADD COLUMN IF NOT EXISTS is_latest_revision BOOLEAN NOT NULL DEFAULT true;
+
+-- A revision chain is identified by its root (revision 1, whose root id is NULL)
+CREATE UNIQUE INDEX IF NOT EXISTS documents_revision_root_revision_key
+    ON documents (revision_root_id, revision)
+    WHERE revision_root_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS documents_revision_root_id_idx
+    ON documents (revision_root_id);
+
+-- Superseded revisions are read-only. The only change allowed is flipping
+-- is_latest_revision back on when the revision that replaced it is deleted.
+CREATE OR REPLACE FUNCTION protect_superseded_revisions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF NOT OLD.is_latest_revision THEN
+            RAISE EXCEPTION 'Revision % has been superseded and cannot be deleted', OLD.folio
+                USING ERRCODE = 'check_violation';
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF NOT OLD.is_latest_revision
+        AND (to_jsonb(NEW) - 'is_latest_revision' - 'updated_at')
+            IS DISTINCT FROM (to_jsonb(OLD) - 'is_latest_revision' - 'updated_at')
+    THEN
+        RAISE EXCEPTION 'Revision % has been superseded and is read-only', OLD.folio
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS documents_protect_superseded ON documents;
+
+CREATE TRIGGER documents_protect_superseded
+    BEFORE UPDATE OR DELETE ON documents
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_superseded_revisions();
+
+CREATE OR REPLACE FUNCTION protect_superseded_revision_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_document_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.document_id ELSE NEW.document_id END;
+    v_folio TEXT;
+BEGIN
+    SELECT folio INTO v_folio
+    FROM documents
+    WHERE id = v_document_id AND NOT is_latest_revision;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Revision % has been superseded and its items are read-only', v_folio
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS document_items_protect_superseded ON document_items;
+
+CREATE TRIGGER document_items_protect_superseded
+    BEFORE INSERT OR UPDATE OR DELETE ON document_items
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_superseded_revision_items();
+
+-- Deleting the latest (draft) revision hands "latest" back to its parent
+CREATE OR REPLACE FUNCTION restore_parent_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF OLD.parent_id IS NOT NULL AND OLD.is_latest_revision THEN
+        UPDATE documents
+        SET is_latest_revision = true
+        WHERE id = OLD.parent_id;
+    END IF;
+
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS documents_restore_parent_revision ON documents;
+
+CREATE TRIGGER documents_restore_parent_revision
+    AFTER DELETE ON documents
+    FOR EACH ROW
+    EXECUTE FUNCTION restore_parent_revision();
+
+-- Create the next revision of a quotation as an editable draft
+CREATE OR REPLACE FUNCTION create_quotation_revision(
+    p_quotation_id UUID,
+    p_user_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_parent documents%ROWTYPE;
+    v_root_id UUID;
+    v_root_folio TEXT;
+    v_revision INTEGER;
+    v_revision_id UUID;
+    v_revision_folio TEXT;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Authentication failed - unauthorized user'
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = p_user_id AND users.role = 'admin'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Only admin users can revise quotations'
+        );
+    END IF;
+
+    SELECT * INTO v_parent
+    FROM documents
+    WHERE id = p_quotation_id AND type = 'quotation'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'QUOTATION_NOT_FOUND',
+            'message', 'Quotation not found'
+        );
+    END IF;
+
+    IF NOT v_parent.is_latest_revision THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'NOT_LATEST_REVISION',
+            'message', format('Quotation %s has already been revised', v_parent.folio)
+        );
+    END IF;
+
+    IF v_parent.quotation_status NOT IN ('generated', 'rejected') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_STATUS',
+            'message', 'Only generated or rejected quotations can be revised'
+        );
+    END IF;
+
+    v_root_id := COALESCE(v_parent.revision_root_id, v_parent.id);
+    v_revision := v_parent.revision + 1;
+
+    SELECT folio INTO v_root_folio FROM documents WHERE id = v_root_id;
+    v_revision_folio := v_root_folio || '-R' || v_revision;
+
+    -- Explicit folio: revisions share their root's number instead of
+    -- consuming a new one from allocate_folio
+    INSERT INTO documents (
+        folio, type, quotation_status, company_id, client_id,
+        contact_name, contact_email, contact_phone, validity_days,
+        terms, delivery_terms, payment_terms,
+        subtotal, tax_amount, total, created_by,
+        parent_id, revision_root_id, revision, is_latest_revision
+    ) VALUES (
+        v_revision_folio, 'quotation', 'draft', v_parent.company_id, v_parent.client_id,
+        v_parent.contact_name, v_parent.contact_email, v_parent.contact_phone, v_parent.validity_days,
+        v_parent.terms, v_parent.delivery_terms, v_parent.payment_terms,
+        v_parent.subtotal, v_parent.tax_amount, v_parent.total, p_user_id,
+        v_parent.id, v_root_id, v_revision, true
+    )
+    RETURNING id INTO v_revision_id;
+
+    INSERT INTO document_items
+    SELECT (jsonb_populate_record(
+        NULL::document_items,
+        to_jsonb(di) || jsonb_build_object(
+            'id', gen_random_uuid(),
+            'document_id', v_revision_id,
+            'created_at', now()
+        )
+    )).*
+    FROM document_items di
+    WHERE di.document_id = v_parent.id;
+
+    -- Freeze the parent last; from here on the triggers keep it read-only
+    UPDATE documents
+    SET is_latest_revision = false
+    WHERE id = v_parent.id;
+
+    INSERT INTO status_history (
+        document_id, status_type, old_status, new_status, changed_by, reason, notes
+    ) VALUES (
+        v_revision_id, 'quotation_status', NULL, 'draft', p_user_id,
+        'Revision created', format('Revision %s of %s (%s)', v_revision, v_parent.folio, v_parent.quotation_status)
+    );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', format('Revision %s created from %s', v_revision_folio, v_parent.folio),
+        'revisionId', v_revision_id,
+        'revisionFolio', v_revision_folio,
+        'revision', v_revision
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_quotation_revision(UUID, UUID) TO authenticated;
@@ -0,0 +1,278 @@
+-- Line-level and document-level discounts
+-- Discounts come off before tax: document_items.subtotal and documents.subtotal
+-- are the discounted taxable base, so total = subtotal + tax_amount still holds.
+-- discount_amount on a line includes its prorated share of the document
+-- discount; on the document it is the sum of every discount applied.
+
+ALTER TABLE document_items
+    ADD COLUMN IF NOT EXISTS discount_type TEXT CHECK (discount_type IN ('percentage', 'fixed_amount')),
+    ADD COLUMN IF NOT EXISTS discount_value NUMERIC(12,4) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+    ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+ALTER TABLE documents
+    ADD COLUMN IF NOT EXISTS discount_type TEXT CHECK (discount_type IN ('percentage', 'fixed_amount')),
+    ADD COLUMN IF NOT EXISTS discount_value NUMERIC(12,4) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+    ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+-- Percentage discounts are stored as fractions (0.10 = 10%), like tax rates
+ALTER TABLE document_items
+    ADD CONSTRAINT document_items_discount_percentage_range
+    CHECK (discount_type IS DISTINCT FROM 'percentage' OR discount_value <= 1);
+
+ALTER TABLE documents
+    ADD CONSTRAINT documents_discount_percentage_range
+    CHECK (discount_type IS DISTINCT FROM 'percentage' OR discount_value <= 1);
+
+-- Orders carry over the quotation's discounts
+CREATE OR REPLACE FUNCTION convert_quotation_to_order(
+    p_quotation_id UUID,
+    p_user_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_quotation documents%ROWTYPE;
+    v_existing_folio TEXT;
+    v_order_id UUID;
+    v_order_folio TEXT;
+BEGIN
+    -- Only the authenticated user may act as themselves
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Authentication failed - unauthorized user'
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = p_user_id AND users.role = 'admin'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Only admin users can convert quotations to orders'
+        );
+    END IF;
+
+    -- Lock the quotation so concurrent conversions serialize on it
+    SELECT * INTO v_quotation
+    FROM documents
+    WHERE id = p_quotation_id AND type = 'quotation'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'QUOTATION_NOT_FOUND',
+            'message', 'Quotation not found or could not be fetched'
+        );
+    END IF;
+
+    IF v_quotation.quotation_status IS DISTINCT FROM 'approved' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_STATUS',
+            'message', 'Only approved quotations can be converted to orders'
+        );
+    END IF;
+
+    SELECT folio INTO v_existing_folio
+    FROM documents
+    WHERE quotation_id = p_quotation_id AND type = 'order'
+    LIMIT 1;
+
+    IF v_existing_folio IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'ALREADY_CONVERTED',
+            'message', format('Order %s already exists for this quotation', v_existing_folio)
+        );
+    END IF;
+
+    BEGIN
+        -- Order header; the folio comes from documents_assign_folio
+        INSERT INTO documents (
+            type, order_status, quotation_id, company_id, client_id,
+            contact_name, contact_email, contact_phone, issue_date,
+            terms, delivery_terms, payment_terms,
+            discount_type, discount_value, discount_amount,
+            subtotal, tax_amount, total, created_by
+        ) VALUES (
+            'order', 'pending', v_quotation.id, v_quotation.company_id, v_quotation.client_id,
+            v_quotation.contact_name, v_quotation.contact_email, v_quotation.contact_phone, now(),
+            v_quotation.terms, v_quotation.delivery_terms, v_quotation.payment_terms,
+            v_quotation.discount_type, v_quotation.discount_value, v_quotation.discount_amount,
+            v_quotation.subtotal, v_quotation.tax_amount, v_quotation.total, p_user_id
+        )
+        RETURNING id, folio INTO v_order_id, v_order_folio;
+
+        -- Copy every line as-is, re-pointed at the new order
+        INSERT INTO document_items
+        SELECT (jsonb_populate_record(
+            NULL::document_items,
+            to_jsonb(di) || jsonb_build_object(
+                'id', gen_random_uuid(),
+                'document_id', v_order_id,
+                'created_at', now()
+            )
+        )).*
+        FROM document_items di
+        WHERE di.document_id = p_quotation_id;
+
+        UPDATE documents
+        SET quotation_status = 'converted'
+        WHERE id = p_quotation_id;
+
+        INSERT INTO status_history (
+            document_id, status_type, old_status, new_status, changed_by, reason, notes
+        ) VALUES
+            (p_quotation_id, 'quotation_status', 'approved', 'converted', p_user_id,
+             'Converted to order', format('Order created: %s', v_order_folio)),
+            (v_order_id, 'order_status', NULL, 'pending', p_user_id,
+             'Order created from quotation', format('Converted from quotation: %s', v_quotation.folio));
+    EXCEPTION
+        WHEN unique_violation THEN
+            -- The block's savepoint has already undone the partial writes,
+            -- including the folio counter increment
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'FOLIO_VALIDATION_FAILED',
+                'message', format('Folio generation failed: %s', SQLERRM)
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', format('Order %s created successfully from quotation %s', v_order_folio, v_quotation.folio),
+        'orderId', v_order_id,
+        'orderFolio', v_order_folio
+    );
+END;
+$$;
+
+
+-- Revisions start from the parent's discounts
+CREATE OR REPLACE FUNCTION create_quotation_revision(
+    p_quotation_id UUID,
+    p_user_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_parent documents%ROWTYPE;
+    v_root_id UUID;
+    v_root_folio TEXT;
+    v_revision INTEGER;
+    v_revision_id UUID;
+    v_revision_folio TEXT;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Authentication failed - unauthorized user'
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = p_user_id AND users.role = 'admin'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Only admin users can revise quotations'
+        );
+    END IF;
+
+    SELECT * INTO v_parent
+    FROM documents
+    WHERE id = p_quotation_id AND type = 'quotation'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'QUOTATION_NOT_FOUND',
+            'message', 'Quotation not found'
+        );
+    END IF;
+
+    IF NOT v_parent.is_latest_revision THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'NOT_LATEST_REVISION',
+            'message', format('Quotation %s has already been revised', v_parent.folio)
+        );
+    END IF;
+
+    IF v_parent.quotation_status NOT IN ('generated', 'rejected') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_STATUS',
+            'message', 'Only generated or rejected quotations can be revised'
+        );
+    END IF;
+
+    v_root_id := COALESCE(v_parent.revision_root_id, v_parent.id);
+    v_revision := v_parent.revision + 1;
+
+    SELECT folio INTO v_root_folio FROM documents WHERE id = v_root_id;
+    v_revision_folio := v_root_folio || '-R' || v_revision;
+
+    -- Explicit folio: revisions share their root's number instead of
+    -- consuming a new one from allocate_folio
+    INSERT INTO documents (
+        folio, type, quotation_status, company_id, client_id,
+        contact_name, contact_email, contact_phone, validity_days,
+        terms, delivery_terms, payment_terms,
+        discount_type, discount_value, discount_amount,
+        subtotal, tax_amount, total, created_by,
+        parent_id, revision_root_id, revision, is_latest_revision
+    ) VALUES (
+        v_revision_folio, 'quotation', 'draft', v_parent.company_id, v_parent.client_id,
+        v_parent.contact_name, v_parent.contact_email, v_parent.contact_phone, v_parent.validity_days,
+        v_parent.terms, v_parent.delivery_terms, v_parent.payment_terms,
+        v_parent.discount_type, v_parent.discount_value, v_parent.discount_amount,
+        v_parent.subtotal, v_parent.tax_amount, v_parent.total, p_user_id,
+        v_parent.id, v_root_id, v_revision, true
+    )
+    RETURNING id INTO v_revision_id;
+
+    INSERT INTO document_items
+    SELECT (jsonb_populate_record(
+        NULL::document_items,
+        to_jsonb(di) || jsonb_build_object(
+            'id', gen_random_uuid(),
+            'document_id', v_revision_id,
+            'created_at', now()
+        )
+    )).*
+    FROM document_items di
+    WHERE di.document_id = v_parent.id;
+
+    -- Freeze the parent last; from here on the triggers keep it read-only
+    UPDATE documents
+    SET is_latest_revision = false
+    WHERE id = v_parent.id;
+
+    INSERT INTO status_history (
+        document_id, status_type, old_status, new_status, changed_by, reason, notes
+    ) VALUES (
+        v_revision_id, 'quotation_status', NULL, 'draft', p_user_id,
+        'Revision created', format('Revision %s of %s (%s)', v_revision, v_parent.folio, v_parent.quotation_status)
+    );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', format('Revision %s created from %s', v_revision_folio, v_parent.folio),
+        'revisionId', v_revision_id,
+        'revisionFolio', v_revision_folio,
+        'revision', v_revision
+    );
+END;
+$$;
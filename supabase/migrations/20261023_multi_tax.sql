@@ -0,0 +1,408 @@
+-- Multiple taxes per line: IEPS, stacked taxes and withholdings
+-- A product can carry several transferred taxes (IVA, IEPS) and a client
+-- company can require withholdings (retención de IVA/ISR). Taxes run in
+-- apply_order; a compound tax is charged on the subtotal plus the transferred
+-- taxes applied before it, which is how IVA stacks on top of IEPS.
+-- Document totals become: total = subtotal + tax_amount - withholding_amount.
+
+ALTER TABLE taxes
+    ADD COLUMN IF NOT EXISTS code TEXT NOT NULL DEFAULT 'IVA' CHECK (code IN ('IVA', 'IEPS', 'ISR')),
+    ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'transferred' CHECK (kind IN ('transferred', 'withheld')),
+    ADD COLUMN IF NOT EXISTS apply_order INTEGER NOT NULL DEFAULT 0 CHECK (apply_order >= 0),
+    ADD COLUMN IF NOT EXISTS is_compound BOOLEAN NOT NULL DEFAULT false;
+
+-- ISR is only ever withheld on our documents
+ALTER TABLE taxes
+    ADD CONSTRAINT taxes_isr_is_withheld CHECK (code <> 'ISR' OR kind = 'withheld');
+
+-- Existing IVA rates stack on top of IEPS
+UPDATE taxes
+SET apply_order = 1, is_compound = true
+WHERE code = 'IVA' AND kind = 'transferred';
+
+INSERT INTO taxes (name, type, rate, is_default, is_active, code, kind, apply_order, is_compound)
+SELECT v.name, 'percentage', v.rate, false, true, v.code, v.kind, v.apply_order, false
+FROM (VALUES
+    ('IEPS 26.5%', 0.265, 'IEPS', 'transferred', 0),
+    ('IEPS 30%', 0.30, 'IEPS', 'transferred', 0),
+    ('IEPS 53%', 0.53, 'IEPS', 'transferred', 0),
+    ('Retención IVA 2/3', 0.106667, 'IVA', 'withheld', 2),
+    ('Retención ISR 10%', 0.10, 'ISR', 'withheld', 2),
+    ('Retención ISR RESICO 1.25%', 0.0125, 'ISR', 'withheld', 2)
+) AS v(name, rate, code, kind, apply_order)
+WHERE NOT EXISTS (SELECT 1 FROM taxes WHERE taxes.name = v.name);
+
+-- Every tax a product carries; products.tax_id stays as its primary tax
+CREATE TABLE IF NOT EXISTS product_taxes (
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    tax_id UUID NOT NULL REFERENCES taxes(id) ON DELETE RESTRICT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (product_id, tax_id)
+);
+
+INSERT INTO product_taxes (product_id, tax_id)
+SELECT id, tax_id FROM products WHERE tax_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Withholdings a client company requires on every quotation
+CREATE TABLE IF NOT EXISTS company_withholdings (
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    tax_id UUID NOT NULL REFERENCES taxes(id) ON DELETE RESTRICT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (company_id, tax_id)
+);
+
+CREATE OR REPLACE FUNCTION ensure_withheld_tax()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM taxes WHERE id = NEW.tax_id AND kind = 'withheld'
+    ) THEN
+        RAISE EXCEPTION 'Tax % is not a withholding', NEW.tax_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS company_withholdings_ensure_withheld ON company_withholdings;
+
+CREATE TRIGGER company_withholdings_ensure_withheld
+    BEFORE INSERT OR UPDATE ON company_withholdings
+    FOR EACH ROW
+    EXECUTE FUNCTION ensure_withheld_tax();
+
+ALTER TABLE product_taxes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_withholdings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view product taxes" ON product_taxes;
+DROP POLICY IF EXISTS "Admins can manage product taxes" ON product_taxes;
+DROP POLICY IF EXISTS "Users can view their company withholdings" ON company_withholdings;
+DROP POLICY IF EXISTS "Admins can manage company withholdings" ON company_withholdings;
+
+CREATE POLICY "Authenticated users can view product taxes" ON product_taxes
+    FOR SELECT USING (
+        auth.uid() IS NOT NULL
+    );
+
+CREATE POLICY "Admins can manage product taxes" ON product_taxes
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Users can view their company withholdings" ON company_withholdings
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM client_profiles
+            WHERE client_profiles.user_id = auth.uid()
+            AND client_profiles.company_id = company_withholdings.company_id
+        )
+    );
+
+CREATE POLICY "Admins can manage company withholdings" ON company_withholdings
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+-- Replace a product's taxes or a company's withholdings in one statement
+CREATE OR REPLACE FUNCTION set_product_taxes(
+    p_product_id UUID,
+    p_tax_ids UUID[]
+) RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+    DELETE FROM product_taxes
+    WHERE product_id = p_product_id AND tax_id <> ALL (p_tax_ids);
+
+    INSERT INTO product_taxes (product_id, tax_id)
+    SELECT p_product_id, unnest(p_tax_ids)
+    ON CONFLICT DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION set_company_withholdings(
+    p_company_id UUID,
+    p_tax_ids UUID[]
+) RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+    DELETE FROM company_withholdings
+    WHERE company_id = p_company_id AND tax_id <> ALL (p_tax_ids);
+
+    INSERT INTO company_withholdings (company_id, tax_id)
+    SELECT p_company_id, unnest(p_tax_ids)
+    ON CONFLICT DO NOTHING;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_product_taxes(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_company_withholdings(UUID, UUID[]) TO authenticated;
+
+-- Per-line snapshot of the taxes applied, with base and amount for each
+ALTER TABLE document_items
+    ADD COLUMN IF NOT EXISTS taxes JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS withholding_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (withholding_amount >= 0);
+
+ALTER TABLE documents
+    ADD COLUMN IF NOT EXISTS withholding_amount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (withholding_amount >= 0);
+
+-- Orders and revisions carry over the withholdings
+CREATE OR REPLACE FUNCTION convert_quotation_to_order(
+    p_quotation_id UUID,
+    p_user_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_quotation documents%ROWTYPE;
+    v_existing_folio TEXT;
+    v_order_id UUID;
+    v_order_folio TEXT;
+BEGIN
+    -- Only the authenticated user may act as themselves
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Authentication failed - unauthorized user'
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = p_user_id AND users.role = 'admin'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Only admin users can convert quotations to orders'
+        );
+    END IF;
+
+    -- Lock the quotation so concurrent conversions serialize on it
+    SELECT * INTO v_quotation
+    FROM documents
+    WHERE id = p_quotation_id AND type = 'quotation'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'QUOTATION_NOT_FOUND',
+            'message', 'Quotation not found or could not be fetched'
+        );
+    END IF;
+
+    IF v_quotation.quotation_status IS DISTINCT FROM 'approved' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_STATUS',
+            'message', 'Only approved quotations can be converted to orders'
+        );
+    END IF;
+
+    SELECT folio INTO v_existing_folio
+    FROM documents
+    WHERE quotation_id = p_quotation_id AND type = 'order'
+    LIMIT 1;
+
+    IF v_existing_folio IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'ALREADY_CONVERTED',
+            'message', format('Order %s already exists for this quotation', v_existing_folio)
+        );
+    END IF;
+
+    BEGIN
+        -- Order header; the folio comes from documents_assign_folio
+        INSERT INTO documents (
+            type, order_status, quotation_id, company_id, client_id,
+            contact_name, contact_email, contact_phone, issue_date,
+            terms, delivery_terms, payment_terms,
+            discount_type, discount_value, discount_amount,
+            subtotal, tax_amount, withholding_amount, total, created_by
+        ) VALUES (
+            'order', 'pending', v_quotation.id, v_quotation.company_id, v_quotation.client_id,
+            v_quotation.contact_name, v_quotation.contact_email, v_quotation.contact_phone, now(),
+            v_quotation.terms, v_quotation.delivery_terms, v_quotation.payment_terms,
+            v_quotation.discount_type, v_quotation.discount_value, v_quotation.discount_amount,
+            v_quotation.subtotal, v_quotation.tax_amount, v_quotation.withholding_amount, v_quotation.total, p_user_id
+        )
+        RETURNING id, folio INTO v_order_id, v_order_folio;
+
+        -- Copy every line as-is, re-pointed at the new order
+        INSERT INTO document_items
+        SELECT (jsonb_populate_record(
+            NULL::document_items,
+            to_jsonb(di) || jsonb_build_object(
+                'id', gen_random_uuid(),
+                'document_id', v_order_id,
+                'created_at', now()
+            )
+        )).*
+        FROM document_items di
+        WHERE di.document_id = p_quotation_id;
+
+        UPDATE documents
+        SET quotation_status = 'converted'
+        WHERE id = p_quotation_id;
+
+        INSERT INTO status_history (
+            document_id, status_type, old_status, new_status, changed_by, reason, notes
+        ) VALUES
+            (p_quotation_id, 'quotation_status', 'approved', 'converted', p_user_id,
+             'Converted to order', format('Order created: %s', v_order_folio)),
+            (v_order_id, 'order_status', NULL, 'pending', p_user_id,
+             'Order created from quotation', format('Converted from quotation: %s', v_quotation.folio));
+    EXCEPTION
+        WHEN unique_violation THEN
+            -- The block's savepoint has already undone the partial writes,
+            -- including the folio counter increment
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'FOLIO_VALIDATION_FAILED',
+                'message', format('Folio generation failed: %s', SQLERRM)
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', format('Order %s created successfully from quotation %s', v_order_folio, v_quotation.folio),
+        'orderId', v_order_id,
+        'orderFolio', v_order_folio
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_quotation_revision(
+    p_quotation_id UUID,
+    p_user_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_parent documents%ROWTYPE;
+    v_root_id UUID;
+    v_root_folio TEXT;
+    v_revision INTEGER;
+    v_revision_id UUID;
+    v_revision_folio TEXT;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Authentication failed - unauthorized user'
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = p_user_id AND users.role = 'admin'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Only admin users can revise quotations'
+        );
+    END IF;
+
+    SELECT * INTO v_parent
+    FROM documents
+    WHERE id = p_quotation_id AND type = 'quotation'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'QUOTATION_NOT_FOUND',
+            'message', 'Quotation not found'
+        );
+    END IF;
+
+    IF NOT v_parent.is_latest_revision THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'NOT_LATEST_REVISION',
+            'message', format('Quotation %s has already been revised', v_parent.folio)
+        );
+    END IF;
+
+    IF v_parent.quotation_status NOT IN ('generated', 'rejected') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_STATUS',
+            'message', 'Only generated or rejected quotations can be revised'
+        );
+    END IF;
+
+    v_root_id := COALESCE(v_parent.revision_root_id, v_parent.id);
+    v_revision := v_parent.revision + 1;
+
+    SELECT folio INTO v_root_folio FROM documents WHERE id = v_root_id;
+    v_revision_folio := v_root_folio || '-R' || v_revision;
+
+    -- Explicit folio: revisions share their root's number instead of
+    -- consuming a new one from allocate_folio
+    INSERT INTO documents (
+        folio, type, quotation_status, company_id, client_id,
+        contact_name, contact_email, contact_phone, validity_days,
+        terms, delivery_terms, payment_terms,
+        discount_type, discount_value, discount_amount,
+        subtotal, tax_amount, withholding_amount, total, created_by,
+        parent_id, revision_root_id, revision, is_latest_revision
+    ) VALUES (
+        v_revision_folio, 'quotation', 'draft', v_parent.company_id, v_parent.client_id,
+        v_parent.contact_name, v_parent.contact_email, v_parent.contact_phone, v_parent.validity_days,
+        v_parent.terms, v_parent.delivery_terms, v_parent.payment_terms,
+        v_parent.discount_type, v_parent.discount_value, v_parent.discount_amount,
+        v_parent.subtotal, v_parent.tax_amount, v_parent.withholding_amount, v_parent.total, p_user_id,
+        v_parent.id, v_root_id, v_revision, true
+    )
+    RETURNING id INTO v_revision_id;
+
+    INSERT INTO document_items
+    SELECT (jsonb_populate_record(
+        NULL::document_items,
+        to_jsonb(di) || jsonb_build_object(
+            'id', gen_random_uuid(),
+            'document_id', v_revision_id,
+            'created_at', now()
+        )
+    )).*
+    FROM document_items di
+    WHERE di.document_id = v_parent.id;
+
+    -- Freeze the parent last; from here on the triggers keep it read-only
+    UPDATE documents
+    SET is_latest_revision = false
+    WHERE id = v_parent.id;
+
+    INSERT INTO status_history (
+        document_id, status_type, old_status, new_status, changed_by, reason, notes
+    ) VALUES (
+        v_revision_id, 'quotation_status', NULL, 'draft', p_user_id,
+        'Revision created', format('Revision %s of %s (%s)', v_revision, v_parent.folio, v_parent.quotation_status)
+    );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', format('Revision %s created from %s', v_revision_folio, v_parent.folio),
+        'revisionId', v_revision_id,
+        'revisionFolio', v_revision_folio,
+        'revision', v_revision
+    );
+END;
+$$;
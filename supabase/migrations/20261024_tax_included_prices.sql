@@ -0,0 +1,21 @@
+-- Tax-included prices on quotation lines
+-- A product whose public price already carries its taxes is quoted by backing
+-- the taxes out of that price. Each line keeps the price it was quoted at and
+-- whether that price was tax-included, so it can be recalculated the same
+-- way later. unit_price stays the net price, kept to six decimals like a CFDI
+-- ValorUnitario so quantity * unit_price matches the line subtotal.
+
+ALTER TABLE document_items
+    ADD COLUMN IF NOT EXISTS list_price NUMERIC(12,2) CHECK (list_price >= 0),
+    ADD COLUMN IF NOT EXISTS tax_included BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE document_items
+    ALTER COLUMN unit_price TYPE NUMERIC(18,6);
+
+-- Lines quoted before this were always priced net
+UPDATE document_items
+SET list_price = unit_price
+WHERE list_price IS NULL;
+
+ALTER TABLE document_items
+    ALTER COLUMN list_price SET NOT NULL;
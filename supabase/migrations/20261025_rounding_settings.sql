@@ -0,0 +1,32 @@
+-- Configurable money rounding
+-- Quotation amounts are calculated in integer centavos; these settings choose
+-- how fractions of a centavo are rounded (half-even or half-up) and whether
+-- taxes are rounded on every line or once per tax on the document.
+
+-- Single settings row
+CREATE TABLE IF NOT EXISTS calculation_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    rounding_mode TEXT NOT NULL DEFAULT 'half-even' CHECK (rounding_mode IN ('half-even', 'half-up')),
+    rounding_scope TEXT NOT NULL DEFAULT 'line' CHECK (rounding_scope IN ('line', 'document')),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO calculation_settings (id) VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE calculation_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view calculation settings" ON calculation_settings;
+DROP POLICY IF EXISTS "Admins can update calculation settings" ON calculation_settings;
+
+-- Clients see quotation totals too, so everyone signed in may read the settings
+CREATE POLICY "Authenticated users can view calculation settings" ON calculation_settings
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update calculation settings" ON calculation_settings
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
@@ -0,0 +1,120 @@
+-- Client price lists and negotiated prices
+-- A price list is a named set of prices with optional validity dates. Each
+-- entry either fixes a product's price (a negotiated price, on the same tax
+-- basis as products.public_price) or marks up a whole category over
+-- cost_price. Lists are assigned to client companies; the quotation builder
+-- quotes the lowest applicable price and records which list it came from.
+
+CREATE TABLE IF NOT EXISTS price_lists (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    description TEXT,
+    valid_from DATE,
+    valid_until DATE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT price_lists_valid_range CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until >= valid_from)
+);
+
+-- Exactly one of product_id (with a price) or category_id (with a markup)
+CREATE TABLE IF NOT EXISTS price_list_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    price_list_id UUID NOT NULL REFERENCES price_lists(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    category_id UUID REFERENCES product_categories(id) ON DELETE CASCADE,
+    price NUMERIC(12,2) CHECK (price > 0),
+    markup NUMERIC(7,4) CHECK (markup >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT price_list_items_target CHECK (
+        (product_id IS NOT NULL AND category_id IS NULL AND price IS NOT NULL AND markup IS NULL)
+        OR (category_id IS NOT NULL AND product_id IS NULL AND markup IS NOT NULL AND price IS NULL)
+    )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS price_list_items_product_key
+    ON price_list_items (price_list_id, product_id) WHERE product_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS price_list_items_category_key
+    ON price_list_items (price_list_id, category_id) WHERE category_id IS NOT NULL;
+
+-- Price lists a client company is quoted from
+CREATE TABLE IF NOT EXISTS company_price_lists (
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    price_list_id UUID NOT NULL REFERENCES price_lists(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (company_id, price_list_id)
+);
+
+-- Where each quoted price came from; NULL is the public price
+ALTER TABLE document_items
+    ADD COLUMN IF NOT EXISTS price_list_id UUID REFERENCES price_lists(id) ON DELETE SET NULL;
+
+ALTER TABLE price_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_list_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_price_lists ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage price lists" ON price_lists;
+DROP POLICY IF EXISTS "Admins can manage price list items" ON price_list_items;
+DROP POLICY IF EXISTS "Admins can manage company price lists" ON company_price_lists;
+
+-- Negotiated prices are confidential between clients, so only admins read them
+CREATE POLICY "Admins can manage price lists" ON price_lists
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can manage price list items" ON price_list_items
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can manage company price lists" ON company_price_lists
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+-- Replace a price list's entries or a company's price lists in one statement
+CREATE OR REPLACE FUNCTION set_price_list_items(
+    p_price_list_id UUID,
+    p_items JSONB
+) RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+    DELETE FROM price_list_items WHERE price_list_id = p_price_list_id;
+
+    INSERT INTO price_list_items (price_list_id, product_id, category_id, price, markup)
+    SELECT p_price_list_id, item.product_id, item.category_id, item.price, item.markup
+    FROM jsonb_to_recordset(p_items) AS item(product_id UUID, category_id UUID, price NUMERIC, markup NUMERIC);
+
+    UPDATE price_lists SET updated_at = now() WHERE id = p_price_list_id;
+$$;
+
+CREATE OR REPLACE FUNCTION set_company_price_lists(
+    p_company_id UUID,
+    p_price_list_ids UUID[]
+) RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+    DELETE FROM company_price_lists
+    WHERE company_id = p_company_id AND price_list_id <> ALL (p_price_list_ids);
+
+    INSERT INTO company_price_lists (company_id, price_list_id)
+    SELECT p_company_id, unnest(p_price_list_ids)
+    ON CONFLICT DO NOTHING;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_price_list_items(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_company_price_lists(UUID, UUID[]) TO authenticated;
@@ -0,0 +1,56 @@
+-- Volume (tier) pricing per product
+-- A product can have quantity breaks, e.g. 12+ and 48+ pieces, each with its
+-- own unit price on the same tax basis as products.public_price. Quantities
+-- below the first break pay the public price. Quotation lines record the
+-- tier they were priced at so the PDF can show it.
+
+CREATE TABLE IF NOT EXISTS product_price_tiers (
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    min_quantity INTEGER NOT NULL CHECK (min_quantity > 1),
+    price NUMERIC(12,2) NOT NULL CHECK (price > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (product_id, min_quantity)
+);
+
+-- Tier applied to a line; NULL when the line is at the public or a list price
+ALTER TABLE document_items
+    ADD COLUMN IF NOT EXISTS tier_min_quantity INTEGER,
+    ADD COLUMN IF NOT EXISTS tier_max_quantity INTEGER,
+    ADD CONSTRAINT document_items_tier_range CHECK (
+        tier_max_quantity IS NULL OR (tier_min_quantity IS NOT NULL AND tier_max_quantity >= tier_min_quantity)
+    );
+
+ALTER TABLE product_price_tiers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view product price tiers" ON product_price_tiers;
+DROP POLICY IF EXISTS "Admins can manage product price tiers" ON product_price_tiers;
+
+CREATE POLICY "Authenticated users can view product price tiers" ON product_price_tiers
+    FOR SELECT USING (
+        auth.uid() IS NOT NULL
+    );
+
+CREATE POLICY "Admins can manage product price tiers" ON product_price_tiers
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+-- Replace a product's tiers in one statement
+CREATE OR REPLACE FUNCTION set_product_price_tiers(
+    p_product_id UUID,
+    p_tiers JSONB
+) RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+    DELETE FROM product_price_tiers WHERE product_id = p_product_id;
+
+    INSERT INTO product_price_tiers (product_id, min_quantity, price)
+    SELECT p_product_id, tier.min_quantity, tier.price
+    FROM jsonb_to_recordset(p_tiers) AS tier(min_quantity INTEGER, price NUMERIC);
+$$;
+
+GRANT EXECUTE ON FUNCTION set_product_price_tiers(UUID, JSONB) TO authenticated;
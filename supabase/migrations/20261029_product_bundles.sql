@@ -0,0 +1,109 @@
+-- Product kits (bundles)
+-- A bundle is a product made of a fixed set of other products, e.g. a
+-- "kit de amenidades". It is quoted as a single line, priced either at its
+-- own public price ('fixed') or at the sum of its components ('sum'). The
+-- components are snapshotted on the quotation line so the PDF can list them
+-- and shipping can take them out of stock.
+
+ALTER TABLE products
+    ADD COLUMN IF NOT EXISTS is_bundle BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS bundle_pricing TEXT NOT NULL DEFAULT 'fixed'
+        CHECK (bundle_pricing IN ('fixed', 'sum'));
+
+CREATE TABLE IF NOT EXISTS product_bundle_items (
+    bundle_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    component_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (bundle_id, component_id),
+    CHECK (bundle_id <> component_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_bundle_items_component_id ON product_bundle_items(component_id);
+
+-- Components of a bundle line per bundle, as quoted:
+-- [{product_id, product_code, product_name, unit, quantity}]; NULL for plain products
+ALTER TABLE document_items
+    ADD COLUMN IF NOT EXISTS bundle_components JSONB,
+    ADD COLUMN IF NOT EXISTS expand_on_pdf BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE product_bundle_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view product bundle items" ON product_bundle_items;
+DROP POLICY IF EXISTS "Admins can manage product bundle items" ON product_bundle_items;
+
+CREATE POLICY "Authenticated users can view product bundle items" ON product_bundle_items
+    FOR SELECT USING (
+        auth.uid() IS NOT NULL
+    );
+
+CREATE POLICY "Admins can manage product bundle items" ON product_bundle_items
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+-- Replace a bundle's components in one statement
+CREATE OR REPLACE FUNCTION set_product_bundle_items(
+    p_bundle_id UUID,
+    p_items JSONB
+) RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+    DELETE FROM product_bundle_items WHERE bundle_id = p_bundle_id;
+
+    INSERT INTO product_bundle_items (bundle_id, component_id, quantity)
+    SELECT p_bundle_id, item.component_id, item.quantity
+    FROM jsonb_to_recordset(p_items) AS item(component_id UUID, quantity INTEGER);
+$$;
+
+GRANT EXECUTE ON FUNCTION set_product_bundle_items(UUID, JSONB) TO authenticated;
+
+-- Shipping an order takes its goods out of stock. Bundle lines take out their
+-- components (bundles hold no stock of their own); other lines take out the product.
+CREATE OR REPLACE FUNCTION decrement_stock_on_ship()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE products
+    SET stock_quantity = products.stock_quantity - shipped.quantity
+    FROM (
+        SELECT line.product_id, SUM(line.quantity)::INTEGER AS quantity
+        FROM (
+            SELECT
+                (component->>'product_id')::UUID AS product_id,
+                (component->>'quantity')::NUMERIC * document_items.quantity AS quantity
+            FROM document_items
+            CROSS JOIN LATERAL jsonb_array_elements(document_items.bundle_components) AS component
+            WHERE document_items.document_id = NEW.id
+              AND document_items.bundle_components IS NOT NULL
+
+            UNION ALL
+
+            SELECT document_items.product_id, document_items.quantity
+            FROM document_items
+            WHERE document_items.document_id = NEW.id
+              AND document_items.bundle_components IS NULL
+              AND document_items.product_id IS NOT NULL
+        ) AS line
+        GROUP BY line.product_id
+    ) AS shipped
+    WHERE products.id = shipped.product_id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS documents_decrement_stock_on_ship ON documents;
+
+CREATE TRIGGER documents_decrement_stock_on_ship
+    AFTER UPDATE OF order_status ON documents
+    FOR EACH ROW
+    WHEN (NEW.type = 'order' AND NEW.order_status = 'shipped' AND OLD.order_status IS DISTINCT FROM 'shipped')
+    EXECUTE FUNCTION decrement_stock_on_ship();
@@ -0,0 +1,91 @@
+-- Alternate selling units
+-- products.unit is the product's base unit and stock_quantity is counted in
+-- it. A product can also be sold in larger units that hold a whole number of
+-- base units (1 CAJA = 24 PIEZA), optionally at their own price on the same
+-- tax basis as products.public_price. Quotation lines record how many base
+-- units one of their units holds, so shipping takes the right stock out.
+
+CREATE TABLE IF NOT EXISTS product_units (
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    unit TEXT NOT NULL,
+    factor INTEGER NOT NULL CHECK (factor > 1), -- Base units per unit
+    price NUMERIC(12,2) CHECK (price IS NULL OR price > 0), -- NULL: factor x the base unit price
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (product_id, unit)
+);
+
+-- Base units per line unit; 1 when the line is in the base unit
+ALTER TABLE document_items
+    ADD COLUMN IF NOT EXISTS unit_factor INTEGER NOT NULL DEFAULT 1 CHECK (unit_factor > 0);
+
+ALTER TABLE product_units ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view product units" ON product_units;
+DROP POLICY IF EXISTS "Admins can manage product units" ON product_units;
+
+CREATE POLICY "Authenticated users can view product units" ON product_units
+    FOR SELECT USING (
+        auth.uid() IS NOT NULL
+    );
+
+CREATE POLICY "Admins can manage product units" ON product_units
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+-- Replace a product's alternate units in one statement
+CREATE OR REPLACE FUNCTION set_product_units(
+    p_product_id UUID,
+    p_units JSONB
+) RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+    DELETE FROM product_units WHERE product_id = p_product_id;
+
+    INSERT INTO product_units (product_id, unit, factor, price)
+    SELECT p_product_id, item.unit, item.factor, item.price
+    FROM jsonb_to_recordset(p_units) AS item(unit TEXT, factor INTEGER, price NUMERIC);
+$$;
+
+GRANT EXECUTE ON FUNCTION set_product_units(UUID, JSONB) TO authenticated;
+
+-- Shipping now counts every line in base units
+CREATE OR REPLACE FUNCTION decrement_stock_on_ship()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE products
+    SET stock_quantity = products.stock_quantity - shipped.quantity
+    FROM (
+        SELECT line.product_id, SUM(line.quantity)::INTEGER AS quantity
+        FROM (
+            SELECT
+                (component->>'product_id')::UUID AS product_id,
+                (component->>'quantity')::NUMERIC * document_items.quantity * document_items.unit_factor AS quantity
+            FROM document_items
+            CROSS JOIN LATERAL jsonb_array_elements(document_items.bundle_components) AS component
+            WHERE document_items.document_id = NEW.id
+              AND document_items.bundle_components IS NOT NULL
+
+            UNION ALL
+
+            SELECT document_items.product_id, document_items.quantity * document_items.unit_factor
+            FROM document_items
+            WHERE document_items.document_id = NEW.id
+              AND document_items.bundle_components IS NULL
+              AND document_items.product_id IS NOT NULL
+        ) AS line
+        GROUP BY line.product_id
+    ) AS shipped
+    WHERE products.id = shipped.product_id;
+
+    RETURN NEW;
+END;
+$$;
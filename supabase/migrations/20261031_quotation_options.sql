@@ -0,0 +1,271 @@
+-- Optional and alternative quotation lines
+-- A line can be optional (the client may add it) or belong to a group of
+-- alternatives (the client picks exactly one, e.g. option A or option B).
+-- Such lines start unselected and stay out of the document totals until the
+-- client picks; standard lines are always selected. Orders only get the
+-- selected lines.
+
+ALTER TABLE document_items
+    ADD COLUMN IF NOT EXISTS is_optional BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS alternative_group TEXT,
+    ADD COLUMN IF NOT EXISTS is_selected BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE document_items
+    DROP CONSTRAINT IF EXISTS document_items_option_kind,
+    DROP CONSTRAINT IF EXISTS document_items_standard_selected;
+
+ALTER TABLE document_items
+    ADD CONSTRAINT document_items_option_kind
+    CHECK (NOT (is_optional AND alternative_group IS NOT NULL)),
+    ADD CONSTRAINT document_items_standard_selected
+    CHECK (is_selected OR is_optional OR alternative_group IS NOT NULL);
+
+-- Record the client's picks and bring the totals in line with them
+-- The totals become the sum of the selected lines, which already carry their
+-- share of any document discount.
+CREATE OR REPLACE FUNCTION select_quotation_options(
+    p_quotation_id UUID,
+    p_item_ids UUID[]
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_quotation documents%ROWTYPE;
+    v_invalid_groups TEXT;
+BEGIN
+    SELECT * INTO v_quotation
+    FROM documents
+    WHERE id = p_quotation_id AND type = 'quotation'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'QUOTATION_NOT_FOUND',
+            'message', 'Quotation not found'
+        );
+    END IF;
+
+    -- Admins, or a user of the client company the quotation is for
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    ) AND NOT EXISTS (
+        SELECT 1 FROM client_profiles
+        WHERE client_profiles.user_id = auth.uid()
+          AND client_profiles.company_id = v_quotation.company_id
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Not allowed to choose options on this quotation'
+        );
+    END IF;
+
+    IF v_quotation.quotation_status IS DISTINCT FROM 'in_review' OR NOT v_quotation.is_latest_revision THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_STATUS',
+            'message', 'Options can only be chosen while the quotation is in review'
+        );
+    END IF;
+
+    SELECT string_agg(groups.alternative_group, ', ' ORDER BY groups.alternative_group) INTO v_invalid_groups
+    FROM (
+        SELECT alternative_group
+        FROM document_items
+        WHERE document_id = p_quotation_id AND alternative_group IS NOT NULL
+        GROUP BY alternative_group
+        HAVING COUNT(*) FILTER (WHERE id = ANY(p_item_ids)) <> 1
+    ) AS groups;
+
+    IF v_invalid_groups IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_SELECTION',
+            'message', format('Choose exactly one option for alternative %s', v_invalid_groups)
+        );
+    END IF;
+
+    UPDATE document_items
+    SET is_selected = (id = ANY(p_item_ids))
+    WHERE document_id = p_quotation_id
+      AND (is_optional OR alternative_group IS NOT NULL);
+
+    UPDATE documents
+    SET (subtotal, discount_amount, tax_amount, withholding_amount, total) = (
+        SELECT
+            COALESCE(SUM(subtotal), 0),
+            COALESCE(SUM(discount_amount), 0),
+            COALESCE(SUM(tax_amount), 0),
+            COALESCE(SUM(withholding_amount), 0),
+            COALESCE(SUM(total), 0)
+        FROM document_items
+        WHERE document_id = p_quotation_id AND is_selected
+    )
+    WHERE id = p_quotation_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', 'Options saved'
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION select_quotation_options(UUID, UUID[]) TO authenticated;
+
+-- Conversion refuses quotations with an alternative still open and copies
+-- only the selected lines
+CREATE OR REPLACE FUNCTION convert_quotation_to_order(
+    p_quotation_id UUID,
+    p_user_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_quotation documents%ROWTYPE;
+    v_existing_folio TEXT;
+    v_order_id UUID;
+    v_order_folio TEXT;
+    v_unpicked_groups TEXT;
+BEGIN
+    -- Only the authenticated user may act as themselves
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Authentication failed - unauthorized user'
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = p_user_id AND users.role = 'admin'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Only admin users can convert quotations to orders'
+        );
+    END IF;
+
+    -- Lock the quotation so concurrent conversions serialize on it
+    SELECT * INTO v_quotation
+    FROM documents
+    WHERE id = p_quotation_id AND type = 'quotation'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'QUOTATION_NOT_FOUND',
+            'message', 'Quotation not found or could not be fetched'
+        );
+    END IF;
+
+    IF v_quotation.quotation_status IS DISTINCT FROM 'approved' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_STATUS',
+            'message', 'Only approved quotations can be converted to orders'
+        );
+    END IF;
+
+    SELECT folio INTO v_existing_folio
+    FROM documents
+    WHERE quotation_id = p_quotation_id AND type = 'order'
+    LIMIT 1;
+
+    IF v_existing_folio IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'ALREADY_CONVERTED',
+            'message', format('Order %s already exists for this quotation', v_existing_folio)
+        );
+    END IF;
+
+    SELECT string_agg(DISTINCT di.alternative_group, ', ' ORDER BY di.alternative_group) INTO v_unpicked_groups
+    FROM document_items di
+    WHERE di.document_id = p_quotation_id
+      AND di.alternative_group IS NOT NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM document_items picked
+          WHERE picked.document_id = p_quotation_id
+            AND picked.alternative_group = di.alternative_group
+            AND picked.is_selected
+      );
+
+    IF v_unpicked_groups IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'OPTIONS_NOT_SELECTED',
+            'message', format('No option chosen for alternative %s', v_unpicked_groups)
+        );
+    END IF;
+
+    BEGIN
+        -- Order header; the folio comes from documents_assign_folio
+        INSERT INTO documents (
+            type, order_status, quotation_id, company_id, client_id,
+            contact_name, contact_email, contact_phone, issue_date,
+            terms, delivery_terms, payment_terms,
+            discount_type, discount_value, discount_amount,
+            currency, exchange_rate,
+            subtotal, tax_amount, withholding_amount, total, created_by
+        ) VALUES (
+            'order', 'pending', v_quotation.id, v_quotation.company_id, v_quotation.client_id,
+            v_quotation.contact_name, v_quotation.contact_email, v_quotation.contact_phone, now(),
+            v_quotation.terms, v_quotation.delivery_terms, v_quotation.payment_terms,
+            v_quotation.discount_type, v_quotation.discount_value, v_quotation.discount_amount,
+            v_quotation.currency, v_quotation.exchange_rate,
+            v_quotation.subtotal, v_quotation.tax_amount, v_quotation.withholding_amount, v_quotation.total, p_user_id
+        )
+        RETURNING id, folio INTO v_order_id, v_order_folio;
+
+        -- Copy the chosen lines as-is, re-pointed at the new order
+        INSERT INTO document_items
+        SELECT (jsonb_populate_record(
+            NULL::document_items,
+            to_jsonb(di) || jsonb_build_object(
+                'id', gen_random_uuid(),
+                'document_id', v_order_id,
+                'created_at', now()
+            )
+        )).*
+        FROM document_items di
+        WHERE di.document_id = p_quotation_id
+          AND di.is_selected;
+
+        UPDATE documents
+        SET quotation_status = 'converted'
+        WHERE id = p_quotation_id;
+
+        INSERT INTO status_history (
+            document_id, status_type, old_status, new_status, changed_by, reason, notes
+        ) VALUES
+            (p_quotation_id, 'quotation_status', 'approved', 'converted', p_user_id,
+             'Converted to order', format('Order created: %s', v_order_folio)),
+            (v_order_id, 'order_status', NULL, 'pending', p_user_id,
+             'Order created from quotation', format('Converted from quotation: %s', v_quotation.folio));
+    EXCEPTION
+        WHEN unique_violation THEN
+            -- The block's savepoint has already undone the partial writes,
+            -- including the folio counter increment
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'FOLIO_VALIDATION_FAILED',
+                'message', format('Folio generation failed: %s', SQLERRM)
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', format('Order %s created successfully from quotation %s', v_order_folio, v_quotation.folio),
+        'orderId', v_order_id,
+        'orderFolio', v_order_folio
+    );
+END;
+$$;
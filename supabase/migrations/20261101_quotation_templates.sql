@@ -0,0 +1,35 @@
+-- Quotation templates
+-- A template is a saved starting point for a quotation: its lines (products,
+-- units and quantities), terms and validity. Templates hold no prices; the
+-- create page prices their lines from the catalog when a template is used,
+-- as it does when a past quotation is duplicated.
+
+CREATE TABLE IF NOT EXISTS quotation_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    validity_days INTEGER NOT NULL DEFAULT 30 CHECK (validity_days > 0),
+    terms TEXT,
+    delivery_terms TEXT,
+    payment_terms TEXT,
+    -- [{product_id, product_code, product_name, unit, quantity, discount,
+    --   is_optional, alternative_group, expand_on_pdf}]
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT quotation_templates_items_array CHECK (jsonb_typeof(items) = 'array')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS quotation_templates_name_key ON quotation_templates (lower(name));
+
+ALTER TABLE quotation_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage quotation templates" ON quotation_templates;
+
+CREATE POLICY "Admins can manage quotation templates" ON quotation_templates
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
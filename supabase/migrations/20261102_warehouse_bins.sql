@@ -0,0 +1,9 @@
+-- Warehouse bin locations
+-- Where a product is kept in the warehouse, e.g. "A-03-2" (aisle, rack,
+-- shelf). Packing lists group order lines by bin so pickers walk the
+-- warehouse once; products without a bin are grouped by category.
+
+ALTER TABLE products
+    ADD COLUMN IF NOT EXISTS bin_location TEXT;
+
+CREATE INDEX IF NOT EXISTS products_bin_location_idx ON products (bin_location) WHERE bin_location IS NOT NULL;
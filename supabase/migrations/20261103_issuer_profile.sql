@@ -0,0 +1,75 @@
+-- Issuer profile and branding
+-- Our legal and fiscal details, bank accounts for transfers, logo, brand
+-- colors, default quotation terms and footer text, as shown on every PDF.
+-- Until the row is filled in from the admin settings page, PDFs use the
+-- built-in issuer.
+
+-- Single profile row
+CREATE TABLE IF NOT EXISTS issuer_profile (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    legal_name TEXT NOT NULL,
+    trade_name TEXT,
+    rfc TEXT NOT NULL,
+    fiscal_regime TEXT NOT NULL,
+    address TEXT NOT NULL,
+    city TEXT NOT NULL,
+    state TEXT NOT NULL,
+    postal_code TEXT NOT NULL CHECK (postal_code ~ '^[0-9]{5}$'),
+    phone TEXT,
+    email TEXT,
+    website TEXT,
+    -- [{ label, address }], e.g. warehouses and branches
+    addresses JSONB NOT NULL DEFAULT '[]',
+    -- [{ bank, account_holder, account_number, clabe, currency }]
+    bank_accounts JSONB NOT NULL DEFAULT '[]',
+    logo_url TEXT,
+    primary_color TEXT NOT NULL DEFAULT '#1F2937' CHECK (primary_color ~ '^#[0-9A-Fa-f]{6}$'),
+    accent_color TEXT NOT NULL DEFAULT '#111827' CHECK (accent_color ~ '^#[0-9A-Fa-f]{6}$'),
+    default_validity_days INTEGER NOT NULL DEFAULT 30 CHECK (default_validity_days > 0),
+    default_terms TEXT,
+    default_delivery_terms TEXT,
+    default_payment_terms TEXT,
+    footer_text TEXT,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE issuer_profile ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view issuer profile" ON issuer_profile;
+DROP POLICY IF EXISTS "Admins can manage issuer profile" ON issuer_profile;
+
+-- Clients download PDFs too, so everyone signed in may read the profile
+CREATE POLICY "Authenticated users can view issuer profile" ON issuer_profile
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage issuer profile" ON issuer_profile
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+-- Public bucket for the logo; PDFs load it by URL
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('branding', 'branding', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Admins can upload branding" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can delete branding" ON storage.objects;
+
+CREATE POLICY "Admins can upload branding" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'branding' AND EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can delete branding" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'branding' AND EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
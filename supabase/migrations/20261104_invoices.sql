@@ -0,0 +1,119 @@
+-- CFDI 4.0 invoices for delivered orders
+-- Clients get the fiscal details an invoice receptor needs, and invoices get
+-- their own gap-free numbering per serie. A draft invoice keeps the CFDI it
+-- will issue (cfdi); stamping adds the sealed XML the PAC returned and its
+-- UUID (folio fiscal). An order has at most one invoice that is not cancelled.
+
+-- Receptor details: régimen fiscal (c_RegimenFiscal) and default uso CFDI
+ALTER TABLE companies
+    ADD COLUMN IF NOT EXISTS fiscal_regime TEXT,
+    ADD COLUMN IF NOT EXISTS cfdi_use TEXT NOT NULL DEFAULT 'G03';
+
+-- Last folio handed out per serie
+CREATE TABLE IF NOT EXISTS invoice_series (
+    serie TEXT PRIMARY KEY CHECK (serie ~ '^[A-Z]{1,25}$'),
+    last_folio INTEGER NOT NULL DEFAULT 0 CHECK (last_folio >= 0)
+);
+
+INSERT INTO invoice_series (serie) VALUES ('A')
+ON CONFLICT (serie) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS invoices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES documents(id),
+    company_id UUID NOT NULL REFERENCES companies(id),
+    serie TEXT NOT NULL DEFAULT 'A' REFERENCES invoice_series(serie),
+    folio INTEGER,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'stamped', 'cancelled')),
+    payment_form TEXT NOT NULL,
+    payment_method TEXT NOT NULL CHECK (payment_method IN ('PUE', 'PPD')),
+    cfdi_use TEXT NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'MXN',
+    exchange_rate NUMERIC(12,6) NOT NULL DEFAULT 1,
+    subtotal NUMERIC(12,2) NOT NULL,
+    discount_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+    tax_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+    withholding_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+    total NUMERIC(12,2) NOT NULL,
+    -- The comprobante as built from the order, before serie, folio and date
+    cfdi JSONB NOT NULL,
+    -- Set on stamping
+    xml TEXT,
+    uuid UUID UNIQUE,
+    stamped_at TIMESTAMPTZ,
+    cancelled_at TIMESTAMPTZ,
+    cancellation_reason TEXT,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (serie, folio),
+    CHECK (status = 'draft' OR xml IS NOT NULL OR cancelled_at IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS invoices_one_per_order
+    ON invoices(order_id)
+    WHERE status <> 'cancelled';
+
+CREATE INDEX IF NOT EXISTS idx_invoices_company ON invoices(company_id);
+
+-- Every invoice insert gets the next folio of its serie, in the same
+-- transaction, so a failed insert does not leave a gap
+CREATE OR REPLACE FUNCTION assign_invoice_folio()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE invoice_series
+    SET last_folio = last_folio + 1
+    WHERE serie = NEW.serie
+    RETURNING last_folio INTO NEW.folio;
+
+    IF NEW.folio IS NULL THEN
+        RAISE EXCEPTION 'Unknown invoice serie %', NEW.serie;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS invoices_assign_folio ON invoices;
+
+CREATE TRIGGER invoices_assign_folio
+    BEFORE INSERT ON invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_invoice_folio();
+
+ALTER TABLE invoice_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view invoice series" ON invoice_series;
+DROP POLICY IF EXISTS "Admins can manage invoices" ON invoices;
+DROP POLICY IF EXISTS "Clients can view their stamped invoices" ON invoices;
+
+-- Series are only written through assign_invoice_folio
+CREATE POLICY "Admins can view invoice series" ON invoice_series
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can manage invoices" ON invoices
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Clients can view their stamped invoices" ON invoices
+    FOR SELECT USING (
+        status <> 'draft' AND EXISTS (
+            SELECT 1 FROM client_profiles
+            WHERE client_profiles.user_id = auth.uid()
+            AND client_profiles.company_id = invoices.company_id
+        )
+    );
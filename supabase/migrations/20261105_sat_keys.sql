@@ -0,0 +1,17 @@
+-- SAT keys on products and categories
+-- ClaveProdServ and ClaveUnidad for invoice concepts. A category's keys are
+-- defaults for its products, and a product's own keys win. A product's unit
+-- key is for its base unit; without one, invoices use the key of the line's
+-- unit (lib/sat-catalogs.ts UNIT_KEYS). Keys are checked for format only:
+-- the full SAT catalog is far larger than the copy bundled in data/sat.
+
+ALTER TABLE product_categories
+    ADD COLUMN IF NOT EXISTS sat_product_key TEXT CHECK (sat_product_key ~ '^[0-9]{8}$'),
+    ADD COLUMN IF NOT EXISTS sat_unit_key TEXT CHECK (sat_unit_key ~ '^[A-Z0-9]{1,3}$');
+
+ALTER TABLE products
+    ADD COLUMN IF NOT EXISTS sat_product_key TEXT CHECK (sat_product_key ~ '^[0-9]{8}$'),
+    ADD COLUMN IF NOT EXISTS sat_unit_key TEXT CHECK (sat_unit_key ~ '^[A-Z0-9]{1,3}$');
+
+-- Missing keys report: products without a product key of their own
+CREATE INDEX IF NOT EXISTS products_without_sat_key_idx ON products (category_id) WHERE sat_product_key IS NULL;
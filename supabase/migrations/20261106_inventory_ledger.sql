@@ -0,0 +1,232 @@
+-- Inventory ledger with stock reservations
+-- Every change to stock is a row in inventory_movements: receipts and returns
+-- add stock, sales take it out, adjustments correct it either way and
+-- transfers move it between locations. products.stock_quantity is the sum of
+-- a product's movements, kept up to date by a trigger, and is no longer
+-- edited by hand. Movements are never updated or deleted; mistakes are
+-- corrected with an adjustment.
+--
+-- Confirming an order reserves its goods (stock_reservations), shipping it
+-- turns the reservation into sale movements and cancelling it releases the
+-- reservation. Available stock is on hand minus what active reservations hold.
+
+CREATE TABLE IF NOT EXISTS inventory_movements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID NOT NULL REFERENCES products(id),
+    type TEXT NOT NULL CHECK (type IN ('receipt', 'sale', 'adjustment', 'return', 'transfer')),
+    -- Signed, in the product's base unit: positive adds stock, negative takes it out
+    quantity INTEGER NOT NULL CHECK (quantity <> 0),
+    -- Where the stock is; a transfer is a pair of rows that cancel out
+    location TEXT,
+    document_id UUID REFERENCES documents(id),
+    reference TEXT,
+    notes TEXT,
+    unit_cost NUMERIC(12,2) CHECK (unit_cost IS NULL OR unit_cost >= 0),
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK (type NOT IN ('receipt', 'return') OR quantity > 0),
+    CHECK (type <> 'sale' OR quantity < 0),
+    CHECK (type <> 'transfer' OR location IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product
+    ON inventory_movements(product_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_document
+    ON inventory_movements(document_id)
+    WHERE document_id IS NOT NULL;
+
+-- Goods an order holds between confirmation and shipping, in base units
+CREATE TABLE IF NOT EXISTS stock_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'consumed', 'released')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_active
+    ON stock_reservations(product_id)
+    WHERE status = 'active';
+
+-- Opening balances: the stock products have now, entered by hand until this
+-- migration, becomes their first movement
+INSERT INTO inventory_movements (product_id, type, quantity, reference, notes)
+SELECT products.id, 'adjustment', products.stock_quantity, 'OPENING', 'Opening balance'
+FROM products
+WHERE products.stock_quantity <> 0
+  AND NOT EXISTS (
+      SELECT 1 FROM inventory_movements
+      WHERE inventory_movements.product_id = products.id
+  );
+
+CREATE OR REPLACE FUNCTION apply_inventory_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE products
+    SET stock_quantity = stock_quantity + NEW.quantity
+    WHERE id = NEW.product_id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_movements_apply ON inventory_movements;
+
+CREATE TRIGGER inventory_movements_apply
+    AFTER INSERT ON inventory_movements
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_inventory_movement();
+
+-- The goods an order takes out of stock, per product in base units. Bundle
+-- lines take out their components (bundles hold no stock of their own);
+-- other lines take out the product. Lines left out of a quotation's options
+-- take out nothing.
+CREATE OR REPLACE FUNCTION order_stock_lines(p_order_id UUID)
+RETURNS TABLE (product_id UUID, quantity INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT line.product_id, SUM(line.quantity)::INTEGER AS quantity
+    FROM (
+        SELECT
+            (component->>'product_id')::UUID AS product_id,
+            (component->>'quantity')::NUMERIC * document_items.quantity * document_items.unit_factor AS quantity
+        FROM document_items
+        CROSS JOIN LATERAL jsonb_array_elements(document_items.bundle_components) AS component
+        WHERE document_items.document_id = p_order_id
+          AND document_items.bundle_components IS NOT NULL
+          AND document_items.is_selected
+
+        UNION ALL
+
+        SELECT document_items.product_id, document_items.quantity * document_items.unit_factor
+        FROM document_items
+        WHERE document_items.document_id = p_order_id
+          AND document_items.bundle_components IS NULL
+          AND document_items.product_id IS NOT NULL
+          AND document_items.is_selected
+    ) AS line
+    GROUP BY line.product_id
+    HAVING SUM(line.quantity) > 0;
+$$;
+
+GRANT EXECUTE ON FUNCTION order_stock_lines(UUID) TO authenticated;
+
+-- Reserve on confirmed, sell on shipped, release on cancelled
+CREATE OR REPLACE FUNCTION apply_order_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.order_status = 'confirmed' THEN
+        INSERT INTO stock_reservations (order_id, product_id, quantity)
+        SELECT NEW.id, lines.product_id, lines.quantity
+        FROM order_stock_lines(NEW.id) AS lines
+        ON CONFLICT (order_id, product_id) DO UPDATE
+        SET quantity = EXCLUDED.quantity, status = 'active', updated_at = now();
+
+    ELSIF NEW.order_status = 'shipped' THEN
+        INSERT INTO inventory_movements (product_id, type, quantity, document_id, reference, created_by)
+        SELECT lines.product_id, 'sale', -lines.quantity, NEW.id, NEW.folio, auth.uid()
+        FROM order_stock_lines(NEW.id) AS lines;
+
+        UPDATE stock_reservations
+        SET status = 'consumed', updated_at = now()
+        WHERE order_id = NEW.id AND status = 'active';
+
+    ELSIF NEW.order_status = 'cancelled' THEN
+        UPDATE stock_reservations
+        SET status = 'released', updated_at = now()
+        WHERE order_id = NEW.id AND status = 'active';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Shipping now posts sale movements instead of editing stock directly
+DROP TRIGGER IF EXISTS documents_decrement_stock_on_ship ON documents;
+DROP FUNCTION IF EXISTS decrement_stock_on_ship();
+
+DROP TRIGGER IF EXISTS documents_apply_order_stock ON documents;
+
+CREATE TRIGGER documents_apply_order_stock
+    AFTER UPDATE OF order_status ON documents
+    FOR EACH ROW
+    WHEN (
+        NEW.type = 'order'
+        AND NEW.order_status IN ('confirmed', 'shipped', 'cancelled')
+        AND OLD.order_status IS DISTINCT FROM NEW.order_status
+    )
+    EXECUTE FUNCTION apply_order_stock();
+
+-- Orders confirmed before the ledger hold their goods too
+INSERT INTO stock_reservations (order_id, product_id, quantity)
+SELECT documents.id, lines.product_id, lines.quantity
+FROM documents
+CROSS JOIN LATERAL order_stock_lines(documents.id) AS lines
+WHERE documents.type = 'order'
+  AND documents.order_status IN ('confirmed', 'in_progress', 'ready')
+ON CONFLICT (order_id, product_id) DO NOTHING;
+
+-- On hand, reserved and available per product
+CREATE OR REPLACE VIEW product_stock
+WITH (security_invoker = true)
+AS
+SELECT
+    products.id AS product_id,
+    products.stock_quantity AS on_hand,
+    COALESCE(reserved.quantity, 0)::INTEGER AS reserved,
+    (products.stock_quantity - COALESCE(reserved.quantity, 0))::INTEGER AS available
+FROM products
+LEFT JOIN (
+    SELECT stock_reservations.product_id, SUM(stock_reservations.quantity) AS quantity
+    FROM stock_reservations
+    WHERE stock_reservations.status = 'active'
+    GROUP BY stock_reservations.product_id
+) AS reserved ON reserved.product_id = products.id;
+
+GRANT SELECT ON product_stock TO authenticated;
+
+ALTER TABLE inventory_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view inventory movements" ON inventory_movements;
+DROP POLICY IF EXISTS "Admins can record inventory movements" ON inventory_movements;
+DROP POLICY IF EXISTS "Admins can view stock reservations" ON stock_reservations;
+
+-- Movements are only inserted; reservations are only written by apply_order_stock
+CREATE POLICY "Admins can view inventory movements" ON inventory_movements
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can record inventory movements" ON inventory_movements
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can view stock reservations" ON stock_reservations
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
@@ -0,0 +1,7 @@
+-- Backordered quotation lines
+-- A line the available stock cannot supply is either cut to what is in stock
+-- or quoted whole and backordered: what is missing ships when stock comes in.
+-- Converting a quotation copies the flag to the order's lines.
+
+ALTER TABLE document_items
+    ADD COLUMN IF NOT EXISTS backorder BOOLEAN NOT NULL DEFAULT false;
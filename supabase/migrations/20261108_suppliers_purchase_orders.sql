@@ -0,0 +1,382 @@
+-- Suppliers and purchase orders
+-- Suppliers sell products at their own cost and lead time (supplier_products);
+-- one of them can be a product's preferred supplier. A purchase order goes
+-- draft → sent → partially received → received → closed, or is cancelled
+-- before anything arrives. Receiving posts receipt movements to the inventory
+-- ledger and can carry the cost paid over to products.cost_price, in one
+-- transaction (receive_purchase_order). Quantities are in the product's base
+-- unit, like the ledger.
+
+CREATE TABLE IF NOT EXISTS suppliers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    rfc TEXT,
+    contact_name TEXT,
+    email TEXT,
+    phone TEXT,
+    address TEXT,
+    -- Days from sending an order to receiving it, unless the product says otherwise
+    lead_time_days INTEGER NOT NULL DEFAULT 0 CHECK (lead_time_days >= 0),
+    payment_terms TEXT,
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS suppliers_rfc_unique
+    ON suppliers(rfc)
+    WHERE rfc IS NOT NULL;
+
+-- What a supplier charges for a product, per base unit
+CREATE TABLE IF NOT EXISTS supplier_products (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    supplier_code TEXT,
+    cost NUMERIC(12,2) NOT NULL CHECK (cost >= 0),
+    lead_time_days INTEGER CHECK (lead_time_days IS NULL OR lead_time_days >= 0),
+    is_preferred BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (supplier_id, product_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS supplier_products_one_preferred
+    ON supplier_products(product_id)
+    WHERE is_preferred;
+
+CREATE INDEX IF NOT EXISTS idx_supplier_products_product ON supplier_products(product_id);
+
+-- Last purchase order number handed out per year
+CREATE TABLE IF NOT EXISTS purchase_order_counters (
+    year INTEGER PRIMARY KEY,
+    last_value INTEGER NOT NULL DEFAULT 0 CHECK (last_value >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    folio TEXT UNIQUE,
+    supplier_id UUID NOT NULL REFERENCES suppliers(id),
+    status TEXT NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'closed', 'cancelled')),
+    order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    expected_date DATE,
+    currency TEXT NOT NULL DEFAULT 'MXN',
+    -- MXN per unit of currency, frozen when the order is saved
+    exchange_rate NUMERIC(12,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+    tax_rate NUMERIC(5,4) NOT NULL DEFAULT 0.16 CHECK (tax_rate >= 0),
+    subtotal NUMERIC(12,2) NOT NULL DEFAULT 0,
+    tax_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+    total NUMERIC(12,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    sent_at TIMESTAMPTZ,
+    received_at TIMESTAMPTZ,
+    closed_at TIMESTAMPTZ,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id),
+    supplier_code TEXT,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_cost NUMERIC(12,2) NOT NULL CHECK (unit_cost >= 0),
+    received_quantity INTEGER NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK (received_quantity <= quantity),
+    UNIQUE (purchase_order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_product ON purchase_order_items(product_id);
+
+-- Every purchase order insert gets the next folio of its year, e.g.
+-- OC-2026-000001, in the same transaction so a failed insert leaves no gap
+CREATE OR REPLACE FUNCTION assign_purchase_order_folio()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_year INTEGER := EXTRACT(YEAR FROM NEW.order_date)::INTEGER;
+    v_next INTEGER;
+BEGIN
+    INSERT INTO purchase_order_counters (year, last_value)
+    VALUES (v_year, 1)
+    ON CONFLICT (year)
+    DO UPDATE SET last_value = purchase_order_counters.last_value + 1
+    RETURNING last_value INTO v_next;
+
+    NEW.folio := 'OC-' || v_year || '-' || lpad(v_next::TEXT, GREATEST(6, length(v_next::TEXT)), '0');
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS purchase_orders_assign_folio ON purchase_orders;
+
+CREATE TRIGGER purchase_orders_assign_folio
+    BEFORE INSERT ON purchase_orders
+    FOR EACH ROW
+    WHEN (NEW.folio IS NULL)
+    EXECUTE FUNCTION assign_purchase_order_folio();
+
+CREATE OR REPLACE FUNCTION set_supplier_products(
+    p_supplier_id UUID,
+    p_items JSONB
+) RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+    DELETE FROM supplier_products WHERE supplier_id = p_supplier_id;
+
+    -- A supplier marked preferred takes the place of the product's previous one
+    UPDATE supplier_products
+    SET is_preferred = false, updated_at = now()
+    WHERE is_preferred
+      AND product_id IN (
+          SELECT item.product_id
+          FROM jsonb_to_recordset(p_items) AS item(product_id UUID, is_preferred BOOLEAN)
+          WHERE item.is_preferred
+      );
+
+    INSERT INTO supplier_products (supplier_id, product_id, supplier_code, cost, lead_time_days, is_preferred)
+    SELECT p_supplier_id, item.product_id, item.supplier_code, item.cost, item.lead_time_days, item.is_preferred
+    FROM jsonb_to_recordset(p_items)
+        AS item(product_id UUID, supplier_code TEXT, cost NUMERIC, lead_time_days INTEGER, is_preferred BOOLEAN);
+
+    UPDATE suppliers SET updated_at = now() WHERE id = p_supplier_id;
+$$;
+
+-- Lines of a draft are replaced whole; sent orders keep theirs
+CREATE OR REPLACE FUNCTION set_purchase_order_items(
+    p_purchase_order_id UUID,
+    p_items JSONB
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM purchase_orders
+        WHERE id = p_purchase_order_id AND status = 'draft'
+    ) THEN
+        RAISE EXCEPTION 'Only draft purchase orders can be edited';
+    END IF;
+
+    DELETE FROM purchase_order_items WHERE purchase_order_id = p_purchase_order_id;
+
+    INSERT INTO purchase_order_items (purchase_order_id, product_id, supplier_code, quantity, unit_cost)
+    SELECT p_purchase_order_id, item.product_id, item.supplier_code, item.quantity, item.unit_cost
+    FROM jsonb_to_recordset(p_items)
+        AS item(product_id UUID, supplier_code TEXT, quantity INTEGER, unit_cost NUMERIC);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_supplier_products(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_purchase_order_items(UUID, JSONB) TO authenticated;
+
+-- Receive goods against a sent purchase order. p_receipts is an array of
+-- {"item_id", "quantity"}; every line received posts a receipt movement at
+-- its unit cost in MXN, referenced by the order's folio. The order becomes
+-- received once every line is in full, partially received before that. With
+-- p_update_cost the products' cost_price becomes the cost just paid.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+    p_purchase_order_id UUID,
+    p_receipts JSONB,
+    p_update_cost BOOLEAN DEFAULT false,
+    p_location TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_order purchase_orders%ROWTYPE;
+    v_receipt RECORD;
+    v_item purchase_order_items%ROWTYPE;
+    v_unit_cost NUMERIC(12,2);
+    v_received INTEGER := 0;
+    v_status TEXT;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Only admin users can receive purchase orders'
+        );
+    END IF;
+
+    -- Lock the order so concurrent receipts serialize on it
+    SELECT * INTO v_order
+    FROM purchase_orders
+    WHERE id = p_purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'NOT_FOUND',
+            'message', 'Purchase order not found'
+        );
+    END IF;
+
+    IF v_order.status NOT IN ('sent', 'partially_received') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_STATUS',
+            'message', 'Only sent purchase orders can be received'
+        );
+    END IF;
+
+    FOR v_receipt IN
+        SELECT (entry->>'item_id')::UUID AS item_id, (entry->>'quantity')::INTEGER AS quantity
+        FROM jsonb_array_elements(p_receipts) AS entry
+    LOOP
+        CONTINUE WHEN v_receipt.quantity IS NULL OR v_receipt.quantity = 0;
+
+        SELECT * INTO v_item
+        FROM purchase_order_items
+        WHERE id = v_receipt.item_id AND purchase_order_id = p_purchase_order_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Item % is not on purchase order %', v_receipt.item_id, v_order.folio;
+        END IF;
+
+        IF v_receipt.quantity < 0 OR v_item.received_quantity + v_receipt.quantity > v_item.quantity THEN
+            RAISE EXCEPTION 'Cannot receive % of item %: % of % already received',
+                v_receipt.quantity, v_item.id, v_item.received_quantity, v_item.quantity;
+        END IF;
+
+        UPDATE purchase_order_items
+        SET received_quantity = received_quantity + v_receipt.quantity
+        WHERE id = v_item.id;
+
+        v_unit_cost := ROUND(v_item.unit_cost * v_order.exchange_rate, 2);
+
+        INSERT INTO inventory_movements (product_id, type, quantity, location, reference, unit_cost, created_by)
+        VALUES (v_item.product_id, 'receipt', v_receipt.quantity, p_location, v_order.folio, v_unit_cost, auth.uid());
+
+        IF p_update_cost THEN
+            UPDATE products
+            SET cost_price = v_unit_cost, updated_at = now()
+            WHERE id = v_item.product_id;
+        END IF;
+
+        v_received := v_received + v_receipt.quantity;
+    END LOOP;
+
+    IF v_received = 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'NOTHING_RECEIVED',
+            'message', 'Enter the quantities received'
+        );
+    END IF;
+
+    v_status := CASE
+        WHEN EXISTS (
+            SELECT 1 FROM purchase_order_items
+            WHERE purchase_order_id = p_purchase_order_id AND received_quantity < quantity
+        ) THEN 'partially_received'
+        ELSE 'received'
+    END;
+
+    UPDATE purchase_orders
+    SET status = v_status,
+        received_at = CASE WHEN v_status = 'received' THEN now() ELSE received_at END,
+        updated_at = now()
+    WHERE id = p_purchase_order_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', CASE
+            WHEN v_status = 'received' THEN 'Purchase order received in full'
+            ELSE 'Partial receipt recorded'
+        END,
+        'status', v_status
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_purchase_order(UUID, JSONB, BOOLEAN, TEXT) TO authenticated;
+
+-- When stock still on order is expected, per product: the earliest expected
+-- date of the sent orders it is outstanding on
+CREATE OR REPLACE VIEW product_restock_dates
+WITH (security_invoker = true)
+AS
+SELECT
+    purchase_order_items.product_id,
+    MIN(purchase_orders.expected_date) AS expected_date,
+    SUM(purchase_order_items.quantity - purchase_order_items.received_quantity)::INTEGER AS on_order
+FROM purchase_order_items
+JOIN purchase_orders ON purchase_orders.id = purchase_order_items.purchase_order_id
+WHERE purchase_orders.status IN ('sent', 'partially_received')
+  AND purchase_order_items.received_quantity < purchase_order_items.quantity
+GROUP BY purchase_order_items.product_id;
+
+GRANT SELECT ON product_restock_dates TO authenticated;
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE supplier_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Admins can manage supplier products" ON supplier_products;
+DROP POLICY IF EXISTS "Admins can view purchase order counters" ON purchase_order_counters;
+DROP POLICY IF EXISTS "Admins can manage purchase orders" ON purchase_orders;
+DROP POLICY IF EXISTS "Admins can manage purchase order items" ON purchase_order_items;
+
+CREATE POLICY "Admins can manage suppliers" ON suppliers
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can manage supplier products" ON supplier_products
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+-- Counters are only written through assign_purchase_order_folio
+CREATE POLICY "Admins can view purchase order counters" ON purchase_order_counters
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can manage purchase orders" ON purchase_orders
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can manage purchase order items" ON purchase_order_items
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    );
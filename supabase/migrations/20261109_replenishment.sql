@@ -0,0 +1,47 @@
+-- Replenishment
+-- What reorder suggestions are computed from: units sold over a recent
+-- window and units already on order, including orders still being drafted
+-- so a product is not suggested twice.
+
+-- Units of each product shipped since a date, from the sale movements in the
+-- inventory ledger. Kits count as their components, the way the ledger
+-- takes them out of stock. Runs as the caller, so only admins, who can read
+-- the ledger, get anything back.
+CREATE OR REPLACE FUNCTION product_sales(p_since TIMESTAMPTZ)
+RETURNS TABLE (product_id UUID, quantity INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT inventory_movements.product_id, (-SUM(inventory_movements.quantity))::INTEGER AS quantity
+    FROM inventory_movements
+    WHERE inventory_movements.type = 'sale'
+      AND inventory_movements.created_at >= p_since
+    GROUP BY inventory_movements.product_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION product_sales(TIMESTAMPTZ) TO authenticated;
+
+-- Restock dates and on-order quantities still come from sent orders only;
+-- drafted counts what draft orders would add once sent
+CREATE OR REPLACE VIEW product_restock_dates
+WITH (security_invoker = true)
+AS
+SELECT
+    purchase_order_items.product_id,
+    MIN(purchase_orders.expected_date) FILTER (
+        WHERE purchase_orders.status IN ('sent', 'partially_received')
+    ) AS expected_date,
+    COALESCE(SUM(purchase_order_items.quantity - purchase_order_items.received_quantity) FILTER (
+        WHERE purchase_orders.status IN ('sent', 'partially_received')
+    ), 0)::INTEGER AS on_order,
+    COALESCE(SUM(purchase_order_items.quantity) FILTER (
+        WHERE purchase_orders.status = 'draft'
+    ), 0)::INTEGER AS drafted
+FROM purchase_order_items
+JOIN purchase_orders ON purchase_orders.id = purchase_order_items.purchase_order_id
+WHERE purchase_orders.status IN ('draft', 'sent', 'partially_received')
+  AND purchase_order_items.received_quantity < purchase_order_items.quantity
+GROUP BY purchase_order_items.product_id;
+
+GRANT SELECT ON product_restock_dates TO authenticated;
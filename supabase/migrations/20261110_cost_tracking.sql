@@ -0,0 +1,137 @@
+-- Cost tracking and realized margins
+-- cost_price is the cost a product is bought at today, edited by hand, by
+-- imports and by receiving purchase orders; it says nothing about what the
+-- stock on the shelf cost. average_cost is the weighted-average cost of that
+-- stock, moved by every receipt at the receipt's unit cost: receiving q units
+-- at c onto s units at a makes it (s * a + q * c) / (s + q). Other movements
+-- take stock in or out at the average and leave it as it is.
+--
+-- An order line keeps the cost of what it sells from the moment the order is
+-- created (document_items.unit_cost, MXN per unit sold), so the margin of an
+-- order stays what it was however costs move afterwards. Realized margin
+-- counts shipped and delivered orders: revenue is the lines' subtotals after
+-- discounts and before tax, in MXN at the order's exchange rate.
+
+ALTER TABLE products
+    ADD COLUMN IF NOT EXISTS average_cost NUMERIC(12,4) CHECK (average_cost IS NULL OR average_cost >= 0);
+
+-- Until a product is received, its average is the cost it was entered at
+UPDATE products
+SET average_cost = cost_price
+WHERE average_cost IS NULL;
+
+ALTER TABLE document_items
+    ADD COLUMN IF NOT EXISTS unit_cost NUMERIC(12,4) CHECK (unit_cost IS NULL OR unit_cost >= 0);
+
+-- Receipts move the average before the stock they add is counted; with no
+-- stock left (or less than none) the receipt's cost becomes the average
+CREATE OR REPLACE FUNCTION apply_inventory_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE products
+    SET
+        average_cost = CASE
+            WHEN NEW.type <> 'receipt' OR NEW.unit_cost IS NULL THEN average_cost
+            WHEN stock_quantity <= 0 OR average_cost IS NULL THEN NEW.unit_cost
+            ELSE ROUND(
+                (stock_quantity * average_cost + NEW.quantity * NEW.unit_cost) / (stock_quantity + NEW.quantity),
+                4
+            )
+        END,
+        stock_quantity = stock_quantity + NEW.quantity
+    WHERE id = NEW.product_id;
+
+    RETURN NEW;
+END;
+$$;
+
+-- What one unit of an order line costs, in MXN: the product's average cost
+-- times the base units the line's unit holds. Bundle lines cost their
+-- components, as snapshotted on the line. Lines with no product cost nothing
+-- known.
+CREATE OR REPLACE FUNCTION document_item_unit_cost(p_item document_items)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT ROUND(p_item.unit_factor * CASE
+        WHEN p_item.bundle_components IS NOT NULL THEN (
+            SELECT SUM((component->>'quantity')::NUMERIC * COALESCE(products.average_cost, products.cost_price))
+            FROM jsonb_array_elements(p_item.bundle_components) AS component
+            JOIN products ON products.id = (component->>'product_id')::UUID
+        )
+        ELSE (
+            SELECT COALESCE(products.average_cost, products.cost_price)
+            FROM products
+            WHERE products.id = p_item.product_id
+        )
+    END, 4);
+$$;
+
+CREATE OR REPLACE FUNCTION snapshot_document_item_cost()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Lines copied from a quotation bring nothing worth keeping
+    IF EXISTS (
+        SELECT 1 FROM documents
+        WHERE documents.id = NEW.document_id AND documents.type = 'order'
+    ) THEN
+        NEW.unit_cost := document_item_unit_cost(NEW);
+    ELSE
+        NEW.unit_cost := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS document_items_snapshot_cost ON document_items;
+
+CREATE TRIGGER document_items_snapshot_cost
+    BEFORE INSERT ON document_items
+    FOR EACH ROW
+    EXECUTE FUNCTION snapshot_document_item_cost();
+
+-- Orders from before this migration get today's costs, the closest there is
+UPDATE document_items
+SET unit_cost = document_item_unit_cost(document_items)
+FROM documents
+WHERE documents.id = document_items.document_id
+  AND documents.type = 'order'
+  AND document_items.unit_cost IS NULL;
+
+-- Revenue and cost of every line of a shipped or delivered order, in MXN
+CREATE OR REPLACE VIEW order_line_margins
+WITH (security_invoker = true)
+AS
+SELECT
+    documents.id AS order_id,
+    documents.folio,
+    documents.created_at AS order_date,
+    documents.company_id,
+    companies.name AS company_name,
+    document_items.id AS item_id,
+    document_items.product_id,
+    products.category_id,
+    product_categories.name AS category_name,
+    ROUND(document_items.subtotal * COALESCE(documents.exchange_rate, 1), 2) AS revenue,
+    ROUND(document_items.quantity * document_items.unit_cost, 2) AS cost
+FROM document_items
+JOIN documents ON documents.id = document_items.document_id
+LEFT JOIN companies ON companies.id = documents.company_id
+LEFT JOIN products ON products.id = document_items.product_id
+LEFT JOIN product_categories ON product_categories.id = products.category_id
+WHERE documents.type = 'order'
+  AND documents.order_status IN ('shipped', 'delivered')
+  AND document_items.is_selected;
+
+GRANT SELECT ON order_line_margins TO authenticated;
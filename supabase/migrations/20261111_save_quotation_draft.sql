@@ -0,0 +1,175 @@
+-- Save a draft quotation's header and lines in one transaction
+-- The quotation builder writes only what changed: p_document holds the header
+-- fields to update (NULL when none changed), p_updates the changed lines with
+-- their ids, p_inserts the new lines in builder order and p_deletes the ids of
+-- the lines removed. The quotation is locked and must still be a draft, so a
+-- quotation sent or converted in the meantime (from another tab, say) is never
+-- touched.
+--
+-- Only the columns the builder edits can be written. The client, folio,
+-- status and revision columns are left alone, and the header totals are added
+-- up here from the selected lines, as select_quotation_options does. Every
+-- save moves updated_at, so PDFs cached by it are rendered again.
+
+-- Keys of a row that are not among the columns allowed, NULL when there are none
+CREATE OR REPLACE FUNCTION disallowed_columns(p_row JSONB, p_allowed TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT string_agg(key, ', ')
+    FROM jsonb_object_keys(p_row) AS key
+    WHERE key <> ALL (p_allowed);
+$$;
+
+CREATE OR REPLACE FUNCTION save_quotation_draft(
+    p_quotation_id UUID,
+    p_user_id UUID,
+    p_document JSONB,
+    p_inserts JSONB,
+    p_updates JSONB,
+    p_deletes UUID[]
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_document_columns CONSTANT TEXT[] := ARRAY[
+        'contact_name', 'contact_email', 'contact_phone', 'validity_days', 'terms',
+        'delivery_terms', 'payment_terms', 'currency', 'exchange_rate',
+        'discount_type', 'discount_value'
+    ];
+    v_item_columns CONSTANT TEXT[] := ARRAY[
+        'product_id', 'product_code', 'product_name', 'unit', 'unit_factor', 'quantity',
+        'list_price', 'price_list_id', 'tier_min_quantity', 'tier_max_quantity',
+        'bundle_components', 'expand_on_pdf', 'is_optional', 'alternative_group',
+        'is_selected', 'backorder', 'tax_included', 'unit_price', 'tax_rate',
+        'discount_type', 'discount_value', 'discount_amount', 'taxes', 'tax_amount',
+        'withholding_amount', 'subtotal', 'total'
+    ];
+    v_status TEXT;
+    v_folio TEXT;
+    v_item JSONB;
+    v_disallowed TEXT;
+    v_columns TEXT;
+    v_item_id UUID;
+    v_item_ids UUID[] := '{}';
+BEGIN
+    -- Only the authenticated user may act as themselves
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Authentication failed - unauthorized user'
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = p_user_id AND users.role = 'admin'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'UNAUTHORIZED',
+            'message', 'Only admin users can edit quotations'
+        );
+    END IF;
+
+    v_disallowed := COALESCE(
+        disallowed_columns(COALESCE(p_document, '{}'::jsonb), v_document_columns),
+        (SELECT string_agg(DISTINCT disallowed_columns(item, v_item_columns), ', ')
+         FROM jsonb_array_elements(COALESCE(p_inserts, '[]'::jsonb)) AS item),
+        (SELECT string_agg(DISTINCT disallowed_columns(item - 'id', v_item_columns), ', ')
+         FROM jsonb_array_elements(COALESCE(p_updates, '[]'::jsonb)) AS item)
+    );
+
+    IF v_disallowed IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_FIELDS',
+            'message', format('These fields cannot be edited: %s', v_disallowed)
+        );
+    END IF;
+
+    SELECT quotation_status, folio INTO v_status, v_folio
+    FROM documents
+    WHERE id = p_quotation_id AND type = 'quotation'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'QUOTATION_NOT_FOUND',
+            'message', 'Quotation not found'
+        );
+    END IF;
+
+    IF v_status IS DISTINCT FROM 'draft' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'INVALID_STATUS',
+            'message', format('Quotation %s is no longer a draft and cannot be edited', v_folio)
+        );
+    END IF;
+
+    IF p_document IS NOT NULL AND p_document <> '{}'::jsonb THEN
+        SELECT string_agg(quote_ident(key), ', ') INTO v_columns
+        FROM jsonb_object_keys(p_document) AS key;
+
+        EXECUTE format(
+            'UPDATE documents SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::documents, $1)) WHERE id = $2',
+            v_columns
+        ) USING p_document, p_quotation_id;
+    END IF;
+
+    DELETE FROM document_items
+    WHERE document_id = p_quotation_id
+      AND id = ANY(COALESCE(p_deletes, '{}'));
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_updates, '[]'::jsonb)) LOOP
+        SELECT string_agg(quote_ident(key), ', ') INTO v_columns
+        FROM jsonb_object_keys(v_item - 'id') AS key;
+
+        EXECUTE format(
+            'UPDATE document_items SET (%1$s, updated_at) = (SELECT %1$s, NOW() FROM jsonb_populate_record(NULL::document_items, $1)) WHERE id = $2 AND document_id = $3',
+            v_columns
+        ) USING v_item, (v_item->>'id')::UUID, p_quotation_id;
+    END LOOP;
+
+    -- New lines get their ids back in the order they were given
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_inserts, '[]'::jsonb)) LOOP
+        SELECT string_agg(quote_ident(key), ', ') INTO v_columns
+        FROM jsonb_object_keys(v_item) AS key;
+
+        EXECUTE format(
+            'INSERT INTO document_items (document_id, %1$s) SELECT $2, %1$s FROM jsonb_populate_record(NULL::document_items, $1) RETURNING id',
+            v_columns
+        ) INTO v_item_id USING v_item, p_quotation_id;
+
+        v_item_ids := v_item_ids || v_item_id;
+    END LOOP;
+
+    UPDATE documents
+    SET (subtotal, discount_amount, tax_amount, withholding_amount, total, updated_at) = (
+        SELECT
+            COALESCE(SUM(subtotal), 0),
+            COALESCE(SUM(discount_amount), 0),
+            COALESCE(SUM(tax_amount), 0),
+            COALESCE(SUM(withholding_amount), 0),
+            COALESCE(SUM(total), 0),
+            NOW()
+        FROM document_items
+        WHERE document_id = p_quotation_id AND is_selected
+    )
+    WHERE id = p_quotation_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', format('Quotation %s saved', v_folio),
+        'itemIds', to_jsonb(v_item_ids)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_quotation_draft(UUID, UUID, JSONB, JSONB, JSONB, UUID[]) TO authenticated;
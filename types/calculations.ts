@@ -3,12 +3,30 @@
  * Re-exports from calculations module for centralized type management
  */
 
+import type {
+  TaxConfiguration,
+  LineItemCalculation,
+  LineTaxAmount,
+  DocumentTotals,
+  Discount,
+  DiscountType,
+  TaxCode,
+  TaxKind
+} from '../lib/calculations'
+import type { BundleComponent } from '../lib/bundles'
+
 // Re-export calculation interfaces from the main calculations module
 export type {
   TaxConfiguration,
   ProductPricing,
   LineItemCalculation,
-  DocumentTotals
+  DocumentTotals,
+  Discount,
+  DiscountType,
+  TaxCode,
+  TaxKind,
+  LineTaxAmount,
+  TaxBreakdownEntry
 } from '../lib/calculations'
 
 // Additional database-related types for calculations
@@ -37,6 +55,10 @@ export interface DatabaseTax {
   amount?: number;
   is_default: boolean;
   is_active: boolean;
+  code: TaxCode;
+  kind: TaxKind;
+  apply_order: number;
+  is_compound: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -49,10 +71,27 @@ export interface DatabaseQuotationItem {
   product_name: string;
   product_description?: string;
   unit: string;
+  unit_factor: number; // Base units per line unit, 1 in the base unit
   quantity: number;
-  unit_price: number; // Snapshot price at quotation time
+  list_price: number; // Catalog price as quoted, taxes included when tax_included
+  price_list_id: string | null; // Price list the price came from, null for the public price
+  tier_min_quantity: number | null; // Volume tier applied, null at the public or a list price
+  tier_max_quantity: number | null; // Null for the top tier
+  bundle_components: BundleComponent[] | null; // Kit contents per kit, null for plain products
+  expand_on_pdf: boolean; // List the kit contents on the PDF
+  is_optional: boolean; // Offered on top of the quotation
+  alternative_group: string | null; // The client takes one line of each group
+  is_selected: boolean; // Counted in the totals; option lines until the client takes them are not
+  backorder: boolean; // Quoted whole though stock is short; the rest ships when restocked
+  tax_included: boolean;
+  unit_price: number; // Snapshot net price at quotation time
   tax_rate: number;   // Snapshot tax rate at quotation time
+  discount_type: DiscountType | null;
+  discount_value: number;
+  discount_amount: number; // Calculated, includes the share of the document discount
+  taxes: LineTaxAmount[]; // Snapshot of every tax applied to the line
   tax_amount: number; // Calculated
+  withholding_amount: number; // Calculated
   subtotal: number;   // Calculated
   total: number;      // Calculated
   order_index: number;
@@ -65,9 +104,15 @@ export interface DatabaseQuotation {
   folio: string;
   company_id: string;
   user_id: string;
+  discount_type: DiscountType | null;
+  discount_value: number;
+  discount_amount: number; // Calculated, line and document discounts
   subtotal: number;   // Calculated
   tax_amount: number; // Calculated
+  withholding_amount: number; // Calculated
   total: number;      // Calculated
+  currency: 'MXN' | 'USD';
+  exchange_rate: number; // MXN per unit of currency, frozen at creation
   status: 'draft' | 'generated' | 'in_review' | 'approved' | 'rejected' | 'expired' | 'converted';
   valid_until: string;
   notes?: string;
@@ -93,6 +138,9 @@ export interface LineItemCalculationInput {
   quantity: number;
   unit_price: number;
   tax_rate: number;
+  taxes?: TaxConfiguration[];
+  discount?: Discount | null;
+  tax_included?: boolean; // unit_price already carries the taxes
 }
 
 // UI-specific calculation types
@@ -105,7 +153,9 @@ export interface FormattedLineItem extends LineItemCalculation {
 
 export interface FormattedDocumentTotals extends DocumentTotals {
   formatted_subtotal: string;
+  formatted_discount_amount: string;
   formatted_tax_amount: string;
+  formatted_withholding_amount: string;
   formatted_total: string;
 }
 